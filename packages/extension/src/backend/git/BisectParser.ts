@@ -0,0 +1,68 @@
+export interface BisectLog {
+  bad?: string;
+  firstBad?: string;
+  good: readonly string[];
+  skipped: readonly string[];
+}
+
+export interface BisectVariables {
+  remainingRevisions: number;
+  remainingSteps: number;
+}
+
+export function parseBisectLog(output: string): BisectLog | undefined {
+  const lines = output.split("\n").map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  const good: string[] = [];
+  const skipped: string[] = [];
+  let bad: string | undefined;
+  let firstBad: string | undefined;
+
+  for (const line of lines) {
+    const match = /^# (bad|good|skip|first bad commit): \[([0-9a-f]+)\]/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, kind, hash] = match;
+    if (kind === "bad") {
+      bad = hash;
+    } else if (kind === "good") {
+      good.push(hash!);
+    } else if (kind === "skip") {
+      skipped.push(hash!);
+    } else {
+      firstBad = hash;
+    }
+  }
+
+  return { bad, firstBad, good, skipped };
+}
+
+export function parseBisectVariables(output: string): BisectVariables {
+  const variables = new Map(
+    output
+      .split("\n")
+      .map((line) => /^(\w+)='?([^']*)'?$/.exec(line.trim()))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => [match[1]!, match[2]!] as const)
+  );
+
+  return {
+    remainingRevisions: Number(variables.get("bisect_nr") ?? 0),
+    remainingSteps: Number(variables.get("bisect_steps") ?? 0)
+  };
+}
+
+export function bisectOutputMessage(output: string): string | undefined {
+  const lines = output.split("\n").map((line) => line.trim());
+  const firstBadLine = lines.find((line) => line.endsWith(" is the first bad commit"));
+  if (firstBadLine) {
+    return `${firstBadLine.slice(0, 8)} is the first bad commit`;
+  }
+
+  return [...lines].reverse().find((line) => line.startsWith("Bisecting:") || line.startsWith("There are only 'skip'ped commits left"));
+}
@@ -0,0 +1,144 @@
+import { simpleGit } from "simple-git";
+import { window } from "vscode";
+import type { BisectStateViewModel, BisectVerdict, OperationResultViewModel } from "../rpc/contract";
+import type { Logger } from "../../logging/LoggerService";
+import { bisectOutputMessage, parseBisectLog, parseBisectVariables } from "./BisectParser";
+
+export interface BisectActionResult {
+  result: OperationResultViewModel;
+  state: BisectStateViewModel;
+}
+
+export interface BisectServiceInput {
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  gitStream?: (repositoryRoot: string, args: readonly string[], onOutput: (chunk: string) => void) => Promise<string>;
+  logger?: Pick<Logger, "info">;
+  showInputBox?: (options: { placeHolder?: string; prompt: string; value?: string }) => Thenable<string | undefined>;
+}
+
+const inactiveBisectState: BisectStateViewModel = {
+  active: false,
+  candidates: [],
+  good: [],
+  remainingRevisions: 0,
+  remainingSteps: 0,
+  skipped: []
+};
+
+export class BisectService {
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly gitStream: (repositoryRoot: string, args: readonly string[], onOutput: (chunk: string) => void) => Promise<string>;
+  private readonly logger: Pick<Logger, "info"> | undefined;
+  private readonly showInputBox: (options: { placeHolder?: string; prompt: string; value?: string }) => Thenable<string | undefined>;
+  private lastRunCommand: string | undefined;
+
+  public constructor(input: BisectServiceInput = {}) {
+    this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.gitStream =
+      input.gitStream ??
+      ((repositoryRoot, args, onOutput) =>
+        simpleGit(repositoryRoot)
+          .outputHandler((_command, stdout, stderr) => {
+            stdout.on("data", (chunk: Buffer) => onOutput(chunk.toString()));
+            stderr.on("data", (chunk: Buffer) => onOutput(chunk.toString()));
+          })
+          .raw([...args]));
+    this.logger = input.logger;
+    this.showInputBox = input.showInputBox ?? ((options) => window.showInputBox(options));
+  }
+
+  public async getState(repositoryRoot: string): Promise<BisectStateViewModel> {
+    const log = parseBisectLog(await this.gitRaw(repositoryRoot, ["bisect", "log"]).catch(() => ""));
+    if (!log) {
+      return inactiveBisectState;
+    }
+
+    const current = (await this.gitRaw(repositoryRoot, ["rev-parse", "HEAD"])).trim();
+    if (log.firstBad) {
+      return { ...log, active: true, candidates: [log.firstBad], current, remainingRevisions: 0, remainingSteps: 0 };
+    }
+    if (!log.bad || log.good.length === 0) {
+      return { ...log, active: true, candidates: [], current, remainingRevisions: 0, remainingSteps: 0 };
+    }
+
+    const rangeArgs = [log.bad, "--not", ...log.good];
+    const [candidateOutput, variablesOutput] = await Promise.all([
+      this.gitRaw(repositoryRoot, ["rev-list", ...rangeArgs]),
+      this.gitRaw(repositoryRoot, ["rev-list", "--bisect-vars", ...rangeArgs])
+    ]);
+
+    return {
+      ...log,
+      ...parseBisectVariables(variablesOutput),
+      active: true,
+      candidates: candidateOutput.split("\n").map((hash) => hash.trim()).filter(Boolean),
+      current
+    };
+  }
+
+  public async start(repositoryRoot: string, good: string, bad: string): Promise<BisectActionResult> {
+    const output = await this.runLoggedGit(repositoryRoot, ["bisect", "start", bad, good, "--"]);
+
+    return this.actionResult(repositoryRoot, output, `Started bisect between ${good.slice(0, 8)} and ${bad.slice(0, 8)}`);
+  }
+
+  public async mark(repositoryRoot: string, verdict: BisectVerdict): Promise<BisectActionResult> {
+    const output = await this.runLoggedGit(repositoryRoot, ["bisect", verdict]);
+
+    return this.actionResult(repositoryRoot, output, `Marked current commit ${verdict}`);
+  }
+
+  public async run(repositoryRoot: string): Promise<BisectActionResult> {
+    const command = await this.showInputBox({
+      placeHolder: "npm test",
+      prompt: "Enter a command to run at each bisect step (exit 0 = good, 125 = skip, other = bad)",
+      value: this.lastRunCommand
+    });
+    if (!command?.trim()) {
+      return {
+        result: { message: "Bisect run cancelled", status: "cancelled" },
+        state: await this.getState(repositoryRoot)
+      };
+    }
+
+    this.lastRunCommand = command.trim();
+    const args = ["bisect", "run", "sh", "-c", this.lastRunCommand];
+    this.logger?.info("git.command", {
+      command: `git -C ${repositoryRoot} ${args.join(" ")}`
+    });
+    let pending = "";
+    const output = await this.gitStream(repositoryRoot, args, (chunk) => {
+      const lines = (pending + chunk).split("\n");
+      pending = lines.pop() ?? "";
+      lines.filter((line) => line.trim()).forEach((line) => this.logger?.info("git.bisect.run", { output: line }));
+    });
+    if (pending.trim()) {
+      this.logger?.info("git.bisect.run", { output: pending });
+    }
+
+    return this.actionResult(repositoryRoot, output, "Bisect run finished");
+  }
+
+  public async reset(repositoryRoot: string): Promise<BisectActionResult> {
+    await this.runLoggedGit(repositoryRoot, ["bisect", "reset"]);
+
+    return {
+      result: { message: "Bisect reset", status: "ok" },
+      state: inactiveBisectState
+    };
+  }
+
+  private async actionResult(repositoryRoot: string, output: string, fallbackMessage: string): Promise<BisectActionResult> {
+    return {
+      result: { message: bisectOutputMessage(output) ?? fallbackMessage, status: "ok" },
+      state: await this.getState(repositoryRoot)
+    };
+  }
+
+  private async runLoggedGit(repositoryRoot: string, args: readonly string[]): Promise<string> {
+    this.logger?.info("git.command", {
+      command: `git -C ${repositoryRoot} ${args.join(" ")}`
+    });
+    return this.gitRaw(repositoryRoot, args);
+  }
+}
@@ -1,5 +1,11 @@
 import { simpleGit } from "simple-git";
-import type { BranchesViewModel, BranchViewModel, RemoteBranchGroupViewModel } from "../rpc/contract";
+import { window } from "vscode";
+import type {
+  BranchesViewModel,
+  BranchViewModel,
+  OperationResultViewModel,
+  RemoteBranchGroupViewModel
+} from "../rpc/contract";
 
 export interface BranchSummary {
   all: readonly string[];
@@ -8,32 +14,161 @@ export interface BranchSummary {
 
 export interface BranchServiceInput {
   branchSummary?: (repositoryRoot: string, args: readonly string[]) => Promise<BranchSummary>;
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  showWarningMessage?: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined>;
+}
+
+interface BranchTracking {
+  ahead?: number;
+  behind?: number;
+  upstream?: string;
 }
 
 export class BranchService {
   private readonly branchSummary: (repositoryRoot: string, args: readonly string[]) => Promise<BranchSummary>;
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly showWarningMessage: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined>;
 
   public constructor(input?: BranchServiceInput) {
     this.branchSummary =
       input?.branchSummary ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).branch([...args]));
+    this.gitRaw = input?.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.showWarningMessage =
+      input?.showWarningMessage ??
+      ((message, options, ...items) => window.showWarningMessage(message, options, ...items));
   }
 
   public async listBranches(repositoryRoot: string): Promise<BranchesViewModel> {
-    const [localSummary, remoteSummary] = await Promise.all([
+    const [localSummary, remoteSummary, trackingOutput] = await Promise.all([
       this.branchSummary(repositoryRoot, []),
-      this.branchSummary(repositoryRoot, ["-r"])
+      this.branchSummary(repositoryRoot, ["-r"]),
+      this.gitRaw(repositoryRoot, [
+        "for-each-ref",
+        "--format=%(refname:short)%00%(upstream:short)%00%(upstream:track,nobracket)",
+        "refs/heads"
+      ])
     ]);
+    const tracking = parseBranchTracking(trackingOutput);
 
     return {
       locals: localSummary.all
         .map((name) => ({
           current: name === localSummary.current,
-          name
+          name,
+          ...tracking.get(name)
         }))
         .sort((a, b) => compareBranchNames(a.name, b.name)),
       remotes: groupRemoteBranches(remoteSummary.all)
     };
   }
+
+  public async renameBranch(repositoryRoot: string, name: string, newName: string): Promise<OperationResultViewModel> {
+    const trimmedName = newName.trim();
+    if (!trimmedName) {
+      throw new Error("Branch name is required");
+    }
+
+    await this.gitRaw(repositoryRoot, ["branch", "-m", name, trimmedName]);
+    return {
+      message: `Renamed branch ${name} to ${trimmedName}`,
+      status: "ok"
+    };
+  }
+
+  public async deleteBranch(
+    repositoryRoot: string,
+    name: string,
+    options: { force?: boolean; remote?: string } = {}
+  ): Promise<OperationResultViewModel> {
+    if (options.remote) {
+      return this.deleteRemoteBranch(repositoryRoot, name, options.remote);
+    }
+
+    const unmergedCount = Number.parseInt(
+      (await this.gitRaw(repositoryRoot, ["rev-list", "--count", `HEAD..refs/heads/${name}`])).trim(),
+      10
+    );
+    const hasUnmergedCommits = unmergedCount > 0;
+    const confirmLabel = hasUnmergedCommits ? "Force Delete" : "Delete Branch";
+    const message = hasUnmergedCommits
+      ? `Branch ${name} has ${unmergedCount} ${unmergedCount === 1 ? "commit" : "commits"} not merged into the current branch. Delete it anyway?`
+      : `Delete branch ${name}?`;
+    const choice = await this.showWarningMessage(message, { modal: true }, confirmLabel);
+    if (choice !== confirmLabel) {
+      return {
+        message: `Delete branch ${name} cancelled`,
+        status: "cancelled"
+      };
+    }
+
+    await this.gitRaw(repositoryRoot, ["branch", options.force || hasUnmergedCommits ? "-D" : "-d", name]);
+    return {
+      message: `Deleted branch ${name}`,
+      status: "ok"
+    };
+  }
+
+  public async setUpstream(repositoryRoot: string, name: string, upstream?: string): Promise<OperationResultViewModel> {
+    if (!upstream) {
+      await this.gitRaw(repositoryRoot, ["branch", "--unset-upstream", name]);
+      return {
+        message: `Removed upstream of ${name}`,
+        status: "ok"
+      };
+    }
+
+    await this.gitRaw(repositoryRoot, ["branch", `--set-upstream-to=${upstream}`, name]);
+    return {
+      message: `Set upstream of ${name} to ${upstream}`,
+      status: "ok"
+    };
+  }
+
+  private async deleteRemoteBranch(repositoryRoot: string, name: string, remote: string): Promise<OperationResultViewModel> {
+    const choice = await this.showWarningMessage(
+      `Delete branch ${name} from remote ${remote}?`,
+      { modal: true },
+      "Delete Remote Branch"
+    );
+    if (choice !== "Delete Remote Branch") {
+      return {
+        message: `Delete branch ${name} cancelled`,
+        status: "cancelled"
+      };
+    }
+
+    await this.gitRaw(repositoryRoot, ["push", remote, "--delete", name.slice(remote.length + 1)]);
+    return {
+      message: `Deleted remote branch ${name}`,
+      status: "ok"
+    };
+  }
+}
+
+function parseBranchTracking(output: string): ReadonlyMap<string, BranchTracking> {
+  const tracking = new Map<string, BranchTracking>();
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [name = "", upstream = "", track = ""] = line.split("\0");
+    if (!upstream) {
+      continue;
+    }
+
+    tracking.set(name, {
+      ahead: Number.parseInt(/ahead (\d+)/.exec(track)?.[1] ?? "0", 10),
+      behind: Number.parseInt(/behind (\d+)/.exec(track)?.[1] ?? "0", 10),
+      upstream
+    });
+  }
+
+  return tracking;
 }
 
 function groupRemoteBranches(branchNames: readonly string[]): readonly RemoteBranchGroupViewModel[] {
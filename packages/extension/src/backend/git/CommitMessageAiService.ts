@@ -1,4 +1,11 @@
-import type { AiProviderSettingsViewModel, CommitMessageSuggestionViewModel, OperationResultViewModel } from "../rpc/contract";
+import type {
+  AiProviderSettingsViewModel,
+  AiSummaryKind,
+  AiSummaryViewModel,
+  CommitMessageProgressViewModel,
+  CommitMessageSuggestionViewModel,
+  OperationResultViewModel
+} from "../rpc/contract";
 import type { SettingsService } from "../../state/SettingsService";
 import type { LanguageModelCommitMessageProvider } from "../vscode/LanguageModelCommitMessageProvider";
 import type { OpenAICompatibleCommitMessageProvider } from "./OpenAICompatibleCommitMessageProvider";
@@ -6,39 +13,192 @@ import { parseGitNumstatPath, unquoteGitPath } from "./GitPathParser";
 
 export interface CommitMessageAiServiceInput {
   gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
-  languageModelProvider: Pick<LanguageModelCommitMessageProvider, "generate">;
-  openAICompatibleProvider: Pick<OpenAICompatibleCommitMessageProvider, "generate">;
+  languageModelProvider: Pick<LanguageModelCommitMessageProvider, "complete" | "generate">;
+  openAICompatibleProvider: Pick<OpenAICompatibleCommitMessageProvider, "complete" | "generate">;
+  openMarkdownDocument?: (content: string) => PromiseLike<void>;
+  postProgress?: (progress: CommitMessageProgressViewModel) => void;
   promptWindowCharacters?: number;
   settingsService: Pick<SettingsService, "getOpenAICompatibleApiKey" | "getSettings">;
 }
 
+export interface CommitMessageStreamOptions {
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface CommitMessageGenerationOptions {
+  candidates?: number;
+  requestId?: string;
+}
+
 export interface CommitMessageGenerationResult {
   suggestion: CommitMessageSuggestionViewModel;
+  candidates?: readonly CommitMessageSuggestionViewModel[];
+  duplicateCount?: number;
+}
+
+export interface AiSummaryResult {
+  summary: AiSummaryViewModel;
+}
+
+export interface AiSummaryOptions {
+  requestId?: string;
 }
 
+export const maxCommitMessageCandidates = 5;
+
 export class CommitMessageAiService {
   private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
-  private readonly languageModelProvider: Pick<LanguageModelCommitMessageProvider, "generate">;
-  private readonly openAICompatibleProvider: Pick<OpenAICompatibleCommitMessageProvider, "generate">;
+  private readonly languageModelProvider: Pick<LanguageModelCommitMessageProvider, "complete" | "generate">;
+  private readonly openAICompatibleProvider: Pick<OpenAICompatibleCommitMessageProvider, "complete" | "generate">;
+  private readonly openMarkdownDocument: ((content: string) => PromiseLike<void>) | undefined;
+  private readonly postProgress: ((progress: CommitMessageProgressViewModel) => void) | undefined;
   private readonly promptWindowCharacters: number;
   private readonly settingsService: Pick<SettingsService, "getOpenAICompatibleApiKey" | "getSettings">;
+  private readonly runningGenerations = new Map<string, AbortController>();
+  private readonly runningSummaries = new Map<string, AbortController>();
 
   public constructor(input: CommitMessageAiServiceInput) {
     this.gitRaw = input.gitRaw;
     this.languageModelProvider = input.languageModelProvider;
     this.openAICompatibleProvider = input.openAICompatibleProvider;
+    this.openMarkdownDocument = input.openMarkdownDocument;
+    this.postProgress = input.postProgress;
     this.promptWindowCharacters = input.promptWindowCharacters ?? defaultPromptWindowCharacters;
     this.settingsService = input.settingsService;
   }
 
-  public async generate(repositoryRoot: string): Promise<CommitMessageGenerationResult> {
-    const prompt = await this.buildPrompt(repositoryRoot);
-    const message = await this.generateMessage(prompt);
+  public async generate(repositoryRoot: string, options: CommitMessageGenerationOptions = {}): Promise<CommitMessageGenerationResult> {
+    const candidateCount = Math.min(Math.max(Math.trunc(options.candidates ?? 1), 1), maxCommitMessageCandidates);
+    const { requestId } = options;
+    const controller = new AbortController();
+    if (requestId !== undefined) {
+      this.runningGenerations.set(requestId, controller);
+    }
 
-    return {
-      suggestion: {
-        message
+    try {
+      const prompt = await this.buildPrompt(repositoryRoot, controller.signal);
+      const messages = await Promise.all(
+        Array.from({ length: candidateCount }, (_, candidate) =>
+          this.generateMessage(prompt, {
+            onText:
+              requestId !== undefined && this.postProgress
+                ? (text) => this.postProgress?.({ candidate, requestId, text })
+                : undefined,
+            signal: controller.signal
+          })
+        )
+      );
+      const candidates = [...new Set(messages)].map((message) => ({ message }));
+      // Providers can return the same text for several requests; report how many were merged so the
+      // user knows why fewer options than requested are shown.
+      const duplicateCount = messages.length - candidates.length;
+
+      return {
+        suggestion: candidates[0]!,
+        ...(candidateCount > 1 ? { candidates } : {}),
+        ...(duplicateCount > 0 ? { duplicateCount } : {})
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error("Commit message generation cancelled");
       }
+
+      throw error;
+    } finally {
+      if (requestId !== undefined) {
+        this.runningGenerations.delete(requestId);
+      }
+    }
+  }
+
+  public cancel(requestId: string): OperationResultViewModel {
+    const controller = this.runningGenerations.get(requestId);
+    if (!controller) {
+      return {
+        message: "No commit message generation is running",
+        status: "cancelled"
+      };
+    }
+
+    controller.abort();
+    return {
+      message: "Commit message generation cancelled",
+      status: "ok"
+    };
+  }
+
+  public cancelSummary(requestId: string): OperationResultViewModel {
+    const controller = this.runningSummaries.get(requestId);
+    if (!controller) {
+      return {
+        message: "No summary is being generated",
+        status: "cancelled"
+      };
+    }
+
+    controller.abort();
+    return {
+      message: "Summary cancelled",
+      status: "ok"
+    };
+  }
+
+  public async summarizeCommit(repositoryRoot: string, hash: string, options: AiSummaryOptions = {}): Promise<AiSummaryResult> {
+    return this.runSummary(options, async (signal) => {
+      const [messageOutput, statOutput, textDiff] = await Promise.all([
+        this.gitRaw(repositoryRoot, ["show", "-s", "--format=%B", hash]),
+        this.gitRaw(repositoryRoot, ["show", "--first-parent", "--stat", "--format=", hash]),
+        this.gitRaw(repositoryRoot, ["show", "--first-parent", "--no-ext-diff", "--format=", hash])
+      ]);
+
+      return this.summarize(
+        "commit",
+        [`Commit ${hash}`, "", "Commit message:", messageOutput.trim()],
+        statOutput,
+        textDiff,
+        signal
+      );
+    });
+  }
+
+  public async summarizeRange(
+    repositoryRoot: string,
+    fromHash: string,
+    toHash: string,
+    kind: Exclude<AiSummaryKind, "commit">,
+    options: AiSummaryOptions = {}
+  ): Promise<AiSummaryResult> {
+    return this.runSummary(options, async (signal) => {
+      const [base, head] = await this.orderRange(repositoryRoot, fromHash, toHash);
+      const [logOutput, statOutput, textDiff] = await Promise.all([
+        this.gitRaw(repositoryRoot, ["log", "--no-merges", "--format=- %h %s (%an)", `${base}..${head}`]),
+        this.gitRaw(repositoryRoot, ["diff", "--stat", base, head]),
+        this.gitRaw(repositoryRoot, ["diff", "--no-ext-diff", base, head])
+      ]);
+
+      return this.summarize(
+        kind,
+        [`Commits from ${base} to ${head}:`, logOutput.trim() || "- (no commits)"],
+        statOutput,
+        textDiff,
+        signal
+      );
+    });
+  }
+
+  public async openSummary(markdown: string): Promise<OperationResultViewModel> {
+    if (!this.openMarkdownDocument) {
+      return {
+        message: "Opening summaries is not available in this host",
+        status: "cancelled"
+      };
+    }
+
+    await this.openMarkdownDocument(markdown);
+    return {
+      message: "Opened summary as an untitled document",
+      status: "ok"
     };
   }
 
@@ -75,7 +235,8 @@ export class CommitMessageAiService {
     };
   }
 
-  private async generateMessage(prompt: string): Promise<string> {
+  private async generateMessage(prompt: string, options: CommitMessageStreamOptions): Promise<string> {
+    options.signal?.throwIfAborted();
     const settings = this.settingsService.getSettings();
 
     if (settings.ai.provider === "openAICompatible") {
@@ -90,13 +251,124 @@ export class CommitMessageAiService {
         model: settings.ai.openAICompatible.model,
         prompt,
         protocol: settings.ai.openAICompatible.protocol
-      });
+      }, options);
+    }
+
+    return this.languageModelProvider.generate(prompt, options);
+  }
+
+  // Compare selections arrive in history order (newest first); put the ancestor first so the log range is not empty.
+  private async orderRange(repositoryRoot: string, fromHash: string, toHash: string): Promise<readonly [string, string]> {
+    try {
+      await this.gitRaw(repositoryRoot, ["merge-base", "--is-ancestor", toHash, fromHash]);
+      return [toHash, fromHash];
+    } catch {
+      return [fromHash, toHash];
+    }
+  }
+
+  private async runSummary(
+    { requestId }: AiSummaryOptions,
+    summarize: (signal: AbortSignal) => Promise<AiSummaryResult>
+  ): Promise<AiSummaryResult> {
+    const controller = new AbortController();
+    if (requestId !== undefined) {
+      this.runningSummaries.set(requestId, controller);
+    }
+
+    try {
+      return await summarize(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error("Summary cancelled");
+      }
+
+      throw error;
+    } finally {
+      if (requestId !== undefined) {
+        this.runningSummaries.delete(requestId);
+      }
+    }
+  }
+
+  private async completeText(prompt: string, signal: AbortSignal): Promise<string> {
+    signal.throwIfAborted();
+    const settings = this.settingsService.getSettings();
+
+    if (settings.ai.provider === "openAICompatible") {
+      const apiKey = await this.settingsService.getOpenAICompatibleApiKey();
+      if (!apiKey) {
+        throw new Error("OpenAI-compatible API key is not configured");
+      }
+
+      return this.openAICompatibleProvider.complete(
+        {
+          apiKey,
+          baseUrl: settings.ai.openAICompatible.baseUrl,
+          maxTokens: summaryMaxTokens,
+          model: settings.ai.openAICompatible.model,
+          prompt,
+          protocol: settings.ai.openAICompatible.protocol
+        },
+        { signal }
+      );
+    }
+
+    return this.languageModelProvider.complete(prompt, { signal });
+  }
+
+  private async summarize(
+    kind: AiSummaryKind,
+    context: readonly string[],
+    statOutput: string,
+    textDiff: string,
+    signal: AbortSignal
+  ): Promise<AiSummaryResult> {
+    const promptInput = {
+      context,
+      rules: summaryPromptRules[kind],
+      statOutput
+    };
+    const fullPrompt = buildSummaryPrompt({ ...promptInput, textDiff });
+    const prompt =
+      fullPrompt.length <= this.promptWindowCharacters || !textDiff.trim()
+        ? fullPrompt
+        : buildSummaryPrompt({
+            ...promptInput,
+            diffSummaries: await this.summarizeDiffChunks(textDiff, diffSummaryContexts[kind], (chunkPrompt) =>
+              this.completeText(chunkPrompt, signal)
+            )
+          });
+
+    return {
+      summary: {
+        kind,
+        markdown: await this.completeText(prompt, signal)
+      }
+    };
+  }
+
+  // Each chunk is a separate model request, so diffs that need more than a few windows are described
+  // from the per-file diff statistics alone instead of summarizing every chunk.
+  private async summarizeDiffChunks(
+    textDiff: string,
+    context: DiffSummaryContext,
+    generate: (prompt: string) => Promise<string>
+  ): Promise<readonly string[] | undefined> {
+    const chunks = splitTextByCharacterWindow(textDiff, this.promptWindowCharacters);
+    if (chunks.length > maxDiffSummaryChunks) {
+      return undefined;
+    }
+
+    const summaries: string[] = [];
+    for (const chunk of chunks) {
+      summaries.push(await generate(buildDiffSummaryPrompt(chunk, context)));
     }
 
-    return this.languageModelProvider.generate(prompt);
+    return summaries;
   }
 
-  private async buildPrompt(repositoryRoot: string): Promise<string> {
+  private async buildPrompt(repositoryRoot: string, signal: AbortSignal): Promise<string> {
     const settings = this.settingsService.getSettings();
     const [statOutput, nameStatusOutput, numstatOutput] = await Promise.all([
       this.gitRaw(repositoryRoot, ["diff", "--cached", "--stat"]),
@@ -124,10 +396,9 @@ export class CommitMessageAiService {
       return fullPrompt;
     }
 
-    const summaries: string[] = [];
-    for (const chunk of splitTextByCharacterWindow(textDiff, this.promptWindowCharacters)) {
-      summaries.push(await this.generateMessage(buildDiffSummaryPrompt(chunk)));
-    }
+    const summaries = await this.summarizeDiffChunks(textDiff, diffSummaryContexts.commitMessage, (chunkPrompt) =>
+      this.generateMessage(chunkPrompt, { signal })
+    );
 
     return buildFinalPrompt({
       binaryFilePaths: metadata.binaryFilePaths,
@@ -145,6 +416,19 @@ interface StagedDiffMetadata {
   textFilePaths: readonly string[];
 }
 
+interface DiffSummaryContext {
+  diff: string;
+  output: string;
+}
+
+interface SummaryPromptInput {
+  context: readonly string[];
+  diffSummaries?: readonly string[];
+  rules: string;
+  statOutput: string;
+  textDiff?: string;
+}
+
 interface FinalPromptInput {
   binaryFilePaths: readonly string[];
   diffSummaries?: readonly string[];
@@ -160,6 +444,31 @@ const defaultCommitMessagePromptRules = [
 ].join("\n");
 
 const defaultPromptWindowCharacters = 12000;
+const maxDiffSummaryChunks = 8;
+const summaryMaxTokens = 1024;
+
+const summaryPromptRules: Readonly<Record<AiSummaryKind, string>> = {
+  commit: [
+    "Explain this git commit to a reviewer in Markdown.",
+    "Start with a one-sentence overview, then list the notable changes as bullet points.",
+    "Call out behavior changes and risks instead of restating the diff line by line."
+  ].join("\n"),
+  pullRequest: [
+    "Write a pull request description in Markdown for the commits below.",
+    "Use a short summary paragraph, a bullet list of changes, and a Testing section describing what reviewers should verify."
+  ].join("\n"),
+  releaseNotes: [
+    "Write release notes in Markdown for the commits below.",
+    "Group entries under Features, Fixes and Other changes headings, omitting empty groups, and write for users rather than reviewers."
+  ].join("\n")
+};
+
+const diffSummaryContexts: Readonly<Record<AiSummaryKind | "commitMessage", DiffSummaryContext>> = {
+  commit: { diff: "commit diff", output: "commit explanation" },
+  commitMessage: { diff: "staged git diff", output: "commit message" },
+  pullRequest: { diff: "commit range diff", output: "pull request description" },
+  releaseNotes: { diff: "commit range diff", output: "release notes" }
+};
 
 function parseStagedDiffMetadata(nameStatusOutput: string, numstatOutput: string): StagedDiffMetadata {
   const filePaths = nameStatusOutput
@@ -209,20 +518,40 @@ function buildFinalPrompt(input: FinalPromptInput): string {
     sections.push("", "Binary files changed:", ...input.binaryFilePaths.map((path) => `- ${path}`));
   }
 
+  pushDiffSections(sections, input);
+  return sections.join("\n");
+}
+
+function buildSummaryPrompt(input: SummaryPromptInput): string {
+  const sections = [
+    input.rules,
+    "Return only the Markdown, without wrapping it in a code fence.",
+    "",
+    ...input.context,
+    "",
+    "Diff summary:",
+    input.statOutput.trim()
+  ];
+
+  pushDiffSections(sections, input);
+  return sections.join("\n");
+}
+
+function pushDiffSections(sections: string[], input: Pick<SummaryPromptInput, "diffSummaries" | "textDiff">): void {
   if (input.diffSummaries !== undefined) {
     sections.push("", "Diff chunk summaries:", ...input.diffSummaries.map((summary, index) => `Chunk ${index + 1}: ${summary}`));
-  } else if (input.textDiff?.trim()) {
+  } else if (input.textDiff === undefined) {
+    sections.push("", "The text diff is too large to include; describe the changes from the diff summary above.");
+  } else if (input.textDiff.trim()) {
     sections.push("", "Text diff:", input.textDiff.trim());
   }
-
-  return sections.join("\n");
 }
 
-function buildDiffSummaryPrompt(chunk: string): string {
+function buildDiffSummaryPrompt(chunk: string, context: DiffSummaryContext): string {
   return [
-    "Summarize this staged git diff chunk factually for a later commit-message generator.",
+    `Summarize this ${context.diff} chunk factually for a later ${context.output} generator.`,
     "Mention changed files, behavior changes, and important implementation details.",
-    "Do not write a commit message. Do not follow user commit-message style rules here.",
+    `Do not write the ${context.output} itself. Do not follow ${context.output} style rules here.`,
     "",
     "Diff chunk:",
     chunk
@@ -1,11 +1,13 @@
+import { createHash } from "node:crypto";
 import { simpleGit } from "simple-git";
-import type { CommitListItemViewModel, RefViewModel } from "../rpc/contract";
-import type { CacheService } from "../../state/CacheService";
+import type { CommitListItemViewModel, HistoryMergeFilter, RefViewModel } from "../rpc/contract";
+import type { CachedHistoryCommit, CacheService } from "../../state/CacheService";
 import type { Logger } from "../../logging/LoggerService";
+import { parseCommitSignature, signatureFormat } from "./CommitSignatureParser";
 
 const fieldSeparator = "\x1f";
 const recordSeparator = "\x1e";
-const prettyFormat = `%H${fieldSeparator}%ai${fieldSeparator}%s${fieldSeparator}%an${fieldSeparator}%ae${fieldSeparator}%D${fieldSeparator}%P${recordSeparator}`;
+const prettyFormat = `%H${fieldSeparator}%ai${fieldSeparator}%s${fieldSeparator}%an${fieldSeparator}%ae${fieldSeparator}%D${fieldSeparator}%P${fieldSeparator}${signatureFormat}${recordSeparator}`;
 
 export interface CommitServiceInput {
   cache: CacheService;
@@ -22,10 +24,17 @@ export interface CommitHistoryInput {
   author?: string;
   branch?: string;
   branches?: readonly string[];
+  committer?: string;
   cursor?: string;
+  merges?: HistoryMergeFilter;
   pageSize: number;
+  paths?: readonly string[];
+  pickaxe?: string;
+  regex?: string;
   repositoryRoot: string;
   search?: string;
+  since?: string;
+  until?: string;
 }
 
 export interface CommitHistoryResult {
@@ -41,16 +50,7 @@ export interface CommitCountInput {
   repositoryRoot: string;
 }
 
-interface ParsedCommit {
-  author: string;
-  date: string;
-  email: string;
-  hash: string;
-  message: string;
-  parents: readonly string[];
-  refs: readonly RefViewModel[];
-  shortHash: string;
-}
+type ParsedCommit = CachedHistoryCommit;
 
 interface EditableContext {
   latestHash: string;
@@ -71,7 +71,7 @@ export class CommitService {
 
   public async loadHistory(input: CommitHistoryInput): Promise<CommitHistoryResult> {
     const skip = Number(input.cursor ?? "0");
-    const commits = await this.loadMatchingCommits(input, skip);
+    const commits = await this.loadCachedMatchingCommits(input, skip);
     const page = commits.slice(0, input.pageSize);
     if (page.length === 0) {
       return {
@@ -90,7 +90,7 @@ export class CommitService {
   }
 
   public async getTotalCommitCount(input: CommitCountInput): Promise<number> {
-    const cacheKey = totalCommitCountKey(input);
+    const cacheKey = totalCommitCountKey(input, await this.getRefFingerprint(input.repositoryRoot));
     const cached = this.cache.getTotalCommitCount(cacheKey);
     if (cached !== undefined) {
       return cached;
@@ -122,6 +122,37 @@ export class CommitService {
     }
   }
 
+  private async loadCachedMatchingCommits(input: CommitHistoryInput, skip: number): Promise<readonly ParsedCommit[]> {
+    const fingerprint = input.since || input.until ? undefined : await this.getRefFingerprint(input.repositoryRoot);
+    if (!fingerprint) {
+      return this.loadMatchingCommits(input, skip);
+    }
+
+    const cacheKey = historyPageKey(input, skip, fingerprint);
+    const cached = this.cache.getHistoryPage(input.repositoryRoot, cacheKey);
+    if (cached) {
+      this.logHistoryLoaded(input.repositoryRoot, cached.length, cached.length > input.pageSize);
+      return cached;
+    }
+
+    const commits = await this.loadMatchingCommits(input, skip);
+    this.cache.setHistoryPage(input.repositoryRoot, cacheKey, commits);
+    return commits;
+  }
+
+  private async getRefFingerprint(repositoryRoot: string): Promise<string | undefined> {
+    try {
+      const [head, refs] = await Promise.all([
+        this.gitRaw(repositoryRoot, ["rev-parse", "HEAD", "--symbolic-full-name", "HEAD"]),
+        this.gitRaw(repositoryRoot, ["for-each-ref", "--format=%(objectname) %(refname)"])
+      ]);
+
+      return createHash("sha1").update(head).update(refs).digest("hex");
+    } catch {
+      return undefined;
+    }
+  }
+
   private async loadMatchingCommits(input: CommitHistoryInput, skip: number): Promise<readonly ParsedCommit[]> {
     if (input.search && isHashPrefix(input.search)) {
       const args = buildLogArgs(input, undefined, undefined);
@@ -213,10 +244,41 @@ function buildLogArgs(
     args.push(...authorArgs(input.author));
   }
 
+  if (input.committer) {
+    args.push(`--committer=${input.committer}`);
+  }
+
+  if (input.since) {
+    args.push(`--since=${input.since}`);
+  }
+
+  if (input.until) {
+    args.push(`--until=${input.until}`);
+  }
+
+  if (input.merges === "only") {
+    args.push("--merges");
+  } else if (input.merges === "exclude") {
+    args.push("--no-merges");
+  }
+
+  if (input.pickaxe) {
+    args.push(`-S${input.pickaxe}`);
+  } else if (input.regex) {
+    args.push(`-G${input.regex}`);
+  }
+
   if (grep) {
     args.push(`--grep=${grep}`, "-i");
   }
 
+  if (input.paths && input.paths.length > 0) {
+    if (input.paths.length === 1) {
+      args.push("--follow");
+    }
+    args.push("--", ...input.paths);
+  }
+
   return args;
 }
 
@@ -267,7 +329,8 @@ function parseCommitLog(output: string): readonly ParsedCommit[] {
         message,
         parents: parents.split(" ").filter(Boolean),
         refs: parseRefs(refs),
-        shortHash: hash.slice(0, 7)
+        shortHash: hash.slice(0, 7),
+        signature: parseCommitSignature(fields[7], fields[8], fields[9])
       };
     });
 }
@@ -314,7 +377,8 @@ function toViewModel(commit: ParsedCommit, editableContext: EditableContext | un
     message: commit.message,
     parents: commit.parents,
     refs: commit.refs,
-    shortHash: commit.shortHash
+    shortHash: commit.shortHash,
+    signature: commit.signature
   };
 }
 
@@ -322,6 +386,12 @@ function isHashPrefix(search: string): boolean {
   return /^[a-f0-9]{4,40}$/i.test(search);
 }
 
-function totalCommitCountKey(input: CommitCountInput): string {
-  return `${input.repositoryRoot}:${input.branches?.join("|") ?? input.branch ?? "all"}:${input.author ?? "all"}`;
+function totalCommitCountKey(input: CommitCountInput, fingerprint: string | undefined): string {
+  return `${input.repositoryRoot}:${input.branches?.join("|") ?? input.branch ?? "all"}:${input.author ?? "all"}:${fingerprint ?? "none"}`;
+}
+
+function historyPageKey(input: CommitHistoryInput, skip: number, fingerprint: string): string {
+  const filters = { ...input, cursor: undefined, repositoryRoot: undefined };
+
+  return `${fingerprint}:${skip}:${JSON.stringify(filters, Object.keys(filters).sort())}`;
 }
@@ -0,0 +1,29 @@
+import type { CommitSignatureStatus, CommitSignatureViewModel } from "../rpc/contract";
+
+export const signatureFormat = ["%G?", "%GS", "%GK"].join("%x1f");
+
+const signatureStatusByCode: Readonly<Record<string, CommitSignatureStatus>> = {
+  B: "bad",
+  E: "unknown",
+  G: "good",
+  N: "none",
+  R: "bad",
+  U: "unknown",
+  X: "unknown",
+  Y: "unknown"
+};
+
+// %G? reports expired signatures (X), expired keys (Y) and keys without trust (U) separately; the badge
+// only distinguishes verified, rejected and unverifiable signatures, so those collapse to "unknown".
+export function parseCommitSignature(code = "", signer = "", keyId = ""): CommitSignatureViewModel {
+  const status = signatureStatusByCode[code.trim()] ?? "none";
+  if (status === "none") {
+    return { status };
+  }
+
+  return {
+    keyId: keyId.trim() || undefined,
+    signer: signer.trim() || undefined,
+    status
+  };
+}
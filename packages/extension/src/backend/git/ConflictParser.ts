@@ -0,0 +1,55 @@
+import type { ConflictFileStatus, ConflictFileViewModel } from "../rpc/contract";
+
+export const conflictMarkerPattern = "^(<<<<<<<|>>>>>>>)( |$)";
+
+const conflictMarkerRegExp = new RegExp(conflictMarkerPattern);
+const statusByStages: Record<string, ConflictFileStatus> = {
+  "1": "bothDeleted",
+  "12": "deletedByThem",
+  "123": "bothModified",
+  "13": "deletedByUs",
+  "2": "addedByUs",
+  "23": "bothAdded",
+  "3": "addedByThem"
+};
+
+export function parseUnmergedStages(output: string): ReadonlyMap<string, ReadonlySet<number>> {
+  const stages = new Map<string, Set<number>>();
+
+  for (const entry of output.split("\u0000")) {
+    const tabIndex = entry.indexOf("\t");
+    if (tabIndex === -1) {
+      continue;
+    }
+
+    const stage = Number(entry.slice(0, tabIndex).split(" ")[2]);
+    const path = entry.slice(tabIndex + 1);
+    const pathStages = stages.get(path) ?? new Set<number>();
+    pathStages.add(stage);
+    stages.set(path, pathStages);
+  }
+
+  return stages;
+}
+
+export function parseConflictFiles(namesOutput: string, stagesOutput: string): readonly ConflictFileViewModel[] {
+  const stages = parseUnmergedStages(stagesOutput);
+  const paths = [...new Set([...namesOutput.split("\u0000").filter(Boolean), ...stages.keys()])];
+
+  return paths.map((path) => ({
+    path,
+    status: conflictStatusFor(stages.get(path))
+  }));
+}
+
+export function findConflictMarkerLine(content: string): number | undefined {
+  const index = content.split(/\r?\n/).findIndex((line) => conflictMarkerRegExp.test(line));
+
+  return index === -1 ? undefined : index + 1;
+}
+
+function conflictStatusFor(stages: ReadonlySet<number> | undefined): ConflictFileStatus {
+  const key = [...(stages ?? [])].sort().join("");
+
+  return statusByStages[key] ?? "bothModified";
+}
@@ -0,0 +1,117 @@
+import { readFile as nodeReadFile } from "node:fs/promises";
+import { join } from "node:path";
+import { simpleGit } from "simple-git";
+import type { ConflictFileViewModel, OperationResultViewModel } from "../rpc/contract";
+import type { Logger } from "../../logging/LoggerService";
+import { findConflictMarkerLine, parseConflictFiles, parseUnmergedStages } from "./ConflictParser";
+
+export interface ConflictActionResult {
+  files: readonly ConflictFileViewModel[];
+  result: OperationResultViewModel;
+}
+
+export interface ConflictServiceInput {
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  logger?: Pick<Logger, "info">;
+  readTextFile?: (path: string) => Promise<string>;
+}
+
+type ConflictSide = "ours" | "theirs";
+
+export class ConflictService {
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly logger: Pick<Logger, "info"> | undefined;
+  private readonly readTextFile: (path: string) => Promise<string>;
+
+  public constructor(input: ConflictServiceInput = {}) {
+    this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.logger = input.logger;
+    this.readTextFile = input.readTextFile ?? ((path) => nodeReadFile(path, "utf8"));
+  }
+
+  public async listConflicts(repositoryRoot: string): Promise<readonly ConflictFileViewModel[]> {
+    const [namesOutput, stagesOutput] = await Promise.all([
+      this.gitRaw(repositoryRoot, ["diff", "--name-only", "--diff-filter=U", "-z"]),
+      this.gitRaw(repositoryRoot, ["ls-files", "-u", "-z"])
+    ]);
+
+    return parseConflictFiles(namesOutput, stagesOutput);
+  }
+
+  public async acceptOurs(repositoryRoot: string, filePath: string): Promise<ConflictActionResult> {
+    return this.acceptSide(repositoryRoot, filePath, "ours");
+  }
+
+  public async acceptTheirs(repositoryRoot: string, filePath: string): Promise<ConflictActionResult> {
+    return this.acceptSide(repositoryRoot, filePath, "theirs");
+  }
+
+  public async markResolved(repositoryRoot: string, filePath: string): Promise<ConflictActionResult> {
+    const content = await this.readWorkingFile(repositoryRoot, filePath);
+    const markerLine = content === undefined ? undefined : findConflictMarkerLine(content);
+    if (markerLine !== undefined) {
+      return {
+        files: await this.listConflicts(repositoryRoot),
+        result: {
+          message: `${filePath} still contains conflict markers at line ${markerLine}. Remove them before marking the file resolved.`,
+          status: "conflict"
+        }
+      };
+    }
+
+    await this.runLoggedGit(repositoryRoot, ["add", "--all", "--", filePath]);
+    return {
+      files: await this.listConflicts(repositoryRoot),
+      result: {
+        message: `Marked ${filePath} as resolved`,
+        status: "ok"
+      }
+    };
+  }
+
+  private async acceptSide(repositoryRoot: string, filePath: string, side: ConflictSide): Promise<ConflictActionResult> {
+    const stagesOutput = await this.gitRaw(repositoryRoot, ["ls-files", "-u", "-z", "--", filePath]);
+    const stages = parseUnmergedStages(stagesOutput).get(filePath);
+    if (!stages) {
+      throw new Error(`${filePath} has no unresolved conflicts`);
+    }
+
+    if (stages.has(side === "ours" ? 2 : 3)) {
+      await this.runLoggedGit(repositoryRoot, ["checkout", `--${side}`, "--", filePath]);
+      await this.runLoggedGit(repositoryRoot, ["add", "--", filePath]);
+    } else {
+      await this.runLoggedGit(repositoryRoot, ["rm", "--quiet", "--", filePath]);
+    }
+
+    return {
+      files: await this.listConflicts(repositoryRoot),
+      result: {
+        message: `Accepted ${side === "ours" ? "our" : "their"} version of ${filePath}`,
+        status: "ok"
+      }
+    };
+  }
+
+  private async readWorkingFile(repositoryRoot: string, filePath: string): Promise<string | undefined> {
+    try {
+      return await this.readTextFile(join(repositoryRoot, filePath));
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  private async runLoggedGit(repositoryRoot: string, args: readonly string[]): Promise<string> {
+    this.logger?.info("git.command", {
+      command: `git -C ${repositoryRoot} ${args.join(" ")}`
+    });
+    return this.gitRaw(repositoryRoot, args);
+  }
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
+}
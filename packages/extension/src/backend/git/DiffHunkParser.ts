@@ -0,0 +1,177 @@
+import type {
+  WorkingTreeDiffHunkViewModel,
+  WorkingTreeDiffKind,
+  WorkingTreeDiffLineViewModel,
+  WorkingTreeFileDiffViewModel
+} from "../rpc/contract";
+
+export interface ParsedDiffHunk {
+  header: string;
+  lines: readonly string[];
+  newLines: number;
+  newStart: number;
+  oldLines: number;
+  oldStart: number;
+}
+
+export interface ParsedFileDiff {
+  binary: boolean;
+  fileHeader: readonly string[];
+  hunks: readonly ParsedDiffHunk[];
+}
+
+export type HunkPatchDirection = "forward" | "reverse";
+
+const hunkHeaderPattern = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parseFileDiff(output: string): ParsedFileDiff {
+  const fileHeader: string[] = [];
+  const hunks: { header: string; lines: string[]; newLines: number; newStart: number; oldLines: number; oldStart: number }[] = [];
+  const lines = output.split("\n");
+  if (lines.at(-1) === "") {
+    lines.pop();
+  }
+
+  for (const line of lines) {
+    const headerMatch = hunkHeaderPattern.exec(line);
+    if (headerMatch) {
+      hunks.push({
+        header: line,
+        lines: [],
+        newLines: headerMatch[4] === undefined ? 1 : Number(headerMatch[4]),
+        newStart: Number(headerMatch[3]),
+        oldLines: headerMatch[2] === undefined ? 1 : Number(headerMatch[2]),
+        oldStart: Number(headerMatch[1])
+      });
+      continue;
+    }
+
+    const hunk = hunks.at(-1);
+    if (hunk) {
+      hunk.lines.push(line);
+    } else {
+      fileHeader.push(line);
+    }
+  }
+
+  return {
+    binary: fileHeader.some((line) => line.startsWith("Binary files ") || line === "GIT binary patch"),
+    fileHeader,
+    hunks
+  };
+}
+
+export function toWorkingTreeFileDiff(
+  filePath: string,
+  kind: WorkingTreeDiffKind,
+  diff: ParsedFileDiff
+): WorkingTreeFileDiffViewModel {
+  return {
+    binary: diff.binary,
+    filePath,
+    hunks: diff.hunks.map(toHunkViewModel),
+    kind
+  };
+}
+
+export function buildHunkPatch(
+  diff: ParsedFileDiff,
+  hunkIndex: number,
+  lineIndexes: readonly number[] | undefined,
+  direction: HunkPatchDirection
+): string | undefined {
+  const hunk = diff.hunks[hunkIndex];
+  if (!hunk) {
+    return undefined;
+  }
+
+  const selected = lineIndexes ? new Set(lineIndexes) : undefined;
+  const patchLines: string[] = [];
+  let oldLines = 0;
+  let newLines = 0;
+  let changed = false;
+  let previousKept = false;
+  let lineIndex = -1;
+
+  for (const line of hunk.lines) {
+    const marker = line.charAt(0);
+    if (marker === "\\") {
+      if (previousKept) {
+        patchLines.push(line);
+      }
+      continue;
+    }
+
+    lineIndex += 1;
+    const isSelected = !selected || selected.has(lineIndex);
+    if (marker === "+" || marker === "-") {
+      if (isSelected) {
+        patchLines.push(line);
+        oldLines += marker === "-" ? 1 : 0;
+        newLines += marker === "+" ? 1 : 0;
+        changed = true;
+        previousKept = true;
+        continue;
+      }
+
+      const keepAsContext = (direction === "forward" && marker === "-") || (direction === "reverse" && marker === "+");
+      if (keepAsContext) {
+        patchLines.push(` ${line.slice(1)}`);
+        oldLines += 1;
+        newLines += 1;
+      }
+      previousKept = keepAsContext;
+      continue;
+    }
+
+    patchLines.push(line);
+    oldLines += 1;
+    newLines += 1;
+    previousKept = true;
+  }
+
+  if (!changed) {
+    return undefined;
+  }
+
+  const header = `@@ -${formatRange(hunk.oldStart, oldLines)} +${formatRange(hunk.newStart, newLines)} @@`;
+
+  return [...diff.fileHeader, header, ...patchLines, ""].join("\n");
+}
+
+function toHunkViewModel(hunk: ParsedDiffHunk): WorkingTreeDiffHunkViewModel {
+  const lines: WorkingTreeDiffLineViewModel[] = [];
+  let oldLineNumber = hunk.oldStart;
+  let newLineNumber = hunk.newStart;
+
+  for (const line of hunk.lines) {
+    const marker = line.charAt(0);
+    const content = line.slice(1);
+    if (marker === "+") {
+      lines.push({ content, kind: "added", newLineNumber });
+      newLineNumber += 1;
+    } else if (marker === "-") {
+      lines.push({ content, kind: "removed", oldLineNumber });
+      oldLineNumber += 1;
+    } else if (marker === "\\") {
+      continue;
+    } else {
+      lines.push({ content, kind: "context", newLineNumber, oldLineNumber });
+      oldLineNumber += 1;
+      newLineNumber += 1;
+    }
+  }
+
+  return {
+    header: hunk.header,
+    lines,
+    newLines: hunk.newLines,
+    newStart: hunk.newStart,
+    oldLines: hunk.oldLines,
+    oldStart: hunk.oldStart
+  };
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? String(start) : `${start},${count}`;
+}
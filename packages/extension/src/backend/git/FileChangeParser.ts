@@ -1,5 +1,6 @@
 import type { FileChangeViewModel } from "../rpc/contract";
 import { parseGitNumstatPath, unquoteGitPath } from "./GitPathParser";
+import { applyGitlinkChanges } from "./SubmoduleParser";
 
 interface FileStats {
   binary: boolean;
@@ -17,7 +18,7 @@ interface FileStatus {
 
 export function parseGitFileChanges(numstatOutput: string, nameStatusOutput: string): readonly FileChangeViewModel[] {
   const statuses = parseNameStatus(nameStatusOutput);
-  return mergeFileChanges(parseNumstat(numstatOutput, statuses), statuses);
+  return applyGitlinkChanges(mergeFileChanges(parseNumstat(numstatOutput, statuses), statuses), numstatOutput);
 }
 
 function parseNumstat(output: string, statuses: readonly FileStatus[]): readonly FileStats[] {
@@ -25,7 +26,7 @@ function parseNumstat(output: string, statuses: readonly FileStatus[]): readonly
 
   return output
     .split("\n")
-    .filter(Boolean)
+    .filter((line) => line && !line.startsWith(":"))
     .map((line) => {
       const [insertions, deletions, path] = line.split("\t");
       const parsedPath = parseGitNumstatPath(path!, knownPaths);
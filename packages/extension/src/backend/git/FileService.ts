@@ -1,6 +1,7 @@
 import { simpleGit } from "simple-git";
 import type {
   CommitDetailsViewModel,
+  CommitSignatureViewModel,
   FileChangeViewModel,
   FileViewMode,
   RefViewModel,
@@ -8,10 +9,12 @@ import type {
 } from "../rpc/contract";
 import type { CacheService } from "../../state/CacheService";
 import type { Logger } from "../../logging/LoggerService";
+import { parseCommitSignature, signatureFormat } from "./CommitSignatureParser";
 import { parseGitFileChanges } from "./FileChangeParser";
+import { SubmoduleService } from "./SubmoduleService";
 
 const fieldSeparator = "\x1f";
-const commitFormat = `%H${fieldSeparator}%ai${fieldSeparator}%s${fieldSeparator}%an${fieldSeparator}%ae${fieldSeparator}%D${fieldSeparator}%b`;
+const commitFormat = `%H${fieldSeparator}%ai${fieldSeparator}%s${fieldSeparator}%an${fieldSeparator}%ae${fieldSeparator}%D${fieldSeparator}${signatureFormat}${fieldSeparator}%b`;
 
 export interface FileServiceConfiguration {
   get: (key: "fileViewMode") => FileViewMode;
@@ -23,6 +26,7 @@ export interface FileServiceInput {
   configuration: FileServiceConfiguration;
   gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   logger?: Pick<Logger, "debug">;
+  submodules?: Pick<SubmoduleService, "summarizeChanges">;
 }
 
 interface CommitInfo {
@@ -33,6 +37,7 @@ interface CommitInfo {
   hash: string;
   message: string;
   refs: readonly RefViewModel[];
+  signature: CommitSignatureViewModel;
 }
 
 interface EditableContext {
@@ -46,12 +51,14 @@ export class FileService {
   private readonly configuration: FileServiceConfiguration;
   private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   private readonly logger: Pick<Logger, "debug"> | undefined;
+  private readonly submodules: Pick<SubmoduleService, "summarizeChanges">;
 
   public constructor(input: FileServiceInput) {
     this.cache = input.cache;
     this.configuration = input.configuration;
     this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
     this.logger = input.logger;
+    this.submodules = input.submodules ?? new SubmoduleService({ gitRaw: this.gitRaw });
   }
 
   public async getCommitDetails(repositoryRoot: string, hash: string): Promise<CommitDetailsViewModel> {
@@ -67,7 +74,10 @@ export class FileService {
         hash: cached.hash,
         repositoryRoot
       });
-      return cached;
+      return {
+        ...cached,
+        canEditMessage: canEditMessage(cached, await this.getEditableContext(repositoryRoot))
+      };
     }
 
     const [commit, files, editableContext] = await Promise.all([
@@ -78,10 +88,7 @@ export class FileService {
 
     const details = {
       ...commit,
-      canEditMessage:
-        editableContext !== undefined &&
-        commit.hash === editableContext.latestHash &&
-        (commit.author === editableContext.userName || commit.email === editableContext.userEmail),
+      canEditMessage: canEditMessage(commit, editableContext),
       files
     };
 
@@ -125,22 +132,23 @@ export class FileService {
 
     return {
       author: fields[3]!,
-      body: fields[6]!,
+      body: fields.slice(9).join(fieldSeparator),
       date: fields[1]!,
       email: fields[4]!,
       hash: fields[0]!,
       message: fields[2]!,
-      refs: parseRefs(fields[5]!)
+      refs: parseRefs(fields[5]!),
+      signature: parseCommitSignature(fields[6], fields[7], fields[8])
     };
   }
 
   private async getCommitFileChanges(repositoryRoot: string, hash: string): Promise<readonly FileChangeViewModel[]> {
     const [numstatOutput, nameStatusOutput] = await Promise.all([
-      this.gitRaw(repositoryRoot, ["show", "--numstat", "--format=", "--encoding=UTF-8", hash]),
+      this.gitRaw(repositoryRoot, ["show", "--numstat", "--raw", "--no-abbrev", "--format=", "--encoding=UTF-8", hash]),
       this.gitRaw(repositoryRoot, ["show", "--name-status", "--format=", "--encoding=UTF-8", hash])
     ]);
 
-    return parseGitFileChanges(numstatOutput, nameStatusOutput);
+    return this.submodules.summarizeChanges(repositoryRoot, parseGitFileChanges(numstatOutput, nameStatusOutput));
   }
 
   private async getEditableContext(repositoryRoot: string): Promise<EditableContext | undefined> {
@@ -162,6 +170,14 @@ export class FileService {
   }
 }
 
+function canEditMessage(commit: Pick<CommitInfo, "author" | "email" | "hash">, editableContext: EditableContext | undefined): boolean {
+  return (
+    editableContext !== undefined &&
+    commit.hash === editableContext.latestHash &&
+    (commit.author === editableContext.userName || commit.email === editableContext.userEmail)
+  );
+}
+
 function parseRefs(refs: string): readonly RefViewModel[] {
   return refs
     .split(",")
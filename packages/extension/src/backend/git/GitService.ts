@@ -1,16 +1,27 @@
-import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { basename, isAbsolute, join } from "node:path";
+import { basename, dirname, isAbsolute, join } from "node:path";
 import { simpleGit } from "simple-git";
 import type { SimpleGitProgressEvent } from "simple-git";
 import { commands, env, ProgressLocation, Uri, window } from "vscode";
-import type { GitOperationProgressViewModel, GitResetMode, OperationResultViewModel, RpcPayloadByType } from "../rpc/contract";
+import type {
+  GitOperationProgressViewModel,
+  GitMergeMode,
+  GitResetMode,
+  InteractiveRebaseAction,
+  InteractiveRebaseEntryViewModel,
+  InteractiveRebasePlanViewModel,
+  OperationResultViewModel,
+  RpcPayloadByType
+} from "../rpc/contract";
 import type { ConflictResolutionInput, SafetyService } from "./SafetyService";
 import type { ProxyService } from "./ProxyService";
 import type { SettingsService } from "../../state/SettingsService";
 import { WorkspaceStateService } from "../../state/WorkspaceStateService";
 import type { Logger } from "../../logging/LoggerService";
 import { parseGitFileChanges } from "./FileChangeParser";
+import { HostingService, type PullRequestCheckoutTarget } from "./HostingService";
+import { parseReflog, reflogFormat } from "./ReflogParser";
 
 interface QuickPickItem {
   label: string;
@@ -35,6 +46,20 @@ interface SquashPlan {
   unselectedInCommitOrder: readonly string[];
 }
 
+const interactiveRebaseFormat = "%H%x1f%h%x1f%an%x1f%B%x1e";
+const interactiveRebaseActions: ReadonlySet<InteractiveRebaseAction> = new Set(["pick", "reword", "edit", "squash", "fixup", "drop"]);
+const interactiveRebaseConflictResolution: ConflictResolutionInput = {
+  abortArgs: ["rebase", "--abort"],
+  continueArgs: ["-c", "core.editor=true", "rebase", "--continue"],
+  operationKind: "rebase",
+  operationName: "Interactive rebase"
+};
+const interactiveRebaseEditStopMessage =
+  "Interactive rebase stopped at a planned edit. Amend the commit, then continue from GUI Git History.";
+const reflogLimit = 200;
+const localTagLocation = "__local_tag__";
+const allTagsPushValue = "__all_tags__";
+
 interface RunGitRawOptions {
   preflight?: boolean;
 }
@@ -49,6 +74,7 @@ export interface GitServiceInput {
     onProgress?: (progress: GitOperationProgressViewModel) => void
   ) => Promise<void>;
   gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  hostingService?: Pick<HostingService, "pullRequestUrl">;
   logger?: Pick<Logger, "debug" | "info">;
   openExternal?: (url: string) => Thenable<void>;
   postOperationProgress?: (progress: GitOperationProgressViewModel) => void;
@@ -68,6 +94,7 @@ export interface GitServiceInput {
     task: (progress: ProgressReporter) => Thenable<T> | Promise<T>
   ) => Thenable<T>;
   workspaceFolders?: readonly string[];
+  writeTextFile?: (filePath: string, contents: string) => Promise<void>;
 }
 
 export class GitService {
@@ -80,6 +107,7 @@ export class GitService {
     onProgress?: (progress: GitOperationProgressViewModel) => void
   ) => Promise<void>;
   private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly hostingService: Pick<HostingService, "pullRequestUrl">;
   private readonly logger: Pick<Logger, "debug" | "info"> | undefined;
   private readonly openExternal: (url: string) => Thenable<void>;
   private readonly postOperationProgress: (progress: GitOperationProgressViewModel) => void;
@@ -98,6 +126,7 @@ export class GitService {
     task: (progress: ProgressReporter) => Thenable<T> | Promise<T>
   ) => Thenable<T>;
   private readonly workspaceFolders: readonly string[];
+  private readonly writeTextFile: (filePath: string, contents: string) => Promise<void>;
 
   public constructor(input: GitServiceInput) {
     this.clipboardWrite = input.clipboardWrite ?? ((text) => env.clipboard.writeText(text));
@@ -114,6 +143,7 @@ export class GitService {
       }).clone(url, destinationDirectoryName);
     });
     this.gitRaw = input.gitRaw ?? input.proxyService?.runRaw.bind(input.proxyService) ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.hostingService = input.hostingService ?? new HostingService();
     this.logger = input.logger;
     this.openExternal = input.openExternal ?? (async (url) => {
       await env.openExternal(Uri.parse(url));
@@ -145,6 +175,10 @@ export class GitService {
       input.withProgress ??
       ((options, task) => window.withProgress(options, task));
     this.workspaceFolders = input.workspaceFolders ?? [];
+    this.writeTextFile = input.writeTextFile ?? (async (filePath, contents) => {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, contents, "utf8");
+    });
   }
 
   public async pull(repositoryRoot: string): Promise<OperationResultViewModel> {
@@ -332,12 +366,20 @@ export class GitService {
     this.logger?.debug("git.checkout", { branch, repositoryRoot });
     const isNewBranch = branch.value.startsWith(newLocalBranchValuePrefix);
     const branchName = isNewBranch ? branch.value.slice(newLocalBranchValuePrefix.length) : branch.value;
-    await this.runGitRaw(repositoryRoot, isNewBranch ? ["checkout", "-b", branchName] : ["checkout", branchName]);
+    return this.runCheckout(repositoryRoot, async () => {
+      await this.runGitRaw(repositoryRoot, isNewBranch ? ["checkout", "-b", branchName] : ["checkout", branchName]);
+      return {
+        message: isNewBranch ? `Created and checked out ${branchName}` : `Checked out ${branchName}`,
+        status: "ok"
+      };
+    });
+  }
 
-    return {
-      message: isNewBranch ? `Created and checked out ${branchName}` : `Checked out ${branchName}`,
-      status: "ok"
-    };
+  private async runCheckout(
+    repositoryRoot: string,
+    operation: () => Promise<OperationResultViewModel>
+  ): Promise<OperationResultViewModel> {
+    return this.safetyService.runWithAutoStash(repositoryRoot, this.settingsService.getSettings().autoStashOnPull, operation);
   }
 
   private async pickWorkspaceFolderForInit(): Promise<string | undefined> {
@@ -415,6 +457,39 @@ export class GitService {
     };
   }
 
+  public async merge(
+    repositoryRoot: string,
+    source: string,
+    mode: GitMergeMode,
+    message?: string
+  ): Promise<OperationResultViewModel> {
+    const mergeSource = source.trim();
+    if (!mergeSource) {
+      throw new Error("Merge source is required");
+    }
+    // The source comes from the webview and is passed to git as a positional argument.
+    if (mergeSource.startsWith("-")) {
+      throw new Error(`Invalid merge source: ${mergeSource}`);
+    }
+
+    const commitMessage = message?.trim() || undefined;
+    const sourceLabel = formatMergeSource(mergeSource);
+    await this.ensureGitLfsAvailable(repositoryRoot);
+    const preference = this.settingsService.getSettings().autoStashOnPull;
+    return this.safetyService.runWithAutoStash(repositoryRoot, preference, async () => {
+      this.logger?.debug("git.merge", { mode, repositoryRoot, source: mergeSource });
+      if (mode === "squash") {
+        return this.runSquashMerge(repositoryRoot, mergeSource, sourceLabel, commitMessage);
+      }
+
+      await this.runGitRaw(repositoryRoot, mergeArgs(mergeSource, mode, commitMessage));
+      return {
+        message: `Merged ${sourceLabel}`,
+        status: "ok"
+      };
+    }, getMergeConflictResolution(mode, commitMessage));
+  }
+
   public async revert(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
     if (!(await this.confirmCommitOperation(`Revert commit ${hash.slice(0, 8)}?`))) {
       return { message: "Revert cancelled", status: "cancelled" };
@@ -432,13 +507,114 @@ export class GitService {
       return { message: `Reset ${mode} cancelled`, status: "cancelled" };
     }
 
-    await this.runGitRaw(repositoryRoot, ["reset", `--${mode}`, hash]);
+    await this.runReset(repositoryRoot, hash, mode);
     return {
       message: `Reset ${mode} completed`,
       status: "ok"
     };
   }
 
+  private async runReset(repositoryRoot: string, hash: string, mode: GitResetMode): Promise<void> {
+    await this.runGitRaw(repositoryRoot, ["reset", `--${mode}`, hash]);
+  }
+
+  public async loadReflog(repositoryRoot: string, ref = "HEAD"): Promise<RpcPayloadByType["reflog.list"]> {
+    const [reflogOutput, branchOutput] = await Promise.all([
+      this.runGitRaw(repositoryRoot, ["reflog", "show", "--date=iso", `--format=${reflogFormat}`, `--max-count=${reflogLimit}`, "--end-of-options", ref, "--"]),
+      this.runGitRaw(repositoryRoot, ["for-each-ref", "--format=%(refname:short)", "refs/heads"])
+    ]);
+
+    return {
+      entries: parseReflog(reflogOutput, ref),
+      ref,
+      refs: ["HEAD", ...branchOutput.split("\n").map((branch) => branch.trim()).filter(Boolean)]
+    };
+  }
+
+  public async checkoutReflogEntry(repositoryRoot: string, hash: string, selector: string): Promise<OperationResultViewModel> {
+    if (!(await this.confirmWithQuickPick(`Check out ${selector} (${hash.slice(0, 8)}) as a detached HEAD?`, "Checkout"))) {
+      return { message: "Checkout cancelled", status: "cancelled" };
+    }
+
+    await this.runGitRaw(repositoryRoot, ["checkout", "--detach", hash]);
+    return {
+      message: `Checked out ${selector} (${hash.slice(0, 8)})`,
+      status: "ok"
+    };
+  }
+
+  public async checkoutPullRequest(repositoryRoot: string, target: PullRequestCheckoutTarget): Promise<OperationResultViewModel> {
+    if (!(await this.confirmWithQuickPick(`Check out pull request #${target.number} as ${target.branch}?`, "Checkout"))) {
+      return { message: "Checkout cancelled", status: "cancelled" };
+    }
+
+    // A private namespace keeps the head out of refs/remotes, where it could shadow a real branch
+    // and would be deleted by fetch --prune.
+    const headRef = `refs/guigit/pull/${target.number}`;
+    this.logger?.debug("git.checkoutPullRequest", { number: target.number, ref: target.ref, repositoryRoot });
+    await this.runGitRaw(repositoryRoot, ["fetch", target.remote, `+${target.ref}:${headRef}`]);
+    const existingBranch = (await this.runGitRaw(repositoryRoot, ["branch", "--list", target.branch])).trim();
+    const fastForwards = !existingBranch || (await this.isAncestor(repositoryRoot, `refs/heads/${target.branch}`, headRef));
+    if (!fastForwards && !(await this.confirmWithQuickPick(
+      `Pull request #${target.number} was force-pushed and ${target.branch} has commits that are no longer in it. Reset ${target.branch} to the pull request head?`,
+      "Reset"
+    ))) {
+      return {
+        message: `${target.branch} has diverged from pull request #${target.number}; checkout cancelled`,
+        status: "cancelled"
+      };
+    }
+
+    return this.runCheckout(repositoryRoot, async () => {
+      if (!existingBranch) {
+        await this.runGitRaw(repositoryRoot, ["checkout", "-b", target.branch, headRef]);
+      } else {
+        await this.runGitRaw(repositoryRoot, ["checkout", target.branch]);
+        await this.runGitRaw(repositoryRoot, fastForwards ? ["merge", "--ff-only", headRef] : ["reset", "--hard", headRef]);
+      }
+
+      return {
+        message: `Checked out pull request #${target.number} as ${target.branch}`,
+        status: "ok"
+      };
+    });
+  }
+
+  private async isAncestor(repositoryRoot: string, ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.runGitRaw(repositoryRoot, ["merge-base", "--is-ancestor", ancestor, descendant]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // The mode is picked before the reset runs so the caller can journal the reset it is about to make.
+  public async pickReflogResetMode(selector: string): Promise<GitResetMode | undefined> {
+    return (await this.pickQuickPickAction(`Select how to reset the current branch to ${selector}`, [
+      { label: "Soft - keep changes staged", value: "soft" },
+      { label: "Mixed - keep changes unstaged", value: "mixed" },
+      { label: "Hard - discard changes", value: "hard" }
+    ])) as GitResetMode | undefined;
+  }
+
+  public async resetToReflogEntry(
+    repositoryRoot: string,
+    hash: string,
+    selector: string,
+    mode: GitResetMode
+  ): Promise<OperationResultViewModel> {
+    if (!(await this.confirmWithQuickPick(`Reset --${mode} the current branch to ${selector} (${hash.slice(0, 8)})?`, "Reset"))) {
+      return { message: "Reset cancelled", status: "cancelled" };
+    }
+
+    await this.runReset(repositoryRoot, hash, mode);
+    return {
+      message: `Reset current branch to ${selector} (${hash.slice(0, 8)})`,
+      status: "ok"
+    };
+  }
+
   public async compareCommits(repositoryRoot: string, hashes: readonly string[]): Promise<RpcPayloadByType["git.compareCommits"]> {
     if (hashes.length !== 2) {
       return {
@@ -491,6 +667,124 @@ export class GitService {
     };
   }
 
+  public async createTag(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
+    const tagName = (await this.showInputBox({
+      placeHolder: "v1.0.0",
+      prompt: "Enter new tag name"
+    }))?.trim();
+    if (!tagName) {
+      return { message: "Create tag cancelled", status: "cancelled" };
+    }
+
+    const tagType = await this.pickQuickPickAction("Select tag type", [
+      { label: "Lightweight tag", value: "lightweight" },
+      { label: "Annotated tag", value: "annotated" }
+    ]);
+    if (!tagType) {
+      return { message: "Create tag cancelled", status: "cancelled" };
+    }
+
+    if (tagType === "annotated") {
+      const tagMessage = (await this.showInputBox({
+        placeHolder: `Release ${tagName}`,
+        prompt: "Enter tag message"
+      }))?.trim();
+      if (!tagMessage) {
+        return { message: "Create tag cancelled", status: "cancelled" };
+      }
+
+      await this.runGitRaw(repositoryRoot, ["tag", "-a", tagName, "-m", tagMessage, hash]);
+    } else {
+      await this.runGitRaw(repositoryRoot, ["tag", tagName, hash]);
+    }
+
+    return {
+      message: `Created tag ${tagName} at ${hash.slice(0, 8)}`,
+      status: "ok"
+    };
+  }
+
+  public async deleteTag(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
+    const tags = parseLines(await this.runGitRaw(repositoryRoot, ["tag", "--points-at", hash]));
+    if (tags.length === 0) {
+      return { message: "No tags on this commit", status: "cancelled" };
+    }
+
+    const tagName = tags.length === 1
+      ? tags[0]
+      : await this.pickQuickPickAction("Select tag to delete", tags.map((tag) => ({ label: tag, value: tag })));
+    if (!tagName) {
+      return { message: "Delete tag cancelled", status: "cancelled" };
+    }
+
+    const remotes = await this.getRemotes(repositoryRoot);
+    const location = remotes.length === 0
+      ? localTagLocation
+      : await this.pickQuickPickAction(`Delete tag ${tagName} from`, [
+        { label: "Local repository", value: localTagLocation },
+        ...remotes.map((remote) => ({ label: `Remote ${remote}`, value: remote }))
+      ]);
+    if (!location) {
+      return { message: "Delete tag cancelled", status: "cancelled" };
+    }
+
+    const fromRemote = location !== localTagLocation;
+    if (!(await this.confirmCommitOperation(fromRemote ? `Delete tag ${tagName} from ${location}?` : `Delete tag ${tagName}?`))) {
+      return { message: "Delete tag cancelled", status: "cancelled" };
+    }
+
+    if (fromRemote) {
+      await this.runGitRaw(repositoryRoot, ["push", location, "--delete", `refs/tags/${tagName}`]);
+      return {
+        message: `Deleted tag ${tagName} from ${location}`,
+        status: "ok"
+      };
+    }
+
+    await this.runGitRaw(repositoryRoot, ["tag", "-d", tagName]);
+    return {
+      message: `Deleted tag ${tagName}`,
+      status: "ok"
+    };
+  }
+
+  public async pushTags(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
+    const remotes = await this.getRemotes(repositoryRoot);
+    if (remotes.length === 0) {
+      return { message: "No remotes configured", status: "cancelled" };
+    }
+
+    const tags = parseLines(await this.runGitRaw(repositoryRoot, ["tag", "--points-at", hash]));
+    const tagName = await this.pickQuickPickAction("Select tags to push", [
+      ...tags.map((tag) => ({ label: `Push tag ${tag}`, value: tag })),
+      { label: "Push all tags", value: allTagsPushValue }
+    ]);
+    if (!tagName) {
+      return { message: "Push tags cancelled", status: "cancelled" };
+    }
+
+    const remote = remotes.length === 1
+      ? remotes[0]
+      : await this.pickQuickPickAction("Select remote", remotes.map((name) => ({ label: name, value: name })));
+    if (!remote) {
+      return { message: "Push tags cancelled", status: "cancelled" };
+    }
+
+    if (tagName === allTagsPushValue) {
+      await this.runGitRaw(repositoryRoot, ["push", remote, "--tags"]);
+      return {
+        message: `Pushed all tags to ${remote}`,
+        status: "ok"
+      };
+    }
+
+    await this.runGitRaw(repositoryRoot, ["push", remote, `refs/tags/${tagName}`]);
+    return {
+      message: `Pushed tag ${tagName} to ${remote}`,
+      status: "ok"
+    };
+  }
+
   public async pushAllCommitsToHere(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
     const target = await this.pickPushAllCommitsTarget(repositoryRoot);
     if (!target) {
@@ -529,7 +823,7 @@ export class GitService {
     };
   }
 
-  public async editCommitMessage(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
+  public async editCommitMessage(repositoryRoot: string, hash: string, sign = false): Promise<OperationResultViewModel> {
     const currentMessage = (await this.runGitRaw(repositoryRoot, ["show", "--no-patch", "--format=%s", hash])).trim();
     const message = await this.showInputBox({
       placeHolder: "Enter new commit message",
@@ -545,14 +839,14 @@ export class GitService {
       throw new Error("Only the current HEAD commit message can be edited");
     }
 
-    await this.runGitRaw(repositoryRoot, ["commit", "--amend", "-m", message.trim()]);
+    await this.runGitRaw(repositoryRoot, ["commit", "--amend", ...signArgs(sign), "-m", message.trim()]);
     return {
       message: "Commit message updated",
       status: "ok"
     };
   }
 
-  public async squashCommits(repositoryRoot: string, hashes: readonly string[]): Promise<OperationResultViewModel> {
+  public async squashCommits(repositoryRoot: string, hashes: readonly string[], sign = false): Promise<OperationResultViewModel> {
     if (hashes.length < 2) {
       return { message: "Select at least 2 commits to squash", status: "cancelled" };
     }
@@ -587,7 +881,7 @@ export class GitService {
     }
 
     return this.safetyService.runWithAutoStash(repositoryRoot, this.settingsService.getSettings().autoStashOnPull, async () => {
-      await this.runSquashPlan(repositoryRoot, plan, message.trim());
+      await this.runSquashPlan(repositoryRoot, plan, message.trim(), sign);
 
       return {
         message: `Squashed ${hashes.length} commits`,
@@ -596,7 +890,7 @@ export class GitService {
     });
   }
 
-  private async runSquashPlan(repositoryRoot: string, plan: SquashPlan, message: string): Promise<void> {
+  private async runSquashPlan(repositoryRoot: string, plan: SquashPlan, message: string, sign: boolean): Promise<void> {
     if (plan.mode === "soft-reset") {
       await this.runGitRaw(repositoryRoot, ["reset", "--soft", plan.base]);
     } else {
@@ -606,9 +900,9 @@ export class GitService {
       }
     }
 
-    await this.runGitRaw(repositoryRoot, ["commit", "-m", message]);
+    await this.runGitRaw(repositoryRoot, ["commit", ...signArgs(sign), "-m", message]);
     for (const hash of plan.unselectedInCommitOrder) {
-      await this.runGitRaw(repositoryRoot, ["cherry-pick", hash]);
+      await this.runGitRaw(repositoryRoot, ["cherry-pick", ...signArgs(sign), hash]);
     }
   }
 
@@ -619,6 +913,203 @@ export class GitService {
     return messages.join("\n");
   }
 
+  public async loadInteractiveRebase(
+    repositoryRoot: string,
+    hashes: readonly string[]
+  ): Promise<RpcPayloadByType["git.loadInteractiveRebase"]> {
+    if (hashes.length === 0) {
+      return { result: { message: "Select at least 1 commit to rebase", status: "cancelled" } };
+    }
+
+    const firstParentHistory = parseLines(await this.runGitRaw(repositoryRoot, ["rev-list", "--first-parent", "HEAD"]));
+    const selectedIndexes = hashes.map((hash) => firstParentHistory.indexOf(hash));
+    if (selectedIndexes.includes(-1)) {
+      return { result: { message: "Selected commits are not on the current branch", status: "cancelled" } };
+    }
+
+    const head = firstParentHistory[0]!;
+    const base = firstParentHistory[Math.max(...selectedIndexes) + 1];
+    if (!base) {
+      return { result: { message: "Interactive rebase cannot include the root commit", status: "cancelled" } };
+    }
+
+    if (parseLines(await this.runGitRaw(repositoryRoot, ["rev-list", "--merges", `${base}..${head}`])).length > 0) {
+      return {
+        result: {
+          message: "Interactive rebase cannot rewrite merge commits. Select commits after the latest merge.",
+          status: "cancelled"
+        }
+      };
+    }
+
+    const entries = parseInteractiveRebaseEntries(
+      await this.runGitRaw(repositoryRoot, ["log", "--reverse", `--format=${interactiveRebaseFormat}`, `${base}..${head}`])
+    );
+    return {
+      plan: { base, entries, head },
+      result: { message: `Loaded ${entries.length} commits for interactive rebase`, status: "ok" }
+    };
+  }
+
+  public async previewInteractiveRebase(
+    repositoryRoot: string,
+    plan: InteractiveRebasePlanViewModel
+  ): Promise<OperationResultViewModel> {
+    return (await this.validateInteractiveRebasePlan(repositoryRoot, plan)) ??
+      this.verifyInteractiveRebaseAppliesCleanly(repositoryRoot, plan);
+  }
+
+  public async interactiveRebase(repositoryRoot: string, plan: InteractiveRebasePlanViewModel): Promise<OperationResultViewModel> {
+    const invalidPlan = await this.validateInteractiveRebasePlan(repositoryRoot, plan);
+    if (invalidPlan) {
+      return invalidPlan;
+    }
+
+    const preview = await this.verifyInteractiveRebaseAppliesCleanly(repositoryRoot, plan);
+    const confirmMessage = preview.status === "conflict"
+      ? `${preview.message} Start the rebase anyway and resolve the conflicts?`
+      : preview.status === "cancelled"
+        ? `${preview.message} Rebase ${plan.entries.length} commits onto ${plan.base.slice(0, 8)} anyway?`
+        : `Rebase ${plan.entries.length} commits onto ${plan.base.slice(0, 8)}?`;
+    if (!(await this.confirmCommitOperation(confirmMessage))) {
+      return { message: "Interactive rebase cancelled", status: "cancelled" };
+    }
+
+    return this.safetyService.runWithAutoStash(repositoryRoot, this.settingsService.getSettings().autoStashOnPull, async () => {
+      await this.runInteractiveRebasePlan(repositoryRoot, plan);
+
+      return {
+        message: `Rebased ${plan.entries.length} commits`,
+        status: "ok"
+      };
+    }, plan.entries.some((entry) => entry.action === "edit")
+      ? { ...interactiveRebaseConflictResolution, pausedMessage: interactiveRebaseEditStopMessage }
+      : interactiveRebaseConflictResolution);
+  }
+
+  private async validateInteractiveRebasePlan(
+    repositoryRoot: string,
+    plan: InteractiveRebasePlanViewModel
+  ): Promise<OperationResultViewModel | undefined> {
+    const planError = interactiveRebasePlanError(plan);
+    if (planError) {
+      return { message: planError, status: "cancelled" };
+    }
+
+    const head = (await this.runGitRaw(repositoryRoot, ["rev-parse", "HEAD"])).trim();
+    if (head !== plan.head) {
+      return {
+        message: "The current branch changed after the rebase plan was loaded. Reload the plan and try again.",
+        status: "cancelled"
+      };
+    }
+
+    const base = await this.resolveCommit(repositoryRoot, plan.base);
+    if (!base) {
+      return { message: `Invalid rebase base: ${plan.base}`, status: "cancelled" };
+    }
+
+    const planHashes = plan.entries.map((entry) => entry.hash).sort();
+    const rangeHashes = [...parseLines(await this.runGitRaw(repositoryRoot, ["rev-list", `${base}..${head}`]))].sort();
+    if (planHashes.length !== rangeHashes.length || planHashes.some((hash, index) => hash !== rangeHashes[index])) {
+      return {
+        message: "The rebase plan does not match the commits on the current branch. Reload the plan and try again.",
+        status: "cancelled"
+      };
+    }
+
+    return undefined;
+  }
+
+  private async resolveCommit(repositoryRoot: string, revision: string): Promise<string | undefined> {
+    try {
+      return (await this.runGitRaw(repositoryRoot, ["rev-parse", "--verify", "--end-of-options", `${revision}^{commit}`])).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async verifyInteractiveRebaseAppliesCleanly(
+    repositoryRoot: string,
+    plan: InteractiveRebasePlanViewModel
+  ): Promise<OperationResultViewModel> {
+    const preflightRoot = await mkdtemp(join(tmpdir(), "guigit-rebase-"));
+    let worktreeCreated = false;
+    try {
+      try {
+        await this.runGitRaw(repositoryRoot, ["worktree", "add", "--detach", preflightRoot, plan.head]);
+        worktreeCreated = true;
+      } catch (error) {
+        return {
+          message: `Could not prepare a preview of the rebase plan: ${error instanceof Error ? error.message : String(error)}`,
+          status: "cancelled"
+        };
+      }
+
+      try {
+        // Planned edit stops are expected, so the preview only looks for commits that fail to apply.
+        await this.runInteractiveRebasePlan(preflightRoot, {
+          ...plan,
+          entries: plan.entries.map((entry) => (entry.action === "edit" ? { ...entry, action: "pick" } : entry))
+        });
+      } catch (error) {
+        return { message: interactiveRebaseConflictMessage(error), status: "conflict" };
+      }
+
+      return { message: "Rebase plan applies cleanly", status: "ok" };
+    } finally {
+      if (worktreeCreated) {
+        await this.runGitRaw(repositoryRoot, ["worktree", "remove", "--force", preflightRoot]).catch((error: unknown) => {
+          this.logger?.debug("git.interactiveRebase.previewCleanupFailed", {
+            error: error instanceof Error ? error.message : String(error),
+            repositoryRoot
+          });
+        });
+      }
+      await rm(preflightRoot, { force: true, recursive: true });
+    }
+  }
+
+  private async runInteractiveRebasePlan(repositoryRoot: string, plan: InteractiveRebasePlanViewModel): Promise<void> {
+    const planPath = (await this.runGitRaw(repositoryRoot, ["rev-parse", "--git-path", "guigit-rebase"])).trim();
+    const planDirectory = isAbsolute(planPath) ? planPath : join(repositoryRoot, planPath);
+    // Messages left behind by an aborted rebase are never read again.
+    await rm(planDirectory, { force: true, recursive: true });
+    const todoLines: string[] = [];
+    for (const [index, entry] of plan.entries.entries()) {
+      if (entry.action !== "reword") {
+        todoLines.push(`${entry.action} ${entry.hash}`);
+        continue;
+      }
+
+      const messagePath = join(planDirectory, `message-${index + 1}.txt`);
+      await this.writeTextFile(messagePath, `${entry.message.trim()}\n`);
+      todoLines.push(`pick ${entry.hash}`, `exec git commit --amend --only --allow-empty -F ${quoteShellPath(messagePath)}`);
+    }
+
+    // Reword messages must outlive conflict and edit stops, so the rebase removes them as its last step.
+    const hasMessages = plan.entries.some((entry) => entry.action === "reword");
+    if (hasMessages) {
+      todoLines.push(`exec rm -rf ${quoteShellPath(planDirectory)}`);
+    }
+
+    const todoPath = join(planDirectory, "git-rebase-todo");
+    await this.writeTextFile(todoPath, `${todoLines.join("\n")}\n`);
+    try {
+      await this.runGitRaw(repositoryRoot, [
+        "-c",
+        `sequence.editor=cp ${quoteShellPath(todoPath)}`,
+        "-c",
+        "core.editor=true",
+        "rebase",
+        "-i",
+        plan.base
+      ]);
+    } finally {
+      await rm(hasMessages ? todoPath : planDirectory, { force: true, recursive: true });
+    }
+  }
+
   public async continueOperation(repositoryRoot: string): Promise<OperationResultViewModel> {
     return this.safetyService.continueOperation(repositoryRoot);
   }
@@ -650,6 +1141,28 @@ export class GitService {
     }, conflict);
   }
 
+  private async runSquashMerge(
+    repositoryRoot: string,
+    source: string,
+    sourceLabel: string,
+    message: string | undefined
+  ): Promise<OperationResultViewModel> {
+    await this.runGitRaw(repositoryRoot, ["merge", "--squash", source]);
+    const stagedFiles = await this.runGitRaw(repositoryRoot, ["diff", "--cached", "--name-only"]);
+    if (!stagedFiles.trim()) {
+      return {
+        message: "Already up to date",
+        status: "ok"
+      };
+    }
+
+    await this.runGitRaw(repositoryRoot, squashCommitArgs(message));
+    return {
+      message: `Squash merged ${sourceLabel}`,
+      status: "ok"
+    };
+  }
+
   private async buildSquashPlan(repositoryRoot: string, hashes: readonly string[]): Promise<SquashPlan | undefined> {
     if (await this.isSquashableHeadRange(repositoryRoot, hashes)) {
       const oldestHash = hashes.at(-1)!;
@@ -689,7 +1202,7 @@ export class GitService {
     const preflightRoot = await mkdtemp(join(tmpdir(), "guigit-squash-"));
     try {
       await this.runGitRaw(repositoryRoot, ["worktree", "add", "--detach", preflightRoot, "HEAD"]);
-      await this.runSquashPlan(preflightRoot, plan, "GUI Git History squash preflight");
+      await this.runSquashPlan(preflightRoot, plan, "GUI Git History squash preflight", false);
       return true;
     } catch {
       return false;
@@ -933,7 +1446,7 @@ export class GitService {
     ]);
     if (action === "open-pull-request") {
       const remoteUrl = (await this.runGitRaw(repositoryRoot, ["remote", "get-url", target.remote])).trim();
-      await this.openExternal(pullRequestUrl(remoteUrl, target.branch));
+      await this.openExternal(this.hostingService.pullRequestUrl(remoteUrl, target.branch));
     }
   }
 
@@ -1076,6 +1589,11 @@ export class GitService {
   }
 }
 
+// Without an explicit request git still applies commit.gpgSign, so only the opt-in needs a flag.
+function signArgs(sign: boolean): readonly string[] {
+  return sign ? ["-S"] : [];
+}
+
 function parseRemoteBranches(output: string): readonly string[] {
   return output
     .split("\n")
@@ -1133,6 +1651,52 @@ function parseLines(output: string): readonly string[] {
   return output.split("\n").map((line) => line.trim()).filter(Boolean);
 }
 
+function parseInteractiveRebaseEntries(output: string): readonly InteractiveRebaseEntryViewModel[] {
+  // Full messages span lines, so records end with a record separator instead of a newline.
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [hash = "", shortHash = "", author = "", message = ""] = record.split("\x1f");
+      return { action: "pick", author, hash, message: message.trimEnd(), shortHash };
+    });
+}
+
+function interactiveRebasePlanError(plan: InteractiveRebasePlanViewModel): string | undefined {
+  const unsupportedEntry = plan.entries.find((entry) => !interactiveRebaseActions.has(entry.action));
+  if (unsupportedEntry) {
+    return `Unsupported rebase action: ${String(unsupportedEntry.action)}`;
+  }
+
+  const keptEntries = plan.entries.filter((entry) => entry.action !== "drop");
+  if (keptEntries.length === 0) {
+    return "Keep at least 1 commit in the rebase plan";
+  }
+
+  if (keptEntries[0]!.action === "squash" || keptEntries[0]!.action === "fixup") {
+    return "The first commit in the rebase plan cannot be squashed or fixed up";
+  }
+
+  if (keptEntries.some((entry) => entry.action === "reword" && !entry.message.trim())) {
+    return "Reworded commits need a commit message";
+  }
+
+  return undefined;
+}
+
+function interactiveRebaseConflictMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const hash = /could not apply ([^\s.]+)/i.exec(message)?.[1];
+  return hash
+    ? `Rebase plan conflicts while applying ${hash}.`
+    : "Rebase plan does not apply cleanly.";
+}
+
+function quoteShellPath(filePath: string): string {
+  return `'${filePath.replaceAll("\\", "/").replaceAll("'", "'\\''")}'`;
+}
+
 function preferLastSelection<T extends QuickPickItem>(items: readonly T[], lastSelection: string | undefined): readonly T[] {
   const selectionIndex = items.findIndex((item) => item.value === lastSelection);
   if (selectionIndex <= 0) {
@@ -1319,38 +1883,6 @@ function pushTargetFromArgs(args: readonly string[]): { branch: string; remote:
   };
 }
 
-function pullRequestUrl(remoteUrl: string, branch: string): string {
-  const repositoryUrl = repositoryWebUrl(remoteUrl);
-  if (repositoryUrl.includes("github.com/")) {
-    return `${repositoryUrl}/pull/new/${encodeURIComponent(branch)}`;
-  }
-
-  if (repositoryUrl.includes("gitlab.com/")) {
-    return `${repositoryUrl}/-/merge_requests/new?merge_request[source_branch]=${encodeURIComponent(branch)}`;
-  }
-
-  if (repositoryUrl.includes("bitbucket.org/")) {
-    return `${repositoryUrl}/pull-requests/new?source=${encodeURIComponent(branch)}`;
-  }
-
-  return repositoryUrl;
-}
-
-function repositoryWebUrl(remoteUrl: string): string {
-  const trimmedUrl = remoteUrl.trim().replace(/\.git$/, "");
-  const sshMatch = /^git@([^:]+):(.+)$/.exec(trimmedUrl);
-  if (sshMatch) {
-    return `https://${sshMatch[1]}/${sshMatch[2]}`;
-  }
-
-  const sshUrlMatch = /^ssh:\/\/git@([^/]+)\/(.+)$/.exec(trimmedUrl);
-  if (sshUrlMatch) {
-    return `https://${sshUrlMatch[1]}/${sshUrlMatch[2]}`;
-  }
-
-  return trimmedUrl;
-}
-
 function getPullConflictResolution(args: readonly string[]): ConflictResolutionInput {
   if (args.includes("--rebase")) {
     return {
@@ -1368,3 +1900,36 @@ function getPullConflictResolution(args: readonly string[]): ConflictResolutionI
     operationName: "Pull"
   };
 }
+
+function getMergeConflictResolution(mode: GitMergeMode, message: string | undefined): ConflictResolutionInput {
+  if (mode === "squash") {
+    return {
+      abortArgs: ["reset", "--merge"],
+      continueArgs: squashCommitArgs(message),
+      operationKind: "squash",
+      operationName: "Squash merge"
+    };
+  }
+
+  return {
+    abortArgs: ["merge", "--abort"],
+    continueArgs: ["commit", "--no-edit"],
+    operationKind: "merge",
+    operationName: "Merge"
+  };
+}
+
+function mergeArgs(source: string, mode: GitMergeMode, message: string | undefined): readonly string[] {
+  const modeArgs = mode === "default" ? [] : [`--${mode}`];
+  const messageArgs = message ? ["-m", message] : ["--no-edit"];
+
+  return ["merge", ...modeArgs, ...messageArgs, source];
+}
+
+function squashCommitArgs(message: string | undefined): readonly string[] {
+  return message ? ["commit", "-m", message] : ["commit", "--no-edit"];
+}
+
+function formatMergeSource(source: string): string {
+  return /^[0-9a-f]{40}$/i.test(source) ? source.slice(0, 8) : source;
+}
@@ -0,0 +1,439 @@
+import { deflateSync } from "node:zlib";
+import type { GraphLayoutViewModel, GraphPointViewModel, RefViewModel } from "../rpc/contract";
+
+export interface GraphExportRow {
+  author: string;
+  date: string;
+  hash: string;
+  message: string;
+  refs: readonly RefViewModel[];
+  shortHash: string;
+}
+
+export interface GraphExportInput {
+  graph: GraphLayoutViewModel;
+  rows: readonly GraphExportRow[];
+}
+
+type GraphExportFont = "mono" | "sans";
+
+type GraphExportShape =
+  | { kind: "circle"; cx: number; cy: number; fill: string; r: number; stroke: string }
+  | { kind: "polyline"; color: string; points: readonly GraphPointViewModel[]; width: number }
+  | { kind: "rect"; fill: string; height: number; width: number; x: number; y: number }
+  | { kind: "text"; color: string; font: GraphExportFont; size: number; text: string; x: number; y: number };
+
+interface GraphExportScene {
+  height: number;
+  shapes: readonly GraphExportShape[];
+  width: number;
+}
+
+interface Raster {
+  height: number;
+  pixels: Uint8Array;
+  width: number;
+}
+
+const rowHeight = 36;
+const columnGap = 12;
+const charWidth = 7;
+const refCharWidth = 6;
+const hashColumnWidth = 64;
+const messageColumnWidth = 480;
+const authorColumnWidth = 140;
+const dateColumnWidth = 96;
+const refHeight = 16;
+const refGap = 4;
+const maxRefLength = 24;
+const textSize = 12;
+const refTextSize = 10;
+const backgroundColor = "#ffffff";
+const borderColor = "#e5e7eb";
+const textColor = "#1f2328";
+const mutedTextColor = "#57606a";
+const refTextColor = "#ffffff";
+const refColors: Readonly<Record<RefViewModel["type"], string>> = {
+  head: "#f56565",
+  local: "#9f7aea",
+  remote: "#4299e1",
+  tag: "#48bb78"
+};
+const fontFamilies: Readonly<Record<GraphExportFont, string>> = {
+  mono: "Menlo, Consolas, monospace",
+  sans: "Segoe UI, Helvetica, Arial, sans-serif"
+};
+const pngScale = 2;
+const maxPngHeight = 32768;
+export const maxPngExportRows = Math.floor(maxPngHeight / (rowHeight * pngScale));
+const pngSignature = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const glyphWidth = 5;
+const glyphHeight = 7;
+const glyphColumns = [
+  "0000000000", "00005f0000", "0007000700", "147f147f14", "242a7f2a12", "2313086462", "3649552250", "0005030000",
+  "001c224100", "0041221c00", "082a1c2a08", "08083e0808", "0050300000", "0808080808", "0060600000", "2010080402",
+  "3e5149453e", "00427f4000", "4261514946", "2141454b31", "1814127f10", "2745454539", "3c4a494930", "0171090503",
+  "3649494936", "064949291e", "0036360000", "0056360000", "0814224100", "1414141414", "0041221408", "0201510906",
+  "324979413e", "7e1111117e", "7f49494936", "3e41414122", "7f4141221c", "7f49494941", "7f09090101", "3e41415132",
+  "7f0808087f", "00417f4100", "2040413f01", "7f08142241", "7f40404040", "7f0204027f", "7f0408107f", "3e4141413e",
+  "7f09090906", "3e4151215e", "7f09192946", "4649494931", "01017f0101", "3f4040403f", "1f2040201f", "7f2018207f",
+  "6314081463", "0304780403", "6151494543", "007f414100", "0204081020", "0041417f00", "0402010204", "4040404040",
+  "0001020400", "2054545478", "7f48444438", "3844444420", "384444487f", "3854545418", "087e090102", "081454543c",
+  "7f08040478", "00447d4000", "2040443d00", "007f102844", "00417f4000", "7c04180478", "7c08040478", "3844444438",
+  "7c14141408", "081414187c", "7c08040408", "4854545420", "043f444020", "3c4040207c", "1c2040201c", "3c4030403c",
+  "4428102844", "0c5050503c", "4464544c44", "0008364100", "00007f0000", "0041360800", "0804081008"
+].join("");
+
+export function renderGraphSvg(input: GraphExportInput): string {
+  const scene = buildGraphExportScene(input);
+  const elements = scene.shapes.map((shape) => {
+    switch (shape.kind) {
+      case "circle":
+        return svgElement("circle", {
+          cx: shape.cx,
+          cy: shape.cy,
+          fill: shape.fill,
+          r: shape.r,
+          stroke: shape.stroke,
+          "stroke-width": 1
+        });
+      case "polyline":
+        return svgElement("polyline", {
+          fill: "none",
+          points: shape.points.map((point) => `${point.x},${point.y}`).join(" "),
+          stroke: shape.color,
+          "stroke-linecap": "round",
+          "stroke-linejoin": "round",
+          "stroke-width": shape.width
+        });
+      case "rect":
+        return svgElement("rect", {
+          fill: shape.fill,
+          height: shape.height,
+          width: shape.width,
+          x: shape.x,
+          y: shape.y
+        });
+      case "text":
+        return svgElement(
+          "text",
+          {
+            fill: shape.color,
+            "font-family": fontFamilies[shape.font],
+            "font-size": shape.size,
+            x: shape.x,
+            y: shape.y
+          },
+          shape.text
+        );
+    }
+  });
+  const rootAttributes = svgAttributes({
+    height: scene.height,
+    viewBox: `0 0 ${scene.width} ${scene.height}`,
+    width: scene.width,
+    xmlns: "http://www.w3.org/2000/svg"
+  });
+
+  return [`<?xml version="1.0" encoding="UTF-8"?>`, `<svg ${rootAttributes}>`, ...elements, "</svg>", ""].join("\n");
+}
+
+export function renderGraphPng(input: GraphExportInput): Uint8Array {
+  if (input.rows.length > maxPngExportRows) {
+    throw new Error(`PNG export supports at most ${maxPngExportRows} commits; export SVG for larger ranges`);
+  }
+
+  // The bitmap font only has printable ASCII glyphs, so other labels would be drawn as placeholders.
+  const unsupportedLabel = input.rows
+    .flatMap((row) => [row.shortHash, row.message, row.author, row.date, ...row.refs.map((ref) => ref.name)])
+    .find((label) => !/^[\x20-\x7e]*$/.test(label));
+  if (unsupportedLabel !== undefined) {
+    throw new Error(`PNG export can only draw ASCII text and cannot draw "${unsupportedLabel}"; export SVG instead`);
+  }
+
+  const scene = buildGraphExportScene(input);
+  const raster = createRaster(scene.width * pngScale, scene.height * pngScale);
+  for (const shape of scene.shapes) {
+    switch (shape.kind) {
+      case "circle":
+        fillCircle(raster, shape.cx, shape.cy, shape.r + 1, shape.stroke);
+        fillCircle(raster, shape.cx, shape.cy, shape.r, shape.fill);
+        break;
+      case "polyline":
+        for (let index = 1; index < shape.points.length; index += 1) {
+          strokeSegment(raster, shape.points[index - 1]!, shape.points[index]!, shape.width, shape.color);
+        }
+        break;
+      case "rect":
+        fillRect(raster, shape.x, shape.y, shape.width, shape.height, shape.fill);
+        break;
+      case "text":
+        drawText(raster, shape);
+        break;
+    }
+  }
+
+  return encodePng(raster);
+}
+
+function buildGraphExportScene({ graph, rows }: GraphExportInput): GraphExportScene {
+  const hashX = graph.width + columnGap;
+  const messageX = hashX + hashColumnWidth + columnGap;
+  const authorX = messageX + messageColumnWidth + columnGap;
+  const dateX = authorX + authorColumnWidth + columnGap;
+  const width = dateX + dateColumnWidth + columnGap;
+  const height = Math.max(rows.length, 1) * rowHeight;
+  const shapes: GraphExportShape[] = [{ fill: backgroundColor, height, kind: "rect", width, x: 0, y: 0 }];
+
+  rows.forEach((row, index) => {
+    const top = index * rowHeight;
+    const baseline = top + rowHeight / 2 + 4;
+    shapes.push({
+      fill: borderColor,
+      height: 1,
+      kind: "rect",
+      width: width - graph.width,
+      x: graph.width,
+      y: top + rowHeight - 1
+    });
+    shapes.push(textShape(row.shortHash, hashX, baseline, hashColumnWidth, "mono", mutedTextColor));
+
+    let messageLeft = messageX;
+    for (const ref of row.refs) {
+      const label = truncateText(ref.name, maxRefLength * refCharWidth, refCharWidth);
+      const refWidth = label.length * refCharWidth + refGap * 2;
+      if (messageLeft + refWidth > messageX + messageColumnWidth / 2) {
+        break;
+      }
+
+      shapes.push({
+        fill: refColors[ref.type],
+        height: refHeight,
+        kind: "rect",
+        width: refWidth,
+        x: messageLeft,
+        y: top + (rowHeight - refHeight) / 2
+      });
+      shapes.push({
+        color: refTextColor,
+        font: "sans",
+        kind: "text",
+        size: refTextSize,
+        text: label,
+        x: messageLeft + refGap,
+        y: baseline - 1
+      });
+      messageLeft += refWidth + refGap;
+    }
+
+    shapes.push(
+      textShape(row.message, messageLeft, baseline, messageX + messageColumnWidth - messageLeft, "sans", textColor)
+    );
+    shapes.push(textShape(row.author, authorX, baseline, authorColumnWidth, "sans", mutedTextColor));
+    shapes.push(textShape(row.date, dateX, baseline, dateColumnWidth, "sans", mutedTextColor));
+  });
+
+  for (const edge of graph.edges) {
+    shapes.push({ color: edge.color, kind: "polyline", points: edge.points, width: 2 });
+  }
+  for (const node of graph.nodes) {
+    shapes.push({ cx: node.x, cy: node.y, fill: node.color, kind: "circle", r: 4, stroke: backgroundColor });
+  }
+
+  return { height, shapes, width };
+}
+
+function textShape(
+  text: string,
+  x: number,
+  y: number,
+  availableWidth: number,
+  font: GraphExportFont,
+  color: string
+): GraphExportShape {
+  return { color, font, kind: "text", size: textSize, text: truncateText(text, availableWidth, charWidth), x, y };
+}
+
+function truncateText(text: string, availableWidth: number, width: number): string {
+  const maxLength = Math.max(0, Math.floor(availableWidth / width));
+  const characters = [...text];
+
+  return characters.length <= maxLength ? text : `${characters.slice(0, Math.max(0, maxLength - 1)).join("")}…`;
+}
+
+function svgElement(name: string, attributes: Readonly<Record<string, number | string>>, content?: string): string {
+  return content === undefined
+    ? `<${name} ${svgAttributes(attributes)}/>`
+    : `<${name} ${svgAttributes(attributes)}>${escapeXml(content)}</${name}>`;
+}
+
+function svgAttributes(attributes: Readonly<Record<string, number | string>>): string {
+  return Object.entries(attributes)
+    .map(([attribute, value]) => `${attribute}="${escapeXml(String(value))}"`)
+    .join(" ");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function createRaster(width: number, height: number): Raster {
+  return { height, pixels: new Uint8Array(width * height * 4), width };
+}
+
+function setPixel(raster: Raster, x: number, y: number, color: readonly [number, number, number]): void {
+  if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) {
+    return;
+  }
+
+  const offset = (y * raster.width + x) * 4;
+  raster.pixels[offset] = color[0];
+  raster.pixels[offset + 1] = color[1];
+  raster.pixels[offset + 2] = color[2];
+  raster.pixels[offset + 3] = 255;
+}
+
+function fillRect(raster: Raster, x: number, y: number, width: number, height: number, color: string): void {
+  const rgb = parseColor(color);
+  const left = Math.round(x * pngScale);
+  const top = Math.round(y * pngScale);
+  const right = Math.round((x + width) * pngScale);
+  const bottom = Math.round((y + height) * pngScale);
+  for (let pixelY = top; pixelY < bottom; pixelY += 1) {
+    for (let pixelX = left; pixelX < right; pixelX += 1) {
+      setPixel(raster, pixelX, pixelY, rgb);
+    }
+  }
+}
+
+function fillCircle(raster: Raster, cx: number, cy: number, r: number, color: string): void {
+  const rgb = parseColor(color);
+  const centerX = cx * pngScale;
+  const centerY = cy * pngScale;
+  const radius = r * pngScale;
+  for (let pixelY = Math.floor(centerY - radius); pixelY <= Math.ceil(centerY + radius); pixelY += 1) {
+    for (let pixelX = Math.floor(centerX - radius); pixelX <= Math.ceil(centerX + radius); pixelX += 1) {
+      if (Math.hypot(pixelX + 0.5 - centerX, pixelY + 0.5 - centerY) <= radius) {
+        setPixel(raster, pixelX, pixelY, rgb);
+      }
+    }
+  }
+}
+
+function strokeSegment(
+  raster: Raster,
+  from: GraphPointViewModel,
+  to: GraphPointViewModel,
+  width: number,
+  color: string
+): void {
+  const rgb = parseColor(color);
+  const halfWidth = (width * pngScale) / 2;
+  const fromX = from.x * pngScale;
+  const fromY = from.y * pngScale;
+  const dx = to.x * pngScale - fromX;
+  const dy = to.y * pngScale - fromY;
+  const lengthSquared = dx * dx + dy * dy;
+  const left = Math.floor(Math.min(fromX, fromX + dx) - halfWidth);
+  const right = Math.ceil(Math.max(fromX, fromX + dx) + halfWidth);
+  const top = Math.floor(Math.min(fromY, fromY + dy) - halfWidth);
+  const bottom = Math.ceil(Math.max(fromY, fromY + dy) + halfWidth);
+  for (let pixelY = top; pixelY <= bottom; pixelY += 1) {
+    for (let pixelX = left; pixelX <= right; pixelX += 1) {
+      const px = pixelX + 0.5 - fromX;
+      const py = pixelY + 0.5 - fromY;
+      const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, (px * dx + py * dy) / lengthSquared));
+      if (Math.hypot(px - t * dx, py - t * dy) <= halfWidth) {
+        setPixel(raster, pixelX, pixelY, rgb);
+      }
+    }
+  }
+}
+
+function drawText(raster: Raster, shape: Extract<GraphExportShape, { kind: "text" }>): void {
+  const rgb = parseColor(shape.color);
+  const dotSize = Math.max(1, Math.round(shape.size / 6));
+  const top = Math.round(shape.y * pngScale) - glyphHeight * dotSize;
+  let left = Math.round(shape.x * pngScale);
+  for (const character of shape.text) {
+    const code = character.codePointAt(0)!;
+    const glyphIndex = code >= 32 && code <= 126 ? code - 32 : "?".charCodeAt(0) - 32;
+    for (let column = 0; column < glyphWidth; column += 1) {
+      const offset = (glyphIndex * glyphWidth + column) * 2;
+      const bits = Number.parseInt(glyphColumns.slice(offset, offset + 2), 16);
+      for (let row = 0; row < glyphHeight; row += 1) {
+        if ((bits >> row) & 1) {
+          fillPixelBlock(raster, left + column * dotSize, top + row * dotSize, dotSize, rgb);
+        }
+      }
+    }
+    left += (glyphWidth + 1) * dotSize;
+  }
+}
+
+function fillPixelBlock(
+  raster: Raster,
+  x: number,
+  y: number,
+  size: number,
+  color: readonly [number, number, number]
+): void {
+  for (let offsetY = 0; offsetY < size; offsetY += 1) {
+    for (let offsetX = 0; offsetX < size; offsetX += 1) {
+      setPixel(raster, x + offsetX, y + offsetY, color);
+    }
+  }
+}
+
+function parseColor(color: string): readonly [number, number, number] {
+  const value = Number.parseInt(color.slice(1), 16);
+
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function encodePng(raster: Raster): Uint8Array {
+  const stride = raster.width * 4 + 1;
+  const scanlines = Buffer.alloc(stride * raster.height);
+  for (let y = 0; y < raster.height; y += 1) {
+    scanlines.set(raster.pixels.subarray(y * raster.width * 4, (y + 1) * raster.width * 4), y * stride + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(raster.width, 0);
+  header.writeUInt32BE(raster.height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  return Buffer.concat([
+    pngSignature,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(scanlines)),
+    pngChunk("IEND", Buffer.alloc(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "ascii");
+  chunk.set(data, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+
+  return chunk;
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -1,10 +1,23 @@
+import { randomUUID } from "node:crypto";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
 import { simpleGit } from "simple-git";
-import type { GraphLayoutViewModel, GraphNodeViewModel } from "../rpc/contract";
+import type {
+  GraphExportFormat,
+  GraphLayoutCursorViewModel,
+  GraphLayoutPageViewModel,
+  GraphLayoutViewModel,
+  GraphNodeViewModel,
+  OperationResultViewModel,
+  RefViewModel
+} from "../rpc/contract";
 import type { Logger } from "../../logging/LoggerService";
+import { renderGraphPng, renderGraphSvg, type GraphExportRow } from "./GraphExportRenderer";
 
 const fieldSeparator = "\x1f";
 const recordSeparator = "\x1e";
 const prettyFormat = `%H%x1f%P%x1e`;
+const exportPrettyFormat = `%H%x1f%h%x1f%an%x1f%ad%x1f%D%x1f%s%x1e`;
 const graphLeft = 8;
 const graphPaddingRight = 24;
 const laneSpacing = 12;
@@ -44,6 +57,14 @@ const graphColors = [
 export interface GraphServiceInput {
   gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   logger?: Pick<Logger, "debug">;
+  showSaveDialog?: (options: GraphExportSaveDialogOptions) => Thenable<{ fsPath: string } | undefined>;
+  writeFile?: (path: string, content: string | Uint8Array) => Promise<void>;
+}
+
+export interface GraphExportSaveDialogOptions {
+  defaultPath: string;
+  filters: Readonly<Record<string, readonly string[]>>;
+  saveLabel: string;
 }
 
 interface ParsedGraphCommit {
@@ -56,44 +77,181 @@ interface GraphRoutePoint {
   row: number;
 }
 
+interface GraphLayoutState {
+  activeColumns: Array<string | undefined>;
+  colorByHash: Map<string, string>;
+  columnByEdge: Map<string, number>;
+  columnByHash: Map<string, number>;
+  commitByHash: Map<string, ParsedGraphCommit>;
+  commits: ParsedGraphCommit[];
+  hashes: readonly string[];
+  hiddenColorByEdge: Map<string, string>;
+  hiddenColumnByEdge: Map<string, number>;
+  id: string;
+  mainline: Set<string>;
+  mainlineParent: string | undefined;
+  nextColorIndex: number;
+  positionedNodes: Array<Omit<GraphNodeViewModel, "x" | "y">>;
+  routeByEdge: Map<string, GraphRoutePoint[]>;
+  routeEdgeByHash: Map<string, string>;
+  rowByHash: Map<string, number>;
+}
+
 export class GraphService {
   private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly layoutStates = new Map<string, Promise<GraphLayoutState | undefined>>();
   private readonly logger: Pick<Logger, "debug"> | undefined;
+  private readonly showSaveDialog?: (options: GraphExportSaveDialogOptions) => Thenable<{ fsPath: string } | undefined>;
+  private readonly writeFile: (path: string, content: string | Uint8Array) => Promise<void>;
 
   public constructor(input: GraphServiceInput = {}) {
     this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
     this.logger = input.logger;
+    this.showSaveDialog = input.showSaveDialog;
+    this.writeFile = input.writeFile ?? writeFile;
   }
 
   public async getLayout(repositoryRoot: string, hashes: readonly string[]): Promise<GraphLayoutViewModel> {
+    return (await this.getLayoutPage(repositoryRoot, hashes)).graph;
+  }
+
+  // Rows before startRow keep the nodes and edges the caller already has from the same layout, so only
+  // new rows and the edges that are still open at that boundary are sent again.
+  public async getLayoutPage(
+    repositoryRoot: string,
+    hashes: readonly string[],
+    knownLayout?: GraphLayoutCursorViewModel
+  ): Promise<GraphLayoutPageViewModel> {
     if (hashes.length === 0) {
+      this.layoutStates.delete(repositoryRoot);
       return {
-        edges: [],
-        nodes: [],
-        width: graphLeft + graphPaddingRight
+        graph: {
+          edges: [],
+          nodes: [],
+          width: graphLeft + graphPaddingRight
+        },
+        layoutId: "",
+        startRow: 0
       };
     }
 
-    const args = ["show", "--no-patch", `--pretty=format:${prettyFormat}`, ...hashes];
+    const previousState = this.layoutStates.get(repositoryRoot) ?? Promise.resolve(undefined);
+    const nextLayout = previousState.then(async (previous) => {
+      const state = await this.extendLayout(repositoryRoot, previous, hashes);
+      const startRow =
+        knownLayout?.layoutId === state.id ? Math.max(0, Math.min(knownLayout.rowCount, state.commits.length)) : 0;
+      return { page: { graph: toGraphLayout(state, startRow), layoutId: state.id, startRow }, state };
+    });
+    this.layoutStates.set(repositoryRoot, nextLayout.then(({ state }) => state).catch(() => undefined));
+
+    const { page } = await nextLayout;
+    this.logger?.debug("git.graph.loaded", {
+      edgeCount: page.graph.edges.length,
+      nodeCount: page.graph.nodes.length,
+      repositoryRoot,
+      startRow: page.startRow
+    });
+
+    return page;
+  }
+
+  public async exportGraph(
+    repositoryRoot: string,
+    hashes: readonly string[],
+    format: GraphExportFormat
+  ): Promise<OperationResultViewModel> {
+    if (hashes.length === 0) {
+      throw new Error("There are no commits to export");
+    }
+
+    const path = await this.pickExportPath(repositoryRoot, format);
+    if (!path) {
+      return {
+        message: "Graph export cancelled",
+        status: "cancelled"
+      };
+    }
+
+    // The export is laid out on its own so the incremental layout of the history view keeps its state.
+    const [state, rows] = await Promise.all([
+      this.extendLayout(repositoryRoot, undefined, hashes),
+      this.loadExportRows(repositoryRoot, hashes)
+    ]);
+    const input = { graph: toGraphLayout(state, 0), rows };
+    await this.writeFile(path, format === "png" ? renderGraphPng(input) : renderGraphSvg(input));
+    this.logger?.debug("git.graph.exported", {
+      commitCount: rows.length,
+      format,
+      path,
+      repositoryRoot
+    });
+
+    return {
+      message: `Exported ${rows.length} commits to ${path}`,
+      status: "ok"
+    };
+  }
+
+  private async pickExportPath(repositoryRoot: string, format: GraphExportFormat): Promise<string | undefined> {
+    if (!this.showSaveDialog) {
+      throw new Error("An export location is required");
+    }
+
+    const uri = await this.showSaveDialog({
+      defaultPath: join(repositoryRoot, `git-graph.${format}`),
+      filters: format === "png" ? { "PNG Image": ["png"] } : { "SVG Image": ["svg"] },
+      saveLabel: "Export Graph"
+    });
+
+    return uri?.fsPath;
+  }
+
+  private async loadExportRows(repositoryRoot: string, hashes: readonly string[]): Promise<readonly GraphExportRow[]> {
+    const output = await this.gitRaw(repositoryRoot, [
+      "show",
+      "--no-patch",
+      "--date=short",
+      `--pretty=format:${exportPrettyFormat}`,
+      "--encoding=UTF-8",
+      ...hashes
+    ]);
+    const rowByHash = new Map(parseExportRows(output).map((row) => [row.hash, row]));
+
+    return hashes.flatMap((hash) => {
+      const row = rowByHash.get(hash);
+      return row ? [row] : [];
+    });
+  }
+
+  private async extendLayout(
+    repositoryRoot: string,
+    previousState: GraphLayoutState | undefined,
+    hashes: readonly string[]
+  ): Promise<GraphLayoutState> {
+    const state =
+      previousState && isHashPrefix(previousState.hashes, hashes) ? previousState : createGraphLayoutState();
+    const newHashes = hashes.slice(state.hashes.length);
+    if (newHashes.length === 0) {
+      return state;
+    }
+
+    const args = ["show", "--no-patch", `--pretty=format:${prettyFormat}`, ...newHashes];
     this.logger?.debug("git.graph.load", {
-      commitCount: hashes.length,
+      commitCount: newHashes.length,
+      laidOutCount: state.commits.length,
       repositoryRoot
     });
 
     const parsedCommits = parseGraphCommits(await this.gitRaw(repositoryRoot, args));
     const parsedCommitByHash = new Map(parsedCommits.map((commit) => [commit.hash, commit]));
-    const commits = hashes.flatMap((hash) => {
+    const commits = newHashes.flatMap((hash) => {
       const commit = parsedCommitByHash.get(hash);
       return commit ? [commit] : [];
     });
-    const graph = computeGraphLayout(commits);
-    this.logger?.debug("git.graph.loaded", {
-      edgeCount: graph.edges.length,
-      nodeCount: graph.nodes.length,
-      repositoryRoot
-    });
+    layoutGraphRows(state, commits);
+    state.hashes = hashes;
 
-    return graph;
+    return state;
   }
 }
 
@@ -111,41 +269,140 @@ function parseGraphCommits(output: string): readonly ParsedGraphCommit[] {
     });
 }
 
-function computeGraphLayout(commits: readonly ParsedGraphCommit[]): GraphLayoutViewModel {
-  const commitByHash = new Map(commits.map((commit) => [commit.hash, commit]));
-  const mainline = identifyMainline(commits, commitByHash);
-  const preferredChildByParent = identifyPreferredParentChildren(commits);
-  const activeColumns: Array<string | undefined> = [];
-  const positionedNodes: Array<Omit<GraphNodeViewModel, "x" | "y">> = [];
-  const columnByHash = new Map<string, number>();
-  const colorByHash = new Map<string, string>();
-  const columnByEdge = new Map<string, number>();
-  const routeByEdge = new Map<string, GraphRoutePoint[]>();
-  const routeEdgeByHash = new Map<string, string>();
-  const hiddenColumnByEdge = new Map<string, number>();
-  const hiddenColorByEdge = new Map<string, string>();
-  let nextColorIndex = 1;
+function parseExportRows(output: string): readonly GraphExportRow[] {
+  return output
+    .split(recordSeparator)
+    .filter(Boolean)
+    .map((record) => {
+      const [hash = "", shortHash = "", author = "", date = "", refs = "", message = ""] = record
+        .trim()
+        .split(fieldSeparator);
+
+      return {
+        author,
+        date,
+        hash,
+        message,
+        refs: parseRefs(refs),
+        shortHash
+      };
+    });
+}
+
+function parseRefs(refs: string): readonly RefViewModel[] {
+  return refs
+    .split(",")
+    .map((ref) => ref.trim())
+    .filter(Boolean)
+    .flatMap((ref): readonly RefViewModel[] => {
+      if (ref.startsWith("HEAD -> ")) {
+        const target = ref.slice("HEAD -> ".length);
+        return [{ name: "HEAD", type: "head" }, classifyRef(target)];
+      }
+
+      if (ref === "HEAD") {
+        return [{ name: "HEAD", type: "head" }];
+      }
+
+      if (ref.startsWith("tag: ")) {
+        return [{ name: ref.slice("tag: ".length), type: "tag" }];
+      }
+
+      return [classifyRef(ref)];
+    });
+}
+
+function classifyRef(ref: string): RefViewModel {
+  return {
+    name: ref,
+    type: ref.includes("/") ? "remote" : "local"
+  };
+}
+
+function isHashPrefix(prefix: readonly string[], hashes: readonly string[]): boolean {
+  return prefix.length <= hashes.length && prefix.every((hash, index) => hashes[index] === hash);
+}
+
+function createGraphLayoutState(): GraphLayoutState {
+  return {
+    activeColumns: [],
+    colorByHash: new Map(),
+    columnByEdge: new Map(),
+    columnByHash: new Map(),
+    commitByHash: new Map(),
+    commits: [],
+    hashes: [],
+    hiddenColorByEdge: new Map(),
+    hiddenColumnByEdge: new Map(),
+    id: randomUUID(),
+    mainline: new Set(),
+    mainlineParent: undefined,
+    nextColorIndex: 1,
+    positionedNodes: [],
+    routeByEdge: new Map(),
+    routeEdgeByHash: new Map(),
+    rowByHash: new Map()
+  };
+}
+
+function layoutGraphRows(state: GraphLayoutState, commits: readonly ParsedGraphCommit[]): void {
+  const firstRow = state.commits.length;
+  for (const commit of commits) {
+    state.commitByHash.set(commit.hash, commit);
+    state.commits.push(commit);
+  }
+  extendMainline(state, firstRow === 0 ? commits[0] : undefined);
+  // Preferred children come from every loaded row so a page boundary cannot change which child continues a parent's lane.
+  const preferredChildByParent = identifyPreferredParentChildren(state.commits);
+  const {
+    activeColumns,
+    colorByHash,
+    columnByEdge,
+    columnByHash,
+    commitByHash,
+    hiddenColorByEdge,
+    hiddenColumnByEdge,
+    mainline,
+    routeByEdge,
+    routeEdgeByHash
+  } = state;
 
   const nextColor = () => {
-    const color = graphColors[nextColorIndex % graphColors.length]!;
-    nextColorIndex += 1;
+    const color = graphColors[state.nextColorIndex % graphColors.length]!;
+    state.nextColorIndex += 1;
     return color;
   };
 
-  for (let row = 0; row < commits.length; row += 1) {
-    const commit = commits[row]!;
+  for (let index = 0; index < commits.length; index += 1) {
+    const commit = commits[index]!;
+    const row = firstRow + index;
     compactEdgeColumns(activeColumns, columnByHash, columnByEdge, routeByEdge, routeEdgeByHash, hiddenColumnByEdge, row);
     const mainlineCommit = mainline.has(commit.hash);
     const existingColumn = activeColumns.indexOf(commit.hash);
-    const column = mainlineCommit ? 0 : existingColumn >= 0 ? existingColumn : findAvailableColumn(activeColumns, 1);
-    const color = mainlineCommit ? graphColors[0]! : colorByHash.get(commit.hash) ?? nextColor();
+    const hiddenEdgeKey =
+      mainlineCommit || existingColumn >= 0
+        ? undefined
+        : findHiddenEdgeTargeting(activeColumns, hiddenColumnByEdge, commit.hash);
+    const column = mainlineCommit
+      ? 0
+      : existingColumn >= 0
+        ? existingColumn
+        : hiddenEdgeKey !== undefined
+          ? activeColumns.indexOf(hiddenEdgeKey)
+          : findAvailableColumn(activeColumns, 1);
+    const color = mainlineCommit
+      ? graphColors[0]!
+      : colorByHash.get(commit.hash) ??
+        (hiddenEdgeKey === undefined ? undefined : hiddenColorByEdge.get(hiddenEdgeKey)) ??
+        nextColor();
 
     removeHashFromOtherColumns(activeColumns, commit.hash, column);
     colorByHash.set(commit.hash, color);
     columnByHash.set(commit.hash, column);
+    state.rowByHash.set(commit.hash, row);
     activeColumns[column] = commit.hash;
 
-    positionedNodes.push({
+    state.positionedNodes.push({
       color,
       column,
       hash: commit.hash,
@@ -172,22 +429,37 @@ function computeGraphLayout(commits: readonly ParsedGraphCommit[]): GraphLayoutV
       nextColor
     );
   }
+}
 
+function toGraphLayout(state: GraphLayoutState, startRow: number): GraphLayoutViewModel {
+  const { columnByEdge, columnByHash, commits, hiddenColorByEdge, positionedNodes, routeByEdge, rowByHash } = state;
   const maxColumn = Math.max(0, ...positionedNodes.map((node) => node.column), ...columnByHash.values());
   const width = graphX(maxColumn, laneSpacing) + graphPaddingRight;
-  const nodes = positionedNodes.map((node) => ({
+  const toNode = (node: Omit<GraphNodeViewModel, "x" | "y">): GraphNodeViewModel => ({
     ...node,
-    x: graphPoint(node.column, node.row).x,
-    y: graphPoint(node.column, node.row).y
-  }));
-  const nodeByHash = new Map(nodes.map((node) => [node.hash, node]));
+    ...graphPoint(node.column, node.row)
+  });
+  const nodeFor = (hash: string): GraphNodeViewModel | undefined => {
+    const row = rowByHash.get(hash);
+    return row === undefined ? undefined : toNode(positionedNodes[row]!);
+  };
+  // An edge only changes until its parent row is laid out, so earlier rows resend just their open edges.
+  const isOpenAtStartRow = (parentHash: string) => (rowByHash.get(parentHash) ?? Number.POSITIVE_INFINITY) >= startRow;
+  const edgeSources = [
+    ...commits.slice(0, startRow).filter((commit) => commit.parents.some(isOpenAtStartRow)),
+    ...commits.slice(startRow)
+  ];
 
   return {
-    edges: commits.flatMap((commit) => {
-      const fromNode = nodeByHash.get(commit.hash)!;
+    edges: edgeSources.flatMap((commit) => {
+      const fromNode = nodeFor(commit.hash)!;
 
       return commit.parents.flatMap((parentHash, parentIndex) => {
-        const toNode = nodeByHash.get(parentHash);
+        if (fromNode.row < startRow && !isOpenAtStartRow(parentHash)) {
+          return [];
+        }
+
+        const toNode = nodeFor(parentHash);
         const hiddenEdgeKey = graphEdgeKey(commit.hash, parentHash);
         const route = routeByEdge.get(hiddenEdgeKey);
         const parentColumn = toNode ? columnByHash.get(parentHash) : columnByEdge.get(hiddenEdgeKey);
@@ -214,25 +486,19 @@ function computeGraphLayout(commits: readonly ParsedGraphCommit[]): GraphLayoutV
         ];
       });
     }),
-    nodes,
+    nodes: positionedNodes.slice(startRow).map(toNode),
     width
   };
 }
 
-function identifyMainline(
-  commits: readonly ParsedGraphCommit[],
-  commitByHash: Map<string, ParsedGraphCommit>
-): ReadonlySet<string> {
-  const mainline = new Set<string>();
-  let current = commits[0];
+function extendMainline(state: GraphLayoutState, start: ParsedGraphCommit | undefined): void {
+  let current = start ?? (state.mainlineParent ? state.commitByHash.get(state.mainlineParent) : undefined);
 
   while (current) {
-    mainline.add(current.hash);
-    const firstParent = current.parents[0];
-    current = firstParent ? commitByHash.get(firstParent) : undefined;
+    state.mainline.add(current.hash);
+    state.mainlineParent = current.parents[0];
+    current = state.mainlineParent ? state.commitByHash.get(state.mainlineParent) : undefined;
   }
-
-  return mainline;
 }
 
 function identifyPreferredParentChildren(commits: readonly ParsedGraphCommit[]): ReadonlyMap<string, string> {
@@ -445,6 +711,14 @@ function findAvailableInnerColumn(columns: readonly (string | undefined)[], curr
   return undefined;
 }
 
+function findHiddenEdgeTargeting(
+  columns: readonly (string | undefined)[],
+  hiddenColumnByEdge: ReadonlyMap<string, number>,
+  targetHash: string
+): string | undefined {
+  return columns.find((columnValue) => columnValue?.endsWith(`\0${targetHash}`) && hiddenColumnByEdge.has(columnValue));
+}
+
 function findInnerEdgeTargeting(
   columns: readonly (string | undefined)[],
   targetHash: string,
@@ -0,0 +1,51 @@
+import type { Dispatcher } from "undici";
+import { createProxyDispatcher, type ProxyConfig } from "./ProxyService";
+
+export interface HostingApiClientInput {
+  fetch?: typeof fetch;
+  getProxyConfig?: () => Promise<ProxyConfig>;
+}
+
+export class HostingApiClient {
+  private readonly fetch?: typeof fetch;
+  private readonly getProxyConfig?: () => Promise<ProxyConfig>;
+
+  public constructor(input: HostingApiClientInput = {}) {
+    this.fetch = input.fetch;
+    this.getProxyConfig = input.getProxyConfig;
+  }
+
+  public async getJson(url: string, headers: Readonly<Record<string, string>> = {}): Promise<unknown> {
+    const requestFetch = this.fetch ?? (globalThis as { fetch?: typeof fetch }).fetch;
+    if (!requestFetch) {
+      throw new Error("Hosting API requests require fetch support in this VS Code host");
+    }
+
+    const proxyConfig = await this.getProxyConfig?.();
+    const dispatcher = proxyConfig ? createProxyDispatcher(url, proxyConfig) : undefined;
+    const response = await requestFetch(url, {
+      headers: {
+        Accept: "application/json",
+        ...headers
+      },
+      method: "GET",
+      ...(dispatcher ? { dispatcher } : {})
+    } as RequestInit & { dispatcher?: Dispatcher });
+    if (!response.ok) {
+      throw new Error(formatStatusError(response.status, await response.text()));
+    }
+
+    return response.json();
+  }
+}
+
+function formatStatusError(statusCode: number, bodyText: string): string {
+  const details = bodyText.trim();
+  const message = details
+    ? `Hosting API request failed with status ${statusCode}: ${details.slice(0, 500)}`
+    : `Hosting API request failed with status ${statusCode}`;
+
+  return statusCode === 401 || statusCode === 403
+    ? `${message}. Set an access token for this host from the Pull Requests menu.`
+    : message;
+}
@@ -0,0 +1,246 @@
+import type { PullRequestViewModel } from "../rpc/contract";
+import type { HostingProviderConfiguration, HostingProviderKind } from "../../state/SettingsService";
+import type { HostingApiClient } from "./HostingApiClient";
+
+export interface HostingRepository {
+  host: string;
+  path: string;
+  webUrl: string;
+}
+
+export interface HostingPullRequestApi {
+  apiUrl(repository: HostingRepository): string;
+  headRef(number: number): string;
+  list(
+    client: Pick<HostingApiClient, "getJson">,
+    apiUrl: string,
+    repository: HostingRepository,
+    token: string | undefined
+  ): Promise<readonly PullRequestViewModel[]>;
+}
+
+export interface HostingProvider {
+  readonly kind: HostingProviderKind;
+  readonly pullRequests?: HostingPullRequestApi;
+  branchUrl(repository: HostingRepository, branch: string): string;
+  commitUrl(repository: HostingRepository, hash: string): string;
+  compareUrl(repository: HostingRepository, base: string, head: string): string;
+  pullRequestUrl(repository: HostingRepository, branch: string): string;
+}
+
+interface GitHubPullRequestPayload {
+  base?: { ref?: string };
+  draft?: boolean;
+  head?: { ref?: string };
+  html_url?: string;
+  number?: number;
+  title?: string;
+  updated_at?: string;
+  user?: { login?: string };
+}
+
+interface GitLabMergeRequestPayload {
+  author?: { username?: string };
+  draft?: boolean;
+  iid?: number;
+  source_branch?: string;
+  target_branch?: string;
+  title?: string;
+  updated_at?: string;
+  web_url?: string;
+  work_in_progress?: boolean;
+}
+
+export interface HostingRemote {
+  provider: HostingProvider;
+  repository: HostingRepository;
+}
+
+export type HostingProviderRegistry = Readonly<Record<HostingProviderKind, HostingProvider>>;
+
+export const builtInHostingProviders: HostingProviderRegistry = {
+  bitbucket: {
+    kind: "bitbucket",
+    branchUrl: (repository, branch) => `${repository.webUrl}/branch/${encodeRefPath(branch)}`,
+    commitUrl: (repository, hash) => `${repository.webUrl}/commits/${hash}`,
+    compareUrl: (repository, base, head) =>
+      `${repository.webUrl}/branches/compare/${encodeURIComponent(head)}%0D${encodeURIComponent(base)}`,
+    pullRequestUrl: (repository, branch) => `${repository.webUrl}/pull-requests/new?source=${encodeURIComponent(branch)}`
+  },
+  gitea: {
+    kind: "gitea",
+    branchUrl: (repository, branch) => `${repository.webUrl}/src/branch/${encodeRefPath(branch)}`,
+    commitUrl: (repository, hash) => `${repository.webUrl}/commit/${hash}`,
+    compareUrl: (repository, base, head) => `${repository.webUrl}/compare/${encodeRefPath(base)}...${encodeRefPath(head)}`,
+    // Gitea compares against the default branch when only the head is given.
+    pullRequestUrl: (repository, branch) => `${repository.webUrl}/compare/${encodeRefPath(branch)}`,
+    pullRequests: {
+      apiUrl: (repository) => `${webRoot(repository)}/api/v1`,
+      headRef: (number) => `refs/pull/${number}/head`,
+      list: async (client, apiUrl, repository, token) =>
+        parseGitHubPullRequests(
+          await client.getJson(`${apiUrl}/repos/${repository.path}/pulls?state=open&limit=50`, {
+            ...(token ? { Authorization: `token ${token}` } : {})
+          })
+        )
+    }
+  },
+  github: {
+    kind: "github",
+    branchUrl: (repository, branch) => `${repository.webUrl}/tree/${encodeRefPath(branch)}`,
+    commitUrl: (repository, hash) => `${repository.webUrl}/commit/${hash}`,
+    compareUrl: (repository, base, head) => `${repository.webUrl}/compare/${encodeRefPath(base)}...${encodeRefPath(head)}`,
+    pullRequestUrl: (repository, branch) => `${repository.webUrl}/pull/new/${encodeURIComponent(branch)}`,
+    pullRequests: {
+      // GitHub Enterprise serves the REST API under /api/v3 on the web host.
+      apiUrl: (repository) => (repository.host === "github.com" ? "https://api.github.com" : `${webRoot(repository)}/api/v3`),
+      headRef: (number) => `refs/pull/${number}/head`,
+      list: async (client, apiUrl, repository, token) =>
+        parseGitHubPullRequests(
+          await client.getJson(`${apiUrl}/repos/${repository.path}/pulls?state=open&per_page=50`, {
+            Accept: "application/vnd.github+json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {})
+          })
+        )
+    }
+  },
+  gitlab: {
+    kind: "gitlab",
+    branchUrl: (repository, branch) => `${repository.webUrl}/-/tree/${encodeRefPath(branch)}`,
+    commitUrl: (repository, hash) => `${repository.webUrl}/-/commit/${hash}`,
+    compareUrl: (repository, base, head) => `${repository.webUrl}/-/compare/${encodeRefPath(base)}...${encodeRefPath(head)}`,
+    pullRequestUrl: (repository, branch) =>
+      `${repository.webUrl}/-/merge_requests/new?merge_request[source_branch]=${encodeURIComponent(branch)}`,
+    pullRequests: {
+      apiUrl: (repository) => `${webRoot(repository)}/api/v4`,
+      headRef: (number) => `refs/merge-requests/${number}/head`,
+      list: async (client, apiUrl, repository, token) =>
+        parseGitLabMergeRequests(
+          await client.getJson(
+            `${apiUrl}/projects/${encodeURIComponent(repository.path)}/merge_requests?state=opened&per_page=50`,
+            {
+              ...(token ? { "PRIVATE-TOKEN": token } : {})
+            }
+          )
+        )
+    }
+  }
+};
+
+export const defaultHostingProviderConfigurations: readonly HostingProviderConfiguration[] = [
+  { host: "github.com", provider: "github" },
+  { host: "gitlab.com", provider: "gitlab" },
+  { host: "bitbucket.org", provider: "bitbucket" },
+  { host: "gitea.com", provider: "gitea" },
+  { host: "codeberg.org", provider: "gitea" }
+];
+
+export function parseHostingRepository(remoteUrl: string): HostingRepository | undefined {
+  const trimmedUrl = remoteUrl.trim().replace(/\/+$/, "").replace(/\.git$/, "");
+  const scpMatch = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(trimmedUrl);
+  if (scpMatch) {
+    return createRepository(scpMatch[1]!, scpMatch[1]!, scpMatch[2]!);
+  }
+
+  const urlMatch = /^(ssh|git|https?):\/\/(?:[^@/]+@)?(([^:/]+)(?::\d+)?)\/(.+)$/.exec(trimmedUrl);
+  if (!urlMatch) {
+    return undefined;
+  }
+
+  const [, scheme, authority, hostname, path] = urlMatch;
+  // SSH and git ports are not web ports, so only HTTP remotes keep theirs in the web URL.
+  return createRepository(hostname!, scheme!.startsWith("http") ? authority! : hostname!, path!, scheme === "http" ? "http" : "https");
+}
+
+export function resolveHostingRemote(
+  remoteUrl: string,
+  configurations: readonly HostingProviderConfiguration[],
+  providers: HostingProviderRegistry = builtInHostingProviders
+): HostingRemote | undefined {
+  const repository = parseHostingRepository(remoteUrl);
+  if (!repository) {
+    return undefined;
+  }
+
+  const configuration = [...configurations, ...defaultHostingProviderConfigurations].find((candidate) =>
+    matchesHostPattern(repository.host, candidate.host)
+  );
+  if (!configuration) {
+    return undefined;
+  }
+
+  return {
+    provider: providers[configuration.provider],
+    repository: configuration.webUrl ? { ...repository, webUrl: `${configuration.webUrl}/${repository.path}` } : repository
+  };
+}
+
+export function repositoryWebUrl(remoteUrl: string): string {
+  return parseHostingRepository(remoteUrl)?.webUrl ?? remoteUrl.trim().replace(/\.git$/, "");
+}
+
+function parseGitHubPullRequests(payload: unknown): readonly PullRequestViewModel[] {
+  return expectArray(payload).map((item) => {
+    const pullRequest = item as GitHubPullRequestPayload;
+    return {
+      author: pullRequest.user?.login ?? "",
+      draft: pullRequest.draft ?? false,
+      number: pullRequest.number ?? 0,
+      sourceBranch: pullRequest.head?.ref ?? "",
+      targetBranch: pullRequest.base?.ref ?? "",
+      title: pullRequest.title ?? "",
+      updatedAt: pullRequest.updated_at ?? "",
+      url: pullRequest.html_url ?? ""
+    };
+  });
+}
+
+function parseGitLabMergeRequests(payload: unknown): readonly PullRequestViewModel[] {
+  return expectArray(payload).map((item) => {
+    const mergeRequest = item as GitLabMergeRequestPayload;
+    return {
+      author: mergeRequest.author?.username ?? "",
+      draft: mergeRequest.draft ?? mergeRequest.work_in_progress ?? false,
+      number: mergeRequest.iid ?? 0,
+      sourceBranch: mergeRequest.source_branch ?? "",
+      targetBranch: mergeRequest.target_branch ?? "",
+      title: mergeRequest.title ?? "",
+      updatedAt: mergeRequest.updated_at ?? "",
+      url: mergeRequest.web_url ?? ""
+    };
+  });
+}
+
+function expectArray(payload: unknown): readonly unknown[] {
+  if (!Array.isArray(payload)) {
+    throw new Error("Hosting API returned an unexpected pull request list");
+  }
+
+  return payload;
+}
+
+function webRoot(repository: HostingRepository): string {
+  return repository.webUrl.slice(0, repository.webUrl.length - repository.path.length - 1);
+}
+
+function createRepository(host: string, authority: string, path: string, scheme = "https"): HostingRepository {
+  const repositoryPath = path.replace(/^\/+/, "");
+  return {
+    host: host.toLowerCase(),
+    path: repositoryPath,
+    webUrl: `${scheme}://${authority}/${repositoryPath}`
+  };
+}
+
+function matchesHostPattern(host: string, pattern: string): boolean {
+  const expression = pattern
+    .toLowerCase()
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${expression}$`).test(host);
+}
+
+function encodeRefPath(ref: string): string {
+  return ref.split("/").map(encodeURIComponent).join("/");
+}
@@ -0,0 +1,195 @@
+import { simpleGit } from "simple-git";
+import { env, Uri, type InputBoxOptions } from "vscode";
+import type { OperationResultViewModel, PullRequestViewModel } from "../rpc/contract";
+import type { SettingsService } from "../../state/SettingsService";
+import { HostingApiClient } from "./HostingApiClient";
+import {
+  builtInHostingProviders,
+  repositoryWebUrl,
+  resolveHostingRemote,
+  type HostingProviderRegistry,
+  type HostingPullRequestApi,
+  type HostingRemote
+} from "./HostingProvider";
+
+export interface HostingServiceInput {
+  apiClient?: Pick<HostingApiClient, "getJson">;
+  clipboardWrite?: (text: string) => Thenable<void>;
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  openExternal?: (url: string) => Thenable<void>;
+  providers?: HostingProviderRegistry;
+  settingsService?: Pick<SettingsService, "getHostingProviders" | "getHostingToken" | "storeHostingToken">;
+  showInputBox?: (options: InputBoxOptions) => Thenable<string | undefined>;
+}
+
+export interface PullRequestCheckoutTarget {
+  branch: string;
+  number: number;
+  ref: string;
+  remote: string;
+}
+
+interface RepositoryHostingRemote extends HostingRemote {
+  remoteName: string;
+}
+
+export class HostingService {
+  private readonly apiClient: Pick<HostingApiClient, "getJson">;
+  private readonly clipboardWrite: (text: string) => Thenable<void>;
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly openExternal: (url: string) => Thenable<void>;
+  private readonly providers: HostingProviderRegistry;
+  private readonly settingsService:
+    | Pick<SettingsService, "getHostingProviders" | "getHostingToken" | "storeHostingToken">
+    | undefined;
+  private readonly showInputBox: ((options: InputBoxOptions) => Thenable<string | undefined>) | undefined;
+
+  public constructor(input: HostingServiceInput = {}) {
+    this.apiClient = input.apiClient ?? new HostingApiClient();
+    this.clipboardWrite = input.clipboardWrite ?? ((text) => env.clipboard.writeText(text));
+    this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.openExternal = input.openExternal ?? (async (url) => {
+      await env.openExternal(Uri.parse(url));
+    });
+    this.providers = input.providers ?? builtInHostingProviders;
+    this.settingsService = input.settingsService;
+    this.showInputBox = input.showInputBox;
+  }
+
+  public resolve(remoteUrl: string): HostingRemote | undefined {
+    return resolveHostingRemote(remoteUrl, this.settingsService?.getHostingProviders() ?? [], this.providers);
+  }
+
+  public pullRequestUrl(remoteUrl: string, branch: string): string {
+    const remote = this.resolve(remoteUrl);
+    return remote ? remote.provider.pullRequestUrl(remote.repository, branch) : repositoryWebUrl(remoteUrl);
+  }
+
+  public async openCommit(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
+    const url = await this.commitUrl(repositoryRoot, hash);
+    if (!url) {
+      return unresolvedRemoteResult();
+    }
+
+    await this.openExternal(url);
+    return {
+      message: `Opened ${hash.slice(0, 8)} on remote`,
+      status: "ok"
+    };
+  }
+
+  public async copyCommitPermalink(repositoryRoot: string, hash: string): Promise<OperationResultViewModel> {
+    const url = await this.commitUrl(repositoryRoot, hash);
+    if (!url) {
+      return unresolvedRemoteResult();
+    }
+
+    await this.clipboardWrite(url);
+    return {
+      message: `Copied permalink for ${hash.slice(0, 8)}`,
+      status: "ok"
+    };
+  }
+
+  public async listPullRequests(repositoryRoot: string): Promise<readonly PullRequestViewModel[]> {
+    const remote = await this.requirePullRequestRemote(repositoryRoot);
+    const apiUrl = remote.pullRequests.apiUrl(remote.repository);
+    const apiOrigin = new URL(apiUrl).origin;
+    // Tokens are keyed by the API origin they were saved for, so a workspace that points the
+    // provider at another server never receives a token entered for a different one.
+    const token = await this.settingsService?.getHostingToken(apiOrigin);
+    const client: Pick<HostingApiClient, "getJson"> = {
+      getJson: (url, headers) => {
+        if (token && new URL(url).origin !== apiOrigin) {
+          throw new Error(`Refusing to send the access token for ${apiOrigin} to ${new URL(url).origin}`);
+        }
+
+        return this.apiClient.getJson(url, headers);
+      }
+    };
+    return remote.pullRequests.list(client, apiUrl, remote.repository, token);
+  }
+
+  public async getPullRequestCheckout(repositoryRoot: string, number: number): Promise<PullRequestCheckoutTarget> {
+    const remote = await this.requirePullRequestRemote(repositoryRoot);
+    return {
+      branch: `pr/${number}`,
+      number,
+      ref: remote.pullRequests.headRef(number),
+      remote: remote.remoteName
+    };
+  }
+
+  public async configureToken(repositoryRoot: string): Promise<OperationResultViewModel> {
+    const remote = await this.resolveRepositoryRemote(repositoryRoot);
+    if (!remote) {
+      return unresolvedRemoteResult();
+    }
+
+    if (!remote.provider.pullRequests) {
+      return {
+        message: `Pull requests are not supported for ${remote.provider.kind} remotes`,
+        status: "cancelled"
+      };
+    }
+
+    const apiOrigin = new URL(remote.provider.pullRequests.apiUrl(remote.repository)).origin;
+    const token = await this.showInputBox?.({
+      ignoreFocusOut: true,
+      password: true,
+      placeHolder: "Leave empty to remove the stored token",
+      prompt: `Access token for ${apiOrigin}`
+    });
+    if (token === undefined) {
+      return {
+        message: "Token update cancelled",
+        status: "cancelled"
+      };
+    }
+
+    await this.settingsService?.storeHostingToken(apiOrigin, token.trim());
+    return {
+      message: token.trim() ? `Saved access token for ${apiOrigin}` : `Removed access token for ${apiOrigin}`,
+      status: "ok"
+    };
+  }
+
+  private async requirePullRequestRemote(
+    repositoryRoot: string
+  ): Promise<RepositoryHostingRemote & { pullRequests: HostingPullRequestApi }> {
+    const remote = await this.resolveRepositoryRemote(repositoryRoot);
+    if (!remote) {
+      throw new Error(unresolvedRemoteResult().message);
+    }
+
+    const pullRequests = remote.provider.pullRequests;
+    if (!pullRequests) {
+      throw new Error(`Pull requests are not supported for ${remote.provider.kind} remotes`);
+    }
+
+    return { ...remote, pullRequests };
+  }
+
+  private async commitUrl(repositoryRoot: string, hash: string): Promise<string | undefined> {
+    const remote = await this.resolveRepositoryRemote(repositoryRoot);
+    return remote?.provider.commitUrl(remote.repository, hash);
+  }
+
+  private async resolveRepositoryRemote(repositoryRoot: string): Promise<RepositoryHostingRemote | undefined> {
+    const remotes = (await this.gitRaw(repositoryRoot, ["remote"])).split("\n").map((remote) => remote.trim()).filter(Boolean);
+    const remoteName = remotes.includes("origin") ? "origin" : remotes[0];
+    if (!remoteName) {
+      return undefined;
+    }
+
+    const remote = this.resolve(await this.gitRaw(repositoryRoot, ["remote", "get-url", remoteName]));
+    return remote ? { ...remote, remoteName } : undefined;
+  }
+}
+
+function unresolvedRemoteResult(): OperationResultViewModel {
+  return {
+    message: "No hosting provider matches this repository's remote. Add the host to guigit.hosting.providers.",
+    status: "cancelled"
+  };
+}
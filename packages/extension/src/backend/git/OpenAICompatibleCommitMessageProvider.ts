@@ -1,7 +1,7 @@
-import { ProxyAgent } from "undici";
 import type { Dispatcher } from "undici";
 import type { HttpAiProviderProtocol } from "../rpc/contract";
-import type { ProxyConfig } from "./ProxyService";
+import type { CommitMessageStreamOptions } from "./CommitMessageAiService";
+import { createProxyDispatcher, type ProxyConfig } from "./ProxyService";
 
 export interface OpenAICompatibleCommitMessageProviderInput {
   fetch?: typeof fetch;
@@ -12,6 +12,7 @@ export interface OpenAICompatibleCommitMessageProviderInput {
 export interface OpenAICompatibleCommitMessageRequest {
   apiKey: string;
   baseUrl: string;
+  maxTokens?: number;
   model: string;
   prompt: string;
   protocol: HttpAiProviderProtocol;
@@ -25,6 +26,18 @@ interface OpenAICompatibleChatCompletionsResponse {
   }[];
 }
 
+interface OpenAICompatibleChatCompletionsStreamEvent {
+  choices?: readonly {
+    delta?: {
+      content?: string | null;
+    };
+  }[];
+  error?: {
+    message?: string;
+    type?: string;
+  };
+}
+
 interface OpenAIResponsesResponse {
   output_text?: string;
   output?: readonly {
@@ -58,6 +71,18 @@ interface ClaudeMessagesResponse {
   }[];
 }
 
+interface ClaudeMessagesStreamEvent {
+  delta?: {
+    text?: string;
+    type?: string;
+  };
+  error?: {
+    message?: string;
+    type?: string;
+  };
+  type?: string;
+}
+
 export class OpenAICompatibleCommitMessageProvider {
   private readonly fetch?: typeof fetch;
   private readonly getProxyConfig?: () => Promise<ProxyConfig>;
@@ -69,7 +94,25 @@ export class OpenAICompatibleCommitMessageProvider {
     this.retryDelay = input.retryDelay ?? delay;
   }
 
-  public async generate(input: OpenAICompatibleCommitMessageRequest): Promise<string> {
+  public async generate(input: OpenAICompatibleCommitMessageRequest, options: CommitMessageStreamOptions = {}): Promise<string> {
+    const message = await this.request(input, options);
+    if (!message) {
+      throw new Error("OpenAI-compatible provider returned no commit message");
+    }
+
+    return firstLine(message);
+  }
+
+  public async complete(input: OpenAICompatibleCommitMessageRequest, options: CommitMessageStreamOptions = {}): Promise<string> {
+    const text = await this.request(input, options);
+    if (!text) {
+      throw new Error("OpenAI-compatible provider returned no text");
+    }
+
+    return text;
+  }
+
+  private async request(input: OpenAICompatibleCommitMessageRequest, options: CommitMessageStreamOptions): Promise<string | undefined> {
     const requestFetch = this.fetch ?? (globalThis as { fetch?: typeof fetch }).fetch;
     if (!requestFetch) {
       throw new Error("OpenAI-compatible provider requires fetch support in this VS Code host");
@@ -78,20 +121,21 @@ export class OpenAICompatibleCommitMessageProvider {
     const request = createRequest(input);
     const proxyConfig = await this.getProxyConfig?.();
     const dispatcher = proxyConfig ? createProxyDispatcher(request.url, proxyConfig) : undefined;
-    const response = await this.fetchWithRetry(requestFetch, request, dispatcher);
+    const response = await this.fetchWithRetry(requestFetch, request, dispatcher, options.signal);
 
-    const message = await parseResponseMessage(input.protocol, response);
-    if (!message) {
-      throw new Error("OpenAI-compatible provider returned no commit message");
-    }
-
-    return firstLine(message);
+    return parseResponseMessage(input.protocol, response, options.onText);
   }
 
-  private async fetchWithRetry(requestFetch: typeof fetch, request: ProviderHttpRequest, dispatcher: Dispatcher | undefined): Promise<Response> {
+  private async fetchWithRetry(
+    requestFetch: typeof fetch,
+    request: ProviderHttpRequest,
+    dispatcher: Dispatcher | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<Response> {
     const init = {
       ...request.init,
-      ...(dispatcher ? { dispatcher } : {})
+      ...(dispatcher ? { dispatcher } : {}),
+      ...(signal ? { signal } : {})
     } as RequestInit & { dispatcher?: Dispatcher };
 
     for (let attempt = 0; attempt <= retryDelaysMs.length; attempt += 1) {
@@ -99,7 +143,7 @@ export class OpenAICompatibleCommitMessageProvider {
       try {
         response = await requestFetch(request.url, init);
       } catch (error) {
-        if (attempt === retryDelaysMs.length) {
+        if (attempt === retryDelaysMs.length || signal?.aborted) {
           throw error;
         }
 
@@ -152,16 +196,18 @@ function createRequest(input: OpenAICompatibleCommitMessageRequest): ProviderHtt
     return {
       init: {
         body: JSON.stringify({
-          max_tokens: 64,
+          max_tokens: input.maxTokens ?? 64,
           messages: [
             {
               content: input.prompt,
               role: "user"
             }
           ],
-          model: input.model
+          model: input.model,
+          stream: true
         }),
         headers: {
+          Accept: "text/event-stream",
           "Content-Type": "application/json",
           "anthropic-version": "2023-06-01",
           "x-api-key": input.apiKey
@@ -181,9 +227,11 @@ function createRequest(input: OpenAICompatibleCommitMessageRequest): ProviderHtt
             role: "user"
           }
         ],
-        model: input.model
+        model: input.model,
+        stream: true
       }),
       headers: {
+        Accept: "text/event-stream",
         Authorization: `Bearer ${input.apiKey}`,
         "Content-Type": "application/json"
       },
@@ -225,37 +273,16 @@ function createEndpointUrl(baseUrl: string, protocol: HttpAiProviderProtocol): s
   return url.toString();
 }
 
-function createProxyDispatcher(url: string, config: ProxyConfig): Dispatcher | undefined {
-  if (!config.enabled || isNoProxyHost(new URL(url).hostname, config.noProxy)) {
-    return undefined;
-  }
-
-  const proxy = url.startsWith("https:") ? config.https ?? config.http : config.http ?? config.https;
-  return proxy ? new ProxyAgent(normalizeProxyUrl(proxy)) : undefined;
-}
-
-function normalizeProxyUrl(proxy: string): string {
-  return proxy.includes("://") ? proxy : `http://${proxy}`;
-}
-
-function isNoProxyHost(host: string, noProxy: string | undefined): boolean {
-  if (!noProxy) {
-    return false;
+async function parseResponseMessage(
+  protocol: HttpAiProviderProtocol,
+  response: Response,
+  onText: ((text: string) => void) | undefined
+): Promise<string | undefined> {
+  if (isEventStreamResponse(response) && response.body) {
+    return parseEventStream(protocol, response.body, onText);
   }
 
-  return noProxy
-    .split(",")
-    .map((value) => value.trim().toLowerCase())
-    .filter(Boolean)
-    .some((pattern) => pattern === "*" || host.toLowerCase() === pattern || host.toLowerCase().endsWith(`.${pattern.replace(/^\./, "")}`));
-}
-
-async function parseResponseMessage(protocol: HttpAiProviderProtocol, response: Response): Promise<string | undefined> {
   if (protocol === "responses") {
-    if (isEventStreamResponse(response) && response.body) {
-      return parseResponsesEventStream(response.body);
-    }
-
     return parseResponsesStream(await response.text());
   }
 
@@ -285,23 +312,34 @@ function parseResponsesStream(bodyText: string): string | undefined {
     return parseMessage("responses", JSON.parse(bodyText));
   }
 
-  const state: ResponsesStreamState = {
+  const state: StreamState = {
     deltaText: ""
   };
   for (const dataText of extractServerSentEventData(bodyText)) {
-    applyResponsesStreamEvent(dataText, state);
+    applyStreamEvent("responses", dataText, state);
   }
 
   return streamStateMessage(state);
 }
 
-async function parseResponsesEventStream(body: ReadableStream<Uint8Array>): Promise<string | undefined> {
+async function parseEventStream(
+  protocol: HttpAiProviderProtocol,
+  body: ReadableStream<Uint8Array>,
+  onText: ((text: string) => void) | undefined
+): Promise<string | undefined> {
   const reader = body.getReader();
   const decoder = new TextDecoder();
-  const state: ResponsesStreamState = {
+  const state: StreamState = {
     deltaText: ""
   };
   let buffer = "";
+  const applyBlock = (block: string) => {
+    const previousText = state.deltaText;
+    applyStreamBlock(protocol, block, state);
+    if (state.deltaText !== previousText) {
+      onText?.(state.deltaText);
+    }
+  };
 
   while (true) {
     const { done, value } = await reader.read();
@@ -317,16 +355,16 @@ async function parseResponsesEventStream(body: ReadableStream<Uint8Array>): Prom
     while (separatorIndex !== -1) {
       const block = buffer.slice(0, separatorIndex);
       buffer = buffer.slice(separatorIndex + 2);
-      applyResponsesStreamBlock(block, state);
+      applyBlock(block);
       separatorIndex = buffer.indexOf("\n\n");
     }
   }
 
-  applyResponsesStreamBlock(buffer, state);
+  applyBlock(buffer);
   return streamStateMessage(state);
 }
 
-interface ResponsesStreamState {
+interface StreamState {
   completedText?: string;
   deltaText: string;
 }
@@ -335,18 +373,48 @@ function isEventStreamResponse(response: Response): boolean {
   return response.headers.get("content-type")?.toLowerCase().includes("text/event-stream") ?? false;
 }
 
-function applyResponsesStreamBlock(block: string, state: ResponsesStreamState): void {
+function applyStreamBlock(protocol: HttpAiProviderProtocol, block: string, state: StreamState): void {
   for (const dataText of extractServerSentEventData(`${block.trim()}\n\n`)) {
-    applyResponsesStreamEvent(dataText, state);
+    applyStreamEvent(protocol, dataText, state);
   }
 }
 
-function applyResponsesStreamEvent(dataText: string, state: ResponsesStreamState): void {
+function applyStreamEvent(protocol: HttpAiProviderProtocol, dataText: string, state: StreamState): void {
   if (dataText === "[DONE]") {
     return;
   }
 
-  const event = JSON.parse(dataText) as OpenAIResponsesStreamEvent;
+  if (protocol === "chatCompletions") {
+    applyChatCompletionsStreamEvent(JSON.parse(dataText) as OpenAICompatibleChatCompletionsStreamEvent, state);
+    return;
+  }
+
+  if (protocol === "claudeMessages") {
+    applyClaudeMessagesStreamEvent(JSON.parse(dataText) as ClaudeMessagesStreamEvent, state);
+    return;
+  }
+
+  applyResponsesStreamEvent(JSON.parse(dataText) as OpenAIResponsesStreamEvent, state);
+}
+
+function applyChatCompletionsStreamEvent(event: OpenAICompatibleChatCompletionsStreamEvent, state: StreamState): void {
+  if (event.error) {
+    throw new Error(formatStreamEventError(event.error));
+  }
+
+  state.deltaText += event.choices?.[0]?.delta?.content ?? "";
+}
+
+function applyClaudeMessagesStreamEvent(event: ClaudeMessagesStreamEvent, state: StreamState): void {
+  if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+    state.deltaText += event.delta.text ?? "";
+  }
+  if (event.type === "error" && event.error) {
+    throw new Error(formatStreamEventError(event.error));
+  }
+}
+
+function applyResponsesStreamEvent(event: OpenAIResponsesStreamEvent, state: StreamState): void {
   if (event.type === "response.output_text.delta" && event.delta !== undefined) {
     state.deltaText += event.delta;
   }
@@ -364,7 +432,7 @@ function applyResponsesStreamEvent(dataText: string, state: ResponsesStreamState
   }
 }
 
-function streamStateMessage(state: ResponsesStreamState): string | undefined {
+function streamStateMessage(state: StreamState): string | undefined {
   return state.completedText ?? state.deltaText.trim();
 }
 
@@ -0,0 +1,322 @@
+import { randomUUID } from "node:crypto";
+import { simpleGit } from "simple-git";
+import { window } from "vscode";
+import type { GitResetMode, OperationResultViewModel } from "../rpc/contract";
+import type { Logger } from "../../logging/LoggerService";
+
+export type JournaledOperation =
+  | { kind: "amendCommit" }
+  | { kind: "discardFile"; filePath: string }
+  | { kind: "dropStash"; stashRef: string }
+  | { kind: "editCommitMessage"; hash: string }
+  | { kind: "reset"; hash: string; mode: GitResetMode }
+  | { kind: "squashCommits"; hashes: readonly string[] };
+
+export interface OperationJournalEntry {
+  branchTips: readonly JournaledRef[];
+  createdAt: string;
+  discardedFile?: JournaledFile;
+  droppedStash?: { hash: string; message: string };
+  head: JournaledHead;
+  id: string;
+  indexTree?: string;
+  label: string;
+  repositoryRoot: string;
+  resultBranchTips?: readonly JournaledRef[];
+  resultHead?: string;
+  updateWorkingTree: boolean;
+}
+
+export interface OperationJournalServiceInput {
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  logger?: Pick<Logger, "info">;
+  maxEntries?: number;
+  now?: () => Date;
+  showInformationMessage?: (message: string) => Thenable<unknown>;
+  showWarningMessage?: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined>;
+}
+
+interface JournaledFile {
+  // Missing blobs mean the file did not exist in the working tree at that point.
+  blob?: string;
+  index?: { blob: string; mode: string };
+  mode: string;
+  path: string;
+  resultBlob?: string;
+}
+
+interface JournaledHead {
+  commit: string;
+  ref?: string;
+}
+
+interface JournaledRef {
+  commit: string;
+  ref: string;
+}
+
+const defaultMaxEntries = 20;
+const undoLabel = "Undo";
+
+export class OperationJournalService {
+  private readonly entries: OperationJournalEntry[] = [];
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly logger: Pick<Logger, "info"> | undefined;
+  private readonly maxEntries: number;
+  private readonly now: () => Date;
+  private readonly showInformationMessage: (message: string) => Thenable<unknown>;
+  private readonly showWarningMessage: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined>;
+
+  public constructor(input: OperationJournalServiceInput = {}) {
+    this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.logger = input.logger;
+    this.maxEntries = input.maxEntries ?? defaultMaxEntries;
+    this.now = input.now ?? (() => new Date());
+    this.showInformationMessage = input.showInformationMessage ?? ((message) => window.showInformationMessage(message));
+    this.showWarningMessage =
+      input.showWarningMessage ??
+      ((message, options, ...items) => window.showWarningMessage(message, options, ...items));
+  }
+
+  public async capture(repositoryRoot: string, operation: JournaledOperation): Promise<OperationJournalEntry> {
+    const [headOutput, headRefOutput, branchOutput, indexTreeOutput] = await Promise.all([
+      this.gitRaw(repositoryRoot, ["rev-parse", "HEAD"]),
+      this.gitRaw(repositoryRoot, ["symbolic-ref", "-q", "HEAD"]).catch(() => ""),
+      this.gitRaw(repositoryRoot, ["for-each-ref", "--format=%(objectname) %(refname)", "refs/heads"]),
+      this.gitRaw(repositoryRoot, ["write-tree"]).catch(() => "")
+    ]);
+    const entry: OperationJournalEntry = {
+      branchTips: parseRefs(branchOutput),
+      createdAt: this.now().toISOString(),
+      head: { commit: headOutput.trim(), ref: headRefOutput.trim() || undefined },
+      id: randomUUID(),
+      indexTree: indexTreeOutput.trim() || undefined,
+      label: operationLabel(operation),
+      repositoryRoot,
+      updateWorkingTree: operation.kind === "reset" && operation.mode === "hard"
+    };
+
+    if (operation.kind === "discardFile") {
+      const [blob, stageOutput, deletedOutput] = await Promise.all([
+        this.hashWorkingFile(repositoryRoot, operation.filePath, true),
+        this.gitRaw(repositoryRoot, ["ls-files", "--stage", "--", operation.filePath]),
+        this.gitRaw(repositoryRoot, ["ls-files", "--deleted", "--", operation.filePath])
+      ]);
+      if (blob === undefined && !deletedOutput.trim()) {
+        throw new Error(`Cannot read ${operation.filePath}`);
+      }
+
+      const [mode, indexBlob] = stageOutput.trim().split(/\s+/);
+      const index = mode && indexBlob ? { blob: indexBlob, mode } : undefined;
+      return {
+        ...entry,
+        discardedFile: { blob, index, mode: index?.mode ?? "100644", path: operation.filePath }
+      };
+    }
+    if (operation.kind === "dropStash") {
+      const [hashOutput, messageOutput] = await Promise.all([
+        this.gitRaw(repositoryRoot, ["rev-parse", operation.stashRef]),
+        this.gitRaw(repositoryRoot, ["log", "-g", "-1", "--format=%gs", operation.stashRef])
+      ]);
+      return { ...entry, droppedStash: { hash: hashOutput.trim(), message: messageOutput.trim() } };
+    }
+
+    return entry;
+  }
+
+  public async record(entry: OperationJournalEntry): Promise<string> {
+    const [headOutput, branchOutput, resultBlob] = await Promise.all([
+      this.gitRaw(entry.repositoryRoot, ["rev-parse", "HEAD"]),
+      this.gitRaw(entry.repositoryRoot, ["for-each-ref", "--format=%(objectname) %(refname)", "refs/heads"]),
+      entry.discardedFile ? this.hashWorkingFile(entry.repositoryRoot, entry.discardedFile.path, false) : undefined
+    ]);
+    this.entries.push({
+      ...entry,
+      discardedFile: entry.discardedFile && { ...entry.discardedFile, resultBlob },
+      resultBranchTips: parseRefs(branchOutput),
+      resultHead: headOutput.trim()
+    });
+    this.entries.splice(0, Math.max(0, this.entries.length - this.maxEntries));
+    this.logger?.info("operation.journal.recorded", {
+      id: entry.id,
+      label: entry.label,
+      repositoryRoot: entry.repositoryRoot
+    });
+
+    return entry.id;
+  }
+
+  public latest(repositoryRoot?: string): OperationJournalEntry | undefined {
+    for (let index = this.entries.length - 1; index >= 0; index -= 1) {
+      const entry = this.entries[index]!;
+      if (repositoryRoot === undefined || entry.repositoryRoot === repositoryRoot) {
+        return entry;
+      }
+    }
+
+    return undefined;
+  }
+
+  public async undo(repositoryRoot: string, id?: string): Promise<OperationResultViewModel> {
+    const entry = this.latest(repositoryRoot);
+    if (!entry) {
+      throw new Error("There is no operation to undo");
+    }
+    if (id !== undefined && entry.id !== id) {
+      throw new Error("Only the most recent operation can be undone");
+    }
+
+    return this.undoEntry(entry);
+  }
+
+  public async undoLastOperation(): Promise<OperationResultViewModel> {
+    const entry = this.latest();
+    if (!entry) {
+      await this.showInformationMessage("There is no operation to undo");
+      return { message: "There is no operation to undo", status: "cancelled" };
+    }
+
+    let result: OperationResultViewModel;
+    try {
+      result = await this.undoEntry(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.showWarningMessage(message, { modal: false });
+      return { message, status: "cancelled" };
+    }
+    if (result.status === "ok") {
+      await this.showInformationMessage(result.message);
+    }
+
+    return result;
+  }
+
+  private async undoEntry(entry: OperationJournalEntry): Promise<OperationResultViewModel> {
+    const confirmation = await this.showWarningMessage(`Undo ${entry.label}?`, { modal: true }, undoLabel);
+    if (confirmation !== undoLabel) {
+      return { message: "Undo cancelled", status: "cancelled" };
+    }
+
+    await this.restore(entry);
+    this.entries.splice(this.entries.indexOf(entry), 1);
+
+    return { message: `Undid ${entry.label}`, status: "ok" };
+  }
+
+  private async restore(entry: OperationJournalEntry): Promise<void> {
+    const root = entry.repositoryRoot;
+    if (entry.droppedStash) {
+      await this.runLoggedGit(root, ["stash", "store", "-m", entry.droppedStash.message, entry.droppedStash.hash]);
+      return;
+    }
+    if (entry.discardedFile) {
+      const { blob, index, mode, path, resultBlob } = entry.discardedFile;
+      // Edits made after the discard would be overwritten without a trace, so the file has to be
+      // exactly what the discard left behind.
+      if ((await this.hashWorkingFile(root, path, false)) !== resultBlob) {
+        throw new Error(`${path} changed since ${entry.label}; undo is no longer available`);
+      }
+
+      // The discarded content only lives in the object database, so route it through the index to
+      // write the file back, or to delete it again when the discard restored a deleted file, and then
+      // put the staged entry the user had before the discard.
+      if (blob === undefined) {
+        await this.runLoggedGit(root, ["update-index", "--force-remove", "--", path]);
+        await this.runLoggedGit(root, ["clean", "-f", "-x", "--", path]);
+      } else {
+        await this.runLoggedGit(root, ["update-index", "--add", "--cacheinfo", `${mode},${blob},${path}`]);
+        await this.runLoggedGit(root, ["checkout-index", "-f", "--", path]);
+      }
+      await this.runLoggedGit(
+        root,
+        index
+          ? ["update-index", "--add", "--cacheinfo", `${index.mode},${index.blob},${path}`]
+          : ["update-index", "--force-remove", "--", path]
+      );
+      return;
+    }
+
+    const currentHead = (await this.gitRaw(root, ["rev-parse", "HEAD"])).trim();
+    if (currentHead !== entry.resultHead) {
+      throw new Error(`HEAD has moved since ${entry.label}; undo is no longer available`);
+    }
+
+    const currentTips = new Map(
+      parseRefs(await this.gitRaw(root, ["for-each-ref", "--format=%(objectname) %(refname)", "refs/heads"])).map(
+        (tip) => [tip.ref, tip.commit]
+      )
+    );
+    const resultTips = new Map((entry.resultBranchTips ?? []).map((tip) => [tip.ref, tip.commit]));
+    // Only branches the operation itself moved are rolled back, and only while they still point where
+    // the operation left them; later pulls, commits or other worktrees must not be silently undone.
+    const changedTips = entry.branchTips.flatMap((tip) => {
+      const resultCommit = resultTips.get(tip.ref);
+      return resultCommit !== undefined && resultCommit !== tip.commit ? [{ ...tip, resultCommit }] : [];
+    });
+    const movedTips = changedTips.filter((tip) => currentTips.get(tip.ref) !== tip.resultCommit);
+    if (movedTips.length > 0) {
+      const branches = movedTips.map((tip) => tip.ref.replace(/^refs\/heads\//, "")).join(", ");
+      throw new Error(`${branches} moved since ${entry.label}; undo is no longer available`);
+    }
+    for (const tip of changedTips) {
+      await this.runLoggedGit(root, ["update-ref", tip.ref, tip.commit, tip.resultCommit]);
+    }
+    if (!entry.head.ref) {
+      await this.runLoggedGit(root, ["update-ref", "--no-deref", "HEAD", entry.head.commit]);
+    }
+    if (entry.indexTree) {
+      await this.runLoggedGit(root, ["read-tree", ...(entry.updateWorkingTree ? ["--reset", "-u"] : []), entry.indexTree]);
+    }
+  }
+
+  private async hashWorkingFile(repositoryRoot: string, path: string, write: boolean): Promise<string | undefined> {
+    try {
+      return (await this.gitRaw(repositoryRoot, ["hash-object", ...(write ? ["-w"] : []), "--", path])).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async runLoggedGit(repositoryRoot: string, args: readonly string[]): Promise<string> {
+    this.logger?.info("git.command", {
+      command: `git -C ${repositoryRoot} ${args.join(" ")}`
+    });
+    return this.gitRaw(repositoryRoot, args);
+  }
+}
+
+function parseRefs(output: string): readonly JournaledRef[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [commit = "", ref = ""] = line.split(" ");
+      return { commit, ref };
+    });
+}
+
+function operationLabel(operation: JournaledOperation): string {
+  switch (operation.kind) {
+    case "amendCommit":
+      return "amend last commit";
+    case "discardFile":
+      return `discard changes in ${operation.filePath}`;
+    case "dropStash":
+      return `drop ${operation.stashRef}`;
+    case "editCommitMessage":
+      return `edit message of ${operation.hash.slice(0, 8)}`;
+    case "reset":
+      return `reset --${operation.mode} to ${operation.hash.slice(0, 8)}`;
+    case "squashCommits":
+      return `squash ${operation.hashes.length} commits`;
+  }
+}
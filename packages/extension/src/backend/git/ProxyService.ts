@@ -4,6 +4,8 @@ import { platform as osPlatform } from "os";
 import { delimiter } from "path";
 import { promisify } from "util";
 import { simpleGit } from "simple-git";
+import { ProxyAgent } from "undici";
+import type { Dispatcher } from "undici";
 import type { OperationResultViewModel } from "../rpc/contract";
 import type { SettingsService } from "../../state/SettingsService";
 
@@ -518,3 +520,28 @@ function isLocalPortOpen(host: string, port: number): Promise<boolean> {
     socket.connect(port, host);
   });
 }
+
+export function createProxyDispatcher(url: string, config: ProxyConfig): Dispatcher | undefined {
+  if (!config.enabled || isNoProxyHost(new URL(url).hostname, config.noProxy)) {
+    return undefined;
+  }
+
+  const proxy = url.startsWith("https:") ? config.https ?? config.http : config.http ?? config.https;
+  return proxy ? new ProxyAgent(normalizeProxyUrl(proxy)) : undefined;
+}
+
+function normalizeProxyUrl(proxy: string): string {
+  return proxy.includes("://") ? proxy : `http://${proxy}`;
+}
+
+function isNoProxyHost(host: string, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+
+  return noProxy
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean)
+    .some((pattern) => pattern === "*" || host.toLowerCase() === pattern || host.toLowerCase().endsWith(`.${pattern.replace(/^\./, "")}`));
+}
@@ -0,0 +1,26 @@
+import type { ReflogEntryViewModel } from "../rpc/contract";
+
+const fieldSeparator = "\x1f";
+
+export const reflogFormat = ["%H", "%h", "%gd", "%gs", "%an", "%s"].join("%x1f");
+
+export function parseReflog(output: string, ref: string): readonly ReflogEntryViewModel[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line, index) => {
+      const [hash, shortHash, selector, reflogSubject, author, subject] = line.split(fieldSeparator);
+      const separatorIndex = reflogSubject!.indexOf(": ");
+
+      return {
+        action: separatorIndex === -1 ? reflogSubject! : reflogSubject!.slice(0, separatorIndex),
+        author: author ?? "",
+        date: /@\{(.+)\}$/.exec(selector!)?.[1] ?? "",
+        hash: hash!,
+        message: separatorIndex === -1 ? "" : reflogSubject!.slice(separatorIndex + 2),
+        selector: `${ref}@{${index}}`,
+        shortHash: shortHash!,
+        subject: subject ?? ""
+      };
+    });
+}
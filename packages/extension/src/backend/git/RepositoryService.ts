@@ -1,7 +1,8 @@
-import { readdir, stat } from "node:fs/promises";
+import { readdir, readFile, stat } from "node:fs/promises";
 import { basename, dirname, isAbsolute, relative, resolve, sep, join } from "node:path";
 import type { RepositoryViewModel } from "../rpc/contract";
 import type { WorkspaceStateService } from "../../state/WorkspaceStateService";
+import { parseGitmodulesPaths, resolveSubmoduleRoot } from "./SubmoduleParser";
 
 export interface RepositoryServiceInput {
   activeEditorPath: () => string | undefined;
@@ -28,6 +29,8 @@ export class RepositoryService {
     for (const workspaceFolder of this.workspaceFolders) {
       await this.collectRepositoriesFromWorkspace(workspaceFolder, seenRootPaths, repositories);
     }
+    await this.collectSubmodules(seenRootPaths, repositories);
+    await this.collectLinkedWorktrees(seenRootPaths, repositories);
 
     this.repositories = repositories.sort((a, b) => {
       const scoreDiff = this.repositoryScore(a.rootPath) - this.repositoryScore(b.rootPath);
@@ -119,6 +122,33 @@ export class RepositoryService {
     }
   }
 
+  private async collectSubmodules(seenRootPaths: Set<string>, repositories: RepositoryViewModel[]): Promise<void> {
+    for (let index = 0; index < repositories.length; index += 1) {
+      const repository = repositories[index]!;
+      for (const submoduleRoot of await readSubmoduleRoots(repository.rootPath)) {
+        const existing = repositories.find((candidate) => candidate.rootPath === submoduleRoot);
+        if (existing) {
+          existing.submoduleOf = repository.id;
+        } else if (await isGitRepository(submoduleRoot)) {
+          addRepository(submoduleRoot, seenRootPaths, repositories, { submoduleOf: repository.id });
+        }
+      }
+    }
+  }
+
+  private async collectLinkedWorktrees(seenRootPaths: Set<string>, repositories: RepositoryViewModel[]): Promise<void> {
+    for (const repository of [...repositories]) {
+      for (const worktreeRoot of await readLinkedWorktreeRoots(repository.rootPath)) {
+        const existing = repositories.find((candidate) => candidate.rootPath === worktreeRoot);
+        if (existing) {
+          existing.worktreeOf = repository.id;
+        } else if (await isGitRepository(worktreeRoot)) {
+          addRepository(worktreeRoot, seenRootPaths, repositories, { worktreeOf: repository.id });
+        }
+      }
+    }
+  }
+
   private repositoryScore(repositoryRoot: string): number {
     const repositoryPath = resolve(repositoryRoot);
     const scores = this.workspaceFolders.map((workspaceFolder) => {
@@ -152,7 +182,47 @@ async function isGitRepository(rootPath: string): Promise<boolean> {
   }
 }
 
-function addRepository(rootPath: string, seenRootPaths: Set<string>, repositories: RepositoryViewModel[]): void {
+async function readLinkedWorktreeRoots(rootPath: string): Promise<readonly string[]> {
+  const worktreesPath = join(rootPath, ".git", "worktrees");
+  let entries;
+  try {
+    entries = await readdir(worktreesPath, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const worktreeRoots = await Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory())
+      .map(async (entry) => {
+        const adminPath = join(worktreesPath, entry.name);
+        try {
+          const gitdir = (await readFile(join(adminPath, "gitdir"), "utf8")).trim();
+          return gitdir ? dirname(resolve(adminPath, gitdir)) : undefined;
+        } catch {
+          return undefined;
+        }
+      })
+  );
+
+  return worktreeRoots.filter((worktreeRoot): worktreeRoot is string => worktreeRoot !== undefined);
+}
+
+async function readSubmoduleRoots(rootPath: string): Promise<readonly string[]> {
+  try {
+    const gitmodules = await readFile(join(rootPath, ".gitmodules"), "utf8");
+    return parseGitmodulesPaths(gitmodules).flatMap((path) => resolveSubmoduleRoot(rootPath, path) ?? []);
+  } catch {
+    return [];
+  }
+}
+
+function addRepository(
+  rootPath: string,
+  seenRootPaths: Set<string>,
+  repositories: RepositoryViewModel[],
+  relation: Pick<RepositoryViewModel, "submoduleOf" | "worktreeOf"> = {}
+): void {
   const resolvedRoot = resolve(rootPath);
   if (seenRootPaths.has(resolvedRoot)) {
     return;
@@ -162,7 +232,8 @@ function addRepository(rootPath: string, seenRootPaths: Set<string>, repositorie
   repositories.push({
     id: resolvedRoot,
     name: basename(resolvedRoot),
-    rootPath: resolvedRoot
+    rootPath: resolvedRoot,
+    ...relation
   });
 }
 
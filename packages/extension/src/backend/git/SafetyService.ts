@@ -2,6 +2,7 @@ import { simpleGit } from "simple-git";
 import { window } from "vscode";
 import type { AutoStashPreference, OperationResultViewModel } from "../rpc/contract";
 import type { Logger } from "../../logging/LoggerService";
+import { conflictMarkerPattern } from "./ConflictParser";
 
 const stashMessage = "GUI Git History auto stash";
 const stashAndContinue = "Stash and Continue";
@@ -10,8 +11,9 @@ const cancel = "Cancel";
 export interface ConflictResolutionInput {
   abortArgs: readonly string[];
   continueArgs: readonly string[];
-  operationKind: "merge" | "rebase";
+  operationKind: "merge" | "rebase" | "squash";
   operationName: string;
+  pausedMessage?: string;
 }
 
 interface ConflictSession {
@@ -100,6 +102,16 @@ export class SafetyService {
       };
     }
 
+    if (state === "inProgress") {
+      const markedFiles = await this.getStagedFilesWithConflictMarkers(repositoryRoot);
+      if (markedFiles.length > 0) {
+        return {
+          message: this.getConflictMarkersPrompt(session.conflict.operationName, markedFiles),
+          status: "conflict"
+        };
+      }
+    }
+
     try {
       await this.runLoggedGit(repositoryRoot, session.conflict.continueArgs);
       if (session.autoStashed) {
@@ -169,7 +181,8 @@ export class SafetyService {
       };
     }
 
-    if ((await this.getConflictState(repositoryRoot, session.conflict.operationKind)) === "none") {
+    const conflictState = await this.getConflictState(repositoryRoot, session.conflict.operationKind);
+    if (conflictState === "none") {
       await this.finishExternallyResolvedSession(repositoryRoot, session);
       return {
         message: `${session.conflict.operationName} already completed`,
@@ -178,7 +191,10 @@ export class SafetyService {
     }
 
     return {
-      message: this.getConflictPrompt(session.conflict.operationName),
+      message:
+        conflictState === "inProgress" && session.conflict.pausedMessage
+          ? session.conflict.pausedMessage
+          : this.getConflictPrompt(session.conflict.operationName),
       status: "conflict"
     };
   }
@@ -191,8 +207,9 @@ export class SafetyService {
   ): Promise<OperationResultViewModel> {
     try {
       const result = await operation();
-      if (conflict && (await this.getConflictState(repositoryRoot, conflict.operationKind)) !== "none") {
-        return this.startConflictSession(repositoryRoot, conflict, autoStashed);
+      const conflictState = conflict ? await this.getConflictState(repositoryRoot, conflict.operationKind) : "none";
+      if (conflict && conflictState !== "none") {
+        return this.startConflictSession(repositoryRoot, conflict, autoStashed, conflictState);
       }
 
       if (autoStashed) {
@@ -209,7 +226,7 @@ export class SafetyService {
           operationName: conflict.operationName,
           repositoryRoot
         });
-        return this.startConflictSession(repositoryRoot, conflict, autoStashed);
+        return this.startConflictSession(repositoryRoot, conflict, autoStashed, conflictState);
       }
 
       throw error;
@@ -236,14 +253,18 @@ export class SafetyService {
   private startConflictSession(
     repositoryRoot: string,
     conflict: ConflictResolutionInput,
-    autoStashed: boolean
+    autoStashed: boolean,
+    conflictState: "inProgress" | "unresolved"
   ): OperationResultViewModel {
     this.conflictSessions.set(repositoryRoot, {
       autoStashed,
       conflict
     });
     return {
-      message: this.getConflictPrompt(conflict.operationName),
+      message:
+        conflictState === "inProgress" && conflict.pausedMessage
+          ? conflict.pausedMessage
+          : this.getConflictPrompt(conflict.operationName),
       status: "conflict"
     };
   }
@@ -285,6 +306,11 @@ export class SafetyService {
     repositoryRoot: string,
     operationKind: ConflictResolutionInput["operationKind"]
   ): Promise<boolean> {
+    if (operationKind === "squash") {
+      const stagedFiles = await this.gitRaw(repositoryRoot, ["diff", "--cached", "--name-only"]);
+      return stagedFiles.trim().length > 0;
+    }
+
     const status = await this.gitRaw(repositoryRoot, ["status", "--untracked-files=no"]);
     if (operationKind === "rebase") {
       return status.includes("rebase in progress") || status.includes("currently rebasing");
@@ -293,6 +319,11 @@ export class SafetyService {
     return status.includes("still merging") || status.includes("merge in progress");
   }
 
+  private async getStagedFilesWithConflictMarkers(repositoryRoot: string): Promise<readonly string[]> {
+    const output = await this.gitRaw(repositoryRoot, ["diff", "--cached", "--name-only", "-z", "-G", conflictMarkerPattern]);
+    return output.split("\u0000").filter(Boolean);
+  }
+
   private async getConflictState(
     repositoryRoot: string,
     operationKind: ConflictResolutionInput["operationKind"]
@@ -312,6 +343,10 @@ export class SafetyService {
     return `${operationName} has conflicts. Resolve all conflicted files, stage them, then continue from GUI Git History.`;
   }
 
+  private getConflictMarkersPrompt(operationName: string, filePaths: readonly string[]): string {
+    return `${operationName} cannot continue because conflict markers remain in ${filePaths.join(", ")}. Remove the <<<<<<< and >>>>>>> blocks, stage the files, then continue.`;
+  }
+
   private getContinueFailedPrompt(
     operationName: string,
     conflictState: "inProgress" | "unresolved"
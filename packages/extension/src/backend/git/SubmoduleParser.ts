@@ -0,0 +1,153 @@
+import { isAbsolute, relative, resolve } from "node:path";
+import type { FileChangeViewModel, SubmoduleCommitViewModel, SubmoduleState, SubmoduleViewModel } from "../rpc/contract";
+import { unquoteGitPath } from "./GitPathParser";
+
+export interface GitlinkChange {
+  newHash?: string;
+  oldHash?: string;
+}
+
+const gitlinkMode = "160000";
+const fieldSeparator = "\x1f";
+const statesByPrefix: Record<string, SubmoduleState> = {
+  " ": "current",
+  "+": "modified",
+  "-": "uninitialized",
+  U: "conflict"
+};
+
+export function parseGitlinkChanges(rawOutput: string): ReadonlyMap<string, GitlinkChange> {
+  const gitlinks = new Map<string, GitlinkChange>();
+
+  for (const line of rawOutput.split("\n")) {
+    if (!line.startsWith(":")) {
+      continue;
+    }
+
+    const parts = line.split("\t");
+    const [oldMode, newMode, oldHash, newHash] = parts[0]!.slice(1).split(" ");
+    if (oldMode !== gitlinkMode && newMode !== gitlinkMode) {
+      continue;
+    }
+
+    gitlinks.set(unquoteGitPath(parts.at(-1)!), {
+      newHash: newMode === gitlinkMode ? objectHash(newHash) : undefined,
+      oldHash: oldMode === gitlinkMode ? objectHash(oldHash) : undefined
+    });
+  }
+
+  return gitlinks;
+}
+
+export function applyGitlinkChanges<TFile extends FileChangeViewModel>(files: readonly TFile[], rawOutput: string): readonly TFile[] {
+  const gitlinks = parseGitlinkChanges(rawOutput);
+  if (gitlinks.size === 0) {
+    return files;
+  }
+
+  return files.map((file) => {
+    const change = gitlinks.get(file.path);
+    if (!change) {
+      return file;
+    }
+
+    return {
+      ...file,
+      binary: false,
+      deletions: 0,
+      insertions: 0,
+      submodule: {
+        ...change,
+        commits: []
+      }
+    };
+  });
+}
+
+export function parseSubmoduleStatus(
+  statusOutput: string,
+  configOutput: string,
+  repositoryRoot: string
+): readonly SubmoduleViewModel[] {
+  const config = parseSubmoduleConfig(configOutput);
+
+  return statusOutput
+    .split("\n")
+    .map((line) => /^([ +\-U])([0-9a-f]+) (.+?)(?: \((.+)\))?$/.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .flatMap(([, prefix, hash, path, describe]) => {
+      const rootPath = resolveSubmoduleRoot(repositoryRoot, path!);
+      if (rootPath === undefined) {
+        return [];
+      }
+
+      const entry = config.find((candidate) => candidate.path === path);
+      return [
+        {
+          describe,
+          hash: /^0+$/.test(hash!) ? undefined : hash,
+          name: entry?.name ?? path!,
+          path: path!,
+          rootPath,
+          state: statesByPrefix[prefix!] ?? "current",
+          url: entry?.url
+        }
+      ];
+    });
+}
+
+// Submodule paths come from .gitmodules, which the repository itself controls, so a path that escapes
+// the repository root is never treated as a submodule.
+export function resolveSubmoduleRoot(repositoryRoot: string, path: string): string | undefined {
+  const rootPath = resolve(repositoryRoot, path);
+  const relativePath = relative(resolve(repositoryRoot), rootPath);
+
+  return relativePath === "" || relativePath.startsWith("..") || isAbsolute(relativePath) ? undefined : rootPath;
+}
+
+export function parseSubmoduleLog(output: string): readonly SubmoduleCommitViewModel[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [hash, message] = line.split(fieldSeparator);
+
+      return {
+        hash: hash!,
+        message: message ?? ""
+      };
+    });
+}
+
+export function parseGitmodulesPaths(content: string): readonly string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => /^\s*path\s*=\s*(.+?)\s*$/.exec(line)?.[1])
+    .filter((path): path is string => path !== undefined)
+    .map((path) => path.replace(/^"(.*)"$/, "$1"));
+}
+
+function parseSubmoduleConfig(output: string): readonly { name: string; path?: string; url?: string }[] {
+  const entries = new Map<string, { name: string; path?: string; url?: string }>();
+
+  for (const line of output.split("\n").filter(Boolean)) {
+    const separatorIndex = line.indexOf(" ");
+    const key = line.slice(0, separatorIndex);
+    const value = line.slice(separatorIndex + 1);
+    const name = key.slice("submodule.".length, key.lastIndexOf("."));
+    const property = key.slice(key.lastIndexOf(".") + 1);
+    const entry = entries.get(name) ?? { name };
+    if (property === "path") {
+      entry.path = value;
+    } else if (property === "url") {
+      entry.url = value;
+    }
+    entries.set(name, entry);
+  }
+
+  return [...entries.values()];
+}
+
+function objectHash(hash: string | undefined): string | undefined {
+  return hash && !/^0+$/.test(hash) ? hash : undefined;
+}
@@ -0,0 +1,144 @@
+import { simpleGit } from "simple-git";
+import type {
+  FileChangeViewModel,
+  OperationResultViewModel,
+  SubmoduleChangeViewModel,
+  SubmoduleViewModel
+} from "../rpc/contract";
+import type { Logger } from "../../logging/LoggerService";
+import { parseSubmoduleLog, parseSubmoduleStatus, resolveSubmoduleRoot } from "./SubmoduleParser";
+
+const submoduleLogLimit = 20;
+
+export interface SubmoduleActionResult {
+  result: OperationResultViewModel;
+  submodules: readonly SubmoduleViewModel[];
+}
+
+export interface SubmoduleServiceInput {
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  logger?: Pick<Logger, "info">;
+}
+
+export class SubmoduleService {
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly logger: Pick<Logger, "info"> | undefined;
+
+  public constructor(input: SubmoduleServiceInput = {}) {
+    this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.logger = input.logger;
+  }
+
+  public async listSubmodules(repositoryRoot: string): Promise<readonly SubmoduleViewModel[]> {
+    const [statusOutput, configOutput] = await Promise.all([
+      this.gitRaw(repositoryRoot, ["submodule", "status"]),
+      this.gitRaw(repositoryRoot, ["config", "--file", ".gitmodules", "--get-regexp", "^submodule\\."]).catch(() => "")
+    ]);
+
+    return parseSubmoduleStatus(statusOutput, configOutput, repositoryRoot);
+  }
+
+  public async initSubmodules(repositoryRoot: string, path?: string): Promise<SubmoduleActionResult> {
+    await this.runLoggedGit(repositoryRoot, ["submodule", "init", ...pathArgs(repositoryRoot, path)]);
+
+    return {
+      result: {
+        message: path ? `Initialized submodule ${path}. Update it to check out its files.` : "Initialized all submodules",
+        status: "ok"
+      },
+      submodules: await this.listSubmodules(repositoryRoot)
+    };
+  }
+
+  public async updateSubmodules(repositoryRoot: string, path?: string): Promise<SubmoduleActionResult> {
+    await this.runLoggedGit(repositoryRoot, ["submodule", "update", "--init", "--recursive", ...pathArgs(repositoryRoot, path)]);
+
+    return {
+      result: {
+        message: path ? `Updated submodule ${path}` : "Updated all submodules",
+        status: "ok"
+      },
+      submodules: await this.listSubmodules(repositoryRoot)
+    };
+  }
+
+  public async summarizeChanges<TFile extends FileChangeViewModel>(
+    repositoryRoot: string,
+    files: readonly TFile[],
+    options: { workTree?: boolean } = {}
+  ): Promise<readonly TFile[]> {
+    if (!files.some((file) => file.submodule)) {
+      return files;
+    }
+
+    return Promise.all(
+      files.map(async (file) => {
+        const submoduleRoot = file.submodule ? resolveSubmoduleRoot(repositoryRoot, file.path) : undefined;
+        if (!file.submodule || submoduleRoot === undefined) {
+          return file;
+        }
+
+        const newHash = file.submodule.newHash ?? (options.workTree ? await this.readHead(submoduleRoot) : undefined);
+        return {
+          ...file,
+          submodule: await this.loadCommitRange(submoduleRoot, file.submodule.oldHash, newHash)
+        };
+      })
+    );
+  }
+
+  private async loadCommitRange(
+    submoduleRoot: string,
+    oldHash: string | undefined,
+    newHash: string | undefined
+  ): Promise<SubmoduleChangeViewModel> {
+    const change = { newHash, oldHash };
+    if (!oldHash || !newHash || oldHash === newHash) {
+      return { ...change, commits: [] };
+    }
+
+    try {
+      const commits = await this.readLog(submoduleRoot, `${oldHash}..${newHash}`);
+      if (commits.length > 0) {
+        return { ...change, commits };
+      }
+
+      return { ...change, commits: await this.readLog(submoduleRoot, `${newHash}..${oldHash}`), rewound: true };
+    } catch {
+      return { ...change, commits: [] };
+    }
+  }
+
+  private async readLog(submoduleRoot: string, range: string): Promise<SubmoduleChangeViewModel["commits"]> {
+    return parseSubmoduleLog(
+      await this.gitRaw(submoduleRoot, ["log", "--format=%H%x1f%s", `--max-count=${submoduleLogLimit}`, range])
+    );
+  }
+
+  private async readHead(submoduleRoot: string): Promise<string | undefined> {
+    try {
+      return (await this.gitRaw(submoduleRoot, ["rev-parse", "HEAD"])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async runLoggedGit(repositoryRoot: string, args: readonly string[]): Promise<string> {
+    this.logger?.info("git.command", {
+      command: `git -C ${repositoryRoot} ${args.join(" ")}`
+    });
+    return this.gitRaw(repositoryRoot, args);
+  }
+}
+
+function pathArgs(repositoryRoot: string, path: string | undefined): readonly string[] {
+  if (!path) {
+    return [];
+  }
+
+  if (resolveSubmoduleRoot(repositoryRoot, path) === undefined) {
+    throw new Error(`Submodule path ${path} is outside the repository`);
+  }
+
+  return ["--", path];
+}
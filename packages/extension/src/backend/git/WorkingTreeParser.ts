@@ -1,7 +1,23 @@
-import type { StashEntryViewModel, WorkingTreeFileChangeViewModel } from "../rpc/contract";
-import { findGitPathSeparator, parseGitNumstatPath, unquoteGitPath } from "./GitPathParser";
+import type {
+  CommitAuthorViewModel,
+  ConflictFileStatus,
+  StashEntryViewModel,
+  WorkingTreeFileChangeViewModel,
+  WorkingTreeSubmoduleStatusViewModel
+} from "../rpc/contract";
+import { parseGitNumstatPath, unquoteGitPath } from "./GitPathParser";
+import { applyGitlinkChanges } from "./SubmoduleParser";
+
+export interface PorcelainBranchStatus {
+  ahead?: number;
+  behind?: number;
+  head: string;
+  oid?: string;
+  upstream?: string;
+}
 
 export interface PorcelainStatusViewModel {
+  branch?: PorcelainBranchStatus;
   staged: readonly WorkingTreeFileChangeViewModel[];
   unstaged: readonly WorkingTreeFileChangeViewModel[];
 }
@@ -13,30 +29,76 @@ interface NumstatFileStats {
   path: string;
 }
 
+interface StatusEntryFields {
+  fields: readonly string[];
+  path: string;
+}
+
+const conflictStatusByCode: Record<string, ConflictFileStatus> = {
+  AA: "bothAdded",
+  AU: "addedByUs",
+  DD: "bothDeleted",
+  DU: "deletedByUs",
+  UA: "addedByThem",
+  UD: "deletedByThem",
+  UU: "bothModified"
+};
+
 export function parsePorcelainStatus(output: string): PorcelainStatusViewModel {
   const staged: WorkingTreeFileChangeViewModel[] = [];
   const unstaged: WorkingTreeFileChangeViewModel[] = [];
+  const entries = output.split("\u0000");
+  let branch: PorcelainBranchStatus | undefined;
+
+  for (let index = 0; index < entries.length; index += 1) {
+    const entry = entries[index]!;
+
+    if (entry.startsWith("# ")) {
+      branch = applyBranchHeader(branch, entry.slice(2));
+      continue;
+    }
+
+    if (entry.startsWith("? ")) {
+      unstaged.push(toFileChange("untracked", entry.slice(2), "A"));
+      continue;
+    }
 
-  for (const line of output.split("\n").filter(Boolean)) {
-    const indexStatus = line.charAt(0);
-    const workTreeStatus = line.charAt(1);
-    const path = line.slice(3);
+    if (entry.startsWith("u ")) {
+      const { fields, path } = splitStatusEntry(entry, 10);
+      const conflict = conflictStatusByCode[fields[1]!] ?? "bothModified";
+      unstaged.push({
+        ...toFileChange("unstaged", path, conflictStatusCode(conflict)),
+        conflict,
+        submoduleStatus: parseSubmoduleStatusField(fields[2]!)
+      });
+      continue;
+    }
 
-    if (line.startsWith("?? ")) {
-      unstaged.push(toFileChange("untracked", path, "A", indexStatus, workTreeStatus));
+    if (!entry.startsWith("1 ") && !entry.startsWith("2 ")) {
       continue;
     }
 
-    if (indexStatus !== " ") {
-      staged.push(toFileChange("staged", path, indexStatus, indexStatus, workTreeStatus));
+    const renamed = entry.startsWith("2 ");
+    const { fields, path } = splitStatusEntry(entry, renamed ? 9 : 8);
+    const previousPath = renamed ? entries[++index] : undefined;
+    const indexStatus = fields[1]!.charAt(0);
+    const workTreeStatus = fields[1]!.charAt(1);
+    const submoduleStatus = parseSubmoduleStatusField(fields[2]!);
+
+    if (indexStatus !== ".") {
+      staged.push({
+        ...toFileChange("staged", path, indexStatus, previousPath),
+        similarity: renamed && isRenameOrCopy(indexStatus) ? Number(fields[8]!.slice(1)) : undefined,
+        submoduleStatus
+      });
     }
 
-    if (workTreeStatus !== " ") {
-      unstaged.push(toFileChange("unstaged", path, workTreeStatus, indexStatus, workTreeStatus));
+    if (workTreeStatus !== ".") {
+      unstaged.push({ ...toFileChange("unstaged", path, workTreeStatus, previousPath), submoduleStatus });
     }
   }
 
-  return { staged, unstaged };
+  return { branch, staged, unstaged };
 }
 
 export function parseWorkingTreeStatus(
@@ -47,8 +109,9 @@ export function parseWorkingTreeStatus(
   const status = parsePorcelainStatus(statusOutput);
 
   return {
-    staged: mergeNumstat(status.staged, stagedNumstatOutput),
-    unstaged: mergeNumstat(status.unstaged, unstagedNumstatOutput)
+    branch: status.branch,
+    staged: applyGitlinkChanges(mergeNumstat(status.staged, stagedNumstatOutput), stagedNumstatOutput),
+    unstaged: applyGitlinkChanges(mergeNumstat(status.unstaged, unstagedNumstatOutput), unstagedNumstatOutput)
   };
 }
 
@@ -70,6 +133,28 @@ export function parseStashList(output: string): readonly StashEntryViewModel[] {
     });
 }
 
+export function parseShortlogAuthors(output: string): readonly CommitAuthorViewModel[] {
+  return output
+    .split("\n")
+    .map((line) => /^\s*(\d+)\t(.+?)\s+<([^>]*)>\s*$/.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => ({
+      commits: Number(match[1]),
+      email: match[3]!,
+      name: match[2]!
+    }));
+}
+
+// git only strips comment lines when it opens an editor; `commit -m` keeps them, so drop them before the
+// template reaches the composer.
+export function stripCommitTemplateComments(template: string): string {
+  return template
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trimEnd();
+}
+
 export function parseStashFiles(
   nameStatusOutput: string,
   numstatOutput: string
@@ -141,7 +226,7 @@ function parseNumstat(
 
   return output
     .split("\n")
-    .filter(Boolean)
+    .filter((line) => line && !line.startsWith(":"))
     .map((line) => {
       const columns = line.split("\t");
       const numstatPath = columns[2]!;
@@ -160,52 +245,78 @@ function toFileChange(
   area: WorkingTreeFileChangeViewModel["area"],
   path: string,
   statusCode: string,
-  indexStatus: string,
-  workTreeStatus: string
+  previousPath?: string
 ): WorkingTreeFileChangeViewModel {
-  const parsedPath = parseStatusPath(statusCode, path, indexStatus, workTreeStatus);
-
   return {
     area,
     binary: false,
     deletions: 0,
     insertions: 0,
-    path: parsedPath.path,
-    previousPath: parsedPath.previousPath,
+    path,
+    previousPath: isRenameOrCopy(statusCode) ? previousPath : undefined,
     status: mapStatusCode(statusCode)
   };
 }
 
-function parseStatusPath(
-  statusCode: string,
-  path: string,
-  indexStatus: string,
-  workTreeStatus: string
-): Pick<WorkingTreeFileChangeViewModel, "path" | "previousPath"> {
-  if (![indexStatus, workTreeStatus].some((status) => status === "R" || status === "C")) {
-    return { path: unquoteGitPath(path) };
+function splitStatusEntry(entry: string, fieldCount: number): StatusEntryFields {
+  const fields = entry.split(" ", fieldCount);
+
+  return {
+    fields,
+    path: entry.slice(fields.join(" ").length + 1)
+  };
+}
+
+function applyBranchHeader(branch: PorcelainBranchStatus | undefined, header: string): PorcelainBranchStatus {
+  const current = branch ?? { head: "HEAD" };
+  const separatorIndex = header.indexOf(" ");
+  const key = header.slice(0, separatorIndex);
+  const value = header.slice(separatorIndex + 1);
+
+  if (key === "branch.oid") {
+    return { ...current, oid: value === "(initial)" ? undefined : value };
   }
 
-  const parsedPath = parseRenameOrCopyPath(path);
-  if (statusCode !== "R" && statusCode !== "C") {
-    return { path: parsedPath.path };
+  if (key === "branch.head") {
+    return { ...current, head: value === "(detached)" ? "HEAD" : value };
   }
 
-  return parsedPath;
+  if (key === "branch.upstream") {
+    return { ...current, upstream: value };
+  }
+
+  if (key === "branch.ab") {
+    const match = /^\+(\d+) -(\d+)$/.exec(value);
+    return match ? { ...current, ahead: Number(match[1]), behind: Number(match[2]) } : current;
+  }
+
+  return current;
 }
 
-function parseRenameOrCopyPath(path: string): Pick<WorkingTreeFileChangeViewModel, "path" | "previousPath"> {
-  const separatorIndex = findGitPathSeparator(path, " -> ");
-  if (separatorIndex === -1) {
-    throw new Error("Rename or copy path is missing separator");
+function parseSubmoduleStatusField(field: string): WorkingTreeSubmoduleStatusViewModel | undefined {
+  if (!field.startsWith("S")) {
+    return undefined;
   }
 
   return {
-    path: unquoteGitPath(path.slice(separatorIndex + 4)),
-    previousPath: unquoteGitPath(path.slice(0, separatorIndex))
+    commitChanged: field.charAt(1) === "C",
+    trackedChanges: field.charAt(2) === "M",
+    untrackedChanges: field.charAt(3) === "U"
   };
 }
 
+function conflictStatusCode(conflict: ConflictFileStatus): string {
+  if (conflict === "bothDeleted") {
+    return "D";
+  }
+
+  return conflict === "bothAdded" || conflict === "addedByUs" || conflict === "addedByThem" ? "A" : "M";
+}
+
+function isRenameOrCopy(statusCode: string): boolean {
+  return statusCode === "R" || statusCode === "C";
+}
+
 function mapStatusCode(statusCode: string): WorkingTreeFileChangeViewModel["status"] {
   if (statusCode === "A") {
     return "added";
@@ -1,9 +1,29 @@
 import { simpleGit } from "simple-git";
-import { readFile as nodeReadFile } from "node:fs/promises";
-import { join } from "node:path";
-import type { OperationResultViewModel, StashEntryViewModel, WorkingTreeViewModel } from "../rpc/contract";
+import { mkdir, mkdtemp, readFile as nodeReadFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, isAbsolute, join } from "node:path";
+import type {
+  CommitComposerViewModel,
+  CommitMessageTemplateViewModel,
+  OperationResultViewModel,
+  StashEntryViewModel,
+  WorkingTreeDiffKind,
+  WorkingTreeFileDiffViewModel,
+  WorkingTreeHunkSelectionViewModel,
+  WorkingTreeViewModel
+} from "../rpc/contract";
 import type { Logger } from "../../logging/LoggerService";
-import { parsePorcelainStatus, parseStashFiles, parseStashList, parseWorkingTreeStatus } from "./WorkingTreeParser";
+import { buildHunkPatch, parseFileDiff, toWorkingTreeFileDiff } from "./DiffHunkParser";
+import type { HunkPatchDirection } from "./DiffHunkParser";
+import { SubmoduleService } from "./SubmoduleService";
+import {
+  parsePorcelainStatus,
+  parseShortlogAuthors,
+  parseStashFiles,
+  parseStashList,
+  parseWorkingTreeStatus,
+  stripCommitTemplateComments
+} from "./WorkingTreeParser";
 
 const defaultWorkingTreeMessages: Record<string, string> = {
   "changes.dropStash": "Drop Stash",
@@ -18,14 +38,17 @@ const defaultWorkingTreeMessages: Record<string, string> = {
   "workingTree.popStashConfirmation": "Pop stash?",
   "workingTree.poppedStash": "Popped stash"
 };
-const workingTreeStatusArgs = ["status", "--porcelain=v1", "--untracked-files=all"] as const;
+const workingTreeStatusArgs = ["status", "--porcelain=v2", "-z", "--branch", "--untracked-files=all"] as const;
+const maxCoAuthorSuggestions = 200;
 
 export interface WorkingTreeServiceInput {
   gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   logger?: Logger;
   readFile?: (path: string) => Promise<Buffer>;
   showWarningMessage?: (message: string, options: { modal: boolean }, ...items: readonly string[]) => Thenable<string | undefined>;
+  submodules?: Pick<SubmoduleService, "summarizeChanges">;
   t?: (key: string, ...args: readonly unknown[]) => string;
+  writeTextFile?: (path: string, content: string) => Promise<void>;
 }
 
 export class WorkingTreeService {
@@ -33,7 +56,9 @@ export class WorkingTreeService {
   private readonly logger?: Logger;
   private readonly readFile: (path: string) => Promise<Buffer>;
   private readonly showWarningMessage: (message: string, options: { modal: boolean }, ...items: readonly string[]) => Thenable<string | undefined>;
+  private readonly submodules: Pick<SubmoduleService, "summarizeChanges">;
   private readonly t: (key: string, ...args: readonly unknown[]) => string;
+  private readonly writeTextFile: (path: string, content: string) => Promise<void>;
 
   public constructor(input: WorkingTreeServiceInput = {}) {
     this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
@@ -42,38 +67,41 @@ export class WorkingTreeService {
     this.showWarningMessage =
       input.showWarningMessage ??
       (() => Promise.resolve(undefined));
+    this.submodules = input.submodules ?? new SubmoduleService({ gitRaw: this.gitRaw });
     this.t = input.t ?? defaultTranslate;
+    this.writeTextFile = input.writeTextFile ?? writeTextFileWithDirectory;
   }
 
   public async load(repositoryId: string, repositoryRoot: string): Promise<WorkingTreeViewModel> {
-    const [branchOutput, statusOutput, stashOutput, stagedNumstatOutput, unstagedNumstatOutput] = await Promise.all([
-      this.getCurrentBranch(repositoryRoot),
+    const [statusOutput, stashOutput, stagedNumstatOutput, unstagedNumstatOutput, gpgSignOutput] = await Promise.all([
       this.gitRaw(repositoryRoot, workingTreeStatusArgs),
       this.gitRaw(repositoryRoot, ["stash", "list"]),
-      this.gitRaw(repositoryRoot, ["diff", "--cached", "--numstat"]),
-      this.gitRaw(repositoryRoot, ["diff", "--numstat"])
+      this.gitRaw(repositoryRoot, ["diff", "--cached", "--numstat", "--raw", "--no-abbrev"]),
+      this.gitRaw(repositoryRoot, ["diff", "--numstat", "--raw", "--no-abbrev"]),
+      this.gitRaw(repositoryRoot, ["config", "--bool", "commit.gpgSign"]).catch(() => "")
     ]);
     const status = parseWorkingTreeStatus(statusOutput, stagedNumstatOutput, unstagedNumstatOutput);
-    const unstaged = await this.withUntrackedLineCounts(repositoryRoot, status.unstaged);
+    const staged = await this.submodules.summarizeChanges(repositoryRoot, status.staged);
+    const unstaged = await this.submodules.summarizeChanges(
+      repositoryRoot,
+      await this.withUntrackedLineCounts(repositoryRoot, status.unstaged),
+      { workTree: true }
+    );
 
     return {
-      branch: branchOutput.trim(),
+      ahead: status.branch?.ahead,
+      behind: status.branch?.behind,
+      branch: status.branch?.head ?? "HEAD",
       repositoryId,
       repositoryRoot,
-      staged: status.staged,
+      signCommits: gpgSignOutput.trim() === "true",
+      staged,
       stashes: parseStashList(stashOutput),
-      unstaged
+      unstaged,
+      upstream: status.branch?.upstream
     };
   }
 
-  private async getCurrentBranch(repositoryRoot: string): Promise<string> {
-    try {
-      return await this.gitRaw(repositoryRoot, ["symbolic-ref", "--short", "HEAD"]);
-    } catch {
-      return "HEAD";
-    }
-  }
-
   public async stageFile(repositoryId: string, repositoryRoot: string, filePath: string): Promise<WorkingTreeActionResult> {
     return this.withResult(repositoryId, repositoryRoot, ["add", "--", filePath], "Staged file");
   }
@@ -90,8 +118,42 @@ export class WorkingTreeService {
     return this.withResult(repositoryId, repositoryRoot, ["restore", "--staged", "--", "."], "Unstaged all changes");
   }
 
-  public async commit(repositoryId: string, repositoryRoot: string, message: string): Promise<WorkingTreeActionResult> {
-    return this.withResult(repositoryId, repositoryRoot, ["commit", "-m", message], "Commit completed");
+  public async commit(
+    repositoryId: string,
+    repositoryRoot: string,
+    message: string,
+    sign = false,
+    amend = false
+  ): Promise<WorkingTreeActionResult> {
+    return this.withResult(
+      repositoryId,
+      repositoryRoot,
+      ["commit", ...(amend ? ["--amend"] : []), ...(sign ? ["-S"] : []), "-m", message],
+      amend ? "Amended last commit" : "Commit completed"
+    );
+  }
+
+  public async loadCommitComposer(
+    repositoryId: string,
+    repositoryRoot: string,
+    configuredTemplates: readonly CommitMessageTemplateViewModel[] = []
+  ): Promise<CommitComposerViewModel> {
+    const [templatePathOutput, shortlogOutput, headMessage] = await Promise.all([
+      this.gitRaw(repositoryRoot, ["config", "--path", "commit.template"]).catch(() => ""),
+      this.gitRaw(repositoryRoot, ["shortlog", "-sne", "HEAD"]).catch(() => ""),
+      this.gitRaw(repositoryRoot, ["log", "-1", "--format=%B", "HEAD"]).then(
+        (output) => output.trim() || undefined,
+        () => undefined
+      )
+    ]);
+    const gitTemplate = await this.readCommitTemplate(repositoryRoot, templatePathOutput.trim());
+
+    return {
+      coAuthors: parseShortlogAuthors(shortlogOutput).slice(0, maxCoAuthorSuggestions),
+      headMessage,
+      repositoryId,
+      templates: gitTemplate ? [gitTemplate, ...configuredTemplates] : configuredTemplates
+    };
   }
 
   public async discardFile(repositoryId: string, repositoryRoot: string, filePath: string): Promise<WorkingTreeActionResult> {
@@ -100,13 +162,65 @@ export class WorkingTreeService {
       return this.cancelledResult(repositoryId, repositoryRoot, "Discard cancelled");
     }
 
-    const status = parsePorcelainStatus(await this.gitRaw(repositoryRoot, ["status", "--porcelain=v1", "--", filePath]));
+    const status = parsePorcelainStatus(await this.gitRaw(repositoryRoot, ["status", "--porcelain=v2", "-z", "--", filePath]));
     const isUntracked = status.unstaged.some((file) => file.area === "untracked" && file.path === filePath);
     const args = isUntracked ? ["clean", "-f", "--", filePath] : ["restore", "--worktree", "--", filePath];
 
     return this.withResult(repositoryId, repositoryRoot, args, "Discarded file");
   }
 
+  public async getFileDiff(
+    repositoryRoot: string,
+    filePath: string,
+    kind: WorkingTreeDiffKind
+  ): Promise<WorkingTreeFileDiffViewModel> {
+    return toWorkingTreeFileDiff(filePath, kind, parseFileDiff(await this.readFileDiff(repositoryRoot, filePath, kind)));
+  }
+
+  public async stageHunk(
+    repositoryId: string,
+    repositoryRoot: string,
+    selection: WorkingTreeHunkSelectionViewModel
+  ): Promise<WorkingTreeActionResult> {
+    return this.withHunkPatch(repositoryRoot, selection, "unstaged", "forward", (patchPath) =>
+      this.withResult(repositoryId, repositoryRoot, ["apply", "--cached", "--whitespace=nowarn", patchPath], "Staged hunk")
+    );
+  }
+
+  public async unstageHunk(
+    repositoryId: string,
+    repositoryRoot: string,
+    selection: WorkingTreeHunkSelectionViewModel
+  ): Promise<WorkingTreeActionResult> {
+    return this.withHunkPatch(repositoryRoot, selection, "staged", "reverse", (patchPath) =>
+      this.withResult(
+        repositoryId,
+        repositoryRoot,
+        ["apply", "--cached", "--reverse", "--whitespace=nowarn", patchPath],
+        "Unstaged hunk"
+      )
+    );
+  }
+
+  public async discardHunk(
+    repositoryId: string,
+    repositoryRoot: string,
+    selection: WorkingTreeHunkSelectionViewModel
+  ): Promise<WorkingTreeActionResult> {
+    const confirmation = await this.showWarningMessage(
+      `Discard selected changes in ${selection.filePath}?`,
+      { modal: true },
+      "Discard"
+    );
+    if (confirmation !== "Discard") {
+      return this.cancelledResult(repositoryId, repositoryRoot, "Discard cancelled");
+    }
+
+    return this.withHunkPatch(repositoryRoot, selection, "unstaged", "reverse", (patchPath) =>
+      this.withResult(repositoryId, repositoryRoot, ["apply", "--reverse", "--whitespace=nowarn", patchPath], "Discarded hunk")
+    );
+  }
+
   public async applyStash(repositoryId: string, repositoryRoot: string, stashRef: string): Promise<WorkingTreeActionResult> {
     return this.withResult(repositoryId, repositoryRoot, ["stash", "apply", stashRef], this.t("workingTree.appliedStash"));
   }
@@ -154,6 +268,41 @@ export class WorkingTreeService {
     };
   }
 
+  private async readFileDiff(repositoryRoot: string, filePath: string, kind: WorkingTreeDiffKind): Promise<string> {
+    const cachedArgs = kind === "staged" ? ["--cached"] : [];
+
+    return this.gitRaw(repositoryRoot, ["diff", ...cachedArgs, "--no-color", "--no-ext-diff", "--", filePath]);
+  }
+
+  private async withHunkPatch(
+    repositoryRoot: string,
+    selection: WorkingTreeHunkSelectionViewModel,
+    kind: WorkingTreeDiffKind,
+    direction: HunkPatchDirection,
+    apply: (patchPath: string) => Promise<WorkingTreeActionResult>
+  ): Promise<WorkingTreeActionResult> {
+    const diff = parseFileDiff(await this.readFileDiff(repositoryRoot, selection.filePath, kind));
+    if (diff.hunks[selection.hunkIndex]?.header !== selection.hunkHeader) {
+      throw new Error(`Changes in ${selection.filePath} changed since they were loaded. Refresh and try again.`);
+    }
+
+    const patch = buildHunkPatch(diff, selection.hunkIndex, selection.lineIndexes, direction);
+    if (!patch) {
+      throw new Error("Select at least one changed line");
+    }
+
+    // Each action writes its own patch so concurrent hunk actions never apply each other's selection.
+    const patchDirectory = await mkdtemp(join(tmpdir(), "guigit-hunk-"));
+    try {
+      const patchPath = join(patchDirectory, "hunk.patch");
+      await this.writeTextFile(patchPath, patch);
+
+      return await apply(patchPath);
+    } finally {
+      await rm(patchDirectory, { force: true, recursive: true });
+    }
+  }
+
   private async withUntrackedLineCounts(
     repositoryRoot: string,
     files: readonly WorkingTreeViewModel["unstaged"][number][]
@@ -190,6 +339,27 @@ export class WorkingTreeService {
     }
   }
 
+  private async readCommitTemplate(
+    repositoryRoot: string,
+    templatePath: string
+  ): Promise<CommitMessageTemplateViewModel | undefined> {
+    if (!templatePath) {
+      return undefined;
+    }
+
+    try {
+      const content = await this.readFile(isAbsolute(templatePath) ? templatePath : join(repositoryRoot, templatePath));
+      const message = stripCommitTemplateComments(content.toString("utf8"));
+      return message ? { message, name: "commit.template", source: "gitConfig" } : undefined;
+    } catch (error: unknown) {
+      this.logger?.info("git.commitTemplate.unreadable", {
+        message: error instanceof Error ? error.message : String(error),
+        templatePath
+      });
+      return undefined;
+    }
+  }
+
   private async withResult(
     repositoryId: string,
     repositoryRoot: string,
@@ -253,6 +423,11 @@ function defaultTranslate(key: string): string {
   return defaultWorkingTreeMessages[key] ?? key;
 }
 
+async function writeTextFileWithDirectory(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, "utf8");
+}
+
 function countTextLines(content: Buffer): number {
   if (content.length === 0) {
     return 0;
@@ -0,0 +1,50 @@
+import { resolve } from "node:path";
+import type { WorktreeViewModel } from "../rpc/contract";
+
+export function parseWorktreeList(output: string, repositoryRoot: string): readonly WorktreeViewModel[] {
+  const currentPath = resolve(repositoryRoot);
+
+  return output
+    .split(/\r?\n\r?\n/)
+    .map((block) => block.split(/\r?\n/).filter(Boolean))
+    .filter((lines) => lines[0]?.startsWith("worktree "))
+    .map((lines, index) => {
+      const worktree: WorktreeViewModel = {
+        bare: false,
+        current: false,
+        detached: false,
+        locked: false,
+        main: index === 0,
+        path: lines[0]!.slice("worktree ".length),
+        prunable: false
+      };
+
+      for (const line of lines.slice(1)) {
+        const [key, value] = splitAttribute(line);
+        if (key === "HEAD") {
+          worktree.head = value;
+        } else if (key === "branch" && value) {
+          worktree.branch = value.replace(/^refs\/heads\//, "");
+        } else if (key === "bare") {
+          worktree.bare = true;
+        } else if (key === "detached") {
+          worktree.detached = true;
+        } else if (key === "locked") {
+          worktree.locked = true;
+          worktree.lockReason = value;
+        } else if (key === "prunable") {
+          worktree.prunable = true;
+          worktree.prunableReason = value;
+        }
+      }
+
+      worktree.current = resolve(worktree.path) === currentPath;
+      return worktree;
+    });
+}
+
+function splitAttribute(line: string): [string, string | undefined] {
+  const separatorIndex = line.indexOf(" ");
+
+  return separatorIndex === -1 ? [line, undefined] : [line.slice(0, separatorIndex), line.slice(separatorIndex + 1)];
+}
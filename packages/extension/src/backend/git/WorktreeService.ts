@@ -0,0 +1,219 @@
+import { commands, Uri, window } from "vscode";
+import { basename, resolve } from "node:path";
+import { simpleGit } from "simple-git";
+import type { OperationResultViewModel, WorktreeViewModel } from "../rpc/contract";
+import type { Logger } from "../../logging/LoggerService";
+import { parseWorktreeList } from "./WorktreeParser";
+
+export interface WorktreeActionResult {
+  result: OperationResultViewModel;
+  worktrees: readonly WorktreeViewModel[];
+}
+
+export interface WorktreeServiceInput<TUri> {
+  executeCommand?: (command: string, ...args: readonly unknown[]) => Thenable<void>;
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  logger?: Pick<Logger, "info">;
+  showWarningMessage?: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined>;
+  uriFile?: (path: string) => TUri;
+}
+
+export class WorktreeService<TUri = Uri> {
+  private readonly executeCommand: (command: string, ...args: readonly unknown[]) => Thenable<void>;
+  private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  private readonly logger: Pick<Logger, "info"> | undefined;
+  private readonly showWarningMessage: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined>;
+  private readonly uriFile: (path: string) => TUri;
+
+  public constructor(input: WorktreeServiceInput<TUri> = {}) {
+    this.executeCommand =
+      input.executeCommand ??
+      (async (command, ...args) => {
+        await commands.executeCommand(command, ...args);
+      });
+    this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
+    this.logger = input.logger;
+    this.showWarningMessage =
+      input.showWarningMessage ??
+      ((message, options, ...items) => window.showWarningMessage(message, options, ...items));
+    this.uriFile = input.uriFile ?? ((path) => Uri.file(path) as unknown as TUri);
+  }
+
+  public async listWorktrees(repositoryRoot: string): Promise<readonly WorktreeViewModel[]> {
+    return parseWorktreeList(await this.gitRaw(repositoryRoot, ["worktree", "list", "--porcelain"]), repositoryRoot);
+  }
+
+  public async addWorktree(
+    repositoryRoot: string,
+    path: string,
+    ref: string,
+    newBranch?: string
+  ): Promise<WorktreeActionResult> {
+    const trimmedPath = path.trim();
+    const trimmedRef = ref.trim();
+    const trimmedBranch = newBranch?.trim();
+    if (!trimmedPath) {
+      throw new Error("Worktree path is required");
+    }
+    if (!trimmedRef) {
+      throw new Error("Branch or commit is required");
+    }
+
+    const worktreePath = resolve(repositoryRoot, trimmedPath);
+    await this.runLoggedGit(repositoryRoot, [
+      "worktree",
+      "add",
+      ...(trimmedBranch ? ["-b", trimmedBranch] : []),
+      "--",
+      worktreePath,
+      trimmedRef
+    ]);
+
+    return {
+      result: {
+        message: `Created worktree ${worktreePath} at ${trimmedBranch ?? trimmedRef}`,
+        status: "ok"
+      },
+      worktrees: await this.listWorktrees(repositoryRoot)
+    };
+  }
+
+  public async openWorktree(repositoryRoot: string, path: string): Promise<OperationResultViewModel> {
+    const worktree = await this.findWorktree(repositoryRoot, path);
+    if (worktree.prunable) {
+      throw new Error(`Worktree ${worktree.path} no longer exists. Prune it instead.`);
+    }
+
+    await this.executeCommand("vscode.openFolder", this.uriFile(worktree.path), {
+      forceNewWindow: true
+    });
+    return {
+      message: `Opened worktree ${basename(worktree.path)} in a new window`,
+      status: "ok"
+    };
+  }
+
+  public async lockWorktree(repositoryRoot: string, path: string, reason?: string): Promise<WorktreeActionResult> {
+    const worktree = await this.findLinkedWorktree(repositoryRoot, path);
+    const trimmedReason = reason?.trim();
+    await this.runLoggedGit(repositoryRoot, [
+      "worktree",
+      "lock",
+      ...(trimmedReason ? ["--reason", trimmedReason] : []),
+      "--",
+      worktree.path
+    ]);
+
+    return {
+      result: {
+        message: `Locked worktree ${worktree.path}`,
+        status: "ok"
+      },
+      worktrees: await this.listWorktrees(repositoryRoot)
+    };
+  }
+
+  public async unlockWorktree(repositoryRoot: string, path: string): Promise<WorktreeActionResult> {
+    const worktree = await this.findLinkedWorktree(repositoryRoot, path);
+    await this.runLoggedGit(repositoryRoot, ["worktree", "unlock", "--", worktree.path]);
+
+    return {
+      result: {
+        message: `Unlocked worktree ${worktree.path}`,
+        status: "ok"
+      },
+      worktrees: await this.listWorktrees(repositoryRoot)
+    };
+  }
+
+  public async pruneWorktrees(repositoryRoot: string): Promise<WorktreeActionResult> {
+    const prunableCount = (await this.listWorktrees(repositoryRoot)).filter(
+      (worktree) => worktree.prunable && !worktree.locked
+    ).length;
+    await this.runLoggedGit(repositoryRoot, ["worktree", "prune"]);
+
+    return {
+      result: {
+        message:
+          prunableCount === 0
+            ? "No stale worktrees to prune"
+            : `Pruned ${prunableCount} stale ${prunableCount === 1 ? "worktree" : "worktrees"}`,
+        status: "ok"
+      },
+      worktrees: await this.listWorktrees(repositoryRoot)
+    };
+  }
+
+  public async removeWorktree(repositoryRoot: string, path: string): Promise<WorktreeActionResult> {
+    const worktree = await this.findLinkedWorktree(repositoryRoot, path);
+    if (worktree.current) {
+      throw new Error(`Cannot remove worktree ${worktree.path} while it is the selected repository`);
+    }
+    if (worktree.locked) {
+      throw new Error(`Unlock worktree ${worktree.path} before removing it`);
+    }
+
+    if (worktree.prunable) {
+      throw new Error(`Worktree ${worktree.path} no longer exists. Prune it instead.`);
+    }
+
+    const hasChanges = (await this.gitRaw(worktree.path, ["status", "--porcelain"])).trim() !== "";
+    const confirmLabel = hasChanges ? "Force Remove" : "Remove Worktree";
+    const message = hasChanges
+      ? `Worktree ${worktree.path} has uncommitted changes that will be lost. Remove it anyway?`
+      : `Remove worktree ${worktree.path}?`;
+    const choice = await this.showWarningMessage(message, { modal: true }, confirmLabel);
+    if (choice !== confirmLabel) {
+      return {
+        result: {
+          message: `Remove worktree ${worktree.path} cancelled`,
+          status: "cancelled"
+        },
+        worktrees: await this.listWorktrees(repositoryRoot)
+      };
+    }
+
+    await this.runLoggedGit(repositoryRoot, ["worktree", "remove", ...(hasChanges ? ["--force"] : []), "--", worktree.path]);
+    return {
+      result: {
+        message: `Removed worktree ${worktree.path}`,
+        status: "ok"
+      },
+      worktrees: await this.listWorktrees(repositoryRoot)
+    };
+  }
+
+  private async findWorktree(repositoryRoot: string, path: string): Promise<WorktreeViewModel> {
+    const targetPath = resolve(repositoryRoot, path);
+    const worktree = (await this.listWorktrees(repositoryRoot)).find((candidate) => resolve(candidate.path) === targetPath);
+    if (!worktree) {
+      throw new Error(`Worktree not found: ${path}`);
+    }
+
+    return worktree;
+  }
+
+  private async findLinkedWorktree(repositoryRoot: string, path: string): Promise<WorktreeViewModel> {
+    const worktree = await this.findWorktree(repositoryRoot, path);
+    if (worktree.main) {
+      throw new Error(`${worktree.path} is the main worktree`);
+    }
+
+    return worktree;
+  }
+
+  private async runLoggedGit(repositoryRoot: string, args: readonly string[]): Promise<string> {
+    this.logger?.info("git.command", {
+      command: `git -C ${repositoryRoot} ${args.join(" ")}`
+    });
+    return this.gitRaw(repositoryRoot, args);
+  }
+}
@@ -1,18 +1,24 @@
+import type { BisectService } from "../git/BisectService";
 import type { BranchService } from "../git/BranchService";
 import type { CommitService } from "../git/CommitService";
 import type { CommitMessageAiService } from "../git/CommitMessageAiService";
+import type { ConflictService } from "../git/ConflictService";
 import type { FileService } from "../git/FileService";
 import type { GitService } from "../git/GitService";
 import type { GraphService } from "../git/GraphService";
+import type { HostingService } from "../git/HostingService";
+import type { JournaledOperation, OperationJournalService } from "../git/OperationJournalService";
 import type { LanguageService } from "../i18n/LanguageService";
 import type { ProxyService } from "../git/ProxyService";
 import type { RemoteService } from "../git/RemoteService";
 import type { RepositoryService } from "../git/RepositoryService";
+import type { SubmoduleService } from "../git/SubmoduleService";
 import type { WorkingTreeService } from "../git/WorkingTreeService";
+import type { WorktreeService } from "../git/WorktreeService";
 import type { DiffService } from "../vscode/DiffService";
 import type { FileHistoryPanel } from "../vscode/FileHistoryPanel";
 import type { SettingsService } from "../../state/SettingsService";
-import type { BranchesViewModel, RepositoryViewModel } from "./contract";
+import type { BranchesViewModel, OperationResultViewModel, RepositoryViewModel } from "./contract";
 import type { RpcHandlerMap } from "./router";
 
 const emptyBranches: BranchesViewModel = {
@@ -21,10 +27,12 @@ const emptyBranches: BranchesViewModel = {
 };
 
 export interface GitHistoryRpcHandlerInput {
-  branchService: Pick<BranchService, "listBranches">;
+  bisectService: Pick<BisectService, "getState" | "mark" | "reset" | "run" | "start">;
+  branchService: Pick<BranchService, "deleteBranch" | "listBranches" | "renameBranch" | "setUpstream">;
   commitService: Pick<CommitService, "getCurrentUser" | "loadHistory">;
+  conflictService: Pick<ConflictService, "acceptOurs" | "acceptTheirs" | "listConflicts" | "markResolved">;
   fileService: Pick<FileService, "getCommitDetails" | "getFileChanges">;
-  fileHistoryPanel: Pick<FileHistoryPanel, "openHistory" | "openWorkingFile">;
+  fileHistoryPanel: Pick<FileHistoryPanel, "getHistory" | "openWorkingFile">;
   gitService: Pick<
     GitService,
     | "abortOperation"
@@ -32,47 +40,83 @@ export interface GitHistoryRpcHandlerInput {
     | "advancedPush"
     | "cherryPick"
     | "checkout"
+    | "checkoutPullRequest"
+    | "checkoutReflogEntry"
     | "clone"
     | "compareCommits"
     | "continueOperation"
     | "copyHash"
     | "createBranchFromCommit"
+    | "createTag"
+    | "deleteTag"
     | "editCommitMessage"
     | "fetch"
     | "init"
+    | "interactiveRebase"
     | "getOperationState"
+    | "loadInteractiveRebase"
+    | "loadReflog"
+    | "merge"
+    | "pickReflogResetMode"
+    | "previewInteractiveRebase"
     | "pull"
     | "push"
     | "pushAllCommitsToHere"
+    | "pushTags"
     | "reset"
+    | "resetToReflogEntry"
     | "revert"
     | "squashCommits"
   >;
-  graphService: Pick<GraphService, "getLayout">;
+  graphService: Pick<GraphService, "exportGraph" | "getLayoutPage">;
+  hostingService: Pick<
+    HostingService,
+    "configureToken" | "copyCommitPermalink" | "getPullRequestCheckout" | "listPullRequests" | "openCommit"
+  >;
   languageService: Pick<LanguageService, "changeLanguagePreference" | "getBundle">;
+  operationJournalService: Pick<OperationJournalService, "capture" | "record" | "undo">;
   proxyService: Pick<ProxyService, "configureProxy" | "refreshProxy">;
   remoteService: Pick<RemoteService, "addRemote" | "deleteRemote" | "listRemotes" | "updateRemote">;
-  diffService: Pick<DiffService, "openCommitFileDiff" | "openCompareFileDiff" | "openStashFileDiff" | "openWorkingTreeFileDiff">;
+  diffService: Pick<
+    DiffService,
+    "openCommitFileDiff" | "openCompareFileDiff" | "openMergeEditor" | "openStashFileDiff" | "openWorkingTreeFileDiff"
+  >;
   repositoryService: Pick<
     RepositoryService,
     "discoverRepositories" | "getCurrentRepository" | "switchToActiveEditorRepository"
   >;
-  commitMessageAiService: Pick<CommitMessageAiService, "generate" | "testProvider">;
-  settingsService: Pick<SettingsService, "configureAiProvider" | "getSettings" | "resetAutoStashPreference" | "updateSettings">;
+  commitMessageAiService: Pick<
+    CommitMessageAiService,
+    "cancel" | "cancelSummary" | "generate" | "openSummary" | "summarizeCommit" | "summarizeRange" | "testProvider"
+  >;
+  settingsService: Pick<
+    SettingsService,
+    "configureAiProvider" | "getCommitTemplates" | "getSettings" | "resetAutoStashPreference" | "updateSettings"
+  >;
+  submoduleService: Pick<SubmoduleService, "initSubmodules" | "listSubmodules" | "updateSubmodules">;
   workingTreeService: Pick<
     WorkingTreeService,
     | "applyStash"
     | "commit"
     | "createStash"
     | "discardFile"
+    | "discardHunk"
     | "dropStash"
+    | "getFileDiff"
     | "getStashDetails"
     | "load"
+    | "loadCommitComposer"
     | "popStash"
     | "stageAll"
     | "stageFile"
+    | "stageHunk"
     | "unstageAll"
     | "unstageFile"
+    | "unstageHunk"
+  >;
+  worktreeService: Pick<
+    WorktreeService,
+    "addWorktree" | "listWorktrees" | "lockWorktree" | "openWorktree" | "pruneWorktrees" | "removeWorktree" | "unlockWorktree"
   >;
 }
 
@@ -85,6 +129,24 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
         branches: await input.branchService.listBranches(repository.rootPath)
       };
     },
+    "branches.rename": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.branchService.renameBranch(repository.rootPath, request.name, request.newName);
+    },
+    "branches.delete": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.branchService.deleteBranch(repository.rootPath, request.name, {
+        force: request.force,
+        remote: request.remote
+      });
+    },
+    "branches.setUpstream": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.branchService.setUpstream(repository.rootPath, request.name, request.upstream);
+    },
     "commits.getDetails": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
@@ -92,6 +154,33 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
         commit: await input.fileService.getCommitDetails(repository.rootPath, request.hash)
       };
     },
+    "conflicts.list": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return {
+        files: await input.conflictService.listConflicts(repository.rootPath)
+      };
+    },
+    "conflicts.acceptOurs": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.conflictService.acceptOurs(repository.rootPath, request.filePath);
+    },
+    "conflicts.acceptTheirs": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.conflictService.acceptTheirs(repository.rootPath, request.filePath);
+    },
+    "conflicts.markResolved": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.conflictService.markResolved(repository.rootPath, request.filePath);
+    },
+    "conflicts.openMergeEditor": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.diffService.openMergeEditor(repository.rootPath, request.filePath);
+    },
     "files.getChanges": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
@@ -102,17 +191,22 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
 
       return input.fileHistoryPanel.openWorkingFile(repository.rootPath, request.filePath, request.hash);
     },
-    "files.openHistory": async (request) => {
+    "files.getHistory": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.fileHistoryPanel.openHistory(repository.rootPath, request.filePath);
+      return {
+        history: await input.fileHistoryPanel.getHistory(repository.rootPath, request.filePath, request.lineRange)
+      };
     },
     "graph.getLayout": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return {
-        graph: await input.graphService.getLayout(repository.rootPath, request.hashes)
-      };
+      return input.graphService.getLayoutPage(repository.rootPath, request.hashes, request.knownLayout);
+    },
+    "graph.export": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.graphService.exportGraph(repository.rootPath, request.hashes, request.format);
     },
     "diff.openCommitFile": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
@@ -122,7 +216,43 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
     "diff.openCompareFile": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.diffService.openCompareFileDiff(repository.rootPath, request.fromHash, request.toHash, request.filePath);
+      return input.diffService.openCompareFileDiff(
+        repository.rootPath,
+        request.fromHash,
+        request.toHash,
+        request.filePath,
+        request.fromFilePath
+      );
+    },
+    "hosting.openCommit": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.hostingService.openCommit(repository.rootPath, request.hash);
+    },
+    "hosting.copyPermalink": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.hostingService.copyCommitPermalink(repository.rootPath, request.hash);
+    },
+    "pullRequests.list": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return {
+        pullRequests: await input.hostingService.listPullRequests(repository.rootPath)
+      };
+    },
+    "pullRequests.checkout": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.checkoutPullRequest(
+        repository.rootPath,
+        await input.hostingService.getPullRequestCheckout(repository.rootPath, request.number)
+      );
+    },
+    "pullRequests.configureToken": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.hostingService.configureToken(repository.rootPath);
     },
     "remotes.list": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
@@ -146,6 +276,114 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
 
       return input.remoteService.deleteRemote(repository.rootPath, request.name);
     },
+    "worktrees.list": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return {
+        worktrees: await input.worktreeService.listWorktrees(repository.rootPath)
+      };
+    },
+    "worktrees.add": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.worktreeService.addWorktree(repository.rootPath, request.path, request.ref, request.newBranch);
+    },
+    "worktrees.open": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.worktreeService.openWorktree(repository.rootPath, request.path);
+    },
+    "worktrees.lock": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.worktreeService.lockWorktree(repository.rootPath, request.path, request.reason);
+    },
+    "worktrees.unlock": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.worktreeService.unlockWorktree(repository.rootPath, request.path);
+    },
+    "worktrees.prune": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.worktreeService.pruneWorktrees(repository.rootPath);
+    },
+    "worktrees.remove": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.worktreeService.removeWorktree(repository.rootPath, request.path);
+    },
+    "reflog.list": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.loadReflog(repository.rootPath, request.ref);
+    },
+    "reflog.checkout": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.checkoutReflogEntry(repository.rootPath, request.hash, request.selector);
+    },
+    "reflog.reset": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+      const mode = await input.gitService.pickReflogResetMode(request.selector);
+      if (!mode) {
+        return { message: "Reset cancelled", status: "cancelled" };
+      }
+
+      return runJournaled(
+        input.operationJournalService,
+        repository.rootPath,
+        { hash: request.hash, kind: "reset", mode },
+        () => input.gitService.resetToReflogEntry(repository.rootPath, request.hash, request.selector, mode)
+      );
+    },
+    "bisect.state": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.bisectService.getState(repository.rootPath);
+    },
+    "bisect.start": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.bisectService.start(repository.rootPath, request.good, request.bad);
+    },
+    "bisect.mark": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.bisectService.mark(repository.rootPath, request.verdict);
+    },
+    "bisect.run": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.bisectService.run(repository.rootPath);
+    },
+    "bisect.reset": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.bisectService.reset(repository.rootPath);
+    },
+    "operations.undo": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.operationJournalService.undo(repository.rootPath, request.undoId);
+    },
+    "submodules.list": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return {
+        submodules: await input.submoduleService.listSubmodules(repository.rootPath)
+      };
+    },
+    "submodules.init": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.submoduleService.initSubmodules(repository.rootPath, request.path);
+    },
+    "submodules.update": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.submoduleService.updateSubmodules(repository.rootPath, request.path);
+    },
     "settings.get": () => ({
       i18n: input.languageService.getBundle(),
       settings: input.settingsService.getSettings()
@@ -237,10 +475,20 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
 
       return input.gitService.revert(repository.rootPath, request.hash);
     },
+    "git.merge": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.merge(repository.rootPath, request.source, request.mode, request.message);
+    },
     "git.reset": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.gitService.reset(repository.rootPath, request.hash, request.mode);
+      return runJournaled(
+        input.operationJournalService,
+        repository.rootPath,
+        { hash: request.hash, kind: "reset", mode: request.mode },
+        () => input.gitService.reset(repository.rootPath, request.hash, request.mode)
+      );
     },
     "git.compareCommits": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
@@ -250,13 +498,33 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
     "git.squashCommits": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.gitService.squashCommits(repository.rootPath, request.hashes);
+      return runJournaled(
+        input.operationJournalService,
+        repository.rootPath,
+        { hashes: request.hashes, kind: "squashCommits" },
+        () => input.gitService.squashCommits(repository.rootPath, request.hashes, request.sign)
+      );
     },
     "git.createBranchFromCommit": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
       return input.gitService.createBranchFromCommit(repository.rootPath, request.hash);
     },
+    "git.createTag": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.createTag(repository.rootPath, request.hash);
+    },
+    "git.deleteTag": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.deleteTag(repository.rootPath, request.hash);
+    },
+    "git.pushTags": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.pushTags(repository.rootPath, request.hash);
+    },
     "git.pushAllCommitsToHere": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
@@ -265,13 +533,51 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
     "git.editCommitMessage": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.gitService.editCommitMessage(repository.rootPath, request.hash);
+      return runJournaled(
+        input.operationJournalService,
+        repository.rootPath,
+        { hash: request.hash, kind: "editCommitMessage" },
+        () => input.gitService.editCommitMessage(repository.rootPath, request.hash, request.sign)
+      );
+    },
+    "git.loadInteractiveRebase": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.loadInteractiveRebase(repository.rootPath, request.hashes);
+    },
+    "git.previewInteractiveRebase": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.previewInteractiveRebase(repository.rootPath, request.plan);
+    },
+    "git.interactiveRebase": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.gitService.interactiveRebase(repository.rootPath, request.plan);
     },
     "commitMessage.generate": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.commitMessageAiService.generate(repository.rootPath);
+      return input.commitMessageAiService.generate(repository.rootPath, {
+        candidates: request.candidates,
+        requestId: request.id
+      });
     },
+    "commitMessage.cancel": (request) => input.commitMessageAiService.cancel(request.generateRequestId),
+    "aiSummary.commit": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.commitMessageAiService.summarizeCommit(repository.rootPath, request.hash, { requestId: request.id });
+    },
+    "aiSummary.range": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.commitMessageAiService.summarizeRange(repository.rootPath, request.fromHash, request.toHash, request.kind, {
+        requestId: request.id
+      });
+    },
+    "aiSummary.open": (request) => input.commitMessageAiService.openSummary(request.markdown),
+    "aiSummary.cancel": (request) => input.commitMessageAiService.cancelSummary(request.summaryRequestId),
     "workingTree.load": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
@@ -302,12 +608,55 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
     "workingTree.discardFile": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.workingTreeService.discardFile(repository.id, repository.rootPath, request.filePath);
+      return runJournaled(
+        input.operationJournalService,
+        repository.rootPath,
+        { filePath: request.filePath, kind: "discardFile" },
+        () => input.workingTreeService.discardFile(repository.id, repository.rootPath, request.filePath)
+      );
+    },
+    "workingTree.getFileDiff": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return {
+        diff: await input.workingTreeService.getFileDiff(repository.rootPath, request.filePath, request.kind)
+      };
+    },
+    "workingTree.stageHunk": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.workingTreeService.stageHunk(repository.id, repository.rootPath, request.selection);
+    },
+    "workingTree.unstageHunk": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.workingTreeService.unstageHunk(repository.id, repository.rootPath, request.selection);
+    },
+    "workingTree.discardHunk": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return input.workingTreeService.discardHunk(repository.id, repository.rootPath, request.selection);
     },
     "workingTree.commit": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.workingTreeService.commit(repository.id, repository.rootPath, request.message);
+      const commit = () =>
+        input.workingTreeService.commit(repository.id, repository.rootPath, request.message, request.sign, request.amend);
+
+      return request.amend
+        ? runJournaled(input.operationJournalService, repository.rootPath, { kind: "amendCommit" }, commit)
+        : commit();
+    },
+    "workingTree.loadCommitComposer": async (request) => {
+      const repository = await findRepository(input.repositoryService, request.repositoryId);
+
+      return {
+        composer: await input.workingTreeService.loadCommitComposer(
+          repository.id,
+          repository.rootPath,
+          input.settingsService.getCommitTemplates()
+        )
+      };
     },
     "workingTree.openFile": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
@@ -357,7 +706,12 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
     "stash.drop": async (request) => {
       const repository = await findRepository(input.repositoryService, request.repositoryId);
 
-      return input.workingTreeService.dropStash(repository.id, repository.rootPath, request.stashRef);
+      return runJournaled(
+        input.operationJournalService,
+        repository.rootPath,
+        { kind: "dropStash", stashRef: request.stashRef },
+        () => input.workingTreeService.dropStash(repository.id, repository.rootPath, request.stashRef)
+      );
     },
     "history.load": async (request) => {
       const repositories = await input.repositoryService.discoverRepositories();
@@ -388,10 +742,17 @@ export function createGitHistoryRpcHandlers(input: GitHistoryRpcHandlerInput): R
           author: request.author,
           branch: selectedBranch,
           branches: selectedBranches && selectedBranches.length > 0 ? selectedBranches : undefined,
+          committer: request.committer,
           cursor: request.cursor,
+          merges: request.merges,
           pageSize: request.pageSize,
+          paths: request.paths,
+          pickaxe: request.pickaxe,
+          regex: request.regex,
           repositoryRoot: repository.rootPath,
-          search: request.search
+          search: request.search,
+          since: request.since,
+          until: request.until
         })
       ]);
 
@@ -420,6 +781,29 @@ async function findRepository(
   return repository;
 }
 
+async function runJournaled<T extends OperationResultViewModel | { result: OperationResultViewModel }>(
+  operationJournalService: GitHistoryRpcHandlerInput["operationJournalService"],
+  repositoryRoot: string,
+  operation: JournaledOperation,
+  run: () => Promise<T>
+): Promise<T> {
+  // A snapshot that cannot be taken (for example an unborn HEAD) only loses the undo, not the operation.
+  const entry = await operationJournalService.capture(repositoryRoot, operation).catch(() => undefined);
+  const payload = await run();
+  const result = operationResultOf(payload);
+  if (!entry || result.status !== "ok") {
+    return payload;
+  }
+
+  const undoId = await operationJournalService.record(entry);
+
+  return "result" in payload ? { ...payload, result: { ...result, undoId } } : { ...payload, undoId };
+}
+
+function operationResultOf(payload: OperationResultViewModel | { result: OperationResultViewModel }): OperationResultViewModel {
+  return "result" in payload ? payload.result : payload;
+}
+
 function selectRepository(
   repositoryService: GitHistoryRpcHandlerInput["repositoryService"],
   repositories: readonly RepositoryViewModel[],
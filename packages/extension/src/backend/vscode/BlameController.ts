@@ -1,5 +1,6 @@
 import { createHash } from "crypto";
-import { relative } from "path";
+import { existsSync } from "fs";
+import { relative, resolve } from "path";
 import type { RepositoryService } from "../git/RepositoryService";
 import type { SettingsService } from "../../state/SettingsService";
 
@@ -11,14 +12,25 @@ interface DecorationTypeLike {
   dispose?: () => void;
 }
 
-interface TextEditorLike {
-  document: {
-    lineAt(line: number): { range: { end: { character: number } } };
-    uri: {
-      fsPath: string;
-      scheme: string;
-    };
+interface TextDocumentLike {
+  lineAt(line: number): { range: { end: { character: number } } };
+  uri: {
+    fsPath: string;
+    scheme: string;
+  };
+  version: number;
+}
+
+interface TextDocumentContentChangeLike {
+  range: {
+    end: { character: number; line: number };
+    start: { character: number; line: number };
   };
+  text: string;
+}
+
+interface TextEditorLike {
+  document: TextDocumentLike;
   selection: {
     active: {
       line: number;
@@ -27,7 +39,7 @@ interface TextEditorLike {
   setDecorations(decorationType: unknown, decorations: readonly BlameDecoration[]): void;
 }
 
-interface BlameDecoration {
+interface InlineBlameDecoration {
   hoverMessage: unknown;
   range: unknown;
   renderOptions: {
@@ -39,28 +51,68 @@ interface BlameDecoration {
   };
 }
 
+interface GutterBlameDecoration {
+  hoverMessage?: unknown;
+  range: unknown;
+  renderOptions: {
+    before: {
+      backgroundColor: string;
+      contentText: string;
+    };
+  };
+}
+
+type BlameDecoration = GutterBlameDecoration | InlineBlameDecoration;
+
 interface BlameLine {
   author: string;
   date: string;
   email: string;
   hash: string;
   line: number;
+  originalLine: number;
+  previous?: {
+    hash: string;
+    path: string;
+  };
   summary: string;
+  timestamp: number;
+}
+
+interface DocumentBlame {
+  lines: readonly BlameLine[];
+  rootPath: string;
+  version: number;
+}
+
+export interface BlameRevisionTarget {
+  line: number;
+  path: string;
+  revision: string;
+  rootPath: string;
 }
 
 export interface BlameControllerInput {
   activeEditor: () => TextEditorLike | undefined;
   createDecorationType: () => unknown;
+  createGutterDecorationType: () => unknown;
   createMarkdownString: (value: string) => MarkdownStringLike;
   createRange: (startLine: number, startCharacter: number, endLine: number, endCharacter: number) => unknown;
+  executeCommand: (command: string, ...args: readonly unknown[]) => PromiseLike<unknown>;
+  fileExists?: (path: string) => boolean;
   gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   now?: () => Date;
   onDidChangeActiveTextEditor?: (listener: (editor: TextEditorLike | undefined) => void) => DisposableLike;
   onDidChangeConfiguration?: (listener: (event: { affectsConfiguration(section: string): boolean }) => void) => DisposableLike;
-  onDidChangeTextDocument?: (listener: (event: { document: TextEditorLike["document"] }) => void) => DisposableLike;
+  onDidChangeTextDocument?: (
+    listener: (event: { contentChanges: readonly TextDocumentContentChangeLike[]; document: TextDocumentLike }) => void
+  ) => DisposableLike;
   onDidChangeTextEditorSelection?: (listener: (event: { textEditor: TextEditorLike }) => void) => DisposableLike;
+  onDidCloseTextDocument?: (listener: (document: TextDocumentLike) => void) => DisposableLike;
+  onDidSaveTextDocument?: (listener: (document: TextDocumentLike) => void) => DisposableLike;
   repositoryService: Pick<RepositoryService, "discoverRepositories">;
-  settingsService: Pick<SettingsService, "getSettings">;
+  settingsService: Pick<SettingsService, "getBlameOptions" | "getSettings">;
+  showInformationMessage: (message: string, ...actions: string[]) => PromiseLike<string | undefined>;
   updateBlameEnabled: (enabled: boolean) => Promise<void>;
 }
 
@@ -68,27 +120,44 @@ interface MarkdownStringLike {
   isTrusted?: boolean | { readonly enabledCommands: readonly string[] };
 }
 
+const defaultIgnoreRevsFile = ".git-blame-ignore-revs";
+const openCommitAction = "Open Commit";
+const blamePreviousRevisionAction = "Blame Previous Revision";
+const uncommittedHash = "0".repeat(40);
+const newestHeatColor = [240, 128, 48] as const;
+const oldestHeatColor = [64, 128, 224] as const;
+
 export class BlameController {
   private readonly activeEditor: () => TextEditorLike | undefined;
+  private readonly blameCache = new Map<string, DocumentBlame>();
   private readonly createMarkdownString: BlameControllerInput["createMarkdownString"];
   private readonly createRange: BlameControllerInput["createRange"];
   private readonly decorationType: unknown;
   private readonly disposables: DisposableLike[];
+  private readonly executeCommand: BlameControllerInput["executeCommand"];
+  private readonly fileExists: (path: string) => boolean;
   private readonly gitRaw: BlameControllerInput["gitRaw"];
+  private readonly gutterDecorationType: unknown;
   private readonly now: () => Date;
   private readonly repositoryService: Pick<RepositoryService, "discoverRepositories">;
-  private readonly settingsService: Pick<SettingsService, "getSettings">;
+  private readonly settingsService: Pick<SettingsService, "getBlameOptions" | "getSettings">;
+  private readonly showInformationMessage: BlameControllerInput["showInformationMessage"];
   private readonly updateBlameEnabled: (enabled: boolean) => Promise<void>;
+  private readonly renderedGutters = new WeakMap<TextEditorLike, DocumentBlame>();
 
   public constructor(input: BlameControllerInput) {
     this.activeEditor = input.activeEditor;
     this.createMarkdownString = input.createMarkdownString;
     this.createRange = input.createRange;
     this.decorationType = input.createDecorationType();
+    this.executeCommand = input.executeCommand;
+    this.fileExists = input.fileExists ?? existsSync;
     this.gitRaw = input.gitRaw;
+    this.gutterDecorationType = input.createGutterDecorationType();
     this.now = input.now ?? (() => new Date());
     this.repositoryService = input.repositoryService;
     this.settingsService = input.settingsService;
+    this.showInformationMessage = input.showInformationMessage;
     this.updateBlameEnabled = input.updateBlameEnabled;
     this.disposables = [
       input.onDidChangeTextEditorSelection?.((event) => void this.refreshEditor(event.textEditor)),
@@ -100,13 +169,25 @@ export class BlameController {
         }
       }),
       input.onDidChangeTextDocument?.((event) => {
+        this.applyDocumentChanges(event.document, event.contentChanges);
         const editor = this.activeEditor();
         if (editor?.document === event.document) {
           void this.refreshEditor(editor);
         }
       }),
+      input.onDidCloseTextDocument?.((document) => {
+        this.blameCache.delete(document.uri.fsPath);
+      }),
+      input.onDidSaveTextDocument?.((document) => {
+        this.blameCache.delete(document.uri.fsPath);
+        const editor = this.activeEditor();
+        if (editor?.document === document) {
+          void this.refreshEditor(editor);
+        }
+      }),
       input.onDidChangeConfiguration?.((event) => {
         if (event.affectsConfiguration("guigit.blame")) {
+          this.blameCache.clear();
           void this.refreshEditor(this.activeEditor());
         }
       })
@@ -129,31 +210,145 @@ export class BlameController {
       return;
     }
 
-    const repository = await this.findRepository(editor.document.uri.fsPath);
-    const relativePath = relative(repository.rootPath, editor.document.uri.fsPath);
-    const blameOutput = await this.gitRaw(repository.rootPath, ["blame", "--line-porcelain", "--", relativePath]);
-    const lines = parseBlameOutput(blameOutput);
-    const targetLines = lines.filter((line) => line.line === editor.selection.active.line + 1);
+    const blame = await this.getDocumentBlame(editor.document);
+    if (this.settingsService.getBlameOptions().displayMode === "gutter") {
+      this.renderGutter(editor, blame);
+      return;
+    }
 
+    this.clearGutter(editor);
+    const targetLines = blame.lines.filter((line) => line.line === editor.selection.active.line + 1);
     editor.setDecorations(
       this.decorationType,
-      targetLines.filter((line) => !line.hash.startsWith("0000000")).map((line) => this.createDecoration(editor, line))
+      targetLines.filter(isCommitted).map((line) => this.createDecoration(editor, blame.rootPath, line))
     );
   }
 
+  public invalidateBlame(): void {
+    this.blameCache.clear();
+    void this.refreshEditor();
+  }
+
+  public async blamePreviousRevision(target: BlameRevisionTarget): Promise<void> {
+    const blameArgs = await this.createBlameArgs(target.rootPath);
+    const blameOutput = await this.gitRaw(target.rootPath, [
+      ...blameArgs,
+      "-L",
+      `${target.line},${target.line}`,
+      target.revision,
+      "--",
+      target.path
+    ]);
+    const [line] = parseBlameOutput(blameOutput);
+    if (!line) {
+      return;
+    }
+
+    const previousTarget = createPreviousRevisionTarget(target.rootPath, line);
+    const action = await this.showInformationMessage(
+      `${line.hash.slice(0, 7)} ${line.author}, ${line.date}: ${line.summary}`,
+      ...(previousTarget ? [openCommitAction, blamePreviousRevisionAction] : [openCommitAction])
+    );
+    if (action === openCommitAction) {
+      await this.executeCommand("guigit.showCommitDetails", line.hash);
+    } else if (action === blamePreviousRevisionAction && previousTarget) {
+      await this.blamePreviousRevision(previousTarget);
+    }
+  }
+
   public dispose(): void {
     this.clearDecorations();
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
     (this.decorationType as DecorationTypeLike).dispose?.();
+    (this.gutterDecorationType as DecorationTypeLike).dispose?.();
   }
 
-  private createDecoration(editor: TextEditorLike, line: BlameLine): BlameDecoration {
+  private async getDocumentBlame(document: TextDocumentLike): Promise<DocumentBlame> {
+    const cached = this.blameCache.get(document.uri.fsPath);
+    if (cached?.version === document.version) {
+      return cached;
+    }
+
+    const version = document.version;
+    const repository = await this.findRepository(document.uri.fsPath);
+    const relativePath = relative(repository.rootPath, document.uri.fsPath);
+    const blameArgs = await this.createBlameArgs(repository.rootPath);
+    const blameOutput = await this.gitRaw(repository.rootPath, [...blameArgs, "--", relativePath]);
+    const blame = {
+      lines: parseBlameOutput(blameOutput),
+      rootPath: repository.rootPath,
+      version
+    };
+    this.blameCache.set(document.uri.fsPath, blame);
+    return blame;
+  }
+
+  // Shift cached blame through edits instead of re-running git blame on every keystroke.
+  private applyDocumentChanges(document: TextDocumentLike, changes: readonly TextDocumentContentChangeLike[]): void {
+    const cached = this.blameCache.get(document.uri.fsPath);
+    if (!cached || changes.length === 0) {
+      return;
+    }
+
+    if (cached.version !== document.version - 1) {
+      this.blameCache.delete(document.uri.fsPath);
+      return;
+    }
+
+    this.blameCache.set(document.uri.fsPath, {
+      ...cached,
+      lines: shiftBlameLines(cached.lines, changes),
+      version: document.version
+    });
+  }
+
+  private renderGutter(editor: TextEditorLike, blame: DocumentBlame): void {
+    if (this.renderedGutters.get(editor) === blame) {
+      return;
+    }
+
+    editor.setDecorations(this.decorationType, []);
+    editor.setDecorations(this.gutterDecorationType, this.createGutterDecorations(blame));
+    this.renderedGutters.set(editor, blame);
+  }
+
+  private createGutterDecorations(blame: DocumentBlame): GutterBlameDecoration[] {
+    const heatColor = createHeatScale(blame.lines);
+    const decorations: GutterBlameDecoration[] = [];
+    let blockHash: string | undefined;
+    let blockHover: unknown;
+
+    for (const line of blame.lines) {
+      const startsBlock = line.hash !== blockHash;
+      const committed = isCommitted(line);
+      if (startsBlock) {
+        blockHash = line.hash;
+        blockHover = committed ? createHover(blame.rootPath, line, this.createMarkdownString) : undefined;
+      }
+
+      const lineIndex = line.line - 1;
+      decorations.push({
+        hoverMessage: blockHover,
+        range: this.createRange(lineIndex, 0, lineIndex, 0),
+        renderOptions: {
+          before: {
+            backgroundColor: committed ? heatColor(line.timestamp) : "transparent",
+            contentText: startsBlock && committed ? createGutterBlameText(line) : "\u00a0"
+          }
+        }
+      });
+    }
+
+    return decorations;
+  }
+
+  private createDecoration(editor: TextEditorLike, rootPath: string, line: BlameLine): InlineBlameDecoration {
     const lineIndex = line.line - 1;
     const endCharacter = editor.document.lineAt(lineIndex).range.end.character;
     return {
-      hoverMessage: createHover(line, this.createMarkdownString),
+      hoverMessage: createHover(rootPath, line, this.createMarkdownString),
       range: this.createRange(lineIndex, endCharacter, lineIndex, endCharacter),
       renderOptions: {
         after: {
@@ -165,8 +360,40 @@ export class BlameController {
     };
   }
 
+  private async createBlameArgs(rootPath: string): Promise<string[]> {
+    const options = this.settingsService.getBlameOptions();
+    return [
+      "blame",
+      "--line-porcelain",
+      ...(options.ignoreWhitespace ? ["-w"] : []),
+      ...(options.detectMovedLines ? ["-M"] : []),
+      ...(options.detectCopiedLines ? ["-C"] : []),
+      ...(await this.resolveIgnoreRevsArgs(rootPath))
+    ];
+  }
+
+  private async resolveIgnoreRevsArgs(rootPath: string): Promise<string[]> {
+    const configured = (await this.gitRaw(rootPath, ["config", "--path", "--get", "blame.ignoreRevsFile"]).catch(() => "")).trim();
+    const ignoreRevsFile = resolve(rootPath, configured || defaultIgnoreRevsFile);
+    if (this.fileExists(ignoreRevsFile)) {
+      return ["--ignore-revs-file", ignoreRevsFile];
+    }
+
+    // git blame aborts when the configured file is missing; an empty file name clears the configured list.
+    return configured ? ["--ignore-revs-file", ""] : [];
+  }
+
   private clearDecorations(editor = this.activeEditor()): void {
     editor?.setDecorations(this.decorationType, []);
+    if (editor) {
+      this.clearGutter(editor);
+    }
+  }
+
+  private clearGutter(editor: TextEditorLike): void {
+    if (this.renderedGutters.delete(editor)) {
+      editor.setDecorations(this.gutterDecorationType, []);
+    }
   }
 
   private async findRepository(filePath: string): Promise<{ rootPath: string }> {
@@ -180,20 +407,27 @@ function parseBlameOutput(output: string): readonly BlameLine[] {
   let current: Partial<BlameLine> = {};
 
   for (const line of output.split("\n")) {
-    if (/^[a-f0-9]{7,40}/.test(line)) {
-      const [hash, , finalLine] = line.split(" ");
+    if (/^[a-f0-9]{7,40} /.test(line)) {
+      const [hash, originalLine, finalLine] = line.split(" ");
       current = {
         hash: hash!,
-        line: Number.parseInt(finalLine!, 10)
+        line: Number.parseInt(finalLine!, 10),
+        originalLine: Number.parseInt(originalLine!, 10)
       };
     } else if (line.startsWith("author ")) {
       current.author = line.slice("author ".length);
     } else if (line.startsWith("author-mail ")) {
       current.email = line.slice("author-mail ".length).replace(/[<>]/g, "");
     } else if (line.startsWith("author-time ")) {
-      current.date = line.slice("author-time ".length);
+      current.timestamp = Number.parseInt(line.slice("author-time ".length), 10);
     } else if (line.startsWith("author-tz ")) {
-      current.date = formatAuthorDate(Number.parseInt(current.date!, 10), line.slice("author-tz ".length));
+      current.date = formatAuthorDate(current.timestamp!, line.slice("author-tz ".length));
+    } else if (line.startsWith("previous ")) {
+      const [, hash = "", ...path] = line.split(" ");
+      current.previous = {
+        hash,
+        path: path.join(" ")
+      };
     } else if (line.startsWith("summary ")) {
       current.summary = line.slice("summary ".length);
     } else if (line.startsWith("\t")) {
@@ -204,29 +438,105 @@ function parseBlameOutput(output: string): readonly BlameLine[] {
   return lines;
 }
 
+function shiftBlameLines(lines: readonly BlameLine[], changes: readonly TextDocumentContentChangeLike[]): readonly BlameLine[] {
+  // Apply bottom-up so every change range still refers to the lines it was reported against.
+  return [...changes]
+    .sort((left, right) => right.range.start.line - left.range.start.line)
+    .reduce((current, change) => {
+      const startLine = change.range.start.line + 1;
+      const endLine = change.range.end.line + 1;
+      // Whole-line inserts and deletes leave the line at the end of the range untouched.
+      const keepsEndLine = change.range.start.character === 0
+        && change.range.end.character === 0
+        && (change.text ? change.text.endsWith("\n") : endLine > startLine);
+      const lastReplacedLine = keepsEndLine ? endLine - 1 : endLine;
+      const insertedLineCount = change.text.split("\n").length - (keepsEndLine ? 1 : 0);
+      const lineDelta = insertedLineCount - (lastReplacedLine - startLine + 1);
+      return [
+        ...current.filter((line) => line.line < startLine),
+        ...Array.from({ length: insertedLineCount }, (_, index) => createUncommittedLine(startLine + index)),
+        ...current.filter((line) => line.line > lastReplacedLine).map((line) => ({ ...line, line: line.line + lineDelta }))
+      ];
+    }, lines);
+}
+
+function createUncommittedLine(line: number): BlameLine {
+  return {
+    author: "",
+    date: "",
+    email: "",
+    hash: uncommittedHash,
+    line,
+    originalLine: line,
+    summary: "",
+    timestamp: 0
+  };
+}
+
+function isCommitted(line: BlameLine): boolean {
+  return !line.hash.startsWith("0000000");
+}
+
+function createHeatScale(lines: readonly BlameLine[]): (timestamp: number) => string {
+  const timestamps = lines.filter(isCommitted).map((line) => line.timestamp);
+  const newest = timestamps.reduce((value, timestamp) => Math.max(value, timestamp), 0);
+  const oldest = timestamps.reduce((value, timestamp) => Math.min(value, timestamp), newest);
+  return (timestamp) => {
+    const age = newest === oldest ? 0 : (newest - timestamp) / (newest - oldest);
+    const [red, green, blue] = newestHeatColor.map((channel, index) => Math.round(channel + (oldestHeatColor[index]! - channel) * age));
+    return `rgba(${red}, ${green}, ${blue}, 0.35)`;
+  };
+}
+
+function createGutterBlameText(line: BlameLine): string {
+  return `${truncateText(line.author, 16)} ${line.date.slice(0, 10)}`;
+}
+
 function createInlineBlameText(line: BlameLine, now: Date): string {
   return truncateText(`${line.author} ${formatRelativeDate(line.date, now)}: ${line.summary}`, 86);
 }
 
-function createHover(line: BlameLine, createMarkdownString: BlameControllerInput["createMarkdownString"]): MarkdownStringLike {
+function createHover(
+  rootPath: string,
+  line: BlameLine,
+  createMarkdownString: BlameControllerInput["createMarkdownString"]
+): MarkdownStringLike {
   const showCommitUri = createCommandUri("guigit.showCommitDetails", line.hash);
   const copyHashUri = createCommandUri("guigit.copyCommitHash", line.hash);
+  const previousTarget = createPreviousRevisionTarget(rootPath, line);
+  const actions = [
+    `[Open Commit](${showCommitUri})`,
+    `[Copy Hash](${copyHashUri})`,
+    ...(previousTarget ? [`[${blamePreviousRevisionAction}](${createCommandUri("guigit.blamePreviousRevision", previousTarget)})`] : [])
+  ];
   const markdown = createMarkdownString([
     `![Author avatar](${createAvatarUri(line.email)})`,
     `**Author:** ${line.author} <${line.email}>`,
     `**Commit:** ${line.summary}`,
     `**Date:** ${line.date}`,
     `**Hash:** \`${line.hash}\``,
-    `[Open Commit](${showCommitUri}) | [Copy Hash](${copyHashUri})`
+    actions.join(" | ")
   ].join("\n\n"));
   markdown.isTrusted = {
-    enabledCommands: ["guigit.showCommitDetails", "guigit.copyCommitHash"]
+    enabledCommands: ["guigit.showCommitDetails", "guigit.copyCommitHash", "guigit.blamePreviousRevision"]
   };
   return markdown;
 }
 
-function createCommandUri(command: string, hash: string): string {
-  return `command:${command}?${encodeURIComponent(JSON.stringify([hash]))}`;
+// The parent revision's file may differ after renames, so walk back using the path and line git reports for it.
+function createPreviousRevisionTarget(rootPath: string, line: BlameLine): BlameRevisionTarget | undefined {
+  return line.previous
+    ? {
+        line: line.originalLine,
+        path: line.previous.path,
+        revision: line.previous.hash,
+        rootPath
+      }
+    : undefined;
+}
+
+function createCommandUri(command: string, argument: unknown): string {
+  return `command:${command}?${encodeURIComponent(JSON.stringify([argument]))}`;
 }
 
 function createAvatarUri(email: string): string {
@@ -1,4 +1,4 @@
-import { commands, ViewColumn } from "vscode";
+import { commands, Uri, ViewColumn } from "vscode";
 import { readFile as nodeReadFile } from "node:fs/promises";
 import { join } from "node:path";
 import { simpleGit } from "simple-git";
@@ -15,6 +15,7 @@ export interface DiffServiceInput<TUri> {
   gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   logger?: Pick<Logger, "debug">;
   readFile?: (path: string, encoding: BufferEncoding) => Promise<string>;
+  uriFile?: (path: string) => TUri;
   virtualDocuments?: DiffVirtualDocuments<TUri>;
 }
 
@@ -23,6 +24,7 @@ export class DiffService<TUri extends { toString(): string } = { toString(): str
   private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
   private readonly logger: Pick<Logger, "debug"> | undefined;
   private readonly readFile: (path: string, encoding: BufferEncoding) => Promise<string>;
+  private readonly uriFile: (path: string) => TUri;
   private readonly virtualDocuments: DiffVirtualDocuments<TUri>;
 
   public constructor(input: DiffServiceInput<TUri> = {}) {
@@ -34,6 +36,7 @@ export class DiffService<TUri extends { toString(): string } = { toString(): str
     this.gitRaw = input.gitRaw ?? ((repositoryRoot, args) => simpleGit(repositoryRoot).raw([...args]));
     this.logger = input.logger;
     this.readFile = input.readFile ?? nodeReadFile;
+    this.uriFile = input.uriFile ?? ((path) => Uri.file(path) as unknown as TUri);
     this.virtualDocuments = input.virtualDocuments ?? new VirtualDocumentService<TUri>();
   }
 
@@ -80,16 +83,18 @@ export class DiffService<TUri extends { toString(): string } = { toString(): str
     repositoryRoot: string,
     fromHash: string,
     toHash: string,
-    filePath: string
+    filePath: string,
+    fromFilePath = filePath
   ): Promise<OperationResultViewModel> {
     this.logger?.debug("diff.compareFile.open", {
       filePath,
+      fromFilePath,
       fromHash,
       repositoryRoot,
       toHash
     });
     const [fromContent, toContent] = await Promise.all([
-      this.getFileContent(repositoryRoot, fromHash, filePath),
+      this.getFileContent(repositoryRoot, fromHash, fromFilePath),
       this.getFileContent(repositoryRoot, toHash, filePath)
     ]);
     const shortFromHash = fromHash.slice(0, 8);
@@ -198,6 +203,19 @@ export class DiffService<TUri extends { toString(): string } = { toString(): str
     };
   }
 
+  public async openMergeEditor(repositoryRoot: string, filePath: string): Promise<OperationResultViewModel> {
+    this.logger?.debug("diff.mergeEditor.open", {
+      filePath,
+      repositoryRoot
+    });
+    await this.executeCommand("git.openMergeEditor", this.uriFile(join(repositoryRoot, filePath)));
+
+    return {
+      message: `Opened merge editor for ${filePath}`,
+      status: "ok"
+    };
+  }
+
   private async getFirstParent(repositoryRoot: string, hash: string): Promise<string | undefined> {
     const output = await this.gitRaw(repositoryRoot, ["show", "--no-patch", "--pretty=%P", hash]);
     return output.trim().split(" ")[0] || undefined;
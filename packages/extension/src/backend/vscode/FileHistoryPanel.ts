@@ -3,7 +3,12 @@ import { basename, isAbsolute, relative, resolve } from "node:path";
 import { simpleGit } from "simple-git";
 import { commands, extensions as vscodeExtensions, languages, Uri, ViewColumn, window, workspace } from "vscode";
 import type { RepositoryService } from "../git/RepositoryService";
-import type { OperationResultViewModel } from "../rpc/contract";
+import type {
+  FileHistoryEntryViewModel,
+  FileHistoryLineRangeViewModel,
+  FileHistoryViewModel,
+  OperationResultViewModel
+} from "../rpc/contract";
 import type { Logger } from "../../logging/LoggerService";
 import { VirtualDocumentService } from "./VirtualDocumentService";
 
@@ -15,18 +20,20 @@ type TextDocumentLike<TUri> = {
   uri: TUri;
 };
 
-interface WebviewPanelLike {
-  webview: {
-    html: string;
-    onDidReceiveMessage(callback: (message: unknown) => void): { dispose(): void };
-  };
+interface SelectionLike {
+  end: { character: number; line: number };
+  start: { character: number; line: number };
 }
 
-type CreateWebviewPanel = (viewType: string, title: string, showOptions: ViewColumn, options: { enableScripts: boolean }) => WebviewPanelLike;
+export interface FileHistoryTarget {
+  filePath: string;
+  lineRange?: FileHistoryLineRangeViewModel;
+  repositoryId: string;
+}
 
 export interface FileHistoryPanelInput<TUri extends UriLike> {
+  activeEditorSelection?: () => SelectionLike | undefined;
   activeEditorUri?: () => TUri | undefined;
-  createWebviewPanel?: CreateWebviewPanel;
   executeCommand?: (command: string, ...args: readonly unknown[]) => Thenable<unknown>;
   fileExists?: (path: string) => boolean;
   gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
@@ -38,6 +45,7 @@ export interface FileHistoryPanelInput<TUri extends UriLike> {
     document: TextDocumentLike<TUri>,
     languageId: string
   ) => Thenable<TextDocumentLike<TUri>>;
+  showHistory?: (target: FileHistoryTarget) => void;
   showTextDocument?: (
     document: TextDocumentLike<TUri>,
     options: { preview: boolean; viewColumn: ViewColumn }
@@ -48,17 +56,11 @@ export interface FileHistoryPanelInput<TUri extends UriLike> {
   };
 }
 
-interface FileHistoryCommit {
-  author: string;
-  date: string;
-  hash: string;
-  message: string;
-  shortHash: string;
-}
+const fileHistoryFormat = "%x1e%H%x1f%h%x1f%an%x1f%ad%x1f%s";
 
 export class FileHistoryPanel<TUri extends UriLike = Uri> {
+  private readonly activeEditorSelection: () => SelectionLike | undefined;
   private readonly activeEditorUri: () => TUri | undefined;
-  private readonly createWebviewPanel: CreateWebviewPanel;
   private readonly executeCommand: (command: string, ...args: readonly unknown[]) => Thenable<unknown>;
   private readonly fileExists: (path: string) => boolean;
   private readonly gitRaw: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
@@ -70,6 +72,7 @@ export class FileHistoryPanel<TUri extends UriLike = Uri> {
     document: TextDocumentLike<TUri>,
     languageId: string
   ) => Thenable<TextDocumentLike<TUri>>;
+  private readonly showHistory: ((target: FileHistoryTarget) => void) | undefined;
   private readonly showTextDocument: (
     document: TextDocumentLike<TUri>,
     options: { preview: boolean; viewColumn: ViewColumn }
@@ -80,12 +83,10 @@ export class FileHistoryPanel<TUri extends UriLike = Uri> {
   };
 
   public constructor(input: FileHistoryPanelInput<TUri>) {
+    this.activeEditorSelection = input.activeEditorSelection ?? (() => window.activeTextEditor?.selection);
     this.activeEditorUri =
       input.activeEditorUri ??
       (() => window.activeTextEditor?.document.uri as TUri | undefined);
-    this.createWebviewPanel =
-      input.createWebviewPanel ??
-      ((viewType, title, showOptions, options) => window.createWebviewPanel(viewType, title, showOptions, options));
     this.executeCommand =
       input.executeCommand ??
       (async (command, ...args) => {
@@ -103,6 +104,7 @@ export class FileHistoryPanel<TUri extends UriLike = Uri> {
       input.setTextDocumentLanguage ??
       ((document, languageId) =>
         languages.setTextDocumentLanguage(document as unknown as Parameters<typeof languages.setTextDocumentLanguage>[0], languageId) as unknown as Thenable<TextDocumentLike<TUri>>);
+    this.showHistory = input.showHistory;
     this.showTextDocument =
       input.showTextDocument ??
       (async (document, options) => {
@@ -156,35 +158,47 @@ export class FileHistoryPanel<TUri extends UriLike = Uri> {
     };
   }
 
-  public async openHistory(repositoryRoot: string, filePath: string): Promise<OperationResultViewModel> {
-    this.logger?.debug("fileHistory.open", { filePath, repositoryRoot });
-    const commits = parseFileHistoryLog(
-      await this.gitRaw(repositoryRoot, [
+  public async getHistory(
+    repositoryRoot: string,
+    filePath: string,
+    lineRange?: FileHistoryLineRangeViewModel
+  ): Promise<FileHistoryViewModel> {
+    this.logger?.debug("fileHistory.get", { filePath, lineRange, repositoryRoot });
+    if (lineRange) {
+      const output = await this.gitRaw(repositoryRoot, [
         "log",
-        "--follow",
+        `-L${lineRange.startLine},${lineRange.endLine}:${filePath}`,
         "--date=iso",
-        "--format=%H%x1f%h%x1f%an%x1f%ad%x1f%s",
-        "--",
-        filePath
-      ])
-    );
-    const panel = this.createWebviewPanel("guigit.fileHistory", `File History: ${filePath}`, ViewColumn.Two, {
-      enableScripts: true
-    });
-    panel.webview.html = renderFileHistoryHtml(filePath, commits);
-    panel.webview.onDidReceiveMessage((message) => {
-      if (isRevealCommitMessage(message)) {
-        void this.executeCommand("guigit.showCommitDetails", message.hash);
-      }
-    });
+        `--format=${fileHistoryFormat}`
+      ]);
+      return { entries: parseLineHistoryLog(output, filePath), filePath, lineRange };
+    }
 
-    return {
-      message: `Opened history for ${filePath}`,
-      status: "ok"
-    };
+    const output = await this.gitRaw(repositoryRoot, [
+      "log",
+      "--follow",
+      "--numstat",
+      "--date=iso",
+      `--format=${fileHistoryFormat}`,
+      "--",
+      filePath
+    ]);
+    return { entries: parseFileHistoryLog(output, filePath), filePath };
   }
 
-  public async openHistoryForUri(resource?: TUri): Promise<OperationResultViewModel> {
+  public openLineHistory(): Promise<OperationResultViewModel> {
+    const selection = this.activeEditorSelection();
+    if (!selection) {
+      return Promise.resolve({
+        message: "No editor selection",
+        status: "cancelled"
+      });
+    }
+
+    return this.openHistoryForUri(undefined, toLineRange(selection));
+  }
+
+  public async openHistoryForUri(resource?: TUri, lineRange?: FileHistoryLineRangeViewModel): Promise<OperationResultViewModel> {
     const uri = resource ?? this.activeEditorUri();
     if (!uri) {
       return {
@@ -204,7 +218,15 @@ export class FileHistoryPanel<TUri extends UriLike = Uri> {
       };
     }
 
-    return this.openHistory(repository.rootPath, toGitPath(relative(repository.rootPath, uri.fsPath)));
+    const filePath = toGitPath(relative(repository.rootPath, uri.fsPath));
+    this.logger?.debug("fileHistory.open", { filePath, lineRange, repositoryRoot: repository.rootPath });
+    await this.executeCommand("workbench.view.extension.guigit");
+    this.showHistory?.({ filePath, lineRange, repositoryId: repository.id });
+
+    return {
+      message: `Opened history for ${filePath}`,
+      status: "ok"
+    };
   }
 
   private async getCommitFileContent(repositoryRoot: string, hash: string, filePath: string): Promise<string> {
@@ -222,66 +244,87 @@ export class FileHistoryPanel<TUri extends UriLike = Uri> {
   }
 }
 
-function parseFileHistoryLog(output: string): readonly FileHistoryCommit[] {
+function parseFileHistoryLog(output: string, filePath: string): readonly FileHistoryEntryViewModel[] {
+  let entryPath = filePath;
+
+  return parseHistoryRecords(output).map(({ entry, lines }) => {
+    // --follow reports each commit's numstat under the path the file had at that commit.
+    const [insertions = "0", deletions = "0", path] = lines.find(Boolean)?.split("\t") ?? [];
+    entryPath = path ? resolveNumstatPath(path) : entryPath;
+    return {
+      ...entry,
+      deletions: Number.parseInt(deletions, 10) || 0,
+      filePath: entryPath,
+      insertions: Number.parseInt(insertions, 10) || 0
+    };
+  });
+}
+
+function parseLineHistoryLog(output: string, filePath: string): readonly FileHistoryEntryViewModel[] {
+  return parseHistoryRecords(output).map(({ entry, lines }) => {
+    let deletions = 0;
+    let entryPath = filePath;
+    let insertions = 0;
+    let inHunk = false;
+
+    for (const line of lines) {
+      if (line.startsWith("diff --git ")) {
+        inHunk = false;
+      } else if (!inHunk && line.startsWith("+++ ")) {
+        entryPath = line === "+++ /dev/null" ? entryPath : line.slice("+++ ".length).replace(/^b\//, "");
+      } else if (line.startsWith("@@")) {
+        inHunk = true;
+      } else if (inHunk && line.startsWith("+")) {
+        insertions += 1;
+      } else if (inHunk && line.startsWith("-")) {
+        deletions += 1;
+      }
+    }
+
+    return { ...entry, deletions, filePath: entryPath, insertions };
+  });
+}
+
+function parseHistoryRecords(output: string): readonly {
+  entry: Omit<FileHistoryEntryViewModel, "deletions" | "filePath" | "insertions">;
+  lines: readonly string[];
+}[] {
   return output
-    .trim()
-    .split("\n")
-    .filter(Boolean)
-    .map((line) => {
-      const [hash, shortHash, author, date, message] = line.split("\u001f");
+    .split("\u001e")
+    .slice(1)
+    .map((record) => {
+      const [header = "", ...lines] = record.split("\n");
+      const [hash, shortHash, author, date, message] = header.split("\u001f");
       return {
-        author: author!,
-        date: date!,
-        hash: hash!,
-        message: message!,
-        shortHash: shortHash!
+        entry: {
+          author: author!,
+          date: date!,
+          hash: hash!,
+          message: message!,
+          shortHash: shortHash!
+        },
+        lines
       };
     });
 }
 
-function renderFileHistoryHtml(filePath: string, commits: readonly FileHistoryCommit[]): string {
-  const rows = commits
-    .map(
-      (commit) => `<button data-hash="${escapeAttribute(commit.hash)}" type="button">
-  <span class="hash">${escapeHtml(commit.shortHash)}</span>
-  <span class="message">${escapeHtml(commit.message)}</span>
-  <span class="meta">${escapeHtml(commit.author)} - ${escapeHtml(commit.date)}</span>
-</button>`
-    )
-    .join("");
-
-  return `<!doctype html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { color: var(--vscode-editor-foreground); background: var(--vscode-editor-background); font-family: var(--vscode-font-family); margin: 0; padding: 12px; }
-    h1 { font-size: 13px; margin: 0 0 10px; }
-    button { align-items: center; background: transparent; border: 0; border-bottom: 1px solid var(--vscode-panel-border); color: inherit; cursor: pointer; display: grid; gap: 8px; grid-template-columns: 76px 1fr 220px; padding: 7px 4px; text-align: left; width: 100%; }
-    button:hover { background: var(--vscode-list-hoverBackground); }
-    .hash { color: var(--vscode-descriptionForeground); font-family: var(--vscode-editor-font-family); font-size: 11px; }
-    .message { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
-    .meta { color: var(--vscode-descriptionForeground); font-size: 11px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
-  </style>
-</head>
-<body>
-  <h1>File History: ${escapeHtml(filePath)}</h1>
-  <main>${rows || `<p class="meta">No history found.</p>`}</main>
-  <script>
-    const vscode = acquireVsCodeApi();
-    document.addEventListener("click", (event) => {
-      const button = event.target.closest("button[data-hash]");
-      if (button) {
-        vscode.postMessage({ type: "revealCommit", hash: button.dataset.hash });
-      }
-    });
-  </script>
-</body>
-</html>`;
+function resolveNumstatPath(path: string): string {
+  const bracedRename = /^(.*)\{(.*) => (.*)\}(.*)$/.exec(path);
+  if (bracedRename) {
+    return `${bracedRename[1]}${bracedRename[3]}${bracedRename[4]}`.replace("//", "/");
+  }
+
+  const renameIndex = path.indexOf(" => ");
+  return renameIndex === -1 ? path : path.slice(renameIndex + " => ".length);
 }
 
-function isRevealCommitMessage(message: unknown): message is { hash: string; type: "revealCommit" } {
-  return (message as { type?: string }).type === "revealCommit";
+function toLineRange(selection: SelectionLike): FileHistoryLineRangeViewModel {
+  // A selection ending at the start of a line does not include that line.
+  const endLine = selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line : selection.end.line + 1;
+  return {
+    endLine,
+    startLine: selection.start.line + 1
+  };
 }
 
 function isPathInside(targetPath: string, rootPath: string): boolean {
@@ -333,16 +376,3 @@ interface ExtensionPackageJson {
     }[];
   };
 }
-
-function escapeHtml(value: string): string {
-  return value
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
-}
-
-function escapeAttribute(value: string): string {
-  return escapeHtml(value);
-}
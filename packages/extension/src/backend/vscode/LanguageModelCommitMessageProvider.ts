@@ -1,5 +1,7 @@
+import type { CommitMessageStreamOptions } from "../git/CommitMessageAiService";
+
 export interface LanguageModelCommitMessageModel {
-  sendRequest(messages: readonly string[]): Promise<string>;
+  sendRequest(messages: readonly string[], options?: CommitMessageStreamOptions): Promise<string>;
 }
 
 export interface LanguageModelCommitMessageProviderInput {
@@ -13,19 +15,32 @@ export class LanguageModelCommitMessageProvider {
     this.selectChatModels = input.selectChatModels;
   }
 
-  public async generate(prompt: string): Promise<string> {
-    const [model] = await this.selectChatModels();
-    if (!model) {
-      throw new Error("No VS Code language model is available");
-    }
-
-    const message = firstLine((await model.sendRequest([prompt])).trim());
+  public async generate(prompt: string, options: CommitMessageStreamOptions = {}): Promise<string> {
+    const message = firstLine(await this.request(prompt, options));
     if (!message) {
       throw new Error("VS Code language model returned no commit message");
     }
 
     return message;
   }
+
+  public async complete(prompt: string, options: CommitMessageStreamOptions = {}): Promise<string> {
+    const text = await this.request(prompt, options);
+    if (!text) {
+      throw new Error("VS Code language model returned no text");
+    }
+
+    return text;
+  }
+
+  private async request(prompt: string, options: CommitMessageStreamOptions): Promise<string> {
+    const [model] = await this.selectChatModels();
+    if (!model) {
+      throw new Error("No VS Code language model is available");
+    }
+
+    return (await model.sendRequest([prompt], options)).trim();
+  }
 }
 
 function firstLine(value: string): string {
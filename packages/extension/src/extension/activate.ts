@@ -1,20 +1,28 @@
-import type { ExtensionContext } from "vscode";
+import { join } from "node:path";
+import type { CancellationToken, ExtensionContext } from "vscode";
 import * as vscode from "vscode";
-import { commands as vscodeCommands, ConfigurationTarget, Disposable, env, extensions, MarkdownString, Range, RelativePattern, window, workspace } from "vscode";
+import { CancellationTokenSource, commands as vscodeCommands, ConfigurationTarget, env, extensions, MarkdownString, Range, RelativePattern, window, workspace } from "vscode";
 import type { FileViewMode } from "../backend/rpc/contract";
 import { CommitMessageAiService } from "../backend/git/CommitMessageAiService";
 import { createGitHistoryRpcHandlers } from "../backend/rpc/gitHistoryRpcHandlers";
 import { createRpcRouter } from "../backend/rpc/router";
+import { BisectService } from "../backend/git/BisectService";
 import { BranchService } from "../backend/git/BranchService";
 import { CommitService } from "../backend/git/CommitService";
+import { ConflictService } from "../backend/git/ConflictService";
 import { FileService } from "../backend/git/FileService";
 import { GitService } from "../backend/git/GitService";
 import { GraphService } from "../backend/git/GraphService";
+import { HostingApiClient } from "../backend/git/HostingApiClient";
+import { HostingService } from "../backend/git/HostingService";
+import { OperationJournalService } from "../backend/git/OperationJournalService";
 import { RemoteService } from "../backend/git/RemoteService";
 import { RepositoryService } from "../backend/git/RepositoryService";
 import { SafetyService } from "../backend/git/SafetyService";
+import { SubmoduleService } from "../backend/git/SubmoduleService";
 import { ProxyService } from "../backend/git/ProxyService";
 import { WorkingTreeService } from "../backend/git/WorkingTreeService";
+import { WorktreeService } from "../backend/git/WorktreeService";
 import { LanguageService } from "../backend/i18n/LanguageService";
 import { LanguageModelCommitMessageProvider } from "../backend/vscode/LanguageModelCommitMessageProvider";
 import { OpenAICompatibleCommitMessageProvider } from "../backend/git/OpenAICompatibleCommitMessageProvider";
@@ -43,11 +51,13 @@ interface VsCodeLanguageModelApi {
 }
 
 interface VsCodeLanguageModel {
-  sendRequest(messages: readonly unknown[]): Promise<{
+  sendRequest(messages: readonly unknown[], options: Record<string, unknown>, token: CancellationToken): Promise<{
     stream: AsyncIterable<unknown>;
   }>;
 }
 
+let activeCache: CacheService | undefined;
+
 export function activate(context: ExtensionContext): void {
   const guigitConfiguration = () => workspace.getConfiguration("guigit");
   const outputChannel = window.createOutputChannel("GUI Git History", "guigit-log");
@@ -57,7 +67,12 @@ export function activate(context: ExtensionContext): void {
   });
   logger.info("extension.activate");
 
-  const cache = new CacheService();
+  const cache = new CacheService({
+    logger,
+    storagePath: join(context.globalStorageUri.fsPath, "commit-cache.json")
+  });
+  void cache.load();
+  activeCache = cache;
   const repositoryState = new WorkspaceStateService({
     storage: context.workspaceState
   });
@@ -66,7 +81,9 @@ export function activate(context: ExtensionContext): void {
     state: repositoryState,
     workspaceFolders: workspace.workspaceFolders?.map((folder) => folder.uri.fsPath) ?? []
   });
-  const branchService = new BranchService();
+  const branchService = new BranchService({
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args)
+  });
   const commitService = new CommitService({ cache, logger });
   const fileService = new FileService({
     cache,
@@ -108,23 +125,32 @@ export function activate(context: ExtensionContext): void {
       const models = await selectChatModels.call(vscodeLanguageModelApi.lm, {});
 
       return models.map((model) => ({
-        sendRequest: async (messages: readonly string[]) => {
-          const response = await model.sendRequest(
-            messages.map((message) => languageModelChatMessage.User(message))
-          );
-          let content = "";
-          for await (const part of response.stream) {
-            if (typeof part === "string") {
-              content += part;
-              continue;
+        sendRequest: async (messages: readonly string[], options = {}) => {
+          const cancellation = new CancellationTokenSource();
+          const cancel = () => cancellation.cancel();
+          options.signal?.addEventListener("abort", cancel);
+          try {
+            const response = await model.sendRequest(
+              messages.map((message) => languageModelChatMessage.User(message)),
+              {},
+              cancellation.token
+            );
+            let content = "";
+            for await (const part of response.stream) {
+              options.signal?.throwIfAborted();
+              if (typeof part === "string") {
+                content += part;
+              } else if (part && typeof part === "object" && "value" in part) {
+                content += (part as { value?: string }).value ?? "";
+              }
+              options.onText?.(content);
             }
 
-            if (part && typeof part === "object" && "value" in part) {
-              content += (part as { value?: string }).value ?? "";
-            }
+            return content;
+          } finally {
+            options.signal?.removeEventListener("abort", cancel);
+            cancellation.dispose();
           }
-
-          return content;
         }
       }));
     }
@@ -136,6 +162,11 @@ export function activate(context: ExtensionContext): void {
     gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
     languageModelProvider,
     openAICompatibleProvider,
+    openMarkdownDocument: async (content) => {
+      const document = await workspace.openTextDocument({ content, language: "markdown" });
+      await window.showTextDocument(document, { preview: false });
+    },
+    postProgress: (progress) => viewProvider?.reportCommitMessageProgress(progress),
     settingsService
   });
   const languageService = new LanguageService({
@@ -143,7 +174,15 @@ export function activate(context: ExtensionContext): void {
     showQuickPick: (items, options) => window.showQuickPick([...items], options),
     uiLanguage: () => env.language
   });
-  const graphService = new GraphService({ logger });
+  const graphService = new GraphService({
+    logger,
+    showSaveDialog: ({ defaultPath, filters, saveLabel }) =>
+      window.showSaveDialog({
+        defaultUri: vscode.Uri.file(defaultPath),
+        filters: Object.fromEntries(Object.entries(filters).map(([name, extensions]) => [name, [...extensions]])),
+        saveLabel
+      })
+  });
   const proxyService = new ProxyService({
     settingsService,
     showInputBox: (options) => window.showInputBox(options),
@@ -158,11 +197,40 @@ export function activate(context: ExtensionContext): void {
     t: (key, ...args) => languageService.t(key, ...args)
   });
   const diffService = new DiffService({ logger });
+  const conflictService = new ConflictService({
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
+    logger
+  });
+  const worktreeService = new WorktreeService({
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
+    logger
+  });
+  const submoduleService = new SubmoduleService({
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
+    logger
+  });
+  const bisectService = new BisectService({
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
+    logger
+  });
+  const operationJournalService = new OperationJournalService({
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
+    logger
+  });
   const safetyService = new SafetyService({
     gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
     logger
   });
+  const hostingService = new HostingService({
+    apiClient: new HostingApiClient({
+      getProxyConfig: () => proxyService.getConfiguredProxyConfig()
+    }),
+    gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
+    settingsService,
+    showInputBox: (options) => window.showInputBox(options)
+  });
   const gitService = new GitService({
+    hostingService,
     logger,
     postOperationProgress: (progress) => viewProvider?.reportOperationProgress(progress),
     proxyService,
@@ -174,7 +242,8 @@ export function activate(context: ExtensionContext): void {
   const fileHistoryPanel = new FileHistoryPanel({
     activeEditorUri: () => window.activeTextEditor?.document.uri,
     logger,
-    repositoryService
+    repositoryService,
+    showHistory: (target) => viewProvider?.showFileHistory(target)
   });
   const blameController = new BlameController({
     activeEditor: () => window.activeTextEditor as never,
@@ -185,40 +254,57 @@ export function activate(context: ExtensionContext): void {
         margin: "0 0 0 3em"
       }
     }),
+    createGutterDecorationType: () => window.createTextEditorDecorationType({
+      before: {
+        color: "rgba(127, 127, 127, 0.9)",
+        margin: "0 1ch 0 0",
+        width: "28ch"
+      }
+    }),
     createMarkdownString: (value) => new MarkdownString(value),
     createRange: (startLine, startCharacter, endLine, endCharacter) => new Range(startLine, startCharacter, endLine, endCharacter),
+    executeCommand: (command, ...args) => vscodeCommands.executeCommand(command, ...args),
     gitRaw: (repositoryRoot, args) => proxyService.runRaw(repositoryRoot, args),
     onDidChangeActiveTextEditor: (listener) => window.onDidChangeActiveTextEditor(listener as never),
     onDidChangeConfiguration: (listener) => workspace.onDidChangeConfiguration(listener),
     onDidChangeTextDocument: (listener) => workspace.onDidChangeTextDocument(listener as never),
     onDidChangeTextEditorSelection: (listener) => window.onDidChangeTextEditorSelection(listener as never),
+    onDidCloseTextDocument: (listener) => workspace.onDidCloseTextDocument(listener as never),
+    onDidSaveTextDocument: (listener) => workspace.onDidSaveTextDocument(listener as never),
     repositoryService,
     settingsService,
+    showInformationMessage: (message, ...actions) => window.showInformationMessage(message, ...actions),
     updateBlameEnabled: async (enabled) => {
       await workspace.getConfiguration().update("guigit.blame.enabled", enabled, ConfigurationTarget.Global);
     }
   });
   const router = createRpcRouter(
     createGitHistoryRpcHandlers({
+      bisectService,
       branchService,
       commitService,
+      conflictService,
       diffService,
       fileHistoryPanel,
       fileService,
       gitService,
       graphService,
+      hostingService,
       commitMessageAiService,
       languageService,
+      operationJournalService,
       proxyService,
       remoteService,
       repositoryService,
       settingsService,
-      workingTreeService
+      submoduleService,
+      workingTreeService,
+      worktreeService
     }),
     logger,
     (error, request) => request.type === "settings.update" ? languageService.t("errors.settingsUpdateFailed") : error.message
   );
-  const viewProvider = new GitHistoryViewProvider(context, router, fileHistoryPanel);
+  const viewProvider: GitHistoryViewProvider = new GitHistoryViewProvider(context, router, fileHistoryPanel);
   const gitExtension = extensions.getExtension<GitExtensionExports>("vscode.git");
   const git = gitExtension?.exports.getAPI(1);
 
@@ -230,6 +316,9 @@ export function activate(context: ExtensionContext): void {
     }),
     ...registerGitHistoryCommands({
       blame: {
+        blamePreviousRevision: (target) => {
+          void blameController.blamePreviousRevision(target);
+        },
         toggleBlame: () => {
           void blameController.toggleBlame();
         }
@@ -237,6 +326,7 @@ export function activate(context: ExtensionContext): void {
       executeCommand: vscodeCommands.executeCommand,
       writeClipboardText: (value) => env.clipboard.writeText(value),
       logger,
+      operations: operationJournalService,
       registerCommand: vscodeCommands.registerCommand,
       view: viewProvider
     }),
@@ -247,17 +337,22 @@ export function activate(context: ExtensionContext): void {
       initialActiveTextEditor: () => window.activeTextEditor,
       logger,
       onDidChangeActiveTextEditor: window.onDidChangeActiveTextEditor,
-      refresh: (reason) => viewProvider.refresh(reason),
+      refresh: (reason) => {
+        blameController.invalidateBlame();
+        viewProvider.refresh(reason);
+      },
       workspaceFolders: workspace.workspaceFolders ?? []
     }),
     outputChannel,
-    blameController,
-    new Disposable(() => undefined)
+    blameController
   );
 }
 
-export function deactivate(): void {
-  // VS Code calls this during extension shutdown.
+// VS Code waits for the returned promise during shutdown, so pending cache writes are not lost.
+export function deactivate(): Promise<void> | undefined {
+  const cache = activeCache;
+  activeCache = undefined;
+  return cache?.flush();
 }
 
 function toGuigitConfigurationKey(key: SettingsConfigurationKey): `guigit.${SettingsConfigurationKey}` {
@@ -1,18 +1,24 @@
 import type { Disposable, Uri } from "vscode";
 import type { Logger } from "../logging/LoggerService";
+import type { BlameRevisionTarget } from "../backend/vscode/BlameController";
 
 export interface GitHistoryCommandView {
   refresh(reason: "command"): void;
   revealCommit(hash: string): void;
   showFileHistoryForUri(resource?: Uri): Promise<void>;
+  showLineHistory(): Promise<void>;
 }
 
 export interface GitHistoryCommandInput {
   blame: {
+    blamePreviousRevision(target: BlameRevisionTarget): void;
     toggleBlame(): void;
   };
   executeCommand(command: string): Thenable<unknown>;
   logger: Pick<Logger, "debug" | "info">;
+  operations: {
+    undoLastOperation(): Promise<unknown>;
+  };
   registerCommand(command: string, callback: (...args: readonly unknown[]) => unknown): Disposable;
   view: GitHistoryCommandView;
   writeClipboardText(value: string): Thenable<void>;
@@ -32,10 +38,18 @@ export function registerGitHistoryCommands(input: GitHistoryCommandInput): reado
       input.logger.debug("command.viewFileHistory");
       await input.view.showFileHistoryForUri(resource as Uri | undefined);
     }),
+    input.registerCommand("guigit.viewLineHistory", async () => {
+      input.logger.debug("command.viewLineHistory");
+      await input.view.showLineHistory();
+    }),
     input.registerCommand("guigit.toggleBlame", () => {
       input.logger.debug("command.toggleBlame");
       input.blame.toggleBlame();
     }),
+    input.registerCommand("guigit.blamePreviousRevision", (target) => {
+      input.logger.debug("command.blamePreviousRevision", target);
+      input.blame.blamePreviousRevision(target as BlameRevisionTarget);
+    }),
     input.registerCommand("guigit.showCommitDetails", async (hash) => {
       input.logger.debug("command.showCommitDetails", { hash });
       await input.executeCommand("workbench.view.extension.guigit");
@@ -44,6 +58,11 @@ export function registerGitHistoryCommands(input: GitHistoryCommandInput): reado
     input.registerCommand("guigit.copyCommitHash", async (hash) => {
       input.logger.debug("command.copyCommitHash", { hash });
       await input.writeClipboardText(hash as string);
+    }),
+    input.registerCommand("guigit.undoLastOperation", async () => {
+      input.logger.debug("command.undoLastOperation");
+      await input.operations.undoLastOperation();
+      input.view.refresh("command");
     })
   ];
 }
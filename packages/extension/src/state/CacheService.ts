@@ -1,26 +1,214 @@
-import type { CommitDetailsViewModel } from "../backend/rpc/contract";
+import { mkdir, readFile as nodeReadFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { CommitDetailsViewModel, CommitListItemViewModel } from "../backend/rpc/contract";
+import type { Logger } from "../logging/LoggerService";
+
+export interface CachedHistoryCommit extends Omit<CommitListItemViewModel, "canEditMessage"> {
+  email: string;
+}
+
+export interface CacheServiceInput {
+  logger?: Pick<Logger, "error">;
+  maxBytes?: number;
+  maxEntries?: number;
+  maxHistoryPages?: number;
+  readFile?: (path: string) => Promise<string>;
+  saveDelayMs?: number;
+  storagePath?: string;
+  writeTextFile?: (path: string, content: string) => Promise<void>;
+}
+
+interface PersistedCache {
+  commitDetails: readonly (readonly [string, CommitDetailsViewModel])[];
+  historyPages: readonly (readonly [string, readonly CachedHistoryCommit[]])[];
+  totalCommitCounts: readonly (readonly [string, number])[];
+  version: number;
+}
+
+const cacheVersion = 2;
+const defaultMaxBytes = 8 * 1024 * 1024;
+const defaultMaxEntries = 1000;
+const defaultMaxHistoryPages = 100;
+const defaultSaveDelayMs = 2000;
 
 export class CacheService {
   private readonly commitDetails = new Map<string, CommitDetailsViewModel>();
+  private readonly historyPages = new Map<string, readonly CachedHistoryCommit[]>();
+  private readonly logger: Pick<Logger, "error"> | undefined;
+  private readonly maxBytes: number;
+  private readonly maxEntries: number;
+  private readonly maxHistoryPages: number;
+  private readonly readFile: (path: string) => Promise<string>;
+  private readonly saveDelayMs: number;
+  private saveTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly storagePath: string | undefined;
   private readonly totalCommitCounts = new Map<string, number>();
+  private readonly writeTextFile: (path: string, content: string) => Promise<void>;
+
+  public constructor(input: CacheServiceInput = {}) {
+    this.logger = input.logger;
+    this.maxBytes = input.maxBytes ?? defaultMaxBytes;
+    this.maxEntries = input.maxEntries ?? defaultMaxEntries;
+    this.maxHistoryPages = input.maxHistoryPages ?? defaultMaxHistoryPages;
+    this.readFile = input.readFile ?? ((path) => nodeReadFile(path, "utf8"));
+    this.saveDelayMs = input.saveDelayMs ?? defaultSaveDelayMs;
+    this.storagePath = input.storagePath;
+    this.writeTextFile = input.writeTextFile ?? writeTextFileWithDirectory;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.storagePath) {
+      return;
+    }
+
+    let persisted: PersistedCache;
+    try {
+      persisted = JSON.parse(await this.readFile(this.storagePath)) as PersistedCache;
+    } catch {
+      return;
+    }
+    if (persisted.version !== cacheVersion) {
+      return;
+    }
+
+    restoreEntries(this.commitDetails, persisted.commitDetails, this.maxEntries);
+    restoreEntries(this.historyPages, persisted.historyPages, this.maxHistoryPages);
+    restoreEntries(this.totalCommitCounts, persisted.totalCommitCounts, this.maxEntries);
+  }
+
+  public async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.storagePath) {
+      return;
+    }
+
+    this.evictToByteLimit();
+    const persisted: PersistedCache = {
+      commitDetails: [...this.commitDetails],
+      historyPages: [...this.historyPages],
+      totalCommitCounts: [...this.totalCommitCounts],
+      version: cacheVersion
+    };
+    try {
+      await this.writeTextFile(this.storagePath, JSON.stringify(persisted));
+    } catch (error: unknown) {
+      this.logger?.error("cache.save.failed", {
+        message: error instanceof Error ? error.message : String(error),
+        storagePath: this.storagePath
+      });
+    }
+  }
 
   public getCommitDetails(repositoryRoot: string, hash: string): CommitDetailsViewModel | undefined {
-    return this.commitDetails.get(commitDetailsKey(repositoryRoot, hash));
+    return touchEntry(this.commitDetails, commitDetailsKey(repositoryRoot, hash));
   }
 
   public setCommitDetails(repositoryRoot: string, hash: string, details: CommitDetailsViewModel): void {
-    this.commitDetails.set(commitDetailsKey(repositoryRoot, hash), details);
+    this.setEntry(this.commitDetails, commitDetailsKey(repositoryRoot, hash), details, this.maxEntries);
+  }
+
+  public getHistoryPage(repositoryRoot: string, key: string): readonly CachedHistoryCommit[] | undefined {
+    return touchEntry(this.historyPages, historyPageKey(repositoryRoot, key));
+  }
+
+  public setHistoryPage(repositoryRoot: string, key: string, commits: readonly CachedHistoryCommit[]): void {
+    this.setEntry(this.historyPages, historyPageKey(repositoryRoot, key), commits, this.maxHistoryPages);
   }
 
   public getTotalCommitCount(key: string): number | undefined {
-    return this.totalCommitCounts.get(key);
+    return touchEntry(this.totalCommitCounts, key);
   }
 
   public setTotalCommitCount(key: string, count: number): void {
-    this.totalCommitCounts.set(key, count);
+    this.setEntry(this.totalCommitCounts, key, count, this.maxEntries);
+  }
+
+  private setEntry<TValue>(entries: Map<string, TValue>, key: string, value: TValue, maxEntries: number): void {
+    entries.delete(key);
+    entries.set(key, value);
+    evictOldestEntries(entries, maxEntries);
+    this.scheduleSave();
+  }
+
+  // Entry limits alone do not bound the file because history pages vary in size, so the oldest
+  // entries are dropped until the serialized cache fits, starting with the largest kind of entry.
+  private evictToByteLimit(): void {
+    const sections: readonly Map<string, unknown>[] = [this.historyPages, this.commitDetails, this.totalCommitCounts];
+    const entrySizes = sections.map((entries) =>
+      [...entries].map(([key, value]) => [key, Buffer.byteLength(JSON.stringify([key, value])) + 1] as const)
+    );
+    let totalBytes =
+      Buffer.byteLength(JSON.stringify({ commitDetails: [], historyPages: [], totalCommitCounts: [], version: cacheVersion })) +
+      entrySizes.flat().reduce((total, [, size]) => total + size, 0);
+    sections.forEach((entries, index) => {
+      for (const [key, size] of entrySizes[index]!) {
+        if (totalBytes <= this.maxBytes) {
+          return;
+        }
+        entries.delete(key);
+        totalBytes -= size;
+      }
+    });
+  }
+
+  private scheduleSave(): void {
+    if (!this.storagePath || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, this.saveDelayMs);
+    this.saveTimer.unref?.();
+  }
+}
+
+function touchEntry<TValue>(entries: Map<string, TValue>, key: string): TValue | undefined {
+  const value = entries.get(key);
+  if (value !== undefined) {
+    entries.delete(key);
+    entries.set(key, value);
+  }
+
+  return value;
+}
+
+function restoreEntries<TValue>(
+  entries: Map<string, TValue>,
+  persisted: readonly (readonly [string, TValue])[] | undefined,
+  maxEntries: number
+): void {
+  const loaded = [...entries];
+  entries.clear();
+  for (const [key, value] of [...(persisted ?? []), ...loaded]) {
+    entries.delete(key);
+    entries.set(key, value);
+  }
+  evictOldestEntries(entries, maxEntries);
+}
+
+function evictOldestEntries<TValue>(entries: Map<string, TValue>, maxEntries: number): void {
+  for (const key of entries.keys()) {
+    if (entries.size <= maxEntries) {
+      return;
+    }
+    entries.delete(key);
   }
 }
 
 function commitDetailsKey(repositoryRoot: string, hash: string): string {
   return `${repositoryRoot}:${hash}`;
 }
+
+function historyPageKey(repositoryRoot: string, key: string): string {
+  return `${repositoryRoot}:history:${key}`;
+}
+
+async function writeTextFileWithDirectory(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, "utf8");
+}
@@ -2,6 +2,7 @@ import type {
   AutoStashPreference,
   AiProviderKind,
   CommitMessagePromptMode,
+  CommitMessageTemplateViewModel,
   FileViewMode,
   HttpAiProviderProtocol,
   LanguagePreference,
@@ -17,10 +18,16 @@ export type SettingsConfigurationKey =
   | "ai.openAICompatible.model"
   | "ai.openAICompatible.protocol"
   | "autoStashOnPull"
+  | "blame.detectCopiedLines"
+  | "blame.detectMovedLines"
+  | "blame.displayMode"
   | "blame.enabled"
   | "blame.format"
+  | "blame.ignoreWhitespace"
   | "blame.showOnlyCurrentLine"
+  | "commitTemplates"
   | "fileViewMode"
+  | "hosting.providers"
   | "language"
   | "proxy.enabled"
   | "proxy.http"
@@ -43,6 +50,23 @@ export interface SettingsStateStorage {
   update(key: string, value: unknown): PromiseLike<void>;
 }
 
+export type BlameDisplayMode = "gutter" | "inline";
+
+export interface BlameOptions {
+  detectCopiedLines: boolean;
+  detectMovedLines: boolean;
+  displayMode: BlameDisplayMode;
+  ignoreWhitespace: boolean;
+}
+
+export type HostingProviderKind = "bitbucket" | "gitea" | "github" | "gitlab";
+
+export interface HostingProviderConfiguration {
+  host: string;
+  provider: HostingProviderKind;
+  webUrl?: string;
+}
+
 export interface SettingsServiceInput {
   configuration: SettingsConfiguration;
   secretStorage: SettingsSecretStorage;
@@ -51,6 +75,7 @@ export interface SettingsServiceInput {
 
 const openAICompatibleApiKeySecretKey = "guigit.ai.openAICompatible.apiKey";
 const aiProviderStateKeyPrefix = "guigit.";
+const hostingTokenSecretKeyPrefix = "guigit.hosting.token.";
 
 export class SettingsService {
   private readonly configuration: SettingsConfiguration;
@@ -100,6 +125,59 @@ export class SettingsService {
     };
   }
 
+  public getBlameOptions(): BlameOptions {
+    return {
+      detectCopiedLines: (this.configuration.get("blame.detectCopiedLines") ?? false) as boolean,
+      detectMovedLines: (this.configuration.get("blame.detectMovedLines") ?? false) as boolean,
+      displayMode: (this.configuration.get("blame.displayMode") ?? "inline") as BlameDisplayMode,
+      ignoreWhitespace: (this.configuration.get("blame.ignoreWhitespace") ?? false) as boolean
+    };
+  }
+
+  public getCommitTemplates(): readonly CommitMessageTemplateViewModel[] {
+    const configured = this.configuration.get("commitTemplates");
+    if (!Array.isArray(configured)) {
+      return [];
+    }
+
+    return configured.flatMap((template: unknown): CommitMessageTemplateViewModel[] => {
+      if (typeof template !== "object" || template === null) {
+        return [];
+      }
+
+      const { message, name } = template as { message?: unknown; name?: unknown };
+      return typeof name === "string" && typeof message === "string" && name.trim() && message.trim()
+        ? [{ message, name: name.trim(), source: "settings" }]
+        : [];
+    });
+  }
+
+  public getHostingProviders(): readonly HostingProviderConfiguration[] {
+    const configured = this.configuration.get("hosting.providers");
+    if (!Array.isArray(configured)) {
+      return [];
+    }
+
+    return configured.flatMap((entry: unknown): HostingProviderConfiguration[] => {
+      if (typeof entry !== "object" || entry === null) {
+        return [];
+      }
+
+      const { host, provider, webUrl } = entry as { host?: unknown; provider?: unknown; webUrl?: unknown };
+      if (typeof host !== "string" || !host.trim() || !isHostingProviderKind(provider)) {
+        return [];
+      }
+
+      return [
+        {
+          host: host.trim().toLowerCase(),
+          provider,
+          ...(typeof webUrl === "string" && webUrl.trim() ? { webUrl: webUrl.trim().replace(/\/+$/, "") } : {})
+        }
+      ];
+    });
+  }
+
   public async updateSettings(settings: Partial<SettingsViewModel>): Promise<void> {
     if (settings.autoStashOnPull !== undefined) {
       await this.configuration.update("autoStashOnPull", settings.autoStashOnPull);
@@ -148,6 +226,20 @@ export class SettingsService {
     return this.secretStorage.get(openAICompatibleApiKeySecretKey);
   }
 
+  public async getHostingToken(apiOrigin: string): Promise<string | undefined> {
+    return this.secretStorage.get(`${hostingTokenSecretKeyPrefix}${apiOrigin.toLowerCase()}`);
+  }
+
+  public async storeHostingToken(apiOrigin: string, token: string): Promise<void> {
+    const key = `${hostingTokenSecretKeyPrefix}${apiOrigin.toLowerCase()}`;
+    if (token) {
+      await this.secretStorage.store(key, token);
+      return;
+    }
+
+    await this.secretStorage.delete(key);
+  }
+
   private getAiSetting(key: Extract<SettingsConfigurationKey, `ai.${string}`>): unknown {
     const stateKey = `${aiProviderStateKeyPrefix}${key}`;
     return this.stateStorage?.get(stateKey) ?? this.configuration.get(key);
@@ -162,3 +254,7 @@ export class SettingsService {
     await this.configuration.update(key, value);
   }
 }
+
+function isHostingProviderKind(value: unknown): value is HostingProviderKind {
+  return value === "bitbucket" || value === "gitea" || value === "github" || value === "gitlab";
+}
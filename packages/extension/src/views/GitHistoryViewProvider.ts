@@ -3,7 +3,7 @@ import { randomUUID } from "node:crypto";
 import { Uri } from "vscode";
 import type { BackendNotification, RpcRequest } from "../backend/rpc/contract";
 import { createRpcRouter, type RpcRouter } from "../backend/rpc/router";
-import type { FileHistoryPanel } from "../backend/vscode/FileHistoryPanel";
+import type { FileHistoryPanel, FileHistoryTarget } from "../backend/vscode/FileHistoryPanel";
 import { createWebviewShellHtml } from "./webviewShellHtml";
 
 type HistoryRefreshReason = Extract<BackendNotification, { type: "history.changed" }>["reason"];
@@ -28,7 +28,7 @@ export class GitHistoryViewProvider implements WebviewViewProvider {
   public constructor(
     private readonly context: ExtensionContext,
     private readonly router: RpcRouter = createRpcRouter({}),
-    private readonly fileHistoryPanel?: Pick<FileHistoryPanel, "openHistoryForUri">
+    private readonly fileHistoryPanel?: Pick<FileHistoryPanel, "openHistoryForUri" | "openLineHistory">
   ) {}
 
   public resolveWebviewView(webviewView: WebviewView): void {
@@ -83,10 +83,28 @@ export class GitHistoryViewProvider implements WebviewViewProvider {
     });
   }
 
+  public reportCommitMessageProgress(progress: Extract<BackendNotification, { type: "commitMessage.progress" }>["progress"]): void {
+    void this.postNotification({
+      progress,
+      type: "commitMessage.progress"
+    });
+  }
+
+  public showFileHistory(target: FileHistoryTarget): void {
+    void this.postNotification({
+      ...target,
+      type: "fileHistory.show"
+    });
+  }
+
   public showFileHistoryForUri(resource?: Uri): Promise<void> {
     return this.fileHistoryPanel?.openHistoryForUri(resource).then(() => undefined) ?? Promise.resolve();
   }
 
+  public showLineHistory(): Promise<void> {
+    return this.fileHistoryPanel?.openLineHistory().then(() => undefined) ?? Promise.resolve();
+  }
+
   private async postNotification(notification: BackendNotification): Promise<void> {
     if (!this.webviewView) {
       this.pendingNotifications.push(notification);
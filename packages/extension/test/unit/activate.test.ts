@@ -1,5 +1,6 @@
 import type { Disposable, ExtensionContext } from "vscode";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CacheService } from "../../src/state/CacheService";
 import { GitHistoryViewProvider } from "../../src/views/GitHistoryViewProvider";
 
 const vscodeMocks = vi.hoisted(() => {
@@ -42,7 +43,9 @@ const vscodeMocks = vi.hoisted(() => {
     clipboardWriteText: vi.fn(),
     onDidChangeConfiguration: vi.fn(() => ({ dispose: vi.fn() })),
     onDidChangeTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
+    onDidCloseTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     onDidChangeTextEditorSelection: vi.fn(() => ({ dispose: vi.fn() })),
+    onDidSaveTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     registerWebviewViewProvider: vi.fn(() => providerDisposable)
   };
 });
@@ -120,6 +123,8 @@ vi.mock("vscode", () => ({
     getConfiguration: vi.fn(() => workspaceConfiguration),
     onDidChangeConfiguration: vscodeMocks.onDidChangeConfiguration,
     onDidChangeTextDocument: vscodeMocks.onDidChangeTextDocument,
+    onDidCloseTextDocument: vscodeMocks.onDidCloseTextDocument,
+    onDidSaveTextDocument: vscodeMocks.onDidSaveTextDocument,
     workspaceFolders: []
   }
 }));
@@ -152,6 +157,7 @@ describe("activate", () => {
         get: vscodeMocks.globalStateGet,
         update: vscodeMocks.globalStateUpdate
       },
+      globalStorageUri: { fsPath: "/global-storage" },
       secrets: {
         delete: vscodeMocks.secretDelete,
         get: vscodeMocks.secretGet,
@@ -175,12 +181,44 @@ describe("activate", () => {
         }
       }
     );
-    expect(vscodeMocks.registerCommand).toHaveBeenCalledTimes(6);
+    expect(vscodeMocks.registerCommand).toHaveBeenCalledTimes(9);
     expect(vscodeMocks.onDidChangeActiveTextEditor).toHaveBeenCalled();
     expect(vscodeMocks.createOutputChannel).toHaveBeenCalledWith("GUI Git History", "guigit-log");
     expect(subscriptions).toContain(vscodeMocks.providerDisposable);
   });
 
+  it("returns the pending cache flush from deactivate so shutdown waits for it", async () => {
+    const { activate, deactivate } = await import("../../src/extension/activate");
+    const flush = vi.spyOn(CacheService.prototype, "flush").mockResolvedValue(undefined);
+    const context = {
+      extensionUri: { path: "/extension" },
+      globalState: {
+        get: vscodeMocks.globalStateGet,
+        update: vscodeMocks.globalStateUpdate
+      },
+      globalStorageUri: { fsPath: "/global-storage" },
+      secrets: {
+        delete: vscodeMocks.secretDelete,
+        get: vscodeMocks.secretGet,
+        store: vscodeMocks.secretStore
+      },
+      workspaceState: {
+        get: vscodeMocks.workspaceStateGet,
+        update: vscodeMocks.workspaceStateUpdate
+      },
+      subscriptions: [] as Disposable[]
+    } as ExtensionContext;
+
+    activate(context);
+    const pending = deactivate();
+
+    expect(pending).toBeInstanceOf(Promise);
+    await pending;
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(deactivate()).toBeUndefined();
+    flush.mockRestore();
+  });
+
   it("updates file view mode through the registered guigit configuration section", async () => {
     const { activate } = await import("../../src/extension/activate");
     const subscriptions: Disposable[] = [];
@@ -190,6 +228,7 @@ describe("activate", () => {
         get: vscodeMocks.globalStateGet,
         update: vscodeMocks.globalStateUpdate
       },
+      globalStorageUri: { fsPath: "/global-storage" },
       secrets: {
         delete: vscodeMocks.secretDelete,
         get: vscodeMocks.secretGet,
@@ -238,6 +277,7 @@ describe("activate", () => {
         get: vscodeMocks.globalStateGet,
         update: vscodeMocks.globalStateUpdate
       },
+      globalStorageUri: { fsPath: "/global-storage" },
       secrets: {
         delete: vscodeMocks.secretDelete,
         get: vscodeMocks.secretGet,
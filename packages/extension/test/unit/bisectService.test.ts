@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from "vitest";
+import { BisectService } from "../../src/backend/git/BisectService";
+
+vi.mock("vscode", () => ({
+  window: {
+    showInputBox: vi.fn()
+  }
+}));
+
+const good = "1111111111111111111111111111111111111111";
+const bad = "9999999999999999999999999999999999999999";
+const current = "5555555555555555555555555555555555555555";
+
+const bisectLogOutput = [
+  `# bad: [${bad}] Break login`,
+  `# good: [${good}] Add login`,
+  `git bisect start '${bad}' '${good}' '--'`,
+  "# skip: [4444444444444444444444444444444444444444] Flaky build",
+  "git bisect skip 4444444444444444444444444444444444444444",
+  "# good: [3333333333333333333333333333333333333333] Refactor session",
+  "git bisect good 3333333333333333333333333333333333333333",
+  ""
+].join("\n");
+
+describe("BisectService", () => {
+  it("reports an inactive state when the repository is not bisecting", async () => {
+    const service = new BisectService({
+      gitRaw: async () => {
+        throw new Error("We are not bisecting.");
+      }
+    });
+
+    await expect(service.getState("/repo")).resolves.toEqual({
+      active: false,
+      candidates: [],
+      good: [],
+      remainingRevisions: 0,
+      remainingSteps: 0,
+      skipped: []
+    });
+  });
+
+  it("derives the remaining candidate range and steps from the bisect log", async () => {
+    const calls: string[] = [];
+    const service = new BisectService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "bisect") {
+          return bisectLogOutput;
+        }
+        if (args[0] === "rev-parse") {
+          return `${current}\n`;
+        }
+        if (args[1] === "--bisect-vars") {
+          return `bisect_rev='${current}'\nbisect_nr=2\nbisect_good=2\nbisect_bad=1\nbisect_all=4\nbisect_steps=1\n`;
+        }
+
+        return `${bad}\n8888888888888888888888888888888888888888\n${current}\n4444444444444444444444444444444444444444\n`;
+      }
+    });
+
+    await expect(service.getState("/repo")).resolves.toEqual({
+      active: true,
+      bad,
+      candidates: [bad, "8888888888888888888888888888888888888888", current, "4444444444444444444444444444444444444444"],
+      current,
+      firstBad: undefined,
+      good: [good, "3333333333333333333333333333333333333333"],
+      remainingRevisions: 2,
+      remainingSteps: 1,
+      skipped: ["4444444444444444444444444444444444444444"]
+    });
+    expect(calls).toEqual([
+      "bisect log",
+      "rev-parse HEAD",
+      `rev-list ${bad} --not ${good} 3333333333333333333333333333333333333333`,
+      `rev-list --bisect-vars ${bad} --not ${good} 3333333333333333333333333333333333333333`
+    ]);
+  });
+
+  it("starts, marks and resets a bisect session with git progress messages", async () => {
+    const calls: string[] = [];
+    const logs: unknown[] = [];
+    let log = "";
+    const service = new BisectService({
+      gitRaw: async (_repositoryRoot, args) => {
+        const command = args.join(" ");
+        calls.push(command);
+        if (command === `bisect start ${bad} ${good} --`) {
+          log = `# bad: [${bad}] Break login\n# good: [${good}] Add login\n`;
+          return `Bisecting: 3 revisions left to test after this (roughly 2 steps)\n[${current}] Refactor session\n`;
+        }
+        if (command === "bisect bad") {
+          log += `# bad: [${current}] Refactor session\n# first bad commit: [${current}] Refactor session\n`;
+          return `${current} is the first bad commit\ncommit ${current}\n`;
+        }
+        if (command === "bisect log") {
+          return log;
+        }
+        if (command === "rev-parse HEAD") {
+          return `${current}\n`;
+        }
+        if (args[1] === "--bisect-vars") {
+          return "bisect_nr=3\nbisect_steps=2\n";
+        }
+
+        return args[0] === "rev-list" ? `${bad}\n${current}\n` : "";
+      },
+      logger: {
+        info: (_message, context) => logs.push(context)
+      }
+    });
+
+    const started = await service.start("/repo", good, bad);
+    expect(started.result).toEqual({
+      message: "Bisecting: 3 revisions left to test after this (roughly 2 steps)",
+      status: "ok"
+    });
+    expect(started.state).toEqual(expect.objectContaining({ active: true, remainingRevisions: 3, remainingSteps: 2 }));
+
+    const marked = await service.mark("/repo", "bad");
+    expect(marked.result).toEqual({ message: "55555555 is the first bad commit", status: "ok" });
+    expect(marked.state).toEqual(
+      expect.objectContaining({ candidates: [current], firstBad: current, remainingRevisions: 0, remainingSteps: 0 })
+    );
+
+    await expect(service.reset("/repo")).resolves.toEqual({
+      result: { message: "Bisect reset", status: "ok" },
+      state: expect.objectContaining({ active: false })
+    });
+    expect(calls.filter((command) => command.startsWith("bisect ") && command !== "bisect log")).toEqual([
+      `bisect start ${bad} ${good} --`,
+      "bisect bad",
+      "bisect reset"
+    ]);
+    expect(logs).toContainEqual({ command: "git -C /repo bisect reset" });
+  });
+
+  it("streams bisect run output to the log and cancels without a command", async () => {
+    const logs: unknown[] = [];
+    const streamedArgs: string[][] = [];
+    const showInputBox = vi.fn().mockResolvedValueOnce(undefined).mockResolvedValueOnce(" npm test ");
+    const service = new BisectService({
+      gitRaw: async () => "",
+      gitStream: async (_repositoryRoot, args, onOutput) => {
+        streamedArgs.push([...args]);
+        onOutput("running  'sh' '-c' 'npm test'\nBisecting: 0 revisions");
+        onOutput(" left to test after this (roughly 0 steps)\n");
+        onOutput(`${current} is the first bad commit`);
+        return `Bisecting: 0 revisions left to test after this (roughly 0 steps)\n${current} is the first bad commit\n`;
+      },
+      logger: {
+        info: (message, context) => logs.push([message, context])
+      },
+      showInputBox
+    });
+
+    await expect(service.run("/repo")).resolves.toEqual({
+      result: { message: "Bisect run cancelled", status: "cancelled" },
+      state: expect.objectContaining({ active: false })
+    });
+    await expect(service.run("/repo")).resolves.toEqual({
+      result: { message: "55555555 is the first bad commit", status: "ok" },
+      state: expect.objectContaining({ active: false })
+    });
+
+    expect(streamedArgs).toEqual([["bisect", "run", "sh", "-c", "npm test"]]);
+    expect(logs).toEqual([
+      ["git.command", { command: "git -C /repo bisect run sh -c npm test" }],
+      ["git.bisect.run", { output: "running  'sh' '-c' 'npm test'" }],
+      ["git.bisect.run", { output: "Bisecting: 0 revisions left to test after this (roughly 0 steps)" }],
+      ["git.bisect.run", { output: `${current} is the first bad commit` }]
+    ]);
+    expect(showInputBox).toHaveBeenLastCalledWith(expect.objectContaining({ value: undefined }));
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
-import { BlameController } from "../../src/backend/vscode/BlameController";
+import { BlameController, type BlameControllerInput } from "../../src/backend/vscode/BlameController";
 import type { SettingsViewModel } from "../../src/backend/rpc/contract";
+import type { BlameOptions } from "../../src/state/SettingsService";
 
 describe("BlameController", () => {
   it("shows relative commit time after the author in inline blame", async () => {
@@ -57,7 +58,7 @@ describe("BlameController", () => {
     expect(hoverMessages).toEqual([
       expect.objectContaining({
         isTrusted: {
-          enabledCommands: ["guigit.showCommitDetails", "guigit.copyCommitHash"]
+          enabledCommands: ["guigit.showCommitDetails", "guigit.copyCommitHash", "guigit.blamePreviousRevision"]
         },
         value: expect.stringContaining("command:guigit.showCommitDetails")
       })
@@ -87,6 +88,228 @@ describe("BlameController", () => {
     ]);
   });
 
+  it("honors ignore-revs files and blame move detection settings", async () => {
+    const editor = createEditor(0);
+    const gitRaw = vi.fn(async (_rootPath: string, args: readonly string[]) => args[0] === "blame" ? blameOutput : "");
+    const controller = createController({
+      blameOptions: {
+        detectCopiedLines: true,
+        detectMovedLines: true,
+        displayMode: "inline",
+        ignoreWhitespace: true
+      },
+      editor,
+      fileExists: (path) => path === "/repo/.git-blame-ignore-revs",
+      gitRaw,
+      settings: createSettings({})
+    });
+
+    await controller.refreshEditor(editor);
+
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["config", "--path", "--get", "blame.ignoreRevsFile"]);
+    expect(gitRaw).toHaveBeenLastCalledWith("/repo", [
+      "blame",
+      "--line-porcelain",
+      "-w",
+      "-M",
+      "-C",
+      "--ignore-revs-file",
+      "/repo/.git-blame-ignore-revs",
+      "--",
+      "src/app.ts"
+    ]);
+  });
+
+  it("prefers blame.ignoreRevsFile and clears it when the configured file is missing", async () => {
+    const editor = createEditor(0);
+    const gitRaw = vi.fn(async (_rootPath: string, args: readonly string[]) => args[0] === "blame" ? blameOutput : "config/ignore-revs\n");
+    const existingFiles = new Set(["/repo/config/ignore-revs"]);
+    const controller = createController({
+      editor,
+      fileExists: (path) => existingFiles.has(path),
+      gitRaw,
+      settings: createSettings({})
+    });
+
+    await controller.refreshEditor(editor);
+    existingFiles.clear();
+    editor.document.version = 2;
+    await controller.refreshEditor(editor);
+
+    const blameCalls = gitRaw.mock.calls.filter(([, args]) => args[0] === "blame").map(([, args]) => args);
+    expect(blameCalls).toEqual([
+      ["blame", "--line-porcelain", "--ignore-revs-file", "/repo/config/ignore-revs", "--", "src/app.ts"],
+      ["blame", "--line-porcelain", "--ignore-revs-file", "", "--", "src/app.ts"]
+    ]);
+  });
+
+  it("links to the previous revision from the hover and walks back through a line's history", async () => {
+    const editor = createEditor(1);
+    const hoverMessages: Array<{ value: string }> = [];
+    const executeCommand = vi.fn();
+    const gitRaw = vi.fn(async (_rootPath: string, args: readonly string[]) => {
+      if (args[0] !== "blame") {
+        return "";
+      }
+
+      return args.includes("-L") ? previousBlameOutput : blameOutput;
+    });
+    const showInformationMessage = vi.fn()
+      .mockResolvedValueOnce("Blame Previous Revision")
+      .mockResolvedValueOnce("Open Commit");
+    const controller = createController({
+      createMarkdownString: (value) => {
+        const markdown = { isTrusted: false, value };
+        hoverMessages.push(markdown);
+        return markdown;
+      },
+      editor,
+      executeCommand,
+      gitRaw,
+      settings: createSettings({}),
+      showInformationMessage
+    });
+
+    await controller.refreshEditor(editor);
+
+    const target = { line: 2, path: "src/graph.ts", revision: "fedcba9876543210fedc", rootPath: "/repo" };
+    expect(hoverMessages[0]!.value).toContain(
+      `[Blame Previous Revision](command:guigit.blamePreviousRevision?${encodeURIComponent(JSON.stringify([target]))})`
+    );
+
+    await controller.blamePreviousRevision(target);
+
+    expect(gitRaw).toHaveBeenCalledWith("/repo", [
+      "blame",
+      "--line-porcelain",
+      "-L",
+      "2,2",
+      "fedcba9876543210fedc",
+      "--",
+      "src/graph.ts"
+    ]);
+    expect(showInformationMessage).toHaveBeenNthCalledWith(
+      1,
+      "1234567 Linus, 2026-05-01 10:00:00 +0800: Move graph helpers",
+      "Open Commit",
+      "Blame Previous Revision"
+    );
+    expect(gitRaw).toHaveBeenLastCalledWith("/repo", [
+      "blame",
+      "--line-porcelain",
+      "-L",
+      "5,5",
+      "0123456789abcdef0123",
+      "--",
+      "src/graph-old.ts"
+    ]);
+    expect(showInformationMessage).toHaveBeenCalledTimes(2);
+    expect(executeCommand).toHaveBeenCalledWith("guigit.showCommitDetails", "1234567890abcdef1234");
+  });
+
+  it("renders full-file gutter blocks colored from newest to oldest and reuses blame for the same document version", async () => {
+    const editor = createEditor(0);
+    const hoverMessages: Array<{ value: string }> = [];
+    const gitRaw = vi.fn(async (_rootPath: string, args: readonly string[]) => args[0] === "blame" ? gutterBlameOutput : "");
+    const controller = createController({
+      blameOptions: {
+        detectCopiedLines: false,
+        detectMovedLines: false,
+        displayMode: "gutter",
+        ignoreWhitespace: false
+      },
+      createMarkdownString: (value) => {
+        const markdown = { isTrusted: false, value };
+        hoverMessages.push(markdown);
+        return markdown;
+      },
+      editor,
+      gitRaw,
+      settings: createSettings({})
+    });
+
+    await controller.refreshEditor(editor);
+    editor.selection.active.line = 2;
+    await controller.refreshEditor(editor);
+
+    const gutterCalls = editor.setDecorations.mock.calls.filter(([type]) => type === "gutter");
+    expect(gutterCalls).toHaveLength(1);
+    expect(gutterCalls[0]![1]).toEqual([
+      {
+        hoverMessage: hoverMessages[0],
+        range: { endCharacter: 0, line: 0, startCharacter: 0 },
+        renderOptions: { before: { backgroundColor: "rgba(240, 128, 48, 0.35)", contentText: "Ada 2026-05-07" } }
+      },
+      {
+        hoverMessage: hoverMessages[0],
+        range: { endCharacter: 0, line: 1, startCharacter: 0 },
+        renderOptions: { before: { backgroundColor: "rgba(240, 128, 48, 0.35)", contentText: "\u00a0" } }
+      },
+      {
+        hoverMessage: hoverMessages[1],
+        range: { endCharacter: 0, line: 2, startCharacter: 0 },
+        renderOptions: { before: { backgroundColor: "rgba(64, 128, 224, 0.35)", contentText: "Grace 2026-05-07" } }
+      }
+    ]);
+    expect(hoverMessages[0]!.value).toContain(`command:guigit.showCommitDetails?${encodeURIComponent(JSON.stringify(["abc1234567890abcdef"]))}`);
+    expect(gitRaw.mock.calls.filter(([, args]) => args[0] === "blame")).toHaveLength(1);
+  });
+
+  it("shifts cached blame through document edits without running git blame again", async () => {
+    const editor = createEditor(2);
+    let changeListener: ((event: never) => void) | undefined;
+    const gitRaw = vi.fn(async (_rootPath: string, args: readonly string[]) => args[0] === "blame" ? gutterBlameOutput : "");
+    const controller = createController({
+      editor,
+      gitRaw,
+      onDidChangeTextDocument: (listener) => {
+        changeListener = listener as (event: never) => void;
+        return { dispose: vi.fn() };
+      },
+      settings: createSettings({})
+    });
+
+    await controller.refreshEditor(editor);
+    editor.document.version = 2;
+    changeListener!({
+      contentChanges: [{ range: { end: { character: 0, line: 0 }, start: { character: 0, line: 0 } }, text: "// header\n" }],
+      document: editor.document
+    } as never);
+    editor.selection.active.line = 3;
+    await controller.refreshEditor(editor);
+    editor.selection.active.line = 0;
+    await controller.refreshEditor(editor);
+
+    expect(gitRaw.mock.calls.filter(([, args]) => args[0] === "blame")).toHaveLength(1);
+    const inlineDecorations = editor.setDecorations.mock.calls
+      .filter(([type]) => type === "decoration")
+      .map(([, decorations]) => decorations.map((item: { renderOptions: { after: { contentText: string } } }) => item.renderOptions.after.contentText));
+    expect(inlineDecorations.at(-2)).toEqual([expect.stringContaining("Grace")]);
+    expect(inlineDecorations.at(-1)).toEqual([]);
+  });
+
+  it("drops cached blame when its document is closed", async () => {
+    const editor = createEditor(2);
+    let closeListener: ((document: never) => void) | undefined;
+    const gitRaw = vi.fn(async (_rootPath: string, args: readonly string[]) => args[0] === "blame" ? gutterBlameOutput : "");
+    const controller = createController({
+      editor,
+      gitRaw,
+      onDidCloseTextDocument: (listener) => {
+        closeListener = listener as (document: never) => void;
+        return { dispose: vi.fn() };
+      },
+      settings: createSettings({})
+    });
+
+    await controller.refreshEditor(editor);
+    await controller.refreshEditor(editor);
+    closeListener!(editor.document as never);
+    await controller.refreshEditor(editor);
+
+    expect(gitRaw.mock.calls.filter(([, args]) => args[0] === "blame")).toHaveLength(2);
+  });
+
   it("clears decorations when blame is disabled", async () => {
     const editor = createEditor(0);
     const controller = createController({
@@ -127,29 +350,48 @@ describe("BlameController", () => {
 });
 
 function createController(input: {
+  blameOptions?: BlameOptions;
+  onDidChangeTextDocument?: BlameControllerInput["onDidChangeTextDocument"];
+  onDidCloseTextDocument?: BlameControllerInput["onDidCloseTextDocument"];
   editor: ReturnType<typeof createEditor>;
+  executeCommand?: (command: string, ...args: readonly unknown[]) => Promise<unknown>;
+  fileExists?: (path: string) => boolean;
+  gitRaw?: (rootPath: string, args: readonly string[]) => Promise<string>;
   now?: () => Date;
   settings: SettingsViewModel;
+  showInformationMessage?: (message: string, ...actions: string[]) => Promise<string | undefined>;
   updateBlameEnabled?: (enabled: boolean) => Promise<void>;
   createMarkdownString?: (value: string) => unknown;
 }): BlameController {
   return new BlameController({
     activeEditor: () => input.editor,
     createDecorationType: () => "decoration",
+    createGutterDecorationType: () => "gutter",
     createRange: (line, startCharacter, _endLine, endCharacter) => ({
       endCharacter,
       line,
       startCharacter
     }),
     createMarkdownString: input.createMarkdownString ?? ((value) => ({ isTrusted: true, value })),
-    gitRaw: async () => blameOutput,
+    executeCommand: input.executeCommand ?? (async () => undefined),
+    fileExists: input.fileExists ?? (() => false),
+    gitRaw: input.gitRaw ?? (async (_rootPath, args) => args[0] === "blame" ? blameOutput : ""),
     now: input.now ?? (() => new Date("2026-05-09T10:00:00+08:00")),
+    onDidChangeTextDocument: input.onDidChangeTextDocument,
+    onDidCloseTextDocument: input.onDidCloseTextDocument,
     repositoryService: {
       discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }]
     },
     settingsService: {
+      getBlameOptions: () => input.blameOptions ?? {
+        detectCopiedLines: false,
+        detectMovedLines: false,
+        displayMode: "inline",
+        ignoreWhitespace: false
+      },
       getSettings: () => input.settings
     },
+    showInformationMessage: input.showInformationMessage ?? (async () => undefined),
     updateBlameEnabled: input.updateBlameEnabled ?? (async () => undefined)
   });
 }
@@ -167,7 +409,8 @@ function createEditor(activeLine: number) {
       uri: {
         fsPath: "/repo/src/app.ts",
         scheme: "file"
-      }
+      },
+      version: 1
     },
     selection: {
       active: {
@@ -210,5 +453,46 @@ const blameOutput = [
   "author-time 1778115600",
   "author-tz +0800",
   "summary Add graph with an intentionally long commit summary that should be trimmed before it consumes the whole editor row",
+  "previous fedcba9876543210fedc src/graph.ts",
+  "filename src/app.ts",
+  "\tconst two = 2;"
+].join("\n");
+
+const gutterBlameOutput = [
+  "abc1234567890abcdef 1 1 2",
+  "author Ada",
+  "author-mail <ada@example.com>",
+  "author-time 1778119200",
+  "author-tz +0800",
+  "summary Wire data",
+  "filename src/app.ts",
+  "\tconst one = 1;",
+  "abc1234567890abcdef 2 2",
+  "author Ada",
+  "author-mail <ada@example.com>",
+  "author-time 1778119200",
+  "author-tz +0800",
+  "summary Wire data",
+  "filename src/app.ts",
+  "\tconst two = 2;",
+  "def4567890abcdefabc 3 3 1",
+  "author Grace",
+  "author-mail <grace@example.com>",
+  "author-time 1778115600",
+  "author-tz +0800",
+  "summary Add graph",
+  "filename src/app.ts",
+  "\tconst three = 3;"
+].join("\n");
+
+const previousBlameOutput = [
+  "1234567890abcdef1234 5 2 1",
+  "author Linus",
+  "author-mail <linus@example.com>",
+  "author-time 1777600800",
+  "author-tz +0800",
+  "summary Move graph helpers",
+  "previous 0123456789abcdef0123 src/graph-old.ts",
+  "filename src/graph.ts",
   "\tconst two = 2;"
 ].join("\n");
@@ -1,6 +1,12 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { BranchService } from "../../src/backend/git/BranchService";
 
+vi.mock("vscode", () => ({
+  window: {
+    showWarningMessage: vi.fn()
+  }
+}));
+
 describe("BranchService", () => {
   it("returns sorted local branches and remote branches grouped by remote", async () => {
     const service = new BranchService({
@@ -16,14 +22,18 @@ describe("BranchService", () => {
           all: ["feature-x", "main", "master"],
           current: "main"
         };
+      },
+      gitRaw: async (_repositoryRoot, args) => {
+        expect(args[0]).toBe("for-each-ref");
+        return ["feature-x\0origin/feature-x\0ahead 2, behind 1", "main\0origin/main\0", "master\0\0"].join("\n");
       }
     });
 
     await expect(service.listBranches("/workspace/repo")).resolves.toEqual({
       locals: [
-        { current: true, name: "main" },
+        { ahead: 0, behind: 0, current: true, name: "main", upstream: "origin/main" },
         { current: false, name: "master" },
-        { current: false, name: "feature-x" }
+        { ahead: 2, behind: 1, current: false, name: "feature-x", upstream: "origin/feature-x" }
       ],
       remotes: [
         {
@@ -40,4 +50,106 @@ describe("BranchService", () => {
       ]
     });
   });
+
+  it("renames branches and sets or removes upstreams", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return "";
+      }
+    });
+
+    await expect(service.renameBranch("/repo", "feature", " feature-2 ")).resolves.toEqual({
+      message: "Renamed branch feature to feature-2",
+      status: "ok"
+    });
+    await expect(service.setUpstream("/repo", "feature-2", "origin/feature")).resolves.toEqual({
+      message: "Set upstream of feature-2 to origin/feature",
+      status: "ok"
+    });
+    await expect(service.setUpstream("/repo", "feature-2")).resolves.toEqual({
+      message: "Removed upstream of feature-2",
+      status: "ok"
+    });
+    await expect(service.renameBranch("/repo", "feature", " ")).rejects.toThrow("Branch name is required");
+    expect(calls).toEqual([
+      "branch -m feature feature-2",
+      "branch --set-upstream-to=origin/feature feature-2",
+      "branch --unset-upstream feature-2"
+    ]);
+  });
+
+  it("warns about unmerged commits before deleting local branches", async () => {
+    const calls: string[] = [];
+    const showWarningMessage = vi.fn().mockResolvedValueOnce("Delete Branch").mockResolvedValueOnce("Force Delete").mockResolvedValueOnce(undefined);
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args[0] === "rev-list" ? (args[2] === "HEAD..refs/heads/merged" ? "0\n" : "3\n") : "";
+      },
+      showWarningMessage
+    });
+
+    await expect(service.deleteBranch("/repo", "merged")).resolves.toEqual({ message: "Deleted branch merged", status: "ok" });
+    await expect(service.deleteBranch("/repo", "topic")).resolves.toEqual({ message: "Deleted branch topic", status: "ok" });
+    await expect(service.deleteBranch("/repo", "topic")).resolves.toEqual({
+      message: "Delete branch topic cancelled",
+      status: "cancelled"
+    });
+    expect(showWarningMessage).toHaveBeenNthCalledWith(1, "Delete branch merged?", { modal: true }, "Delete Branch");
+    expect(showWarningMessage).toHaveBeenNthCalledWith(
+      2,
+      "Branch topic has 3 commits not merged into the current branch. Delete it anyway?",
+      { modal: true },
+      "Force Delete"
+    );
+    expect(calls).toEqual([
+      "rev-list --count HEAD..refs/heads/merged",
+      "branch -d merged",
+      "rev-list --count HEAD..refs/heads/topic",
+      "branch -D topic",
+      "rev-list --count HEAD..refs/heads/topic"
+    ]);
+  });
+
+  it("force deletes local branches and deletes remote branches with push", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args[0] === "rev-list" ? "0\n" : "";
+      },
+      showWarningMessage: async (_message, _options, ...items) => items[0]
+    });
+
+    await expect(service.deleteBranch("/repo", "feature", { force: true })).resolves.toEqual({
+      message: "Deleted branch feature",
+      status: "ok"
+    });
+    await expect(service.deleteBranch("/repo", "origin/team/feature", { remote: "origin" })).resolves.toEqual({
+      message: "Deleted remote branch origin/team/feature",
+      status: "ok"
+    });
+    expect(calls).toEqual([
+      "rev-list --count HEAD..refs/heads/feature",
+      "branch -D feature",
+      "push origin --delete team/feature"
+    ]);
+  });
 });
+
+function createService(input: {
+  gitRaw?: (repositoryRoot: string, args: readonly string[]) => Promise<string>;
+  showWarningMessage?: (
+    message: string,
+    options: { modal: boolean },
+    ...items: readonly string[]
+  ) => Thenable<string | undefined> | Promise<string | undefined>;
+}): BranchService {
+  return new BranchService({
+    branchSummary: async () => ({ all: [], current: "" }),
+    gitRaw: input.gitRaw ?? (async () => ""),
+    showWarningMessage: input.showWarningMessage
+  });
+}
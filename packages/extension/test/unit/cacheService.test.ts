@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { CacheService } from "../../src/state/CacheService";
 import type { CommitDetailsViewModel } from "../../src/backend/rpc/contract";
 
@@ -29,4 +29,105 @@ describe("CacheService", () => {
 
     expect(cache.getCommitDetails("/workspace/repo", "abc1234")).toBe(details);
   });
+
+  it("evicts the least recently used entries beyond the size bound", () => {
+    const cache = new CacheService({ maxEntries: 2 });
+
+    cache.setTotalCommitCount("a", 1);
+    cache.setTotalCommitCount("b", 2);
+    cache.getTotalCommitCount("a");
+    cache.setTotalCommitCount("c", 3);
+
+    expect(cache.getTotalCommitCount("a")).toBe(1);
+    expect(cache.getTotalCommitCount("b")).toBeUndefined();
+    expect(cache.getTotalCommitCount("c")).toBe(3);
+  });
+
+  it("persists entries to storage and restores them in a new session", async () => {
+    const files = new Map<string, string>();
+    const writeTextFile = vi.fn(async (path: string, content: string) => {
+      files.set(path, content);
+    });
+    const cache = new CacheService({ storagePath: "/storage/commit-cache.json", writeTextFile });
+    const commit = {
+      author: "Ada",
+      date: "2026-05-07 10:00:00 +0800",
+      email: "ada@example.com",
+      hash: "abc1234",
+      message: "Initial commit",
+      parents: [],
+      refs: [],
+      shortHash: "abc1234"
+    };
+
+    cache.setHistoryPage("/workspace/repo", "page", [commit]);
+    cache.setTotalCommitCount("/workspace/repo:all", 42);
+    await cache.flush();
+
+    const restored = new CacheService({
+      maxEntries: 1,
+      readFile: async (path) => files.get(path) ?? "",
+      storagePath: "/storage/commit-cache.json"
+    });
+    restored.setTotalCommitCount("/workspace/repo:main", 7);
+    await restored.load();
+
+    expect(writeTextFile).toHaveBeenCalledTimes(1);
+    expect(restored.getHistoryPage("/workspace/repo", "page")).toEqual([commit]);
+    expect(restored.getTotalCommitCount("/workspace/repo:all")).toBeUndefined();
+    expect(restored.getTotalCommitCount("/workspace/repo:main")).toBe(7);
+  });
+
+  it("drops the oldest history pages until the saved cache fits the byte limit", async () => {
+    const files = new Map<string, string>();
+    const cache = new CacheService({
+      maxBytes: 700,
+      storagePath: "/storage/commit-cache.json",
+      writeTextFile: async (path, content) => {
+        files.set(path, content);
+      }
+    });
+    const page = (message: string) => [
+      {
+        author: "Ada",
+        date: "2026-05-07 10:00:00 +0800",
+        email: "ada@example.com",
+        hash: "abc1234",
+        message: message.repeat(40),
+        parents: [],
+        refs: [],
+        shortHash: "abc1234"
+      }
+    ];
+
+    cache.setHistoryPage("/workspace/repo", "first", page("a"));
+    cache.setHistoryPage("/workspace/repo", "second", page("b"));
+    cache.setHistoryPage("/workspace/repo", "third", page("c"));
+    cache.setTotalCommitCount("/workspace/repo:all", 42);
+    await cache.flush();
+
+    const saved = files.get("/storage/commit-cache.json")!;
+    expect(Buffer.byteLength(saved)).toBeLessThanOrEqual(700);
+    expect(cache.getHistoryPage("/workspace/repo", "first")).toBeUndefined();
+    expect(cache.getHistoryPage("/workspace/repo", "third")).toEqual(page("c"));
+    expect(cache.getTotalCommitCount("/workspace/repo:all")).toBe(42);
+  });
+
+  it("ignores missing or incompatible cache files", async () => {
+    const missing = new CacheService({
+      readFile: async () => {
+        throw new Error("ENOENT");
+      },
+      storagePath: "/storage/commit-cache.json"
+    });
+    const incompatible = new CacheService({
+      readFile: async () => JSON.stringify({ totalCommitCounts: [["repo:all", 1]], version: 0 }),
+      storagePath: "/storage/commit-cache.json"
+    });
+
+    await missing.load();
+    await incompatible.load();
+
+    expect(incompatible.getTotalCommitCount("repo:all")).toBeUndefined();
+  });
 });
@@ -4,11 +4,14 @@ import { registerGitHistoryCommands } from "../../src/extension/commands";
 describe("git history commands", () => {
   it("registers compatible guigit commands and delegates to backend boundaries", async () => {
     const callbacks = new Map<string, (...args: readonly unknown[]) => unknown>();
+    const blamePreviousRevision = vi.fn();
     const executeCommand = vi.fn();
     const refresh = vi.fn();
     const revealCommit = vi.fn();
     const showFileHistoryForUri = vi.fn();
+    const showLineHistory = vi.fn();
     const toggleBlame = vi.fn();
+    const undoLastOperation = vi.fn();
     const writeClipboardText = vi.fn();
 
     registerGitHistoryCommands({
@@ -18,6 +21,9 @@ describe("git history commands", () => {
         debug: vi.fn(),
         info: vi.fn()
       },
+      operations: {
+        undoLastOperation
+      },
       registerCommand: (command, callback) => {
         callbacks.set(command, callback);
         return { dispose: vi.fn() };
@@ -25,9 +31,11 @@ describe("git history commands", () => {
       view: {
         refresh,
         revealCommit,
-        showFileHistoryForUri
+        showFileHistoryForUri,
+        showLineHistory
       },
       blame: {
+        blamePreviousRevision,
         toggleBlame
       }
     });
@@ -36,23 +44,33 @@ describe("git history commands", () => {
       "guigit.showHistory",
       "guigit.refresh",
       "guigit.viewFileHistory",
+      "guigit.viewLineHistory",
       "guigit.toggleBlame",
+      "guigit.blamePreviousRevision",
       "guigit.showCommitDetails",
-      "guigit.copyCommitHash"
+      "guigit.copyCommitHash",
+      "guigit.undoLastOperation"
     ]);
 
     await callbacks.get("guigit.showHistory")!();
     callbacks.get("guigit.refresh")!();
     await callbacks.get("guigit.viewFileHistory")!("file-uri");
+    await callbacks.get("guigit.viewLineHistory")!();
     callbacks.get("guigit.toggleBlame")!();
+    callbacks.get("guigit.blamePreviousRevision")!({ line: 3, path: "src/app.ts", revision: "abc1234", rootPath: "/repo" });
     await callbacks.get("guigit.showCommitDetails")!("abc1234");
     await callbacks.get("guigit.copyCommitHash")!("abc1234");
+    await callbacks.get("guigit.undoLastOperation")!();
 
     expect(executeCommand).toHaveBeenCalledWith("workbench.view.extension.guigit");
     expect(refresh).toHaveBeenCalledWith("command");
+    expect(refresh).toHaveBeenCalledTimes(2);
     expect(showFileHistoryForUri).toHaveBeenCalledWith("file-uri");
+    expect(showLineHistory).toHaveBeenCalled();
     expect(toggleBlame).toHaveBeenCalled();
+    expect(blamePreviousRevision).toHaveBeenCalledWith({ line: 3, path: "src/app.ts", revision: "abc1234", rootPath: "/repo" });
     expect(revealCommit).toHaveBeenCalledWith("abc1234");
     expect(writeClipboardText).toHaveBeenCalledWith("abc1234");
+    expect(undoLastOperation).toHaveBeenCalled();
   });
 });
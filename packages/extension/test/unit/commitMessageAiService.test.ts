@@ -1,5 +1,9 @@
 import { describe, expect, it, vi } from "vitest";
-import { CommitMessageAiService, type CommitMessageAiServiceInput } from "../../src/backend/git/CommitMessageAiService";
+import {
+  CommitMessageAiService,
+  type CommitMessageAiServiceInput,
+  type CommitMessageStreamOptions
+} from "../../src/backend/git/CommitMessageAiService";
 import type { AiProviderKind, SettingsViewModel } from "../../src/backend/rpc/contract";
 
 describe("CommitMessageAiService", () => {
@@ -37,10 +41,10 @@ describe("CommitMessageAiService", () => {
     expect(gitRaw).toHaveBeenNthCalledWith(1, "/repo", ["diff", "--cached", "--stat"]);
     expect(gitRaw).toHaveBeenNthCalledWith(2, "/repo", ["diff", "--cached", "--name-status"]);
     expect(languageModelProvider.generate).toHaveBeenCalledWith(
-      expect.stringContaining("src/a.ts")
+      expect.stringContaining("src/a.ts"), streamOptions
     );
     expect(languageModelProvider.generate).toHaveBeenCalledWith(
-      expect.stringContaining("one conventional commit message line")
+      expect.stringContaining("one conventional commit message line"), streamOptions
     );
     expect(openAICompatibleProvider.generate).not.toHaveBeenCalled();
   });
@@ -75,7 +79,7 @@ describe("CommitMessageAiService", () => {
 
     await service.generate("/repo");
 
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("+export const value = 1;"));
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("+export const value = 1;"), streamOptions);
   });
 
   it("decodes quoted UTF-8 staged paths before requesting text diff content", async () => {
@@ -111,8 +115,8 @@ describe("CommitMessageAiService", () => {
     await service.generate("/repo");
 
     expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--cached", "--no-ext-diff", "--", decodedPath]);
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining(`- ${decodedPath}`));
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("+content"));
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining(`- ${decodedPath}`), streamOptions);
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("+content"), streamOptions);
   });
 
   it("lists binary staged files without requesting their patch content", async () => {
@@ -147,8 +151,8 @@ describe("CommitMessageAiService", () => {
 
     expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--cached", "--no-ext-diff", "--", "src/a.ts"]);
     expect(gitRaw).not.toHaveBeenCalledWith("/repo", ["diff", "--cached", "--no-ext-diff", "--", "assets/logo.png"]);
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("Binary files changed:"));
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("- assets/logo.png"));
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("Binary files changed:"), streamOptions);
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("- assets/logo.png"), streamOptions);
   });
 
   it("treats renamed binary staged files as binary metadata", async () => {
@@ -182,9 +186,9 @@ describe("CommitMessageAiService", () => {
     await service.generate("/repo");
 
     expect(gitRaw).not.toHaveBeenCalledWith("/repo", ["diff", "--cached", "--no-ext-diff", "--", "assets/logo.png"]);
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("Binary files changed:"));
-    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("- assets/logo.png"));
-    expect(languageModelProvider.generate).not.toHaveBeenCalledWith(expect.stringContaining("Binary files a/assets/old-logo.png"));
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("Binary files changed:"), streamOptions);
+    expect(languageModelProvider.generate).toHaveBeenCalledWith(expect.stringContaining("- assets/logo.png"), streamOptions);
+    expect(languageModelProvider.generate).not.toHaveBeenCalledWith(expect.stringContaining("Binary files a/assets/old-logo.png"), streamOptions);
   });
 
   it("uses the OpenAI-compatible provider when selected", async () => {
@@ -222,7 +226,7 @@ describe("CommitMessageAiService", () => {
       model: "gpt-test",
       prompt: expect.stringContaining("src/a.ts"),
       protocol: "responses"
-    });
+    }, streamOptions);
   });
 
   it("uses custom prompt rules when configured", async () => {
@@ -254,13 +258,13 @@ describe("CommitMessageAiService", () => {
     await service.generate("/repo");
 
     expect(languageModelProvider.generate).toHaveBeenCalledWith(
-      expect.stringContaining("Use refactor type and mention cache behavior.")
+      expect.stringContaining("Use refactor type and mention cache behavior."), streamOptions
     );
     expect(languageModelProvider.generate).toHaveBeenCalledWith(
-      expect.stringContaining("src/cache.ts")
+      expect.stringContaining("src/cache.ts"), streamOptions
     );
     expect(languageModelProvider.generate).not.toHaveBeenCalledWith(
-      expect.stringContaining("one conventional commit message line")
+      expect.stringContaining("one conventional commit message line"), streamOptions
     );
   });
 
@@ -314,6 +318,224 @@ describe("CommitMessageAiService", () => {
     expect(finalPrompt).not.toContain("one conventional commit message line");
   });
 
+  it("generates distinct candidates in parallel and reports streamed text per candidate", async () => {
+    const postProgress = vi.fn();
+    const languageModelProvider = {
+      generate: vi.fn(async (_prompt: string, options?: CommitMessageStreamOptions) => {
+        const message = languageModelProvider.generate.mock.calls.length === 2 ? "fix: second option" : "feat: first option";
+        options?.onText?.(message);
+        return message;
+      })
+    };
+    const service = createService({ languageModelProvider, postProgress });
+
+    await expect(service.generate("/repo", { candidates: 3, requestId: "request-1" })).resolves.toEqual({
+      candidates: [{ message: "feat: first option" }, { message: "fix: second option" }],
+      duplicateCount: 1,
+      suggestion: { message: "feat: first option" }
+    });
+
+    expect(languageModelProvider.generate).toHaveBeenCalledTimes(3);
+    expect(postProgress).toHaveBeenCalledWith({ candidate: 0, requestId: "request-1", text: "feat: first option" });
+    expect(postProgress).toHaveBeenCalledWith({ candidate: 1, requestId: "request-1", text: "fix: second option" });
+    expect(postProgress).toHaveBeenCalledWith({ candidate: 2, requestId: "request-1", text: "feat: first option" });
+  });
+
+  it("caps the requested candidate count", async () => {
+    const languageModelProvider = {
+      generate: vi.fn().mockResolvedValue("feat: generated")
+    };
+    const service = createService({ languageModelProvider });
+
+    await service.generate("/repo", { candidates: 50 });
+
+    expect(languageModelProvider.generate).toHaveBeenCalledTimes(5);
+  });
+
+  it("aborts a running generation when it is cancelled", async () => {
+    const languageModelProvider = {
+      generate: vi.fn(
+        (_prompt: string, options?: CommitMessageStreamOptions) =>
+          new Promise<string>((_resolve, reject) => {
+            options?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+          })
+      )
+    };
+    const service = createService({ languageModelProvider });
+
+    const generation = service.generate("/repo", { requestId: "request-1" });
+    await vi.waitFor(() => expect(languageModelProvider.generate).toHaveBeenCalled());
+
+    expect(service.cancel("request-1")).toEqual({ message: "Commit message generation cancelled", status: "ok" });
+    await expect(generation).rejects.toThrow("Commit message generation cancelled");
+    expect(service.cancel("request-1")).toEqual({ message: "No commit message generation is running", status: "cancelled" });
+  });
+
+  it("explains an existing commit with the full provider text", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      const command = args.join(" ");
+      if (command === "show -s --format=%B abc123") {
+        return "feat: add parser\n\nSupports nested blocks.\n";
+      }
+      if (command === "show --first-parent --stat --format= abc123") {
+        return " src/parser.ts | 2 +";
+      }
+      if (command === "show --first-parent --no-ext-diff --format= abc123") {
+        return "diff --git a/src/parser.ts b/src/parser.ts\n+parseBlock();\n";
+      }
+
+      return "";
+    });
+    const languageModelProvider = {
+      complete: vi.fn().mockResolvedValue("Adds a parser.\n\n- Supports nested blocks"),
+      generate: vi.fn()
+    };
+    const service = createService({ gitRaw, languageModelProvider });
+
+    await expect(service.summarizeCommit("/repo", "abc123")).resolves.toEqual({
+      summary: {
+        kind: "commit",
+        markdown: "Adds a parser.\n\n- Supports nested blocks"
+      }
+    });
+
+    const prompt = languageModelProvider.complete.mock.calls[0]![0] as string;
+    expect(prompt).toContain("Explain this git commit to a reviewer in Markdown.");
+    expect(prompt).toContain("Supports nested blocks.");
+    expect(prompt).toContain("+parseBlock();");
+    expect(languageModelProvider.generate).not.toHaveBeenCalled();
+  });
+
+  it("summarizes oversized commit ranges from chunk summaries", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      const command = args.join(" ");
+      if (command === "merge-base --is-ancestor base head") {
+        return "";
+      }
+      if (command === "log --no-merges --format=- %h %s (%an) base..head") {
+        return "- 111aaaa feat: add a (Ada)\n- 222bbbb fix: repair b (Linus)\n";
+      }
+      if (command === "diff --no-ext-diff base head") {
+        return "diff --git a/src/a.ts b/src/a.ts\n+export const a = 1;\n\ndiff --git a/src/b.ts b/src/b.ts\n+export const b = 2;\n";
+      }
+
+      return "";
+    });
+    const languageModelProvider = {
+      complete: vi
+        .fn()
+        .mockResolvedValueOnce("src/a.ts adds a.")
+        .mockResolvedValueOnce("src/b.ts repairs b.")
+        .mockResolvedValueOnce("## Features\n- Add a"),
+      generate: vi.fn()
+    };
+    const service = createService({ gitRaw, languageModelProvider, promptWindowCharacters: 60 });
+
+    await expect(service.summarizeRange("/repo", "head", "base", "releaseNotes")).resolves.toEqual({
+      summary: {
+        kind: "releaseNotes",
+        markdown: "## Features\n- Add a"
+      }
+    });
+
+    expect(languageModelProvider.complete).toHaveBeenCalledTimes(3);
+    const chunkPrompt = languageModelProvider.complete.mock.calls[0]![0] as string;
+    expect(chunkPrompt).toContain("Summarize this commit range diff chunk factually for a later release notes generator.");
+    expect(chunkPrompt).not.toContain("staged");
+    expect(chunkPrompt).not.toContain("commit message");
+    const finalPrompt = languageModelProvider.complete.mock.calls[2]![0] as string;
+    expect(finalPrompt).toContain("Write release notes in Markdown");
+    expect(finalPrompt).toContain("- 222bbbb fix: repair b (Linus)");
+    expect(finalPrompt).toContain("Chunk 2: src/b.ts repairs b.");
+    expect(finalPrompt).not.toContain("+export const a = 1;");
+  });
+
+  it("describes commit ranges that need too many chunks from the diff statistics alone", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      const command = args.join(" ");
+      if (command === "merge-base --is-ancestor base head") {
+        return "";
+      }
+      if (command === "diff --stat base head") {
+        return " src/generated.ts | 400 +++";
+      }
+      if (command === "diff --no-ext-diff base head") {
+        return `diff --git a/src/generated.ts b/src/generated.ts\n${"+export const value = 1;\n".repeat(40)}`;
+      }
+
+      return "";
+    });
+    const languageModelProvider = {
+      complete: vi.fn().mockResolvedValue("## Summary"),
+      generate: vi.fn()
+    };
+    const service = createService({ gitRaw, languageModelProvider, promptWindowCharacters: 60 });
+
+    await service.summarizeRange("/repo", "head", "base", "pullRequest");
+
+    expect(languageModelProvider.complete).toHaveBeenCalledTimes(1);
+    const prompt = languageModelProvider.complete.mock.calls[0]![0] as string;
+    expect(prompt).toContain("src/generated.ts | 400 +++");
+    expect(prompt).toContain("The text diff is too large to include");
+    expect(prompt).not.toContain("+export const value = 1;");
+  });
+
+  it("aborts a running summary when it is cancelled", async () => {
+    const languageModelProvider = {
+      complete: vi.fn(
+        (_prompt: string, options?: CommitMessageStreamOptions) =>
+          new Promise<string>((_resolve, reject) => {
+            options?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+          })
+      ),
+      generate: vi.fn()
+    };
+    const service = createService({ languageModelProvider });
+
+    const summary = service.summarizeRange("/repo", "base", "head", "releaseNotes", { requestId: "summary-1" });
+    await vi.waitFor(() => expect(languageModelProvider.complete).toHaveBeenCalled());
+
+    expect(service.cancelSummary("summary-1")).toEqual({ message: "Summary cancelled", status: "ok" });
+    await expect(summary).rejects.toThrow("Summary cancelled");
+    expect(service.cancelSummary("summary-1")).toEqual({ message: "No summary is being generated", status: "cancelled" });
+  });
+
+  it("requests longer OpenAI-compatible completions for pull request descriptions", async () => {
+    const openAICompatibleProvider = {
+      complete: vi.fn().mockResolvedValue("## Summary"),
+      generate: vi.fn()
+    };
+    const service = createService({
+      openAICompatibleProvider,
+      settingsService: createSettingsService("openAICompatible", "sk-test")
+    });
+
+    await service.summarizeRange("/repo", "base", "head", "pullRequest");
+
+    expect(openAICompatibleProvider.complete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        apiKey: "sk-test",
+        maxTokens: 1024,
+        prompt: expect.stringContaining("Write a pull request description in Markdown")
+      }),
+      streamOptions
+    );
+  });
+
+  it("opens summaries as untitled markdown documents when the host supports it", async () => {
+    const openMarkdownDocument = vi.fn(async () => undefined);
+
+    await expect(createService({ openMarkdownDocument }).openSummary("## Notes")).resolves.toEqual({
+      message: "Opened summary as an untitled document",
+      status: "ok"
+    });
+    expect(openMarkdownDocument).toHaveBeenCalledWith("## Notes");
+    await expect(createService().openSummary("## Notes")).resolves.toEqual({
+      message: "Opening summaries is not available in this host",
+      status: "cancelled"
+    });
+  });
+
   it("returns a cancelled result when the OpenAI-compatible API key is missing", async () => {
     const service = new CommitMessageAiService({
       gitRaw: vi.fn(),
@@ -410,6 +632,8 @@ describe("CommitMessageAiService", () => {
   });
 });
 
+const streamOptions = expect.objectContaining({ signal: expect.any(AbortSignal) });
+
 function createService(
   input: Partial<CommitMessageAiServiceInput> & { promptWindowCharacters?: number } = {}
 ): CommitMessageAiService {
@@ -421,6 +645,8 @@ function createService(
     openAICompatibleProvider: input.openAICompatibleProvider ?? {
       generate: vi.fn()
     },
+    openMarkdownDocument: input.openMarkdownDocument,
+    postProgress: input.postProgress,
     promptWindowCharacters: input.promptWindowCharacters,
     settingsService: input.settingsService ?? createSettingsService("vscodeLanguageModel")
   } as CommitMessageAiServiceInput);
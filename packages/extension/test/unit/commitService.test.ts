@@ -19,6 +19,7 @@ describe("CommitService", () => {
             hash: "abc1234567890abcdef",
             parents: "def456 ghi789",
             refs: "HEAD -> main, tag: v1.0, origin/main",
+            signature: ["B", "Mallory <mallory@example.com>", "0123456789ABCDEF"],
             subject: "Initial commit"
           }),
           commitLine({
@@ -79,7 +80,8 @@ describe("CommitService", () => {
             { name: "v1.0", type: "tag" },
             { name: "origin/main", type: "remote" }
           ],
-          shortHash: "abc1234"
+          shortHash: "abc1234",
+          signature: { keyId: "0123456789ABCDEF", signer: "Mallory <mallory@example.com>", status: "bad" }
         },
         {
           author: "Grace",
@@ -89,20 +91,21 @@ describe("CommitService", () => {
           message: "Add login",
           parents: ["ghi789"],
           refs: [{ name: "feature/login", type: "remote" }],
-          shortHash: "def4567"
+          shortHash: "def4567",
+          signature: { status: "none" }
         }
       ],
       hasMore: true,
       nextCursor: "4"
     });
 
-    expect(rawCalls[0]).toEqual([
+    expect(rawCalls.find((args) => args[0] === "log")).toEqual([
       "log",
       "--branches",
       "--remotes",
       "--tags",
       "--topo-order",
-      `--pretty=format:%H${field}%ai${field}%s${field}%an${field}%ae${field}%D${field}%P${record}`,
+      `--pretty=format:%H${field}%ai${field}%s${field}%an${field}%ae${field}%D${field}%P${field}%G?%x1f%GS%x1f%GK${record}`,
       "--encoding=UTF-8",
       "--max-count=3",
       "--skip=2"
@@ -277,6 +280,46 @@ describe("CommitService", () => {
     expect(logCalls[0]).toContain("-i");
   });
 
+  it("filters history by paths, content, dates, committer and merges", async () => {
+    const logCalls: string[][] = [];
+    const service = new CommitService({
+      cache: new CacheService(),
+      gitRaw: async (_repositoryRoot, args) => {
+        if (args[0] === "log") {
+          logCalls.push([...args]);
+        }
+
+        return "";
+      }
+    });
+
+    await service.loadHistory({
+      committer: "Grace",
+      merges: "exclude",
+      pageSize: 20,
+      paths: ["src/app.ts"],
+      pickaxe: "loadHistory",
+      repositoryRoot: "/workspace/repo",
+      since: "2 weeks ago",
+      until: "2024-01-31"
+    });
+    await service.loadHistory({
+      merges: "only",
+      pageSize: 20,
+      paths: ["src/", "test/"],
+      regex: "load(History|Graph)",
+      repositoryRoot: "/workspace/repo"
+    });
+
+    expect(logCalls[0]).toEqual(
+      expect.arrayContaining(["--committer=Grace", "--since=2 weeks ago", "--until=2024-01-31", "--no-merges", "-SloadHistory"])
+    );
+    expect(logCalls[0]!.slice(-3)).toEqual(["--follow", "--", "src/app.ts"]);
+    expect(logCalls[1]).toEqual(expect.arrayContaining(["--merges", "-Gload(History|Graph)"]));
+    expect(logCalls[1]).not.toContain("--follow");
+    expect(logCalls[1]!.slice(-3)).toEqual(["--", "src/", "test/"]);
+  });
+
   it("supports hash-prefix search", async () => {
     const service = new CommitService({
       cache: new CacheService(),
@@ -369,6 +412,41 @@ describe("CommitService", () => {
     ]);
   });
 
+  it("reads history pages through the cache until refs move", async () => {
+    let refs = "abc1234567890abcdef refs/heads/main\n";
+    let logCalls = 0;
+    const cache = new CacheService();
+    const gitRaw = async (_repositoryRoot: string, args: readonly string[]): Promise<string> => {
+      if (args[0] === "log") {
+        logCalls += 1;
+        return commitLine({ hash: "abc1234567890abcdef", subject: `Load ${logCalls}` });
+      }
+      if (args[0] === "for-each-ref") {
+        return refs;
+      }
+      if (args.join(" ") === "rev-parse HEAD") {
+        return "abc1234567890abcdef\n";
+      }
+
+      return args[0] === "config" ? "Ada\n" : "";
+    };
+
+    const firstService = new CommitService({ cache, gitRaw });
+    const first = await firstService.loadHistory({ pageSize: 20, repositoryRoot: "/workspace/repo" });
+    const reopened = await new CommitService({ cache, gitRaw }).loadHistory({ pageSize: 20, repositoryRoot: "/workspace/repo" });
+
+    expect(reopened).toEqual(first);
+    expect(reopened.commits[0]).toMatchObject({ canEditMessage: true, message: "Load 1" });
+    expect(logCalls).toBe(1);
+
+    refs += "def4567890abcdefabc refs/heads/feature\n";
+    await expect(firstService.loadHistory({ pageSize: 20, repositoryRoot: "/workspace/repo" })).resolves.toMatchObject({
+      commits: [{ message: "Load 2" }]
+    });
+    await firstService.loadHistory({ pageSize: 20, repositoryRoot: "/workspace/repo", since: "2 weeks ago" });
+    expect(logCalls).toBe(3);
+  });
+
   it("caches total commit counts by repository and filters", async () => {
     const revListCalls: string[][] = [];
     const service = new CommitService({
@@ -401,6 +479,7 @@ function commitLine(input: {
   hash: string;
   parents?: string;
   refs?: string;
+  signature?: readonly [string, string, string];
   subject: string;
 }): string {
   return [
@@ -410,6 +489,7 @@ function commitLine(input: {
     input.author ?? "Ada",
     input.email ?? "ada@example.com",
     input.refs ?? "",
-    input.parents ?? ""
+    input.parents ?? "",
+    ...(input.signature ?? ["N", "", ""])
   ].join(field);
 }
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { ConflictService } from "../../src/backend/git/ConflictService";
+
+const stagesOutput = [
+  "100644 1111111111111111111111111111111111111111 1\tsrc/app.ts",
+  "100644 2222222222222222222222222222222222222222 2\tsrc/app.ts",
+  "100644 3333333333333333333333333333333333333333 3\tsrc/app.ts",
+  "100644 4444444444444444444444444444444444444444 2\tdocs/new file.md",
+  "100644 5555555555555555555555555555555555555555 3\tdocs/new file.md",
+  "100644 6666666666666666666666666666666666666666 1\tsrc/removed.ts",
+  "100644 7777777777777777777777777777777777777777 2\tsrc/removed.ts",
+  ""
+].join("\u0000");
+
+describe("ConflictService", () => {
+  it("lists unmerged files with their conflict kind", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      if (args[0] === "diff") {
+        return "src/app.ts\u0000docs/new file.md\u0000src/removed.ts\u0000";
+      }
+
+      return stagesOutput;
+    });
+    const service = new ConflictService({ gitRaw });
+
+    await expect(service.listConflicts("/repo")).resolves.toEqual([
+      { path: "src/app.ts", status: "bothModified" },
+      { path: "docs/new file.md", status: "bothAdded" },
+      { path: "src/removed.ts", status: "deletedByThem" }
+    ]);
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--name-only", "--diff-filter=U", "-z"]);
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["ls-files", "-u", "-z"]);
+  });
+
+  it("checks out the chosen side and stages it, or removes files deleted on that side", async () => {
+    const calls: string[] = [];
+    const service = new ConflictService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args[0] === "ls-files" ? stagesOutput : "";
+      }
+    });
+
+    await expect(service.acceptOurs("/repo", "src/app.ts")).resolves.toMatchObject({
+      result: { message: "Accepted our version of src/app.ts", status: "ok" }
+    });
+    await expect(service.acceptTheirs("/repo", "src/removed.ts")).resolves.toMatchObject({
+      result: { message: "Accepted their version of src/removed.ts", status: "ok" }
+    });
+    await expect(service.acceptTheirs("/repo", "src/clean.ts")).rejects.toThrow("src/clean.ts has no unresolved conflicts");
+
+    expect(calls.filter((call) => !call.startsWith("diff ") && call !== "ls-files -u -z")).toEqual([
+      "ls-files -u -z -- src/app.ts",
+      "checkout --ours -- src/app.ts",
+      "add -- src/app.ts",
+      "ls-files -u -z -- src/removed.ts",
+      "rm --quiet -- src/removed.ts",
+      "ls-files -u -z -- src/clean.ts"
+    ]);
+  });
+
+  it("refuses to mark files resolved while conflict markers remain", async () => {
+    const calls: string[] = [];
+    const contents = new Map([
+      ["/repo/src/app.ts", "const a = 1;\n<<<<<<< HEAD\nconst b = 2;\n=======\nconst b = 3;\n>>>>>>> feature\n"],
+      ["/repo/src/done.ts", "const title = `\n=======\n`;\n"]
+    ]);
+    const service = new ConflictService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return "";
+      },
+      readTextFile: async (path) => {
+        const content = contents.get(path);
+        if (content === undefined) {
+          throw Object.assign(new Error("missing"), { code: "ENOENT" });
+        }
+
+        return content;
+      }
+    });
+
+    await expect(service.markResolved("/repo", "src/app.ts")).resolves.toEqual({
+      files: [],
+      result: {
+        message: "src/app.ts still contains conflict markers at line 2. Remove them before marking the file resolved.",
+        status: "conflict"
+      }
+    });
+    await expect(service.markResolved("/repo", "src/done.ts")).resolves.toMatchObject({
+      result: { message: "Marked src/done.ts as resolved", status: "ok" }
+    });
+    await expect(service.markResolved("/repo", "src/deleted.ts")).resolves.toMatchObject({
+      result: { message: "Marked src/deleted.ts as resolved", status: "ok" }
+    });
+
+    expect(calls.filter((call) => call.startsWith("add "))).toEqual(["add --all -- src/done.ts", "add --all -- src/deleted.ts"]);
+  });
+});
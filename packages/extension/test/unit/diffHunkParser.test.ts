@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { buildHunkPatch, parseFileDiff, toWorkingTreeFileDiff } from "../../src/backend/git/DiffHunkParser";
+
+const fileHeader = ["diff --git a/src/a.ts b/src/a.ts", "index 1111111..2222222 100644", "--- a/src/a.ts", "+++ b/src/a.ts"];
+const diffOutput = [
+  ...fileHeader,
+  "@@ -1,4 +1,4 @@ export function a() {",
+  " const first = 1;",
+  "-const second = 2;",
+  "+const second = 3;",
+  "+const extra = 4;",
+  " const third = 3;",
+  "-const last = 5;",
+  "@@ -20,2 +20,3 @@",
+  " return first;",
+  "-}",
+  "\\ No newline at end of file",
+  "+}",
+  "+"
+].join("\n");
+
+describe("DiffHunkParser", () => {
+  it("parses hunks with line numbers for the working tree diff view", () => {
+    const diff = toWorkingTreeFileDiff("src/a.ts", "unstaged", parseFileDiff(`${diffOutput}\n`));
+
+    expect(diff.binary).toBe(false);
+    expect(diff.hunks.map((hunk) => [hunk.header, hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines])).toEqual([
+      ["@@ -1,4 +1,4 @@ export function a() {", 1, 4, 1, 4],
+      ["@@ -20,2 +20,3 @@", 20, 2, 20, 3]
+    ]);
+    expect(diff.hunks[0]!.lines).toEqual([
+      { content: "const first = 1;", kind: "context", newLineNumber: 1, oldLineNumber: 1 },
+      { content: "const second = 2;", kind: "removed", oldLineNumber: 2 },
+      { content: "const second = 3;", kind: "added", newLineNumber: 2 },
+      { content: "const extra = 4;", kind: "added", newLineNumber: 3 },
+      { content: "const third = 3;", kind: "context", newLineNumber: 4, oldLineNumber: 3 },
+      { content: "const last = 5;", kind: "removed", oldLineNumber: 4 }
+    ]);
+    expect(diff.hunks[1]!.lines.map((line) => line.kind)).toEqual(["context", "removed", "added", "added"]);
+  });
+
+  it("detects binary diffs without hunks", () => {
+    const diff = parseFileDiff(
+      ["diff --git a/logo.png b/logo.png", "index 1111111..2222222 100644", "Binary files a/logo.png and b/logo.png differ"].join("\n")
+    );
+
+    expect(diff).toMatchObject({ binary: true, hunks: [] });
+  });
+
+  it("builds a patch for a whole hunk", () => {
+    const patch = buildHunkPatch(parseFileDiff(diffOutput), 1, undefined, "forward");
+
+    expect(patch).toBe(
+      [...fileHeader, "@@ -20,2 +20,3 @@", " return first;", "-}", "\\ No newline at end of file", "+}", "+", ""].join("\n")
+    );
+  });
+
+  it("keeps unselected removals as context when staging selected lines", () => {
+    const patch = buildHunkPatch(parseFileDiff(diffOutput), 0, [2], "forward");
+
+    expect(patch).toBe(
+      [
+        ...fileHeader,
+        "@@ -1,4 +1,5 @@",
+        " const first = 1;",
+        " const second = 2;",
+        "+const second = 3;",
+        " const third = 3;",
+        " const last = 5;",
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("keeps unselected additions as context when reversing selected lines", () => {
+    const patch = buildHunkPatch(parseFileDiff(diffOutput), 0, [1, 5], "reverse");
+
+    expect(patch).toBe(
+      [
+        ...fileHeader,
+        "@@ -1,6 +1,4 @@",
+        " const first = 1;",
+        "-const second = 2;",
+        " const second = 3;",
+        " const extra = 4;",
+        " const third = 3;",
+        "-const last = 5;",
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("returns no patch when the selection has no changed lines", () => {
+    expect(buildHunkPatch(parseFileDiff(diffOutput), 0, [0, 4], "forward")).toBeUndefined();
+    expect(buildHunkPatch(parseFileDiff(diffOutput), 3, undefined, "forward")).toBeUndefined();
+  });
+});
@@ -126,6 +126,27 @@ describe("DiffService", () => {
     });
   });
 
+  it("reads the older compare revision from the previous path of a renamed file", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      if (args[1] === "from:src/old.ts") {
+        return "before";
+      }
+      if (args[1] === "to:src/new.ts") {
+        return "after";
+      }
+      throw new Error(`unexpected git args: ${args.join(" ")}`);
+    });
+    const executeCommand = vi.fn();
+    const service = createService({ executeCommand, gitRaw });
+
+    await service.openCompareFileDiff("/repo", "from", "to", "src/new.ts", "src/old.ts");
+
+    expect(executeCommand).toHaveBeenCalledWith("vscode.diff", "src/new.ts:before", "src/new.ts:after", "new.ts (from..to)", {
+      preview: true,
+      viewColumn: 1
+    });
+  });
+
   it("reports unchanged compare files without using VS Code notifications", async () => {
     const executeCommand = vi.fn();
     const showInformationMessage = vi.fn();
@@ -235,6 +256,23 @@ describe("DiffService", () => {
       viewColumn: 1
     });
   });
+
+  it("opens conflicted files in the three-way merge editor", async () => {
+    const executeCommand = vi.fn();
+    const service = new DiffService({
+      executeCommand: async (command, ...args) => {
+        executeCommand(command, ...args);
+      },
+      gitRaw: async () => "",
+      uriFile: (path) => `file://${path}`
+    });
+
+    await expect(service.openMergeEditor("/repo", "src/file.ts")).resolves.toEqual({
+      message: "Opened merge editor for src/file.ts",
+      status: "ok"
+    });
+    expect(executeCommand).toHaveBeenCalledWith("git.openMergeEditor", "file:///repo/src/file.ts");
+  });
 });
 
 function createService(input: {
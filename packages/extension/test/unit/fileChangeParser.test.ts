@@ -31,4 +31,35 @@ describe("FileChangeParser", () => {
       }
     ]);
   });
+
+  it("marks gitlink entries from raw output as submodule changes", () => {
+    const rawOutput = [
+      ":160000 160000 1111111111111111111111111111111111111111 2222222222222222222222222222222222222222 M\tvendor/lib",
+      ":100644 100644 3333333333333333333333333333333333333333 4444444444444444444444444444444444444444 M\tsrc/app.ts",
+      "1\t1\tvendor/lib",
+      "2\t0\tsrc/app.ts"
+    ].join("\n");
+
+    expect(parseGitFileChanges(rawOutput, "M\tvendor/lib\nM\tsrc/app.ts")).toEqual([
+      {
+        binary: false,
+        deletions: 0,
+        insertions: 0,
+        path: "vendor/lib",
+        status: "modified",
+        submodule: {
+          commits: [],
+          newHash: "2222222222222222222222222222222222222222",
+          oldHash: "1111111111111111111111111111111111111111"
+        }
+      },
+      {
+        binary: false,
+        deletions: 0,
+        insertions: 2,
+        path: "src/app.ts",
+        status: "modified"
+      }
+    ]);
+  });
 });
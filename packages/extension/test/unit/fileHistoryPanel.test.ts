@@ -22,7 +22,6 @@ vi.mock("vscode", () => ({
   },
   window: {
     activeTextEditor: undefined,
-    createWebviewPanel: vi.fn(),
     showTextDocument: vi.fn()
   },
   workspace: {
@@ -244,62 +243,107 @@ describe("FileHistoryPanel", () => {
   });
 
 
-  it("renders file history and reveals commits from panel clicks", async () => {
-    const executeCommand = vi.fn();
-    let receivedMessage: ((message: unknown) => void) | undefined;
-    const panelLike = {
-      webview: {
-        html: "",
-        onDidReceiveMessage: (callback: (message: unknown) => void) => {
-          receivedMessage = callback;
-          return { dispose: vi.fn() };
-        }
-      }
-    };
+  it("follows renames and reads per-commit insertions and deletions", async () => {
+    const gitRaw = vi.fn(async () => [
+      "\u001eabc1234567890abcdef\u001fabc1234\u001fAda\u001f2026-05-08 13:00:00 +0800\u001fUpdate file",
+      "",
+      "3\t1\tsrc/file.ts",
+      "\u001edef4567890abcdefabc\u001fdef4567\u001fGrace\u001f2026-05-07 13:00:00 +0800\u001fMove file",
+      "",
+      "0\t0\tsrc/{lib => }/file.ts",
+      "\u001e0123456789abcdef012\u001f0123456\u001fLinus\u001f2026-05-06 13:00:00 +0800\u001fAdd logo",
+      "",
+      "-\t-\tsrc/lib/file.ts",
+      ""
+    ].join("\n"));
     const panel = new FileHistoryPanel({
-      createWebviewPanel: vi.fn(() => panelLike),
-      executeCommand,
-      gitRaw: async () => "abc1234567890abcdef\u001fabc1234\u001fAda\u001f2026-05-08 13:00:00 +0800\u001fUpdate file\n",
+      gitRaw,
       repositoryService: createRepositoryService()
     });
 
-    await expect(panel.openHistory("/repo", "src/file.ts")).resolves.toEqual({
-      message: "Opened history for src/file.ts",
-      status: "ok"
+    await expect(panel.getHistory("/repo", "src/file.ts")).resolves.toEqual({
+      entries: [
+        expect.objectContaining({ deletions: 1, filePath: "src/file.ts", hash: "abc1234567890abcdef", insertions: 3, message: "Update file" }),
+        expect.objectContaining({ deletions: 0, filePath: "src/file.ts", insertions: 0, shortHash: "def4567" }),
+        expect.objectContaining({ author: "Linus", deletions: 0, filePath: "src/lib/file.ts", insertions: 0 })
+      ],
+      filePath: "src/file.ts"
     });
-
-    expect(panelLike.webview.html).toContain("File History: src/file.ts");
-    expect(panelLike.webview.html).toContain("Update file");
-
-    receivedMessage?.({ hash: "abc1234567890abcdef", type: "revealCommit" });
-
-    expect(executeCommand).toHaveBeenCalledWith("guigit.showCommitDetails", "abc1234567890abcdef");
+    expect(gitRaw).toHaveBeenCalledWith("/repo", [
+      "log",
+      "--follow",
+      "--numstat",
+      "--date=iso",
+      "--format=%x1e%H%x1f%h%x1f%an%x1f%ad%x1f%s",
+      "--",
+      "src/file.ts"
+    ]);
   });
 
-  it("opens file history from explorer or editor resources", async () => {
-    const gitRaw = vi.fn(async () => "");
+  it("reads line-range history from git log -L patches", async () => {
+    const gitRaw = vi.fn(async () => [
+      "\u001eabc1234567890abcdef\u001fabc1234\u001fAda\u001f2026-05-08 13:00:00 +0800\u001fTune limits",
+      "",
+      "diff --git a/src/file.ts b/src/file.ts",
+      "--- a/src/file.ts",
+      "+++ b/src/file.ts",
+      "@@ -10,2 +10,3 @@",
+      " const limit = 1;",
+      "-const max = 2;",
+      "+const max = 3;",
+      "+++counter;",
+      ""
+    ].join("\n"));
     const panel = new FileHistoryPanel({
-      createWebviewPanel: vi.fn(() => ({
-        webview: {
-          html: "",
-          onDidReceiveMessage: vi.fn()
-        }
-      })),
       gitRaw,
       repositoryService: createRepositoryService()
     });
 
-    await panel.openHistoryForUri({ fsPath: "/repo/src/file.ts", toString: () => "/repo/src/file.ts" });
-
+    await expect(panel.getHistory("/repo", "src/file.ts", { endLine: 12, startLine: 10 })).resolves.toEqual({
+      entries: [expect.objectContaining({ deletions: 1, filePath: "src/file.ts", insertions: 2, message: "Tune limits" })],
+      filePath: "src/file.ts",
+      lineRange: { endLine: 12, startLine: 10 }
+    });
     expect(gitRaw).toHaveBeenCalledWith("/repo", [
       "log",
-      "--follow",
+      "-L10,12:src/file.ts",
       "--date=iso",
-      "--format=%H%x1f%h%x1f%an%x1f%ad%x1f%s",
-      "--",
-      "src/file.ts"
+      "--format=%x1e%H%x1f%h%x1f%an%x1f%ad%x1f%s"
     ]);
   });
+
+  it("shows file history in the Git History view from explorer or editor resources", async () => {
+    const executeCommand = vi.fn();
+    const showHistory = vi.fn();
+    const panel = new FileHistoryPanel({
+      executeCommand,
+      repositoryService: createRepositoryService(),
+      showHistory
+    });
+
+    await expect(panel.openHistoryForUri({ fsPath: "/repo/src/file.ts", toString: () => "/repo/src/file.ts" })).resolves.toEqual({
+      message: "Opened history for src/file.ts",
+      status: "ok"
+    });
+
+    expect(executeCommand).toHaveBeenCalledWith("workbench.view.extension.guigit");
+    expect(showHistory).toHaveBeenCalledWith({ filePath: "src/file.ts", lineRange: undefined, repositoryId: "/repo" });
+  });
+
+  it("shows line history for the active editor selection", async () => {
+    const showHistory = vi.fn();
+    const panel = new FileHistoryPanel({
+      activeEditorSelection: () => ({ end: { character: 0, line: 12 }, start: { character: 4, line: 9 } }),
+      activeEditorUri: () => ({ fsPath: "/repo/src/file.ts", toString: () => "/repo/src/file.ts" }),
+      executeCommand: vi.fn(),
+      repositoryService: createRepositoryService(),
+      showHistory
+    });
+
+    await panel.openLineHistory();
+
+    expect(showHistory).toHaveBeenCalledWith({ filePath: "src/file.ts", lineRange: { endLine: 12, startLine: 10 }, repositoryId: "/repo" });
+  });
 });
 
 function createRepositoryService() {
@@ -17,6 +17,9 @@ describe("FileService", () => {
             "Ada",
             "ada@example.com",
             "HEAD -> main, tag: v1.0",
+            "G",
+            "Ada Lovelace <ada@example.com>",
+            "4AEE18F83AFDEB23",
             "Longer body"
           ].join("\x1f");
         }
@@ -81,7 +84,12 @@ describe("FileService", () => {
         { name: "HEAD", type: "head" },
         { name: "main", type: "local" },
         { name: "v1.0", type: "tag" }
-      ]
+      ],
+      signature: {
+        keyId: "4AEE18F83AFDEB23",
+        signer: "Ada Lovelace <ada@example.com>",
+        status: "good"
+      }
     });
   });
 
@@ -106,6 +114,30 @@ describe("FileService", () => {
     expect(showCalls).toBe(1);
   });
 
+  it("recomputes the editable message state for cached commit details", async () => {
+    let head = "abc1234567890abcdef";
+    const service = new FileService({
+      cache: new CacheService(),
+      configuration: createConfiguration("list"),
+      gitRaw: async (_repositoryRoot, args) => {
+        if (args[0] === "show" && args.includes("--no-patch")) {
+          return ["abc1234567890abcdef", "Today", "Message", "Ada", "ada@example.com", "", ""].join("\x1f");
+        }
+
+        if (args.join(" ") === "rev-parse HEAD") {
+          return `${head}\n`;
+        }
+
+        return args[0] === "config" ? "Ada\n" : "";
+      }
+    });
+
+    await expect(service.getCommitDetails("/workspace/repo", "abc1234")).resolves.toMatchObject({ canEditMessage: true });
+    head = "def4567890abcdefabc";
+
+    await expect(service.getCommitDetails("/workspace/repo", "abc1234")).resolves.toMatchObject({ canEditMessage: false });
+  });
+
   it("returns file changes with the requested view mode", async () => {
     const service = new FileService({
       cache: new CacheService(),
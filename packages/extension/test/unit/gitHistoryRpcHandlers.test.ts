@@ -6,6 +6,7 @@ import type {
   CommitDetailsViewModel,
   CommitListItemViewModel,
   GraphLayoutViewModel,
+  InteractiveRebasePlanViewModel,
   RemoteViewModel,
   WorkingTreeViewModel
 } from "../../src/backend/rpc/contract";
@@ -71,6 +72,12 @@ const remotes = [
   }
 ] satisfies readonly RemoteViewModel[];
 
+const rebasePlan = {
+  base: "base111",
+  entries: [{ action: "reword", author: "Alice", hash: "abc123", message: "Reworded", shortHash: "abc123" }],
+  head: "abc123"
+} satisfies InteractiveRebasePlanViewModel;
+
 const workingTree = {
   branch: "main",
   repositoryId: "/repo",
@@ -101,7 +108,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -109,7 +116,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -165,7 +172,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -173,7 +180,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "working tree diff opened", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -257,7 +264,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -265,7 +272,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "working tree diff opened", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -299,6 +306,94 @@ describe("Git history RPC handlers", () => {
     expect(calls).toEqual([["commit", "/repo", "/repo", "feat: test"]]);
   });
 
+  it("routes hunk diffs and partial staging for the requested repository", async () => {
+    const calls: unknown[] = [];
+    const diff = { binary: false, filePath: "src/a.ts", hunks: [], kind: "unstaged" as const };
+    const selection = { filePath: "src/a.ts", hunkHeader: "@@ -1,2 +1,2 @@", hunkIndex: 0, lineIndexes: [1] };
+    const handlers = createGitHistoryRpcHandlers({
+      branchService: {
+        listBranches: async () => branches
+      },
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileService: {
+        getCommitDetails: async () => details,
+        getFileChanges: async () => ({
+          files: [],
+          mode: "list"
+        })
+      },
+      graphService: {
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
+      },
+      diffService: {
+        openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
+        openCompareFileDiff: async () => ({ message: "ok", status: "ok" }),
+        openWorkingTreeFileDiff: async () => ({ message: "working tree diff opened", status: "ok" })
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: createGitService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      proxyService: createProxyService(),
+      remoteService: createRemoteService(),
+      languageService: createLanguageService(),
+      settingsService: createSettingsService(),
+      workingTreeService: {
+        ...createWorkingTreeService(),
+        discardHunk: async (repositoryId, repositoryRoot, hunk) => {
+          calls.push(["discardHunk", repositoryId, repositoryRoot, hunk]);
+          return { result: { message: "Discarded hunk", status: "ok" }, workingTree };
+        },
+        getFileDiff: async (repositoryRoot, filePath, kind) => {
+          calls.push(["diff", repositoryRoot, filePath, kind]);
+          return diff;
+        },
+        stageHunk: async (repositoryId, repositoryRoot, hunk) => {
+          calls.push(["stageHunk", repositoryId, repositoryRoot, hunk]);
+          return { result: { message: "Staged hunk", status: "ok" }, workingTree };
+        },
+        unstageHunk: async (repositoryId, repositoryRoot, hunk) => {
+          calls.push(["unstageHunk", repositoryId, repositoryRoot, hunk]);
+          return { result: { message: "Unstaged hunk", status: "ok" }, workingTree };
+        }
+      }
+    });
+
+    await expect(
+      handlers["workingTree.getFileDiff"]!({
+        filePath: "src/a.ts",
+        id: "diff",
+        kind: "unstaged",
+        repositoryId: "/repo",
+        type: "workingTree.getFileDiff"
+      })
+    ).resolves.toEqual({ diff });
+    await expect(
+      handlers["workingTree.stageHunk"]!({ id: "stage", repositoryId: "/repo", selection, type: "workingTree.stageHunk" })
+    ).resolves.toEqual({ result: { message: "Staged hunk", status: "ok" }, workingTree });
+    await handlers["workingTree.unstageHunk"]!({ id: "unstage", repositoryId: "/repo", selection, type: "workingTree.unstageHunk" });
+    await handlers["workingTree.discardHunk"]!({ id: "discard", repositoryId: "/repo", selection, type: "workingTree.discardHunk" });
+
+    expect(calls).toEqual([
+      ["diff", "/repo", "src/a.ts", "unstaged"],
+      ["stageHunk", "/repo", "/repo", selection],
+      ["unstageHunk", "/repo", "/repo", selection],
+      ["discardHunk", "/repo", "/repo", selection]
+    ]);
+  });
+
   it("opens working tree files and diffs for the requested repository", async () => {
     const calls: unknown[] = [];
     const handlers = createGitHistoryRpcHandlers({
@@ -320,7 +415,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -331,7 +426,7 @@ describe("Git history RPC handlers", () => {
         }
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async (...args) => {
           calls.push(["open", ...args]);
           return { message: "file opened", status: "ok" };
@@ -403,7 +498,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -415,7 +510,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "working tree diff opened", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -427,6 +522,7 @@ describe("Git history RPC handlers", () => {
       proxyService: createProxyService(),
       remoteService: createRemoteService(),
       languageService: createLanguageService(),
+      operationJournalService: createOperationJournalService(),
       settingsService: createSettingsService(),
       workingTreeService: {
         ...createWorkingTreeService(),
@@ -457,12 +553,14 @@ describe("Git history RPC handlers", () => {
       }
     });
 
-    await handlers["workingTree.discardFile"]!({
-      filePath: "src/a.ts",
-      id: "discard",
-      repositoryId: "/repo",
-      type: "workingTree.discardFile"
-    });
+    await expect(
+      handlers["workingTree.discardFile"]!({
+        filePath: "src/a.ts",
+        id: "discard",
+        repositoryId: "/repo",
+        type: "workingTree.discardFile"
+      })
+    ).resolves.toEqual({ result: { message: "Discarded file", status: "ok", undoId: "undo-1" }, workingTree });
     await expect(handlers["stash.list"]!({ id: "stash-list", repositoryId: "/repo", type: "stash.list" })).resolves.toEqual({
       stashes: workingTree.stashes
     });
@@ -487,7 +585,9 @@ describe("Git history RPC handlers", () => {
     await handlers["stash.create"]!({ id: "create", repositoryId: "/repo", type: "stash.create" });
     await handlers["stash.apply"]!({ id: "apply", repositoryId: "/repo", stashRef: "stash@{0}", type: "stash.apply" });
     await handlers["stash.pop"]!({ id: "pop", repositoryId: "/repo", stashRef: "stash@{0}", type: "stash.pop" });
-    await handlers["stash.drop"]!({ id: "drop", repositoryId: "/repo", stashRef: "stash@{0}", type: "stash.drop" });
+    await expect(
+      handlers["stash.drop"]!({ id: "drop", repositoryId: "/repo", stashRef: "stash@{0}", type: "stash.drop" })
+    ).resolves.toEqual({ result: { message: "Dropped stash", status: "ok", undoId: "undo-2" }, workingTree });
 
     expect(calls).toEqual([
       ["discard", "/repo", "/repo", "src/a.ts"],
@@ -502,6 +602,7 @@ describe("Git history RPC handlers", () => {
 
   it("loads repositories, branches, and commit history", async () => {
     let loadedBranches: readonly string[] | undefined;
+    let loadedInput: unknown;
     const handlers = createGitHistoryRpcHandlers({
       branchService: {
         listBranches: async () => branches
@@ -513,6 +614,7 @@ describe("Git history RPC handlers", () => {
         }),
         loadHistory: async (input) => {
           loadedBranches = input.branches;
+          loadedInput = input;
           return {
             commits: [commit],
             hasMore: false
@@ -527,7 +629,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -535,7 +637,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -575,6 +677,29 @@ describe("Git history RPC handlers", () => {
       type: "history.load"
     });
     expect(loadedBranches).toEqual(["main"]);
+
+    await handlers["history.load"]!({
+      committer: "Grace",
+      id: "3",
+      merges: "exclude",
+      pageSize: 50,
+      paths: ["src/app.ts"],
+      pickaxe: "loadHistory",
+      since: "2 weeks ago",
+      type: "history.load",
+      until: "2024-01-31"
+    });
+    expect(loadedInput).toEqual(
+      expect.objectContaining({
+        committer: "Grace",
+        merges: "exclude",
+        paths: ["src/app.ts"],
+        pickaxe: "loadHistory",
+        repositoryRoot: "/repo",
+        since: "2 weeks ago",
+        until: "2024-01-31"
+      })
+    );
   });
 
   it("routes repository initialization without requiring an existing repository", async () => {
@@ -598,7 +723,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -606,7 +731,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: {
@@ -658,7 +783,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -666,7 +791,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -776,10 +901,30 @@ describe("Git history RPC handlers", () => {
         })
       },
       commitMessageAiService: {
-        generate: async (repositoryRoot) => {
-          calls.push(`generate:${repositoryRoot}`);
+        cancel: (requestId) => {
+          calls.push(`cancel:${requestId}`);
+          return { message: "Commit message generation cancelled", status: "ok" as const };
+        },
+        cancelSummary: (requestId) => {
+          calls.push(`cancelSummary:${requestId}`);
+          return { message: "Summary cancelled", status: "ok" as const };
+        },
+        generate: async (repositoryRoot, options) => {
+          calls.push(`generate:${repositoryRoot}:${options?.requestId}:${options?.candidates}`);
           return { suggestion: { message: "feat: generated commit message" } };
         },
+        openSummary: async (markdown) => {
+          calls.push(`open:${markdown}`);
+          return { message: "Opened summary as an untitled document", status: "ok" as const };
+        },
+        summarizeCommit: async (repositoryRoot, hash, options) => {
+          calls.push(`summarizeCommit:${repositoryRoot}:${hash}:${options?.requestId}`);
+          return { summary: { kind: "commit" as const, markdown: "Commit summary" } };
+        },
+        summarizeRange: async (repositoryRoot, fromHash, toHash, kind, options) => {
+          calls.push(`summarizeRange:${repositoryRoot}:${fromHash}..${toHash}:${kind}:${options?.requestId}`);
+          return { summary: { kind, markdown: "Range summary" } };
+        },
         testProvider: async (settings) => {
           testedSettings = settings;
           return {
@@ -796,7 +941,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
@@ -804,7 +949,7 @@ describe("Git history RPC handlers", () => {
         openWorkingTreeFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -838,6 +983,7 @@ describe("Git history RPC handlers", () => {
 
     await expect(
       handlers["commitMessage.generate"]!({
+        candidates: 3,
         id: "commit-message-generate",
         repositoryId: "/repo",
         type: "commitMessage.generate"
@@ -847,6 +993,36 @@ describe("Git history RPC handlers", () => {
         message: "feat: generated commit message"
       }
     });
+    expect(
+      handlers["commitMessage.cancel"]!({
+        generateRequestId: "commit-message-generate",
+        id: "commit-message-cancel",
+        type: "commitMessage.cancel"
+      })
+    ).toEqual({
+      message: "Commit message generation cancelled",
+      status: "ok"
+    });
+    await expect(
+      handlers["aiSummary.commit"]!({ hash: "abc123", id: "summary-commit", repositoryId: "/repo", type: "aiSummary.commit" })
+    ).resolves.toEqual({ summary: { kind: "commit", markdown: "Commit summary" } });
+    await expect(
+      handlers["aiSummary.range"]!({
+        fromHash: "base",
+        id: "summary-range",
+        kind: "pullRequest",
+        repositoryId: "/repo",
+        toHash: "head",
+        type: "aiSummary.range"
+      })
+    ).resolves.toEqual({ summary: { kind: "pullRequest", markdown: "Range summary" } });
+    expect(
+      handlers["aiSummary.cancel"]!({ id: "summary-cancel", summaryRequestId: "summary-range", type: "aiSummary.cancel" })
+    ).toEqual({ message: "Summary cancelled", status: "ok" });
+    await expect(handlers["aiSummary.open"]!({ id: "summary-open", markdown: "Range summary", type: "aiSummary.open" })).resolves.toEqual({
+      message: "Opened summary as an untitled document",
+      status: "ok"
+    });
     await expect(handlers["settings.configureAiProvider"]!({ id: "configure-ai", type: "settings.configureAiProvider" })).resolves.toEqual({
       i18n: {
         locale: "en",
@@ -876,7 +1052,14 @@ describe("Git history RPC handlers", () => {
       status: "ok"
     });
 
-    expect(calls).toEqual(["generate:/repo"]);
+    expect(calls).toEqual([
+      "generate:/repo:commit-message-generate:3",
+      "cancel:commit-message-generate",
+      "summarizeCommit:/repo:abc123:summary-commit",
+      "summarizeRange:/repo:base..head:pullRequest:summary-range",
+      "cancelSummary:summary-range",
+      "open:Range summary"
+    ]);
     expect(testedSettings).toEqual(panelSettings);
   });
 
@@ -900,14 +1083,14 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
         openCompareFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -933,7 +1116,7 @@ describe("Git history RPC handlers", () => {
     ).resolves.toEqual({ commit: details });
   });
 
-  it("returns backend graph layout for the requested repository", async () => {
+  it("returns and exports backend graph layout for the requested repository", async () => {
     const handlers = createGitHistoryRpcHandlers({
       branchService: {
         listBranches: async () => branches
@@ -953,9 +1136,17 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async (repositoryRoot, hashes) => ({
-          ...graph,
-          nodes: graph.nodes.map((node) => ({ ...node, hash: `${repositoryRoot}:${hashes.join(",")}` }))
+        exportGraph: async (repositoryRoot, hashes, format) => ({
+          message: `${repositoryRoot}:${hashes.join(",")}:${format}`,
+          status: "ok"
+        }),
+        getLayoutPage: async (repositoryRoot, hashes, knownLayout) => ({
+          graph: {
+            ...graph,
+            nodes: graph.nodes.map((node) => ({ ...node, hash: `${repositoryRoot}:${hashes.join(",")}` }))
+          },
+          layoutId: "layout-1",
+          startRow: knownLayout?.rowCount ?? 0
         })
       },
       diffService: {
@@ -963,7 +1154,7 @@ describe("Git history RPC handlers", () => {
         openCompareFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -983,6 +1174,7 @@ describe("Git history RPC handlers", () => {
       handlers["graph.getLayout"]!({
         hashes: ["abc1234567890abcdef", "def4567890abcdefabc"],
         id: "3",
+        knownLayout: { layoutId: "layout-1", rowCount: 1 },
         repositoryId: "/repo",
         type: "graph.getLayout"
       })
@@ -990,7 +1182,21 @@ describe("Git history RPC handlers", () => {
       graph: {
         ...graph,
         nodes: [{ ...graph.nodes[0]!, hash: "/repo:abc1234567890abcdef,def4567890abcdefabc" }]
-      }
+      },
+      layoutId: "layout-1",
+      startRow: 1
+    });
+    await expect(
+      handlers["graph.export"]!({
+        format: "png",
+        hashes: ["abc1234567890abcdef"],
+        id: "4",
+        repositoryId: "/repo",
+        type: "graph.export"
+      })
+    ).resolves.toEqual({
+      message: "/repo:abc1234567890abcdef:png",
+      status: "ok"
     });
   });
 
@@ -1015,7 +1221,7 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async (...args) => {
@@ -1028,7 +1234,7 @@ describe("Git history RPC handlers", () => {
         }
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -1056,6 +1262,7 @@ describe("Git history RPC handlers", () => {
     await expect(
       handlers["diff.openCompareFile"]!({
         filePath: "src/file.ts",
+        fromFilePath: "src/old-file.ts",
         fromHash: "abc1234567890abcdef",
         id: "5",
         repositoryId: "/repo",
@@ -1066,7 +1273,7 @@ describe("Git history RPC handlers", () => {
 
     expect(diffCalls).toEqual([
       ["commit", "/repo", "abc1234567890abcdef", "src/file.ts"],
-      ["compare", "/repo", "abc1234567890abcdef", "def4567890abcdefabc", "src/file.ts"]
+      ["compare", "/repo", "abc1234567890abcdef", "def4567890abcdefabc", "src/file.ts", "src/old-file.ts"]
     ]);
   });
 
@@ -1091,16 +1298,16 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
         openCompareFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async (...args) => {
+        getHistory: async (...args) => {
           fileCalls.push(["history", ...args]);
-          return { message: "history opened", status: "ok" };
+          return { entries: [], filePath: "src/file.ts", lineRange: args[2] };
         },
         openWorkingFile: async (...args) => {
           fileCalls.push(["open", ...args]);
@@ -1130,17 +1337,18 @@ describe("Git history RPC handlers", () => {
       })
     ).resolves.toEqual({ message: "file opened", status: "ok" });
     await expect(
-      handlers["files.openHistory"]!({
+      handlers["files.getHistory"]!({
         filePath: "src/file.ts",
         id: "7",
+        lineRange: { endLine: 12, startLine: 10 },
         repositoryId: "/repo",
-        type: "files.openHistory"
+        type: "files.getHistory"
       })
-    ).resolves.toEqual({ message: "history opened", status: "ok" });
+    ).resolves.toEqual({ history: { entries: [], filePath: "src/file.ts", lineRange: { endLine: 12, startLine: 10 } } });
 
     expect(fileCalls).toEqual([
       ["open", "/repo", "src/file.ts", "abc123"],
-      ["history", "/repo", "src/file.ts"]
+      ["history", "/repo", "src/file.ts", { endLine: 12, startLine: 10 }]
     ]);
   });
 
@@ -1165,14 +1373,14 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
         openCompareFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: createGitService(),
@@ -1243,6 +1451,622 @@ describe("Git history RPC handlers", () => {
     ]);
   });
 
+  it("opens and copies commit links through the hosting service for the requested repository", async () => {
+    const hostingCalls: unknown[] = [];
+    const handlers = createGitHistoryRpcHandlers({
+      branchService: {
+        listBranches: async () => branches
+      },
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileService: {
+        getCommitDetails: async () => details,
+        getFileChanges: async () => ({
+          files: [],
+          mode: "list"
+        })
+      },
+      graphService: {
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
+      },
+      gitService: createGitService(),
+      hostingService: {
+        copyCommitPermalink: async (repositoryRoot, hash) => {
+          hostingCalls.push(["copy", repositoryRoot, hash]);
+          return { message: "permalink copied", status: "ok" };
+        },
+        openCommit: async (repositoryRoot, hash) => {
+          hostingCalls.push(["open", repositoryRoot, hash]);
+          return { message: "commit opened", status: "ok" };
+        }
+      },
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService()
+    });
+
+    await expect(
+      handlers["hosting.openCommit"]!({ hash: "abc123", id: "hosting-1", repositoryId: "/repo", type: "hosting.openCommit" })
+    ).resolves.toEqual({ message: "commit opened", status: "ok" });
+    await expect(
+      handlers["hosting.copyPermalink"]!({ hash: "abc123", id: "hosting-2", repositoryId: "/repo", type: "hosting.copyPermalink" })
+    ).resolves.toEqual({ message: "permalink copied", status: "ok" });
+
+    expect(hostingCalls).toEqual([
+      ["open", "/repo", "abc123"],
+      ["copy", "/repo", "abc123"]
+    ]);
+  });
+
+  it("lists, checks out and configures tokens for pull requests through the hosting service", async () => {
+    const hostingCalls: unknown[] = [];
+    const pullRequest = {
+      author: "octo",
+      draft: false,
+      number: 7,
+      sourceBranch: "feature/demo",
+      targetBranch: "main",
+      title: "Add demo",
+      updatedAt: "2026-01-02T03:04:05Z",
+      url: "https://github.com/owner/repo/pull/7"
+    };
+    const handlers = createGitHistoryRpcHandlers({
+      branchService: {
+        listBranches: async () => branches
+      },
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileService: {
+        getCommitDetails: async () => details,
+        getFileChanges: async () => ({
+          files: [],
+          mode: "list"
+        })
+      },
+      graphService: {
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
+      },
+      gitService: {
+        ...createGitService(),
+        checkoutPullRequest: async (repositoryRoot, target) => {
+          hostingCalls.push(["checkout", repositoryRoot, target]);
+          return { message: "pull request checked out", status: "ok" };
+        }
+      },
+      hostingService: {
+        configureToken: async (repositoryRoot) => {
+          hostingCalls.push(["token", repositoryRoot]);
+          return { message: "token saved", status: "ok" };
+        },
+        getPullRequestCheckout: async (_repositoryRoot, number) => ({
+          branch: `pr/${number}`,
+          number,
+          ref: `refs/pull/${number}/head`,
+          remote: "origin"
+        }),
+        listPullRequests: async () => [pullRequest]
+      },
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService()
+    });
+
+    await expect(
+      handlers["pullRequests.list"]!({ id: "pr-1", repositoryId: "/repo", type: "pullRequests.list" })
+    ).resolves.toEqual({ pullRequests: [pullRequest] });
+    await expect(
+      handlers["pullRequests.checkout"]!({ id: "pr-2", number: 7, repositoryId: "/repo", type: "pullRequests.checkout" })
+    ).resolves.toEqual({ message: "pull request checked out", status: "ok" });
+    await expect(
+      handlers["pullRequests.configureToken"]!({ id: "pr-3", repositoryId: "/repo", type: "pullRequests.configureToken" })
+    ).resolves.toEqual({ message: "token saved", status: "ok" });
+
+    expect(hostingCalls).toEqual([
+      ["checkout", "/repo", { branch: "pr/7", number: 7, ref: "refs/pull/7/head", remote: "origin" }],
+      ["token", "/repo"]
+    ]);
+  });
+
+  it("renames, deletes, and tracks branches for the requested repository", async () => {
+    const branchCalls: unknown[] = [];
+    const handlers = createGitHistoryRpcHandlers({
+      branchService: {
+        deleteBranch: async (repositoryRoot, name, options) => {
+          branchCalls.push(["delete", repositoryRoot, name, options]);
+          return { message: "branch deleted", status: "ok" };
+        },
+        listBranches: async () => branches,
+        renameBranch: async (repositoryRoot, name, newName) => {
+          branchCalls.push(["rename", repositoryRoot, name, newName]);
+          return { message: "branch renamed", status: "ok" };
+        },
+        setUpstream: async (repositoryRoot, name, upstream) => {
+          branchCalls.push(["upstream", repositoryRoot, name, upstream]);
+          return { message: "upstream set", status: "ok" };
+        }
+      },
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileService: {
+        getCommitDetails: async () => details,
+        getFileChanges: async () => ({
+          files: [],
+          mode: "list"
+        })
+      },
+      graphService: {
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
+      },
+      diffService: {
+        openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
+        openCompareFileDiff: async () => ({ message: "ok", status: "ok" })
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: createGitService(),
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      remoteService: createRemoteService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService()
+    });
+
+    await expect(
+      handlers["branches.rename"]!({
+        id: "branch-1",
+        name: "feature",
+        newName: "feature-renamed",
+        repositoryId: "/repo",
+        type: "branches.rename"
+      })
+    ).resolves.toEqual({ message: "branch renamed", status: "ok" });
+    await expect(
+      handlers["branches.delete"]!({
+        force: true,
+        id: "branch-2",
+        name: "feature",
+        repositoryId: "/repo",
+        type: "branches.delete"
+      })
+    ).resolves.toEqual({ message: "branch deleted", status: "ok" });
+    await expect(
+      handlers["branches.delete"]!({
+        id: "branch-3",
+        name: "origin/feature",
+        remote: "origin",
+        repositoryId: "/repo",
+        type: "branches.delete"
+      })
+    ).resolves.toEqual({ message: "branch deleted", status: "ok" });
+    await expect(
+      handlers["branches.setUpstream"]!({
+        id: "branch-4",
+        name: "feature",
+        repositoryId: "/repo",
+        type: "branches.setUpstream",
+        upstream: "origin/feature"
+      })
+    ).resolves.toEqual({ message: "upstream set", status: "ok" });
+
+    expect(branchCalls).toEqual([
+      ["rename", "/repo", "feature", "feature-renamed"],
+      ["delete", "/repo", "feature", { force: true, remote: undefined }],
+      ["delete", "/repo", "origin/feature", { force: undefined, remote: "origin" }],
+      ["upstream", "/repo", "feature", "origin/feature"]
+    ]);
+  });
+
+  it("lists and resolves conflicted files for the requested repository", async () => {
+    const conflictCalls: unknown[] = [];
+    const files = [{ path: "src/a.ts", status: "bothModified" as const }];
+    const handlers = createGitHistoryRpcHandlers({
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      conflictService: {
+        acceptOurs: async (repositoryRoot, filePath) => {
+          conflictCalls.push(["acceptOurs", repositoryRoot, filePath]);
+          return { files: [], result: { message: "ours", status: "ok" } };
+        },
+        acceptTheirs: async (repositoryRoot, filePath) => {
+          conflictCalls.push(["acceptTheirs", repositoryRoot, filePath]);
+          return { files: [], result: { message: "theirs", status: "ok" } };
+        },
+        listConflicts: async (repositoryRoot) => {
+          conflictCalls.push(["list", repositoryRoot]);
+          return files;
+        },
+        markResolved: async (repositoryRoot, filePath) => {
+          conflictCalls.push(["markResolved", repositoryRoot, filePath]);
+          return { files, result: { message: "markers", status: "conflict" } };
+        }
+      },
+      diffService: {
+        openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
+        openCompareFileDiff: async () => ({ message: "ok", status: "ok" }),
+        openMergeEditor: async (repositoryRoot, filePath) => {
+          conflictCalls.push(["openMergeEditor", repositoryRoot, filePath]);
+          return { message: "merge editor", status: "ok" };
+        }
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: createGitService(),
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      remoteService: createRemoteService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService()
+    });
+
+    await expect(handlers["conflicts.list"]!({ id: "c1", repositoryId: "/repo", type: "conflicts.list" })).resolves.toEqual({ files });
+    await handlers["conflicts.acceptOurs"]!({ filePath: "src/a.ts", id: "c2", repositoryId: "/repo", type: "conflicts.acceptOurs" });
+    await handlers["conflicts.acceptTheirs"]!({ filePath: "src/b.ts", id: "c3", repositoryId: "/repo", type: "conflicts.acceptTheirs" });
+    await expect(
+      handlers["conflicts.markResolved"]!({ filePath: "src/a.ts", id: "c4", repositoryId: "/repo", type: "conflicts.markResolved" })
+    ).resolves.toEqual({ files, result: { message: "markers", status: "conflict" } });
+    await expect(
+      handlers["conflicts.openMergeEditor"]!({ filePath: "src/a.ts", id: "c5", repositoryId: "/repo", type: "conflicts.openMergeEditor" })
+    ).resolves.toEqual({ message: "merge editor", status: "ok" });
+
+    expect(conflictCalls).toEqual([
+      ["list", "/repo"],
+      ["acceptOurs", "/repo", "src/a.ts"],
+      ["acceptTheirs", "/repo", "src/b.ts"],
+      ["markResolved", "/repo", "src/a.ts"],
+      ["openMergeEditor", "/repo", "src/a.ts"]
+    ]);
+  });
+
+  it("lists and manages worktrees for the requested repository", async () => {
+    const worktreeCalls: unknown[] = [];
+    const worktrees = [{ bare: false, branch: "main", current: true, detached: false, locked: false, main: true, path: "/repo", prunable: false }];
+    const actionResult = (message: string) => ({ result: { message, status: "ok" as const }, worktrees });
+    const handlers = createGitHistoryRpcHandlers({
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: createGitService(),
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      remoteService: createRemoteService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService(),
+      worktreeService: {
+        addWorktree: async (repositoryRoot, path, ref, newBranch) => {
+          worktreeCalls.push(["add", repositoryRoot, path, ref, newBranch]);
+          return actionResult("added");
+        },
+        listWorktrees: async (repositoryRoot) => {
+          worktreeCalls.push(["list", repositoryRoot]);
+          return worktrees;
+        },
+        lockWorktree: async (repositoryRoot, path, reason) => {
+          worktreeCalls.push(["lock", repositoryRoot, path, reason]);
+          return actionResult("locked");
+        },
+        openWorktree: async (repositoryRoot, path) => {
+          worktreeCalls.push(["open", repositoryRoot, path]);
+          return { message: "opened", status: "ok" };
+        },
+        pruneWorktrees: async (repositoryRoot) => {
+          worktreeCalls.push(["prune", repositoryRoot]);
+          return actionResult("pruned");
+        },
+        removeWorktree: async (repositoryRoot, path) => {
+          worktreeCalls.push(["remove", repositoryRoot, path]);
+          return actionResult("removed");
+        },
+        unlockWorktree: async (repositoryRoot, path) => {
+          worktreeCalls.push(["unlock", repositoryRoot, path]);
+          return actionResult("unlocked");
+        }
+      }
+    });
+
+    await expect(handlers["worktrees.list"]!({ id: "w1", repositoryId: "/repo", type: "worktrees.list" })).resolves.toEqual({ worktrees });
+    await expect(
+      handlers["worktrees.add"]!({ id: "w2", newBranch: "hotfix", path: "../hotfix", ref: "main", repositoryId: "/repo", type: "worktrees.add" })
+    ).resolves.toEqual(actionResult("added"));
+    await handlers["worktrees.open"]!({ id: "w3", path: "/hotfix", repositoryId: "/repo", type: "worktrees.open" });
+    await handlers["worktrees.lock"]!({ id: "w4", path: "/hotfix", reason: "usb", repositoryId: "/repo", type: "worktrees.lock" });
+    await handlers["worktrees.unlock"]!({ id: "w5", path: "/hotfix", repositoryId: "/repo", type: "worktrees.unlock" });
+    await handlers["worktrees.prune"]!({ id: "w6", repositoryId: "/repo", type: "worktrees.prune" });
+    await handlers["worktrees.remove"]!({ id: "w7", path: "/hotfix", repositoryId: "/repo", type: "worktrees.remove" });
+
+    expect(worktreeCalls).toEqual([
+      ["list", "/repo"],
+      ["add", "/repo", "../hotfix", "main", "hotfix"],
+      ["open", "/repo", "/hotfix"],
+      ["lock", "/repo", "/hotfix", "usb"],
+      ["unlock", "/repo", "/hotfix"],
+      ["prune", "/repo"],
+      ["remove", "/repo", "/hotfix"]
+    ]);
+  });
+
+  it("lists, initializes and updates submodules for the requested repository", async () => {
+    const submoduleCalls: unknown[] = [];
+    const submodules = [
+      { hash: "1111111111111111111111111111111111111111", name: "lib", path: "vendor/lib", rootPath: "/repo/vendor/lib", state: "current" as const }
+    ];
+    const actionResult = (message: string) => ({ result: { message, status: "ok" as const }, submodules });
+    const handlers = createGitHistoryRpcHandlers({
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: createGitService(),
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      remoteService: createRemoteService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService(),
+      submoduleService: {
+        initSubmodules: async (repositoryRoot, path) => {
+          submoduleCalls.push(["init", repositoryRoot, path]);
+          return actionResult("initialized");
+        },
+        listSubmodules: async (repositoryRoot) => {
+          submoduleCalls.push(["list", repositoryRoot]);
+          return submodules;
+        },
+        updateSubmodules: async (repositoryRoot, path) => {
+          submoduleCalls.push(["update", repositoryRoot, path]);
+          return actionResult("updated");
+        }
+      }
+    });
+
+    await expect(handlers["submodules.list"]!({ id: "s1", repositoryId: "/repo", type: "submodules.list" })).resolves.toEqual({
+      submodules
+    });
+    await expect(
+      handlers["submodules.init"]!({ id: "s2", path: "vendor/lib", repositoryId: "/repo", type: "submodules.init" })
+    ).resolves.toEqual(actionResult("initialized"));
+    await handlers["submodules.update"]!({ id: "s3", repositoryId: "/repo", type: "submodules.update" });
+
+    expect(submoduleCalls).toEqual([
+      ["list", "/repo"],
+      ["init", "/repo", "vendor/lib"],
+      ["update", "/repo", undefined]
+    ]);
+  });
+
+  it("loads and recovers reflog entries for the requested repository", async () => {
+    const reflogCalls: unknown[] = [];
+    const reflog = {
+      entries: [
+        {
+          action: "reset",
+          author: "Ada",
+          date: "2026-10-19 05:38:45 +0000",
+          hash: "abc1234567890",
+          message: "moving to HEAD~1",
+          selector: "main@{0}",
+          shortHash: "abc1234",
+          subject: "Older work"
+        }
+      ],
+      ref: "main",
+      refs: ["HEAD", "main"]
+    };
+    const handlers = createGitHistoryRpcHandlers({
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: {
+        ...createGitService(),
+        checkoutReflogEntry: async (repositoryRoot, hash, selector) => {
+          reflogCalls.push(["checkout", repositoryRoot, hash, selector]);
+          return { message: "checked out", status: "ok" as const };
+        },
+        loadReflog: async (repositoryRoot, ref) => {
+          reflogCalls.push(["list", repositoryRoot, ref]);
+          return reflog;
+        },
+        pickReflogResetMode: async (selector) => {
+          reflogCalls.push(["pickMode", selector]);
+          return selector === "main@{0}" ? "hard" : undefined;
+        },
+        resetToReflogEntry: async (repositoryRoot, hash, selector, mode) => {
+          reflogCalls.push(["reset", repositoryRoot, hash, selector, mode]);
+          return { message: "reset", status: "ok" as const };
+        }
+      },
+      operationJournalService: {
+        ...createOperationJournalService(),
+        capture: async (repositoryRoot, operation) => {
+          reflogCalls.push(["capture", repositoryRoot, operation]);
+          return createJournalEntry(repositoryRoot);
+        }
+      },
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      remoteService: createRemoteService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService()
+    });
+
+    await expect(handlers["reflog.list"]!({ id: "r1", ref: "main", repositoryId: "/repo", type: "reflog.list" })).resolves.toEqual(reflog);
+    await expect(
+      handlers["reflog.checkout"]!({ hash: "abc1234567890", id: "r2", repositoryId: "/repo", selector: "main@{0}", type: "reflog.checkout" })
+    ).resolves.toEqual({ message: "checked out", status: "ok" });
+    await expect(
+      handlers["reflog.reset"]!({ hash: "abc1234567890", id: "r3", repositoryId: "/repo", selector: "main@{0}", type: "reflog.reset" })
+    ).resolves.toEqual({ message: "reset", status: "ok", undoId: "undo-1" });
+    await expect(
+      handlers["reflog.reset"]!({ hash: "def4567890123", id: "r4", repositoryId: "/repo", selector: "main@{1}", type: "reflog.reset" })
+    ).resolves.toEqual({ message: "Reset cancelled", status: "cancelled" });
+
+    expect(reflogCalls).toEqual([
+      ["list", "/repo", "main"],
+      ["checkout", "/repo", "abc1234567890", "main@{0}"],
+      ["pickMode", "main@{0}"],
+      ["capture", "/repo", { hash: "abc1234567890", kind: "reset", mode: "hard" }],
+      ["reset", "/repo", "abc1234567890", "main@{0}", "hard"],
+      ["pickMode", "main@{1}"]
+    ]);
+  });
+
+  it("drives bisect sessions for the requested repository", async () => {
+    const bisectCalls: unknown[] = [];
+    const state = {
+      active: true,
+      candidates: ["bad"],
+      good: ["good"],
+      remainingRevisions: 0,
+      remainingSteps: 0,
+      skipped: []
+    };
+    const actionResult = (message: string) => ({ result: { message, status: "ok" as const }, state });
+    const handlers = createGitHistoryRpcHandlers({
+      bisectService: {
+        getState: async (repositoryRoot) => {
+          bisectCalls.push(["state", repositoryRoot]);
+          return state;
+        },
+        mark: async (repositoryRoot, verdict) => {
+          bisectCalls.push(["mark", repositoryRoot, verdict]);
+          return actionResult("marked");
+        },
+        reset: async (repositoryRoot) => {
+          bisectCalls.push(["reset", repositoryRoot]);
+          return actionResult("reset");
+        },
+        run: async (repositoryRoot) => {
+          bisectCalls.push(["run", repositoryRoot]);
+          return actionResult("ran");
+        },
+        start: async (repositoryRoot, good, bad) => {
+          bisectCalls.push(["start", repositoryRoot, good, bad]);
+          return actionResult("started");
+        }
+      },
+      commitService: {
+        getCurrentUser: async () => undefined,
+        loadHistory: async () => ({
+          commits: [],
+          hasMore: false
+        })
+      },
+      fileHistoryPanel: {
+        getHistory: async () => ({ entries: [], filePath: "" }),
+        openWorkingFile: async () => ({ message: "ok", status: "ok" })
+      },
+      gitService: createGitService(),
+      proxyService: createProxyService(),
+      languageService: createLanguageService(),
+      remoteService: createRemoteService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: createSettingsService(),
+      workingTreeService: createWorkingTreeService()
+    });
+
+    await expect(handlers["bisect.state"]!({ id: "b1", repositoryId: "/repo", type: "bisect.state" })).resolves.toEqual(state);
+    await expect(
+      handlers["bisect.start"]!({ bad: "bad", good: "good", id: "b2", repositoryId: "/repo", type: "bisect.start" })
+    ).resolves.toEqual(actionResult("started"));
+    await handlers["bisect.mark"]!({ id: "b3", repositoryId: "/repo", type: "bisect.mark", verdict: "skip" });
+    await handlers["bisect.run"]!({ id: "b4", repositoryId: "/repo", type: "bisect.run" });
+    await handlers["bisect.reset"]!({ id: "b5", repositoryId: "/repo", type: "bisect.reset" });
+
+    expect(bisectCalls).toEqual([
+      ["state", "/repo"],
+      ["start", "/repo", "good", "bad"],
+      ["mark", "/repo", "skip"],
+      ["run", "/repo"],
+      ["reset", "/repo"]
+    ]);
+  });
+
   it("runs git operations for the requested repository", async () => {
     const gitCalls: unknown[] = [];
     const handlers = createGitHistoryRpcHandlers({
@@ -1264,14 +2088,14 @@ describe("Git history RPC handlers", () => {
         })
       },
       graphService: {
-        getLayout: async () => graph
+        getLayoutPage: async () => ({ graph, layoutId: "layout-1", startRow: 0 })
       },
       diffService: {
         openCommitFileDiff: async () => ({ message: "ok", status: "ok" }),
         openCompareFileDiff: async () => ({ message: "ok", status: "ok" })
       },
       fileHistoryPanel: {
-        openHistory: async () => ({ message: "ok", status: "ok" }),
+        getHistory: async () => ({ entries: [], filePath: "" }),
         openWorkingFile: async () => ({ message: "ok", status: "ok" })
       },
       gitService: {
@@ -1315,6 +2139,14 @@ describe("Git history RPC handlers", () => {
           gitCalls.push(["createBranchFromCommit", repositoryRoot, hash]);
           return { message: "create branch", status: "ok" };
         },
+        createTag: async (repositoryRoot, hash) => {
+          gitCalls.push(["createTag", repositoryRoot, hash]);
+          return { message: "create tag", status: "ok" };
+        },
+        deleteTag: async (repositoryRoot, hash) => {
+          gitCalls.push(["deleteTag", repositoryRoot, hash]);
+          return { message: "delete tag", status: "ok" };
+        },
         editCommitMessage: async (repositoryRoot, hash) => {
           gitCalls.push(["editCommitMessage", repositoryRoot, hash]);
           return { message: "edit commit message", status: "ok" };
@@ -1323,6 +2155,22 @@ describe("Git history RPC handlers", () => {
           gitCalls.push(["operationState", repositoryRoot]);
           return { message: "operation state", status: "ok" };
         },
+        interactiveRebase: async (repositoryRoot, plan) => {
+          gitCalls.push(["interactiveRebase", repositoryRoot, plan]);
+          return { message: "interactive rebase", status: "ok" };
+        },
+        loadInteractiveRebase: async (repositoryRoot, hashes) => {
+          gitCalls.push(["loadInteractiveRebase", repositoryRoot, hashes]);
+          return { result: { message: "load interactive rebase", status: "ok" } };
+        },
+        merge: async (repositoryRoot, source, mode, message) => {
+          gitCalls.push(["merge", repositoryRoot, source, mode, message]);
+          return { message: "merge", status: "ok" };
+        },
+        previewInteractiveRebase: async (repositoryRoot, plan) => {
+          gitCalls.push(["previewInteractiveRebase", repositoryRoot, plan]);
+          return { message: "preview interactive rebase", status: "ok" };
+        },
         fetch: async (repositoryRoot) => {
           gitCalls.push(["fetch", repositoryRoot]);
           return { message: "fetch", status: "ok" };
@@ -1339,6 +2187,10 @@ describe("Git history RPC handlers", () => {
           gitCalls.push(["pushAllCommitsToHere", repositoryRoot, hash]);
           return { message: "push commits", status: "ok" };
         },
+        pushTags: async (repositoryRoot, hash) => {
+          gitCalls.push(["pushTags", repositoryRoot, hash]);
+          return { message: "push tags", status: "ok" };
+        },
         reset: async (repositoryRoot, hash, mode) => {
           gitCalls.push(["reset", repositoryRoot, hash, mode]);
           return { message: "reset", status: "ok" };
@@ -1360,6 +2212,7 @@ describe("Git history RPC handlers", () => {
       proxyService: createProxyService(),
       remoteService: createRemoteService(),
       languageService: createLanguageService(),
+      operationJournalService: createOperationJournalService(),
       settingsService: createSettingsService(),
       workingTreeService: createWorkingTreeService()
     });
@@ -1376,13 +2229,22 @@ describe("Git history RPC handlers", () => {
     await handlers["git.clone"]!({ id: "14", type: "git.clone" });
     await handlers["git.copyHash"]!({ hash: "abc123", id: "15", repositoryId: "/repo", type: "git.copyHash" });
     await handlers["git.cherryPick"]!({ hash: "abc123", id: "16", repositoryId: "/repo", type: "git.cherryPick" });
+    await handlers["git.merge"]!({ id: "16a", message: "Merge feature", mode: "no-ff", repositoryId: "/repo", source: "feature", type: "git.merge" });
     await handlers["git.revert"]!({ hash: "abc123", id: "17", repositoryId: "/repo", type: "git.revert" });
-    await handlers["git.reset"]!({ hash: "abc123", id: "18", mode: "hard", repositoryId: "/repo", type: "git.reset" });
+    await expect(
+      handlers["git.reset"]!({ hash: "abc123", id: "18", mode: "hard", repositoryId: "/repo", type: "git.reset" })
+    ).resolves.toEqual({ message: "reset", status: "ok", undoId: "undo-1" });
     await handlers["git.compareCommits"]!({ hashes: ["abc123", "def456"], id: "19", repositoryId: "/repo", type: "git.compareCommits" });
     await handlers["git.squashCommits"]!({ hashes: ["abc123", "def456"], id: "20", repositoryId: "/repo", type: "git.squashCommits" });
     await handlers["git.createBranchFromCommit"]!({ hash: "abc123", id: "21", repositoryId: "/repo", type: "git.createBranchFromCommit" });
     await handlers["git.pushAllCommitsToHere"]!({ hash: "abc123", id: "22", repositoryId: "/repo", type: "git.pushAllCommitsToHere" });
     await handlers["git.editCommitMessage"]!({ hash: "abc123", id: "23", repositoryId: "/repo", type: "git.editCommitMessage" });
+    await handlers["git.loadInteractiveRebase"]!({ hashes: ["abc123"], id: "24", repositoryId: "/repo", type: "git.loadInteractiveRebase" });
+    await handlers["git.previewInteractiveRebase"]!({ id: "25", plan: rebasePlan, repositoryId: "/repo", type: "git.previewInteractiveRebase" });
+    await handlers["git.interactiveRebase"]!({ id: "26", plan: rebasePlan, repositoryId: "/repo", type: "git.interactiveRebase" });
+    await handlers["git.createTag"]!({ hash: "abc123", id: "27", repositoryId: "/repo", type: "git.createTag" });
+    await handlers["git.deleteTag"]!({ hash: "abc123", id: "28", repositoryId: "/repo", type: "git.deleteTag" });
+    await handlers["git.pushTags"]!({ hash: "abc123", id: "29", repositoryId: "/repo", type: "git.pushTags" });
 
     expect(gitCalls).toEqual([
       ["pull", "/repo"],
@@ -1397,15 +2259,118 @@ describe("Git history RPC handlers", () => {
       ["clone"],
       ["copyHash", "abc123"],
       ["cherryPick", "/repo", "abc123"],
+      ["merge", "/repo", "feature", "no-ff", "Merge feature"],
       ["revert", "/repo", "abc123"],
       ["reset", "/repo", "abc123", "hard"],
       ["compareCommits", "/repo", ["abc123", "def456"]],
       ["squashCommits", "/repo", ["abc123", "def456"]],
       ["createBranchFromCommit", "/repo", "abc123"],
       ["pushAllCommitsToHere", "/repo", "abc123"],
-      ["editCommitMessage", "/repo", "abc123"]
+      ["editCommitMessage", "/repo", "abc123"],
+      ["loadInteractiveRebase", "/repo", ["abc123"]],
+      ["previewInteractiveRebase", "/repo", rebasePlan],
+      ["interactiveRebase", "/repo", rebasePlan],
+      ["createTag", "/repo", "abc123"],
+      ["deleteTag", "/repo", "abc123"],
+      ["pushTags", "/repo", "abc123"]
     ]);
   });
+
+  it("journals destructive operations only when they complete and routes undo by id", async () => {
+    const journalCalls: unknown[] = [];
+    const handlers = createGitHistoryRpcHandlers({
+      gitService: {
+        ...createGitService(),
+        editCommitMessage: async () => ({ message: "Edit commit message cancelled", status: "cancelled" })
+      },
+      operationJournalService: {
+        capture: async (repositoryRoot, operation) => {
+          journalCalls.push(["capture", repositoryRoot, operation]);
+          if (operation.kind === "squashCommits") {
+            throw new Error("fatal: ambiguous argument 'HEAD'");
+          }
+
+          return createJournalEntry(repositoryRoot);
+        },
+        record: async (entry) => {
+          journalCalls.push(["record", entry.id]);
+          return entry.id;
+        },
+        undo: async (repositoryRoot, id) => {
+          journalCalls.push(["undo", repositoryRoot, id]);
+          return { message: "Undid reset --hard to abc123", status: "ok" };
+        }
+      },
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      }
+    });
+
+    await expect(
+      handlers["git.editCommitMessage"]!({ hash: "abc123", id: "edit", repositoryId: "/repo", type: "git.editCommitMessage" })
+    ).resolves.toEqual({ message: "Edit commit message cancelled", status: "cancelled" });
+    await expect(
+      handlers["git.squashCommits"]!({ hashes: ["abc123", "def456"], id: "squash", repositoryId: "/repo", type: "git.squashCommits" })
+    ).resolves.toEqual({ message: "ok", status: "ok" });
+    await expect(
+      handlers["operations.undo"]!({ id: "undo", repositoryId: "/repo", type: "operations.undo", undoId: "entry-1" })
+    ).resolves.toEqual({ message: "Undid reset --hard to abc123", status: "ok" });
+
+    expect(journalCalls).toEqual([
+      ["capture", "/repo", { hash: "abc123", kind: "editCommitMessage" }],
+      ["capture", "/repo", { hashes: ["abc123", "def456"], kind: "squashCommits" }],
+      ["undo", "/repo", "entry-1"]
+    ]);
+  });
+
+  it("journals amend commits and loads the commit composer with configured templates", async () => {
+    const calls: unknown[] = [];
+    const handlers = createGitHistoryRpcHandlers({
+      operationJournalService: createOperationJournalService(),
+      repositoryService: {
+        discoverRepositories: async () => [{ id: "/repo", name: "repo", rootPath: "/repo" }],
+        getCurrentRepository: () => undefined,
+        switchToActiveEditorRepository: () => undefined
+      },
+      settingsService: {
+        ...createSettingsService(),
+        getCommitTemplates: () => [{ message: "fix: ", name: "Fix", source: "settings" }]
+      },
+      workingTreeService: {
+        ...createWorkingTreeService(),
+        commit: async (repositoryId, repositoryRoot, message, sign, amend) => {
+          calls.push(["commit", message, sign, amend]);
+          return { result: { message: "Amended last commit", status: "ok" }, workingTree };
+        },
+        loadCommitComposer: async (repositoryId, repositoryRoot, templates) => ({
+          coAuthors: [],
+          repositoryId,
+          templates: templates ?? []
+        })
+      }
+    });
+
+    await expect(
+      handlers["workingTree.commit"]!({
+        amend: true,
+        id: "amend",
+        message: "fix: amended",
+        repositoryId: "/repo",
+        type: "workingTree.commit"
+      })
+    ).resolves.toEqual({
+      result: { message: "Amended last commit", status: "ok", undoId: "undo-1" },
+      workingTree
+    });
+    await expect(
+      handlers["workingTree.loadCommitComposer"]!({ id: "composer", repositoryId: "/repo", type: "workingTree.loadCommitComposer" })
+    ).resolves.toEqual({
+      composer: { coAuthors: [], repositoryId: "/repo", templates: [{ message: "fix: ", name: "Fix", source: "settings" }] }
+    });
+    expect(calls).toEqual([["commit", "fix: amended", undefined, true]]);
+  });
 });
 
 function createSettings(mode: "tree" | "list") {
@@ -1473,19 +2438,31 @@ function createGitService() {
     advancedPush: async () => ({ message: "ok", status: "ok" as const }),
     cherryPick: async () => ({ message: "ok", status: "ok" as const }),
     checkout: async () => ({ message: "ok", status: "ok" as const }),
+    checkoutPullRequest: async () => ({ message: "ok", status: "ok" as const }),
+    checkoutReflogEntry: async () => ({ message: "ok", status: "ok" as const }),
     clone: async () => ({ message: "ok", status: "ok" as const }),
     compareCommits: async () => ({ message: "ok", status: "ok" as const }),
     continueOperation: async () => ({ message: "ok", status: "ok" as const }),
     copyHash: async () => ({ message: "ok", status: "ok" as const }),
     createBranchFromCommit: async () => ({ message: "ok", status: "ok" as const }),
+    createTag: async () => ({ message: "ok", status: "ok" as const }),
+    deleteTag: async () => ({ message: "ok", status: "ok" as const }),
     editCommitMessage: async () => ({ message: "ok", status: "ok" as const }),
     fetch: async () => ({ message: "ok", status: "ok" as const }),
     init: async () => ({ message: "ok", status: "ok" as const }),
+    interactiveRebase: async () => ({ message: "ok", status: "ok" as const }),
     getOperationState: async () => ({ message: "ok", status: "ok" as const }),
+    loadInteractiveRebase: async () => ({ result: { message: "ok", status: "ok" as const } }),
+    loadReflog: async () => ({ entries: [], ref: "HEAD", refs: ["HEAD"] }),
+    merge: async () => ({ message: "ok", status: "ok" as const }),
+    pickReflogResetMode: async () => "mixed" as const,
+    previewInteractiveRebase: async () => ({ message: "ok", status: "ok" as const }),
     pull: async () => ({ message: "ok", status: "ok" as const }),
     push: async () => ({ message: "ok", status: "ok" as const }),
     pushAllCommitsToHere: async () => ({ message: "ok", status: "ok" as const }),
+    pushTags: async () => ({ message: "ok", status: "ok" as const }),
     reset: async () => ({ message: "ok", status: "ok" as const }),
+    resetToReflogEntry: async () => ({ message: "ok", status: "ok" as const }),
     revert: async () => ({ message: "ok", status: "ok" as const }),
     squashCommits: async () => ({ message: "ok", status: "ok" as const })
   };
@@ -1500,6 +2477,31 @@ function createRemoteService() {
   };
 }
 
+function createOperationJournalService() {
+  let nextId = 0;
+
+  return {
+    capture: async (repositoryRoot: string) => createJournalEntry(repositoryRoot),
+    record: async () => {
+      nextId += 1;
+      return `undo-${nextId}`;
+    },
+    undo: async () => ({ message: "ok", status: "ok" as const })
+  };
+}
+
+function createJournalEntry(repositoryRoot: string) {
+  return {
+    branchTips: [{ commit: "abc123", ref: "refs/heads/main" }],
+    createdAt: "2026-10-19T00:00:00.000Z",
+    head: { commit: "abc123", ref: "refs/heads/main" },
+    id: "entry-1",
+    label: "reset --hard to abc123",
+    repositoryRoot,
+    updateWorkingTree: true
+  };
+}
+
 function createWorkingTreeService() {
   return {
     load: async () => workingTree
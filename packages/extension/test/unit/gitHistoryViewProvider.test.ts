@@ -71,7 +71,7 @@ describe("GitHistoryViewProvider notifications", () => {
     });
   });
 
-  it("queues working tree and reveal notifications until the webview is resolved", () => {
+  it("queues working tree, reveal and file history notifications until the webview is resolved", () => {
     const postMessage = vi.fn();
     const provider = new GitHistoryViewProvider({ extensionUri: { path: "/extension" } } as never);
 
@@ -81,6 +81,7 @@ describe("GitHistoryViewProvider notifications", () => {
       type: "workingTree"
     });
     provider.revealCommit("abc1234");
+    provider.showFileHistory({ filePath: "src/file.ts", lineRange: { endLine: 12, startLine: 10 }, repositoryId: "/repo" });
     provider.resolveWebviewView(createWebviewView(postMessage));
 
     expect(postMessage).toHaveBeenCalledWith({
@@ -92,6 +93,12 @@ describe("GitHistoryViewProvider notifications", () => {
       hash: "abc1234",
       type: "history.revealCommit"
     });
+    expect(postMessage).toHaveBeenCalledWith({
+      filePath: "src/file.ts",
+      lineRange: { endLine: 12, startLine: 10 },
+      repositoryId: "/repo",
+      type: "fileHistory.show"
+    });
   });
 });
 
@@ -1430,7 +1430,7 @@ describe("GitService", () => {
       message: "Commit message updated",
       status: "ok"
     });
-    await expect(service.squashCommits("/repo", ["abc123", "old456"])).resolves.toEqual({
+    await expect(service.squashCommits("/repo", ["abc123", "old456"], true)).resolves.toEqual({
       message: "Squashed 2 commits",
       status: "ok"
     });
@@ -1454,7 +1454,7 @@ describe("GitService", () => {
       "show --no-patch --format=%s abc123",
       "show --no-patch --format=%s old456",
       "reset --soft parent000",
-      "commit -m Squashed subject"
+      "commit -S -m Squashed subject"
     ]);
     expect(showQuickPick).toHaveBeenCalledWith(
       [
@@ -2015,6 +2015,429 @@ describe("GitService", () => {
     expect(calls).toEqual(["rev-parse HEAD", "rev-parse abc123^", "rev-list --first-parent HEAD"]);
   });
 
+  it("loads an interactive rebase plan from the oldest selected commit to head", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args.join(" ") === "rev-list --first-parent HEAD") {
+          return "head111\nmiddle222\nselected333\nbase444\n";
+        }
+
+        if (args[0] === "log") {
+          return [
+            "selected333\x1fselecte\x1fAlice\x1fStart feature\n\nExplain why.\n\nSigned-off-by: Alice <alice@example.com>\n\x1e",
+            "middle222\x1fmiddle2\x1fBob\x1fAdd tests\n\x1e",
+            "head111\x1fhead111\x1fAlice\x1fFinish feature\n\x1e"
+          ].join("\n");
+        }
+
+        return "";
+      }
+    });
+
+    await expect(service.loadInteractiveRebase("/repo", ["head111", "selected333"])).resolves.toEqual({
+      plan: {
+        base: "base444",
+        entries: [
+          {
+            action: "pick",
+            author: "Alice",
+            hash: "selected333",
+            message: "Start feature\n\nExplain why.\n\nSigned-off-by: Alice <alice@example.com>",
+            shortHash: "selecte"
+          },
+          { action: "pick", author: "Bob", hash: "middle222", message: "Add tests", shortHash: "middle2" },
+          { action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" }
+        ],
+        head: "head111"
+      },
+      result: { message: "Loaded 3 commits for interactive rebase", status: "ok" }
+    });
+    expect(calls).toEqual([
+      "rev-list --first-parent HEAD",
+      "rev-list --merges base444..head111",
+      "log --reverse --format=%H%x1f%h%x1f%an%x1f%B%x1e base444..head111"
+    ]);
+  });
+
+  it("cancels interactive rebase plans that would rewrite merges or the root commit", async () => {
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        if (args.join(" ") === "rev-list --first-parent HEAD") {
+          return "head111\nmerge222\nroot333\n";
+        }
+
+        if (args.join(" ") === "rev-list --merges root333..head111") {
+          return "merge222\n";
+        }
+
+        return "";
+      }
+    });
+
+    await expect(service.loadInteractiveRebase("/repo", ["merge222"])).resolves.toEqual({
+      result: {
+        message: "Interactive rebase cannot rewrite merge commits. Select commits after the latest merge.",
+        status: "cancelled"
+      }
+    });
+    await expect(service.loadInteractiveRebase("/repo", ["root333"])).resolves.toEqual({
+      result: { message: "Interactive rebase cannot include the root commit", status: "cancelled" }
+    });
+    await expect(service.loadInteractiveRebase("/repo", ["other999"])).resolves.toEqual({
+      result: { message: "Selected commits are not on the current branch", status: "cancelled" }
+    });
+  });
+
+  it("previews interactive rebase conflicts in a temporary worktree", async () => {
+    const calls: string[] = [];
+    let preflightRoot = "";
+    const service = createService({
+      gitRaw: async (repositoryRoot, args) => {
+        calls.push(`${repositoryRoot === "/repo" ? "repo" : "preflight"}: ${args.join(" ")}`);
+        if (args.join(" ") === "rev-parse HEAD") {
+          return "head111\n";
+        }
+
+        if (args.join(" ") === "rev-parse --verify --end-of-options base444^{commit}") {
+          return "base444\n";
+        }
+
+        if (args.join(" ") === "rev-list base444..head111") {
+          return "head111\nselected333\n";
+        }
+
+        if (args.join(" ").startsWith("worktree add --detach ")) {
+          preflightRoot = args[3]!;
+          return "";
+        }
+
+        if (args.join(" ") === "rev-parse --git-path guigit-rebase") {
+          return "/repo/.git/worktrees/preflight/guigit-rebase\n";
+        }
+
+        if (repositoryRoot === preflightRoot && args.includes("rebase")) {
+          throw new Error("error: could not apply head111... Finish feature");
+        }
+
+        return "";
+      }
+    });
+
+    await expect(service.previewInteractiveRebase("/repo", {
+      base: "base444",
+      entries: [
+        { action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" },
+        { action: "edit", author: "Alice", hash: "selected333", message: "Start feature", shortHash: "selecte" }
+      ],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "Rebase plan conflicts while applying head111.",
+      status: "conflict"
+    });
+    expect(calls).toEqual([
+      "repo: rev-parse HEAD",
+      "repo: rev-parse --verify --end-of-options base444^{commit}",
+      "repo: rev-list base444..head111",
+      expect.stringMatching(/^repo: worktree add --detach .* head111$/),
+      "preflight: rev-parse --git-path guigit-rebase",
+      "preflight: -c sequence.editor=cp '/repo/.git/worktrees/preflight/guigit-rebase/git-rebase-todo' -c core.editor=true rebase -i base444",
+      expect.stringMatching(/^repo: worktree remove --force .*/)
+    ]);
+  });
+
+  it("reports a preview that cannot set up its worktree without removing a worktree it never created", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args.join(" ") === "rev-parse HEAD") {
+          return "head111\n";
+        }
+
+        if (args.join(" ") === "rev-parse --verify --end-of-options base444^{commit}") {
+          return "base444\n";
+        }
+
+        if (args.join(" ") === "rev-list base444..head111") {
+          return "head111\n";
+        }
+
+        if (args[0] === "worktree" && args[1] === "add") {
+          throw new Error("fatal: could not create work tree dir");
+        }
+
+        return "";
+      }
+    });
+
+    await expect(service.previewInteractiveRebase("/repo", {
+      base: "base444",
+      entries: [{ action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" }],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "Could not prepare a preview of the rebase plan: fatal: could not create work tree dir",
+      status: "cancelled"
+    });
+    expect(calls.filter((call) => call.startsWith("worktree remove"))).toEqual([]);
+  });
+
+  it("tells the user a planned edit stop is expected instead of reporting conflicts", async () => {
+    let conflict: unknown;
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        if (args.join(" ") === "rev-parse HEAD") {
+          return "head111\n";
+        }
+
+        if (args.join(" ") === "rev-parse --verify --end-of-options base444^{commit}") {
+          return "base444\n";
+        }
+
+        if (args.join(" ") === "rev-list base444..head111") {
+          return "head111\nselected333\n";
+        }
+
+        return args.join(" ") === "rev-parse --git-path guigit-rebase" ? ".git/guigit-rebase\n" : "";
+      },
+      safetyService: {
+        abortOperation: async () => ({ message: "aborted", status: "cancelled" }),
+        continueOperation: async () => ({ message: "continued", status: "ok" }),
+        getOperationState: async () => ({ message: "ok", status: "ok" }),
+        runWithAutoStash: async (_repositoryRoot, _preference, operation, conflictInput) => {
+          conflict = conflictInput;
+          return operation();
+        }
+      },
+      showWarningMessage: vi.fn().mockResolvedValue("Continue"),
+      writeTextFile: async () => undefined
+    });
+
+    await service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [
+        { action: "edit", author: "Alice", hash: "selected333", message: "Start feature", shortHash: "selecte" },
+        { action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" }
+      ],
+      head: "head111"
+    });
+
+    expect(conflict).toEqual(expect.objectContaining({
+      operationName: "Interactive rebase",
+      pausedMessage: "Interactive rebase stopped at a planned edit. Amend the commit, then continue from GUI Git History."
+    }));
+  });
+
+  it("runs a confirmed interactive rebase plan through safety conflict handling", async () => {
+    const calls: string[] = [];
+    const files = new Map<string, string>();
+    let conflict: unknown;
+    const showWarningMessage = vi.fn().mockResolvedValue("Continue");
+    const service = createService({
+      gitRaw: async (repositoryRoot, args) => {
+        calls.push(`${repositoryRoot === "/repo" ? "repo" : "preflight"}: ${args.join(" ")}`);
+        if (args.join(" ") === "rev-parse HEAD") {
+          return "head111\n";
+        }
+
+        if (args.join(" ") === "rev-parse --verify --end-of-options base444^{commit}") {
+          return "base444\n";
+        }
+
+        if (args.join(" ") === "rev-list base444..head111") {
+          return "head111\nmiddle222\nselected333\n";
+        }
+
+        if (args.join(" ") === "rev-parse --git-path guigit-rebase") {
+          return ".git/guigit-rebase\n";
+        }
+
+        return "";
+      },
+      safetyService: {
+        abortOperation: async () => ({ message: "aborted", status: "cancelled" }),
+        continueOperation: async () => ({ message: "continued", status: "ok" }),
+        getOperationState: async () => ({ message: "ok", status: "ok" }),
+        runWithAutoStash: async (_repositoryRoot, _preference, operation, conflictInput) => {
+          conflict = conflictInput;
+          calls.push("safety");
+          return operation();
+        }
+      },
+      showWarningMessage,
+      writeTextFile: async (filePath, contents) => {
+        files.set(filePath, contents);
+      }
+    });
+
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [
+        { action: "reword", author: "Alice", hash: "selected333", message: "Start the feature", shortHash: "selecte" },
+        { action: "drop", author: "Bob", hash: "middle222", message: "Add tests", shortHash: "middle2" },
+        { action: "fixup", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" }
+      ],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "Rebased 3 commits",
+      status: "ok"
+    });
+    expect(showWarningMessage).toHaveBeenCalledWith("Rebase 3 commits onto base444?", "Continue", "Cancel");
+    expect(conflict).toEqual({
+      abortArgs: ["rebase", "--abort"],
+      continueArgs: ["-c", "core.editor=true", "rebase", "--continue"],
+      operationKind: "rebase",
+      operationName: "Interactive rebase"
+    });
+    expect(files.get("/repo/.git/guigit-rebase/message-1.txt")).toBe("Start the feature\n");
+    expect(files.get("/repo/.git/guigit-rebase/git-rebase-todo")).toBe([
+      "pick selected333",
+      "exec git commit --amend --only --allow-empty -F '/repo/.git/guigit-rebase/message-1.txt'",
+      "drop middle222",
+      "fixup head111",
+      "exec rm -rf '/repo/.git/guigit-rebase'",
+      ""
+    ].join("\n"));
+    expect(calls.filter((call) => call.startsWith("repo: ") || call === "safety")).toEqual([
+      "repo: rev-parse HEAD",
+      "repo: rev-parse --verify --end-of-options base444^{commit}",
+      "repo: rev-list base444..head111",
+      expect.stringMatching(/^repo: worktree add --detach .* head111$/),
+      expect.stringMatching(/^repo: worktree remove --force .*/),
+      "safety",
+      "repo: rev-parse --git-path guigit-rebase",
+      "repo: -c sequence.editor=cp '/repo/.git/guigit-rebase/git-rebase-todo' -c core.editor=true rebase -i base444"
+    ]);
+  });
+
+  it("rewords a commit with a multi-line message without dropping its body or trailers", async () => {
+    const files = new Map<string, string>();
+    const message = "Start the feature\n\nExplain why.\n\nSigned-off-by: Alice <alice@example.com>\nCo-authored-by: Bob <bob@example.com>";
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        if (args.join(" ") === "rev-parse HEAD") {
+          return "head111\n";
+        }
+
+        if (args.join(" ") === "rev-parse --verify --end-of-options base444^{commit}") {
+          return "base444\n";
+        }
+
+        if (args.join(" ") === "rev-list base444..head111") {
+          return "head111\n";
+        }
+
+        return args.join(" ") === "rev-parse --git-path guigit-rebase" ? ".git/guigit-rebase\n" : "";
+      },
+      showWarningMessage: vi.fn().mockResolvedValue("Continue"),
+      writeTextFile: async (filePath, contents) => {
+        files.set(filePath, contents);
+      }
+    });
+
+    await service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [{ action: "reword", author: "Alice", hash: "head111", message, shortHash: "head111" }],
+      head: "head111"
+    });
+
+    expect(files.get("/repo/.git/guigit-rebase/message-1.txt")).toBe(`${message}\n`);
+  });
+
+  it("cancels interactive rebase plans that are invalid or out of date", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args.join(" ") === "rev-parse HEAD" ? "newhead999\n" : "";
+      }
+    });
+    const entry = { action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" } as const;
+
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [{ ...entry, action: "squash" }],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "The first commit in the rebase plan cannot be squashed or fixed up",
+      status: "cancelled"
+    });
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [{ ...entry, action: "drop" }],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "Keep at least 1 commit in the rebase plan",
+      status: "cancelled"
+    });
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [{ ...entry, action: "reword", message: " " }],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "Reworded commits need a commit message",
+      status: "cancelled"
+    });
+    await expect(service.interactiveRebase("/repo", { base: "base444", entries: [entry], head: "head111" })).resolves.toEqual({
+      message: "The current branch changed after the rebase plan was loaded. Reload the plan and try again.",
+      status: "cancelled"
+    });
+    expect(calls).toEqual(["rev-parse HEAD"]);
+  });
+
+  it("cancels interactive rebase plans with unknown actions, foreign commits or an unresolvable base", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args.join(" ") === "rev-parse HEAD") {
+          return "head111\n";
+        }
+
+        if (args.join(" ") === "rev-parse --verify --end-of-options base444^{commit}") {
+          return "base444\n";
+        }
+
+        if (args[0] === "rev-parse") {
+          throw new Error("fatal: Needed a single revision");
+        }
+
+        return args.join(" ") === "rev-list base444..head111" ? "head111\nselected333\n" : "";
+      }
+    });
+    const entry = { action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" } as const;
+    const selectedEntry = { ...entry, hash: "selected333", shortHash: "selecte" };
+
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [{ ...entry, action: "exec" as "pick", hash: "touch /tmp/owned" }],
+      head: "head111"
+    })).resolves.toEqual({ message: "Unsupported rebase action: exec", status: "cancelled" });
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [selectedEntry, { ...entry, hash: "head111\nexec touch /tmp/owned" }],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "The rebase plan does not match the commits on the current branch. Reload the plan and try again.",
+      status: "cancelled"
+    });
+    await expect(service.interactiveRebase("/repo", {
+      base: "base444",
+      entries: [entry],
+      head: "head111"
+    })).resolves.toEqual({
+      message: "The rebase plan does not match the commits on the current branch. Reload the plan and try again.",
+      status: "cancelled"
+    });
+    await expect(service.previewInteractiveRebase("/repo", {
+      base: "--exec=touch /tmp/owned",
+      entries: [selectedEntry, entry],
+      head: "head111"
+    })).resolves.toEqual({ message: "Invalid rebase base: --exec=touch /tmp/owned", status: "cancelled" });
+    expect(calls.filter((call) => call.startsWith("worktree") || call.includes("rebase"))).toEqual([]);
+  });
+
   it("cancels commit context operations when required input is dismissed", async () => {
     const calls: string[] = [];
     const service = createService({
@@ -2032,6 +2455,374 @@ describe("GitService", () => {
 
     expect(calls).toEqual(["show --no-patch --format=%s abc123"]);
   });
+
+  it("loads reflog entries for a ref with the local branch list", async () => {
+    const calls: string[] = [];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "reflog") {
+          return [
+            ["abc1234567890", "abc1234", "HEAD@{2026-10-19 05:38:45 +0000}", "reset: moving to HEAD~1", "Ada", "Older work"],
+            ["def4567890123", "def4567", "HEAD@{2026-10-18 09:00:00 +0000}", "commit (initial): Initial", "Ada", "Initial"]
+          ]
+            .map((fields) => fields.join("\x1f"))
+            .join("\n");
+        }
+
+        return "main\nfeature/demo\n";
+      }
+    });
+
+    await expect(service.loadReflog("/repo")).resolves.toEqual({
+      entries: [
+        {
+          action: "reset",
+          author: "Ada",
+          date: "2026-10-19 05:38:45 +0000",
+          hash: "abc1234567890",
+          message: "moving to HEAD~1",
+          selector: "HEAD@{0}",
+          shortHash: "abc1234",
+          subject: "Older work"
+        },
+        {
+          action: "commit (initial)",
+          author: "Ada",
+          date: "2026-10-18 09:00:00 +0000",
+          hash: "def4567890123",
+          message: "Initial",
+          selector: "HEAD@{1}",
+          shortHash: "def4567",
+          subject: "Initial"
+        }
+      ],
+      ref: "HEAD",
+      refs: ["HEAD", "main", "feature/demo"]
+    });
+    await service.loadReflog("/repo", "feature/demo");
+
+    expect(calls).toEqual([
+      "reflog show --date=iso --format=%H%x1f%h%x1f%gd%x1f%gs%x1f%an%x1f%s --max-count=200 --end-of-options HEAD --",
+      "for-each-ref --format=%(refname:short) refs/heads",
+      "reflog show --date=iso --format=%H%x1f%h%x1f%gd%x1f%gs%x1f%an%x1f%s --max-count=200 --end-of-options feature/demo --",
+      "for-each-ref --format=%(refname:short) refs/heads"
+    ]);
+  });
+
+  it("checks out and resets to reflog entries after confirmation", async () => {
+    const calls: string[] = [];
+    const showQuickPick = vi
+      .fn()
+      .mockResolvedValueOnce({ label: "Checkout", value: "confirm" })
+      .mockResolvedValueOnce({ label: "Hard - discard changes", value: "hard" })
+      .mockResolvedValueOnce({ label: "Reset", value: "confirm" })
+      .mockResolvedValueOnce({ label: "Cancel", value: "cancel" })
+      .mockResolvedValueOnce(undefined);
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return "";
+      },
+      showQuickPick
+    });
+
+    await expect(service.checkoutReflogEntry("/repo", "abc1234567890", "HEAD@{2}")).resolves.toEqual({
+      message: "Checked out HEAD@{2} (abc12345)",
+      status: "ok"
+    });
+    await expect(service.pickReflogResetMode("HEAD@{2}")).resolves.toBe("hard");
+    await expect(service.resetToReflogEntry("/repo", "abc1234567890", "HEAD@{2}", "hard")).resolves.toEqual({
+      message: "Reset current branch to HEAD@{2} (abc12345)",
+      status: "ok"
+    });
+    await expect(service.checkoutReflogEntry("/repo", "abc1234567890", "HEAD@{2}")).resolves.toEqual({
+      message: "Checkout cancelled",
+      status: "cancelled"
+    });
+    await expect(service.pickReflogResetMode("HEAD@{2}")).resolves.toBeUndefined();
+
+    expect(calls).toEqual(["checkout --detach abc1234567890", "reset --hard abc1234567890"]);
+    expect(showQuickPick.mock.calls.map(([, options]) => options.placeHolder)).toEqual([
+      "Check out HEAD@{2} (abc12345) as a detached HEAD?",
+      "Select how to reset the current branch to HEAD@{2}",
+      "Reset --hard the current branch to HEAD@{2} (abc12345)?",
+      "Check out HEAD@{2} (abc12345) as a detached HEAD?",
+      "Select how to reset the current branch to HEAD@{2}"
+    ]);
+  });
+
+  it("fetches pull request heads into a private namespace and checks them out as local branches", async () => {
+    const calls: string[] = [];
+    const localBranches = ["", "  pr/12\n"];
+    const showQuickPick = vi.fn(async (items: readonly { label: string; value: string }[]) => items[0]);
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args[0] === "branch" ? localBranches.shift() ?? "" : "";
+      },
+      safetyService: {
+        abortOperation: async () => ({ message: "aborted", status: "cancelled" }),
+        continueOperation: async () => ({ message: "continued", status: "ok" }),
+        getOperationState: async () => ({ message: "ok", status: "ok" }),
+        runWithAutoStash: async (_repositoryRoot, preference, operation) => {
+          calls.push(`safety ${preference}`);
+          return operation();
+        }
+      },
+      showQuickPick
+    });
+    const target = { branch: "pr/12", number: 12, ref: "refs/pull/12/head", remote: "origin" };
+
+    await expect(service.checkoutPullRequest("/repo", target)).resolves.toEqual({
+      message: "Checked out pull request #12 as pr/12",
+      status: "ok"
+    });
+    await service.checkoutPullRequest("/repo", target);
+
+    expect(showQuickPick.mock.calls.map(([, options]) => options.placeHolder)).toEqual([
+      "Check out pull request #12 as pr/12?",
+      "Check out pull request #12 as pr/12?"
+    ]);
+    expect(calls).toEqual([
+      "fetch origin +refs/pull/12/head:refs/guigit/pull/12",
+      "branch --list pr/12",
+      "safety ask",
+      "checkout -b pr/12 refs/guigit/pull/12",
+      "fetch origin +refs/pull/12/head:refs/guigit/pull/12",
+      "branch --list pr/12",
+      "merge-base --is-ancestor refs/heads/pr/12 refs/guigit/pull/12",
+      "safety ask",
+      "checkout pr/12",
+      "merge --ff-only refs/guigit/pull/12"
+    ]);
+  });
+
+  it("asks before resetting a pull request branch after the pull request was force-pushed", async () => {
+    const calls: string[] = [];
+    const choices = ["confirm", "cancel", "confirm", "confirm"];
+    const showQuickPick = vi.fn(async (items: readonly { label: string; value: string }[]) => {
+      const choice = choices.shift();
+      return items.find((item) => item.value === choice);
+    });
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "merge-base") {
+          throw new Error("");
+        }
+
+        return args[0] === "branch" ? "  pr/12\n" : "";
+      },
+      showQuickPick
+    });
+    const target = { branch: "pr/12", number: 12, ref: "refs/pull/12/head", remote: "origin" };
+
+    await expect(service.checkoutPullRequest("/repo", target)).resolves.toEqual({
+      message: "pr/12 has diverged from pull request #12; checkout cancelled",
+      status: "cancelled"
+    });
+    await expect(service.checkoutPullRequest("/repo", target)).resolves.toEqual({
+      message: "Checked out pull request #12 as pr/12",
+      status: "ok"
+    });
+
+    expect(showQuickPick.mock.calls[1]?.[1].placeHolder).toBe(
+      "Pull request #12 was force-pushed and pr/12 has commits that are no longer in it. Reset pr/12 to the pull request head?"
+    );
+    expect(calls.filter((call) => call.startsWith("checkout") || call.startsWith("reset") || call.startsWith("merge "))).toEqual([
+      "checkout pr/12",
+      "reset --hard refs/guigit/pull/12"
+    ]);
+  });
+
+  it("creates lightweight and annotated tags at a commit", async () => {
+    const calls: string[] = [];
+    const inputs = ["v1.0.0", "v1.1.0", "Release 1.1"];
+    const tagTypes = ["lightweight", "annotated"];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return "";
+      },
+      showInputBox: async () => inputs.shift(),
+      showQuickPick: async (items) => {
+        const value = tagTypes.shift();
+        return items.find((item) => item.value === value);
+      }
+    });
+
+    await expect(service.createTag("/repo", "abc1234567")).resolves.toEqual({
+      message: "Created tag v1.0.0 at abc12345",
+      status: "ok"
+    });
+    await expect(service.createTag("/repo", "abc1234567")).resolves.toEqual({
+      message: "Created tag v1.1.0 at abc12345",
+      status: "ok"
+    });
+    await expect(service.createTag("/repo", "abc1234567")).resolves.toEqual({
+      message: "Create tag cancelled",
+      status: "cancelled"
+    });
+    expect(calls).toEqual([
+      "tag v1.0.0 abc1234567",
+      "tag -a v1.1.0 -m Release 1.1 abc1234567"
+    ]);
+  });
+
+  it("deletes a commit tag locally or from a remote after confirmation", async () => {
+    const calls: string[] = [];
+    const picks = ["v2.0.0", "__local_tag__", "v1.0.0", "origin"];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "tag" && args[1] === "--points-at") {
+          return "v1.0.0\nv2.0.0\n";
+        }
+
+        return args[0] === "remote" ? "origin\nupstream\n" : "";
+      },
+      showQuickPick: async (items) => {
+        const value = picks.shift();
+        return items.find((item) => item.value === value);
+      },
+      showWarningMessage: async () => "Continue"
+    });
+
+    await expect(service.deleteTag("/repo", "abc123")).resolves.toEqual({ message: "Deleted tag v2.0.0", status: "ok" });
+    await expect(service.deleteTag("/repo", "abc123")).resolves.toEqual({
+      message: "Deleted tag v1.0.0 from origin",
+      status: "ok"
+    });
+    expect(calls.filter((call) => !call.startsWith("tag --points-at") && call !== "remote")).toEqual([
+      "tag -d v2.0.0",
+      "push origin --delete refs/tags/v1.0.0"
+    ]);
+  });
+
+  it("pushes one tag or all tags to the selected remote", async () => {
+    const calls: string[] = [];
+    const picks = ["v1.0.0", "__all_tags__"];
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "tag") {
+          return "v1.0.0\n";
+        }
+
+        return args[0] === "remote" ? "origin\n" : "";
+      },
+      showQuickPick: async (items) => {
+        const value = picks.shift();
+        return items.find((item) => item.value === value);
+      }
+    });
+
+    await expect(service.pushTags("/repo", "abc123")).resolves.toEqual({ message: "Pushed tag v1.0.0 to origin", status: "ok" });
+    await expect(service.pushTags("/repo", "abc123")).resolves.toEqual({ message: "Pushed all tags to origin", status: "ok" });
+    await expect(service.pushTags("/repo", "abc123")).resolves.toEqual({ message: "Push tags cancelled", status: "cancelled" });
+    expect(calls.filter((call) => call.startsWith("push"))).toEqual([
+      "push origin refs/tags/v1.0.0",
+      "push origin --tags"
+    ]);
+  });
+
+  it("explains why tag actions stop when a commit has no tags or there are no remotes", async () => {
+    const showQuickPick = vi.fn();
+    const service = createService({
+      gitRaw: async () => "",
+      showQuickPick
+    });
+
+    await expect(service.deleteTag("/repo", "abc123")).resolves.toEqual({ message: "No tags on this commit", status: "cancelled" });
+    await expect(service.pushTags("/repo", "abc123")).resolves.toEqual({ message: "No remotes configured", status: "cancelled" });
+    expect(showQuickPick).not.toHaveBeenCalled();
+  });
+
+  it("runs merges with the selected strategy through safety auto-stash handling", async () => {
+    const calls: string[] = [];
+    let conflictContext: unknown;
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return "";
+      },
+      safetyService: {
+        abortOperation: async () => ({ message: "aborted", status: "cancelled" }),
+        continueOperation: async () => ({ message: "continued", status: "ok" }),
+        getOperationState: async () => ({ message: "ok", status: "ok" }),
+        runWithAutoStash: async (repositoryRoot, preference, operation, conflict) => {
+          calls.push(`safety ${repositoryRoot} ${preference}`);
+          conflictContext = conflict;
+          return operation();
+        }
+      },
+      settingsService: {
+        getSettings: () => ({ autoStashOnPull: "always" })
+      }
+    });
+
+    await expect(service.merge("/repo", "feature/demo", "no-ff", " Merge feature ")).resolves.toEqual({
+      message: "Merged feature/demo",
+      status: "ok"
+    });
+    await expect(service.merge("/repo", "abc1234567890abcdefabc1234567890abcdefab", "ff-only")).resolves.toEqual({
+      message: "Merged abc12345",
+      status: "ok"
+    });
+    expect(calls.filter((call) => call.startsWith("merge") || call.startsWith("safety"))).toEqual([
+      "safety /repo always",
+      "merge --no-ff -m Merge feature feature/demo",
+      "safety /repo always",
+      "merge --ff-only --no-edit abc1234567890abcdefabc1234567890abcdefab"
+    ]);
+    expect(conflictContext).toEqual({
+      abortArgs: ["merge", "--abort"],
+      continueArgs: ["commit", "--no-edit"],
+      operationKind: "merge",
+      operationName: "Merge"
+    });
+    await expect(service.merge("/repo", " ", "default")).rejects.toThrow("Merge source is required");
+    calls.length = 0;
+    await expect(service.merge("/repo", "--no-verify", "default")).rejects.toThrow("Invalid merge source: --no-verify");
+    expect(calls).toEqual([]);
+  });
+
+  it("commits squash merges and resumes them through the squash conflict session", async () => {
+    const calls: string[] = [];
+    let conflictContext: unknown;
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args.join(" ") === "diff --cached --name-only" ? "src/a.ts\n" : "";
+      },
+      safetyService: {
+        abortOperation: async () => ({ message: "aborted", status: "cancelled" }),
+        continueOperation: async () => ({ message: "continued", status: "ok" }),
+        getOperationState: async () => ({ message: "ok", status: "ok" }),
+        runWithAutoStash: async (_repositoryRoot, _preference, operation, conflict) => {
+          conflictContext = conflict;
+          return operation();
+        }
+      }
+    });
+
+    await expect(service.merge("/repo", "feature/demo", "squash")).resolves.toEqual({
+      message: "Squash merged feature/demo",
+      status: "ok"
+    });
+    expect(calls.filter((call) => /^(commit|diff|merge) /.test(call))).toEqual([
+      "merge --squash feature/demo",
+      "diff --cached --name-only",
+      "commit --no-edit"
+    ]);
+    expect(conflictContext).toEqual({
+      abortArgs: ["reset", "--merge"],
+      continueArgs: ["commit", "--no-edit"],
+      operationKind: "squash",
+      operationName: "Squash merge"
+    });
+  });
 });
 
 function createService(input: {
@@ -2072,7 +2863,7 @@ function createService(input: {
       conflict?: {
         abortArgs: readonly string[];
         continueArgs: readonly string[];
-        operationKind: "merge" | "rebase";
+        operationKind: "merge" | "rebase" | "squash";
         operationName: string;
       }
     ): Promise<OperationResultViewModel>;
@@ -2101,6 +2892,7 @@ function createService(input: {
     info(message: string, context?: unknown): void;
   };
   workspaceFolders?: readonly string[];
+  writeTextFile?: (filePath: string, contents: string) => Promise<void>;
 }): GitService {
   return new GitService({
     gitClone: input.gitClone,
@@ -2135,6 +2927,7 @@ function createService(input: {
     ),
     showWarningMessage: input.showWarningMessage,
     withProgress: input.withProgress,
-    workspaceFolders: input.workspaceFolders
+    workspaceFolders: input.workspaceFolders,
+    writeTextFile: input.writeTextFile ?? (async () => undefined)
   });
 }
@@ -1,3 +1,4 @@
+import { inflateSync } from "node:zlib";
 import { describe, expect, it } from "vitest";
 import { GraphService } from "../../src/backend/git/GraphService";
 
@@ -664,4 +665,255 @@ describe("GraphService", () => {
     expect(new Set(branchColors).size).toBe(branchCount);
     expect(branchColors).not.toContain("#f56565");
   });
+
+  it("lays out only appended pages and continues lanes from the previous page", async () => {
+    const records: Readonly<Record<string, string>> = {
+      base: "base\x1f",
+      mid: "mid\x1fbase",
+      side: "side\x1fbase",
+      top: "top\x1fmid side"
+    };
+    const shownHashes: Array<readonly string[]> = [];
+    const gitRaw = async (_repositoryRoot: string, args: readonly string[]) => {
+      const hashes = args.slice(3);
+      shownHashes.push(hashes);
+      return hashes.map((hash) => records[hash]).join("\x1e");
+    };
+    const service = new GraphService({ gitRaw });
+
+    const firstPage = await service.getLayout("/workspace/repo", ["top", "side"]);
+    const secondPage = await service.getLayout("/workspace/repo", ["top", "side", "mid", "base"]);
+
+    expect(shownHashes).toEqual([
+      ["top", "side"],
+      ["mid", "base"]
+    ]);
+    expect(firstPage.edges.find((edge) => edge.toHash === "mid")?.points).toEqual([
+      { x: 8, y: 18 },
+      { x: 8, y: 72 }
+    ]);
+
+    const fullLayout = await new GraphService({ gitRaw }).getLayout("/workspace/repo", ["top", "side", "mid", "base"]);
+
+    expect(secondPage).toEqual(fullLayout);
+  });
+
+  it("lays out merge-heavy histories the same way whether they are loaded in pages or at once", async () => {
+    const records: Readonly<Record<string, string>> = {
+      "branch-cont": "branch-cont\x1fshared-base",
+      "branch-head": "branch-head\x1fbranch-merge",
+      "branch-merge": "branch-merge\x1fbranch-cont side-merge",
+      "main-merge": "main-merge\x1fmain-parent branch-head",
+      "main-parent": "main-parent\x1fshared-base",
+      "shared-base": "shared-base\x1f",
+      "side-main": "side-main\x1fshared-base",
+      "side-merge": "side-merge\x1fshared-base side-main"
+    };
+    const hashes = [
+      "main-merge",
+      "branch-head",
+      "branch-merge",
+      "side-merge",
+      "side-main",
+      "branch-cont",
+      "main-parent",
+      "shared-base"
+    ];
+    const gitRaw = async (_repositoryRoot: string, args: readonly string[]) =>
+      args.slice(3).map((hash) => records[hash]).join("\x1e");
+    const fullLayout = await new GraphService({ gitRaw }).getLayout("/workspace/repo", hashes);
+
+    for (const pageSize of [1, 2, 3, 5]) {
+      const service = new GraphService({ gitRaw });
+      let pagedLayout = await service.getLayout("/workspace/repo", hashes.slice(0, pageSize));
+      for (let rowCount = pageSize * 2; rowCount < hashes.length + pageSize; rowCount += pageSize) {
+        pagedLayout = await service.getLayout("/workspace/repo", hashes.slice(0, rowCount));
+      }
+
+      expect(pagedLayout).toEqual(fullLayout);
+    }
+  });
+
+  it("sends only new rows and the edges still open at the known row count", async () => {
+    const records: Readonly<Record<string, string>> = {
+      base: "base\x1f",
+      mid: "mid\x1fbase",
+      side: "side\x1fbase",
+      top: "top\x1fmid side"
+    };
+    const gitRaw = async (_repositoryRoot: string, args: readonly string[]) =>
+      args.slice(3).map((hash) => records[hash]).join("\x1e");
+    const service = new GraphService({ gitRaw });
+
+    const firstPage = await service.getLayoutPage("/workspace/repo", ["top", "side"]);
+    const secondPage = await service.getLayoutPage("/workspace/repo", ["top", "side", "mid", "base"], {
+      layoutId: firstPage.layoutId,
+      rowCount: firstPage.graph.nodes.length
+    });
+    const fullLayout = await new GraphService({ gitRaw }).getLayout("/workspace/repo", ["top", "side", "mid", "base"]);
+
+    expect(firstPage.startRow).toBe(0);
+    expect(secondPage).toEqual(expect.objectContaining({ layoutId: firstPage.layoutId, startRow: 2 }));
+    expect(secondPage.graph.nodes.map((node) => node.hash)).toEqual(["mid", "base"]);
+    expect(secondPage.graph.edges.map((edge) => `${edge.fromHash}-${edge.toHash}`)).toEqual([
+      "top-mid",
+      "side-base",
+      "mid-base"
+    ]);
+    expect([...firstPage.graph.nodes, ...secondPage.graph.nodes]).toEqual(fullLayout.nodes);
+    expect(secondPage.graph.edges).toEqual(fullLayout.edges.filter((edge) => edge.fromHash !== "top" || edge.toHash !== "side"));
+    expect(secondPage.graph.width).toBe(fullLayout.width);
+
+    await expect(service.getLayoutPage("/workspace/repo", ["top", "side", "mid", "base"], {
+      layoutId: "stale-layout",
+      rowCount: 2
+    })).resolves.toEqual(expect.objectContaining({ graph: fullLayout, startRow: 0 }));
+  });
+
+  it("lays out the full list again when the hashes no longer extend the previous page", async () => {
+    const shownHashes: Array<readonly string[]> = [];
+    const service = new GraphService({
+      gitRaw: async (_repositoryRoot, args) => {
+        const hashes = args.slice(3);
+        shownHashes.push(hashes);
+        return hashes.map((hash) => `${hash}\x1f`).join("\x1e");
+      }
+    });
+
+    await service.getLayout("/workspace/repo", ["first", "second"]);
+    await service.getLayout("/workspace/repo", ["first", "second"]);
+    const graph = await service.getLayout("/workspace/repo", ["rewritten", "second"]);
+
+    expect(shownHashes).toEqual([
+      ["first", "second"],
+      ["rewritten", "second"]
+    ]);
+    expect(graph.nodes.map((node) => node.hash)).toEqual(["rewritten", "second"]);
+  });
+
+  it("exports the loaded range as a standalone SVG with commit columns", async () => {
+    const writes: Array<{ content: string | Uint8Array; path: string }> = [];
+    const service = new GraphService({
+      gitRaw: async (_repositoryRoot, args) =>
+        args.includes("--date=short")
+          ? [
+              "child\x1fc1a2b3c\x1fAda <Lovelace>\x1f2026-05-07\x1fHEAD -> main, origin/main, tag: v1.0\x1fFix <graph> & export",
+              "parent\x1fp1a2b3c\x1fGrace\x1f2026-05-06\x1f\x1fInitial commit"
+            ].join("\x1e")
+          : ["child\x1fparent", "parent\x1f"].join("\x1e"),
+      showSaveDialog: async () => ({ fsPath: "/exports/graph.svg" }),
+      writeFile: async (path, content) => {
+        writes.push({ content, path });
+      }
+    });
+
+    const result = await service.exportGraph("/workspace/repo", ["child", "parent"], "svg");
+
+    expect(result).toEqual({ message: "Exported 2 commits to /exports/graph.svg", status: "ok" });
+    expect(writes).toHaveLength(1);
+    const svg = writes[0]!.content as string;
+    expect(writes[0]!.path).toBe("/exports/graph.svg");
+    expect(svg).toMatch(/^<\?xml version="1\.0" encoding="UTF-8"\?>\n<svg height="72" viewBox="0 0 \d+ 72"/);
+    expect(svg).toContain('<polyline fill="none" points="8,18 8,54" stroke="#f56565"');
+    expect(svg).toContain('<circle cx="8" cy="54" fill="#f56565" r="4"');
+    expect(svg).toContain(">Fix &lt;graph&gt; &amp; export</text>");
+    expect(svg).toContain(">Ada &lt;Lovelace&gt;</text>");
+    expect(svg).toContain(">c1a2b3c</text>");
+    expect(svg).toContain(">2026-05-06</text>");
+    for (const ref of ["HEAD", "main", "origin/main", "v1.0"]) {
+      expect(svg).toContain(`>${ref}</text>`);
+    }
+  });
+
+  it("exports a PNG image with the graph drawn at twice the layout scale", async () => {
+    const writes: Array<string | Uint8Array> = [];
+    const service = new GraphService({
+      gitRaw: async (_repositoryRoot, args) =>
+        args.includes("--date=short") ? "only\x1fo1a2b3c\x1fAda\x1f2026-05-07\x1f\x1fSingle commit" : "only\x1f",
+      showSaveDialog: async () => ({ fsPath: "/exports/graph.png" }),
+      writeFile: async (_path, content) => {
+        writes.push(content);
+      }
+    });
+
+    await service.exportGraph("/workspace/repo", ["only"], "png");
+
+    const png = Buffer.from(writes[0] as Uint8Array);
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(png.toString("ascii", 12, 16)).toBe("IHDR");
+    const width = png.readUInt32BE(16);
+    expect(png.readUInt32BE(20)).toBe(72);
+    const idatLength = png.readUInt32BE(33);
+    const pixels = inflateSync(png.subarray(41, 41 + idatLength));
+    const nodeOffset = 36 * (width * 4 + 1) + 1 + 16 * 4;
+    expect([...pixels.subarray(nodeOffset, nodeOffset + 4)]).toEqual([0xf5, 0x65, 0x65, 0xff]);
+  });
+
+  it("refuses PNG export when a label has characters the bitmap font cannot draw", async () => {
+    const writes: Array<string | Uint8Array> = [];
+    const service = new GraphService({
+      gitRaw: async (_repositoryRoot, args) =>
+        args.includes("--date=short") ? "only\x1fo1a2b3c\x1f李雷\x1f2026-05-07\x1f\x1fCafé export" : "only\x1f",
+      showSaveDialog: async () => ({ fsPath: "/exports/graph.png" }),
+      writeFile: async (_path, content) => {
+        writes.push(content);
+      }
+    });
+
+    await expect(service.exportGraph("/workspace/repo", ["only"], "png")).rejects.toThrow(
+      'PNG export can only draw ASCII text and cannot draw "Café export"; export SVG instead'
+    );
+    expect(writes).toEqual([]);
+  });
+
+  it("exports without resetting the incremental layout of the history view", async () => {
+    const records: Readonly<Record<string, string>> = {
+      base: "base\x1f",
+      mid: "mid\x1fbase",
+      top: "top\x1fmid"
+    };
+    const service = new GraphService({
+      gitRaw: async (_repositoryRoot, args) =>
+        args.includes("--date=short")
+          ? args.slice(5).map((hash) => `${hash}\x1f${hash}\x1fAda\x1f2026-05-07\x1f\x1f${hash}`).join("\x1e")
+          : args.slice(3).map((hash) => records[hash]).join("\x1e"),
+      showSaveDialog: async () => ({ fsPath: "/exports/graph.svg" }),
+      writeFile: async () => undefined
+    });
+
+    const firstPage = await service.getLayoutPage("/workspace/repo", ["top", "mid"]);
+    await service.exportGraph("/workspace/repo", ["mid"], "svg");
+    const secondPage = await service.getLayoutPage("/workspace/repo", ["top", "mid", "base"], {
+      layoutId: firstPage.layoutId,
+      rowCount: 2
+    });
+
+    expect(secondPage).toEqual(expect.objectContaining({ layoutId: firstPage.layoutId, startRow: 2 }));
+    expect(secondPage.graph.nodes.map((node) => node.hash)).toEqual(["base"]);
+  });
+
+  it("asks for an export location and reports a cancelled dialog", async () => {
+    const dialogOptions: unknown[] = [];
+    const service = new GraphService({
+      gitRaw: async () => {
+        throw new Error("git should not be called");
+      },
+      showSaveDialog: async (options) => {
+        dialogOptions.push(options);
+        return undefined;
+      }
+    });
+
+    await expect(service.exportGraph("/workspace/repo", ["child"], "png")).resolves.toEqual({
+      message: "Graph export cancelled",
+      status: "cancelled"
+    });
+    expect(dialogOptions).toEqual([
+      {
+        defaultPath: "/workspace/repo/git-graph.png",
+        filters: { "PNG Image": ["png"] },
+        saveLabel: "Export Graph"
+      }
+    ]);
+  });
 });
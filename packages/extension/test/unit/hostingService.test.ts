@@ -0,0 +1,343 @@
+import { describe, expect, it, vi } from "vitest";
+import { HostingApiClient } from "../../src/backend/git/HostingApiClient";
+import { builtInHostingProviders, type HostingProvider, type HostingRepository } from "../../src/backend/git/HostingProvider";
+import { HostingService, type HostingServiceInput } from "../../src/backend/git/HostingService";
+import type { HostingProviderConfiguration } from "../../src/state/SettingsService";
+
+vi.mock("vscode", () => ({
+  env: {
+    clipboard: {
+      writeText: vi.fn()
+    },
+    openExternal: vi.fn()
+  },
+  Uri: {
+    parse: vi.fn()
+  }
+}));
+
+const repository: HostingRepository = {
+  host: "example.com",
+  path: "owner/repo",
+  webUrl: "https://example.com/owner/repo"
+};
+
+describe("HostingService", () => {
+  it("builds commit, branch, compare and pull request URLs for the built-in providers", () => {
+    expect(
+      Object.values(builtInHostingProviders).map((provider) => [
+        provider.kind,
+        provider.commitUrl(repository, "abc123"),
+        provider.branchUrl(repository, "feature/demo"),
+        provider.compareUrl(repository, "main", "feature/demo"),
+        provider.pullRequestUrl(repository, "feature/demo")
+      ])
+    ).toEqual([
+      [
+        "bitbucket",
+        "https://example.com/owner/repo/commits/abc123",
+        "https://example.com/owner/repo/branch/feature/demo",
+        "https://example.com/owner/repo/branches/compare/feature%2Fdemo%0Dmain",
+        "https://example.com/owner/repo/pull-requests/new?source=feature%2Fdemo"
+      ],
+      [
+        "gitea",
+        "https://example.com/owner/repo/commit/abc123",
+        "https://example.com/owner/repo/src/branch/feature/demo",
+        "https://example.com/owner/repo/compare/main...feature/demo",
+        "https://example.com/owner/repo/compare/feature/demo"
+      ],
+      [
+        "github",
+        "https://example.com/owner/repo/commit/abc123",
+        "https://example.com/owner/repo/tree/feature/demo",
+        "https://example.com/owner/repo/compare/main...feature/demo",
+        "https://example.com/owner/repo/pull/new/feature%2Fdemo"
+      ],
+      [
+        "gitlab",
+        "https://example.com/owner/repo/-/commit/abc123",
+        "https://example.com/owner/repo/-/tree/feature/demo",
+        "https://example.com/owner/repo/-/compare/main...feature/demo",
+        "https://example.com/owner/repo/-/merge_requests/new?merge_request[source_branch]=feature%2Fdemo"
+      ]
+    ]);
+  });
+
+  it("matches self-hosted remotes through configured host patterns", () => {
+    const service = createService({
+      hosts: [
+        { host: "git.example.com", provider: "gitlab", webUrl: "https://git.example.com/gitlab" },
+        { host: "*.corp.test", provider: "gitea" }
+      ]
+    });
+
+    expect(service.pullRequestUrl("ssh://git@git.example.com:2222/team/app.git", "topic")).toBe(
+      "https://git.example.com/gitlab/team/app/-/merge_requests/new?merge_request[source_branch]=topic"
+    );
+    expect(service.pullRequestUrl("http://code.corp.test:3000/team/app.git", "topic")).toBe(
+      "http://code.corp.test:3000/team/app/compare/topic"
+    );
+    expect(service.pullRequestUrl("git@github.com:owner/repo.git", "topic")).toBe("https://github.com/owner/repo/pull/new/topic");
+    expect(service.pullRequestUrl("git@unknown.test:owner/repo.git", "topic")).toBe("https://unknown.test/owner/repo");
+  });
+
+  it("opens and copies commit permalinks from the origin remote with a fake provider", async () => {
+    const openedUrls: string[] = [];
+    const copied: string[] = [];
+    const gitCalls: string[][] = [];
+    const fakeProvider: HostingProvider = {
+      kind: "github",
+      branchUrl: () => "",
+      commitUrl: (target, hash) => `fake://${target.host}/${target.path}@${hash}`,
+      compareUrl: () => "",
+      pullRequestUrl: () => ""
+    };
+    const service = createService({
+      clipboardWrite: async (text) => {
+        copied.push(text);
+      },
+      gitRaw: async (_repositoryRoot, args) => {
+        gitCalls.push([...args]);
+        return args[0] === "remote" && args.length === 1 ? "upstream\norigin\n" : "git@review.internal:team/app.git\n";
+      },
+      hosts: [{ host: "review.internal", provider: "github" }],
+      openExternal: async (url) => {
+        openedUrls.push(url);
+      },
+      providers: { ...builtInHostingProviders, github: fakeProvider }
+    });
+
+    await expect(service.openCommit("/repo", "abc1234567890")).resolves.toEqual({
+      message: "Opened abc12345 on remote",
+      status: "ok"
+    });
+    await expect(service.copyCommitPermalink("/repo", "abc1234567890")).resolves.toEqual({
+      message: "Copied permalink for abc12345",
+      status: "ok"
+    });
+
+    expect(openedUrls).toEqual(["fake://review.internal/team/app@abc1234567890"]);
+    expect(copied).toEqual(["fake://review.internal/team/app@abc1234567890"]);
+    expect(gitCalls[1]).toEqual(["remote", "get-url", "origin"]);
+  });
+
+  it("reports unresolved remotes without opening anything", async () => {
+    const openExternal = vi.fn();
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "origin\n" : "https://unknown.test/owner/repo.git\n"),
+      openExternal
+    });
+
+    await expect(service.openCommit("/repo", "abc123")).resolves.toEqual({
+      message: "No hosting provider matches this repository's remote. Add the host to guigit.hosting.providers.",
+      status: "cancelled"
+    });
+    expect(openExternal).not.toHaveBeenCalled();
+  });
+
+  it("lists open GitHub pull requests through the proxy-aware API client with the stored token", async () => {
+    const fetch = vi.fn(async () =>
+      createResponse([
+        {
+          base: { ref: "main" },
+          draft: true,
+          head: { ref: "feature/demo" },
+          html_url: "https://github.com/owner/repo/pull/7",
+          number: 7,
+          title: "Add demo",
+          updated_at: "2026-01-02T03:04:05Z",
+          user: { login: "octo" }
+        }
+      ])
+    );
+    const service = createService({
+      apiClient: new HostingApiClient({
+        fetch,
+        getProxyConfig: async () => ({
+          enabled: true,
+          http: "http://127.0.0.1:7890",
+          https: "http://127.0.0.1:7890",
+          source: "git"
+        })
+      }),
+      gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "origin\n" : "git@github.com:owner/repo.git\n"),
+      tokens: { "https://api.github.com": "ghp-test" }
+    });
+
+    await expect(service.listPullRequests("/repo")).resolves.toEqual([
+      {
+        author: "octo",
+        draft: true,
+        number: 7,
+        sourceBranch: "feature/demo",
+        targetBranch: "main",
+        title: "Add demo",
+        updatedAt: "2026-01-02T03:04:05Z",
+        url: "https://github.com/owner/repo/pull/7"
+      }
+    ]);
+    expect(fetch.mock.calls[0]![0]).toBe("https://api.github.com/repos/owner/repo/pulls?state=open&per_page=50");
+    expect(fetch.mock.calls[0]![1]).toEqual(
+      expect.objectContaining({
+        dispatcher: expect.any(Object),
+        headers: {
+          Accept: "application/vnd.github+json",
+          Authorization: "Bearer ghp-test"
+        },
+        method: "GET"
+      })
+    );
+  });
+
+  it("lists self-hosted GitLab merge requests and Gitea pull requests from their API roots", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      createResponse(
+        url.includes("/api/v4/")
+          ? [
+              {
+                author: { username: "lab" },
+                iid: 12,
+                source_branch: "topic",
+                target_branch: "develop",
+                title: "Draft: topic",
+                updated_at: "2026-02-01T00:00:00Z",
+                web_url: "https://git.example.com/gitlab/team/app/-/merge_requests/12",
+                work_in_progress: true
+              }
+            ]
+          : [{ base: { ref: "main" }, head: { ref: "fix" }, html_url: "http://code.corp.test:3000/team/app/pulls/3", number: 3, title: "Fix", user: { login: "tea" } }]
+      )
+    );
+    const createRemoteService = (remoteUrl: string) =>
+      createService({
+        apiClient: new HostingApiClient({ fetch }),
+        gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "origin\n" : `${remoteUrl}\n`),
+        hosts: [
+          { host: "git.example.com", provider: "gitlab", webUrl: "https://git.example.com/gitlab" },
+          { host: "*.corp.test", provider: "gitea" }
+        ],
+        tokens: { "http://code.corp.test:3000": "tea-token", "https://git.example.com": "glpat-test" }
+      });
+
+    await expect(createRemoteService("ssh://git@git.example.com:2222/team/app.git").listPullRequests("/repo")).resolves.toEqual([
+      expect.objectContaining({ author: "lab", draft: true, number: 12, sourceBranch: "topic", targetBranch: "develop" })
+    ]);
+    await expect(createRemoteService("http://code.corp.test:3000/team/app.git").listPullRequests("/repo")).resolves.toEqual([
+      expect.objectContaining({ author: "tea", draft: false, number: 3, sourceBranch: "fix", updatedAt: "" })
+    ]);
+
+    expect(fetch.mock.calls.map(([url, init]) => [url, (init as RequestInit).headers])).toEqual([
+      [
+        "https://git.example.com/gitlab/api/v4/projects/team%2Fapp/merge_requests?state=opened&per_page=50",
+        { Accept: "application/json", "PRIVATE-TOKEN": "glpat-test" }
+      ],
+      [
+        "http://code.corp.test:3000/api/v1/repos/team/app/pulls?state=open&limit=50",
+        { Accept: "application/json", Authorization: "token tea-token" }
+      ]
+    ]);
+  });
+
+  it("does not send a stored token when workspace settings point the provider at another origin", async () => {
+    const fetch = vi.fn(async () => createResponse([]));
+    const service = createService({
+      apiClient: new HostingApiClient({ fetch }),
+      gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "origin\n" : "git@git.example.com:team/app.git\n"),
+      hosts: [{ host: "git.example.com", provider: "gitlab", webUrl: "https://collector.test" }],
+      tokens: { "https://git.example.com": "glpat-test" }
+    });
+
+    await expect(service.listPullRequests("/repo")).resolves.toEqual([]);
+
+    expect(fetch.mock.calls[0]![0]).toBe("https://collector.test/api/v4/projects/team%2Fapp/merge_requests?state=opened&per_page=50");
+    expect((fetch.mock.calls[0]![1] as RequestInit).headers).toEqual({ Accept: "application/json" });
+  });
+
+  it("surfaces API failures with a hint to configure a token", async () => {
+    const service = createService({
+      apiClient: new HostingApiClient({
+        fetch: vi.fn(async () => new Response("Bad credentials", { status: 401 }))
+      }),
+      gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "origin\n" : "https://github.com/owner/repo.git\n")
+    });
+
+    await expect(service.listPullRequests("/repo")).rejects.toThrow(
+      "Hosting API request failed with status 401: Bad credentials. Set an access token for this host from the Pull Requests menu."
+    );
+  });
+
+  it("resolves checkout targets from the provider head ref and rejects providers without pull request APIs", async () => {
+    const createRemoteService = (remoteUrl: string) =>
+      createService({
+        gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "upstream\n" : `${remoteUrl}\n`)
+      });
+
+    await expect(createRemoteService("git@gitlab.com:team/app.git").getPullRequestCheckout("/repo", 5)).resolves.toEqual({
+      branch: "pr/5",
+      number: 5,
+      ref: "refs/merge-requests/5/head",
+      remote: "upstream"
+    });
+    await expect(createRemoteService("git@bitbucket.org:team/app.git").getPullRequestCheckout("/repo", 5)).rejects.toThrow(
+      "Pull requests are not supported for bitbucket remotes"
+    );
+  });
+
+  it("stores and clears hosting tokens for the API origin from a password prompt", async () => {
+    const storeHostingToken = vi.fn(async () => undefined);
+    const showInputBox = vi.fn().mockResolvedValueOnce(" glpat-new ").mockResolvedValueOnce("").mockResolvedValueOnce(undefined);
+    const service = createService({
+      gitRaw: async (_repositoryRoot, args) => (args.length === 1 ? "origin\n" : "git@gitlab.com:team/app.git\n"),
+      showInputBox,
+      storeHostingToken
+    });
+
+    await expect(service.configureToken("/repo")).resolves.toEqual({
+      message: "Saved access token for https://gitlab.com",
+      status: "ok"
+    });
+    await expect(service.configureToken("/repo")).resolves.toEqual({
+      message: "Removed access token for https://gitlab.com",
+      status: "ok"
+    });
+    await expect(service.configureToken("/repo")).resolves.toEqual({
+      message: "Token update cancelled",
+      status: "cancelled"
+    });
+
+    expect(showInputBox).toHaveBeenCalledWith(expect.objectContaining({ password: true, prompt: "Access token for https://gitlab.com" }));
+    expect(storeHostingToken.mock.calls).toEqual([
+      ["https://gitlab.com", "glpat-new"],
+      ["https://gitlab.com", ""]
+    ]);
+  });
+});
+
+function createService(
+  input: Omit<HostingServiceInput, "settingsService"> & {
+    hosts?: readonly HostingProviderConfiguration[];
+    storeHostingToken?: (host: string, token: string) => Promise<void>;
+    tokens?: Readonly<Record<string, string>>;
+  } = {}
+): HostingService {
+  const { hosts = [], storeHostingToken = async () => undefined, tokens = {}, ...serviceInput } = input;
+  return new HostingService({
+    gitRaw: async () => "",
+    ...serviceInput,
+    settingsService: {
+      getHostingProviders: () => hosts,
+      getHostingToken: async (host) => tokens[host],
+      storeHostingToken
+    }
+  });
+}
+
+function createResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json"
+    },
+    status: 200
+  });
+}
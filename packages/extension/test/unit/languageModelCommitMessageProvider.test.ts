@@ -25,4 +25,14 @@ describe("LanguageModelCommitMessageProvider", () => {
       "VS Code language model returned no commit message"
     );
   });
+
+  it("returns the complete multi-line response for summaries", async () => {
+    const sendRequest = vi.fn(async () => "\n## Summary\n\n- Adds a parser\n");
+    const provider = new LanguageModelCommitMessageProvider({
+      selectChatModels: async () => [{ sendRequest }]
+    });
+
+    await expect(provider.complete("Summarize")).resolves.toBe("## Summary\n\n- Adds a parser");
+    await expect(provider.generate("Summarize")).resolves.toBe("## Summary");
+  });
 });
@@ -152,6 +152,7 @@ describe("OpenAICompatibleCommitMessageProvider", () => {
     expect(url).toBe("https://api.example.com/v1/chat/completions");
     expect(init).toMatchObject({
       headers: {
+        Accept: "text/event-stream",
         Authorization: "Bearer sk-test",
         "Content-Type": "application/json"
       },
@@ -164,7 +165,8 @@ describe("OpenAICompatibleCommitMessageProvider", () => {
           role: "user"
         }
       ],
-      model: "gpt-test"
+      model: "gpt-test",
+      stream: true
     });
   });
 
@@ -281,6 +283,7 @@ describe("OpenAICompatibleCommitMessageProvider", () => {
     expect(url).toBe("https://api.anthropic.com/v1/messages");
     expect(init).toMatchObject({
       headers: {
+        Accept: "text/event-stream",
         "Content-Type": "application/json",
         "anthropic-version": "2023-06-01",
         "x-api-key": "sk-ant-test"
@@ -295,8 +298,138 @@ describe("OpenAICompatibleCommitMessageProvider", () => {
           role: "user"
         }
       ],
-      model: "claude-test"
+      model: "claude-test",
+      stream: true
+    });
+  });
+
+  it("returns complete multi-line text with a larger Claude token budget", async () => {
+    const fetch = vi.fn(async () =>
+      createResponse({
+        content: [
+          {
+            text: "## Summary\n\n- Adds a parser\n",
+            type: "text"
+          }
+        ]
+      })
+    );
+    const provider = new OpenAICompatibleCommitMessageProvider({ fetch });
+
+    await expect(
+      provider.complete({
+        apiKey: "sk-ant-test",
+        baseUrl: "https://api.anthropic.com",
+        maxTokens: 1024,
+        model: "claude-test",
+        prompt: "Summarize",
+        protocol: "claudeMessages"
+      })
+    ).resolves.toBe("## Summary\n\n- Adds a parser");
+
+    const [, init] = fetch.mock.calls[0]!;
+    expect(JSON.parse(init.body as string)).toMatchObject({ max_tokens: 1024 });
+  });
+
+  it("streams chat completions deltas and reports the accumulated text", async () => {
+    const fetch = vi.fn(async () =>
+      createChunkedResponsesStreamResponse([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\ndata: {"choices":[{"delta":{"content":"feat: "}}]}\n',
+        '\ndata: {"choices":[{"delta":{"content":"stream chat"}}]}\n\n',
+        "data: [DONE]\n\n"
+      ])
+    );
+    const onText = vi.fn();
+    const provider = new OpenAICompatibleCommitMessageProvider({ fetch });
+
+    await expect(
+      provider.generate(
+        {
+          apiKey: "sk-test",
+          baseUrl: "https://api.example.com",
+          model: "gpt-test",
+          prompt: "Write one line",
+          protocol: "chatCompletions"
+        },
+        { onText }
+      )
+    ).resolves.toBe("feat: stream chat");
+
+    expect(onText.mock.calls).toEqual([["feat: "], ["feat: stream chat"]]);
+  });
+
+  it("streams Claude messages text deltas and ignores other events", async () => {
+    const fetch = vi.fn(async () =>
+      createResponsesStreamResponse([
+        { message: { content: [] }, type: "message_start" },
+        { content_block: { text: "", type: "text" }, index: 0, type: "content_block_start" },
+        { delta: { text: "fix: stream ", type: "text_delta" }, index: 0, type: "content_block_delta" },
+        { delta: { text: "claude", type: "text_delta" }, index: 0, type: "content_block_delta" },
+        { delta: { stop_reason: "end_turn" }, type: "message_delta" },
+        { type: "message_stop" }
+      ])
+    );
+    const onText = vi.fn();
+    const provider = new OpenAICompatibleCommitMessageProvider({ fetch });
+
+    await expect(
+      provider.generate(
+        {
+          apiKey: "sk-ant-test",
+          baseUrl: "https://api.anthropic.com",
+          model: "claude-test",
+          prompt: "Write one line",
+          protocol: "claudeMessages"
+        },
+        { onText }
+      )
+    ).resolves.toBe("fix: stream claude");
+
+    expect(onText).toHaveBeenLastCalledWith("fix: stream claude");
+  });
+
+  it("reports Claude messages stream error events", async () => {
+    const fetch = vi.fn(async () =>
+      createResponsesStreamResponse([{ error: { message: "Overloaded", type: "overloaded_error" }, type: "error" }])
+    );
+    const provider = new OpenAICompatibleCommitMessageProvider({ fetch });
+
+    await expect(
+      provider.generate({
+        apiKey: "sk-ant-test",
+        baseUrl: "https://api.anthropic.com",
+        model: "claude-test",
+        prompt: "Write one line",
+        protocol: "claudeMessages"
+      })
+    ).rejects.toThrow("OpenAI-compatible streaming response failed: Overloaded");
+  });
+
+  it("passes the abort signal to fetch and does not retry aborted requests", async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn(async () => {
+      controller.abort();
+      throw new DOMException("The operation was aborted.", "AbortError");
     });
+    const retryDelay = vi.fn(async (_milliseconds: number) => undefined);
+    const provider = new OpenAICompatibleCommitMessageProvider({ fetch, retryDelay });
+
+    await expect(
+      provider.generate(
+        {
+          apiKey: "sk-test",
+          baseUrl: "https://api.example.com",
+          model: "gpt-test",
+          prompt: "Write one line",
+          protocol: "chatCompletions"
+        },
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow("The operation was aborted.");
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0]![1]).toMatchObject({ signal: controller.signal });
+    expect(retryDelay).not.toHaveBeenCalled();
   });
 
   it("rejects whitespace-only provider responses with a clear error", async () => {
@@ -0,0 +1,293 @@
+import { describe, expect, it, vi } from "vitest";
+import { OperationJournalService } from "../../src/backend/git/OperationJournalService";
+
+vi.mock("vscode", () => ({
+  window: {
+    showInformationMessage: vi.fn(),
+    showWarningMessage: vi.fn()
+  }
+}));
+
+const before = "1111111111111111111111111111111111111111";
+const after = "2222222222222222222222222222222222222222";
+const feature = "3333333333333333333333333333333333333333";
+const indexTree = "4444444444444444444444444444444444444444";
+
+describe("OperationJournalService", () => {
+  it("restores branch tips, HEAD and the index when undoing a hard reset", async () => {
+    const calls: string[] = [];
+    let head = before;
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "rev-parse") {
+          return `${head}\n`;
+        }
+        if (args[0] === "symbolic-ref") {
+          return "refs/heads/main\n";
+        }
+        if (args[0] === "for-each-ref") {
+          return `${head} refs/heads/main\n${feature} refs/heads/feature\n`;
+        }
+        if (args[0] === "write-tree") {
+          return `${indexTree}\n`;
+        }
+
+        return "";
+      },
+      now: () => new Date("2026-10-19T08:00:00.000Z"),
+      showWarningMessage: async () => "Undo"
+    });
+
+    const entry = await service.capture("/repo", { hash: after, kind: "reset", mode: "hard" });
+    head = after;
+    await service.record(entry);
+    calls.length = 0;
+
+    await expect(service.undo("/repo", entry.id)).resolves.toEqual({
+      message: "Undid reset --hard to 22222222",
+      status: "ok"
+    });
+    expect(entry).toEqual(
+      expect.objectContaining({
+        createdAt: "2026-10-19T08:00:00.000Z",
+        head: { commit: before, ref: "refs/heads/main" },
+        indexTree,
+        updateWorkingTree: true
+      })
+    );
+    expect(calls).toEqual([
+      "rev-parse HEAD",
+      "for-each-ref --format=%(objectname) %(refname) refs/heads",
+      `update-ref refs/heads/main ${before} ${after}`,
+      `read-tree --reset -u ${indexTree}`
+    ]);
+    expect(service.latest("/repo")).toBeUndefined();
+  });
+
+  it("refuses to undo history rewrites after HEAD has moved", async () => {
+    let head = before;
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        if (args[0] === "rev-parse") {
+          return `${head}\n`;
+        }
+        if (args[0] === "for-each-ref") {
+          return `${head} refs/heads/main\n`;
+        }
+
+        return "";
+      },
+      showWarningMessage: async () => "Undo"
+    });
+
+    const entry = await service.capture("/repo", { hash: before, kind: "editCommitMessage" });
+    head = after;
+    await service.record(entry);
+    head = feature;
+
+    await expect(service.undo("/repo", entry.id)).rejects.toThrow("HEAD has moved since edit message of 11111111");
+  });
+
+  it("leaves branches the operation did not move alone and refuses when a moved branch changed again", async () => {
+    const calls: string[] = [];
+    const tips = new Map([
+      ["refs/heads/main", before],
+      ["refs/heads/feature", feature]
+    ]);
+    let head = before;
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "rev-parse") {
+          return `${head}\n`;
+        }
+        if (args[0] === "for-each-ref") {
+          return [...tips].map(([ref, commit]) => `${commit} ${ref}`).join("\n");
+        }
+
+        return "";
+      },
+      showWarningMessage: async () => "Undo"
+    });
+
+    const entry = await service.capture("/repo", { hash: after, kind: "reset", mode: "soft" });
+    head = after;
+    tips.set("refs/heads/main", after);
+    await service.record(entry);
+    // A pull in another worktree moves feature after the reset was journaled.
+    tips.set("refs/heads/feature", indexTree);
+    calls.length = 0;
+
+    await expect(service.undo("/repo", entry.id)).resolves.toEqual({
+      message: "Undid reset --soft to 22222222",
+      status: "ok"
+    });
+    expect(calls.filter((call) => call.startsWith("update-ref refs/heads/"))).toEqual([`update-ref refs/heads/main ${before} ${after}`]);
+
+    const secondEntry = await service.capture("/repo", { hash: feature, kind: "reset", mode: "soft" });
+    tips.set("refs/heads/main", feature);
+    await service.record(secondEntry);
+    tips.set("refs/heads/main", indexTree);
+    calls.length = 0;
+
+    await expect(service.undo("/repo", secondEntry.id)).rejects.toThrow(
+      "main moved since reset --soft to 33333333; undo is no longer available"
+    );
+    expect(calls.filter((call) => call.startsWith("update-ref"))).toEqual([]);
+  });
+
+  it("writes a discarded file back without changing its staged entry", async () => {
+    const calls: string[] = [];
+    let workingBlob = "aaaaaaa";
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "hash-object") {
+          return `${workingBlob}\n`;
+        }
+        if (args.join(" ") === "ls-files --stage -- scripts/build.sh") {
+          return "100755 bbbbbbb 0\tscripts/build.sh\n";
+        }
+
+        return args[0] === "rev-parse" ? `${before}\n` : "";
+      },
+      showWarningMessage: async () => "Undo"
+    });
+
+    const entry = await service.capture("/repo", { filePath: "scripts/build.sh", kind: "discardFile" });
+    workingBlob = "bbbbbbb";
+    await service.record(entry);
+    calls.length = 0;
+    await service.undo("/repo", entry.id);
+
+    expect(calls).toEqual([
+      "hash-object -- scripts/build.sh",
+      "update-index --add --cacheinfo 100755,aaaaaaa,scripts/build.sh",
+      "checkout-index -f -- scripts/build.sh",
+      "update-index --add --cacheinfo 100755,bbbbbbb,scripts/build.sh"
+    ]);
+  });
+
+  it("deletes a file again when undoing the discard of its deletion", async () => {
+    const calls: string[] = [];
+    let deleted = true;
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "hash-object") {
+          if (deleted) {
+            throw new Error("fatal: could not open 'src/old.ts' for reading: No such file or directory");
+          }
+          return "bbbbbbb\n";
+        }
+        if (args.join(" ") === "ls-files --stage -- src/old.ts") {
+          return "100644 bbbbbbb 0\tsrc/old.ts\n";
+        }
+        if (args.join(" ") === "ls-files --deleted -- src/old.ts") {
+          return deleted ? "src/old.ts\n" : "";
+        }
+
+        return args[0] === "rev-parse" ? `${before}\n` : "";
+      },
+      showWarningMessage: async () => "Undo"
+    });
+
+    const entry = await service.capture("/repo", { filePath: "src/old.ts", kind: "discardFile" });
+    deleted = false;
+    await service.record(entry);
+    calls.length = 0;
+    await service.undo("/repo", entry.id);
+
+    expect(calls).toEqual([
+      "hash-object -- src/old.ts",
+      "update-index --force-remove -- src/old.ts",
+      "clean -f -x -- src/old.ts",
+      "update-index --add --cacheinfo 100644,bbbbbbb,src/old.ts"
+    ]);
+  });
+
+  it("refuses to overwrite edits made after a discard and reports it as a warning", async () => {
+    const calls: string[] = [];
+    let workingBlob = "aaaaaaa";
+    const showWarningMessage = vi.fn().mockResolvedValue("Undo");
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "hash-object") {
+          return `${workingBlob}\n`;
+        }
+        if (args.join(" ") === "ls-files --stage -- README.md") {
+          return "100644 bbbbbbb 0\tREADME.md\n";
+        }
+
+        return args[0] === "rev-parse" ? `${before}\n` : "";
+      },
+      showWarningMessage
+    });
+
+    const entry = await service.capture("/repo", { filePath: "README.md", kind: "discardFile" });
+    workingBlob = "bbbbbbb";
+    await service.record(entry);
+    workingBlob = "ccccccc";
+    calls.length = 0;
+
+    await expect(service.undoLastOperation()).resolves.toEqual({
+      message: "README.md changed since discard changes in README.md; undo is no longer available",
+      status: "cancelled"
+    });
+    expect(showWarningMessage).toHaveBeenLastCalledWith(
+      "README.md changed since discard changes in README.md; undo is no longer available",
+      { modal: false }
+    );
+    expect(calls).toEqual(["hash-object -- README.md"]);
+  });
+
+  it("stores a dropped stash again from its dangling commit", async () => {
+    const calls: string[] = [];
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        if (args[0] === "rev-parse") {
+          return args[1] === "stash@{1}" ? `${feature}\n` : `${before}\n`;
+        }
+        if (args[0] === "log") {
+          return "On main: spike\n";
+        }
+
+        return "";
+      },
+      showWarningMessage: async () => "Undo"
+    });
+
+    const entry = await service.capture("/repo", { kind: "dropStash", stashRef: "stash@{1}" });
+    await service.record(entry);
+    calls.length = 0;
+    await service.undo("/repo", entry.id);
+
+    expect(entry.droppedStash).toEqual({ hash: feature, message: "On main: spike" });
+    expect(calls).toEqual([`stash store -m On main: spike ${feature}`]);
+  });
+
+  it("keeps only the most recent operation undoable and honours cancellation", async () => {
+    const showInformationMessage = vi.fn(async () => undefined);
+    const showWarningMessage = vi.fn(async () => undefined);
+    const service = new OperationJournalService({
+      gitRaw: async (_repositoryRoot, args) => (args[0] === "rev-parse" ? `${before}\n` : ""),
+      maxEntries: 1,
+      showInformationMessage,
+      showWarningMessage
+    });
+
+    const first = await service.capture("/repo", { hash: before, kind: "reset", mode: "soft" });
+    await service.record(first);
+    const second = await service.capture("/repo", { hashes: [before, after], kind: "squashCommits" });
+    await service.record(second);
+
+    await expect(service.undo("/repo", first.id)).rejects.toThrow("Only the most recent operation can be undone");
+    await expect(service.undoLastOperation()).resolves.toEqual({ message: "Undo cancelled", status: "cancelled" });
+    expect(showWarningMessage).toHaveBeenCalledWith("Undo squash 2 commits?", { modal: true }, "Undo");
+    expect(service.latest()).toBe(service.latest("/repo"));
+    expect(service.latest("/other")).toBeUndefined();
+  });
+});
@@ -61,6 +61,62 @@ describe("RepositoryService", () => {
     expect(current?.rootPath).toBe(childRepo);
     expect(state.getCurrentRepositoryId()).toBe(childRepo);
   });
+
+  it("discovers linked worktrees of workspace repositories", async () => {
+    const root = await createTempRoot();
+    const workspace = join(root, "workspace");
+    const hotfix = join(root, "worktrees", "hotfix");
+
+    await markGitRepository(workspace);
+    await mkdir(join(workspace, ".git", "worktrees", "hotfix"), { recursive: true });
+    await mkdir(join(workspace, ".git", "worktrees", "stale"), { recursive: true });
+    await writeFile(join(workspace, ".git", "worktrees", "hotfix", "gitdir"), `${join(hotfix, ".git")}\n`);
+    await writeFile(join(workspace, ".git", "worktrees", "stale", "gitdir"), `${join(root, "missing", ".git")}\n`);
+    await mkdir(hotfix, { recursive: true });
+    await writeFile(join(hotfix, ".git"), `gitdir: ${join(workspace, ".git", "worktrees", "hotfix")}\n`);
+
+    const service = new RepositoryService({
+      activeEditorPath: () => undefined,
+      state: new WorkspaceStateService(),
+      workspaceFolders: [workspace]
+    });
+
+    await expect(service.discoverRepositories()).resolves.toEqual([
+      { id: workspace, name: "workspace", rootPath: workspace },
+      { id: hotfix, name: "hotfix", rootPath: hotfix, worktreeOf: workspace }
+    ]);
+  });
+
+  it("discovers initialized submodules listed in .gitmodules and skips paths outside the repository", async () => {
+    const root = await createTempRoot();
+    const workspace = join(root, "workspace");
+    const lib = join(workspace, "vendor", "lib");
+    const nested = join(lib, "deps", "core");
+
+    await markGitRepository(workspace);
+    await writeFile(
+      join(workspace, ".gitmodules"),
+      '[submodule "lib"]\n\tpath = vendor/lib\n\turl = ../lib.git\n[submodule "site"]\n\tpath = docs/site\n[submodule "escape"]\n\tpath = ../outside\n'
+    );
+    await markGitRepository(join(root, "outside"));
+    await mkdir(lib, { recursive: true });
+    await writeFile(join(lib, ".git"), "gitdir: ../../.git/modules/lib\n");
+    await writeFile(join(lib, ".gitmodules"), '[submodule "core"]\n\tpath = deps/core\n');
+    await mkdir(nested, { recursive: true });
+    await writeFile(join(nested, ".git"), "gitdir: ../../../../.git/modules/lib/modules/core\n");
+
+    const service = new RepositoryService({
+      activeEditorPath: () => undefined,
+      state: new WorkspaceStateService(),
+      workspaceFolders: [workspace]
+    });
+
+    await expect(service.discoverRepositories()).resolves.toEqual([
+      { id: workspace, name: "workspace", rootPath: workspace },
+      { id: lib, name: "lib", rootPath: lib, submoduleOf: workspace },
+      { id: nested, name: "core", rootPath: nested, submoduleOf: lib }
+    ]);
+  });
 });
 
 async function createTempRoot(): Promise<string> {
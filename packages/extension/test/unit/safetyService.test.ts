@@ -154,6 +154,102 @@ describe("SafetyService", () => {
     ]);
   });
 
+  it("commits a resolved squash merge on continue while its result is still staged", async () => {
+    const calls: string[] = [];
+    const statusOutputs = ["", "UU src/file.ts\n", "M  src/file.ts\n"];
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      calls.push(args.join(" "));
+      if (args.join(" ") === "status --porcelain") {
+        return statusOutputs.shift() ?? "";
+      }
+      if (args.join(" ") === "diff --cached --name-only") {
+        return calls.includes("commit -m Squash feature") ? "" : "src/file.ts\n";
+      }
+
+      return "";
+    });
+    const service = new SafetyService({ gitRaw });
+
+    await expect(
+      service.runWithAutoStash(
+        "/repo",
+        "never",
+        async () => {
+          throw new Error("Automatic merge failed; fix conflicts and then commit the result.");
+        },
+        {
+          abortArgs: ["reset", "--merge"],
+          continueArgs: ["commit", "-m", "Squash feature"],
+          operationKind: "squash",
+          operationName: "Squash merge"
+        }
+      )
+    ).resolves.toMatchObject({ status: "conflict" });
+    calls.length = 0;
+
+    await expect(service.continueOperation("/repo")).resolves.toEqual({
+      message: "Squash merge conflicts resolved",
+      status: "ok"
+    });
+    expect(calls).toEqual([
+      "status --porcelain",
+      "diff --cached --name-only",
+      "diff --cached --name-only -z -G ^(<<<<<<<|>>>>>>>)( |$)",
+      "commit -m Squash feature"
+    ]);
+  });
+
+  it("blocks continue while staged files still contain conflict markers", async () => {
+    const calls: string[] = [];
+    const statusOutputs = ["", "UU src/a.ts\n", "M  src/a.ts\n", "M  src/a.ts\n"];
+    let markedFiles = "src/a.ts\u0000docs/b.md\u0000";
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      calls.push(args.join(" "));
+      if (args.join(" ") === "status --porcelain") {
+        return statusOutputs.shift() ?? "";
+      }
+      if (args.join(" ") === "status --untracked-files=no") {
+        return calls.includes("commit --no-edit") ? "" : "All conflicts fixed but you are still merging.\n";
+      }
+      if (args[0] === "diff" && args.includes("-G")) {
+        return markedFiles;
+      }
+
+      return "";
+    });
+    const service = new SafetyService({ gitRaw });
+
+    await expect(
+      service.runWithAutoStash(
+        "/repo",
+        "never",
+        async () => {
+          throw new Error("CONFLICT (content): Merge conflict in src/a.ts");
+        },
+        {
+          abortArgs: ["merge", "--abort"],
+          continueArgs: ["commit", "--no-edit"],
+          operationKind: "merge",
+          operationName: "Merge"
+        }
+      )
+    ).resolves.toMatchObject({ status: "conflict" });
+
+    await expect(service.continueOperation("/repo")).resolves.toEqual({
+      message:
+        "Merge cannot continue because conflict markers remain in src/a.ts, docs/b.md. Remove the <<<<<<< and >>>>>>> blocks, stage the files, then continue.",
+      status: "conflict"
+    });
+    expect(calls).not.toContain("commit --no-edit");
+
+    markedFiles = "";
+    await expect(service.continueOperation("/repo")).resolves.toEqual({
+      message: "Merge conflicts resolved",
+      status: "ok"
+    });
+    expect(calls.at(-1)).toBe("commit --no-edit");
+  });
+
   it("aborts the active conflict session and restores the auto stash", async () => {
     const calls: string[] = [];
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
@@ -368,17 +464,38 @@ describe("SafetyService", () => {
       "status --porcelain",
       "status --porcelain",
       "status --untracked-files=no",
+      "diff --cached --name-only -z -G ^(<<<<<<<|>>>>>>>)( |$)",
       "rebase --continue",
       "status --porcelain",
       "status --untracked-files=no",
       "status --porcelain",
       "status --untracked-files=no",
+      "diff --cached --name-only -z -G ^(<<<<<<<|>>>>>>>)( |$)",
       "rebase --continue",
       "stash list --format=%gd%x00%s",
       "stash pop stash@{0}"
     ]);
   });
 
+  it("reports a rebase paused without conflicts with the caller's paused message", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) =>
+      args.join(" ") === "status --untracked-files=no" ? "interactive rebase in progress; onto abc123\n" : ""
+    );
+    const service = new SafetyService({ gitRaw });
+    const pausedMessage = "Interactive rebase stopped at a planned edit. Amend the commit, then continue from GUI Git History.";
+
+    await expect(
+      service.runWithAutoStash("/repo", "always", async () => ({ message: "Rebased 2 commits", status: "ok" }), {
+        abortArgs: ["rebase", "--abort"],
+        continueArgs: ["rebase", "--continue"],
+        operationKind: "rebase",
+        operationName: "Interactive rebase",
+        pausedMessage
+      })
+    ).resolves.toEqual({ message: pausedMessage, status: "conflict" });
+    await expect(service.getOperationState("/repo")).resolves.toEqual({ message: pausedMessage, status: "conflict" });
+  });
+
   it("clears a conflict session when git operation was completed outside the extension", async () => {
     const calls: string[] = [];
     let statusCalls = 0;
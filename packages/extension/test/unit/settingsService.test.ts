@@ -54,6 +54,54 @@ describe("SettingsService", () => {
     });
   });
 
+  it("reads named commit message templates and skips malformed entries", () => {
+    const { configuration } = createConfiguration({
+      commitTemplates: [
+        { message: "feat: \n\nWhy:\n", name: " Feature " },
+        { message: "", name: "Empty" },
+        { name: "Missing message" },
+        "fix: "
+      ]
+    });
+
+    expect(createService({ configuration }).getCommitTemplates()).toEqual([
+      { message: "feat: \n\nWhy:\n", name: "Feature", source: "settings" }
+    ]);
+    expect(createService().getCommitTemplates()).toEqual([]);
+  });
+
+  it("reads blame display, whitespace and move detection options with conservative defaults", () => {
+    const { configuration } = createConfiguration({
+      "blame.detectMovedLines": true,
+      "blame.displayMode": "gutter",
+      "blame.ignoreWhitespace": true
+    });
+
+    expect(createService({ configuration }).getBlameOptions()).toEqual({
+      detectCopiedLines: false,
+      detectMovedLines: true,
+      displayMode: "gutter",
+      ignoreWhitespace: true
+    });
+  });
+
+  it("reads hosting provider host patterns and skips unknown providers", () => {
+    const { configuration } = createConfiguration({
+      "hosting.providers": [
+        { host: " Git.Example.com ", provider: "gitlab", webUrl: "https://git.example.com/gitlab/" },
+        { host: "*.corp.test", provider: "gitea" },
+        { host: "svn.example.com", provider: "subversion" },
+        { provider: "github" }
+      ]
+    });
+
+    expect(createService({ configuration }).getHostingProviders()).toEqual([
+      { host: "git.example.com", provider: "gitlab", webUrl: "https://git.example.com/gitlab" },
+      { host: "*.corp.test", provider: "gitea" }
+    ]);
+    expect(createService().getHostingProviders()).toEqual([]);
+  });
+
   it("updates file view mode through the guigit configuration section", async () => {
     const { configuration, updates } = createConfiguration({
       fileViewMode: "tree"
@@ -256,6 +304,20 @@ describe("SettingsService", () => {
     ]);
   });
 
+  it("stores hosting tokens per API origin in secret storage and clears them when empty", async () => {
+    const { secretStorage, stores } = createSecretStorage();
+    const service = createService({ secretStorage });
+
+    await service.storeHostingToken("https://Git.Example.com", "glpat-test");
+    await expect(service.getHostingToken("https://git.example.com")).resolves.toBe("glpat-test");
+    await expect(service.getHostingToken("https://git.example.com:8443")).resolves.toBeUndefined();
+
+    await service.storeHostingToken("https://git.example.com", "");
+
+    await expect(service.getHostingToken("https://git.example.com")).resolves.toBeUndefined();
+    expect(stores).toEqual([{ key: "guigit.hosting.token.https://git.example.com", value: "glpat-test" }]);
+  });
+
   it("keeps QuickPick AI configuration disabled for the Webview panel flow", async () => {
     const service = createService();
 
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import { SubmoduleService } from "../../src/backend/git/SubmoduleService";
+
+const statusOutput = [
+  " 1111111111111111111111111111111111111111 vendor/lib (v1.2.0)",
+  "+2222222222222222222222222222222222222222 vendor/ui (heads/main)",
+  "-3333333333333333333333333333333333333333 docs/site",
+  ""
+].join("\n");
+const configOutput = [
+  "submodule.lib.path vendor/lib",
+  "submodule.lib.url https://example.com/lib.git",
+  "submodule.ui.path vendor/ui",
+  "submodule.site.path docs/site",
+  "submodule.site.url ../site.git",
+  ""
+].join("\n");
+
+describe("SubmoduleService", () => {
+  it("lists submodules with their state, name and url", async () => {
+    const service = new SubmoduleService({
+      gitRaw: async (_repositoryRoot, args) => (args[0] === "submodule" ? statusOutput : configOutput)
+    });
+
+    await expect(service.listSubmodules("/repo")).resolves.toEqual([
+      {
+        describe: "v1.2.0",
+        hash: "1111111111111111111111111111111111111111",
+        name: "lib",
+        path: "vendor/lib",
+        rootPath: "/repo/vendor/lib",
+        state: "current",
+        url: "https://example.com/lib.git"
+      },
+      {
+        describe: "heads/main",
+        hash: "2222222222222222222222222222222222222222",
+        name: "ui",
+        path: "vendor/ui",
+        rootPath: "/repo/vendor/ui",
+        state: "modified",
+        url: undefined
+      },
+      {
+        describe: undefined,
+        hash: "3333333333333333333333333333333333333333",
+        name: "site",
+        path: "docs/site",
+        rootPath: "/repo/docs/site",
+        state: "uninitialized",
+        url: "../site.git"
+      }
+    ]);
+  });
+
+  it("initializes and updates one or all submodules", async () => {
+    const calls: string[] = [];
+    const service = new SubmoduleService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args[1] === "status" ? statusOutput : "";
+      }
+    });
+
+    await expect(service.initSubmodules("/repo", "docs/site")).resolves.toMatchObject({
+      result: { message: "Initialized submodule docs/site. Update it to check out its files.", status: "ok" }
+    });
+    await expect(service.updateSubmodules("/repo")).resolves.toMatchObject({
+      result: { message: "Updated all submodules", status: "ok" },
+      submodules: expect.arrayContaining([expect.objectContaining({ path: "vendor/lib" })])
+    });
+
+    expect(calls.filter((call) => call.startsWith("submodule ") && call !== "submodule status")).toEqual([
+      "submodule init -- docs/site",
+      "submodule update --init --recursive"
+    ]);
+  });
+
+  it("ignores and refuses submodule paths that resolve outside the repository", async () => {
+    const calls: string[] = [];
+    const service = new SubmoduleService({
+      gitRaw: async (repositoryRoot, args) => {
+        calls.push(`${repositoryRoot}: ${args.join(" ")}`);
+        if (args[1] === "status") {
+          return [
+            " 1111111111111111111111111111111111111111 vendor/lib",
+            "-2222222222222222222222222222222222222222 ../outside",
+            ""
+          ].join("\n");
+        }
+        return "";
+      }
+    });
+    const file = {
+      binary: false,
+      deletions: 0,
+      insertions: 0,
+      path: "../outside",
+      status: "modified" as const,
+      submodule: {
+        commits: [],
+        newHash: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+        oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"
+      }
+    };
+
+    await expect(service.listSubmodules("/repo")).resolves.toEqual([expect.objectContaining({ path: "vendor/lib" })]);
+    await expect(service.initSubmodules("/repo", "../outside")).rejects.toThrow("Submodule path ../outside is outside the repository");
+    await expect(service.updateSubmodules("/repo", "vendor/../../outside")).rejects.toThrow(
+      "Submodule path vendor/../../outside is outside the repository"
+    );
+    await expect(service.summarizeChanges("/repo", [file], { workTree: true })).resolves.toEqual([file]);
+
+    expect(calls.filter((call) => !call.startsWith("/repo: submodule status") && !call.startsWith("/repo: config"))).toEqual([]);
+  });
+
+  it("summarizes submodule commits between the old and new gitlink", async () => {
+    const calls: string[] = [];
+    const service = new SubmoduleService({
+      gitRaw: async (repositoryRoot, args) => {
+        calls.push(`${repositoryRoot}: ${args.join(" ")}`);
+        if (args[0] === "rev-parse") {
+          return "cccccccccccccccccccccccccccccccccccccccc\n";
+        }
+        if (args.at(-1) === "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa..bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb") {
+          return "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\x1fAdd parser\n9999999999999999999999999999999999999999\x1fFix build\n";
+        }
+        if (args.at(-1) === "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa..cccccccccccccccccccccccccccccccccccccccc") {
+          return "";
+        }
+        if (args.at(-1) === "cccccccccccccccccccccccccccccccccccccccc..aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa") {
+          return "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\x1fDropped commit\n";
+        }
+        throw new Error("not checked out");
+      }
+    });
+    const file = { binary: false, deletions: 0, insertions: 0, status: "modified" as const };
+
+    await expect(
+      service.summarizeChanges("/repo", [
+        {
+          ...file,
+          path: "vendor/lib",
+          submodule: {
+            commits: [],
+            newHash: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+            oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"
+          }
+        },
+        { ...file, insertions: 3, path: "src/app.ts" },
+        {
+          ...file,
+          path: "vendor/missing",
+          submodule: {
+            commits: [],
+            newHash: "dddddddddddddddddddddddddddddddddddddddd",
+            oldHash: "eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee"
+          }
+        }
+      ])
+    ).resolves.toEqual([
+      {
+        ...file,
+        path: "vendor/lib",
+        submodule: {
+          commits: [
+            { hash: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb", message: "Add parser" },
+            { hash: "9999999999999999999999999999999999999999", message: "Fix build" }
+          ],
+          newHash: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+          oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"
+        }
+      },
+      { ...file, insertions: 3, path: "src/app.ts" },
+      {
+        ...file,
+        path: "vendor/missing",
+        submodule: {
+          commits: [],
+          newHash: "dddddddddddddddddddddddddddddddddddddddd",
+          oldHash: "eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee"
+        }
+      }
+    ]);
+
+    await expect(
+      service.summarizeChanges(
+        "/repo",
+        [{ ...file, path: "vendor/lib", submodule: { commits: [], oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa" } }],
+        { workTree: true }
+      )
+    ).resolves.toEqual([
+      {
+        ...file,
+        path: "vendor/lib",
+        submodule: {
+          commits: [{ hash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa", message: "Dropped commit" }],
+          newHash: "cccccccccccccccccccccccccccccccccccccccc",
+          oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+          rewound: true
+        }
+      }
+    ]);
+    expect(calls).toContain("/repo/vendor/lib: rev-parse HEAD");
+    expect(calls).toContain(
+      "/repo/vendor/lib: log --format=%H%x1f%s --max-count=20 aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa..bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb"
+    );
+  });
+});
@@ -1,24 +1,35 @@
 import { describe, expect, it } from "vitest";
-import { parsePorcelainStatus, parseStashFiles, parseStashList, parseWorkingTreeStatus } from "../../src/backend/git/WorkingTreeParser";
+import {
+  parsePorcelainStatus,
+  parseShortlogAuthors,
+  parseStashFiles,
+  parseStashList,
+  parseWorkingTreeStatus,
+  stripCommitTemplateComments
+} from "../../src/backend/git/WorkingTreeParser";
+
+const blobHash = "587be6b4c3f93f93c489c0111bba5596147a26cb";
 
 describe("WorkingTreeParser", () => {
   it("groups porcelain status into staged, unstaged, and untracked files", () => {
     const result = parsePorcelainStatus(
       [
-        "M  src/staged.ts",
-        " M src/unstaged.ts",
-        "A  src/new.ts",
-        "?? src/untracked.ts",
-        "R  src/old.ts -> src/new-name.ts",
-        "C  src/source.ts -> src/copied.ts"
-      ].join("\n")
+        statusEntry("M.", "src/staged.ts"),
+        statusEntry(".M", "src/unstaged.ts"),
+        statusEntry("A.", "src/new.ts"),
+        "? src/untracked.ts",
+        renameEntry("R.", "R100", "src/new-name.ts", "src/old.ts"),
+        renameEntry("C.", "C75", "src/copied.ts", "src/source.ts"),
+        "! dist/ignored.js",
+        ""
+      ].join("\u0000")
     );
 
-    expect(result.staged.map((file) => [file.area, file.path, file.previousPath, file.status])).toEqual([
-      ["staged", "src/staged.ts", undefined, "modified"],
-      ["staged", "src/new.ts", undefined, "added"],
-      ["staged", "src/new-name.ts", "src/old.ts", "renamed"],
-      ["staged", "src/copied.ts", "src/source.ts", "copied"]
+    expect(result.staged.map((file) => [file.area, file.path, file.previousPath, file.status, file.similarity])).toEqual([
+      ["staged", "src/staged.ts", undefined, "modified", undefined],
+      ["staged", "src/new.ts", undefined, "added", undefined],
+      ["staged", "src/new-name.ts", "src/old.ts", "renamed", 100],
+      ["staged", "src/copied.ts", "src/source.ts", "copied", 75]
     ]);
     expect(result.unstaged.map((file) => [file.area, file.path, file.previousPath, file.status])).toEqual([
       ["unstaged", "src/unstaged.ts", undefined, "modified"],
@@ -27,7 +38,7 @@ describe("WorkingTreeParser", () => {
   });
 
   it("uses the current path for unstaged changes on staged renames", () => {
-    const result = parsePorcelainStatus("RM src/old.ts -> src/new.ts");
+    const result = parsePorcelainStatus(renameEntry("RM", "R90", "src/new.ts", "src/old.ts"));
 
     expect(result.staged).toMatchObject([
       {
@@ -47,8 +58,12 @@ describe("WorkingTreeParser", () => {
     ]);
   });
 
-  it("parses quoted rename paths containing separators", () => {
-    const result = parsePorcelainStatus('RM "src/old -> name.ts" -> "src/new -> name.ts"');
+  it("reads NUL-separated paths containing spaces, separators and UTF-8 verbatim", () => {
+    const result = parsePorcelainStatus(
+      [renameEntry("R.", "R100", "src/new -> name.ts", "src/old -> name.ts"), "? src/space name.ts", "? src/unicode-é.ts"].join(
+        "\u0000"
+      )
+    );
 
     expect(result.staged).toMatchObject([
       {
@@ -57,42 +72,74 @@ describe("WorkingTreeParser", () => {
         status: "renamed"
       }
     ]);
-    expect(result.unstaged).toMatchObject([
-      {
-        path: "src/new -> name.ts",
-        previousPath: undefined,
-        status: "modified"
-      }
+    expect(result.unstaged.map((file) => [file.area, file.path])).toEqual([
+      ["untracked", "src/space name.ts"],
+      ["untracked", "src/unicode-é.ts"]
     ]);
   });
 
-  it("unquotes untracked paths", () => {
-    const result = parsePorcelainStatus('?? "src/space name.ts"');
+  it("parses branch headers with upstream ahead and behind counts", () => {
+    expect(
+      parsePorcelainStatus(
+        [
+          "# branch.oid 1111111111111111111111111111111111111111",
+          "# branch.head feature/login",
+          "# branch.upstream origin/feature/login",
+          "# branch.ab +2 -3",
+          ""
+        ].join("\u0000")
+      ).branch
+    ).toEqual({
+      ahead: 2,
+      behind: 3,
+      head: "feature/login",
+      oid: "1111111111111111111111111111111111111111",
+      upstream: "origin/feature/login"
+    });
+    expect(parsePorcelainStatus("# branch.oid (initial)\u0000# branch.head (detached)\u0000").branch).toEqual({
+      head: "HEAD",
+      oid: undefined
+    });
+  });
+
+  it("models unmerged entries with their conflict stage types", () => {
+    const result = parsePorcelainStatus(
+      [
+        unmergedEntry("UU", "src/both.ts"),
+        unmergedEntry("AA", "src/added.ts"),
+        unmergedEntry("DU", "src/deleted-by-us.ts"),
+        unmergedEntry("UD", "src/deleted-by-them.ts"),
+        unmergedEntry("DD", "src/gone.ts"),
+        ""
+      ].join("\u0000")
+    );
 
-    expect(result.unstaged).toMatchObject([
-      {
-        area: "untracked",
-        path: "src/space name.ts",
-        status: "added"
-      }
+    expect(result.staged).toEqual([]);
+    expect(result.unstaged.map((file) => [file.area, file.path, file.status, file.conflict])).toEqual([
+      ["unstaged", "src/both.ts", "modified", "bothModified"],
+      ["unstaged", "src/added.ts", "added", "bothAdded"],
+      ["unstaged", "src/deleted-by-us.ts", "modified", "deletedByUs"],
+      ["unstaged", "src/deleted-by-them.ts", "modified", "deletedByThem"],
+      ["unstaged", "src/gone.ts", "deleted", "bothDeleted"]
     ]);
   });
 
-  it("decodes octal UTF-8 path escapes", () => {
-    const result = parsePorcelainStatus(String.raw`?? "src/unicode-\303\251.ts"`);
+  it("flags submodule commit, tracked and untracked changes", () => {
+    const result = parsePorcelainStatus(
+      [statusEntry("M.", "vendor/lib", "SC.."), statusEntry(".M", "vendor/other", "S.MU"), ""].join("\u0000")
+    );
 
-    expect(result.unstaged).toMatchObject([
-      {
-        area: "untracked",
-        path: "src/unicode-é.ts",
-        status: "added"
-      }
-    ]);
+    expect(result.staged[0]!.submoduleStatus).toEqual({ commitChanged: true, trackedChanges: false, untrackedChanges: false });
+    expect(result.unstaged[0]!.submoduleStatus).toEqual({ commitChanged: false, trackedChanges: true, untrackedChanges: true });
   });
 
   it("merges quoted UTF-8 numstat paths into working tree status", () => {
     const path = String.raw`"issue/EPIC-20260527-001_VSCode\346\225\260\346\215\256\345\272\223\346\217\222\344\273\266/README.md"`;
-    const result = parseWorkingTreeStatus(` M ${path}`, "", `2\t1\t${path}`);
+    const result = parseWorkingTreeStatus(
+      statusEntry(".M", "issue/EPIC-20260527-001_VSCode数据库插件/README.md"),
+      "",
+      `2\t1\t${path}`
+    );
 
     expect(result.unstaged).toMatchObject([
       {
@@ -104,6 +151,31 @@ describe("WorkingTreeParser", () => {
     ]);
   });
 
+  it("leaves the work tree hash of an unstaged gitlink unresolved", () => {
+    const result = parseWorkingTreeStatus(
+      statusEntry(".M", "vendor/lib", "S.M."),
+      "",
+      ":160000 160000 1111111111111111111111111111111111111111 0000000000000000000000000000000000000000 M\tvendor/lib\n1\t1\tvendor/lib"
+    );
+
+    expect(result.unstaged).toMatchObject([
+      {
+        deletions: 0,
+        insertions: 0,
+        path: "vendor/lib",
+        submodule: { commits: [], newHash: undefined, oldHash: "1111111111111111111111111111111111111111" }
+      }
+    ]);
+  });
+
+  it("parses shortlog authors and strips comment lines from commit templates", () => {
+    expect(parseShortlogAuthors("    42\tAda Lovelace <ada@example.com>\n     3\tGrace Hopper <grace@example.com>\nnot an author\n")).toEqual([
+      { commits: 42, email: "ada@example.com", name: "Ada Lovelace" },
+      { commits: 3, email: "grace@example.com", name: "Grace Hopper" }
+    ]);
+    expect(stripCommitTemplateComments("feat: \r\n# Describe the change\n\nWhy:\n\n")).toBe("feat: \n\nWhy:");
+  });
+
   it("parses stash list entries", () => {
     expect(parseStashList("stash@{0}: WIP on main: abc1234 message\nstash@{1}: On feature: save work")).toEqual([
       {
@@ -191,3 +263,15 @@ describe("WorkingTreeParser", () => {
     ]);
   });
 });
+
+function statusEntry(code: string, path: string, submodule = "N..."): string {
+  return `1 ${code} ${submodule} 100644 100644 100644 ${blobHash} ${blobHash} ${path}`;
+}
+
+function renameEntry(code: string, score: string, path: string, previousPath: string): string {
+  return `2 ${code} N... 100644 100644 100644 ${blobHash} ${blobHash} ${score} ${path}\u0000${previousPath}`;
+}
+
+function unmergedEntry(code: string, path: string): string {
+  return `u ${code} N... 100644 100644 100644 100644 ${blobHash} ${blobHash} ${blobHash} ${path}`;
+}
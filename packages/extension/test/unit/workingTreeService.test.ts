@@ -1,17 +1,29 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
 import { describe, expect, it, vi } from "vitest";
 import { WorkingTreeService } from "../../src/backend/git/WorkingTreeService";
 
 describe("WorkingTreeService", () => {
   it("loads branch, staged files, unstaged files, and stashes", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "M  src/staged.ts\n M src/unstaged.ts\n?? src/untracked.ts\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return [
+          "# branch.oid 1111111111111111111111111111111111111111",
+          "# branch.head main",
+          "# branch.upstream origin/main",
+          "# branch.ab +1 -2",
+          changedEntry("M.", "src/staged.ts"),
+          changedEntry(".M", "src/unstaged.ts"),
+          "? src/untracked.ts",
+          ""
+        ].join("\u0000");
       }
       if (args.join(" ") === "stash list") {
         return "stash@{0}: WIP on main: abc1234 message";
       }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "config --bool commit.gpgSign") {
+        return "true\n";
       }
       return "";
     });
@@ -19,17 +31,19 @@ describe("WorkingTreeService", () => {
 
     const result = await service.load("/repo", "/repo");
 
-    expect(result.branch).toBe("main");
+    expect(result).toEqual(
+      expect.objectContaining({ ahead: 1, behind: 2, branch: "main", signCommits: true, upstream: "origin/main" })
+    );
     expect(result.staged.map((file) => file.path)).toEqual(["src/staged.ts"]);
     expect(result.unstaged.map((file) => file.path)).toEqual(["src/unstaged.ts", "src/untracked.ts"]);
     expect(result.stashes).toHaveLength(1);
     expect(gitRaw.mock.calls).toEqual(
       expect.arrayContaining([
-        ["/repo", ["symbolic-ref", "--short", "HEAD"]],
-        ["/repo", ["status", "--porcelain=v1", "--untracked-files=all"]],
+        ["/repo", ["status", "--porcelain=v2", "-z", "--branch", "--untracked-files=all"]],
         ["/repo", ["stash", "list"]],
-        ["/repo", ["diff", "--cached", "--numstat"]],
-        ["/repo", ["diff", "--numstat"]]
+        ["/repo", ["diff", "--cached", "--numstat", "--raw", "--no-abbrev"]],
+        ["/repo", ["diff", "--numstat", "--raw", "--no-abbrev"]],
+        ["/repo", ["config", "--bool", "commit.gpgSign"]]
       ])
     );
     expect(gitRaw).toHaveBeenCalledTimes(5);
@@ -37,18 +51,15 @@ describe("WorkingTreeService", () => {
 
   it("loads staged and unstaged line counts from git numstat", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "M  src/staged.ts\n M src/unstaged.ts\nAM src/both.ts\n?? src/untracked.ts\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", changedEntry("M.", "src/staged.ts"), changedEntry(".M", "src/unstaged.ts"), changedEntry("AM", "src/both.ts"), "? src/untracked.ts");
       }
-      if (args.join(" ") === "diff --cached --numstat") {
+      if (args.join(" ") === "diff --cached --numstat --raw --no-abbrev") {
         return "5\t2\tsrc/staged.ts\n3\t1\tsrc/both.ts\n";
       }
-      if (args.join(" ") === "diff --numstat") {
+      if (args.join(" ") === "diff --numstat --raw --no-abbrev") {
         return "7\t4\tsrc/unstaged.ts\n11\t6\tsrc/both.ts\n";
       }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
-      }
       return "";
     });
     const service = new WorkingTreeService({ gitRaw });
@@ -64,17 +75,14 @@ describe("WorkingTreeService", () => {
       { deletions: 6, insertions: 11, path: "src/both.ts" },
       { deletions: 0, insertions: 0, path: "src/untracked.ts" }
     ]);
-    expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--cached", "--numstat"]);
-    expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--numstat"]);
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--cached", "--numstat", "--raw", "--no-abbrev"]);
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--numstat", "--raw", "--no-abbrev"]);
   });
 
   it("loads untracked text file line counts as insertions", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "?? src/new.ts\n?? src/empty.ts\n?? assets/image.png\n";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", "? src/new.ts", "? src/empty.ts", "? assets/image.png");
       }
       return "";
     });
@@ -99,11 +107,8 @@ describe("WorkingTreeService", () => {
 
   it("loads changes from an initialized repository before the first commit", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
-      }
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "?? src/first-file.ts\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", "? src/first-file.ts");
       }
       return "";
     });
@@ -115,6 +120,7 @@ describe("WorkingTreeService", () => {
       branch: "main",
       repositoryId: "/repo",
       repositoryRoot: "/repo",
+      signCommits: false,
       staged: [],
       stashes: [],
       unstaged: [
@@ -129,8 +135,8 @@ describe("WorkingTreeService", () => {
 
   it("reports HEAD when the current checkout is detached", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        throw new Error("fatal: ref HEAD is not a symbolic ref");
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("(detached)");
       }
       return "";
     });
@@ -164,11 +170,8 @@ describe("WorkingTreeService", () => {
     }
   ])("runs git $message and returns the updated working tree", async ({ action, command, message }) => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "M  src/staged.ts\n M src/unstaged.ts\n";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", changedEntry("M.", "src/staged.ts"), changedEntry(".M", "src/unstaged.ts"));
       }
       return "";
     });
@@ -192,13 +195,79 @@ describe("WorkingTreeService", () => {
     });
   });
 
-  it("runs git commit with the message and returns the updated working tree without staging unstaged files", async () => {
+  it("signs the commit only when explicitly requested", async () => {
+    const gitRaw = vi.fn(async () => "");
+    const service = new WorkingTreeService({ gitRaw });
+
+    await service.commit("/repo", "/repo", "feat: signed", true);
+
+    expect(gitRaw).toHaveBeenNthCalledWith(1, "/repo", ["commit", "-S", "-m", "feat: signed"]);
+  });
+
+  it("amends the last commit when requested", async () => {
+    const gitRaw = vi.fn(async () => "");
+    const service = new WorkingTreeService({ gitRaw });
+
+    const result = await service.commit("/repo", "/repo", "fix: amended", false, true);
+
+    expect(gitRaw).toHaveBeenNthCalledWith(1, "/repo", ["commit", "--amend", "-m", "fix: amended"]);
+    expect(result.result).toEqual({ message: "Amended last commit", status: "ok" });
+  });
+
+  it("loads commit templates, shortlog co-authors and the HEAD message for the composer", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      const command = args.join(" ");
+      if (command === "config --path commit.template") {
+        return ".gitmessage\n";
+      }
+      if (command === "shortlog -sne HEAD") {
+        return "    12\tAda Lovelace <ada@example.com>\n";
+      }
+      if (command === "log -1 --format=%B HEAD") {
+        return "feat: last commit\n\nBody\n\n";
+      }
+      return "";
+    });
+    const readFile = vi.fn(async () => Buffer.from("# Subject line\nfeat: \n"));
+    const service = new WorkingTreeService({ gitRaw, readFile });
+
+    await expect(
+      service.loadCommitComposer("/repo", "/repo", [{ message: "fix: ", name: "Fix", source: "settings" }])
+    ).resolves.toEqual({
+      coAuthors: [{ commits: 12, email: "ada@example.com", name: "Ada Lovelace" }],
+      headMessage: "feat: last commit\n\nBody",
+      repositoryId: "/repo",
+      templates: [
+        { message: "feat:", name: "commit.template", source: "gitConfig" },
+        { message: "fix: ", name: "Fix", source: "settings" }
+      ]
+    });
+    expect(readFile).toHaveBeenCalledWith(join("/repo", ".gitmessage"));
+  });
+
+  it("loads an empty composer for unborn repositories without a commit template", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "M  src/staged.ts\n M src/unstaged.ts\n";
+      if (args[0] === "config") {
+        return "";
       }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      throw new Error("fatal: ambiguous argument 'HEAD'");
+    });
+    const readFile = vi.fn();
+    const service = new WorkingTreeService({ gitRaw, readFile });
+
+    await expect(service.loadCommitComposer("/repo", "/repo")).resolves.toEqual({
+      coAuthors: [],
+      headMessage: undefined,
+      repositoryId: "/repo",
+      templates: []
+    });
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it("runs git commit with the message and returns the updated working tree without staging unstaged files", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", changedEntry("M.", "src/staged.ts"), changedEntry(".M", "src/unstaged.ts"));
       }
       return "";
     });
@@ -225,11 +294,8 @@ describe("WorkingTreeService", () => {
 
   it("logs working tree write commands and successful results", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -257,11 +323,8 @@ describe("WorkingTreeService", () => {
 
   it("does not discard a file unless the warning confirmation returns Discard", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return " M src/a.ts\n";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", changedEntry(".M", "src/a.ts"));
       }
       return "";
     });
@@ -277,14 +340,11 @@ describe("WorkingTreeService", () => {
 
   it("runs git restore when discard confirmation returns Discard", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 -- src/a.ts") {
-        return " M src/a.ts\n";
+      if (args.join(" ") === "status --porcelain=v2 -z -- src/a.ts") {
+        return porcelainStatus(undefined, changedEntry(".M", "src/a.ts"));
       }
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -301,14 +361,11 @@ describe("WorkingTreeService", () => {
 
   it("runs git clean when discarding an untracked file", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 -- src/new.ts") {
-        return "?? src/new.ts\n";
-      }
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
+      if (args.join(" ") === "status --porcelain=v2 -z -- src/new.ts") {
+        return porcelainStatus(undefined, "? src/new.ts");
       }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -323,13 +380,110 @@ describe("WorkingTreeService", () => {
     expect(result.result).toEqual({ message: "Discarded file", status: "ok" });
   });
 
-  it("does not drop a stash unless the warning confirmation returns Drop Stash", async () => {
+  it("loads a working tree file diff with hunks", async () => {
+    const gitRaw = vi.fn(async () => hunkDiffOutput);
+    const service = new WorkingTreeService({ gitRaw });
+
+    const diff = await service.getFileDiff("/repo", "src/a.ts", "staged");
+
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["diff", "--cached", "--no-color", "--no-ext-diff", "--", "src/a.ts"]);
+    expect(diff).toMatchObject({ binary: false, filePath: "src/a.ts", kind: "staged" });
+    expect(diff.hunks.map((hunk) => hunk.lines.map((line) => line.kind))).toEqual([["context", "removed", "added", "added"]]);
+  });
+
+  it("stages selected hunk lines with git apply --cached from a temporary patch file", async () => {
+    const appliedPatches: string[] = [];
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
+      if (args.join(" ") === "diff --no-color --no-ext-diff -- src/a.ts") {
+        return hunkDiffOutput;
+      }
+      if (args[0] === "apply") {
+        appliedPatches.push(await readFile(args.at(-1)!, "utf8"));
+      }
+      return "";
+    });
+    const service = new WorkingTreeService({ gitRaw });
+
+    const result = await service.stageHunk("/repo", "/repo", {
+      filePath: "src/a.ts",
+      hunkHeader: "@@ -1,2 +1,3 @@",
+      hunkIndex: 0,
+      lineIndexes: [3]
+    });
+
+    const patchPath = gitRaw.mock.calls.find(([, args]) => args[0] === "apply")![1].at(-1)!;
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["apply", "--cached", "--whitespace=nowarn", patchPath]);
+    expect(patchPath).toMatch(/guigit-hunk-[^/\\]+[/\\]hunk\.patch$/);
+    expect(appliedPatches).toEqual([
+      ["diff --git a/src/a.ts b/src/a.ts", "--- a/src/a.ts", "+++ b/src/a.ts", "@@ -1,2 +1,3 @@", " one", " two", "+three", ""].join("\n")
+    ]);
+    expect(existsSync(dirname(patchPath))).toBe(false);
+    expect(result.result).toEqual({ message: "Staged hunk", status: "ok" });
+  });
+
+  it("unstages a hunk by reverse applying the staged diff to the index", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      if (args.join(" ") === "diff --cached --no-color --no-ext-diff -- src/a.ts") {
+        return hunkDiffOutput;
       }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      return "";
+    });
+    const writeTextFile = vi.fn(async () => undefined);
+    const service = new WorkingTreeService({ gitRaw, writeTextFile });
+
+    const result = await service.unstageHunk("/repo", "/repo", { filePath: "src/a.ts", hunkHeader: "@@ -1,2 +1,3 @@", hunkIndex: 0 });
+
+    const patchPath = writeTextFile.mock.calls[0]![0] as string;
+    expect(gitRaw).toHaveBeenCalledWith("/repo", ["apply", "--cached", "--reverse", "--whitespace=nowarn", patchPath]);
+    expect(result.result).toEqual({ message: "Unstaged hunk", status: "ok" });
+  });
+
+  it("uses a separate patch file for each hunk action and removes it when applying fails", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      if (args.join(" ") === "diff --no-color --no-ext-diff -- src/a.ts") {
+        return hunkDiffOutput;
+      }
+      if (args[0] === "apply") {
+        throw new Error("patch does not apply");
+      }
+      return "";
+    });
+    const service = new WorkingTreeService({ gitRaw });
+    const selection = { filePath: "src/a.ts", hunkHeader: "@@ -1,2 +1,3 @@", hunkIndex: 0 };
+
+    const results = await Promise.allSettled([service.stageHunk("/repo", "/repo", selection), service.stageHunk("/repo", "/repo", selection)]);
+
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+
+    const patchPaths = gitRaw.mock.calls.filter(([, args]) => args[0] === "apply").map(([, args]) => args.at(-1)!);
+    expect(new Set(patchPaths).size).toBe(2);
+    expect(patchPaths.some((patchPath) => existsSync(dirname(patchPath)))).toBe(false);
+  });
+
+  it("rejects hunk actions when the diff changed since it was loaded", async () => {
+    const service = new WorkingTreeService({ gitRaw: async () => hunkDiffOutput, writeTextFile: async () => undefined });
+
+    await expect(
+      service.stageHunk("/repo", "/repo", { filePath: "src/a.ts", hunkHeader: "@@ -5,2 +5,3 @@", hunkIndex: 0 })
+    ).rejects.toThrow("Changes in src/a.ts changed since they were loaded. Refresh and try again.");
+  });
+
+  it("does not discard a hunk unless the warning confirmation returns Discard", async () => {
+    const gitRaw = vi.fn(async () => "");
+    const showWarningMessage = vi.fn(async () => undefined);
+    const service = new WorkingTreeService({ gitRaw, showWarningMessage });
+
+    const result = await service.discardHunk("/repo", "/repo", { filePath: "src/a.ts", hunkHeader: "@@ -1,2 +1,3 @@", hunkIndex: 0 });
+
+    expect(showWarningMessage).toHaveBeenCalledWith("Discard selected changes in src/a.ts?", { modal: true }, "Discard");
+    expect(gitRaw).not.toHaveBeenCalledWith("/repo", expect.arrayContaining(["apply"]));
+    expect(result.result).toEqual({ message: "Discard cancelled", status: "cancelled" });
+  });
+
+  it("does not drop a stash unless the warning confirmation returns Drop Stash", async () => {
+    const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -353,11 +507,8 @@ describe("WorkingTreeService", () => {
 
   it("runs git stash drop when drop confirmation returns Drop Stash", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -381,11 +532,8 @@ describe("WorkingTreeService", () => {
 
   it("does not pop a stash unless the warning confirmation returns Pop Stash", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -409,11 +557,8 @@ describe("WorkingTreeService", () => {
 
   it("runs git stash pop when pop confirmation returns Pop Stash", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -437,11 +582,8 @@ describe("WorkingTreeService", () => {
 
   it("applies stash without confirmation and returns the updated working tree", async () => {
     const gitRaw = vi.fn(async (_repositoryRoot: string, args: readonly string[]) => {
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return " M src/a.ts\n";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main", changedEntry(".M", "src/a.ts"));
       }
       return "";
     });
@@ -459,11 +601,8 @@ describe("WorkingTreeService", () => {
       if (args.join(" ") === "stash list") {
         return "stash@{0}: On main: GUI Git History manual stash";
       }
-      if (args.join(" ") === "status --porcelain=v1 --untracked-files=all") {
-        return "";
-      }
-      if (args.join(" ") === "symbolic-ref --short HEAD") {
-        return "main\n";
+      if (args.join(" ") === "status --porcelain=v2 -z --branch --untracked-files=all") {
+        return porcelainStatus("main");
       }
       return "";
     });
@@ -524,3 +663,25 @@ describe("WorkingTreeService", () => {
     expect(gitRaw).toHaveBeenCalledWith("/repo", ["stash", "show", "--include-untracked", "--numstat", "stash@{0}"]);
   });
 });
+
+const hunkDiffOutput = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -1,2 +1,3 @@",
+  " one",
+  "-two",
+  "+TWO",
+  "+three",
+  ""
+].join("\n");
+
+function porcelainStatus(branch: string | undefined, ...entries: readonly string[]): string {
+  const headers = branch ? ["# branch.oid 1111111111111111111111111111111111111111", `# branch.head ${branch}`] : [];
+
+  return [...headers, ...entries, ""].join("\u0000");
+}
+
+function changedEntry(code: string, path: string): string {
+  return `1 ${code} N... 100644 100644 100644 587be6b4c3f93f93c489c0111bba5596147a26cb 587be6b4c3f93f93c489c0111bba5596147a26cb ${path}`;
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from "vitest";
+import { WorktreeService } from "../../src/backend/git/WorktreeService";
+
+vi.mock("vscode", () => ({
+  commands: {
+    executeCommand: vi.fn()
+  },
+  Uri: {
+    file: (path: string) => ({ path })
+  },
+  window: {
+    showWarningMessage: vi.fn()
+  }
+}));
+
+const worktreeListOutput = [
+  "worktree /repo",
+  "HEAD 1111111111111111111111111111111111111111",
+  "branch refs/heads/main",
+  "",
+  "worktree /work/hotfix",
+  "HEAD 2222222222222222222222222222222222222222",
+  "branch refs/heads/hotfix/login",
+  "locked on usb drive",
+  "",
+  "worktree /work/review",
+  "HEAD 3333333333333333333333333333333333333333",
+  "detached",
+  "",
+  "worktree /work/gone",
+  "HEAD 4444444444444444444444444444444444444444",
+  "branch refs/heads/gone",
+  "prunable gitdir file points to non-existent location",
+  ""
+].join("\n");
+
+describe("WorktreeService", () => {
+  it("parses porcelain worktree output", async () => {
+    const service = new WorktreeService({ gitRaw: async () => worktreeListOutput });
+
+    await expect(service.listWorktrees("/work/review")).resolves.toEqual([
+      {
+        bare: false,
+        branch: "main",
+        current: false,
+        detached: false,
+        head: "1111111111111111111111111111111111111111",
+        locked: false,
+        main: true,
+        path: "/repo",
+        prunable: false
+      },
+      {
+        bare: false,
+        branch: "hotfix/login",
+        current: false,
+        detached: false,
+        head: "2222222222222222222222222222222222222222",
+        lockReason: "on usb drive",
+        locked: true,
+        main: false,
+        path: "/work/hotfix",
+        prunable: false
+      },
+      {
+        bare: false,
+        current: true,
+        detached: true,
+        head: "3333333333333333333333333333333333333333",
+        locked: false,
+        main: false,
+        path: "/work/review",
+        prunable: false
+      },
+      {
+        bare: false,
+        branch: "gone",
+        current: false,
+        detached: false,
+        head: "4444444444444444444444444444444444444444",
+        locked: false,
+        main: false,
+        path: "/work/gone",
+        prunable: true,
+        prunableReason: "gitdir file points to non-existent location"
+      }
+    ]);
+  });
+
+  it("adds, locks, unlocks and prunes worktrees", async () => {
+    const calls: string[] = [];
+    const service = new WorktreeService({
+      gitRaw: async (_repositoryRoot, args) => {
+        calls.push(args.join(" "));
+        return args[1] === "list" ? worktreeListOutput : "";
+      }
+    });
+
+    await expect(service.addWorktree("/repo", "../work/new", "main", "feature/new")).resolves.toMatchObject({
+      result: { message: "Created worktree /work/new at feature/new", status: "ok" }
+    });
+    await service.addWorktree("/repo", "/work/review-2", "abc1234");
+    await service.lockWorktree("/repo", "/work/review", " moving disks ");
+    await service.unlockWorktree("/repo", "/work/hotfix");
+    await expect(service.pruneWorktrees("/repo")).resolves.toMatchObject({
+      result: { message: "Pruned 1 stale worktree", status: "ok" }
+    });
+    await expect(service.lockWorktree("/repo", "/repo")).rejects.toThrow("/repo is the main worktree");
+    await expect(service.addWorktree("/repo", " ", "main")).rejects.toThrow("Worktree path is required");
+
+    expect(calls.filter((call) => call !== "worktree list --porcelain")).toEqual([
+      "worktree add -b feature/new -- /work/new main",
+      "worktree add -- /work/review-2 abc1234",
+      "worktree lock --reason moving disks -- /work/review",
+      "worktree unlock -- /work/hotfix",
+      "worktree prune"
+    ]);
+  });
+
+  it("opens a worktree in a new window", async () => {
+    const executeCommand = vi.fn(async () => undefined);
+    const service = new WorktreeService({
+      executeCommand,
+      gitRaw: async () => worktreeListOutput,
+      uriFile: (path) => `file://${path}`
+    });
+
+    await expect(service.openWorktree("/repo", "/work/hotfix")).resolves.toEqual({
+      message: "Opened worktree hotfix in a new window",
+      status: "ok"
+    });
+    await expect(service.openWorktree("/repo", "/work/gone")).rejects.toThrow(
+      "Worktree /work/gone no longer exists. Prune it instead."
+    );
+    expect(executeCommand).toHaveBeenCalledWith("vscode.openFolder", "file:///work/hotfix", { forceNewWindow: true });
+  });
+
+  it("confirms removal and forces it when the worktree has uncommitted changes", async () => {
+    const calls: string[] = [];
+    const showWarningMessage = vi.fn(async (_message: string, _options: { modal: boolean }, ...items: readonly string[]) => items[0]);
+    const service = new WorktreeService({
+      gitRaw: async (repositoryRoot, args) => {
+        calls.push(`${repositoryRoot}: ${args.join(" ")}`);
+        if (args[1] === "list") {
+          return worktreeListOutput;
+        }
+
+        return args[0] === "status" ? " M src/app.ts\n" : "";
+      },
+      showWarningMessage
+    });
+
+    await expect(service.removeWorktree("/repo", "/work/review")).resolves.toMatchObject({
+      result: { message: "Removed worktree /work/review", status: "ok" }
+    });
+    await expect(service.removeWorktree("/repo", "/work/hotfix")).rejects.toThrow(
+      "Unlock worktree /work/hotfix before removing it"
+    );
+    await expect(service.removeWorktree("/work/review", "/work/review")).rejects.toThrow(
+      "Cannot remove worktree /work/review while it is the selected repository"
+    );
+
+    expect(showWarningMessage).toHaveBeenCalledWith(
+      "Worktree /work/review has uncommitted changes that will be lost. Remove it anyway?",
+      { modal: true },
+      "Force Remove"
+    );
+    expect(calls.filter((call) => !call.endsWith("worktree list --porcelain"))).toEqual([
+      "/work/review: status --porcelain",
+      "/repo: worktree remove --force -- /work/review"
+    ]);
+  });
+});
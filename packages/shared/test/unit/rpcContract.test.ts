@@ -13,7 +13,7 @@ const requiredRequestTypes = [
   "commits.getDetails",
   "files.getChanges",
   "files.openWorkingFile",
-  "files.openHistory",
+  "files.getHistory",
   "graph.getLayout",
   "remotes.list",
   "settings.get",
@@ -9,6 +9,7 @@ import { App } from "./App";
 import type {
   BackendNotification,
   BranchesViewModel,
+  CommitComposerViewModel,
   CommitListItemViewModel,
   GraphNodeViewModel,
   I18nBundleViewModel,
@@ -99,6 +100,35 @@ describe("App", () => {
     expect(screen.getByRole("dialog", { name: "Configure AI Provider" })).toBeInTheDocument();
   });
 
+  it("exports the loaded graph range from the settings menu", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    await user.click(screen.getByRole("button", { name: "Settings" }));
+    await user.click(screen.getByRole("menuitem", { name: "Export Graph as PNG" }));
+    const exportRequest = latestRequest(rpcClient, "graph.export");
+    expect(exportRequest).toEqual(
+      expect.objectContaining({
+        format: "png",
+        hashes: ["abc1234567890abcdef", "def4567890abcdefabc"],
+        repositoryId: "/repo",
+        type: "graph.export"
+      })
+    );
+
+    dispatchGraphExportResponse(exportRequest.id, {
+      message: "Exported 2 commits to /exports/graph.png",
+      status: "ok"
+    });
+
+    expect(screen.getByRole("status")).toHaveTextContent("Exported 2 commits to /exports/graph.png");
+  });
+
   it("does not show a separate AI provider test action in the settings menu", async () => {
     const user = userEvent.setup();
 
@@ -510,6 +540,44 @@ describe("App", () => {
     }));
   });
 
+  it("loads file hunks and posts hunk staging for the selected repository", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    await user.click(screen.getByRole("tab", { name: "Changes" }));
+    const loadRequest = latestRequest(rpcClient, "workingTree.load");
+    dispatchWorkingTreeResponse(loadRequest.id, {
+      ...defaultWorkingTree,
+      unstaged: [
+        { area: "unstaged", binary: false, deletions: 1, insertions: 1, path: "src/unstaged.ts", status: "modified" }
+      ]
+    });
+
+    await user.click(await screen.findByRole("button", { name: "Show changes in src/unstaged.ts" }));
+    const diffRequest = latestRequest(rpcClient, "workingTree.getFileDiff");
+    expect(diffRequest).toEqual(expect.objectContaining({
+      filePath: "src/unstaged.ts",
+      kind: "unstaged",
+      repositoryId: "/repo",
+      type: "workingTree.getFileDiff"
+    }));
+    dispatchFileDiffResponse(diffRequest.id);
+
+    await user.click(await screen.findByRole("button", { name: "Stage hunk 1 in src/unstaged.ts" }));
+    const stageRequest = latestRequest(rpcClient, "workingTree.stageHunk");
+    expect(stageRequest).toEqual(expect.objectContaining({
+      repositoryId: "/repo",
+      selection: { filePath: "src/unstaged.ts", hunkHeader: "@@ -1 +1 @@", hunkIndex: 0, lineIndexes: undefined },
+      type: "workingTree.stageHunk"
+    }));
+
+    dispatchWorkingTreeActionResponse(stageRequest.id, "workingTree.stageHunk", defaultWorkingTree, "Staged hunk");
+    expect(await screen.findByRole("heading", { name: "Changes (0)" })).toBeInTheDocument();
+  });
+
   it("posts working tree bulk action intents and updates changes from action responses", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
@@ -681,6 +749,255 @@ describe("App", () => {
     expect(screen.queryByText("Generating commit message...")).not.toBeInTheDocument();
   });
 
+  it("streams generated commit message candidates and lets the user pick one", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    await user.click(screen.getByRole("tab", { name: "Changes" }));
+    const loadRequest = latestRequest(rpcClient, "workingTree.load");
+    dispatchWorkingTreeResponse(loadRequest.id);
+
+    await user.selectOptions(await screen.findByRole("combobox", { name: "Candidates" }), "2");
+    await user.click(screen.getByRole("button", { name: "Generate" }));
+    const generateRequest = latestRequest(rpcClient, "commitMessage.generate");
+    expect(generateRequest).toEqual(expect.objectContaining({ candidates: 2, repositoryId: "/repo" }));
+
+    dispatchCommitMessageProgress(generateRequest.id, 1, "fix: stream");
+    dispatchCommitMessageProgress("stale-generate", 0, "chore: stale");
+    dispatchCommitMessageProgress(generateRequest.id, 0, "feat: add");
+
+    const candidates = within(screen.getByTestId("commit-message-candidates"));
+    expect(candidates.getByText("feat: add")).toBeInTheDocument();
+    expect(candidates.getByText("fix: stream")).toBeInTheDocument();
+    expect(candidates.queryByText("chore: stale")).not.toBeInTheDocument();
+
+    dispatchCommitMessageGenerateResponse(generateRequest.id, "feat: add parser", ["feat: add parser", "fix: stream tokens"]);
+    expect(screen.getByRole("textbox", { name: "Commit message" })).toHaveValue("feat: add parser");
+
+    await user.click(screen.getByRole("button", { name: "Use option 2" }));
+
+    expect(screen.getByRole("textbox", { name: "Commit message" })).toHaveValue("fix: stream tokens");
+  });
+
+  it("tells the user when duplicate commit message candidates were merged", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    await user.click(screen.getByRole("tab", { name: "Changes" }));
+    dispatchWorkingTreeResponse(latestRequest(rpcClient, "workingTree.load").id);
+
+    await user.selectOptions(await screen.findByRole("combobox", { name: "Candidates" }), "3");
+    await user.click(screen.getByRole("button", { name: "Generate" }));
+    dispatchCommitMessageGenerateResponse(latestRequest(rpcClient, "commitMessage.generate").id, "feat: add parser", [
+      "feat: add parser"
+    ], 2);
+
+    expect(await screen.findByText("2 of 3 generated messages were duplicates and were merged")).toBeInTheDocument();
+  });
+
+  it("cancels commit message generation and ignores the cancelled response", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    await user.click(screen.getByRole("tab", { name: "Changes" }));
+    const loadRequest = latestRequest(rpcClient, "workingTree.load");
+    dispatchWorkingTreeResponse(loadRequest.id);
+
+    await user.click(await screen.findByRole("button", { name: "Generate" }));
+    const generateRequest = latestRequest(rpcClient, "commitMessage.generate");
+    await user.click(screen.getByRole("button", { name: "Cancel" }));
+
+    expect(latestRequest(rpcClient, "commitMessage.cancel")).toEqual(expect.objectContaining({
+      generateRequestId: generateRequest.id,
+      type: "commitMessage.cancel"
+    }));
+    expect(screen.getByRole("button", { name: "Generate" })).not.toBeDisabled();
+
+    dispatchErrorResponse(generateRequest.id, "commitMessage.generate", "Commit message generation cancelled");
+
+    expect(screen.queryByText("Commit message generation cancelled")).not.toBeInTheDocument();
+  });
+
+  it("opens the selected commit on the hosting service and copies its permalink", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    dispatchDetailsResponse(latestRequest(rpcClient, "commits.getDetails").id, {
+      body: "",
+      hash: "abc1234567890abcdef",
+      message: "Wire real data"
+    });
+
+    await user.click(await screen.findByRole("button", { name: "Open on remote" }));
+    const openRequest = latestRequest(rpcClient, "hosting.openCommit");
+    expect(openRequest).toEqual(expect.objectContaining({ hash: "abc1234567890abcdef", repositoryId: "/repo" }));
+    dispatchHostingResponse(openRequest.id, "hosting.openCommit", { message: "Opened abc12345 on remote", status: "ok" });
+
+    await user.click(screen.getByRole("button", { name: "Copy permalink" }));
+    const copyRequest = latestRequest(rpcClient, "hosting.copyPermalink");
+    expect(copyRequest).toEqual(expect.objectContaining({ hash: "abc1234567890abcdef", repositoryId: "/repo" }));
+    dispatchHostingResponse(copyRequest.id, "hosting.copyPermalink", { message: "Copied permalink for abc12345", status: "ok" });
+
+    expect(screen.getByRole("status")).toHaveTextContent("Copied permalink for abc12345");
+  });
+
+  it("lists pull requests from the header and checks one out before reloading history", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+
+    await user.click(screen.getByRole("button", { name: "Pull Requests" }));
+    const failedListRequest = latestRequest(rpcClient, "pullRequests.list");
+    expect(failedListRequest).toEqual(expect.objectContaining({ repositoryId: "/repo" }));
+    dispatchErrorResponse(failedListRequest.id, "pullRequests.list", "Hosting API request failed with status 401");
+    expect(within(screen.getByRole("menu", { name: "Pull Requests" })).getByRole("alert")).toHaveTextContent(
+      "Hosting API request failed with status 401"
+    );
+
+    await user.click(screen.getByRole("button", { name: "Set access token" }));
+    const tokenRequest = latestRequest(rpcClient, "pullRequests.configureToken");
+    dispatchPullRequestActionResponse(tokenRequest.id, "pullRequests.configureToken", {
+      message: "Saved access token for github.com",
+      status: "ok"
+    });
+    const listRequest = latestRequest(rpcClient, "pullRequests.list");
+    expect(listRequest.id).not.toBe(failedListRequest.id);
+    act(() => {
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: {
+            id: listRequest.id,
+            ok: true,
+            payload: {
+              pullRequests: [
+                {
+                  author: "octo",
+                  draft: false,
+                  number: 7,
+                  sourceBranch: "feature/demo",
+                  targetBranch: "main",
+                  title: "Add demo",
+                  updatedAt: "2026-01-02T03:04:05Z",
+                  url: "https://github.com/owner/repo/pull/7"
+                }
+              ]
+            },
+            type: "pullRequests.list"
+          } satisfies RpcResponse
+        })
+      );
+    });
+
+    const historyLoadCount = rpcClient.post.mock.calls.filter(([request]) => request.type === "history.load").length;
+    await user.click(screen.getByRole("button", { name: "Checkout #7" }));
+    const checkoutRequest = latestRequest(rpcClient, "pullRequests.checkout");
+    expect(checkoutRequest).toEqual(expect.objectContaining({ number: 7, repositoryId: "/repo" }));
+    dispatchPullRequestActionResponse(checkoutRequest.id, "pullRequests.checkout", {
+      message: "Checked out pull request #7 as pr/7",
+      status: "ok"
+    });
+
+    expect(screen.getByRole("status")).toHaveTextContent("Checked out pull request #7 as pr/7");
+    expect(rpcClient.post.mock.calls.filter(([request]) => request.type === "history.load")).toHaveLength(historyLoadCount + 1);
+  });
+
+  it("explains the selected commit and summarizes compared ranges with the AI provider", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+    const writeText = vi.fn();
+    Object.defineProperty(navigator, "clipboard", {
+      configurable: true,
+      value: { writeText }
+    });
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    dispatchDetailsResponse(latestRequest(rpcClient, "commits.getDetails").id, {
+      body: "",
+      hash: "abc1234567890abcdef",
+      message: "Wire real data"
+    });
+
+    await user.click(await screen.findByRole("button", { name: "Explain commit" }));
+    const commitSummaryRequest = latestRequest(rpcClient, "aiSummary.commit");
+    expect(commitSummaryRequest).toEqual(expect.objectContaining({ hash: "abc1234567890abcdef", repositoryId: "/repo" }));
+    expect(screen.getByRole("button", { name: "Explain commit" })).toBeDisabled();
+
+    dispatchErrorResponse("stale-summary", "aiSummary.commit", "Stale summary failed");
+    dispatchAiSummaryResponse(commitSummaryRequest.id, "aiSummary.commit", { kind: "commit", markdown: "Wires real data into the view." });
+
+    expect(screen.getByRole("region", { name: "AI summary" })).toHaveTextContent("Wires real data into the view.");
+    expect(screen.queryByText("Stale summary failed")).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Copy summary" }));
+    await user.click(screen.getByRole("button", { name: "Open as Markdown document" }));
+    expect(writeText).toHaveBeenCalledWith("Wires real data into the view.");
+    expect(latestRequest(rpcClient, "aiSummary.open")).toEqual(expect.objectContaining({ markdown: "Wires real data into the view." }));
+
+    const commitRows = screen.getAllByTestId("commit-row");
+    fireEvent.click(commitRows[1]!, { metaKey: true });
+    await openContextMenu(user, commitRows[1]!);
+    await user.click(screen.getByRole("menuitem", { name: "Compare Selected (2)" }));
+    dispatchCompareResponse(latestRequest(rpcClient, "git.compareCommits").id);
+    await user.click(screen.getByRole("button", { name: "PR description" }));
+
+    const rangeSummaryRequest = latestRequest(rpcClient, "aiSummary.range");
+    expect(rangeSummaryRequest).toEqual(expect.objectContaining({
+      fromHash: "abc1234567890abcdef",
+      kind: "pullRequest",
+      repositoryId: "/repo",
+      toHash: "def4567890abcdefabc"
+    }));
+    dispatchAiSummaryResponse(rangeSummaryRequest.id, "aiSummary.range", { kind: "pullRequest", markdown: "## Summary" });
+
+    expect(within(screen.getByRole("region", { name: "Compare Commits" })).getByRole("region", { name: "AI summary" })).toHaveTextContent(
+      "## Summary"
+    );
+  });
+
+  it("cancels a pending AI summary and ignores its late response", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    dispatchDetailsResponse(latestRequest(rpcClient, "commits.getDetails").id, {
+      body: "",
+      hash: "abc1234567890abcdef",
+      message: "Wire real data"
+    });
+
+    await user.click(await screen.findByRole("button", { name: "Explain commit" }));
+    const commitSummaryRequest = latestRequest(rpcClient, "aiSummary.commit");
+    await user.click(within(screen.getByRole("region", { name: "AI summary" })).getByRole("button", { name: "Cancel" }));
+
+    expect(latestRequest(rpcClient, "aiSummary.cancel")).toEqual(expect.objectContaining({
+      summaryRequestId: commitSummaryRequest.id,
+      type: "aiSummary.cancel"
+    }));
+    expect(screen.queryByRole("region", { name: "AI summary" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Explain commit" })).toBeEnabled();
+
+    dispatchAiSummaryResponse(commitSummaryRequest.id, "aiSummary.commit", { kind: "commit", markdown: "Late summary" });
+    expect(screen.queryByText("Late summary")).not.toBeInTheDocument();
+  });
+
   it("keeps stale commit message generation errors from replacing the current notification", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
@@ -1502,70 +1819,304 @@ describe("App", () => {
     }));
   });
 
-  it("loads history for selected repositories, branches, search text, and authors", async () => {
+  it("creates and manages worktrees through the worktree manager", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
-    const testBranches = {
-      locals: [
-        { current: true, name: "main" },
-        { current: false, name: "feature/ui" }
-      ],
-      remotes: [
-        {
-          remote: "origin",
-          branches: [{ current: false, name: "origin/release", remote: "origin" }]
-        }
-      ]
-    } satisfies BranchesViewModel;
-    const testRepositories = [
-      { id: "/repo", name: "repo", rootPath: "/repo" },
-      { id: "/repo-two", name: "repo-two", rootPath: "/repo-two" }
-    ] satisfies readonly RepositoryViewModel[];
+    const worktrees = [
+      { bare: false, branch: "main", current: true, detached: false, locked: false, main: true, path: "/repo", prunable: false },
+      { bare: false, branch: "hotfix", current: false, detached: false, locked: false, main: false, path: "/work/hotfix", prunable: false }
+    ];
 
     render(<App rpcClient={rpcClient} />);
-    dispatchHistoryResponse(rpcClient, {
-      branches: testBranches,
-      repositories: testRepositories
-    });
+    dispatchHistoryResponse(rpcClient);
     await waitForCommitRows();
     rpcClient.post.mockClear();
 
-    expect(screen.getAllByText("Graph")).toHaveLength(2);
+    await openContextMenu(user, screen.getAllByTestId("commit-row")[1]!);
+    await user.click(screen.getByRole("menuitem", { name: "Create Worktree Here..." }));
+    const listRequest = latestRequest(rpcClient, "worktrees.list");
+    expect(listRequest).toEqual(expect.objectContaining({ repositoryId: "/repo", type: "worktrees.list" }));
+    dispatchWorktreeResponse(listRequest.id, "worktrees.list", { worktrees: worktrees.slice(0, 1) });
+
+    expect(screen.getByRole("textbox", { name: "Branch or commit" })).toHaveValue("def4567890abcdefabc");
+    await user.type(screen.getByRole("textbox", { name: "Worktree path (e.g. ../hotfix)" }), "../hotfix");
+    await user.type(screen.getByRole("textbox", { name: "New branch (optional)" }), "hotfix");
+    await user.click(screen.getByRole("button", { name: "Add Worktree" }));
+    const addRequest = latestRequest(rpcClient, "worktrees.add");
+    expect(addRequest).toEqual(expect.objectContaining({
+      newBranch: "hotfix",
+      path: "../hotfix",
+      ref: "def4567890abcdefabc",
+      repositoryId: "/repo",
+      type: "worktrees.add"
+    }));
+    expect(screen.getByRole("button", { name: "Prune" })).toBeDisabled();
+    rpcClient.post.mockClear();
+    dispatchWorktreeResponse(addRequest.id, "worktrees.add", {
+      result: { message: "Created worktree /work/hotfix at hotfix", status: "ok" },
+      worktrees
+    });
 
-    await user.selectOptions(screen.getByRole("combobox", { name: "Repository" }), "/repo-two");
-    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
-      repositoryId: "/repo-two",
-      type: "history.load"
+    expect(screen.getByRole("status")).toHaveTextContent("Created worktree /work/hotfix at hotfix");
+    expect(rpcClient.post).toHaveBeenCalledWith(expect.objectContaining({ repositoryId: "/repo", type: "history.load" }));
+
+    await user.click(screen.getByRole("button", { name: "Open /work/hotfix" }));
+    expect(latestRequest(rpcClient, "worktrees.open")).toEqual(expect.objectContaining({
+      path: "/work/hotfix",
+      repositoryId: "/repo",
+      type: "worktrees.open"
     }));
 
-    dispatchHistoryResponse(rpcClient, {
-      branches: testBranches,
-      requestId: latestRequest(rpcClient, "history.load").id,
-      repositories: testRepositories
+    await user.click(screen.getByRole("button", { name: "Lock /work/hotfix" }));
+    const lockRequest = latestRequest(rpcClient, "worktrees.lock");
+    expect(lockRequest).toEqual(expect.objectContaining({ path: "/work/hotfix", type: "worktrees.lock" }));
+    dispatchWorktreeResponse(lockRequest.id, "worktrees.lock", {
+      result: { message: "Locked worktree /work/hotfix", status: "ok" },
+      worktrees: [worktrees[0]!, { ...worktrees[1]!, locked: true }]
     });
+
+    expect(screen.getByRole("button", { name: "Remove /work/hotfix" })).toBeDisabled();
+    await user.click(screen.getByRole("button", { name: "Unlock /work/hotfix" }));
+    expect(latestRequest(rpcClient, "worktrees.unlock")).toEqual(expect.objectContaining({ path: "/work/hotfix", type: "worktrees.unlock" }));
+  });
+
+  it("updates and opens submodules through the submodule manager", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+    const submodules = [
+      {
+        hash: "1111111111111111111111111111111111111111",
+        name: "lib",
+        path: "vendor/lib",
+        rootPath: "/repo/vendor/lib",
+        state: "uninitialized" as const
+      }
+    ];
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
     rpcClient.post.mockClear();
 
-    await user.click(screen.getByRole("button", { name: "Branches" }));
-    await user.click(screen.getByRole("checkbox", { name: "feature/ui" }));
-    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
-      branches: ["feature/ui"],
-      repositoryId: "/repo-two",
-      type: "history.load"
-    }));
+    await user.click(screen.getByRole("button", { name: "Settings" }));
+    await user.click(screen.getByRole("menuitem", { name: "Manage Submodules" }));
+    const listRequest = latestRequest(rpcClient, "submodules.list");
+    expect(listRequest).toEqual(expect.objectContaining({ repositoryId: "/repo", type: "submodules.list" }));
+    dispatchSubmoduleResponse(listRequest.id, "submodules.list", { submodules });
+
+    await user.click(screen.getByRole("button", { name: "Update vendor/lib" }));
+    const updateRequest = latestRequest(rpcClient, "submodules.update");
+    expect(updateRequest).toEqual(expect.objectContaining({ path: "vendor/lib", repositoryId: "/repo", type: "submodules.update" }));
+    expect(screen.getByRole("button", { name: "Update All" })).toBeDisabled();
+    rpcClient.post.mockClear();
+    dispatchSubmoduleResponse(updateRequest.id, "submodules.update", {
+      result: { message: "Updated submodule vendor/lib", status: "ok" },
+      submodules: [{ ...submodules[0]!, state: "current" }]
+    });
 
-    await user.click(screen.getByRole("checkbox", { name: "origin/release" }));
-    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
-      branches: ["feature/ui", "origin/release"],
-      repositoryId: "/repo-two",
-      type: "history.load"
-    }));
+    expect(screen.getByRole("status")).toHaveTextContent("Updated submodule vendor/lib");
+    expect(rpcClient.post).toHaveBeenCalledWith(expect.objectContaining({ repositoryId: "/repo", type: "history.load" }));
 
-    await user.click(screen.getByRole("menuitem", { name: "All branches" }));
-    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
-      branches: undefined,
-      repositoryId: "/repo-two",
-      type: "history.load"
-    }));
+    rpcClient.post.mockClear();
+    await user.click(screen.getByRole("button", { name: "Open vendor/lib" }));
+
+    expect(screen.queryByRole("dialog", { name: "Submodule Manager" })).not.toBeInTheDocument();
+    expect(latestRequest(rpcClient, "history.load")).toEqual(
+      expect.objectContaining({ repositoryId: "/repo/vendor/lib", type: "history.load" })
+    );
+  });
+
+  it("browses the reflog and recovers entries through checkout, branch and reset", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+    const entries = [
+      {
+        action: "reset",
+        author: "Ada",
+        date: "2026-10-19 05:38:45 +0000",
+        hash: "1111111111111111111111111111111111111111",
+        message: "moving to HEAD~1",
+        selector: "HEAD@{0}",
+        shortHash: "1111111",
+        subject: "Older work"
+      },
+      {
+        action: "commit",
+        author: "Ada",
+        date: "2026-10-19 05:30:00 +0000",
+        hash: "2222222222222222222222222222222222222222",
+        message: "Lost work",
+        selector: "HEAD@{1}",
+        shortHash: "2222222",
+        subject: "Lost work"
+      }
+    ];
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    await user.click(screen.getByRole("button", { name: "Settings" }));
+    await user.click(screen.getByRole("menuitem", { name: "Browse Reflog" }));
+    const listRequest = latestRequest(rpcClient, "reflog.list");
+    expect(listRequest).toEqual(expect.objectContaining({ ref: "HEAD", repositoryId: "/repo", type: "reflog.list" }));
+    dispatchReflogResponse(listRequest.id, "reflog.list", { entries, ref: "HEAD", refs: ["HEAD", "main"] });
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Reflog" }), "main");
+    expect(latestRequest(rpcClient, "reflog.list")).toEqual(expect.objectContaining({ ref: "main", repositoryId: "/repo" }));
+    dispatchReflogResponse(latestRequest(rpcClient, "reflog.list").id, "reflog.list", {
+      entries: entries.map((entry, index) => ({ ...entry, selector: `main@{${index}}` })),
+      ref: "main",
+      refs: ["HEAD", "main"]
+    });
+
+    await user.click(screen.getByRole("button", { name: "Branch main@{1}" }));
+    expect(latestRequest(rpcClient, "git.createBranchFromCommit")).toEqual(
+      expect.objectContaining({ hash: entries[1]!.hash, repositoryId: "/repo", type: "git.createBranchFromCommit" })
+    );
+    dispatchOperationResponse(latestRequest(rpcClient, "git.createBranchFromCommit").id, "git.createBranchFromCommit", {
+      message: "Created branch rescue",
+      status: "ok"
+    });
+
+    await user.click(screen.getByRole("button", { name: "Checkout main@{1}" }));
+    const checkoutRequest = latestRequest(rpcClient, "reflog.checkout");
+    expect(checkoutRequest).toEqual(
+      expect.objectContaining({ hash: entries[1]!.hash, repositoryId: "/repo", selector: "main@{1}", type: "reflog.checkout" })
+    );
+    expect(screen.getByRole("button", { name: "Reset main@{0}" })).toBeDisabled();
+    rpcClient.post.mockClear();
+    dispatchReflogResponse(checkoutRequest.id, "reflog.checkout", { message: "Checked out main@{1} (22222222)", status: "ok" });
+
+    expect(within(screen.getByRole("dialog", { name: "Reflog" })).getByRole("status")).toHaveTextContent("Checked out main@{1} (22222222)");
+    expect(latestRequest(rpcClient, "reflog.list")).toEqual(expect.objectContaining({ ref: "main", repositoryId: "/repo" }));
+    expect(rpcClient.post).toHaveBeenCalledWith(expect.objectContaining({ repositoryId: "/repo", type: "history.load" }));
+
+    await user.click(screen.getByRole("button", { name: "Reset main@{0}" }));
+    const resetRequest = latestRequest(rpcClient, "reflog.reset");
+    expect(resetRequest).toEqual(
+      expect.objectContaining({ hash: entries[0]!.hash, repositoryId: "/repo", selector: "main@{0}", type: "reflog.reset" })
+    );
+    dispatchReflogResponse(resetRequest.id, "reflog.reset", { message: "Reset cancelled", status: "cancelled" });
+
+    expect(within(screen.getByRole("dialog", { name: "Reflog" })).getByRole("status")).toHaveTextContent("Reset cancelled");
+  });
+
+  it("renames, deletes, and tracks branches through the branch menu", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient, {
+      branches: {
+        locals: [
+          { current: true, name: "main" },
+          { ahead: 1, behind: 0, current: false, name: "feature/ui", upstream: "origin/feature/ui" }
+        ],
+        remotes: [{ branches: [{ current: false, name: "origin/feature/ui", remote: "origin" }], remote: "origin" }]
+      }
+    });
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    await user.click(screen.getByRole("button", { name: "Branches" }));
+    await user.click(screen.getByRole("button", { name: "Rename feature/ui" }));
+    await user.clear(screen.getByRole("textbox", { name: "New name for feature/ui" }));
+    await user.type(screen.getByRole("textbox", { name: "New name for feature/ui" }), "feature/header{Enter}");
+    const renameRequest = latestRequest(rpcClient, "branches.rename");
+    expect(renameRequest).toEqual(expect.objectContaining({
+      name: "feature/ui",
+      newName: "feature/header",
+      repositoryId: "/repo",
+      type: "branches.rename"
+    }));
+    dispatchBranchOperationResponse(renameRequest.id, "branches.rename", "Renamed branch feature/ui to feature/header");
+    expect(await screen.findByText("Renamed branch feature/ui to feature/header")).toBeInTheDocument();
+    expect(rpcClient.post).toHaveBeenCalledWith(expect.objectContaining({ repositoryId: "/repo", type: "history.load" }));
+
+    await user.click(screen.getByRole("button", { name: "Set upstream for feature/ui" }));
+    await user.selectOptions(screen.getByRole("combobox", { name: "Set upstream for feature/ui" }), "No upstream");
+    expect(latestRequest(rpcClient, "branches.setUpstream")).toEqual(expect.objectContaining({
+      name: "feature/ui",
+      repositoryId: "/repo",
+      type: "branches.setUpstream",
+      upstream: undefined
+    }));
+
+    await user.click(screen.getByRole("button", { name: "Delete origin/feature/ui (Command/Ctrl+click to force delete)" }));
+    expect(latestRequest(rpcClient, "branches.delete")).toEqual(expect.objectContaining({
+      name: "origin/feature/ui",
+      remote: "origin",
+      repositoryId: "/repo",
+      type: "branches.delete"
+    }));
+  });
+
+  it("loads history for selected repositories, branches, search text, and authors", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+    const testBranches = {
+      locals: [
+        { current: true, name: "main" },
+        { current: false, name: "feature/ui" }
+      ],
+      remotes: [
+        {
+          remote: "origin",
+          branches: [{ current: false, name: "origin/release", remote: "origin" }]
+        }
+      ]
+    } satisfies BranchesViewModel;
+    const testRepositories = [
+      { id: "/repo", name: "repo", rootPath: "/repo" },
+      { id: "/repo-two", name: "repo-two", rootPath: "/repo-two" }
+    ] satisfies readonly RepositoryViewModel[];
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient, {
+      branches: testBranches,
+      repositories: testRepositories
+    });
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    expect(screen.getAllByText("Graph")).toHaveLength(2);
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Repository" }), "/repo-two");
+    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
+      repositoryId: "/repo-two",
+      type: "history.load"
+    }));
+
+    dispatchHistoryResponse(rpcClient, {
+      branches: testBranches,
+      requestId: latestRequest(rpcClient, "history.load").id,
+      repositories: testRepositories
+    });
+    rpcClient.post.mockClear();
+
+    await user.click(screen.getByRole("button", { name: "Branches" }));
+    await user.click(screen.getByRole("checkbox", { name: "feature/ui" }));
+    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
+      branches: ["feature/ui"],
+      repositoryId: "/repo-two",
+      type: "history.load"
+    }));
+
+    await user.click(screen.getByRole("checkbox", { name: "origin/release" }));
+    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
+      branches: ["feature/ui", "origin/release"],
+      repositoryId: "/repo-two",
+      type: "history.load"
+    }));
+
+    await user.click(screen.getByRole("menuitem", { name: "All branches" }));
+    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
+      branches: undefined,
+      repositoryId: "/repo-two",
+      type: "history.load"
+    }));
 
     await user.type(screen.getByRole("searchbox", { name: "Search commits" }), "fix");
     expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
@@ -1590,6 +2141,22 @@ describe("App", () => {
       search: "fix",
       type: "history.load"
     }));
+
+    await user.clear(screen.getByRole("searchbox", { name: "Search commits" }));
+    await user.type(
+      screen.getByRole("searchbox", { name: "Search commits" }),
+      'fix path:src/ author:alice since:2w content:"load history" merges:no'
+    );
+    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({
+      author: "alice",
+      merges: "exclude",
+      paths: ["src/"],
+      pickaxe: "load history",
+      repositoryId: "/repo-two",
+      search: "fix",
+      since: "2 weeks ago",
+      type: "history.load"
+    }));
   });
 
   it("clears a selected branch after it is deleted before a fetch reload", async () => {
@@ -1960,11 +2527,93 @@ describe("App", () => {
         type: "files.openWorkingFile"
       })
     );
+    const historyRequest = rpcClient.post.mock.calls.find(([request]) => request.type === "files.getHistory")![0];
+    expect(historyRequest).toEqual(
+      expect.objectContaining({
+        filePath: "src/app/App.tsx",
+        repositoryId: "/repo",
+        type: "files.getHistory"
+      })
+    );
+    expect(screen.getByRole("dialog", { name: "File History: src/app/App.tsx" })).toBeInTheDocument();
+
+    dispatchFileHistoryResponse(historyRequest.id, {
+      entries: [fileHistoryEntries[0]!],
+      filePath: "src/app/App.tsx"
+    });
+
+    expect(screen.getByRole("row", { name: "abc1234" })).toHaveTextContent("Wire real data");
+  });
+
+  it("opens line history from the backend and compares selected revisions across renames", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    rpcClient.post.mockClear();
+
+    act(() => {
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: {
+            filePath: "src/app/App.tsx",
+            lineRange: { endLine: 20, startLine: 10 },
+            repositoryId: "/repo",
+            type: "fileHistory.show"
+          } satisfies BackendNotification
+        })
+      );
+    });
+
+    const historyRequest = rpcClient.post.mock.calls.find(([request]) => request.type === "files.getHistory")![0];
+    expect(historyRequest).toEqual(
+      expect.objectContaining({
+        filePath: "src/app/App.tsx",
+        lineRange: { endLine: 20, startLine: 10 },
+        repositoryId: "/repo"
+      })
+    );
+
+    dispatchFileHistoryResponse(historyRequest.id, {
+      entries: fileHistoryEntries,
+      filePath: "src/app/App.tsx",
+      lineRange: { endLine: 20, startLine: 10 }
+    });
+
+    const dialog = screen.getByRole("dialog", { name: "Line History: src/app/App.tsx:10-20" });
+    await user.click(within(dialog).getByRole("checkbox", { name: "Select abc1234" }));
+    await user.click(within(dialog).getByRole("checkbox", { name: "Select def5678" }));
+    await user.click(within(dialog).getByRole("button", { name: "Compare Selected" }));
+
     expect(rpcClient.post).toHaveBeenCalledWith(
       expect.objectContaining({
         filePath: "src/app/App.tsx",
+        fromFilePath: "src/App.tsx",
+        fromHash: "def5678900000000000",
+        repositoryId: "/repo",
+        toHash: "abc1234567890abcdef",
+        type: "diff.openCompareFile"
+      })
+    );
+
+    rpcClient.post.mockClear();
+    await user.click(within(dialog).getByRole("button", { name: "Show Commit def5678" }));
+
+    expect(screen.queryByRole("dialog", { name: "Line History: src/app/App.tsx:10-20" })).not.toBeInTheDocument();
+    const revealRequest = rpcClient.post.mock.calls.find(([request]) => request.type === "history.load")![0];
+    dispatchHistoryResponse(rpcClient, {
+      commits: [
+        createCommit({ hash: "abc1234567890abcdef", message: "Wire real data" }),
+        createCommit({ hash: "def5678900000000000", message: "Add app shell" })
+      ],
+      requestId: revealRequest.id
+    });
+
+    expect(rpcClient.post).toHaveBeenCalledWith(
+      expect.objectContaining({
+        hash: "def5678900000000000",
         repositoryId: "/repo",
-        type: "files.openHistory"
+        type: "commits.getDetails"
       })
     );
   });
@@ -2076,7 +2725,9 @@ describe("App", () => {
                   }
                 ],
                 width: 120
-              }
+              },
+              layoutId: "layout-1",
+              startRow: 0
             }
           } satisfies RpcResponse
         })
@@ -2206,6 +2857,47 @@ describe("App", () => {
     expect(screen.getByRole("img", { name: "Git graph" }).querySelectorAll("circle")).toHaveLength(1);
   });
 
+  it("requests only new graph rows for appended history pages and merges them into the graph", async () => {
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient, {
+      commits: [createCommit({ hash: "abc1234567890abcdef", message: "First page commit" })],
+      hasMore: true,
+      nextCursor: "1"
+    });
+    await waitForCommitRows();
+
+    const firstGraphRequest = latestRequest(rpcClient, "graph.getLayout");
+    expect(firstGraphRequest.knownLayout).toBeUndefined();
+    dispatchGraphResponse(firstGraphRequest.id, [
+      { color: "#f56565", column: 0, hash: "abc1234567890abcdef", row: 0, x: 8, y: 18 }
+    ]);
+
+    const scrollContainer = screen.getByTestId("commit-scroll-container");
+    Object.defineProperties(scrollContainer, {
+      clientHeight: { configurable: true, value: 100 },
+      scrollHeight: { configurable: true, value: 200 },
+      scrollTop: { configurable: true, value: 100 }
+    });
+    fireEvent.scroll(scrollContainer);
+    dispatchHistoryResponse(rpcClient, {
+      commits: [createCommit({ hash: "def4567890abcdefabc", message: "Second page commit" })],
+      hasMore: false,
+      requestId: latestRequest(rpcClient, "history.load").id
+    });
+
+    const nextGraphRequest = latestRequest(rpcClient, "graph.getLayout");
+    expect(nextGraphRequest.knownLayout).toEqual({ layoutId: "layout-1", rowCount: 1 });
+    dispatchGraphResponse(nextGraphRequest.id, [
+      { color: "#4299e1", column: 1, hash: "def4567890abcdefabc", row: 1, x: 20, y: 54 }
+    ], 1);
+
+    const graph = screen.getByRole("img", { name: "Git graph" });
+    expect(graph.querySelectorAll("circle")).toHaveLength(2);
+    expect(graph.querySelector('[data-hash="abc1234567890abcdef"] circle')).toHaveAttribute("cy", "18");
+  });
+
   it("toggles the graph strip without dropping commit rows", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
@@ -2443,6 +3135,42 @@ describe("App", () => {
     expect(notificationCenter).not.toHaveTextContent("Pull completed");
   });
 
+  it("undoes journaled operations from the notification center and reloads the repository", async () => {
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    dispatchOperationResponse("reset", "git.reset", {
+      message: "Reset hard completed",
+      status: "ok",
+      undoId: "undo-1"
+    });
+    dispatchOperationResponse("pull", "git.pull");
+    rpcClient.post.mockClear();
+
+    fireEvent.click(screen.getByRole("button", { name: "Notifications" }));
+    const notificationCenter = screen.getByRole("region", { name: "Notifications" });
+    expect(within(notificationCenter).getAllByRole("button", { name: "Undo operation" })).toHaveLength(1);
+
+    fireEvent.click(within(notificationCenter).getByRole("button", { name: "Undo operation" }));
+    const undoRequest = latestRequest(rpcClient, "operations.undo");
+    expect(undoRequest).toEqual(expect.objectContaining({
+      repositoryId: "/repo",
+      type: "operations.undo",
+      undoId: "undo-1"
+    }));
+    expect(within(notificationCenter).queryByRole("button", { name: "Undo operation" })).not.toBeInTheDocument();
+
+    dispatchUndoResponse(undoRequest.id, {
+      message: "Undid reset --hard to def45678",
+      status: "ok"
+    });
+    expect(notificationCenter).toHaveTextContent("Undid reset --hard to def45678");
+    expect(latestRequest(rpcClient, "history.load")).toEqual(expect.objectContaining({ repositoryId: "/repo" }));
+    expect(latestRequest(rpcClient, "workingTree.load")).toEqual(expect.objectContaining({ repositoryId: "/repo" }));
+  });
+
   it("can hide unread notification counts", async () => {
     const rpcClient = createTestRpcClient();
 
@@ -2605,6 +3333,55 @@ describe("App", () => {
     setIntervalSpy.mockRestore();
   });
 
+  it("lists conflicted files and resolves them from the conflict banner", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    await user.click(screen.getByRole("button", { name: "Pull" }));
+    dispatchOperationResponse(latestRequest(rpcClient, "git.pull").id, "git.pull", {
+      message: "Pull has conflicts. Resolve all conflicted files, stage them, then continue from GUI Git History.",
+      status: "conflict"
+    });
+    const listRequest = latestRequest(rpcClient, "conflicts.list");
+    expect(listRequest).toEqual(expect.objectContaining({ repositoryId: "/repo", type: "conflicts.list" }));
+    dispatchConflictListResponse(listRequest.id, [
+      { path: "src/app.ts", status: "bothModified" },
+      { path: "src/removed.ts", status: "deletedByThem" }
+    ]);
+
+    const conflictList = screen.getByRole("list", { name: "Conflicted files" });
+    const [appRow, removedRow] = within(conflictList).getAllByRole("listitem");
+    await user.click(within(removedRow!).getByRole("button", { name: "Accept Theirs" }));
+    const acceptRequest = latestRequest(rpcClient, "conflicts.acceptTheirs");
+    expect(acceptRequest).toEqual(expect.objectContaining({ filePath: "src/removed.ts", repositoryId: "/repo" }));
+    expect(within(appRow!).getByRole("button", { name: "Mark Resolved" })).toBeDisabled();
+    dispatchConflictActionResponse(acceptRequest.id, "conflicts.acceptTheirs", {
+      files: [{ path: "src/app.ts", status: "bothModified" }],
+      result: { message: "Accepted their version of src/removed.ts", status: "ok" }
+    });
+    expect(within(conflictList).getAllByRole("listitem")).toHaveLength(1);
+
+    await user.click(screen.getByRole("button", { name: "Open Merge Editor" }));
+    expect(latestRequest(rpcClient, "conflicts.openMergeEditor")).toEqual(expect.objectContaining({ filePath: "src/app.ts" }));
+
+    await user.click(screen.getByRole("button", { name: "Mark Resolved" }));
+    dispatchConflictActionResponse(latestRequest(rpcClient, "conflicts.markResolved").id, "conflicts.markResolved", {
+      files: [{ path: "src/app.ts", status: "bothModified" }],
+      result: {
+        message: "src/app.ts still contains conflict markers at line 2. Remove them before marking the file resolved.",
+        status: "conflict"
+      }
+    });
+
+    expect(await screen.findByText(/still contains conflict markers at line 2/)).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Mark Resolved" })).not.toBeDisabled();
+  });
+
   it("runs advanced pull and push when pull or push is command-clicked", async () => {
     const rpcClient = createTestRpcClient();
 
@@ -2743,23 +3520,120 @@ describe("App", () => {
     expect(screen.getByText("src/shared.ts")).toBeInTheDocument();
   });
 
-  it("closes the commit context menu when clicking outside it", async () => {
+  it("starts a bisect from two selected commits, highlights the range and marks steps", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
+    const bisectState = {
+      active: true,
+      bad: "abc1234567890abcdef",
+      candidates: ["abc1234567890abcdef"],
+      current: "abc1234567890abcdef",
+      good: ["def4567890abcdefabc"],
+      remainingRevisions: 0,
+      remainingSteps: 0,
+      skipped: []
+    };
 
     render(<App rpcClient={rpcClient} />);
     dispatchHistoryResponse(rpcClient);
     await waitForCommitRows();
+    dispatchBisectResponse(latestRequest(rpcClient, "bisect.state").id, "bisect.state", {
+      active: false,
+      candidates: [],
+      good: [],
+      remainingRevisions: 0,
+      remainingSteps: 0,
+      skipped: []
+    });
+    dispatchGraphResponse(latestRequest(rpcClient, "graph.getLayout").id, [
+      { color: "#f56565", column: 0, hash: "abc1234567890abcdef", row: 0, x: 8, y: 18 },
+      { color: "#f56565", column: 0, hash: "def4567890abcdefabc", row: 1, x: 8, y: 54 }
+    ]);
+    expect(screen.queryByRole("region", { name: "Git Bisect" })).not.toBeInTheDocument();
 
-    await openContextMenu(user, screen.getAllByTestId("commit-row")[1]!);
-    expect(screen.getByRole("menu", { name: "Commit actions" })).toBeInTheDocument();
-
-    await user.click(screen.getByRole("main"));
-
-    expect(screen.queryByRole("menu", { name: "Commit actions" })).not.toBeInTheDocument();
-  });
-
-  it("posts commit context menu operations for the right-clicked commit and selected pair", async () => {
+    const rows = screen.getAllByTestId("commit-row");
+    fireEvent.click(rows[1]!, { metaKey: true });
+    await user.pointer({
+      keys: "[MouseRight]",
+      target: rows[1]!
+    });
+    await user.click(screen.getByRole("menuitem", { name: "Bisect Between Selected" }));
+    const startRequest = latestRequest(rpcClient, "bisect.start");
+    expect(startRequest).toEqual(
+      expect.objectContaining({ bad: "abc1234567890abcdef", good: "def4567890abcdefabc", repositoryId: "/repo", type: "bisect.start" })
+    );
+    rpcClient.post.mockClear();
+    dispatchBisectResponse(startRequest.id, "bisect.start", {
+      result: { message: "Bisecting: 0 revisions left to test after this (roughly 0 steps)", status: "ok" },
+      state: bisectState
+    });
+
+    expect(screen.getByText("Bisecting: 0 revisions left to test after this (roughly 0 steps)")).toBeInTheDocument();
+    expect(screen.getByRole("region", { name: "Git Bisect" })).toHaveTextContent(
+      "Bisecting at abc12345: 0 revisions left to test (roughly 0 steps)"
+    );
+    expect(document.querySelector('[data-hash="abc1234567890abcdef"]')).toHaveAttribute("data-highlighted", "true");
+    expect(document.querySelector('[data-hash="def4567890abcdefabc"]')).toHaveAttribute("data-highlighted", "false");
+    expect(rpcClient.post).toHaveBeenCalledWith(expect.objectContaining({ repositoryId: "/repo", type: "history.load" }));
+
+    await user.click(screen.getByRole("button", { name: "Bad" }));
+    const markRequest = latestRequest(rpcClient, "bisect.mark");
+    expect(markRequest).toEqual(expect.objectContaining({ repositoryId: "/repo", type: "bisect.mark", verdict: "bad" }));
+    expect(screen.getByRole("button", { name: "Reset Bisect" })).toBeDisabled();
+    dispatchBisectResponse(markRequest.id, "bisect.mark", {
+      result: { message: "abc12345 is the first bad commit", status: "ok" },
+      state: { ...bisectState, firstBad: "abc1234567890abcdef" }
+    });
+    expect(screen.getByRole("region", { name: "Git Bisect" })).toHaveTextContent("abc12345 is the first bad commit");
+
+    await user.click(screen.getByRole("button", { name: "Reset Bisect" }));
+    dispatchBisectResponse(latestRequest(rpcClient, "bisect.reset").id, "bisect.reset", {
+      result: { message: "Bisect reset", status: "ok" },
+      state: { active: false, candidates: [], good: [], remainingRevisions: 0, remainingSteps: 0, skipped: [] }
+    });
+
+    expect(screen.queryByRole("region", { name: "Git Bisect" })).not.toBeInTheDocument();
+    expect(document.querySelector('[data-hash="def4567890abcdefabc"]')).not.toHaveAttribute("data-highlighted");
+  });
+
+  it("closes the commit context menu when clicking outside it", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+
+    await openContextMenu(user, screen.getAllByTestId("commit-row")[1]!);
+    expect(screen.getByRole("menu", { name: "Commit actions" })).toBeInTheDocument();
+
+    await user.click(screen.getByRole("main"));
+
+    expect(screen.queryByRole("menu", { name: "Commit actions" })).not.toBeInTheDocument();
+  });
+
+  it("posts tag operations for the right-clicked commit", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    const commitRows = screen.getAllByTestId("commit-row");
+    await openContextMenu(user, commitRows[0]!);
+    expect(screen.getByRole("menuitem", { name: "Delete Tag" })).toHaveAttribute("aria-disabled", "true");
+    await user.click(screen.getByRole("menuitem", { name: "Create Tag" }));
+
+    expect(latestRequest(rpcClient, "git.createTag")).toEqual(expect.objectContaining({
+      hash: "abc1234567890abcdef",
+      repositoryId: "/repo",
+      type: "git.createTag"
+    }));
+  });
+
+  it("posts commit context menu operations for the right-clicked commit and selected pair", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
 
@@ -2896,6 +3770,106 @@ describe("App", () => {
     }));
   });
 
+  it("edits an interactive rebase plan, previews conflicts, and hands conflicts to the conflict banner", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    const commitRows = screen.getAllByTestId("commit-row");
+    await openContextMenu(user, commitRows[1]!);
+    await user.click(screen.getByRole("menuitem", { name: "Interactive Rebase..." }));
+    const loadRequest = latestRequest(rpcClient, "git.loadInteractiveRebase");
+    expect(loadRequest).toEqual(expect.objectContaining({
+      hashes: ["def4567890abcdefabc"],
+      repositoryId: "/repo",
+      type: "git.loadInteractiveRebase"
+    }));
+    dispatchInteractiveRebasePlanResponse(loadRequest.id);
+
+    const dialog = screen.getByRole("dialog", { name: "Interactive Rebase" });
+    await user.selectOptions(within(dialog).getByRole("combobox", { name: "Action for abc1234" }), "squash");
+    await user.click(within(dialog).getByRole("button", { name: "Check Conflicts" }));
+    const previewRequest = latestRequest(rpcClient, "git.previewInteractiveRebase");
+    expect(previewRequest.plan.entries.map((entry) => entry.action)).toEqual(["pick", "squash"]);
+    dispatchOperationResponse(previewRequest.id, "git.previewInteractiveRebase", {
+      message: "Rebase plan conflicts while applying abc1234.",
+      status: "conflict"
+    });
+    expect(within(dialog).getByText("Rebase plan conflicts while applying abc1234.")).toBeInTheDocument();
+
+    await user.click(within(dialog).getByRole("button", { name: "Start Rebase" }));
+    const rebaseRequest = latestRequest(rpcClient, "git.interactiveRebase");
+    expect(rebaseRequest).toEqual(expect.objectContaining({ plan: previewRequest.plan, repositoryId: "/repo" }));
+    dispatchOperationResponse(rebaseRequest.id, "git.interactiveRebase", {
+      message: "Interactive rebase has conflicts. Resolve all conflicted files, stage them, then continue from GUI Git History.",
+      status: "conflict"
+    });
+
+    expect(screen.queryByRole("dialog", { name: "Interactive Rebase" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Resolved and Staged" })).toBeInTheDocument();
+  });
+
+  it("merges branches and commits through the merge dialog and hands conflicts to the conflict banner", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient, {
+      branches: {
+        locals: [
+          { current: true, name: "main" },
+          { current: false, name: "feature/ui" }
+        ],
+        remotes: []
+      }
+    });
+    await waitForCommitRows();
+    rpcClient.post.mockClear();
+
+    const commitRows = screen.getAllByTestId("commit-row");
+    await openContextMenu(user, commitRows[1]!);
+    await user.click(screen.getByRole("menuitem", { name: "Merge into Current Branch..." }));
+    let dialog = screen.getByRole("dialog", { name: "Merge" });
+    await user.selectOptions(within(dialog).getByRole("combobox", { name: "Strategy" }), "ff-only");
+    await user.click(within(dialog).getByRole("button", { name: "Merge" }));
+    const commitMergeRequest = latestRequest(rpcClient, "git.merge");
+    expect(commitMergeRequest).toEqual(expect.objectContaining({
+      message: undefined,
+      mode: "ff-only",
+      repositoryId: "/repo",
+      source: "def4567890abcdefabc",
+      type: "git.merge"
+    }));
+    dispatchMergeResponse(commitMergeRequest.id, { message: "Merged def45678", status: "ok" });
+    expect(screen.queryByRole("dialog", { name: "Merge" })).not.toBeInTheDocument();
+    expect(rpcClient.post).toHaveBeenCalledWith(expect.objectContaining({ repositoryId: "/repo", type: "history.load" }));
+
+    await user.click(screen.getByRole("button", { name: "Branches" }));
+    await user.click(screen.getByRole("button", { name: "Merge feature/ui into current branch" }));
+    dialog = screen.getByRole("dialog", { name: "Merge" });
+    await user.selectOptions(within(dialog).getByRole("combobox", { name: "Strategy" }), "squash");
+    await user.type(within(dialog).getByRole("textbox", { name: "Message" }), "Add feature UI");
+    await user.click(within(dialog).getByRole("button", { name: "Merge" }));
+    const branchMergeRequest = latestRequest(rpcClient, "git.merge");
+    expect(branchMergeRequest).toEqual(expect.objectContaining({
+      message: "Add feature UI",
+      mode: "squash",
+      source: "feature/ui",
+      type: "git.merge"
+    }));
+    dispatchMergeResponse(branchMergeRequest.id, {
+      message: "Squash merge has conflicts. Resolve all conflicted files, stage them, then continue from GUI Git History.",
+      status: "conflict"
+    });
+
+    expect(screen.queryByRole("dialog", { name: "Merge" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Resolved and Staged" })).toBeInTheDocument();
+  });
+
   it("posts edit commit message only for editable commits", async () => {
     const user = userEvent.setup();
     const rpcClient = createTestRpcClient();
@@ -2918,6 +3892,59 @@ describe("App", () => {
       type: "git.editCommitMessage"
     }));
   });
+
+  it("loads the commit composer with the Changes tab and amends the last commit", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    await user.click(screen.getByRole("tab", { name: "Changes" }));
+    dispatchWorkingTreeResponse(latestRequest(rpcClient, "workingTree.load").id);
+    const composerRequest = latestRequest(rpcClient, "workingTree.loadCommitComposer");
+    expect(composerRequest).toEqual(expect.objectContaining({ repositoryId: "/repo" }));
+    dispatchCommitComposerResponse(composerRequest.id, {
+      coAuthors: [],
+      headMessage: "feat: previous",
+      repositoryId: "/repo",
+      templates: []
+    });
+
+    await user.click(await screen.findByRole("checkbox", { name: "Amend last commit" }));
+    await user.click(screen.getByRole("button", { name: "Amend" }));
+    expect(latestRequest(rpcClient, "workingTree.commit")).toEqual(expect.objectContaining({
+      amend: true,
+      message: "feat: previous"
+    }));
+  });
+
+  it("signs commits and amended messages after opting in from the changes panel", async () => {
+    const user = userEvent.setup();
+    const rpcClient = createTestRpcClient();
+
+    render(<App rpcClient={rpcClient} />);
+    dispatchHistoryResponse(rpcClient);
+    await waitForCommitRows();
+    await user.click(screen.getByRole("tab", { name: "Changes" }));
+    dispatchWorkingTreeResponse(latestRequest(rpcClient, "workingTree.load").id);
+    rpcClient.post.mockClear();
+
+    await user.click(await screen.findByRole("checkbox", { name: "Sign commit" }));
+    await user.type(screen.getByRole("textbox", { name: "Commit message" }), "feat: signed");
+    await user.click(screen.getByRole("button", { name: "Commit" }));
+    expect(latestRequest(rpcClient, "workingTree.commit")).toEqual(expect.objectContaining({
+      message: "feat: signed",
+      sign: true
+    }));
+
+    await openContextMenu(user, screen.getAllByTestId("commit-row")[0]!);
+    await user.click(screen.getByRole("menuitem", { name: "Edit Commit Message" }));
+    expect(latestRequest(rpcClient, "git.editCommitMessage")).toEqual(expect.objectContaining({
+      hash: "abc1234567890abcdef",
+      sign: true
+    }));
+  });
 });
 
 function createTestRpcClient(): RpcClient & { post: ReturnType<typeof vi.fn<(request: RpcRequest) => void>> } {
@@ -3037,6 +4064,29 @@ const defaultWorkingTree = {
   unstaged: []
 } satisfies WorkingTreeViewModel;
 
+const fileHistoryEntries = [
+  {
+    author: "Ada",
+    date: "2026-10-19 05:38:45 +0000",
+    deletions: 1,
+    filePath: "src/app/App.tsx",
+    hash: "abc1234567890abcdef",
+    insertions: 3,
+    message: "Wire real data",
+    shortHash: "abc1234"
+  },
+  {
+    author: "Grace",
+    date: "2026-10-18 09:00:00 +0000",
+    deletions: 0,
+    filePath: "src/App.tsx",
+    hash: "def5678900000000000",
+    insertions: 8,
+    message: "Add app shell",
+    shortHash: "def5678"
+  }
+];
+
 function createWorkingTree(repositoryId: string, path: string): WorkingTreeViewModel {
   return {
     branch: "main",
@@ -3119,6 +4169,7 @@ function dispatchWorkingTreeActionResponse(
     | "workingTree.discardFile"
     | "workingTree.stageAll"
     | "workingTree.stageFile"
+    | "workingTree.stageHunk"
     | "workingTree.unstageAll"
     | "workingTree.unstageFile",
   workingTree: WorkingTreeViewModel,
@@ -3144,6 +4195,40 @@ function dispatchWorkingTreeActionResponse(
   });
 }
 
+function dispatchFileDiffResponse(id: string): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "workingTree.getFileDiff",
+          payload: {
+            diff: {
+              binary: false,
+              filePath: "src/unstaged.ts",
+              hunks: [
+                {
+                  header: "@@ -1 +1 @@",
+                  lines: [
+                    { content: "old", kind: "removed", oldLineNumber: 1 },
+                    { content: "new", kind: "added", newLineNumber: 1 }
+                  ],
+                  newLines: 1,
+                  newStart: 1,
+                  oldLines: 1,
+                  oldStart: 1
+                }
+              ],
+              kind: "unstaged"
+            }
+          }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
 function dispatchStashDetailsResponse(
   id: string,
   stash: {
@@ -3202,7 +4287,12 @@ function dispatchErrorResponse(id: string, type: RpcResponse["type"], message: s
   });
 }
 
-function dispatchCommitMessageGenerateResponse(id: string, message: string): void {
+function dispatchCommitMessageGenerateResponse(
+  id: string,
+  message: string,
+  candidates?: readonly string[],
+  duplicateCount?: number
+): void {
   act(() => {
     window.dispatchEvent(
       new MessageEvent("message", {
@@ -3213,7 +4303,9 @@ function dispatchCommitMessageGenerateResponse(id: string, message: string): voi
           payload: {
             suggestion: {
               message
-            }
+            },
+            ...(candidates ? { candidates: candidates.map((candidate) => ({ message: candidate })) } : {}),
+            ...(duplicateCount ? { duplicateCount } : {})
           }
         } satisfies RpcResponse
       })
@@ -3221,6 +4313,44 @@ function dispatchCommitMessageGenerateResponse(id: string, message: string): voi
   });
 }
 
+function dispatchAiSummaryResponse(
+  id: string,
+  type: "aiSummary.commit" | "aiSummary.range",
+  summary: RpcPayloadByType["aiSummary.commit"]["summary"]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload: {
+            summary
+          }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchCommitMessageProgress(requestId: string, candidate: number, text: string): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          progress: {
+            candidate,
+            requestId,
+            text
+          },
+          type: "commitMessage.progress"
+        } satisfies BackendNotification
+      })
+    );
+  });
+}
+
 function dispatchSettingsResponse(
   id: string,
   fileViewMode: "tree" | "list",
@@ -3297,6 +4427,28 @@ function dispatchRemoteListResponse(id: string): void {
   });
 }
 
+function dispatchBranchOperationResponse(
+  id: string,
+  type: "branches.delete" | "branches.rename" | "branches.setUpstream",
+  message: string
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload: {
+            message,
+            status: "ok"
+          }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
 function dispatchRemoteOperationResponse(
   id: string,
   type: "remotes.add" | "remotes.delete" | "remotes.update",
@@ -3324,7 +4476,6 @@ function dispatchOperationResponse(
   type:
     | "diff.openCommitFile"
     | "diff.openCompareFile"
-    | "files.openHistory"
     | "files.openWorkingFile"
     | "git.abortOperation"
     | "git.advancedPull"
@@ -3338,14 +4489,16 @@ function dispatchOperationResponse(
     | "git.continueOperation"
     | "git.fetch"
     | "git.init"
+    | "git.interactiveRebase"
     | "git.operationState"
+    | "git.previewInteractiveRebase"
     | "git.pull"
     | "git.push"
     | "git.pushAllCommitsToHere"
     | "git.reset"
     | "git.revert"
     | "git.squashCommits",
-  result: { message: string; status: "cancelled" | "conflict" | "ok" } = {
+  result: { message: string; status: "cancelled" | "conflict" | "ok"; undoId?: string } = {
     message: "Git operation completed",
     status: "ok"
   }
@@ -3364,6 +4517,259 @@ function dispatchOperationResponse(
   });
 }
 
+function dispatchCommitComposerResponse(id: string, composer: CommitComposerViewModel): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "workingTree.loadCommitComposer",
+          payload: { composer }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchUndoResponse(id: string, result: RpcPayloadByType["operations.undo"]): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "operations.undo",
+          payload: result
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchGraphExportResponse(id: string, result: RpcPayloadByType["graph.export"]): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "graph.export",
+          payload: result
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchConflictListResponse(id: string, files: RpcPayloadByType["conflicts.list"]["files"]): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "conflicts.list",
+          payload: { files }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchConflictActionResponse(
+  id: string,
+  type: "conflicts.acceptOurs" | "conflicts.acceptTheirs" | "conflicts.markResolved",
+  payload: RpcPayloadByType["conflicts.markResolved"]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchWorktreeResponse<TType extends "worktrees.add" | "worktrees.list" | "worktrees.lock">(
+  id: string,
+  type: TType,
+  payload: RpcPayloadByType[TType]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload
+        } as RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchSubmoduleResponse<TType extends "submodules.list" | "submodules.update">(
+  id: string,
+  type: TType,
+  payload: RpcPayloadByType[TType]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload
+        } as RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchHostingResponse(
+  id: string,
+  type: "hosting.copyPermalink" | "hosting.openCommit",
+  result: RpcPayloadByType["hosting.openCommit"]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload: result
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchPullRequestActionResponse(
+  id: string,
+  type: "pullRequests.checkout" | "pullRequests.configureToken",
+  result: RpcPayloadByType["pullRequests.checkout"]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload: result
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchFileHistoryResponse(id: string, history: RpcPayloadByType["files.getHistory"]["history"]): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "files.getHistory",
+          payload: {
+            history
+          }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchReflogResponse<TType extends "reflog.checkout" | "reflog.list" | "reflog.reset">(
+  id: string,
+  type: TType,
+  payload: RpcPayloadByType[TType]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload
+        } as RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchBisectResponse<TType extends "bisect.mark" | "bisect.reset" | "bisect.start" | "bisect.state">(
+  id: string,
+  type: TType,
+  payload: RpcPayloadByType[TType]
+): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type,
+          payload
+        } as RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchMergeResponse(id: string, result: RpcPayloadByType["git.merge"]): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "git.merge",
+          payload: result
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
+function dispatchInteractiveRebasePlanResponse(id: string): void {
+  act(() => {
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        data: {
+          id,
+          ok: true,
+          type: "git.loadInteractiveRebase",
+          payload: {
+            plan: {
+              base: "base4567890abcdef12",
+              entries: [
+                { action: "pick", author: "Alice", hash: "def4567890abcdefabc", message: "Add parser", shortHash: "def4567" },
+                { action: "pick", author: "Alice", hash: "abc1234567890abcdef", message: "Add feature", shortHash: "abc1234" }
+              ],
+              head: "abc1234567890abcdef"
+            },
+            result: {
+              message: "Loaded 2 commits for interactive rebase",
+              status: "ok"
+            }
+          }
+        } satisfies RpcResponse
+      })
+    );
+  });
+}
+
 function dispatchAiProviderTestResponse(id: string): void {
   act(() => {
     window.dispatchEvent(
@@ -3411,7 +4817,7 @@ function dispatchCompareResponse(id: string): void {
   });
 }
 
-function dispatchGraphResponse(id: string, nodes: readonly GraphNodeViewModel[]): void {
+function dispatchGraphResponse(id: string, nodes: readonly GraphNodeViewModel[], startRow = 0): void {
   act(() => {
     window.dispatchEvent(
       new MessageEvent("message", {
@@ -3424,7 +4830,9 @@ function dispatchGraphResponse(id: string, nodes: readonly GraphNodeViewModel[])
               edges: [],
               nodes,
               width: 120
-            }
+            },
+            layoutId: "layout-1",
+            startRow
           }
         } satisfies RpcResponse
       })
@@ -2,42 +2,74 @@ import type { MouseEvent, ReactElement } from "react";
 import { useEffect, useMemo, useRef, useState } from "react";
 import type {
   BackendNotification,
+  BisectStateViewModel,
   BranchesViewModel,
+  BranchViewModel,
+  CommitComposerViewModel,
   CommitDetailsViewModel,
   CommitListItemViewModel,
+  ConflictFileViewModel,
   CurrentUserViewModel,
   FileChangeViewModel,
+  FileHistoryEntryViewModel,
+  FileHistoryLineRangeViewModel,
+  FileHistoryViewModel,
   FileViewMode,
+  GitMergeMode,
   GitResetMode,
+  GraphExportFormat,
+  GraphLayoutCursorViewModel,
   GraphLayoutViewModel,
   AiProviderSettingsViewModel,
   I18nMessages,
+  InteractiveRebasePlanViewModel,
   OperationResultViewModel,
+  PullRequestViewModel,
   RepositoryViewModel,
+  ReflogEntryViewModel,
   RpcRequest,
   RemoteViewModel,
   RpcResponse,
   StashEntryViewModel,
+  SubmoduleViewModel,
   WorkingTreeDiffKind,
-  WorkingTreeViewModel
+  WorkingTreeFileDiffViewModel,
+  WorkingTreeHunkSelectionViewModel,
+  WorkingTreeViewModel,
+  WorktreeViewModel
 } from "./rpcContract.generated";
 import type { RpcClient } from "./rpcClient";
 import { createTranslator } from "./i18n";
-import { CompareOverlay } from "../components/CompareOverlay/CompareOverlay";
+import { mergeGraphLayoutPage } from "./graphLayoutPage";
+import { parseHistorySearchQuery, type HistorySearchFilters } from "./historySearchQuery";
+import type { AiSummaryState } from "../components/AiSummary/AiSummary";
+import { CompareOverlay, type RangeSummaryKind } from "../components/CompareOverlay/CompareOverlay";
 import { CommitDetails } from "../components/CommitDetails/CommitDetails";
 import { CommitList, type CommitSelectionIntent } from "../components/CommitList/CommitList";
+import { BisectBanner } from "../components/BisectBanner/BisectBanner";
 import { ChangesPanel } from "../components/ChangesPanel/ChangesPanel";
 import { AiProviderPanel } from "../components/AiProviderPanel/AiProviderPanel";
 import { ConflictBanner } from "../components/ConflictBanner/ConflictBanner";
 import { ContextMenu, type ContextMenuAction } from "../components/ContextMenu/ContextMenu";
+import { FileHistory } from "../components/FileHistory/FileHistory";
 import { Header } from "../components/Header/Header";
+import { InteractiveRebaseEditor } from "../components/InteractiveRebaseEditor/InteractiveRebaseEditor";
+import { MergeDialog } from "../components/MergeDialog/MergeDialog";
 import { SplitPanels } from "../components/Layout/SplitPanels";
-import { NotificationCenter, type NotificationHistoryItem, type NotificationState } from "../components/NotificationCenter/NotificationCenter";
+import {
+  NotificationCenter,
+  type NotificationHistoryItem,
+  type NotificationState,
+  type NotificationUndoAction
+} from "../components/NotificationCenter/NotificationCenter";
 import { OperationToast } from "../components/OperationToast/OperationToast";
 import { PanelTabs, type RightPanelTab } from "../components/PanelTabs/PanelTabs";
+import { ReflogBrowser } from "../components/ReflogBrowser/ReflogBrowser";
 import { RemoteManager } from "../components/RemoteManager/RemoteManager";
 import { SettingsMenu, type SettingsMenuAction } from "../components/SettingsMenu/SettingsMenu";
 import { StashPanel } from "../components/StashPanel/StashPanel";
+import { SubmoduleManager } from "../components/SubmoduleManager/SubmoduleManager";
+import { WorktreeManager } from "../components/WorktreeManager/WorktreeManager";
 
 const emptyGraph: GraphLayoutViewModel = {
   edges: [],
@@ -50,9 +82,18 @@ const emptyBranches: BranchesViewModel = {
   remotes: []
 };
 
+const emptyPullRequests: PullRequestsState = {
+  items: [],
+  status: "idle"
+};
+
 const emptyRemotes: readonly RemoteViewModel[] = [];
+const emptyWorktrees: readonly WorktreeViewModel[] = [];
+const emptySubmodules: readonly SubmoduleViewModel[] = [];
+const emptyReflogEntries: readonly ReflogEntryViewModel[] = [];
 const emptyRepositories: readonly RepositoryViewModel[] = [];
 const emptyCompareFiles: readonly FileChangeViewModel[] = [];
+const emptyConflictFiles: readonly ConflictFileViewModel[] = [];
 const pageSize = 50;
 const minimumGraphViewportWidth = 120;
 const maximumGraphViewportWidth = 240;
@@ -78,9 +119,21 @@ type PrimaryGitOperationType = "git.advancedPull" | "git.advancedPush" | "git.fe
 type PromptGitOperationType = "git.checkout" | "git.clone" | "git.init";
 type ConflictGitOperationType = "git.abortOperation" | "git.continueOperation" | "git.operationState";
 type RemoteOperationType = "remotes.add" | "remotes.delete" | "remotes.update";
+type WorktreeActionType = "worktrees.add" | "worktrees.lock" | "worktrees.prune" | "worktrees.remove" | "worktrees.unlock";
+type SubmoduleActionType = "submodules.init" | "submodules.update";
+type ReflogActionType = "reflog.checkout" | "reflog.reset";
+type BisectActionType = "bisect.mark" | "bisect.reset" | "bisect.run" | "bisect.start";
+type BranchOperationType = "branches.delete" | "branches.rename" | "branches.setUpstream";
+type ConflictFileActionType = "conflicts.acceptOurs" | "conflicts.acceptTheirs" | "conflicts.markResolved";
 type SettingsOperationType = "settings.changeLanguage" | "settings.resetAutoStash";
 type ProxyOperationType = "proxy.configure" | "proxy.refresh";
-type FileOperationType = "diff.openCommitFile" | "diff.openCompareFile" | "files.openHistory" | "files.openWorkingFile";
+type HostingActionType = "hosting.copyPermalink" | "hosting.openCommit";
+type PullRequestActionType = "pullRequests.checkout" | "pullRequests.configureToken";
+type FileOperationType =
+  | "conflicts.openMergeEditor"
+  | "diff.openCommitFile"
+  | "diff.openCompareFile"
+  | "files.openWorkingFile";
 type WorkingTreeActionType =
   | "stash.create"
   | "stash.apply"
@@ -88,22 +141,31 @@ type WorkingTreeActionType =
   | "stash.pop"
   | "workingTree.commit"
   | "workingTree.discardFile"
+  | "workingTree.discardHunk"
   | "workingTree.stageAll"
   | "workingTree.stageFile"
+  | "workingTree.stageHunk"
   | "workingTree.unstageAll"
-  | "workingTree.unstageFile";
+  | "workingTree.unstageFile"
+  | "workingTree.unstageHunk";
 type ContextGitOperationType =
   | "git.cherryPick"
   | "git.compareCommits"
   | "git.copyHash"
   | "git.createBranchFromCommit"
+  | "git.createTag"
+  | "git.deleteTag"
   | "git.editCommitMessage"
+  | "git.interactiveRebase"
+  | "git.merge"
   | "git.pushAllCommitsToHere"
+  | "git.pushTags"
   | "git.reset"
   | "git.revert"
   | "git.squashCommits";
 type DistributiveOmit<T, TKey extends PropertyKey> = T extends unknown ? Omit<T, TKey> : never;
 type ContextGitOperationRequest = DistributiveOmit<Extract<RpcRequest, { type: ContextGitOperationType }>, "id">;
+type BisectActionRequest = DistributiveOmit<Extract<RpcRequest, { type: BisectActionType }>, "id" | "repositoryId">;
 
 const settingsMenuRequests = {
   changeLanguage: "settings.changeLanguage",
@@ -129,9 +191,25 @@ interface StashDetailsRequestMeta {
   stashRef: string;
 }
 
+interface PullRequestsState {
+  error?: string;
+  items: readonly PullRequestViewModel[];
+  status: "error" | "idle" | "loading" | "ready";
+}
+
+interface FileHistoryState {
+  error?: string;
+  filePath: string;
+  history?: FileHistoryViewModel;
+  lineRange?: FileHistoryLineRangeViewModel;
+  repositoryId: string;
+  status: "error" | "loading" | "ready";
+}
+
 interface OperationNotification {
   message: string;
   state: NotificationState;
+  undo?: NotificationUndoAction;
 }
 
 export function App({ rpcClient }: AppProps): ReactElement {
@@ -141,6 +219,11 @@ export function App({ rpcClient }: AppProps): ReactElement {
     y: 44
   });
   const [remoteManagerOpen, setRemoteManagerOpen] = useState(false);
+  const [worktreeManagerOpen, setWorktreeManagerOpen] = useState(false);
+  const [submoduleManagerOpen, setSubmoduleManagerOpen] = useState(false);
+  const [reflogBrowserOpen, setReflogBrowserOpen] = useState(false);
+  const [fileHistory, setFileHistory] = useState<FileHistoryState | undefined>();
+  const [pullRequests, setPullRequests] = useState<PullRequestsState>(emptyPullRequests);
   const [aiProviderPanelOpen, setAiProviderPanelOpen] = useState(false);
   const [testingAiProvider, setTestingAiProvider] = useState(false);
   const [compareOverlayOpen, setCompareOverlayOpen] = useState(false);
@@ -160,16 +243,38 @@ export function App({ rpcClient }: AppProps): ReactElement {
   const [commitDetails, setCommitDetails] = useState<CommitDetailsViewModel | undefined>();
   const [rightPanelTab, setRightPanelTab] = useState<RightPanelTab>("details");
   const [workingTree, setWorkingTree] = useState<WorkingTreeViewModel | undefined>();
+  const [workingTreeFileDiffs, setWorkingTreeFileDiffs] = useState<readonly WorkingTreeFileDiffViewModel[]>([]);
   const [commitMessageSuggestion, setCommitMessageSuggestion] = useState<{ message: string; requestId: string } | undefined>();
   const [generatingCommitMessage, setGeneratingCommitMessage] = useState(false);
+  const [commitMessageCandidates, setCommitMessageCandidates] = useState<readonly string[]>([]);
   const [commitMessageResetKey, setCommitMessageResetKey] = useState(0);
+  const [signCommits, setSignCommits] = useState(false);
+  const [commitComposer, setCommitComposer] = useState<CommitComposerViewModel | undefined>();
   const [fileViewMode, setFileViewMode] = useState<FileViewMode>(defaultFileViewMode);
   const [aiSettings, setAiSettings] = useState<AiProviderSettingsViewModel>(defaultAiSettings);
   const [i18nMessages, setI18nMessages] = useState<I18nMessages>(emptyI18nMessages);
   const [compareFiles, setCompareFiles] = useState<readonly FileChangeViewModel[]>(emptyCompareFiles);
   const [compareHashes, setCompareHashes] = useState<readonly [string, string] | undefined>();
+  const [aiSummary, setAiSummary] = useState<(AiSummaryState & { key: string }) | undefined>();
+  const [interactiveRebasePlan, setInteractiveRebasePlan] = useState<InteractiveRebasePlanViewModel | undefined>();
+  const [interactiveRebasePreview, setInteractiveRebasePreview] = useState<OperationResultViewModel | undefined>();
+  const [mergeSource, setMergeSource] = useState<string | undefined>();
   const [remotes, setRemotes] = useState<readonly RemoteViewModel[]>(emptyRemotes);
   const [remoteStatus, setRemoteStatus] = useState<OperationNotification | undefined>();
+  const [worktrees, setWorktrees] = useState<readonly WorktreeViewModel[]>(emptyWorktrees);
+  const [worktreeStatus, setWorktreeStatus] = useState<OperationNotification | undefined>();
+  const [worktreeInitialRef, setWorktreeInitialRef] = useState<string | undefined>();
+  const [activeWorktreeAction, setActiveWorktreeAction] = useState<WorktreeActionType | undefined>();
+  const [submodules, setSubmodules] = useState<readonly SubmoduleViewModel[]>(emptySubmodules);
+  const [submoduleStatus, setSubmoduleStatus] = useState<OperationNotification | undefined>();
+  const [activeSubmoduleAction, setActiveSubmoduleAction] = useState<SubmoduleActionType | undefined>();
+  const [reflogEntries, setReflogEntries] = useState<readonly ReflogEntryViewModel[]>(emptyReflogEntries);
+  const [reflogRefs, setReflogRefs] = useState<readonly string[]>(["HEAD"]);
+  const [selectedReflogRef, setSelectedReflogRef] = useState("HEAD");
+  const [reflogStatus, setReflogStatus] = useState<OperationNotification | undefined>();
+  const [activeReflogAction, setActiveReflogAction] = useState<ReflogActionType | undefined>();
+  const [bisectState, setBisectState] = useState<BisectStateViewModel | undefined>();
+  const [activeBisectAction, setActiveBisectAction] = useState<BisectActionType | undefined>();
   const [operationNotification, setOperationNotification] = useState<OperationNotification | undefined>();
   const [notificationCenterOpen, setNotificationCenterOpen] = useState(false);
   const [notificationHistory, setNotificationHistory] = useState<readonly NotificationHistoryItem[]>(() =>
@@ -179,12 +284,15 @@ export function App({ rpcClient }: AppProps): ReactElement {
   const [activeGitOperation, setActiveGitOperation] = useState<ConflictGitOperationType | ContextGitOperationType | PrimaryGitOperationType | PromptGitOperationType | undefined>();
   const [activeWorkingTreeOperation, setActiveWorkingTreeOperation] = useState<WorkingTreeActionType | undefined>();
   const [conflictOperation, setConflictOperation] = useState<OperationNotification | undefined>();
+  const [conflictFiles, setConflictFiles] = useState<readonly ConflictFileViewModel[]>(emptyConflictFiles);
+  const [activeConflictFileAction, setActiveConflictFileAction] = useState<ConflictFileActionType | undefined>();
   const commitsRef = useRef<readonly CommitListItemViewModel[]>([]);
   const hasMoreRef = useRef(false);
   const nextCursorRef = useRef<string | undefined>(undefined);
   const pendingHistoryRequestsRef = useRef(new Map<string, HistoryRequestMeta>());
   const selectedRepositoryIdRef = useRef<string | undefined>(undefined);
   const selectedBranchesRef = useRef<readonly string[]>([]);
+  const selectedReflogRefRef = useRef("HEAD");
   const searchQueryRef = useRef("");
   const authorQueryRef = useRef("");
   const loadingMoreRef = useRef(false);
@@ -192,11 +300,17 @@ export function App({ rpcClient }: AppProps): ReactElement {
   const selectedCommitHashesRef = useRef<readonly string[]>([]);
   const commitDetailsRef = useRef<CommitDetailsViewModel | undefined>(undefined);
   const latestGraphRequestIdRef = useRef<string | undefined>(undefined);
+  const graphLayoutCursorRef = useRef<GraphLayoutCursorViewModel | undefined>(undefined);
   const pendingStashDetailsRequestsRef = useRef(new Map<string, StashDetailsRequestMeta>());
   const currentStashDetailsRequestsRef = useRef(new Map<string, string>());
+  const pendingFileDiffRequestsRef = useRef(new Map<string, string>());
   const latestWorkingTreeLoadRef = useRef<{ id: string; repositoryId: string; sequence: number } | undefined>(undefined);
   const latestWorkingTreeActionRef = useRef<{ id: string; repositoryId: string; sequence: number } | undefined>(undefined);
   const latestCommitMessageGenerateRequestRef = useRef<{ id: string; repositoryId: string } | undefined>(undefined);
+  const pendingAiSummaryRequestRef = useRef<{ id: string; key: string } | undefined>(undefined);
+  const pendingFileHistoryRequestRef = useRef<string | undefined>(undefined);
+  const pendingPullRequestsRequestRef = useRef<string | undefined>(undefined);
+  const latestInteractiveRebasePreviewRef = useRef<string | undefined>(undefined);
   const workingTreeRequestSequenceRef = useRef(0);
   const appliedWorkingTreeSequenceRef = useRef(0);
   const rightPanelTabRef = useRef<RightPanelTab>("details");
@@ -230,12 +344,37 @@ export function App({ rpcClient }: AppProps): ReactElement {
     "git.compareCommits": tx("contextMenu.compareSelected", "Compare Commits"),
     "git.copyHash": tx("contextMenu.copyHash", "Copy Hash"),
     "git.createBranchFromCommit": tx("contextMenu.createBranch", "Create Branch"),
+    "git.createTag": tx("contextMenu.createTag", "Create Tag"),
+    "git.deleteTag": tx("contextMenu.deleteTag", "Delete Tag"),
     "git.editCommitMessage": tx("contextMenu.editCommitMessage", "Edit Commit Message"),
+    "git.interactiveRebase": tx("interactiveRebase.title", "Interactive Rebase"),
+    "git.merge": tx("mergeDialog.title", "Merge"),
     "git.pushAllCommitsToHere": tx("contextMenu.pushToCommit", "Push Commits"),
+    "git.pushTags": tx("contextMenu.pushTags", "Push Tags"),
     "git.reset": tx("contextMenu.reset", "Reset"),
     "git.revert": tx("contextMenu.revert", "Revert"),
     "git.squashCommits": tx("contextMenu.squashCommits", "Squash Commits")
   } as const satisfies Record<ContextGitOperationType, string>;
+  const signatureLabels = {
+    keyId: tx("signature.keyId", "Key {0}"),
+    signer: tx("signature.signer", "Signed by {0}"),
+    states: {
+      bad: tx("signature.bad", "Bad signature"),
+      good: tx("signature.good", "Verified signature"),
+      unknown: tx("signature.unknown", "Unverified signature")
+    }
+  };
+  const aiSummaryLabels = {
+    cancel: tx("aiSummary.cancel", "Cancel"),
+    copy: tx("aiSummary.copy", "Copy summary"),
+    generating: tx("aiSummary.generating", "Generating summary..."),
+    openDocument: tx("aiSummary.openDocument", "Open as Markdown document"),
+    title: tx("aiSummary.title", "AI summary")
+  };
+  const compareSummary =
+    compareHashes && (["releaseNotes", "pullRequest"] as const).some((kind) => aiSummary?.key === rangeSummaryKey(kind, ...compareHashes))
+      ? aiSummary
+      : undefined;
   const primaryGitOperationLabelsRef = useRef(primaryGitOperationLabels);
   const promptGitOperationLabelsRef = useRef(promptGitOperationLabels);
   const contextGitOperationLabelsRef = useRef(contextGitOperationLabels);
@@ -273,6 +412,21 @@ export function App({ rpcClient }: AppProps): ReactElement {
   const copyNotification = (notification: NotificationHistoryItem) => {
     void navigator.clipboard.writeText(formatNotificationHistory([notification]));
   };
+  const undoNotification = (notification: NotificationHistoryItem) => {
+    if (!notification.undo) {
+      return;
+    }
+
+    setNotificationHistory((current) =>
+      current.map((item) => (item.id === notification.id ? { ...item, undo: undefined } : item))
+    );
+    client?.post({
+      id: crypto.randomUUID(),
+      repositoryId: notification.undo.repositoryId,
+      type: "operations.undo",
+      undoId: notification.undo.id
+    });
+  };
   const operationResultNotification = (
     label: string,
     result: OperationResultViewModel
@@ -282,7 +436,8 @@ export function App({ rpcClient }: AppProps): ReactElement {
       : result.status === "cancelled"
         ? tx("status.cancelled", "{0} cancelled", label)
         : result.message,
-    state: result.status === "ok" ? "success" : "warning"
+    state: result.status === "ok" ? "success" : "warning",
+    ...notificationUndo(result, selectedRepositoryIdRef.current)
   });
   const operationResultNotificationRef = useRef(operationResultNotification);
   primaryGitOperationLabelsRef.current = primaryGitOperationLabels;
@@ -300,11 +455,10 @@ export function App({ rpcClient }: AppProps): ReactElement {
   };
   const reloadHistory = (options: { preserveSelection?: boolean; repositoryId?: string } = {}) => {
     requestHistory(client, pendingHistoryRequestsRef.current, {
-      author: trimFilter(authorQueryRef.current),
       branches: selectedBranchesRef.current.length > 0 ? selectedBranchesRef.current : undefined,
       preserveSelection: options.preserveSelection ?? false,
       repositoryId: options.repositoryId ?? selectedRepositoryIdRef.current,
-      search: trimFilter(searchQueryRef.current)
+      ...historySearchFilters(searchQueryRef.current, authorQueryRef.current)
     });
   };
   const loadWorkingTree = (repositoryId: string) => {
@@ -314,6 +468,32 @@ export function App({ rpcClient }: AppProps): ReactElement {
       sequence: nextWorkingTreeRequestSequence()
     };
   };
+  const loadFileHistory = (repositoryId: string, filePath: string, lineRange?: FileHistoryLineRangeViewModel) => {
+    const id = crypto.randomUUID();
+    pendingFileHistoryRequestRef.current = id;
+    setFileHistory({ filePath, lineRange, repositoryId, status: "loading" });
+    client?.post({
+      filePath,
+      id,
+      lineRange,
+      repositoryId,
+      type: "files.getHistory"
+    });
+  };
+  const loadPullRequests = () => {
+    if (!selectedRepositoryIdRef.current) {
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    pendingPullRequestsRequestRef.current = id;
+    setPullRequests((current) => ({ items: current.items, status: "loading" }));
+    client?.post({
+      id,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "pullRequests.list"
+    });
+  };
   const trackWorkingTreeAction = (id: string, repositoryId: string, type: WorkingTreeActionType) => {
     latestWorkingTreeActionRef.current = {
       id,
@@ -361,6 +541,19 @@ export function App({ rpcClient }: AppProps): ReactElement {
     return () => window.removeEventListener("pointerdown", closeContextMenu);
   }, [contextMenu.visible]);
 
+  useEffect(() => {
+    if (!conflictOperation || !selectedRepositoryIdRef.current) {
+      setConflictFiles(emptyConflictFiles);
+      return;
+    }
+
+    client?.post({
+      id: crypto.randomUUID(),
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "conflicts.list"
+    });
+  }, [client, conflictOperation]);
+
   useEffect(() => {
     if (!conflictOperation) {
       return;
@@ -378,6 +571,17 @@ export function App({ rpcClient }: AppProps): ReactElement {
     }
   }, [client, rightPanelTab, selectedRepositoryId]);
 
+  useEffect(() => {
+    if (rightPanelTab === "changes" && selectedRepositoryId) {
+      requestCommitComposer(client, selectedRepositoryId);
+    }
+  }, [client, rightPanelTab, selectedRepositoryId]);
+
+  useEffect(() => {
+    setBisectState(undefined);
+    requestBisectState(client, selectedRepositoryId);
+  }, [client, selectedRepositoryId]);
+
   useEffect(() => {
     const handleMessage = (event: MessageEvent<BackendNotification | RpcResponse>) => {
       const response = event.data;
@@ -407,6 +611,10 @@ export function App({ rpcClient }: AppProps): ReactElement {
           });
         }
 
+        if (response.type === "fileHistory.show") {
+          loadFileHistory(response.repositoryId, response.filePath, response.lineRange);
+        }
+
         if (response.type === "operation.completed") {
           notify({
             message: response.result.message,
@@ -421,10 +629,23 @@ export function App({ rpcClient }: AppProps): ReactElement {
           });
         }
 
+        if (
+          response.type === "commitMessage.progress" &&
+          latestCommitMessageGenerateRequestRef.current?.id === response.progress.requestId
+        ) {
+          const { candidate, text } = response.progress;
+          setCommitMessageCandidates((current) => {
+            const next = [...current];
+            next[candidate] = text;
+            return Array.from(next, (message) => message ?? "");
+          });
+        }
+
         return;
       }
 
       if (!response.ok) {
+        pendingFileDiffRequestsRef.current.delete(response.id);
         if (
           isStaleCommitMessageGenerateError(response, latestCommitMessageGenerateRequestRef.current, selectedRepositoryIdRef.current) ||
           isStaleWorkingTreeActionError(response, latestWorkingTreeActionRef.current, selectedRepositoryIdRef.current) ||
@@ -443,9 +664,13 @@ export function App({ rpcClient }: AppProps): ReactElement {
         if (isWorkingTreeActionType(response.type)) {
           setActiveWorkingTreeOperation(undefined);
         }
+        if (isConflictFileActionType(response.type)) {
+          setActiveConflictFileAction(undefined);
+        }
         if (response.type === "commitMessage.generate") {
           latestCommitMessageGenerateRequestRef.current = undefined;
           setGeneratingCommitMessage(false);
+          setCommitMessageCandidates([]);
         }
         if (response.type === "settings.testAiProvider") {
           setTestingAiProvider(false);
@@ -453,6 +678,46 @@ export function App({ rpcClient }: AppProps): ReactElement {
         if (isRemoteOperationType(response.type) || response.type === "remotes.list") {
           setRemoteStatus({ message: response.error.message, state: "error" });
         }
+        if (isWorktreeActionType(response.type) || response.type === "worktrees.list" || response.type === "worktrees.open") {
+          setActiveWorktreeAction(undefined);
+          setWorktreeStatus({ message: response.error.message, state: "error" });
+        }
+        if (isSubmoduleActionType(response.type) || response.type === "submodules.list") {
+          setActiveSubmoduleAction(undefined);
+          setSubmoduleStatus({ message: response.error.message, state: "error" });
+        }
+        if (isReflogActionType(response.type) || response.type === "reflog.list") {
+          setActiveReflogAction(undefined);
+          setReflogStatus({ message: response.error.message, state: "error" });
+        }
+        if (isBisectActionType(response.type)) {
+          setActiveBisectAction(undefined);
+        }
+        if (response.type === "aiSummary.commit" || response.type === "aiSummary.range") {
+          const summaryRequest = pendingAiSummaryRequestRef.current;
+          if (summaryRequest?.id !== response.id) {
+            return;
+          }
+
+          pendingAiSummaryRequestRef.current = undefined;
+          setAiSummary({ error: response.error.message, key: summaryRequest.key, status: "error" });
+        }
+        if (response.type === "files.getHistory") {
+          if (pendingFileHistoryRequestRef.current !== response.id) {
+            return;
+          }
+
+          pendingFileHistoryRequestRef.current = undefined;
+          setFileHistory((current) => current && { ...current, error: response.error.message, status: "error" });
+        }
+        if (response.type === "pullRequests.list") {
+          if (pendingPullRequestsRequestRef.current !== response.id) {
+            return;
+          }
+
+          pendingPullRequestsRequestRef.current = undefined;
+          setPullRequests({ error: response.error.message, items: [], status: "error" });
+        }
         notify({ message: response.error.message, state: "error" });
         return;
       }
@@ -504,6 +769,7 @@ export function App({ rpcClient }: AppProps): ReactElement {
         setCurrentUser(response.payload.currentUser);
         if (nextCommits.length === 0) {
           setGraph(emptyGraph);
+          graphLayoutCursorRef.current = undefined;
         }
         updateSelectedRepository(repositoryId);
 
@@ -535,7 +801,8 @@ export function App({ rpcClient }: AppProps): ReactElement {
           latestGraphRequestIdRef.current = requestGraphLayout(
             client,
             repositoryId,
-            nextCommits.map((historyCommit) => historyCommit.hash)
+            nextCommits.map((historyCommit) => historyCommit.hash),
+            graphLayoutCursorRef.current
           );
         }
       }
@@ -579,26 +846,98 @@ export function App({ rpcClient }: AppProps): ReactElement {
         }
         if (isCurrentOperation) {
           setWorkingTree(response.payload.workingTree);
-          setOperationNotification({
+          const notification: OperationNotification = {
             message: response.payload.result.message,
-            state: response.payload.result.status === "ok" ? "success" : "warning"
-          });
+            state: response.payload.result.status === "ok" ? "success" : "warning",
+            ...notificationUndo(response.payload.result, response.payload.workingTree.repositoryId)
+          };
+          if (notification.undo) {
+            notify(notification);
+          } else {
+            setOperationNotification(notification);
+          }
           if (response.type === "workingTree.commit" && response.payload.result.status === "ok") {
             setCommitMessageResetKey((key) => key + 1);
+            setCommitMessageCandidates([]);
             reloadHistory({ preserveSelection: true });
+            requestCommitComposer(client, response.payload.workingTree.repositoryId);
           }
         }
       }
 
+      if (
+        response.type === "workingTree.loadCommitComposer" &&
+        response.payload.composer.repositoryId === selectedRepositoryIdRef.current
+      ) {
+        setCommitComposer(response.payload.composer);
+      }
+
+      if (response.type === "workingTree.getFileDiff") {
+        const diffRepositoryId = pendingFileDiffRequestsRef.current.get(response.id);
+        pendingFileDiffRequestsRef.current.delete(response.id);
+        if (diffRepositoryId && diffRepositoryId === selectedRepositoryIdRef.current) {
+          setWorkingTreeFileDiffs((current) => [
+            ...current.filter(
+              (diff) => diff.kind !== response.payload.diff.kind || diff.filePath !== response.payload.diff.filePath
+            ),
+            response.payload.diff
+          ]);
+        }
+      }
+
+      if (
+        (response.type === "aiSummary.commit" || response.type === "aiSummary.range") &&
+        pendingAiSummaryRequestRef.current?.id === response.id
+      ) {
+        const { key } = pendingAiSummaryRequestRef.current;
+        pendingAiSummaryRequestRef.current = undefined;
+        setAiSummary({ key, status: "ready", summary: response.payload.summary });
+      }
+
+      if (response.type === "files.getHistory" && pendingFileHistoryRequestRef.current === response.id) {
+        pendingFileHistoryRequestRef.current = undefined;
+        setFileHistory((current) => current && { ...current, history: response.payload.history, status: "ready" });
+      }
+
+      if (response.type === "pullRequests.list" && pendingPullRequestsRequestRef.current === response.id) {
+        pendingPullRequestsRequestRef.current = undefined;
+        setPullRequests({ items: response.payload.pullRequests, status: "ready" });
+      }
+
+      if (isPullRequestActionResponse(response)) {
+        notify({
+          message: response.payload.message,
+          state: response.payload.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.status === "ok" && response.type === "pullRequests.checkout") {
+          reloadHistory({ preserveSelection: true });
+        }
+        if (response.payload.status === "ok" && response.type === "pullRequests.configureToken") {
+          loadPullRequests();
+        }
+      }
+
+      if (response.type === "aiSummary.open" && response.payload.status !== "ok") {
+        notify({ message: response.payload.message, state: "warning" });
+      }
+
       if (response.type === "commitMessage.generate") {
         const generateRequest = latestCommitMessageGenerateRequestRef.current;
         if (isCurrentCommitMessageGenerateResponse(generateRequest, response.id, selectedRepositoryIdRef.current)) {
           latestCommitMessageGenerateRequestRef.current = undefined;
           setGeneratingCommitMessage(false);
+          setCommitMessageCandidates(response.payload.candidates?.map((candidate) => candidate.message) ?? []);
           setCommitMessageSuggestion({
             message: response.payload.suggestion.message,
             requestId: response.id
           });
+          if (response.payload.duplicateCount) {
+            const candidateCount = (response.payload.candidates?.length ?? 1) + response.payload.duplicateCount;
+            notify({
+              message: tx("changes.duplicateCandidates", "{0} of {1} generated messages were duplicates and were merged", response.payload.duplicateCount, candidateCount),
+              state: "warning"
+            });
+          }
         }
       }
 
@@ -620,7 +959,9 @@ export function App({ rpcClient }: AppProps): ReactElement {
 
       if (response.type === "graph.getLayout") {
         if (response.id === latestGraphRequestIdRef.current) {
-          setGraph(response.payload.graph);
+          const page = response.payload;
+          setGraph((current) => mergeGraphLayoutPage(current, page));
+          graphLayoutCursorRef.current = { layoutId: page.layoutId, rowCount: page.startRow + page.graph.nodes.length };
         }
       }
 
@@ -645,6 +986,116 @@ export function App({ rpcClient }: AppProps): ReactElement {
         }
       }
 
+      if (response.type === "worktrees.list") {
+        setWorktrees(response.payload.worktrees);
+        setWorktreeStatus(undefined);
+      }
+
+      if (isWorktreeActionResponse(response)) {
+        setActiveWorktreeAction(undefined);
+        setWorktrees(response.payload.worktrees);
+        setWorktreeStatus({
+          message: response.payload.result.message,
+          state: response.payload.result.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.result.status === "ok" && response.type !== "worktrees.lock" && response.type !== "worktrees.unlock") {
+          reloadHistory({ preserveSelection: true });
+        }
+      }
+
+      if (response.type === "worktrees.open") {
+        setWorktreeStatus({
+          message: response.payload.message,
+          state: response.payload.status === "ok" ? "success" : "warning"
+        });
+      }
+
+      if (response.type === "submodules.list") {
+        setSubmodules(response.payload.submodules);
+        setSubmoduleStatus(undefined);
+      }
+
+      if (isSubmoduleActionResponse(response)) {
+        setActiveSubmoduleAction(undefined);
+        setSubmodules(response.payload.submodules);
+        setSubmoduleStatus({
+          message: response.payload.result.message,
+          state: response.payload.result.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.result.status === "ok" && response.type === "submodules.update") {
+          reloadHistory({ preserveSelection: true });
+        }
+      }
+
+      if (response.type === "reflog.list") {
+        selectedReflogRefRef.current = response.payload.ref;
+        setSelectedReflogRef(response.payload.ref);
+        setReflogEntries(response.payload.entries);
+        setReflogRefs(response.payload.refs);
+      }
+
+      if (isReflogActionResponse(response)) {
+        setActiveReflogAction(undefined);
+        setReflogStatus({
+          message: response.payload.message,
+          state: response.payload.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.status === "ok") {
+          requestReflog(client, selectedRepositoryIdRef.current, selectedReflogRefRef.current);
+          reloadHistory({ preserveSelection: true });
+        }
+      }
+
+      if (response.type === "bisect.state") {
+        setBisectState(response.payload);
+      }
+
+      if (response.type === "operations.undo") {
+        notify({
+          message: response.payload.message,
+          state: response.payload.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.status === "ok" && selectedRepositoryIdRef.current) {
+          reloadHistory({ preserveSelection: true });
+          loadWorkingTree(selectedRepositoryIdRef.current);
+        }
+      }
+
+      if (isBisectActionResponse(response)) {
+        setActiveBisectAction(undefined);
+        setBisectState(response.payload.state);
+        notify({
+          message: response.payload.result.message,
+          state: response.payload.result.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.result.status === "ok") {
+          reloadHistory({ preserveSelection: true });
+        }
+      }
+
+      if (response.type === "conflicts.list") {
+        setConflictFiles(response.payload.files);
+      }
+
+      if (isConflictFileActionResponse(response)) {
+        setActiveConflictFileAction(undefined);
+        setConflictFiles(response.payload.files);
+        notify({
+          message: response.payload.result.message,
+          state: response.payload.result.status === "ok" ? "success" : "warning"
+        });
+      }
+
+      if (isBranchOperationResponse(response)) {
+        notify({
+          message: response.payload.message,
+          state: response.payload.status === "ok" ? "success" : "warning"
+        });
+        if (response.payload.status === "ok") {
+          reloadHistory({ preserveSelection: true });
+        }
+      }
+
       if (isSettingsMenuOperationResponse(response)) {
         notify({
           message: response.payload.message,
@@ -655,7 +1106,14 @@ export function App({ rpcClient }: AppProps): ReactElement {
         }
       }
 
-      if (isFileOperationResponse(response)) {
+      if (response.type === "graph.export") {
+        notify({
+          message: response.payload.message,
+          state: response.payload.status === "ok" ? "success" : "warning"
+        });
+      }
+
+      if (isFileOperationResponse(response) || isHostingActionResponse(response)) {
         notify({
           message: response.payload.message,
           state: response.payload.status === "ok" ? "success" : "warning"
@@ -709,12 +1167,41 @@ export function App({ rpcClient }: AppProps): ReactElement {
         reloadHistory({ preserveSelection: true });
       }
 
+      if (response.type === "git.loadInteractiveRebase") {
+        if (response.payload.plan) {
+          setInteractiveRebasePreview(undefined);
+          setInteractiveRebasePlan(response.payload.plan);
+        } else {
+          notify({ message: response.payload.result.message, state: "warning" });
+        }
+      }
+
+      if (response.type === "git.previewInteractiveRebase" && response.id === latestInteractiveRebasePreviewRef.current) {
+        latestInteractiveRebasePreviewRef.current = undefined;
+        setInteractiveRebasePreview(response.payload);
+      }
+
       if (isContextGitOperationResponse(response)) {
         setActiveGitOperation(undefined);
         const result = getContextOperationResult(response);
         if (response.type === "git.compareCommits") {
           setCompareFiles(response.payload.files);
         }
+        if (response.type === "git.interactiveRebase") {
+          if (result.status === "cancelled") {
+            setInteractiveRebasePreview(result);
+          } else {
+            setInteractiveRebasePlan(undefined);
+          }
+        }
+        if (response.type === "git.merge") {
+          setMergeSource(undefined);
+        }
+        if (result.status === "conflict") {
+          setConflictOperation({ message: result.message, state: "warning" });
+          notify({ message: result.message, state: "warning" });
+          return;
+        }
         notify(operationResultNotificationRef.current(contextGitOperationLabelsRef.current[response.type], result));
         if (result.status === "ok" && response.type !== "git.copyHash" && response.type !== "git.compareCommits") {
           reloadHistory({ preserveSelection: true });
@@ -776,11 +1263,10 @@ export function App({ rpcClient }: AppProps): ReactElement {
     loadingMoreRef.current = true;
     requestHistory(client, pendingHistoryRequestsRef.current, {
       append: true,
-      author: trimFilter(authorQueryRef.current),
       branches: selectedBranchesRef.current.length > 0 ? selectedBranchesRef.current : undefined,
       cursor: nextCursorRef.current,
       repositoryId: selectedRepositoryIdRef.current,
-      search: trimFilter(searchQueryRef.current)
+      ...historySearchFilters(searchQueryRef.current, authorQueryRef.current)
     });
   };
 
@@ -791,6 +1277,7 @@ export function App({ rpcClient }: AppProps): ReactElement {
     setCommits([]);
     commitsRef.current = [];
     setGraph(emptyGraph);
+    graphLayoutCursorRef.current = undefined;
     updateSelectedCommitHashes([]);
     setSelectedCommitHash(undefined);
     selectedCommitHashRef.current = undefined;
@@ -802,20 +1289,25 @@ export function App({ rpcClient }: AppProps): ReactElement {
     appliedWorkingTreeSequenceRef.current = 0;
     latestCommitMessageGenerateRequestRef.current = undefined;
     setGeneratingCommitMessage(false);
+    setCommitMessageCandidates([]);
+    pendingAiSummaryRequestRef.current = undefined;
+    setAiSummary(undefined);
+    pendingPullRequestsRequestRef.current = undefined;
+    setPullRequests(emptyPullRequests);
+    setInteractiveRebasePlan(undefined);
+    setMergeSource(undefined);
     requestHistory(client, pendingHistoryRequestsRef.current, {
-      author: trimFilter(authorQueryRef.current),
       repositoryId,
-      search: trimFilter(searchQueryRef.current)
+      ...historySearchFilters(searchQueryRef.current, authorQueryRef.current)
     });
   };
 
   const changeBranches = (branchNames: readonly string[]) => {
     updateSelectedBranches(branchNames);
     requestHistory(client, pendingHistoryRequestsRef.current, {
-      author: trimFilter(authorQueryRef.current),
       branches: branchNames.length > 0 ? branchNames : undefined,
       repositoryId: selectedRepositoryIdRef.current,
-      search: trimFilter(searchQueryRef.current)
+      ...historySearchFilters(searchQueryRef.current, authorQueryRef.current)
     });
   };
 
@@ -875,7 +1367,40 @@ export function App({ rpcClient }: AppProps): ReactElement {
       return;
     }
 
-    const request = contextActionRequest(action, selectedRepositoryIdRef.current, contextHash, selectedHashesInHistoryOrder);
+    if (action === "bisect") {
+      if (selectedPair.length === 2) {
+        sendBisectAction({ bad: selectedPair[0]!, good: selectedPair[1]!, type: "bisect.start" });
+      }
+      return;
+    }
+
+    if (action === "merge") {
+      setMergeSource(contextHash);
+      return;
+    }
+
+    if (action === "createWorktree") {
+      openWorktreeManager(contextHash);
+      return;
+    }
+
+    if (action === "interactiveRebase") {
+      client?.post({
+        hashes: selectedHashesInHistoryOrder,
+        id: crypto.randomUUID(),
+        repositoryId: selectedRepositoryIdRef.current,
+        type: "git.loadInteractiveRebase"
+      });
+      return;
+    }
+
+    const request = contextActionRequest(
+      action,
+      selectedRepositoryIdRef.current,
+      contextHash,
+      selectedHashesInHistoryOrder,
+      signCommits
+    );
     if (request) {
       startContextOperation(request);
     }
@@ -890,6 +1415,30 @@ export function App({ rpcClient }: AppProps): ReactElement {
       return;
     }
 
+    if (action === "manageWorktrees") {
+      openWorktreeManager(undefined);
+      return;
+    }
+
+    if (action === "manageSubmodules") {
+      setSubmoduleStatus(undefined);
+      setSubmoduleManagerOpen(true);
+      requestSubmodules(client, selectedRepositoryIdRef.current);
+      return;
+    }
+
+    if (action === "browseReflog") {
+      setReflogStatus(undefined);
+      setReflogBrowserOpen(true);
+      requestReflog(client, selectedRepositoryIdRef.current, selectedReflogRefRef.current);
+      return;
+    }
+
+    if (action === "exportGraphSvg" || action === "exportGraphPng") {
+      exportGraph(action === "exportGraphPng" ? "png" : "svg");
+      return;
+    }
+
     if (action === "configureAiProvider") {
       requestSettings(client);
       setAiProviderPanelOpen(true);
@@ -905,6 +1454,21 @@ export function App({ rpcClient }: AppProps): ReactElement {
     }
   };
 
+  const exportGraph = (format: GraphExportFormat) => {
+    const repositoryId = selectedRepositoryIdRef.current;
+    if (!repositoryId || commitsRef.current.length === 0) {
+      return;
+    }
+
+    client?.post({
+      format,
+      hashes: commitsRef.current.map((commit) => commit.hash),
+      id: crypto.randomUUID(),
+      repositoryId,
+      type: "graph.export"
+    });
+  };
+
   const openCommitFileDiff = (filePath: string) => {
     if (!selectedRepositoryIdRef.current || !selectedCommitHashRef.current) {
       return;
@@ -973,6 +1537,43 @@ export function App({ rpcClient }: AppProps): ReactElement {
     }
   };
 
+  const loadWorkingTreeFileDiff = (filePath: string, kind: WorkingTreeDiffKind) => {
+    if (!selectedRepositoryIdRef.current) {
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    pendingFileDiffRequestsRef.current.set(id, selectedRepositoryIdRef.current);
+    client?.post({
+      filePath,
+      id,
+      kind,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "workingTree.getFileDiff"
+    });
+  };
+
+  const stageWorkingTreeHunk = (selection: WorkingTreeHunkSelectionViewModel) => {
+    const request = postWorkingTreeHunkAction(client, selectedRepositoryIdRef.current, "workingTree.stageHunk", selection);
+    if (request) {
+      trackWorkingTreeAction(request.id, request.repositoryId, "workingTree.stageHunk");
+    }
+  };
+
+  const unstageWorkingTreeHunk = (selection: WorkingTreeHunkSelectionViewModel) => {
+    const request = postWorkingTreeHunkAction(client, selectedRepositoryIdRef.current, "workingTree.unstageHunk", selection);
+    if (request) {
+      trackWorkingTreeAction(request.id, request.repositoryId, "workingTree.unstageHunk");
+    }
+  };
+
+  const discardWorkingTreeHunk = (selection: WorkingTreeHunkSelectionViewModel) => {
+    const request = postWorkingTreeHunkAction(client, selectedRepositoryIdRef.current, "workingTree.discardHunk", selection);
+    if (request) {
+      trackWorkingTreeAction(request.id, request.repositoryId, "workingTree.discardHunk");
+    }
+  };
+
   const stageAllWorkingTreeChanges = () => {
     const request = postWorkingTreeBulkAction(client, selectedRepositoryIdRef.current, "workingTree.stageAll");
     if (request) {
@@ -1057,7 +1658,7 @@ export function App({ rpcClient }: AppProps): ReactElement {
     trackWorkingTreeAction(id, selectedRepositoryIdRef.current, "stash.create");
   };
 
-  const commitWorkingTree = (message: string) => {
+  const commitWorkingTree = (message: string, amend: boolean) => {
     if (!selectedRepositoryIdRef.current || activeGitOperation || activeWorkingTreeOperation || conflictOperation) {
       return;
     }
@@ -1067,12 +1668,14 @@ export function App({ rpcClient }: AppProps): ReactElement {
       id,
       message,
       repositoryId: selectedRepositoryIdRef.current,
+      ...(signCommits ? { sign: true } : {}),
+      ...(amend ? { amend } : {}),
       type: "workingTree.commit"
     });
     trackWorkingTreeAction(id, selectedRepositoryIdRef.current, "workingTree.commit");
   };
 
-  const generateCommitMessage = (): string | undefined => {
+  const generateCommitMessage = (candidates: number): string | undefined => {
     if (!selectedRepositoryIdRef.current || generatingCommitMessage) {
       return;
     }
@@ -1083,7 +1686,9 @@ export function App({ rpcClient }: AppProps): ReactElement {
       repositoryId: selectedRepositoryIdRef.current
     };
     setGeneratingCommitMessage(true);
+    setCommitMessageCandidates([]);
     client?.post({
+      ...(candidates > 1 ? { candidates } : {}),
       id,
       repositoryId: selectedRepositoryIdRef.current,
       type: "commitMessage.generate"
@@ -1091,16 +1696,58 @@ export function App({ rpcClient }: AppProps): ReactElement {
     return id;
   };
 
+  const cancelCommitMessageGeneration = () => {
+    const generateRequest = latestCommitMessageGenerateRequestRef.current;
+    if (!generateRequest) {
+      return;
+    }
+
+    latestCommitMessageGenerateRequestRef.current = undefined;
+    setGeneratingCommitMessage(false);
+    setCommitMessageCandidates([]);
+    client?.post({
+      generateRequestId: generateRequest.id,
+      id: crypto.randomUUID(),
+      type: "commitMessage.cancel"
+    });
+  };
+
   const openFileHistory = (filePath: string) => {
     if (!selectedRepositoryIdRef.current) {
       return;
     }
 
+    loadFileHistory(selectedRepositoryIdRef.current, filePath);
+  };
+
+  const closeFileHistory = () => {
+    pendingFileHistoryRequestRef.current = undefined;
+    setFileHistory(undefined);
+  };
+
+  const compareFileHistoryRevisions = (older: FileHistoryEntryViewModel, newer: FileHistoryEntryViewModel) => {
+    if (!fileHistory) {
+      return;
+    }
+
     client?.post({
-      filePath,
+      filePath: newer.filePath,
+      fromFilePath: older.filePath,
+      fromHash: older.hash,
       id: crypto.randomUUID(),
-      repositoryId: selectedRepositoryIdRef.current,
-      type: "files.openHistory"
+      repositoryId: fileHistory.repositoryId,
+      toHash: newer.hash,
+      type: "diff.openCompareFile"
+    });
+  };
+
+  const showFileHistoryCommit = (hash: string) => {
+    closeFileHistory();
+    requestHistory(client, pendingHistoryRequestsRef.current, {
+      author: trimFilter(authorQueryRef.current),
+      branches: selectedBranchesRef.current.length > 0 ? selectedBranchesRef.current : undefined,
+      repositoryId: fileHistory?.repositoryId ?? selectedRepositoryIdRef.current,
+      revealHash: hash
     });
   };
 
@@ -1120,6 +1767,108 @@ export function App({ rpcClient }: AppProps): ReactElement {
     });
   };
 
+  const requestAiSummary = (
+    key: string,
+    request: DistributiveOmit<Extract<RpcRequest, { type: "aiSummary.commit" | "aiSummary.range" }>, "id">
+  ) => {
+    const id = crypto.randomUUID();
+    pendingAiSummaryRequestRef.current = { id, key };
+    setAiSummary({ key, status: "loading" });
+    client?.post({ ...request, id });
+  };
+
+  const explainCommit = () => {
+    if (!selectedRepositoryIdRef.current || !commitDetails) {
+      return;
+    }
+
+    requestAiSummary(commitSummaryKey(commitDetails.hash), {
+      hash: commitDetails.hash,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "aiSummary.commit"
+    });
+  };
+
+  const summarizeCompareRange = (kind: RangeSummaryKind) => {
+    const [fromHash, toHash] = compareHashes ?? [];
+    if (!selectedRepositoryIdRef.current || !fromHash || !toHash) {
+      return;
+    }
+
+    requestAiSummary(rangeSummaryKey(kind, fromHash, toHash), {
+      fromHash,
+      kind,
+      repositoryId: selectedRepositoryIdRef.current,
+      toHash,
+      type: "aiSummary.range"
+    });
+  };
+
+  const sendHostingAction = (type: HostingActionType) => {
+    if (!selectedRepositoryIdRef.current || !commitDetails) {
+      return;
+    }
+
+    client?.post({
+      hash: commitDetails.hash,
+      id: crypto.randomUUID(),
+      repositoryId: selectedRepositoryIdRef.current,
+      type
+    });
+  };
+
+  const checkoutPullRequest = (pullRequest: PullRequestViewModel) => {
+    if (!selectedRepositoryIdRef.current || activeGitOperation || conflictOperation) {
+      return;
+    }
+
+    client?.post({
+      id: crypto.randomUUID(),
+      number: pullRequest.number,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "pullRequests.checkout"
+    });
+  };
+
+  const configurePullRequestToken = () => {
+    if (!selectedRepositoryIdRef.current) {
+      return;
+    }
+
+    client?.post({
+      id: crypto.randomUUID(),
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "pullRequests.configureToken"
+    });
+  };
+
+  const cancelAiSummary = () => {
+    const summaryRequest = pendingAiSummaryRequestRef.current;
+    if (!summaryRequest) {
+      return;
+    }
+
+    pendingAiSummaryRequestRef.current = undefined;
+    setAiSummary(undefined);
+    client?.post({
+      id: crypto.randomUUID(),
+      summaryRequestId: summaryRequest.id,
+      type: "aiSummary.cancel"
+    });
+  };
+
+  const copyAiSummary = (markdown: string) => {
+    void navigator.clipboard.writeText(markdown);
+  };
+
+  const openAiSummary = (markdown: string) => {
+    client?.post({
+      id: crypto.randomUUID(),
+      markdown,
+      type: "aiSummary.open"
+    });
+  };
+
   const updateFileViewMode = (mode: FileViewMode) => {
     setFileViewMode(mode);
     client?.post({
@@ -1142,40 +1891,181 @@ export function App({ rpcClient }: AppProps): ReactElement {
     });
     setAiProviderPanelOpen(false);
   };
-  const closeAiProviderPanel = () => {
-    setAiProviderPanelOpen(false);
-    setTestingAiProvider(false);
+  const closeAiProviderPanel = () => {
+    setAiProviderPanelOpen(false);
+    setTestingAiProvider(false);
+  };
+
+  const testAiProvider = (ai: AiProviderSettingsViewModel) => {
+    setTestingAiProvider(true);
+    client?.post({
+      id: crypto.randomUUID(),
+      settings: ai,
+      type: "settings.testAiProvider"
+    });
+  };
+
+  const addRemote = (name: string, url: string) => {
+    postRemoteOperation(client, selectedRepositoryIdRef.current, {
+      name,
+      type: "remotes.add",
+      url
+    });
+  };
+
+  const updateRemote = (name: string, url: string) => {
+    postRemoteOperation(client, selectedRepositoryIdRef.current, {
+      name,
+      type: "remotes.update",
+      url
+    });
+  };
+
+  const deleteRemote = (name: string) => {
+    postRemoteOperation(client, selectedRepositoryIdRef.current, {
+      name,
+      type: "remotes.delete"
+    });
+  };
+
+  const openWorktreeManager = (ref: string | undefined) => {
+    setWorktreeInitialRef(ref);
+    setWorktreeStatus(undefined);
+    setWorktreeManagerOpen(true);
+    requestWorktrees(client, selectedRepositoryIdRef.current);
+  };
+
+  const sendWorktreeAction = (
+    input:
+      | { newBranch?: string; path: string; ref: string; type: "worktrees.add" }
+      | { path: string; type: "worktrees.lock" | "worktrees.remove" | "worktrees.unlock" }
+      | { type: "worktrees.prune" }
+  ) => {
+    const repositoryId = selectedRepositoryIdRef.current;
+    if (!repositoryId) {
+      return;
+    }
+
+    setActiveWorktreeAction(input.type);
+    client?.post({
+      ...input,
+      id: crypto.randomUUID(),
+      repositoryId
+    });
+  };
+
+  const openWorktree = (path: string) => {
+    const repositoryId = selectedRepositoryIdRef.current;
+    if (!repositoryId) {
+      return;
+    }
+
+    client?.post({
+      id: crypto.randomUUID(),
+      path,
+      repositoryId,
+      type: "worktrees.open"
+    });
+  };
+
+  const sendSubmoduleAction = (type: SubmoduleActionType, path: string | undefined) => {
+    const repositoryId = selectedRepositoryIdRef.current;
+    if (!repositoryId) {
+      return;
+    }
+
+    setActiveSubmoduleAction(type);
+    client?.post({
+      id: crypto.randomUUID(),
+      path,
+      repositoryId,
+      type
+    });
+  };
+
+  const openSubmodule = (submodule: SubmoduleViewModel) => {
+    setSubmoduleManagerOpen(false);
+    changeRepository(submodule.rootPath);
+  };
+
+  const selectReflogRef = (ref: string) => {
+    selectedReflogRefRef.current = ref;
+    setSelectedReflogRef(ref);
+    requestReflog(client, selectedRepositoryIdRef.current, ref);
+  };
+
+  const createBranchFromReflogEntry = (entry: ReflogEntryViewModel) => {
+    if (!selectedRepositoryIdRef.current) {
+      return;
+    }
+
+    startContextOperation({
+      hash: entry.hash,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "git.createBranchFromCommit"
+    });
   };
 
-  const testAiProvider = (ai: AiProviderSettingsViewModel) => {
-    setTestingAiProvider(true);
+  const sendReflogAction = (type: ReflogActionType, entry: ReflogEntryViewModel) => {
+    const repositoryId = selectedRepositoryIdRef.current;
+    if (!repositoryId) {
+      return;
+    }
+
+    setActiveReflogAction(type);
     client?.post({
+      hash: entry.hash,
       id: crypto.randomUUID(),
-      settings: ai,
-      type: "settings.testAiProvider"
+      repositoryId,
+      selector: entry.selector,
+      type
     });
   };
 
-  const addRemote = (name: string, url: string) => {
-    postRemoteOperation(client, selectedRepositoryIdRef.current, {
+  const renameBranch = (name: string, newName: string) => {
+    postBranchOperation(client, selectedRepositoryIdRef.current, {
       name,
-      type: "remotes.add",
-      url
+      newName,
+      type: "branches.rename"
     });
   };
 
-  const updateRemote = (name: string, url: string) => {
-    postRemoteOperation(client, selectedRepositoryIdRef.current, {
-      name,
-      type: "remotes.update",
-      url
+  const deleteBranch = (branch: BranchViewModel, force: boolean) => {
+    postBranchOperation(client, selectedRepositoryIdRef.current, {
+      force: force || undefined,
+      name: branch.name,
+      remote: branch.remote,
+      type: "branches.delete"
     });
   };
 
-  const deleteRemote = (name: string) => {
-    postRemoteOperation(client, selectedRepositoryIdRef.current, {
+  const setBranchUpstream = (name: string, upstream: string | undefined) => {
+    postBranchOperation(client, selectedRepositoryIdRef.current, {
       name,
-      type: "remotes.delete"
+      type: "branches.setUpstream",
+      upstream
+    });
+  };
+
+  const openMergeDialog = (source: string) => {
+    if (!selectedRepositoryIdRef.current || activeGitOperation || conflictOperation) {
+      return;
+    }
+
+    setMergeSource(source);
+  };
+
+  const startMerge = (mode: GitMergeMode, message: string | undefined) => {
+    if (!selectedRepositoryIdRef.current || !mergeSource) {
+      return;
+    }
+
+    startContextOperation({
+      message,
+      mode,
+      repositoryId: selectedRepositoryIdRef.current,
+      source: mergeSource,
+      type: "git.merge"
     });
   };
 
@@ -1221,6 +2111,22 @@ export function App({ rpcClient }: AppProps): ReactElement {
     });
   };
 
+  const sendConflictFileAction = (type: ConflictFileActionType | "conflicts.openMergeEditor", filePath: string) => {
+    if (!selectedRepositoryIdRef.current || activeGitOperation || activeConflictFileAction) {
+      return;
+    }
+
+    if (type !== "conflicts.openMergeEditor") {
+      setActiveConflictFileAction(type);
+    }
+    client?.post({
+      filePath,
+      id: crypto.randomUUID(),
+      repositoryId: selectedRepositoryIdRef.current,
+      type
+    });
+  };
+
   const sendConflictOperation = (type: ConflictGitOperationType) => {
     if (!selectedRepositoryIdRef.current || activeGitOperation) {
       return;
@@ -1236,6 +2142,55 @@ export function App({ rpcClient }: AppProps): ReactElement {
     });
   };
 
+  const previewInteractiveRebase = (plan: InteractiveRebasePlanViewModel) => {
+    if (!selectedRepositoryIdRef.current) {
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    latestInteractiveRebasePreviewRef.current = id;
+    setInteractiveRebasePreview(undefined);
+    client?.post({
+      id,
+      plan,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "git.previewInteractiveRebase"
+    });
+  };
+
+  const startInteractiveRebase = (plan: InteractiveRebasePlanViewModel) => {
+    if (!selectedRepositoryIdRef.current) {
+      return;
+    }
+
+    latestInteractiveRebasePreviewRef.current = undefined;
+    startContextOperation({
+      plan,
+      repositoryId: selectedRepositoryIdRef.current,
+      type: "git.interactiveRebase"
+    });
+  };
+
+  const clearInteractiveRebasePreview = () => {
+    latestInteractiveRebasePreviewRef.current = undefined;
+    setInteractiveRebasePreview(undefined);
+  };
+
+  const sendBisectAction = (request: BisectActionRequest) => {
+    const repositoryId = selectedRepositoryIdRef.current;
+    if (!repositoryId || activeBisectAction) {
+      return;
+    }
+
+    setActiveBisectAction(request.type);
+    notify({ message: tx("status.running", "{0} is running...", tx("bisect.label", "Git Bisect")), state: "running" });
+    client?.post({
+      ...request,
+      id: crypto.randomUUID(),
+      repositoryId
+    });
+  };
+
   const startContextOperation = (request: ContextGitOperationRequest) => {
     if (activeGitOperation || conflictOperation) {
       return;
@@ -1257,15 +2212,33 @@ export function App({ rpcClient }: AppProps): ReactElement {
         branches={branches}
         gitOperationBusy={gitOperationBusy}
         graphVisible={graphVisible}
+        pullRequests={pullRequests.items}
+        pullRequestsError={pullRequests.error}
+        pullRequestsLoading={pullRequests.status === "loading"}
         labels={{
           allBranches: tx("allBranches", "All branches"),
+          aheadBehind: tx("header.aheadBehind", "{0} ahead, {1} behind {2}"),
           authorMe: tx("authorFilterMe", "Me"),
           authorPlaceholder: tx("authorFilterPlaceholder", "Author"),
           branch: tx("header.branch", "Branches"),
+          cancelRenameBranch: tx("header.cancelRenameBranch", "Cancel renaming {0}"),
+          deleteBranch: tx("header.deleteBranch", "Delete {0} (Command/Ctrl+click to force delete)"),
+          newBranchName: tx("header.newBranchName", "New name for {0}"),
+          noUpstream: tx("header.noUpstream", "No upstream"),
+          openPullRequest: tx("pullRequests.open", "Open #{0} in browser"),
+          pullRequestCheckout: tx("pullRequests.checkout", "Checkout"),
+          pullRequestDraft: tx("pullRequests.draft", "Draft"),
+          pullRequests: tx("pullRequests.title", "Pull Requests"),
+          pullRequestsEmpty: tx("pullRequests.empty", "No open pull requests"),
+          pullRequestsLoading: tx("pullRequests.loading", "Loading pull requests..."),
+          pullRequestToken: tx("pullRequests.configureToken", "Set access token"),
+          reloadPullRequests: tx("pullRequests.reload", "Reload pull requests"),
+          renameBranch: tx("header.renameBranch", "Rename {0}"),
           checkout: tx("gitOperations.checkout", "Checkout"),
           clone: tx("gitOperations.clone", "Clone"),
           fetch: tx("gitOperations.fetch", "Fetch"),
           filterAuthor: tx("header.filterAuthor", "Filter author"),
+          mergeBranch: tx("header.mergeBranch", "Merge {0} into current branch"),
           graph: tx("graph.toggle", "Graph"),
           hideGraph: tx("graph.hide", "Hide Git Graph"),
           pull: tx("gitOperations.pull", "Pull"),
@@ -1275,11 +2248,18 @@ export function App({ rpcClient }: AppProps): ReactElement {
           refresh: tx("refreshTooltip", "Refresh"),
           repository: tx("header.repository", "Repository"),
           searchCommits: tx("header.searchCommits", "Search commits"),
+          searchHelp: tx(
+            "header.searchHelp",
+            "Filter with path:, author:, committer:, since:, until:, content:, regex: and merges:only|no, e.g. path:src/ author:alice since:2w"
+          ),
           searchPlaceholder: tx("placeholderCommitMessage", "Search commits"),
           selectedBranches: tx("header.selectedBranches", "{0} branches"),
+          setUpstream: tx("header.setUpstream", "Set upstream for {0}"),
           settings: tx("gitOperations.settings", "Settings"),
           notifications: tx("notifications.title", "Notifications"),
-          showGraph: tx("graph.show", "Show Git Graph")
+          showGraph: tx("graph.show", "Show Git Graph"),
+          submodulesOf: tx("header.submodulesOf", "Submodules of {0}"),
+          worktreesOf: tx("header.worktreesOf", "Worktrees of {0}")
         }}
         currentUser={currentUser}
         onAdvancedPull={() => startGitOperation("git.advancedPull")}
@@ -1287,9 +2267,14 @@ export function App({ rpcClient }: AppProps): ReactElement {
         onAuthorChange={changeAuthor}
         onBranchSelectionChange={changeBranches}
         onCheckout={() => startPromptGitOperation("git.checkout")}
+        onCheckoutPullRequest={checkoutPullRequest}
         onClone={() => startPromptGitOperation("git.clone")}
+        onConfigurePullRequestToken={configurePullRequestToken}
+        onDeleteBranch={deleteBranch}
         onGraphToggle={() => setGraphVisible((visible) => !visible)}
         onFetch={() => startGitOperation("git.fetch")}
+        onLoadPullRequests={loadPullRequests}
+        onMergeBranch={openMergeDialog}
         onPull={() => startGitOperation("git.pull")}
         onPush={() => startGitOperation("git.push")}
         onNotificationsClick={() => {
@@ -1305,8 +2290,10 @@ export function App({ rpcClient }: AppProps): ReactElement {
         onRefresh={() => {
           reloadHistory({ preserveSelection: true });
         }}
+        onRenameBranch={renameBranch}
         onRepositoryChange={changeRepository}
         onSearchChange={changeSearch}
+        onSetBranchUpstream={setBranchUpstream}
         onSettingsClick={(event) => {
           const rect = event.currentTarget.getBoundingClientRect();
           setContextMenu((current) => ({ ...current, visible: false }));
@@ -1325,16 +2312,56 @@ export function App({ rpcClient }: AppProps): ReactElement {
         notificationsOpen={notificationCenterOpen}
         settingsOpen={settingsMenu.visible}
       />
+      {bisectState?.active ? (
+        <BisectBanner
+          busy={activeBisectAction !== undefined}
+          labels={{
+            bad: tx("bisect.bad", "Bad"),
+            firstBad: tx("bisect.firstBad", "{0} is the first bad commit"),
+            good: tx("bisect.good", "Good"),
+            label: tx("bisect.label", "Git Bisect"),
+            progress: tx("bisect.progress", "Bisecting at {0}: {1} revisions left to test (roughly {2} steps)"),
+            reset: tx("bisect.reset", "Reset Bisect"),
+            run: tx("bisect.run", "Run..."),
+            skip: tx("bisect.skip", "Skip"),
+            waiting: tx("bisect.waiting", "Bisecting: mark a good and a bad commit to narrow the range")
+          }}
+          onMark={(verdict) => sendBisectAction({ type: "bisect.mark", verdict })}
+          onReset={() => sendBisectAction({ type: "bisect.reset" })}
+          onRun={() => sendBisectAction({ type: "bisect.run" })}
+          state={bisectState}
+        />
+      ) : null}
       {conflictOperation ? (
         <ConflictBanner
+          busy={Boolean(activeConflictFileAction)}
+          files={conflictFiles}
           labels={{
             abort: tx("conflict.abort", "Abort"),
+            acceptOurs: tx("conflict.acceptOurs", "Accept Ours"),
+            acceptTheirs: tx("conflict.acceptTheirs", "Accept Theirs"),
             continue: tx("conflict.resolvedAndStaged", "Resolved and Staged"),
-            label: tx("conflict.label", "Git Conflict")
+            files: tx("conflict.files", "Conflicted files"),
+            label: tx("conflict.label", "Git Conflict"),
+            markResolved: tx("conflict.markResolved", "Mark Resolved"),
+            openMergeEditor: tx("conflict.openMergeEditor", "Open Merge Editor"),
+            statuses: {
+              addedByThem: tx("conflict.statuses.addedByThem", "Added by them"),
+              addedByUs: tx("conflict.statuses.addedByUs", "Added by us"),
+              bothAdded: tx("conflict.statuses.bothAdded", "Both added"),
+              bothDeleted: tx("conflict.statuses.bothDeleted", "Both deleted"),
+              bothModified: tx("conflict.statuses.bothModified", "Both modified"),
+              deletedByThem: tx("conflict.statuses.deletedByThem", "Deleted by them"),
+              deletedByUs: tx("conflict.statuses.deletedByUs", "Deleted by us")
+            }
           }}
           message={conflictOperation.message}
           onAbort={() => sendConflictOperation("git.abortOperation")}
+          onAcceptOurs={(filePath) => sendConflictFileAction("conflicts.acceptOurs", filePath)}
+          onAcceptTheirs={(filePath) => sendConflictFileAction("conflicts.acceptTheirs", filePath)}
           onContinue={() => sendConflictOperation("git.continueOperation")}
+          onMarkResolved={(filePath) => sendConflictFileAction("conflicts.markResolved", filePath)}
+          onOpenMergeEditor={(filePath) => sendConflictFileAction("conflicts.openMergeEditor", filePath)}
         />
       ) : null}
       {showRepositoryPrompt ? (
@@ -1375,12 +2402,14 @@ export function App({ rpcClient }: AppProps): ReactElement {
               selectCommit: tx("graph.selectCommit", "Select commit {0} in graph")
             }}
             graphVisible={graphVisible}
+            highlightedHashes={bisectState?.active ? bisectState.candidates : undefined}
             onCommitContextMenu={openCommitContextMenu}
             onCommitSelect={selectCommit}
             onGraphNodeSelect={selectGraphNode}
             onLoadMore={loadMoreCommits}
             selectedHash={selectedCommitHash}
             selectedHashes={selectedCommitHashes}
+            signatureLabels={signatureLabels}
           />
         }
         right={
@@ -1409,30 +2438,60 @@ export function App({ rpcClient }: AppProps): ReactElement {
                     openDiff: tx("files.openDiff", "Open diff for {0}"),
                     openFile: tx("files.openFile", "Open file {0}"),
                     openFileHistory: tx("files.openFileHistory", "Open file history for {0}"),
+                    submodule: tx("files.submodule", "submodule"),
+                    submoduleModified: tx("files.submoduleModified", "Submodule has modified content"),
+                    submoduleRewound: tx("files.submoduleRewound", "Submodule rewound past these commits"),
                     tree: tx("files.tree", "Tree"),
                     treeView: tx("files.treeView", "Tree view")
                   },
-                  selectCommit: tx("selectCommit", "Select a commit to view details.")
+                  copyPermalink: tx("commitDetails.copyPermalink", "Copy permalink"),
+                  explainCommit: tx("aiSummary.explainCommit", "Explain commit"),
+                  openOnRemote: tx("commitDetails.openOnRemote", "Open on remote"),
+                  selectCommit: tx("selectCommit", "Select a commit to view details."),
+                  signature: signatureLabels,
+                  summary: aiSummaryLabels
                 }}
+                onCopyPermalink={() => sendHostingAction("hosting.copyPermalink")}
+                onCancelSummary={cancelAiSummary}
+                onCopySummary={copyAiSummary}
+                onExplainCommit={explainCommit}
                 onFileViewModeChange={updateFileViewMode}
                 onOpenFile={openWorkingFile}
                 onOpenFileDiff={openCommitFileDiff}
                 onOpenFileHistory={openFileHistory}
+                onOpenOnRemote={() => sendHostingAction("hosting.openCommit")}
+                onOpenSummary={openAiSummary}
+                summary={commitDetails && aiSummary?.key === commitSummaryKey(commitDetails.hash) ? aiSummary : undefined}
               />
             ) : rightPanelTab === "changes" ? (
               <ChangesPanel
+                commitComposer={commitComposer?.repositoryId === selectedRepositoryId ? commitComposer : undefined}
+                commitMessageCandidates={commitMessageCandidates}
                 commitMessageResetKey={commitMessageResetKey}
                 commitMessageSuggestion={commitMessageSuggestion}
+                currentUser={currentUser}
+                fileDiffs={workingTreeFileDiffs}
                 fileViewMode={fileViewMode}
                 generatingCommitMessage={generatingCommitMessage}
                 labels={{
+                  addTrailer: tx("changes.addTrailer", "Add trailer"),
+                  aheadBehind: tx("header.aheadBehind", "{0} ahead, {1} behind {2}"),
+                  amendCommit: tx("changes.amendCommit", "Amend"),
+                  amendLastCommit: tx("changes.amendLastCommit", "Amend last commit"),
                   binary: tx("files.binary", "binary"),
                   branch: tx("header.branch", "Branch"),
+                  cancelGeneration: tx("changes.cancelGeneration", "Cancel"),
+                  candidate: tx("changes.candidate", "Option {0}"),
+                  candidateCount: tx("changes.candidateCount", "Candidates"),
                   changes: tx("changes.unstaged", "Changes"),
                   collapseDirectory: tx("files.collapseDirectory", "Collapse {0}"),
                   commit: tx("changes.commit", "Commit"),
                   commitMessage: tx("changes.commitMessage", "Commit message"),
+                  conflict: tx("changes.conflict", "conflict"),
                   discard: `${tx("changes.discard", "Discard")} {0}`,
+                  discardHunk: tx("changes.discardHunk", "Discard hunk {1} in {0}"),
+                  discardLines: tx("changes.discardLines", "Discard selected lines in hunk {1} of {0}"),
+                  emptySubject: tx("changes.emptySubject", "The first line must contain the commit subject"),
                   expandDirectory: tx("files.expandDirectory", "Expand {0}"),
                   generate: tx("changes.generateCommitMessage", "Generate"),
                   generateCommitMessageGenerating: tx("changes.generateCommitMessageGenerating", "Generating..."),
@@ -1441,33 +2500,62 @@ export function App({ rpcClient }: AppProps): ReactElement {
                     "Still generating. Large staged changes can take a while."
                   ),
                   generateCommitMessageStatus: tx("changes.generateCommitMessageStatus", "Generating commit message..."),
+                  hideChanges: tx("changes.hideChanges", "Hide changes in {0}"),
+                  hunk: tx("changes.hunk", "Hunk {1} in {0}"),
                   list: tx("files.list", "List"),
                   listView: tx("files.listView", "List view"),
+                  loadingChanges: tx("changes.loadingChanges", "Loading changes..."),
+                  missingBlankLine: tx("changes.missingBlankLine", "Separate the subject from the body with a blank line"),
+                  noTextChanges: tx("changes.noTextChanges", "No text changes to stage by hunk"),
                   openDiff: tx("files.openDiff", "Open diff for {0}"),
                   openFile: tx("files.openFile", "Open file {0}"),
                   refreshChanges: tx("changes.refresh", "Refresh Changes"),
+                  removeTrailer: tx("changes.removeTrailer", "Remove {0} trailer"),
                   repository: tx("header.repository", "Repository"),
+                  showChanges: tx("changes.showChanges", "Show changes in {0}"),
+                  signCommit: tx("changes.signCommit", "Sign commit"),
+                  signCommitConfigured: tx("changes.signCommitConfigured", "Signed by commit.gpgSign"),
                   stage: `${tx("changes.stage", "Stage")} {0}`,
                   stageAll: tx("changes.stageAll", "Stage All"),
                   stagedChanges: tx("changes.staged", "Staged Changes"),
+                  stageHunk: tx("changes.stageHunk", "Stage hunk {1} in {0}"),
+                  stageLines: tx("changes.stageLines", "Stage selected lines in hunk {1} of {0}"),
+                  subjectTooLong: tx("changes.subjectTooLong", "Subject is longer than {0} characters"),
+                  submodule: tx("files.submodule", "submodule"),
+                  submoduleModified: tx("files.submoduleModified", "Submodule has modified content"),
+                  submoduleRewound: tx("files.submoduleRewound", "Submodule rewound past these commits"),
+                  template: tx("changes.template", "Insert template"),
+                  trailerKey: tx("changes.trailerKey", "Trailer"),
+                  trailerValue: tx("changes.trailerValue", "{0} value"),
                   tree: tx("files.tree", "Tree"),
                   treeView: tx("files.treeView", "Tree view"),
                   unstage: `${tx("changes.unstage", "Unstage")} {0}`,
-                  unstageAll: tx("changes.unstageAll", "Unstage All")
+                  unstageAll: tx("changes.unstageAll", "Unstage All"),
+                  unstageHunk: tx("changes.unstageHunk", "Unstage hunk {1} in {0}"),
+                  unstageLines: tx("changes.unstageLines", "Unstage selected lines in hunk {1} of {0}"),
+                  useCandidate: tx("changes.useCandidate", "Use"),
+                  useCandidateLabel: tx("changes.useCandidateLabel", "Use option {0}")
                 }}
                 operationBusy={gitOperationBusy}
                 repository={selectedRepository}
+                signCommit={signCommits}
+                onCancelCommitMessageGeneration={cancelCommitMessageGeneration}
                 onCommit={commitWorkingTree}
                 onDiscardFile={discardWorkingTreeFile}
+                onDiscardHunk={discardWorkingTreeHunk}
                 onFileViewModeChange={updateFileViewMode}
                 onGenerateCommitMessage={generateCommitMessage}
+                onLoadFileDiff={loadWorkingTreeFileDiff}
                 onOpenFile={openWorkingTreeFile}
                 onOpenFileDiff={openWorkingTreeFileDiff}
                 onRefresh={refreshWorkingTree}
+                onSignCommitChange={setSignCommits}
                 onStageAll={stageAllWorkingTreeChanges}
                 onStageFile={stageWorkingTreeFile}
+                onStageHunk={stageWorkingTreeHunk}
                 onUnstageAll={unstageAllWorkingTreeChanges}
                 onUnstageFile={unstageWorkingTreeFile}
+                onUnstageHunk={unstageWorkingTreeHunk}
                 workingTree={workingTree}
               />
             ) : (
@@ -1503,17 +2591,25 @@ export function App({ rpcClient }: AppProps): ReactElement {
         />
       )}
       <ContextMenu
+        canDeleteTags={commits.find((commit) => commit.hash === contextMenu.hash)?.refs.some((ref) => ref.type === "tag") ?? false}
         canEditCommitMessage={commits.find((commit) => commit.hash === contextMenu.hash)?.canEditMessage ?? false}
         canSquashCommits={canSquashSelectedCommits(selectedCommitHashes)}
         labels={{
+          bisect: tx("contextMenu.bisect", "Bisect Between Selected"),
           cherryPick: tx("contextMenu.cherryPick", "Cherry Pick"),
           compare: tx("contextMenu.compareSelected", "Compare Selected"),
           compareSelectedCount: tx("contextMenu.compareSelectedCount", "Compare Selected ({0})"),
           compareSelectedProgress: tx("contextMenu.compareSelectedProgress", "Compare Selected ({0}/2)"),
           copyHash: tx("contextMenu.copyHash", "Copy Hash"),
           createBranch: tx("contextMenu.createBranch", "Create Branch"),
+          createTag: tx("contextMenu.createTag", "Create Tag"),
+          createWorktree: tx("contextMenu.createWorktree", "Create Worktree Here..."),
+          deleteTag: tx("contextMenu.deleteTag", "Delete Tag"),
           editCommitMessage: tx("contextMenu.editCommitMessage", "Edit Commit Message"),
+          interactiveRebase: tx("contextMenu.interactiveRebase", "Interactive Rebase..."),
           menuLabel: tx("contextMenu.menuLabel", "Commit actions"),
+          merge: tx("contextMenu.merge", "Merge into Current Branch..."),
+          pushTags: tx("contextMenu.pushTags", "Push Tags"),
           pushToCommit: tx("contextMenu.pushToCommit", "Push All Commits to Here"),
           resetHard: tx("contextMenu.resetHard", "Reset Hard"),
           resetMixed: tx("contextMenu.resetMixed", "Reset Mixed"),
@@ -1530,10 +2626,15 @@ export function App({ rpcClient }: AppProps): ReactElement {
       />
       <SettingsMenu
         labels={{
+          browseReflog: tx("settingsMenu.browseReflog", "Browse Reflog"),
           changeLanguage: tx("settingsMenu.changeLanguage", "Change Language"),
           configureAiProvider: tx("settingsMenu.configureAiProvider", "Configure AI Provider"),
           configureProxy: tx("settingsMenu.configureProxy", "Configure Proxy"),
+          exportGraphPng: tx("settingsMenu.exportGraphPng", "Export Graph as PNG"),
+          exportGraphSvg: tx("settingsMenu.exportGraphSvg", "Export Graph as SVG"),
           manageRemotes: tx("settingsMenu.manageRemotes", "Manage Remotes"),
+          manageSubmodules: tx("settingsMenu.manageSubmodules", "Manage Submodules"),
+          manageWorktrees: tx("settingsMenu.manageWorktrees", "Manage Worktrees"),
           refreshProxy: tx("settingsMenu.refreshProxy", "Refresh Proxy"),
           resetStash: tx("settingsMenu.resetStash", "Reset Auto Stash Preference"),
         }}
@@ -1571,6 +2672,129 @@ export function App({ rpcClient }: AppProps): ReactElement {
         remotes={remotes}
         status={remoteStatus ? { kind: remoteStatusKind(remoteStatus.state), message: remoteStatus.message } : undefined}
       />
+      <WorktreeManager
+        busy={activeWorktreeAction !== undefined}
+        initialRef={worktreeInitialRef}
+        labels={{
+          actions: tx("worktreeManager.actions", "Actions"),
+          addButton: tx("worktreeManager.addButton", "Add Worktree"),
+          badges: {
+            current: tx("worktreeManager.badges.current", "current"),
+            locked: tx("worktreeManager.badges.locked", "locked"),
+            main: tx("worktreeManager.badges.main", "main"),
+            prunable: tx("worktreeManager.badges.prunable", "prunable")
+          },
+          branch: tx("worktreeManager.branch", "Branch"),
+          buttons: {
+            lock: tx("worktreeManager.buttons.lock", "Lock"),
+            open: tx("worktreeManager.buttons.open", "Open"),
+            remove: tx("worktreeManager.buttons.remove", "Remove"),
+            unlock: tx("worktreeManager.buttons.unlock", "Unlock")
+          },
+          close: tx("worktreeManager.close", "Close Worktree Manager"),
+          description: tx(
+            "worktreeManager.description",
+            "Check out branches or commits side by side in linked worktrees of the current repository."
+          ),
+          detached: tx("worktreeManager.detached", "detached at"),
+          empty: tx("worktreeManager.empty", "No worktrees found"),
+          newBranchPlaceholder: tx("worktreeManager.newBranchPlaceholder", "New branch (optional)"),
+          path: tx("worktreeManager.path", "Path"),
+          pathPlaceholder: tx("worktreeManager.pathPlaceholder", "Worktree path (e.g. ../hotfix)"),
+          prune: tx("worktreeManager.prune", "Prune"),
+          refPlaceholder: tx("worktreeManager.refPlaceholder", "Branch or commit"),
+          title: tx("worktreeManager.title", "Worktree Manager")
+        }}
+        onAddWorktree={(path, ref, newBranch) => sendWorktreeAction({ newBranch, path, ref, type: "worktrees.add" })}
+        onClose={() => setWorktreeManagerOpen(false)}
+        onLockWorktree={(path) => sendWorktreeAction({ path, type: "worktrees.lock" })}
+        onOpenWorktree={openWorktree}
+        onPruneWorktrees={() => sendWorktreeAction({ type: "worktrees.prune" })}
+        onRemoveWorktree={(path) => sendWorktreeAction({ path, type: "worktrees.remove" })}
+        onUnlockWorktree={(path) => sendWorktreeAction({ path, type: "worktrees.unlock" })}
+        open={worktreeManagerOpen}
+        status={worktreeStatus ? { kind: remoteStatusKind(worktreeStatus.state), message: worktreeStatus.message } : undefined}
+        worktrees={worktrees}
+      />
+      <SubmoduleManager
+        busy={activeSubmoduleAction !== undefined}
+        labels={{
+          actions: tx("submoduleManager.actions", "Actions"),
+          buttons: {
+            init: tx("submoduleManager.buttons.init", "Init"),
+            open: tx("submoduleManager.buttons.open", "Open"),
+            update: tx("submoduleManager.buttons.update", "Update")
+          },
+          close: tx("submoduleManager.close", "Close Submodule Manager"),
+          commit: tx("submoduleManager.commit", "Commit"),
+          description: tx("submoduleManager.description", "Initialize, update and open the submodules of the current repository."),
+          empty: tx("submoduleManager.empty", "No submodules found"),
+          path: tx("submoduleManager.path", "Path"),
+          states: {
+            conflict: tx("submoduleManager.states.conflict", "conflict"),
+            current: tx("submoduleManager.states.current", "current"),
+            modified: tx("submoduleManager.states.modified", "modified"),
+            uninitialized: tx("submoduleManager.states.uninitialized", "not initialized")
+          },
+          title: tx("submoduleManager.title", "Submodule Manager"),
+          updateAll: tx("submoduleManager.updateAll", "Update All")
+        }}
+        onClose={() => setSubmoduleManagerOpen(false)}
+        onInitSubmodule={(path) => sendSubmoduleAction("submodules.init", path)}
+        onOpenSubmodule={openSubmodule}
+        onUpdateSubmodule={(path) => sendSubmoduleAction("submodules.update", path)}
+        open={submoduleManagerOpen}
+        status={submoduleStatus ? { kind: remoteStatusKind(submoduleStatus.state), message: submoduleStatus.message } : undefined}
+        submodules={submodules}
+      />
+      <ReflogBrowser
+        busy={activeReflogAction !== undefined || activeGitOperation !== undefined}
+        entries={reflogEntries}
+        labels={{
+          buttons: {
+            checkout: tx("reflogBrowser.buttons.checkout", "Checkout"),
+            createBranch: tx("reflogBrowser.buttons.createBranch", "Branch"),
+            reset: tx("reflogBrowser.buttons.reset", "Reset")
+          },
+          close: tx("reflogBrowser.close", "Close Reflog Browser"),
+          description: tx("reflogBrowser.description", "Recover lost commits from where HEAD and branches have pointed before."),
+          empty: tx("reflogBrowser.empty", "No reflog entries found"),
+          ref: tx("reflogBrowser.ref", "Reflog"),
+          title: tx("reflogBrowser.title", "Reflog")
+        }}
+        onCheckoutEntry={(entry) => sendReflogAction("reflog.checkout", entry)}
+        onClose={() => setReflogBrowserOpen(false)}
+        onCreateBranch={createBranchFromReflogEntry}
+        onResetEntry={(entry) => sendReflogAction("reflog.reset", entry)}
+        onSelectRef={selectReflogRef}
+        open={reflogBrowserOpen}
+        refs={reflogRefs}
+        selectedRef={selectedReflogRef}
+        status={reflogStatus ? { kind: remoteStatusKind(reflogStatus.state), message: reflogStatus.message } : undefined}
+      />
+      <FileHistory
+        error={fileHistory?.error}
+        filePath={fileHistory?.history?.filePath ?? fileHistory?.filePath ?? ""}
+        history={fileHistory?.history}
+        labels={{
+          close: tx("fileHistory.close", "Close File History"),
+          compare: tx("fileHistory.compare", "Compare Selected"),
+          description: tx("fileHistory.description", "Select two revisions to compare them."),
+          empty: tx("fileHistory.empty", "No history found"),
+          fileTitle: tx("fileHistory.fileTitle", "File History: {0}"),
+          lineTitle: tx("fileHistory.lineTitle", "Line History: {0}"),
+          loading: tx("fileHistory.loading", "Loading history..."),
+          renamedFrom: tx("fileHistory.renamedFrom", "as {0}"),
+          selectRevision: tx("fileHistory.selectRevision", "Select {0}"),
+          showCommit: tx("fileHistory.showCommit", "Show Commit")
+        }}
+        lineRange={fileHistory?.lineRange}
+        loading={fileHistory?.status === "loading"}
+        onClose={closeFileHistory}
+        onCompare={compareFileHistoryRevisions}
+        onShowCommit={showFileHistoryCommit}
+        open={fileHistory !== undefined}
+      />
       <AiProviderPanel
         labels={{
           apiHost: tx("aiProviderPanel.apiHost", "API host"),
@@ -1616,16 +2840,79 @@ export function App({ rpcClient }: AppProps): ReactElement {
             success: tx("notifications.states.success", "Success"),
             warning: tx("notifications.states.warning", "Warning")
           },
-          title: tx("notifications.title", "Notifications")
+          title: tx("notifications.title", "Notifications"),
+          undo: tx("notifications.undo", "Undo operation")
         }}
         notifications={notificationHistory}
         onClear={clearNotifications}
         onClose={() => setNotificationCenterOpen(false)}
         onCopyNotification={copyNotification}
         onShowUnreadCountChange={setShowNotificationCount}
+        onUndoNotification={undoNotification}
         open={notificationCenterOpen}
         showUnreadCount={showNotificationCount}
       />
+      <InteractiveRebaseEditor
+        busy={activeGitOperation === "git.interactiveRebase"}
+        labels={{
+          action: tx("interactiveRebase.action", "Action"),
+          actionFor: tx("interactiveRebase.actionFor", "Action for {0}"),
+          actions: {
+            drop: tx("interactiveRebase.actions.drop", "Drop"),
+            edit: tx("interactiveRebase.actions.edit", "Edit"),
+            fixup: tx("interactiveRebase.actions.fixup", "Fixup"),
+            pick: tx("interactiveRebase.actions.pick", "Pick"),
+            reword: tx("interactiveRebase.actions.reword", "Reword"),
+            squash: tx("interactiveRebase.actions.squash", "Squash")
+          },
+          cancel: tx("interactiveRebase.cancel", "Cancel"),
+          checkConflicts: tx("interactiveRebase.checkConflicts", "Check Conflicts"),
+          close: tx("interactiveRebase.close", "Close Interactive Rebase"),
+          commit: tx("interactiveRebase.commit", "Commit"),
+          description: tx(
+            "interactiveRebase.description",
+            "Commits are replayed onto {0} from top to bottom. Reorder them and choose an action for each commit."
+          ),
+          message: tx("interactiveRebase.message", "Message"),
+          moveDown: tx("interactiveRebase.moveDown", "Move {0} down"),
+          moveUp: tx("interactiveRebase.moveUp", "Move {0} up"),
+          order: tx("interactiveRebase.order", "Order"),
+          rewordMessageFor: tx("interactiveRebase.rewordMessageFor", "New message for {0}"),
+          rewordPlaceholder: tx("interactiveRebase.rewordPlaceholder", "Enter the new commit message"),
+          start: tx("interactiveRebase.start", "Start Rebase"),
+          title: tx("interactiveRebase.title", "Interactive Rebase")
+        }}
+        onClose={() => setInteractiveRebasePlan(undefined)}
+        onPlanChange={clearInteractiveRebasePreview}
+        onPreview={previewInteractiveRebase}
+        onStart={startInteractiveRebase}
+        open={Boolean(interactiveRebasePlan)}
+        plan={interactiveRebasePlan}
+        preview={interactiveRebasePreview}
+      />
+      <MergeDialog
+        busy={activeGitOperation === "git.merge"}
+        labels={{
+          cancel: tx("mergeDialog.cancel", "Cancel"),
+          close: tx("mergeDialog.close", "Close Merge"),
+          description: tx("mergeDialog.description", "Merge {0} into the current branch."),
+          merge: tx("mergeDialog.merge", "Merge"),
+          message: tx("mergeDialog.message", "Message"),
+          messagePlaceholder: tx("mergeDialog.messagePlaceholder", "Optional merge commit message"),
+          mode: tx("mergeDialog.mode", "Strategy"),
+          modes: {
+            default: tx("mergeDialog.modes.default", "Fast-forward when possible"),
+            "ff-only": tx("mergeDialog.modes.ffOnly", "Fast-forward only"),
+            "no-ff": tx("mergeDialog.modes.noFf", "Always create a merge commit"),
+            squash: tx("mergeDialog.modes.squash", "Squash into a single commit")
+          },
+          title: tx("mergeDialog.title", "Merge")
+        }}
+        onClose={() => setMergeSource(undefined)}
+        onMerge={startMerge}
+        open={Boolean(mergeSource)}
+        source={mergeSource}
+      />
       <CompareOverlay
         files={compareFiles}
         fromHash={compareHashes?.[0] ?? ""}
@@ -1636,13 +2923,21 @@ export function App({ rpcClient }: AppProps): ReactElement {
           from: tx("compare.from", "From"),
           noFilesChanged: tx("noFilesChanged", "No files changed"),
           openDiff: tx("compare.openDiff", "Open diff for {0}"),
+          pullRequestDescription: tx("aiSummary.pullRequestDescription", "PR description"),
+          releaseNotes: tx("aiSummary.releaseNotes", "Release notes"),
+          summary: aiSummaryLabels,
           targetCommit: tx("compare.targetCommit", "Target commit"),
           title: tx("compare.title", tx("headers.compareCommits", "Compare Commits")),
           to: tx("compare.to", "to")
         }}
+        onCancelSummary={cancelAiSummary}
         onClose={() => setCompareOverlayOpen(false)}
+        onCopySummary={copyAiSummary}
         onOpenFileDiff={openCompareFileDiff}
+        onOpenSummary={openAiSummary}
+        onSummarize={compareHashes ? summarizeCompareRange : undefined}
         open={compareOverlayOpen}
+        summary={compareSummary}
         toHash={compareHashes?.[1] ?? ""}
       />
       {operationNotification ? (
@@ -1661,6 +2956,14 @@ function requestCommitDetails(client: RpcClient | undefined, repositoryId: strin
   });
 }
 
+function requestCommitComposer(client: RpcClient | undefined, repositoryId: string): void {
+  client?.post({
+    id: crypto.randomUUID(),
+    repositoryId,
+    type: "workingTree.loadCommitComposer"
+  });
+}
+
 function requestWorkingTree(client: RpcClient | undefined, repositoryId: string): string {
   const id = crypto.randomUUID();
   client?.post({
@@ -1709,6 +3012,14 @@ function isCurrentCommitMessageGenerateResponse(
   return latestRequest?.id === responseId && latestRequest.repositoryId === selectedRepositoryId;
 }
 
+function commitSummaryKey(hash: string): string {
+  return `commit:${hash}`;
+}
+
+function rangeSummaryKey(kind: RangeSummaryKind, fromHash: string, toHash: string): string {
+  return `${kind}:${fromHash}..${toHash}`;
+}
+
 function isStaleCommitMessageGenerateError(
   response: RpcResponse & { ok: false },
   latestRequest: { id: string; repositoryId: string } | undefined,
@@ -1801,6 +3112,26 @@ function postWorkingTreeFileAction(
   return { id, repositoryId };
 }
 
+function postWorkingTreeHunkAction(
+  client: RpcClient | undefined,
+  repositoryId: string | undefined,
+  type: "workingTree.discardHunk" | "workingTree.stageHunk" | "workingTree.unstageHunk",
+  selection: WorkingTreeHunkSelectionViewModel
+): { id: string; repositoryId: string } | undefined {
+  if (!repositoryId) {
+    return;
+  }
+
+  const id = crypto.randomUUID();
+  client?.post({
+    id,
+    repositoryId,
+    selection,
+    type
+  });
+  return { id, repositoryId };
+}
+
 function postWorkingTreeBulkAction(
   client: RpcClient | undefined,
   repositoryId: string | undefined,
@@ -1851,6 +3182,55 @@ function requestRemotes(client: RpcClient | undefined, repositoryId: string | un
   });
 }
 
+function requestWorktrees(client: RpcClient | undefined, repositoryId: string | undefined): void {
+  if (!repositoryId) {
+    return;
+  }
+
+  client?.post({
+    id: crypto.randomUUID(),
+    repositoryId,
+    type: "worktrees.list"
+  });
+}
+
+function requestSubmodules(client: RpcClient | undefined, repositoryId: string | undefined): void {
+  if (!repositoryId) {
+    return;
+  }
+
+  client?.post({
+    id: crypto.randomUUID(),
+    repositoryId,
+    type: "submodules.list"
+  });
+}
+
+function requestBisectState(client: RpcClient | undefined, repositoryId: string | undefined): void {
+  if (!repositoryId) {
+    return;
+  }
+
+  client?.post({
+    id: crypto.randomUUID(),
+    repositoryId,
+    type: "bisect.state"
+  });
+}
+
+function requestReflog(client: RpcClient | undefined, repositoryId: string | undefined, ref: string): void {
+  if (!repositoryId) {
+    return;
+  }
+
+  client?.post({
+    id: crypto.randomUUID(),
+    ref,
+    repositoryId,
+    type: "reflog.list"
+  });
+}
+
 function postRemoteOperation(
   client: RpcClient | undefined,
   repositoryId: string | undefined,
@@ -1869,19 +3249,36 @@ function postRemoteOperation(
   });
 }
 
+function postBranchOperation(
+  client: RpcClient | undefined,
+  repositoryId: string | undefined,
+  input:
+    | { force?: boolean; name: string; remote?: string; type: "branches.delete" }
+    | { name: string; newName: string; type: "branches.rename" }
+    | { name: string; type: "branches.setUpstream"; upstream?: string }
+): void {
+  if (!repositoryId) {
+    return;
+  }
+
+  client?.post({
+    ...input,
+    id: crypto.randomUUID(),
+    repositoryId
+  });
+}
+
 function requestHistory(
   client: RpcClient | undefined,
   pendingRequests: Map<string, HistoryRequestMeta>,
-  options: {
+  options: HistorySearchFilters & {
     append?: boolean;
-    author?: string;
     branches?: readonly string[];
     cursor?: string;
     preserveSelection?: boolean;
     probeHash?: string;
     revealHash?: string;
     repositoryId?: string;
-    search?: string;
   } = {}
 ): void {
   const id = crypto.randomUUID();
@@ -1896,19 +3293,32 @@ function requestHistory(
     cursor: options.cursor,
     author: options.author,
     branches: options.branches,
+    committer: options.committer,
     id,
+    merges: options.merges,
     pageSize,
+    paths: options.paths,
+    pickaxe: options.pickaxe,
+    regex: options.regex,
     repositoryId: options.repositoryId,
     search: options.search,
-    type: "history.load"
+    since: options.since,
+    type: "history.load",
+    until: options.until
   });
 }
 
-function requestGraphLayout(client: RpcClient | undefined, repositoryId: string, hashes: readonly string[]): string {
+function requestGraphLayout(
+  client: RpcClient | undefined,
+  repositoryId: string,
+  hashes: readonly string[],
+  knownLayout: GraphLayoutCursorViewModel | undefined
+): string {
   const id = crypto.randomUUID();
   client?.post({
     hashes,
     id,
+    knownLayout,
     repositoryId,
     type: "graph.getLayout"
   });
@@ -1947,12 +3357,48 @@ function isContextGitOperationResponse(
   return isContextGitOperationType(response.type);
 }
 
+function isConflictFileActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: ConflictFileActionType }> {
+  return isConflictFileActionType(response.type);
+}
+
+function isBranchOperationResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: BranchOperationType }> {
+  return isBranchOperationType(response.type);
+}
+
 function isRemoteOperationResponse(
   response: RpcResponse
 ): response is Extract<RpcResponse, { type: RemoteOperationType }> {
   return isRemoteOperationType(response.type);
 }
 
+function isWorktreeActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: WorktreeActionType }> {
+  return isWorktreeActionType(response.type);
+}
+
+function isSubmoduleActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: SubmoduleActionType }> {
+  return isSubmoduleActionType(response.type);
+}
+
+function isBisectActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: BisectActionType }> {
+  return isBisectActionType(response.type);
+}
+
+function isReflogActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: ReflogActionType }> {
+  return isReflogActionType(response.type);
+}
+
 function isWorkingTreeActionResponse(
   response: RpcResponse
 ): response is Extract<RpcResponse, { type: WorkingTreeActionType }> {
@@ -1964,9 +3410,12 @@ function isWorkingTreeActionType(type: string): type is WorkingTreeActionType {
     type === "workingTree.stageAll" ||
     type === "workingTree.commit" ||
     type === "workingTree.discardFile" ||
+    type === "workingTree.discardHunk" ||
     type === "workingTree.stageFile" ||
+    type === "workingTree.stageHunk" ||
     type === "workingTree.unstageAll" ||
     type === "workingTree.unstageFile" ||
+    type === "workingTree.unstageHunk" ||
     type === "stash.create" ||
     type === "stash.apply" ||
     type === "stash.drop" ||
@@ -1989,13 +3438,25 @@ function isFileOperationResponse(
   response: RpcResponse
 ): response is Extract<RpcResponse, { type: FileOperationType }> {
   return (
+    response.type === "conflicts.openMergeEditor" ||
     response.type === "diff.openCommitFile" ||
     response.type === "diff.openCompareFile" ||
-    response.type === "files.openHistory" ||
     response.type === "files.openWorkingFile"
   );
 }
 
+function isPullRequestActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: PullRequestActionType }> {
+  return response.type === "pullRequests.checkout" || response.type === "pullRequests.configureToken";
+}
+
+function isHostingActionResponse(
+  response: RpcResponse
+): response is Extract<RpcResponse, { type: HostingActionType }> {
+  return response.type === "hosting.copyPermalink" || response.type === "hosting.openCommit";
+}
+
 function isGitOperationType(type: string): type is ConflictGitOperationType | ContextGitOperationType | PrimaryGitOperationType | PromptGitOperationType {
   return (
     isPrimaryGitOperationType(type) ||
@@ -2042,18 +3503,53 @@ function isPromptGitOperationType(type: string): type is PromptGitOperationType
   return type === "git.checkout" || type === "git.clone" || type === "git.init";
 }
 
+function isConflictFileActionType(type: string): type is ConflictFileActionType {
+  return type === "conflicts.acceptOurs" || type === "conflicts.acceptTheirs" || type === "conflicts.markResolved";
+}
+
+function isBranchOperationType(type: string): type is BranchOperationType {
+  return type === "branches.delete" || type === "branches.rename" || type === "branches.setUpstream";
+}
+
 function isRemoteOperationType(type: string): type is RemoteOperationType {
   return type === "remotes.add" || type === "remotes.delete" || type === "remotes.update";
 }
 
+function isWorktreeActionType(type: string): type is WorktreeActionType {
+  return (
+    type === "worktrees.add" ||
+    type === "worktrees.lock" ||
+    type === "worktrees.prune" ||
+    type === "worktrees.remove" ||
+    type === "worktrees.unlock"
+  );
+}
+
+function isSubmoduleActionType(type: string): type is SubmoduleActionType {
+  return type === "submodules.init" || type === "submodules.update";
+}
+
+function isBisectActionType(type: string): type is BisectActionType {
+  return type === "bisect.mark" || type === "bisect.reset" || type === "bisect.run" || type === "bisect.start";
+}
+
+function isReflogActionType(type: string): type is ReflogActionType {
+  return type === "reflog.checkout" || type === "reflog.reset";
+}
+
 function isContextGitOperationType(type: string): type is ContextGitOperationType {
   return (
     type === "git.cherryPick" ||
     type === "git.compareCommits" ||
     type === "git.copyHash" ||
     type === "git.createBranchFromCommit" ||
+    type === "git.createTag" ||
+    type === "git.deleteTag" ||
     type === "git.editCommitMessage" ||
+    type === "git.interactiveRebase" ||
+    type === "git.merge" ||
     type === "git.pushAllCommitsToHere" ||
+    type === "git.pushTags" ||
     type === "git.reset" ||
     type === "git.revert" ||
     type === "git.squashCommits"
@@ -2086,7 +3582,8 @@ function contextActionRequest(
   action: ContextMenuAction,
   repositoryId: string,
   hash: string,
-  selectedHashes: readonly string[]
+  selectedHashes: readonly string[],
+  sign: boolean
 ): ContextGitOperationRequest | undefined {
   if (action === "copyHash") {
     return { hash, repositoryId, type: "git.copyHash" };
@@ -2101,7 +3598,7 @@ function contextActionRequest(
   }
 
   if (action === "squash") {
-    return { hashes: selectedHashes, repositoryId, type: "git.squashCommits" };
+    return { hashes: selectedHashes, repositoryId, ...(sign ? { sign } : {}), type: "git.squashCommits" };
   }
 
   if (action === "createBranch") {
@@ -2112,8 +3609,20 @@ function contextActionRequest(
     return { hash, repositoryId, type: "git.pushAllCommitsToHere" };
   }
 
+  if (action === "createTag") {
+    return { hash, repositoryId, type: "git.createTag" };
+  }
+
+  if (action === "deleteTag") {
+    return { hash, repositoryId, type: "git.deleteTag" };
+  }
+
+  if (action === "pushTags") {
+    return { hash, repositoryId, type: "git.pushTags" };
+  }
+
   if (action === "editCommitMessage") {
-    return { hash, repositoryId, type: "git.editCommitMessage" };
+    return { hash, repositoryId, ...(sign ? { sign } : {}), type: "git.editCommitMessage" };
   }
 
   const resetMode = resetModeFromContextAction(action);
@@ -2204,6 +3713,11 @@ function trimFilter(value: string): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
+function historySearchFilters(searchQuery: string, authorQuery: string): HistorySearchFilters {
+  const filters = parseHistorySearchQuery(searchQuery);
+  return { ...filters, author: filters.author ?? trimFilter(authorQuery) };
+}
+
 function loadNotificationHistory(now: number): readonly NotificationHistoryItem[] {
   const value = window.localStorage.getItem(notificationHistoryStorageKey);
   if (!value) {
@@ -2230,6 +3744,13 @@ function pruneNotificationHistory(
   return notifications.filter((notification) => Date.parse(notification.createdAt) >= oldestRetained);
 }
 
+function notificationUndo(
+  result: OperationResultViewModel,
+  repositoryId: string | undefined
+): Pick<OperationNotification, "undo"> {
+  return result.undoId && repositoryId ? { undo: { id: result.undoId, repositoryId } } : {};
+}
+
 function formatNotificationHistory(notifications: readonly NotificationHistoryItem[]): string {
   return notifications
     .map((notification) => `[${formatNotificationTime(notification.createdAt)}] ${notification.state}: ${notification.message}`)
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { mergeGraphLayoutPage } from "./graphLayoutPage";
+
+const firstPage = {
+  edges: [
+    { color: "#f56565", fromHash: "top", points: [{ x: 8, y: 18 }, { x: 8, y: 72 }], toHash: "mid" },
+    { color: "#4299e1", fromHash: "top", points: [{ x: 8, y: 18 }, { x: 20, y: 54 }], toHash: "side" }
+  ],
+  nodes: [
+    { color: "#f56565", column: 0, hash: "top", row: 0, x: 8, y: 18 },
+    { color: "#4299e1", column: 1, hash: "side", row: 1, x: 20, y: 54 }
+  ],
+  width: 44
+};
+
+describe("mergeGraphLayoutPage", () => {
+  it("replaces the graph with a page that starts at the first row", () => {
+    const graph = { edges: [], nodes: [], width: 32 };
+
+    expect(mergeGraphLayoutPage(firstPage, { graph, layoutId: "layout-2", startRow: 0 })).toBe(graph);
+  });
+
+  it("appends new rows and replaces edges that were still open at the page boundary", () => {
+    const openEdge = { color: "#f56565", fromHash: "top", points: [{ x: 8, y: 18 }, { x: 8, y: 90 }], toHash: "mid" };
+    const newEdge = { color: "#f56565", fromHash: "mid", points: [{ x: 8, y: 90 }, { x: 8, y: 126 }], toHash: "base" };
+    const newNodes = [
+      { color: "#f56565", column: 0, hash: "mid", row: 2, x: 8, y: 90 },
+      { color: "#f56565", column: 0, hash: "base", row: 3, x: 8, y: 126 }
+    ];
+
+    expect(mergeGraphLayoutPage(firstPage, {
+      graph: { edges: [openEdge, newEdge], nodes: newNodes, width: 56 },
+      layoutId: "layout-1",
+      startRow: 2
+    })).toEqual({
+      edges: [firstPage.edges[1], openEdge, newEdge],
+      nodes: [...firstPage.nodes, ...newNodes],
+      width: 56
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import type { GraphEdgeViewModel, GraphLayoutPageViewModel, GraphLayoutViewModel } from "./rpcContract.generated";
+
+// Pages after the first only carry new rows plus the edges that were still open at startRow, which
+// replace the copies the webview received earlier.
+export function mergeGraphLayoutPage(current: GraphLayoutViewModel, page: GraphLayoutPageViewModel): GraphLayoutViewModel {
+  if (page.startRow === 0) {
+    return page.graph;
+  }
+
+  const nodes = current.nodes.filter((node) => node.row < page.startRow);
+  const keptHashes = new Set(nodes.map((node) => node.hash));
+  const resentEdges = new Set(page.graph.edges.map(edgeKey));
+
+  return {
+    edges: [
+      ...current.edges.filter((edge) => keptHashes.has(edge.fromHash) && !resentEdges.has(edgeKey(edge))),
+      ...page.graph.edges
+    ],
+    nodes: [...nodes, ...page.graph.nodes],
+    width: page.graph.width
+  };
+}
+
+function edgeKey(edge: GraphEdgeViewModel): string {
+  return `${edge.fromHash}\0${edge.toHash}`;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseHistorySearchQuery } from "./historySearchQuery";
+
+describe("parseHistorySearchQuery", () => {
+  it("keeps plain text as a message search", () => {
+    expect(parseHistorySearchQuery("  fix login  ")).toEqual(expect.objectContaining({ search: "fix login" }));
+    expect(parseHistorySearchQuery("")).toEqual(expect.objectContaining({ paths: undefined, search: undefined }));
+  });
+
+  it("parses path, author, committer, date, content and merge filters", () => {
+    expect(
+      parseHistorySearchQuery(
+        'path:src/ file:"docs/read me.md" author:alice author:bob committer:grace since:2w until:2024-01-31 regex:load(History|Graph) merges:only crash'
+      )
+    ).toEqual({
+      author: "alice | bob",
+      committer: "grace",
+      merges: "only",
+      paths: ["src/", "docs/read me.md"],
+      regex: "load(History|Graph)",
+      search: "crash",
+      since: "2 weeks ago",
+      until: "2024-01-31"
+    });
+    expect(parseHistorySearchQuery('content:"load history" after:3d before:1y merges:none')).toEqual(
+      expect.objectContaining({
+        merges: "exclude",
+        pickaxe: "load history",
+        since: "3 days ago",
+        until: "1 years ago"
+      })
+    );
+  });
+
+  it("treats unknown keys, empty values and quoted phrases as search text", () => {
+    expect(parseHistorySearchQuery('https://example.com path: "author:alice"')).toEqual(
+      expect.objectContaining({
+        author: undefined,
+        paths: undefined,
+        search: "https://example.com path: author:alice"
+      })
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import type { HistoryMergeFilter } from "./rpcContract.generated";
+
+export interface HistorySearchFilters {
+  author?: string;
+  committer?: string;
+  merges?: HistoryMergeFilter;
+  paths?: readonly string[];
+  pickaxe?: string;
+  regex?: string;
+  search?: string;
+  since?: string;
+  until?: string;
+}
+
+const relativeDateUnits: Readonly<Record<string, string>> = {
+  d: "days",
+  h: "hours",
+  m: "months",
+  w: "weeks",
+  y: "years"
+};
+
+export function parseHistorySearchQuery(query: string): HistorySearchFilters {
+  const authors: string[] = [];
+  const paths: string[] = [];
+  const words: string[] = [];
+  const filters: HistorySearchFilters = {};
+
+  for (const token of tokenize(query)) {
+    const match = /^([a-z]+):(.*)$/i.exec(token.text);
+    const key = token.quoted ? undefined : match?.[1]?.toLowerCase();
+    const value = unquote(match?.[2] ?? "");
+    if (!key || !value) {
+      words.push(token.quoted ? token.text : unquote(token.text));
+      continue;
+    }
+
+    switch (key) {
+      case "author":
+        authors.push(value);
+        break;
+      case "committer":
+        filters.committer = value;
+        break;
+      case "path":
+      case "file":
+        paths.push(value);
+        break;
+      case "content":
+        filters.pickaxe = value;
+        break;
+      case "regex":
+        filters.regex = value;
+        break;
+      case "since":
+      case "after":
+        filters.since = toGitDate(value);
+        break;
+      case "until":
+      case "before":
+        filters.until = toGitDate(value);
+        break;
+      case "merges":
+        filters.merges = toMergeFilter(value);
+        break;
+      default:
+        words.push(token.text);
+    }
+  }
+
+  return {
+    ...filters,
+    author: authors.length > 0 ? authors.join(" | ") : undefined,
+    paths: paths.length > 0 ? paths : undefined,
+    search: words.length > 0 ? words.join(" ") : undefined
+  };
+}
+
+function tokenize(query: string): readonly { quoted: boolean; text: string }[] {
+  return [...query.matchAll(/"([^"]*)"|\S*"[^"]*"\S*|\S+/g)].map((match) =>
+    match[1] !== undefined ? { quoted: true, text: match[1] } : { quoted: false, text: match[0] }
+  );
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, "").trim();
+}
+
+function toGitDate(value: string): string {
+  const match = /^(\d+)([dhmwy])$/i.exec(value);
+  return match ? `${match[1]} ${relativeDateUnits[match[2]!.toLowerCase()]} ago` : value;
+}
+
+function toMergeFilter(value: string): HistoryMergeFilter | undefined {
+  const normalized = value.toLowerCase();
+  if (normalized === "only" || normalized === "yes") {
+    return "only";
+  }
+
+  return normalized === "exclude" || normalized === "no" || normalized === "none" ? "exclude" : undefined;
+}
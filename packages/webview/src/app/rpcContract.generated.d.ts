@@ -1,13 +1,22 @@
 /* This file is generated by pnpm rpc:generate. Do not edit by hand. */
-export declare const allRpcRequestTypes: readonly ["history.load", "branches.list", "commits.getDetails", "files.getChanges", "files.openWorkingFile", "files.openHistory", "graph.getLayout", "diff.openCommitFile", "diff.openCompareFile", "remotes.list", "remotes.add", "remotes.update", "remotes.delete", "settings.get", "settings.update", "settings.resetAutoStash", "settings.changeLanguage", "proxy.configure", "proxy.refresh", "git.pull", "git.advancedPull", "git.operationState", "git.continueOperation", "git.abortOperation", "git.push", "git.advancedPush", "git.fetch", "git.init", "git.clone", "git.checkout", "git.copyHash", "git.cherryPick", "git.revert", "git.reset", "git.compareCommits", "git.squashCommits", "git.createBranchFromCommit", "git.pushAllCommitsToHere", "git.editCommitMessage", "workingTree.load", "workingTree.stageFile", "workingTree.stageAll", "workingTree.unstageFile", "workingTree.unstageAll", "workingTree.discardFile", "workingTree.openFile", "workingTree.openDiff", "workingTree.commit", "stash.list", "stash.getDetails", "stash.openDiff", "stash.create", "stash.apply", "stash.pop", "stash.drop", "commitMessage.generate", "settings.configureAiProvider", "settings.testAiProvider"];
-export declare const backendRpcHandlerTypes: readonly ["history.load", "branches.list", "commits.getDetails", "files.getChanges", "files.openWorkingFile", "files.openHistory", "graph.getLayout", "diff.openCommitFile", "diff.openCompareFile", "remotes.list", "remotes.add", "remotes.update", "remotes.delete", "settings.get", "settings.update", "settings.resetAutoStash", "settings.changeLanguage", "proxy.configure", "proxy.refresh", "git.pull", "git.advancedPull", "git.operationState", "git.continueOperation", "git.abortOperation", "git.push", "git.advancedPush", "git.fetch", "git.init", "git.clone", "git.checkout", "git.copyHash", "git.cherryPick", "git.revert", "git.reset", "git.compareCommits", "git.squashCommits", "git.createBranchFromCommit", "git.pushAllCommitsToHere", "git.editCommitMessage", "workingTree.load", "workingTree.stageFile", "workingTree.stageAll", "workingTree.unstageFile", "workingTree.unstageAll", "workingTree.discardFile", "workingTree.openFile", "workingTree.openDiff", "workingTree.commit", "stash.list", "stash.getDetails", "stash.openDiff", "stash.create", "stash.apply", "stash.pop", "stash.drop", "commitMessage.generate", "settings.configureAiProvider", "settings.testAiProvider"];
+export declare const allRpcRequestTypes: readonly ["history.load", "branches.list", "branches.rename", "branches.delete", "branches.setUpstream", "commits.getDetails", "conflicts.list", "conflicts.acceptOurs", "conflicts.acceptTheirs", "conflicts.markResolved", "conflicts.openMergeEditor", "files.getChanges", "files.openWorkingFile", "files.getHistory", "graph.getLayout", "graph.export", "diff.openCommitFile", "diff.openCompareFile", "hosting.openCommit", "hosting.copyPermalink", "pullRequests.list", "pullRequests.checkout", "pullRequests.configureToken", "remotes.list", "remotes.add", "remotes.update", "remotes.delete", "worktrees.list", "worktrees.add", "worktrees.open", "worktrees.lock", "worktrees.unlock", "worktrees.prune", "worktrees.remove", "submodules.list", "submodules.init", "submodules.update", "reflog.list", "reflog.checkout", "reflog.reset", "bisect.state", "bisect.start", "bisect.mark", "bisect.run", "bisect.reset", "operations.undo", "settings.get", "settings.update", "settings.resetAutoStash", "settings.changeLanguage", "proxy.configure", "proxy.refresh", "git.pull", "git.advancedPull", "git.operationState", "git.continueOperation", "git.abortOperation", "git.push", "git.advancedPush", "git.fetch", "git.init", "git.clone", "git.checkout", "git.copyHash", "git.cherryPick", "git.merge", "git.revert", "git.reset", "git.compareCommits", "git.squashCommits", "git.createBranchFromCommit", "git.createTag", "git.deleteTag", "git.pushTags", "git.pushAllCommitsToHere", "git.editCommitMessage", "git.loadInteractiveRebase", "git.previewInteractiveRebase", "git.interactiveRebase", "workingTree.load", "workingTree.stageFile", "workingTree.stageAll", "workingTree.unstageFile", "workingTree.unstageAll", "workingTree.discardFile", "workingTree.getFileDiff", "workingTree.stageHunk", "workingTree.unstageHunk", "workingTree.discardHunk", "workingTree.openFile", "workingTree.openDiff", "workingTree.commit", "workingTree.loadCommitComposer", "stash.list", "stash.getDetails", "stash.openDiff", "stash.create", "stash.apply", "stash.pop", "stash.drop", "commitMessage.generate", "commitMessage.cancel", "aiSummary.commit", "aiSummary.range", "aiSummary.open", "aiSummary.cancel", "settings.configureAiProvider", "settings.testAiProvider"];
+export declare const backendRpcHandlerTypes: readonly ["history.load", "branches.list", "branches.rename", "branches.delete", "branches.setUpstream", "commits.getDetails", "conflicts.list", "conflicts.acceptOurs", "conflicts.acceptTheirs", "conflicts.markResolved", "conflicts.openMergeEditor", "files.getChanges", "files.openWorkingFile", "files.getHistory", "graph.getLayout", "graph.export", "diff.openCommitFile", "diff.openCompareFile", "hosting.openCommit", "hosting.copyPermalink", "pullRequests.list", "pullRequests.checkout", "pullRequests.configureToken", "remotes.list", "remotes.add", "remotes.update", "remotes.delete", "worktrees.list", "worktrees.add", "worktrees.open", "worktrees.lock", "worktrees.unlock", "worktrees.prune", "worktrees.remove", "submodules.list", "submodules.init", "submodules.update", "reflog.list", "reflog.checkout", "reflog.reset", "bisect.state", "bisect.start", "bisect.mark", "bisect.run", "bisect.reset", "operations.undo", "settings.get", "settings.update", "settings.resetAutoStash", "settings.changeLanguage", "proxy.configure", "proxy.refresh", "git.pull", "git.advancedPull", "git.operationState", "git.continueOperation", "git.abortOperation", "git.push", "git.advancedPush", "git.fetch", "git.init", "git.clone", "git.checkout", "git.copyHash", "git.cherryPick", "git.merge", "git.revert", "git.reset", "git.compareCommits", "git.squashCommits", "git.createBranchFromCommit", "git.createTag", "git.deleteTag", "git.pushTags", "git.pushAllCommitsToHere", "git.editCommitMessage", "git.loadInteractiveRebase", "git.previewInteractiveRebase", "git.interactiveRebase", "workingTree.load", "workingTree.stageFile", "workingTree.stageAll", "workingTree.unstageFile", "workingTree.unstageAll", "workingTree.discardFile", "workingTree.getFileDiff", "workingTree.stageHunk", "workingTree.unstageHunk", "workingTree.discardHunk", "workingTree.openFile", "workingTree.openDiff", "workingTree.commit", "workingTree.loadCommitComposer", "stash.list", "stash.getDetails", "stash.openDiff", "stash.create", "stash.apply", "stash.pop", "stash.drop", "commitMessage.generate", "commitMessage.cancel", "aiSummary.commit", "aiSummary.range", "aiSummary.open", "aiSummary.cancel", "settings.configureAiProvider", "settings.testAiProvider"];
 export type RpcRequestType = (typeof allRpcRequestTypes)[number];
 export type FileViewMode = "tree" | "list";
 export type AutoStashPreference = "ask" | "always" | "never";
 export type LanguagePreference = "auto" | "en" | "zh" | "es" | "fr" | "de" | "ja" | "ru";
 export type GitResetMode = "soft" | "mixed" | "hard";
+export type GitMergeMode = "default" | "ff-only" | "no-ff" | "squash";
+export type CommitSignatureStatus = "good" | "bad" | "unknown" | "none";
+export type InteractiveRebaseAction = "pick" | "reword" | "squash" | "fixup" | "edit" | "drop";
 export type WorkingTreeFileArea = "staged" | "unstaged" | "untracked" | "stash";
 export type WorkingTreeDiffKind = "staged" | "unstaged";
+export type WorkingTreeDiffLineKind = "added" | "context" | "removed";
+export type ConflictFileStatus = "bothModified" | "bothAdded" | "bothDeleted" | "addedByUs" | "addedByThem" | "deletedByUs" | "deletedByThem";
+export type BisectVerdict = "good" | "bad" | "skip";
+export type HistoryMergeFilter = "only" | "exclude";
+export type GraphExportFormat = "svg" | "png";
+export type SubmoduleState = "current" | "modified" | "uninitialized" | "conflict";
 export type AiProviderKind = "vscodeLanguageModel" | "openAICompatible";
 export type CommitMessagePromptMode = "default" | "custom";
 export type HttpAiProviderProtocol = "chatCompletions" | "responses" | "claudeMessages";
@@ -18,11 +27,16 @@ export interface RepositoryViewModel {
     id: string;
     name: string;
     rootPath: string;
+    submoduleOf?: string;
+    worktreeOf?: string;
 }
 export interface BranchViewModel {
     name: string;
     current: boolean;
     remote?: string;
+    upstream?: string;
+    ahead?: number;
+    behind?: number;
 }
 export interface RemoteBranchGroupViewModel {
     remote: string;
@@ -45,6 +59,12 @@ export interface CommitListItemViewModel {
     refs: readonly RefViewModel[];
     parents: readonly string[];
     canEditMessage: boolean;
+    signature?: CommitSignatureViewModel;
+}
+export interface CommitSignatureViewModel {
+    status: CommitSignatureStatus;
+    signer?: string;
+    keyId?: string;
 }
 export interface RefViewModel {
     name: string;
@@ -60,6 +80,7 @@ export interface CommitDetailsViewModel {
     body: string;
     files: readonly FileChangeViewModel[];
     canEditMessage: boolean;
+    signature?: CommitSignatureViewModel;
 }
 export interface FileChangeViewModel {
     path: string;
@@ -68,9 +89,28 @@ export interface FileChangeViewModel {
     insertions: number;
     deletions: number;
     binary: boolean;
+    submodule?: SubmoduleChangeViewModel;
+}
+export interface SubmoduleCommitViewModel {
+    hash: string;
+    message: string;
+}
+export interface SubmoduleChangeViewModel {
+    oldHash?: string;
+    newHash?: string;
+    commits: readonly SubmoduleCommitViewModel[];
+    rewound?: boolean;
+}
+export interface WorkingTreeSubmoduleStatusViewModel {
+    commitChanged: boolean;
+    trackedChanges: boolean;
+    untrackedChanges: boolean;
 }
 export interface WorkingTreeFileChangeViewModel extends FileChangeViewModel {
     area: WorkingTreeFileArea;
+    conflict?: ConflictFileStatus;
+    similarity?: number;
+    submoduleStatus?: WorkingTreeSubmoduleStatusViewModel;
 }
 export interface StashEntryViewModel {
     ref: string;
@@ -83,16 +123,72 @@ export interface WorkingTreeViewModel {
     repositoryId: string;
     repositoryRoot: string;
     branch: string;
+    upstream?: string;
+    ahead?: number;
+    behind?: number;
     staged: readonly WorkingTreeFileChangeViewModel[];
     unstaged: readonly WorkingTreeFileChangeViewModel[];
     stashes: readonly StashEntryViewModel[];
     operationState?: OperationResultViewModel;
+    signCommits?: boolean;
+}
+export type CommitMessageTemplateSource = "gitConfig" | "settings";
+export interface CommitMessageTemplateViewModel {
+    name: string;
+    message: string;
+    source: CommitMessageTemplateSource;
+}
+export interface CommitAuthorViewModel {
+    name: string;
+    email: string;
+    commits: number;
+}
+export interface CommitComposerViewModel {
+    repositoryId: string;
+    templates: readonly CommitMessageTemplateViewModel[];
+    coAuthors: readonly CommitAuthorViewModel[];
+    headMessage?: string;
+}
+export interface WorkingTreeDiffLineViewModel {
+    kind: WorkingTreeDiffLineKind;
+    content: string;
+    oldLineNumber?: number;
+    newLineNumber?: number;
+}
+export interface WorkingTreeDiffHunkViewModel {
+    header: string;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: readonly WorkingTreeDiffLineViewModel[];
+}
+export interface WorkingTreeFileDiffViewModel {
+    filePath: string;
+    kind: WorkingTreeDiffKind;
+    binary: boolean;
+    hunks: readonly WorkingTreeDiffHunkViewModel[];
+}
+export interface WorkingTreeHunkSelectionViewModel {
+    filePath: string;
+    hunkIndex: number;
+    hunkHeader: string;
+    lineIndexes?: readonly number[];
 }
 export interface GraphLayoutViewModel {
     nodes: readonly GraphNodeViewModel[];
     edges: readonly GraphEdgeViewModel[];
     width: number;
 }
+export interface GraphLayoutCursorViewModel {
+    layoutId: string;
+    rowCount: number;
+}
+export interface GraphLayoutPageViewModel {
+    graph: GraphLayoutViewModel;
+    layoutId: string;
+    startRow: number;
+}
 export interface GraphNodeViewModel {
     hash: string;
     row: number;
@@ -116,6 +212,78 @@ export interface RemoteViewModel {
     fetchUrl: string;
     pushUrl: string;
 }
+export interface SubmoduleViewModel {
+    name: string;
+    path: string;
+    rootPath: string;
+    hash?: string;
+    describe?: string;
+    state: SubmoduleState;
+    url?: string;
+}
+export interface FileHistoryLineRangeViewModel {
+    startLine: number;
+    endLine: number;
+}
+export interface FileHistoryEntryViewModel {
+    hash: string;
+    shortHash: string;
+    message: string;
+    author: string;
+    date: string;
+    filePath: string;
+    insertions: number;
+    deletions: number;
+}
+export interface FileHistoryViewModel {
+    filePath: string;
+    lineRange?: FileHistoryLineRangeViewModel;
+    entries: readonly FileHistoryEntryViewModel[];
+}
+export interface ReflogEntryViewModel {
+    hash: string;
+    shortHash: string;
+    selector: string;
+    action: string;
+    message: string;
+    subject: string;
+    author: string;
+    date: string;
+}
+export interface PullRequestViewModel {
+    number: number;
+    title: string;
+    author: string;
+    sourceBranch: string;
+    targetBranch: string;
+    url: string;
+    draft: boolean;
+    updatedAt: string;
+}
+export interface BisectStateViewModel {
+    active: boolean;
+    bad?: string;
+    good: readonly string[];
+    skipped: readonly string[];
+    current?: string;
+    firstBad?: string;
+    candidates: readonly string[];
+    remainingRevisions: number;
+    remainingSteps: number;
+}
+export interface WorktreeViewModel {
+    path: string;
+    head?: string;
+    branch?: string;
+    bare: boolean;
+    current: boolean;
+    detached: boolean;
+    locked: boolean;
+    lockReason?: string;
+    main: boolean;
+    prunable: boolean;
+    prunableReason?: string;
+}
 export interface SettingsViewModel {
     autoStashOnPull: AutoStashPreference;
     blameEnabled: boolean;
@@ -150,6 +318,16 @@ export interface CommitMessagePromptSettingsViewModel {
 export interface CommitMessageSuggestionViewModel {
     message: string;
 }
+export type AiSummaryKind = "commit" | "pullRequest" | "releaseNotes";
+export interface AiSummaryViewModel {
+    kind: AiSummaryKind;
+    markdown: string;
+}
+export interface CommitMessageProgressViewModel {
+    requestId: string;
+    candidate: number;
+    text: string;
+}
 export type I18nMessages = {
     readonly [key: string]: I18nMessages | string;
 };
@@ -160,6 +338,23 @@ export interface I18nBundleViewModel {
 export interface OperationResultViewModel {
     status: "ok" | "cancelled" | "conflict";
     message: string;
+    undoId?: string;
+}
+export interface InteractiveRebaseEntryViewModel {
+    hash: string;
+    shortHash: string;
+    message: string;
+    author: string;
+    action: InteractiveRebaseAction;
+}
+export interface InteractiveRebasePlanViewModel {
+    base: string;
+    head: string;
+    entries: readonly InteractiveRebaseEntryViewModel[];
+}
+export interface ConflictFileViewModel {
+    path: string;
+    status: ConflictFileStatus;
 }
 export interface GitOperationProgressViewModel {
     operation: "git.clone";
@@ -176,15 +371,57 @@ export type RpcRequest = (RpcEnvelope & {
     branches?: readonly string[];
     search?: string;
     author?: string;
+    committer?: string;
+    paths?: readonly string[];
+    pickaxe?: string;
+    regex?: string;
+    since?: string;
+    until?: string;
+    merges?: HistoryMergeFilter;
     cursor?: string;
     pageSize: number;
 }) | (RpcEnvelope & {
     type: "branches.list";
     repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "branches.rename";
+    repositoryId: string;
+    name: string;
+    newName: string;
+}) | (RpcEnvelope & {
+    type: "branches.delete";
+    repositoryId: string;
+    name: string;
+    remote?: string;
+    force?: boolean;
+}) | (RpcEnvelope & {
+    type: "branches.setUpstream";
+    repositoryId: string;
+    name: string;
+    upstream?: string;
 }) | (RpcEnvelope & {
     type: "commits.getDetails";
     repositoryId: string;
     hash: string;
+}) | (RpcEnvelope & {
+    type: "conflicts.list";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "conflicts.acceptOurs";
+    repositoryId: string;
+    filePath: string;
+}) | (RpcEnvelope & {
+    type: "conflicts.acceptTheirs";
+    repositoryId: string;
+    filePath: string;
+}) | (RpcEnvelope & {
+    type: "conflicts.markResolved";
+    repositoryId: string;
+    filePath: string;
+}) | (RpcEnvelope & {
+    type: "conflicts.openMergeEditor";
+    repositoryId: string;
+    filePath: string;
 }) | (RpcEnvelope & {
     type: "files.getChanges";
     repositoryId: string;
@@ -196,13 +433,20 @@ export type RpcRequest = (RpcEnvelope & {
     filePath: string;
     hash: string;
 }) | (RpcEnvelope & {
-    type: "files.openHistory";
+    type: "files.getHistory";
     repositoryId: string;
     filePath: string;
+    lineRange?: FileHistoryLineRangeViewModel;
 }) | (RpcEnvelope & {
     type: "graph.getLayout";
     repositoryId: string;
     hashes: readonly string[];
+    knownLayout?: GraphLayoutCursorViewModel;
+}) | (RpcEnvelope & {
+    type: "graph.export";
+    repositoryId: string;
+    hashes: readonly string[];
+    format: GraphExportFormat;
 }) | (RpcEnvelope & {
     type: "diff.openCommitFile";
     repositoryId: string;
@@ -214,6 +458,25 @@ export type RpcRequest = (RpcEnvelope & {
     fromHash: string;
     toHash: string;
     filePath: string;
+    fromFilePath?: string;
+}) | (RpcEnvelope & {
+    type: "hosting.openCommit";
+    repositoryId: string;
+    hash: string;
+}) | (RpcEnvelope & {
+    type: "hosting.copyPermalink";
+    repositoryId: string;
+    hash: string;
+}) | (RpcEnvelope & {
+    type: "pullRequests.list";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "pullRequests.checkout";
+    repositoryId: string;
+    number: number;
+}) | (RpcEnvelope & {
+    type: "pullRequests.configureToken";
+    repositoryId: string;
 }) | (RpcEnvelope & {
     type: "remotes.list";
     repositoryId: string;
@@ -231,6 +494,82 @@ export type RpcRequest = (RpcEnvelope & {
     type: "remotes.delete";
     repositoryId: string;
     name: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.list";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.add";
+    repositoryId: string;
+    path: string;
+    ref: string;
+    newBranch?: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.open";
+    repositoryId: string;
+    path: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.lock";
+    repositoryId: string;
+    path: string;
+    reason?: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.unlock";
+    repositoryId: string;
+    path: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.prune";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "worktrees.remove";
+    repositoryId: string;
+    path: string;
+}) | (RpcEnvelope & {
+    type: "submodules.list";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "submodules.init";
+    repositoryId: string;
+    path?: string;
+}) | (RpcEnvelope & {
+    type: "submodules.update";
+    repositoryId: string;
+    path?: string;
+}) | (RpcEnvelope & {
+    type: "reflog.list";
+    repositoryId: string;
+    ref?: string;
+}) | (RpcEnvelope & {
+    type: "reflog.checkout";
+    repositoryId: string;
+    hash: string;
+    selector: string;
+}) | (RpcEnvelope & {
+    type: "reflog.reset";
+    repositoryId: string;
+    hash: string;
+    selector: string;
+}) | (RpcEnvelope & {
+    type: "bisect.state";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "bisect.start";
+    repositoryId: string;
+    good: string;
+    bad: string;
+}) | (RpcEnvelope & {
+    type: "bisect.mark";
+    repositoryId: string;
+    verdict: BisectVerdict;
+}) | (RpcEnvelope & {
+    type: "bisect.run";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "bisect.reset";
+    repositoryId: string;
+}) | (RpcEnvelope & {
+    type: "operations.undo";
+    repositoryId: string;
+    undoId: string;
 }) | (RpcEnvelope & {
     type: "settings.get";
 }) | (RpcEnvelope & {
@@ -283,6 +622,12 @@ export type RpcRequest = (RpcEnvelope & {
     type: "git.cherryPick";
     repositoryId: string;
     hash: string;
+}) | (RpcEnvelope & {
+    type: "git.merge";
+    repositoryId: string;
+    source: string;
+    mode: GitMergeMode;
+    message?: string;
 }) | (RpcEnvelope & {
     type: "git.revert";
     repositoryId: string;
@@ -300,10 +645,23 @@ export type RpcRequest = (RpcEnvelope & {
     type: "git.squashCommits";
     repositoryId: string;
     hashes: readonly string[];
+    sign?: boolean;
 }) | (RpcEnvelope & {
     type: "git.createBranchFromCommit";
     repositoryId: string;
     hash: string;
+}) | (RpcEnvelope & {
+    type: "git.createTag";
+    repositoryId: string;
+    hash: string;
+}) | (RpcEnvelope & {
+    type: "git.deleteTag";
+    repositoryId: string;
+    hash: string;
+}) | (RpcEnvelope & {
+    type: "git.pushTags";
+    repositoryId: string;
+    hash: string;
 }) | (RpcEnvelope & {
     type: "git.pushAllCommitsToHere";
     repositoryId: string;
@@ -312,6 +670,19 @@ export type RpcRequest = (RpcEnvelope & {
     type: "git.editCommitMessage";
     repositoryId: string;
     hash: string;
+    sign?: boolean;
+}) | (RpcEnvelope & {
+    type: "git.loadInteractiveRebase";
+    repositoryId: string;
+    hashes: readonly string[];
+}) | (RpcEnvelope & {
+    type: "git.previewInteractiveRebase";
+    repositoryId: string;
+    plan: InteractiveRebasePlanViewModel;
+}) | (RpcEnvelope & {
+    type: "git.interactiveRebase";
+    repositoryId: string;
+    plan: InteractiveRebasePlanViewModel;
 }) | (RpcEnvelope & {
     type: "workingTree.load";
     repositoryId: string;
@@ -333,6 +704,23 @@ export type RpcRequest = (RpcEnvelope & {
     type: "workingTree.discardFile";
     repositoryId: string;
     filePath: string;
+}) | (RpcEnvelope & {
+    type: "workingTree.getFileDiff";
+    repositoryId: string;
+    filePath: string;
+    kind: WorkingTreeDiffKind;
+}) | (RpcEnvelope & {
+    type: "workingTree.stageHunk";
+    repositoryId: string;
+    selection: WorkingTreeHunkSelectionViewModel;
+}) | (RpcEnvelope & {
+    type: "workingTree.unstageHunk";
+    repositoryId: string;
+    selection: WorkingTreeHunkSelectionViewModel;
+}) | (RpcEnvelope & {
+    type: "workingTree.discardHunk";
+    repositoryId: string;
+    selection: WorkingTreeHunkSelectionViewModel;
 }) | (RpcEnvelope & {
     type: "workingTree.openFile";
     repositoryId: string;
@@ -347,6 +735,11 @@ export type RpcRequest = (RpcEnvelope & {
     type: "workingTree.commit";
     repositoryId: string;
     message: string;
+    sign?: boolean;
+    amend?: boolean;
+}) | (RpcEnvelope & {
+    type: "workingTree.loadCommitComposer";
+    repositoryId: string;
 }) | (RpcEnvelope & {
     type: "stash.list";
     repositoryId: string;
@@ -378,6 +771,26 @@ export type RpcRequest = (RpcEnvelope & {
 }) | (RpcEnvelope & {
     type: "commitMessage.generate";
     repositoryId: string;
+    candidates?: number;
+}) | (RpcEnvelope & {
+    type: "commitMessage.cancel";
+    generateRequestId: string;
+}) | (RpcEnvelope & {
+    type: "aiSummary.commit";
+    repositoryId: string;
+    hash: string;
+}) | (RpcEnvelope & {
+    type: "aiSummary.range";
+    repositoryId: string;
+    fromHash: string;
+    toHash: string;
+    kind: Exclude<AiSummaryKind, "commit">;
+}) | (RpcEnvelope & {
+    type: "aiSummary.open";
+    markdown: string;
+}) | (RpcEnvelope & {
+    type: "aiSummary.cancel";
+    summaryRequestId: string;
 }) | (RpcEnvelope & {
     type: "settings.configureAiProvider";
 }) | (RpcEnvelope & {
@@ -396,26 +809,113 @@ export interface RpcPayloadByType {
     "branches.list": {
         branches: BranchesViewModel;
     };
+    "branches.rename": OperationResultViewModel;
+    "branches.delete": OperationResultViewModel;
+    "branches.setUpstream": OperationResultViewModel;
     "commits.getDetails": {
         commit: CommitDetailsViewModel;
     };
+    "conflicts.list": {
+        files: readonly ConflictFileViewModel[];
+    };
+    "conflicts.acceptOurs": {
+        files: readonly ConflictFileViewModel[];
+        result: OperationResultViewModel;
+    };
+    "conflicts.acceptTheirs": {
+        files: readonly ConflictFileViewModel[];
+        result: OperationResultViewModel;
+    };
+    "conflicts.markResolved": {
+        files: readonly ConflictFileViewModel[];
+        result: OperationResultViewModel;
+    };
+    "conflicts.openMergeEditor": OperationResultViewModel;
     "files.getChanges": {
         files: readonly FileChangeViewModel[];
         mode: FileViewMode;
     };
     "files.openWorkingFile": OperationResultViewModel;
-    "files.openHistory": OperationResultViewModel;
-    "graph.getLayout": {
-        graph: GraphLayoutViewModel;
+    "files.getHistory": {
+        history: FileHistoryViewModel;
     };
+    "graph.getLayout": GraphLayoutPageViewModel;
+    "graph.export": OperationResultViewModel;
     "diff.openCommitFile": OperationResultViewModel;
     "diff.openCompareFile": OperationResultViewModel;
+    "hosting.openCommit": OperationResultViewModel;
+    "hosting.copyPermalink": OperationResultViewModel;
+    "pullRequests.list": {
+        pullRequests: readonly PullRequestViewModel[];
+    };
+    "pullRequests.checkout": OperationResultViewModel;
+    "pullRequests.configureToken": OperationResultViewModel;
     "remotes.list": {
         remotes: readonly RemoteViewModel[];
     };
     "remotes.add": OperationResultViewModel;
     "remotes.update": OperationResultViewModel;
     "remotes.delete": OperationResultViewModel;
+    "worktrees.list": {
+        worktrees: readonly WorktreeViewModel[];
+    };
+    "worktrees.add": {
+        result: OperationResultViewModel;
+        worktrees: readonly WorktreeViewModel[];
+    };
+    "worktrees.open": OperationResultViewModel;
+    "worktrees.lock": {
+        result: OperationResultViewModel;
+        worktrees: readonly WorktreeViewModel[];
+    };
+    "worktrees.unlock": {
+        result: OperationResultViewModel;
+        worktrees: readonly WorktreeViewModel[];
+    };
+    "worktrees.prune": {
+        result: OperationResultViewModel;
+        worktrees: readonly WorktreeViewModel[];
+    };
+    "worktrees.remove": {
+        result: OperationResultViewModel;
+        worktrees: readonly WorktreeViewModel[];
+    };
+    "submodules.list": {
+        submodules: readonly SubmoduleViewModel[];
+    };
+    "submodules.init": {
+        result: OperationResultViewModel;
+        submodules: readonly SubmoduleViewModel[];
+    };
+    "submodules.update": {
+        result: OperationResultViewModel;
+        submodules: readonly SubmoduleViewModel[];
+    };
+    "reflog.list": {
+        entries: readonly ReflogEntryViewModel[];
+        ref: string;
+        refs: readonly string[];
+    };
+    "reflog.checkout": OperationResultViewModel;
+    "reflog.reset": OperationResultViewModel;
+    "bisect.state": BisectStateViewModel;
+    "bisect.start": {
+        result: OperationResultViewModel;
+        state: BisectStateViewModel;
+    };
+    "bisect.mark": {
+        result: OperationResultViewModel;
+        state: BisectStateViewModel;
+    };
+    "bisect.run": {
+        result: OperationResultViewModel;
+        state: BisectStateViewModel;
+    };
+    "bisect.reset": {
+        result: OperationResultViewModel;
+        state: BisectStateViewModel;
+    };
+    "operations.undo": OperationResultViewModel;
     "settings.get": {
         i18n: I18nBundleViewModel;
         settings: SettingsViewModel;
@@ -441,6 +941,7 @@ export interface RpcPayloadByType {
     "git.checkout": OperationResultViewModel;
     "git.copyHash": OperationResultViewModel;
     "git.cherryPick": OperationResultViewModel;
+    "git.merge": OperationResultViewModel;
     "git.revert": OperationResultViewModel;
     "git.reset": OperationResultViewModel;
     "git.compareCommits": {
@@ -449,8 +950,17 @@ export interface RpcPayloadByType {
     };
     "git.squashCommits": OperationResultViewModel;
     "git.createBranchFromCommit": OperationResultViewModel;
+    "git.createTag": OperationResultViewModel;
+    "git.deleteTag": OperationResultViewModel;
+    "git.pushTags": OperationResultViewModel;
     "git.pushAllCommitsToHere": OperationResultViewModel;
     "git.editCommitMessage": OperationResultViewModel;
+    "git.loadInteractiveRebase": {
+        plan?: InteractiveRebasePlanViewModel;
+        result: OperationResultViewModel;
+    };
+    "git.previewInteractiveRebase": OperationResultViewModel;
+    "git.interactiveRebase": OperationResultViewModel;
     "workingTree.load": {
         workingTree: WorkingTreeViewModel;
     };
@@ -474,12 +984,30 @@ export interface RpcPayloadByType {
         workingTree: WorkingTreeViewModel;
         result: OperationResultViewModel;
     };
+    "workingTree.getFileDiff": {
+        diff: WorkingTreeFileDiffViewModel;
+    };
+    "workingTree.stageHunk": {
+        workingTree: WorkingTreeViewModel;
+        result: OperationResultViewModel;
+    };
+    "workingTree.unstageHunk": {
+        workingTree: WorkingTreeViewModel;
+        result: OperationResultViewModel;
+    };
+    "workingTree.discardHunk": {
+        workingTree: WorkingTreeViewModel;
+        result: OperationResultViewModel;
+    };
     "workingTree.openFile": OperationResultViewModel;
     "workingTree.openDiff": OperationResultViewModel;
     "workingTree.commit": {
         workingTree: WorkingTreeViewModel;
         result: OperationResultViewModel;
     };
+    "workingTree.loadCommitComposer": {
+        composer: CommitComposerViewModel;
+    };
     "stash.list": {
         stashes: readonly StashEntryViewModel[];
     };
@@ -505,7 +1033,18 @@ export interface RpcPayloadByType {
     };
     "commitMessage.generate": {
         suggestion: CommitMessageSuggestionViewModel;
+        candidates?: readonly CommitMessageSuggestionViewModel[];
+        duplicateCount?: number;
+    };
+    "commitMessage.cancel": OperationResultViewModel;
+    "aiSummary.commit": {
+        summary: AiSummaryViewModel;
     };
+    "aiSummary.range": {
+        summary: AiSummaryViewModel;
+    };
+    "aiSummary.open": OperationResultViewModel;
+    "aiSummary.cancel": OperationResultViewModel;
     "settings.configureAiProvider": {
         i18n: I18nBundleViewModel;
         settings: SettingsViewModel;
@@ -536,6 +1075,11 @@ export type BackendNotification = {
 } | {
     type: "history.revealCommit";
     hash: string;
+} | {
+    type: "fileHistory.show";
+    repositoryId: string;
+    filePath: string;
+    lineRange?: FileHistoryLineRangeViewModel;
 } | {
     type: "settings.changed";
     settings: SettingsViewModel;
@@ -545,6 +1089,9 @@ export type BackendNotification = {
 } | {
     type: "operation.progress";
     progress: GitOperationProgressViewModel;
+} | {
+    type: "commitMessage.progress";
+    progress: CommitMessageProgressViewModel;
 } | {
     type: "workingTree.changed";
     reason: "watcher" | "operation";
@@ -0,0 +1,58 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AiSummary } from "./AiSummary";
+
+describe("AiSummary", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("shows a loading status without summary actions", () => {
+    render(<AiSummary state={{ status: "loading" }} />);
+
+    expect(screen.getByRole("status")).toHaveTextContent("Generating summary...");
+    expect(screen.queryByRole("button", { name: "Copy summary" })).not.toBeInTheDocument();
+  });
+
+  it("offers cancelling a summary while it is generating", async () => {
+    const user = userEvent.setup();
+    const onCancel = vi.fn();
+    render(<AiSummary onCancel={onCancel} state={{ status: "loading" }} />);
+
+    await user.click(screen.getByRole("button", { name: "Cancel" }));
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders the markdown and sends copy and open actions", async () => {
+    const user = userEvent.setup();
+    const onCopy = vi.fn();
+    const onOpen = vi.fn();
+    render(
+      <AiSummary
+        onCopy={onCopy}
+        onOpen={onOpen}
+        state={{ status: "ready", summary: { kind: "pullRequest", markdown: "## Summary\n\n- Adds a parser" } }}
+      />
+    );
+
+    expect(screen.getByRole("region", { name: "AI summary" })).toHaveTextContent("- Adds a parser");
+
+    await user.click(screen.getByRole("button", { name: "Copy summary" }));
+    await user.click(screen.getByRole("button", { name: "Open as Markdown document" }));
+
+    expect(onCopy).toHaveBeenCalledWith("## Summary\n\n- Adds a parser");
+    expect(onOpen).toHaveBeenCalledWith("## Summary\n\n- Adds a parser");
+  });
+
+  it("shows provider errors", () => {
+    render(<AiSummary state={{ error: "No VS Code language model is available", status: "error" }} />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent("No VS Code language model is available");
+  });
+});
@@ -0,0 +1,94 @@
+import type { ReactElement } from "react";
+import { Copy, FileText } from "lucide-react";
+import type { AiSummaryViewModel } from "../../app/rpcContract.generated";
+
+export interface AiSummaryLabels {
+  cancel: string;
+  copy: string;
+  generating: string;
+  openDocument: string;
+  title: string;
+}
+
+export interface AiSummaryState {
+  error?: string;
+  status: "error" | "loading" | "ready";
+  summary?: AiSummaryViewModel;
+}
+
+const defaultLabels: AiSummaryLabels = {
+  cancel: "Cancel",
+  copy: "Copy summary",
+  generating: "Generating summary...",
+  openDocument: "Open as Markdown document",
+  title: "AI summary"
+};
+
+export interface AiSummaryProps {
+  labels?: Partial<AiSummaryLabels>;
+  onCancel?: () => void;
+  onCopy?: (markdown: string) => void;
+  onOpen?: (markdown: string) => void;
+  state: AiSummaryState;
+}
+
+export function AiSummary({ labels, onCancel, onCopy, onOpen, state }: AiSummaryProps): ReactElement {
+  const text = { ...defaultLabels, ...labels };
+  const markdown = state.summary?.markdown;
+
+  return (
+    <section
+      aria-label={text.title}
+      className="space-y-2 rounded-[3px] border border-[var(--vscode-panel-border)] p-2 text-xs"
+      role="region"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="m-0 text-[11px] font-semibold uppercase text-[var(--vscode-descriptionForeground)]">{text.title}</h3>
+        {markdown ? (
+          <div className="flex items-center gap-1">
+            <button
+              aria-label={text.copy}
+              className="flex h-6 w-6 items-center justify-center rounded-[3px] text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={() => onCopy?.(markdown)}
+              title={text.copy}
+              type="button"
+            >
+              <Copy aria-hidden="true" size={14} />
+            </button>
+            <button
+              aria-label={text.openDocument}
+              className="flex h-6 w-6 items-center justify-center rounded-[3px] text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={() => onOpen?.(markdown)}
+              title={text.openDocument}
+              type="button"
+            >
+              <FileText aria-hidden="true" size={14} />
+            </button>
+          </div>
+        ) : null}
+      </div>
+      {state.status === "loading" ? (
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-[11px] text-[var(--vscode-descriptionForeground)]" role="status">
+            {text.generating}
+          </div>
+          {onCancel ? (
+            <button
+              className="rounded-[3px] border border-[var(--vscode-button-border)] px-2 py-0.5 text-[11px] text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)]"
+              onClick={onCancel}
+              type="button"
+            >
+              {text.cancel}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+      {state.status === "error" ? (
+        <div className="text-[11px] text-[var(--vscode-errorForeground)]" role="alert">
+          {state.error}
+        </div>
+      ) : null}
+      {markdown ? <pre className="m-0 whitespace-pre-wrap break-words font-[inherit] leading-5">{markdown}</pre> : null}
+    </section>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BisectBanner } from "./BisectBanner";
+
+const state = {
+  active: true,
+  bad: "9999999999999999999999999999999999999999",
+  candidates: ["9999999999999999999999999999999999999999", "5555555555555555555555555555555555555555"],
+  current: "5555555555555555555555555555555555555555",
+  good: ["1111111111111111111111111111111111111111"],
+  remainingRevisions: 3,
+  remainingSteps: 2,
+  skipped: []
+};
+
+describe("BisectBanner", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("shows the remaining steps and sends verdicts, run and reset", async () => {
+    const user = userEvent.setup();
+    const onMark = vi.fn();
+    const onReset = vi.fn();
+    const onRun = vi.fn();
+
+    render(<BisectBanner onMark={onMark} onReset={onReset} onRun={onRun} state={state} />);
+
+    expect(screen.getByRole("region", { name: "Git Bisect" })).toHaveTextContent(
+      "Bisecting at 55555555: 3 revisions left to test (roughly 2 steps)"
+    );
+
+    await user.click(screen.getByRole("button", { name: "Good" }));
+    await user.click(screen.getByRole("button", { name: "Bad" }));
+    await user.click(screen.getByRole("button", { name: "Skip" }));
+    await user.click(screen.getByRole("button", { name: "Run..." }));
+    await user.click(screen.getByRole("button", { name: "Reset Bisect" }));
+
+    expect(onMark.mock.calls).toEqual([["good"], ["bad"], ["skip"]]);
+    expect(onRun).toHaveBeenCalledTimes(1);
+    expect(onReset).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the first bad commit and only allows reset once finished", () => {
+    render(
+      <BisectBanner
+        state={{ ...state, candidates: [state.current], firstBad: state.current, remainingRevisions: 0, remainingSteps: 0 }}
+      />
+    );
+
+    expect(screen.getByRole("region", { name: "Git Bisect" })).toHaveTextContent("55555555 is the first bad commit");
+    expect(screen.getByRole("button", { name: "Good" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Run..." })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Reset Bisect" })).toBeEnabled();
+  });
+});
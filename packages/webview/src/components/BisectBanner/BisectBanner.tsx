@@ -0,0 +1,100 @@
+import type { ReactElement } from "react";
+import type { BisectStateViewModel, BisectVerdict } from "../../app/rpcContract.generated";
+
+export interface BisectBannerLabels {
+  bad: string;
+  firstBad: string;
+  good: string;
+  label: string;
+  progress: string;
+  reset: string;
+  run: string;
+  skip: string;
+  waiting: string;
+}
+
+export interface BisectBannerProps {
+  busy?: boolean;
+  labels?: BisectBannerLabels;
+  onMark?: (verdict: BisectVerdict) => void;
+  onReset?: () => void;
+  onRun?: () => void;
+  state: BisectStateViewModel;
+}
+
+export function BisectBanner({
+  busy = false,
+  labels = defaultBisectBannerLabels,
+  onMark,
+  onReset,
+  onRun,
+  state
+}: BisectBannerProps): ReactElement {
+  const current = state.current?.slice(0, 8) ?? "";
+  const finished = state.firstBad !== undefined;
+  const message = state.firstBad
+    ? formatLabel(labels.firstBad, state.firstBad.slice(0, 8))
+    : state.candidates.length > 0
+      ? formatLabel(labels.progress, current, state.remainingRevisions.toString(), state.remainingSteps.toString())
+      : labels.waiting;
+
+  return (
+    <section
+      aria-label={labels.label}
+      className="flex shrink-0 items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-[var(--vscode-notifications-background)] px-3 py-2 text-xs text-[var(--vscode-notifications-foreground)]"
+    >
+      <span className="min-w-0 flex-1 truncate" title={message}>
+        {message}
+      </span>
+      <BisectButton disabled={busy || finished} label={labels.good} onClick={() => onMark?.("good")} />
+      <BisectButton disabled={busy || finished} label={labels.bad} onClick={() => onMark?.("bad")} />
+      <BisectButton disabled={busy || finished} label={labels.skip} onClick={() => onMark?.("skip")} />
+      <BisectButton disabled={busy || finished || state.candidates.length === 0} label={labels.run} onClick={() => onRun?.()} />
+      <button
+        className="h-7 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-border,transparent)] bg-[var(--vscode-button-background)] px-2 text-xs text-[var(--vscode-button-foreground)] hover:bg-[var(--vscode-button-hoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+        disabled={busy}
+        onClick={onReset}
+        type="button"
+      >
+        {labels.reset}
+      </button>
+    </section>
+  );
+}
+
+function BisectButton({
+  disabled,
+  label,
+  onClick
+}: {
+  disabled: boolean;
+  label: string;
+  onClick: () => void;
+}): ReactElement {
+  return (
+    <button
+      className="h-7 shrink-0 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-secondaryBorder,transparent)] bg-[var(--vscode-button-secondaryBackground)] px-2 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+      disabled={disabled}
+      onClick={onClick}
+      type="button"
+    >
+      {label}
+    </button>
+  );
+}
+
+function formatLabel(label: string, ...values: readonly string[]): string {
+  return values.reduce((formatted, value, index) => formatted.replace(`{${index}}`, value), label);
+}
+
+const defaultBisectBannerLabels: BisectBannerLabels = {
+  bad: "Bad",
+  firstBad: "{0} is the first bad commit",
+  good: "Good",
+  label: "Git Bisect",
+  progress: "Bisecting at {0}: {1} revisions left to test (roughly {2} steps)",
+  reset: "Reset Bisect",
+  run: "Run...",
+  skip: "Skip",
+  waiting: "Bisecting: mark a good and a bad commit to narrow the range"
+};
@@ -1,12 +1,16 @@
 /**
  * @vitest-environment jsdom
  */
-import { act, cleanup, render, screen } from "@testing-library/react";
+import { act, cleanup, render, screen, within } from "@testing-library/react";
 import "@testing-library/jest-dom/vitest";
 import userEvent from "@testing-library/user-event";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { ChangesPanel } from "./ChangesPanel";
-import type { WorkingTreeViewModel } from "../../app/rpcContract.generated";
+import type {
+  CommitComposerViewModel,
+  WorkingTreeFileDiffViewModel,
+  WorkingTreeViewModel
+} from "../../app/rpcContract.generated";
 
 describe("ChangesPanel", () => {
   afterEach(() => {
@@ -46,6 +50,35 @@ describe("ChangesPanel", () => {
     expect(screen.getByRole("button", { name: "Open file src/new-file.ts" })).toBeInTheDocument();
   });
 
+  it("shows upstream ahead and behind counts and marks conflicted files", () => {
+    render(
+      <ChangesPanel
+        fileViewMode="list"
+        workingTree={{
+          ...workingTree,
+          ahead: 2,
+          behind: 1,
+          unstaged: [
+            {
+              area: "unstaged",
+              binary: false,
+              conflict: "bothModified",
+              deletions: 0,
+              insertions: 0,
+              path: "src/conflicted.ts",
+              status: "modified"
+            }
+          ],
+          upstream: "origin/main"
+        }}
+      />
+    );
+
+    expect(screen.getByText("2 ahead, 1 behind origin/main")).toBeInTheDocument();
+    expect(screen.getByText("conflict")).toBeInTheDocument();
+    expect(screen.getByText("src/conflicted.ts")).toBeInTheDocument();
+  });
+
   it("keeps the commit button disabled when the message is empty", () => {
     render(<ChangesPanel fileViewMode="list" workingTree={workingTree} />);
 
@@ -69,7 +102,97 @@ describe("ChangesPanel", () => {
     await user.type(screen.getByRole("textbox", { name: "Commit message" }), "feat: test");
     await user.click(screen.getByRole("button", { name: "Commit" }));
 
-    expect(onCommit).toHaveBeenCalledWith("feat: test");
+    expect(onCommit).toHaveBeenCalledWith("feat: test", false);
+  });
+
+  it("inserts templates and appends trailers with co-author suggestions", async () => {
+    const user = userEvent.setup();
+    const onCommit = vi.fn();
+
+    render(
+      <ChangesPanel
+        commitComposer={commitComposer}
+        currentUser={{ email: "ada@example.com", name: "Ada Lovelace" }}
+        fileViewMode="list"
+        onCommit={onCommit}
+        workingTree={workingTree}
+      />
+    );
+    await user.selectOptions(screen.getByRole("combobox", { name: "Insert template" }), "Feature");
+    expect(screen.getByRole("textbox", { name: "Commit message" })).toHaveValue("feat: add composer");
+
+    await user.click(screen.getByRole("button", { name: "Add trailer" }));
+    await user.type(screen.getByRole("combobox", { name: "Co-authored-by value" }), "Grace Hopper <grace@example.com>");
+    await user.selectOptions(screen.getAllByRole("combobox", { name: "Trailer" }).at(-1)!, "Signed-off-by");
+    await user.click(screen.getByRole("button", { name: "Add trailer" }));
+    await user.click(screen.getByRole("button", { name: "Commit" }));
+
+    expect(screen.getByRole("textbox", { name: "Signed-off-by value" })).toHaveValue("Ada Lovelace <ada@example.com>");
+    expect(document.querySelector("datalist option")).toHaveAttribute("value", "Grace Hopper <grace@example.com>");
+    expect(onCommit).toHaveBeenCalledWith(
+      "feat: add composer\n\nCo-authored-by: Grace Hopper <grace@example.com>\nSigned-off-by: Ada Lovelace <ada@example.com>",
+      false
+    );
+  });
+
+  it("preloads the HEAD message when amending and restores the draft afterwards", async () => {
+    const user = userEvent.setup();
+    const onCommit = vi.fn();
+
+    render(
+      <ChangesPanel
+        commitComposer={commitComposer}
+        fileViewMode="list"
+        onCommit={onCommit}
+        workingTree={{ ...workingTree, staged: [] }}
+      />
+    );
+    const message = screen.getByRole("textbox", { name: "Commit message" });
+    await user.type(message, "draft");
+    await user.click(screen.getByRole("checkbox", { name: "Amend last commit" }));
+
+    expect(message).toHaveValue("fix: previous commit\n\nBody");
+    await user.click(screen.getByRole("button", { name: "Amend" }));
+    expect(onCommit).toHaveBeenCalledWith("fix: previous commit\n\nBody", true);
+
+    await user.click(screen.getByRole("checkbox", { name: "Amend last commit" }));
+    expect(message).toHaveValue("draft");
+    expect(screen.getByRole("button", { name: "Commit" })).toBeDisabled();
+  });
+
+  it("blocks commits without a blank line after the subject and warns about long subjects", async () => {
+    const user = userEvent.setup();
+
+    render(<ChangesPanel fileViewMode="list" workingTree={workingTree} />);
+    const message = screen.getByRole("textbox", { name: "Commit message" });
+    await user.type(message, `feat: ${"x".repeat(70)}{Enter}body`);
+
+    expect(screen.getByTestId("commit-message-issues")).toHaveTextContent(
+      "Subject is longer than 72 charactersSeparate the subject from the body with a blank line"
+    );
+    expect(screen.getByRole("button", { name: "Commit" })).toBeDisabled();
+
+    await user.clear(message);
+    await user.type(message, `feat: ${"x".repeat(70)}{Enter}{Enter}body`);
+    expect(screen.getByTestId("commit-message-issues")).toHaveTextContent("Subject is longer than 72 characters");
+    expect(screen.getByRole("button", { name: "Commit" })).toBeEnabled();
+  });
+
+  it("toggles explicit signing unless commit.gpgSign already signs commits", async () => {
+    const user = userEvent.setup();
+    const onSignCommitChange = vi.fn();
+
+    const { rerender } = render(
+      <ChangesPanel fileViewMode="list" onSignCommitChange={onSignCommitChange} workingTree={workingTree} />
+    );
+    await user.click(screen.getByRole("checkbox", { name: "Sign commit" }));
+
+    expect(onSignCommitChange).toHaveBeenCalledWith(true);
+
+    rerender(<ChangesPanel fileViewMode="list" workingTree={{ ...workingTree, signCommits: true }} />);
+
+    expect(screen.getByRole("checkbox", { name: "Sign commit" })).toBeChecked();
+    expect(screen.getByRole("checkbox", { name: "Sign commit" })).toBeDisabled();
   });
 
   it("starts commit message generation and applies the returned suggestion", async () => {
@@ -94,9 +217,74 @@ describe("ChangesPanel", () => {
     );
 
     expect(onGenerateCommitMessage).toHaveBeenCalledTimes(1);
+    expect(onGenerateCommitMessage).toHaveBeenCalledWith(1);
     expect(screen.getByRole("textbox", { name: "Commit message" })).toHaveValue("feat: generated");
   });
 
+  it("streams several generated candidates side by side and applies the chosen one", async () => {
+    const user = userEvent.setup();
+    const onGenerateCommitMessage = vi.fn(() => "generate-1");
+    const { rerender } = render(
+      <ChangesPanel
+        fileViewMode="list"
+        onGenerateCommitMessage={onGenerateCommitMessage}
+        workingTree={workingTree}
+      />
+    );
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Candidates" }), "2");
+    await user.click(screen.getByRole("button", { name: "Generate" }));
+    rerender(
+      <ChangesPanel
+        commitMessageCandidates={["feat: add", "fix: repair st"]}
+        fileViewMode="list"
+        generatingCommitMessage
+        onGenerateCommitMessage={onGenerateCommitMessage}
+        workingTree={workingTree}
+      />
+    );
+
+    const streaming = within(screen.getByTestId("commit-message-candidates"));
+    expect(onGenerateCommitMessage).toHaveBeenCalledWith(2);
+    expect(streaming.getByText("fix: repair st")).toBeInTheDocument();
+    expect(streaming.getByRole("button", { name: "Use option 2" })).toBeDisabled();
+
+    rerender(
+      <ChangesPanel
+        commitMessageCandidates={["feat: add parser", "fix: repair streaming"]}
+        commitMessageSuggestion={{ message: "feat: add parser", requestId: "generate-1" }}
+        fileViewMode="list"
+        onGenerateCommitMessage={onGenerateCommitMessage}
+        workingTree={workingTree}
+      />
+    );
+    expect(screen.getByRole("textbox", { name: "Commit message" })).toHaveValue("feat: add parser");
+
+    await user.click(screen.getByRole("button", { name: "Use option 2" }));
+
+    expect(screen.getByRole("textbox", { name: "Commit message" })).toHaveValue("fix: repair streaming");
+  });
+
+  it("cancels a running commit message generation", async () => {
+    const user = userEvent.setup();
+    const onCancelCommitMessageGeneration = vi.fn();
+    render(
+      <ChangesPanel
+        commitMessageCandidates={["feat: partial"]}
+        fileViewMode="list"
+        generatingCommitMessage
+        onCancelCommitMessageGeneration={onCancelCommitMessageGeneration}
+        workingTree={workingTree}
+      />
+    );
+
+    expect(screen.getByTestId("commit-message-candidates")).toHaveTextContent("feat: partial");
+
+    await user.click(screen.getByRole("button", { name: "Cancel" }));
+
+    expect(onCancelCommitMessageGeneration).toHaveBeenCalledTimes(1);
+  });
+
   it("disables commit message generation while a request is pending", () => {
     render(
       <ChangesPanel
@@ -394,6 +582,40 @@ describe("ChangesPanel", () => {
     expect(screen.queryByRole("button", { name: "Discard src/staged.ts" })).not.toBeInTheDocument();
   });
 
+  it("shows submodule changes without hunk controls", () => {
+    render(
+      <ChangesPanel
+        fileViewMode="list"
+        workingTree={{
+          ...workingTree,
+          unstaged: [
+            {
+              area: "unstaged",
+              binary: false,
+              deletions: 0,
+              insertions: 0,
+              path: "vendor/lib",
+              status: "modified",
+              submodule: {
+                commits: [{ hash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa", message: "Dropped commit" }],
+                newHash: "cccccccccccccccccccccccccccccccccccccccc",
+                oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+                rewound: true
+              }
+            }
+          ]
+        }}
+      />
+    );
+
+    expect(screen.getByText("submodule")).toBeInTheDocument();
+    expect(screen.getByText("aaaaaaa → ccccccc")).toBeInTheDocument();
+    expect(screen.getByText("Submodule rewound past these commits")).toBeInTheDocument();
+    expect(screen.getByText("Dropped commit")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Show changes in vendor/lib" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Stage vendor/lib" })).toBeInTheDocument();
+  });
+
   it("sends previous paths with renamed working tree diff actions", async () => {
     const user = userEvent.setup();
     const onOpenFileDiff = vi.fn();
@@ -406,6 +628,76 @@ describe("ChangesPanel", () => {
     expect(onOpenFileDiff).toHaveBeenNthCalledWith(1, "src/staged-new.ts", "staged", "src/staged-old.ts");
     expect(onOpenFileDiff).toHaveBeenNthCalledWith(2, "src/unstaged-new.ts", "unstaged", "src/unstaged-old.ts");
   });
+
+  it("loads hunks for expanded files and sends hunk and line selections", async () => {
+    const user = userEvent.setup();
+    const onDiscardHunk = vi.fn();
+    const onLoadFileDiff = vi.fn();
+    const onStageHunk = vi.fn();
+    const onUnstageHunk = vi.fn();
+    const { rerender } = render(
+      <ChangesPanel
+        fileViewMode="list"
+        onDiscardHunk={onDiscardHunk}
+        onLoadFileDiff={onLoadFileDiff}
+        onStageHunk={onStageHunk}
+        onUnstageHunk={onUnstageHunk}
+        workingTree={workingTree}
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Show changes in src/unstaged.ts" }));
+
+    expect(onLoadFileDiff).toHaveBeenCalledWith("src/unstaged.ts", "unstaged");
+    expect(screen.getByText("Loading changes...")).toBeInTheDocument();
+
+    rerender(
+      <ChangesPanel
+        fileDiffs={[unstagedFileDiff]}
+        fileViewMode="list"
+        onDiscardHunk={onDiscardHunk}
+        onLoadFileDiff={onLoadFileDiff}
+        onStageHunk={onStageHunk}
+        onUnstageHunk={onUnstageHunk}
+        workingTree={workingTree}
+      />
+    );
+    const hunk = screen.getByRole("group", { name: "Hunk 1 in src/unstaged.ts" });
+    expect(within(hunk).getByText("@@ -1,2 +1,2 @@")).toBeInTheDocument();
+    await user.click(within(hunk).getByRole("button", { name: "Stage hunk 1 in src/unstaged.ts" }));
+    await user.click(within(hunk).getByRole("button", { name: "+const value = 2;" }));
+
+    expect(within(hunk).getByRole("button", { name: "+const value = 2;" })).toHaveAttribute("aria-pressed", "true");
+    await user.click(within(hunk).getByRole("button", { name: "Stage selected lines in hunk 1 of src/unstaged.ts" }));
+    await user.click(within(hunk).getByRole("button", { name: "Discard selected lines in hunk 1 of src/unstaged.ts" }));
+
+    expect(onStageHunk).toHaveBeenNthCalledWith(1, { filePath: "src/unstaged.ts", hunkHeader: "@@ -1,2 +1,2 @@", hunkIndex: 0 });
+    expect(onStageHunk).toHaveBeenNthCalledWith(2, {
+      filePath: "src/unstaged.ts",
+      hunkHeader: "@@ -1,2 +1,2 @@",
+      hunkIndex: 0,
+      lineIndexes: [2]
+    });
+    expect(onDiscardHunk).toHaveBeenCalledWith({
+      filePath: "src/unstaged.ts",
+      hunkHeader: "@@ -1,2 +1,2 @@",
+      hunkIndex: 0,
+      lineIndexes: [2]
+    });
+
+    rerender(
+      <ChangesPanel
+        fileDiffs={[unstagedFileDiff]}
+        fileViewMode="list"
+        onLoadFileDiff={onLoadFileDiff}
+        workingTree={{ ...workingTree }}
+      />
+    );
+
+    expect(onLoadFileDiff).toHaveBeenCalledTimes(2);
+    expect(screen.getByRole("button", { name: "Show changes in src/staged.ts" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Discard hunk 1 in src/staged.ts" })).not.toBeInTheDocument();
+  });
 });
 
 const workingTree = {
@@ -423,6 +715,13 @@ const workingTree = {
   ]
 } satisfies WorkingTreeViewModel;
 
+const commitComposer = {
+  coAuthors: [{ commits: 4, email: "grace@example.com", name: "Grace Hopper" }],
+  headMessage: "fix: previous commit\n\nBody",
+  repositoryId: "/repo",
+  templates: [{ message: "feat: add composer", name: "Feature", source: "settings" }]
+} satisfies CommitComposerViewModel;
+
 const renameWorkingTree = {
   branch: "main",
   repositoryId: "/repo",
@@ -476,3 +775,23 @@ const treeWorkingTree = {
     }
   ]
 } satisfies WorkingTreeViewModel;
+
+const unstagedFileDiff = {
+  binary: false,
+  filePath: "src/unstaged.ts",
+  hunks: [
+    {
+      header: "@@ -1,2 +1,2 @@",
+      lines: [
+        { content: "export {};", kind: "context", newLineNumber: 1, oldLineNumber: 1 },
+        { content: "const value = 1;", kind: "removed", oldLineNumber: 2 },
+        { content: "const value = 2;", kind: "added", newLineNumber: 2 }
+      ],
+      newLines: 2,
+      newStart: 1,
+      oldLines: 2,
+      oldStart: 1
+    }
+  ],
+  kind: "unstaged"
+} satisfies WorkingTreeFileDiffViewModel;
@@ -1,23 +1,48 @@
-import { useEffect, useMemo, useRef, useState, type ReactElement } from "react";
-import { Check, FileText, RefreshCw, RotateCcw, X } from "lucide-react";
+import { useEffect, useId, useMemo, useRef, useState, type ReactElement } from "react";
+import { Check, ChevronDown, ChevronRight, FileText, Plus, RefreshCw, RotateCcw, X } from "lucide-react";
 import type {
+  CommitAuthorViewModel,
+  CommitComposerViewModel,
+  CurrentUserViewModel,
   FileViewMode,
   RepositoryViewModel,
+  WorkingTreeDiffHunkViewModel,
   WorkingTreeDiffKind,
   WorkingTreeFileChangeViewModel,
+  WorkingTreeFileDiffViewModel,
+  WorkingTreeHunkSelectionViewModel,
   WorkingTreeViewModel
 } from "../../app/rpcContract.generated";
 import { FileViewModeControls } from "../FileChanges/FileChanges";
+import { SubmoduleCommitRange, SubmoduleCommits } from "../FileChanges/SubmoduleChange";
 import { compressDirectoryChain } from "../FileChanges/treeCompression";
 import { IconTooltip } from "../IconTooltip/IconTooltip";
+import {
+  blocksCommit,
+  commitTrailerKeys,
+  composeCommitMessage,
+  maxCommitSubjectLength,
+  validateCommitMessage,
+  type CommitMessageIssue,
+  type CommitTrailer,
+  type CommitTrailerKey
+} from "./commitMessage";
 
 export interface ChangesPanelLabels {
+  addTrailer: string;
+  aheadBehind: string;
+  amendCommit: string;
+  amendLastCommit: string;
   binary: string;
   branch: string;
+  cancelGeneration: string;
+  candidate: string;
+  candidateCount: string;
   changes: string;
   collapseDirectory: string;
   commit: string;
   commitMessage: string;
+  conflict: string;
   expandDirectory: string;
   generate: string;
   generateCommitMessageGenerating: string;
@@ -28,24 +53,57 @@ export interface ChangesPanelLabels {
   openDiff: string;
   openFile: string;
   discard: string;
+  discardHunk: string;
+  discardLines: string;
+  emptySubject: string;
+  hideChanges: string;
+  hunk: string;
+  loadingChanges: string;
+  missingBlankLine: string;
+  noTextChanges: string;
   refreshChanges: string;
+  removeTrailer: string;
   repository: string;
+  showChanges: string;
+  signCommit: string;
+  signCommitConfigured: string;
   stage: string;
   stageAll: string;
   stagedChanges: string;
+  stageHunk: string;
+  stageLines: string;
+  subjectTooLong: string;
+  submodule: string;
+  submoduleModified: string;
+  submoduleRewound: string;
+  template: string;
+  trailerKey: string;
+  trailerValue: string;
   tree: string;
   treeView: string;
   unstage: string;
   unstageAll: string;
+  unstageHunk: string;
+  unstageLines: string;
+  useCandidate: string;
+  useCandidateLabel: string;
 }
 
 const defaultLabels: ChangesPanelLabels = {
+  addTrailer: "Add trailer",
+  aheadBehind: "{0} ahead, {1} behind {2}",
+  amendCommit: "Amend",
+  amendLastCommit: "Amend last commit",
   binary: "binary",
   branch: "Branch",
+  cancelGeneration: "Cancel",
+  candidate: "Option {0}",
+  candidateCount: "Candidates",
   changes: "Changes",
   collapseDirectory: "Collapse {0}",
   commit: "Commit",
   commitMessage: "Commit message",
+  conflict: "conflict",
   expandDirectory: "Expand {0}",
   generate: "Generate",
   generateCommitMessageGenerating: "Generating...",
@@ -56,39 +114,76 @@ const defaultLabels: ChangesPanelLabels = {
   openDiff: "Open diff for {0}",
   openFile: "Open file {0}",
   discard: "Discard {0}",
+  discardHunk: "Discard hunk {1} in {0}",
+  discardLines: "Discard selected lines in hunk {1} of {0}",
+  emptySubject: "The first line must contain the commit subject",
+  hideChanges: "Hide changes in {0}",
+  hunk: "Hunk {1} in {0}",
+  loadingChanges: "Loading changes...",
+  missingBlankLine: "Separate the subject from the body with a blank line",
+  noTextChanges: "No text changes to stage by hunk",
   refreshChanges: "Refresh Changes",
+  removeTrailer: "Remove {0} trailer",
   repository: "Repository",
+  showChanges: "Show changes in {0}",
+  signCommit: "Sign commit",
+  signCommitConfigured: "Signed by commit.gpgSign",
   stage: "Stage {0}",
   stageAll: "Stage All",
   stagedChanges: "Staged Changes",
+  stageHunk: "Stage hunk {1} in {0}",
+  stageLines: "Stage selected lines in hunk {1} of {0}",
+  subjectTooLong: "Subject is longer than {0} characters",
+  submodule: "submodule",
+  submoduleModified: "Submodule has modified content",
+  submoduleRewound: "Submodule rewound past these commits",
+  template: "Insert template",
+  trailerKey: "Trailer",
+  trailerValue: "{0} value",
   tree: "Tree",
   treeView: "Tree view",
   unstage: "Unstage {0}",
-  unstageAll: "Unstage All"
+  unstageAll: "Unstage All",
+  unstageHunk: "Unstage hunk {1} in {0}",
+  unstageLines: "Unstage selected lines in hunk {1} of {0}",
+  useCandidate: "Use",
+  useCandidateLabel: "Use option {0}"
 };
 
 const longRunningCommitMessageGenerationDelayMs = 8000;
+const commitMessageCandidateCounts = [1, 2, 3] as const;
 
 export interface ChangesPanelProps {
+  commitComposer?: CommitComposerViewModel;
+  commitMessageCandidates?: readonly string[];
   commitMessageResetKey?: number;
   commitMessageSuggestion?: { message: string; requestId: string };
+  currentUser?: CurrentUserViewModel;
+  fileDiffs?: readonly WorkingTreeFileDiffViewModel[];
   fileViewMode: FileViewMode;
   generatingCommitMessage?: boolean;
   labels?: Partial<ChangesPanelLabels>;
   operationBusy?: boolean;
   operationStatus?: ChangesPanelOperationStatus;
   repository?: RepositoryViewModel;
-  onCommit?: (message: string) => void;
+  signCommit?: boolean;
+  onCancelCommitMessageGeneration?: () => void;
+  onCommit?: (message: string, amend: boolean) => void;
   onFileViewModeChange?: (mode: FileViewMode) => void;
-  onGenerateCommitMessage?: () => string | undefined;
+  onGenerateCommitMessage?: (candidates: number) => string | undefined;
   onDiscardFile?: (path: string) => void;
+  onDiscardHunk?: (selection: WorkingTreeHunkSelectionViewModel) => void;
+  onLoadFileDiff?: (path: string, kind: WorkingTreeDiffKind) => void;
   onOpenFile?: (path: string) => void;
   onOpenFileDiff?: (path: string, kind: WorkingTreeDiffKind, previousPath?: string) => void;
   onRefresh?: () => void;
+  onSignCommitChange?: (sign: boolean) => void;
   onStageAll?: () => void;
   onStageFile?: (path: string) => void;
+  onStageHunk?: (selection: WorkingTreeHunkSelectionViewModel) => void;
   onUnstageAll?: () => void;
   onUnstageFile?: (path: string) => void;
+  onUnstageHunk?: (selection: WorkingTreeHunkSelectionViewModel) => void;
   workingTree?: WorkingTreeViewModel;
 }
 
@@ -102,38 +197,82 @@ interface TreeNode {
   file?: WorkingTreeFileChangeViewModel;
 }
 
+interface WorkingTreeHunkControls {
+  diffs: readonly WorkingTreeFileDiffViewModel[];
+  expandedPaths: ReadonlySet<string>;
+  labels: {
+    hideChanges: string;
+    hunk: string;
+    loadingChanges: string;
+    noTextChanges: string;
+    primaryHunk: string;
+    primaryLines: string;
+    secondaryHunk?: string;
+    secondaryLines?: string;
+    showChanges: string;
+  };
+  onPrimaryAction?: (selection: WorkingTreeHunkSelectionViewModel) => void;
+  onSecondaryAction?: (selection: WorkingTreeHunkSelectionViewModel) => void;
+  onToggle(path: string): void;
+}
+
 export function ChangesPanel({
+  commitComposer,
+  commitMessageCandidates = [],
   commitMessageResetKey = 0,
   commitMessageSuggestion,
+  currentUser,
+  fileDiffs = [],
   fileViewMode,
   generatingCommitMessage = false,
   labels,
   operationBusy = false,
   operationStatus,
   repository,
+  signCommit = false,
+  onCancelCommitMessageGeneration,
   onCommit,
   onDiscardFile,
+  onDiscardHunk,
   onFileViewModeChange,
   onGenerateCommitMessage,
+  onLoadFileDiff,
   onOpenFile,
   onOpenFileDiff,
   onRefresh,
+  onSignCommitChange,
   onStageAll,
   onStageFile,
+  onStageHunk,
   onUnstageAll,
   onUnstageFile,
+  onUnstageHunk,
   workingTree
 }: ChangesPanelProps): ReactElement {
   const text = { ...defaultLabels, ...labels };
   const [commitMessage, setCommitMessage] = useState("");
+  const [amend, setAmend] = useState(false);
+  const [trailers, setTrailers] = useState<readonly CommitTrailer[]>([]);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const draftBeforeAmendRef = useRef("");
+  const nextTrailerIdRef = useRef(0);
   const [generationLongRunning, setGenerationLongRunning] = useState(false);
+  const [expandedDiffs, setExpandedDiffs] = useState<ReadonlySet<string>>(new Set());
   const editSequenceRef = useRef(0);
   const latestGenerateRequestIdRef = useRef<string | undefined>(undefined);
   const generateRequestEditSequencesRef = useRef(new Map<string, number>());
   const staged = workingTree?.staged ?? [];
   const unstaged = workingTree?.unstaged ?? [];
   const workingTreeBlocksCommit = workingTree?.operationState?.status === "conflict";
-  const canCommit = !operationBusy && !workingTreeBlocksCommit && staged.length > 0 && commitMessage.trim().length > 0;
+  const signedByConfig = workingTree?.signCommits ?? false;
+  const composedMessage = composeCommitMessage(commitMessage, trailers);
+  const messageIssues = commitMessage.trim() ? validateCommitMessage(composedMessage) : [];
+  const canCommit =
+    !operationBusy &&
+    !workingTreeBlocksCommit &&
+    (amend || staged.length > 0) &&
+    commitMessage.trim().length > 0 &&
+    !blocksCommit(messageIssues);
   const status = operationStatus ?? workingTreeOperationStatus(workingTree);
   const generationStatus = generatingCommitMessage
     ? generationLongRunning
@@ -143,6 +282,8 @@ export function ChangesPanel({
 
   useEffect(() => {
     setCommitMessage("");
+    setAmend(false);
+    setTrailers([]);
     editSequenceRef.current += 1;
     latestGenerateRequestIdRef.current = undefined;
     generateRequestEditSequencesRef.current.clear();
@@ -176,13 +317,79 @@ export function ChangesPanel({
     return () => window.clearTimeout(timeout);
   }, [generatingCommitMessage]);
 
+  useEffect(() => {
+    const filesByKind: Record<WorkingTreeDiffKind, readonly WorkingTreeFileChangeViewModel[]> = { staged, unstaged };
+    const stillChanged = [...expandedDiffs].filter((key) => {
+      const [kind, path] = splitFileDiffKey(key);
+      return filesByKind[kind].some((file) => file.path === path && file.area !== "untracked");
+    });
+    if (stillChanged.length !== expandedDiffs.size) {
+      setExpandedDiffs(new Set(stillChanged));
+    }
+    for (const key of stillChanged) {
+      const [kind, path] = splitFileDiffKey(key);
+      onLoadFileDiff?.(path, kind);
+    }
+  }, [workingTree]);
+
+  const toggleFileDiff = (kind: WorkingTreeDiffKind, path: string) => {
+    const key = fileDiffKey(kind, path);
+    const next = new Set(expandedDiffs);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+      onLoadFileDiff?.(path, kind);
+    }
+    setExpandedDiffs(next);
+  };
+
+  const hunkControls = (kind: WorkingTreeDiffKind): Omit<WorkingTreeHunkControls, "labels" | "onPrimaryAction" | "onSecondaryAction"> => ({
+    diffs: fileDiffs.filter((diff) => diff.kind === kind),
+    expandedPaths: new Set(
+      [...expandedDiffs].map(splitFileDiffKey).filter(([diffKind]) => diffKind === kind).map(([, path]) => path)
+    ),
+    onToggle: (path) => toggleFileDiff(kind, path)
+  });
+
   const changeCommitMessage = (message: string) => {
     editSequenceRef.current += 1;
     setCommitMessage(message);
   };
 
+  const toggleAmend = (enabled: boolean) => {
+    setAmend(enabled);
+    if (enabled) {
+      draftBeforeAmendRef.current = commitMessage;
+      changeCommitMessage(commitComposer?.headMessage ?? "");
+    } else {
+      changeCommitMessage(draftBeforeAmendRef.current);
+    }
+  };
+
+  const applyTemplate = (name: string) => {
+    const template = commitComposer?.templates.find((candidate) => candidate.name === name);
+    if (template) {
+      changeCommitMessage(template.message);
+    }
+  };
+
+  const addTrailer = (key: CommitTrailerKey) => {
+    nextTrailerIdRef.current += 1;
+    const value = key === "Signed-off-by" && currentUser ? formatIdentity(currentUser) : "";
+    setTrailers((current) => [...current, { id: nextTrailerIdRef.current, key, value }]);
+  };
+
+  const updateTrailer = (id: number, update: Partial<Omit<CommitTrailer, "id">>) => {
+    setTrailers((current) => current.map((trailer) => (trailer.id === id ? { ...trailer, ...update } : trailer)));
+  };
+
+  const removeTrailer = (id: number) => {
+    setTrailers((current) => current.filter((trailer) => trailer.id !== id));
+  };
+
   const generateCommitMessage = () => {
-    const requestId = onGenerateCommitMessage?.();
+    const requestId = onGenerateCommitMessage?.(candidateCount);
     if (requestId) {
       latestGenerateRequestIdRef.current = requestId;
       generateRequestEditSequencesRef.current.set(requestId, editSequenceRef.current);
@@ -202,6 +409,16 @@ export function ChangesPanel({
             <span aria-hidden="true">·</span>
             <span>{text.branch}</span>
             <span className="truncate text-[var(--vscode-foreground)]">{workingTree?.branch}</span>
+            {workingTree?.upstream ? (
+              <span className="truncate">
+                {formatLabel(
+                  text.aheadBehind,
+                  String(workingTree.ahead ?? 0),
+                  String(workingTree.behind ?? 0),
+                  workingTree.upstream
+                )}
+              </span>
+            ) : null}
           </div>
           {status ? (
             <div className={statusClassName(status.state)} role="status">
@@ -224,6 +441,35 @@ export function ChangesPanel({
         <FileViewModeControls labels={text} mode={fileViewMode} onModeChange={onFileViewModeChange} />
       </div>
       <section className="space-y-2 rounded-[3px] border border-[var(--vscode-panel-border)] p-2">
+        <div className="flex flex-wrap items-center gap-2 text-[11px]">
+          {commitComposer && commitComposer.templates.length > 0 ? (
+            <select
+              aria-label={text.template}
+              className="min-w-0 max-w-[180px] rounded-[3px] border border-[var(--vscode-dropdown-border)] bg-[var(--vscode-dropdown-background)] px-1 py-0.5 text-[var(--vscode-dropdown-foreground)]"
+              onChange={(event) => {
+                applyTemplate(event.currentTarget.value);
+                event.currentTarget.value = "";
+              }}
+              value=""
+            >
+              <option value="">{text.template}</option>
+              {commitComposer.templates.map((template) => (
+                <option key={`${template.source}-${template.name}`} value={template.name}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <label className="ml-auto flex items-center gap-1.5 text-[var(--vscode-descriptionForeground)]">
+            <input
+              checked={amend}
+              disabled={!commitComposer?.headMessage}
+              onChange={(event) => toggleAmend(event.currentTarget.checked)}
+              type="checkbox"
+            />
+            {text.amendLastCommit}
+          </label>
+        </div>
         <label className="flex flex-col gap-1 text-xs">
           <span>{text.commitMessage}</span>
           <textarea
@@ -233,12 +479,58 @@ export function ChangesPanel({
             value={commitMessage}
           />
         </label>
+        <CommitTrailerEditor
+          coAuthors={commitComposer?.coAuthors ?? []}
+          labels={text}
+          onAdd={addTrailer}
+          onChange={updateTrailer}
+          onRemove={removeTrailer}
+          trailers={trailers}
+        />
+        {messageIssues.length > 0 ? (
+          <ul className="space-y-0.5 text-[11px]" data-testid="commit-message-issues">
+            {messageIssues.map((issue) => (
+              <li
+                className={blocksCommit([issue]) ? "text-[var(--vscode-errorForeground)]" : "text-[var(--vscode-editorWarning-foreground)]"}
+                key={issue}
+              >
+                {commitMessageIssueLabel(issue, text)}
+              </li>
+            ))}
+          </ul>
+        ) : null}
         <div className="flex flex-wrap items-center justify-end gap-2">
+          <label
+            className="mr-auto flex items-center gap-1.5 text-[11px] text-[var(--vscode-descriptionForeground)]"
+            title={signedByConfig ? text.signCommitConfigured : undefined}
+          >
+            <input
+              checked={signedByConfig || signCommit}
+              disabled={signedByConfig}
+              onChange={(event) => onSignCommitChange?.(event.currentTarget.checked)}
+              type="checkbox"
+            />
+            {text.signCommit}
+          </label>
           {generationStatus ? (
             <div className="min-w-0 flex-1 text-[11px] text-[var(--vscode-descriptionForeground)]" role="status">
               {generationStatus}
             </div>
           ) : null}
+          <select
+            aria-label={text.candidateCount}
+            className="rounded-[3px] border border-[var(--vscode-dropdown-border)] bg-[var(--vscode-dropdown-background)] px-1 py-0.5 text-[11px] text-[var(--vscode-dropdown-foreground)] disabled:opacity-50"
+            disabled={generatingCommitMessage}
+            onChange={(event) => setCandidateCount(Number(event.currentTarget.value))}
+            title={text.candidateCount}
+            value={candidateCount}
+          >
+            {commitMessageCandidateCounts.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
           <button
             className="inline-flex min-w-24 items-center justify-center gap-1.5 rounded-[3px] border border-[var(--vscode-button-border)] px-2 py-1 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
             disabled={generatingCommitMessage}
@@ -253,28 +545,62 @@ export function ChangesPanel({
             ) : null}
             {generatingCommitMessage ? text.generateCommitMessageGenerating : text.generate}
           </button>
+          {generatingCommitMessage ? (
+            <button
+              className="rounded-[3px] border border-[var(--vscode-button-border)] px-2 py-1 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)]"
+              onClick={onCancelCommitMessageGeneration}
+              type="button"
+            >
+              {text.cancelGeneration}
+            </button>
+          ) : null}
           <button
             className="rounded-[3px] bg-[var(--vscode-button-background)] px-3 py-1 text-xs text-[var(--vscode-button-foreground)] disabled:cursor-not-allowed disabled:opacity-50"
             disabled={!canCommit}
-            onClick={() => onCommit?.(commitMessage)}
+            onClick={() => onCommit?.(composedMessage, amend)}
             type="button"
           >
-            {text.commit}
+            {amend ? text.amendCommit : text.commit}
           </button>
         </div>
+        {commitMessageCandidates.length > 1 || (generatingCommitMessage && commitMessageCandidates.length > 0) ? (
+          <CommitMessageCandidates
+            candidates={commitMessageCandidates}
+            generating={generatingCommitMessage}
+            labels={text}
+            onUse={changeCommitMessage}
+          />
+        ) : null}
       </section>
       <WorkingTreeFileSection
         action="unstage"
         files={staged}
+        hunks={{
+          ...hunkControls("staged"),
+          labels: {
+            hideChanges: text.hideChanges,
+            hunk: text.hunk,
+            loadingChanges: text.loadingChanges,
+            noTextChanges: text.noTextChanges,
+            primaryHunk: text.unstageHunk,
+            primaryLines: text.unstageLines,
+            showChanges: text.showChanges
+          },
+          onPrimaryAction: onUnstageHunk
+        }}
         mode={fileViewMode}
         labels={{
           binary: text.binary,
           bulkAction: text.unstageAll,
           collapseDirectory: text.collapseDirectory,
+          conflict: text.conflict,
           expandDirectory: text.expandDirectory,
           openDiff: text.openDiff,
           openFile: text.openFile,
           primaryAction: text.unstage,
+          submodule: text.submodule,
+          submoduleModified: text.submoduleModified,
+          submoduleRewound: text.submoduleRewound,
           title: text.stagedChanges
         }}
         onOpenFile={onOpenFile}
@@ -285,16 +611,36 @@ export function ChangesPanel({
       <WorkingTreeFileSection
         action="stage"
         files={unstaged}
+        hunks={{
+          ...hunkControls("unstaged"),
+          labels: {
+            hideChanges: text.hideChanges,
+            hunk: text.hunk,
+            loadingChanges: text.loadingChanges,
+            noTextChanges: text.noTextChanges,
+            primaryHunk: text.stageHunk,
+            primaryLines: text.stageLines,
+            secondaryHunk: text.discardHunk,
+            secondaryLines: text.discardLines,
+            showChanges: text.showChanges
+          },
+          onPrimaryAction: onStageHunk,
+          onSecondaryAction: onDiscardHunk
+        }}
         mode={fileViewMode}
         labels={{
           binary: text.binary,
           bulkAction: text.stageAll,
           collapseDirectory: text.collapseDirectory,
+          conflict: text.conflict,
           expandDirectory: text.expandDirectory,
           openDiff: text.openDiff,
           openFile: text.openFile,
           primaryAction: text.stage,
           secondaryAction: text.discard,
+          submodule: text.submodule,
+          submoduleModified: text.submoduleModified,
+          submoduleRewound: text.submoduleRewound,
           title: text.changes
         }}
         onSecondaryAction={onDiscardFile}
@@ -307,9 +653,122 @@ export function ChangesPanel({
   );
 }
 
+function CommitMessageCandidates({
+  candidates,
+  generating,
+  labels,
+  onUse
+}: {
+  candidates: readonly string[];
+  generating: boolean;
+  labels: Pick<ChangesPanelLabels, "candidate" | "useCandidate" | "useCandidateLabel">;
+  onUse: (message: string) => void;
+}): ReactElement {
+  return (
+    <ul className="grid grid-cols-[repeat(auto-fit,minmax(160px,1fr))] gap-2" data-testid="commit-message-candidates">
+      {candidates.map((candidate, index) => (
+        <li
+          className="flex min-w-0 flex-col gap-1.5 rounded-[3px] border border-[var(--vscode-panel-border)] p-2 text-xs"
+          key={index}
+        >
+          <span className="text-[11px] text-[var(--vscode-descriptionForeground)]">{formatLabel(labels.candidate, String(index + 1))}</span>
+          <p className="min-h-8 flex-1 whitespace-pre-wrap break-words">{candidate}</p>
+          <button
+            aria-label={formatLabel(labels.useCandidateLabel, String(index + 1))}
+            className="self-end rounded-[3px] border border-[var(--vscode-button-border)] px-2 py-0.5 text-[11px] text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={generating || !candidate.trim()}
+            onClick={() => onUse(candidate)}
+            type="button"
+          >
+            {labels.useCandidate}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function CommitTrailerEditor({
+  coAuthors,
+  labels,
+  onAdd,
+  onChange,
+  onRemove,
+  trailers
+}: {
+  coAuthors: readonly CommitAuthorViewModel[];
+  labels: Pick<ChangesPanelLabels, "addTrailer" | "removeTrailer" | "trailerKey" | "trailerValue">;
+  onAdd: (key: CommitTrailerKey) => void;
+  onChange: (id: number, update: Partial<Omit<CommitTrailer, "id">>) => void;
+  onRemove: (id: number) => void;
+  trailers: readonly CommitTrailer[];
+}): ReactElement {
+  const coAuthorListId = useId();
+  const [nextKey, setNextKey] = useState<CommitTrailerKey>("Co-authored-by");
+
+  return (
+    <div className="space-y-1 text-[11px]">
+      {trailers.map((trailer) => (
+        <div className="flex items-center gap-1" key={trailer.id}>
+          <select
+            aria-label={labels.trailerKey}
+            className="rounded-[3px] border border-[var(--vscode-dropdown-border)] bg-[var(--vscode-dropdown-background)] px-1 py-0.5 text-[var(--vscode-dropdown-foreground)]"
+            onChange={(event) => onChange(trailer.id, { key: event.currentTarget.value as CommitTrailerKey })}
+            value={trailer.key}
+          >
+            {commitTrailerKeys.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+          <input
+            aria-label={formatLabel(labels.trailerValue, trailer.key)}
+            className="min-w-0 flex-1 rounded-[3px] border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] px-1.5 py-0.5 text-[var(--vscode-input-foreground)] outline-none focus:border-[var(--vscode-focusBorder)]"
+            list={trailer.key === "Co-authored-by" ? coAuthorListId : undefined}
+            onChange={(event) => onChange(trailer.id, { value: event.currentTarget.value })}
+            value={trailer.value}
+          />
+          <WorkingTreeActionButton icon="discard" label={formatLabel(labels.removeTrailer, trailer.key)} onClick={() => onRemove(trailer.id)} />
+        </div>
+      ))}
+      <div className="flex items-center gap-1">
+        <select
+          aria-label={labels.trailerKey}
+          className="rounded-[3px] border border-[var(--vscode-dropdown-border)] bg-[var(--vscode-dropdown-background)] px-1 py-0.5 text-[var(--vscode-dropdown-foreground)]"
+          onChange={(event) => setNextKey(event.currentTarget.value as CommitTrailerKey)}
+          value={nextKey}
+        >
+          {commitTrailerKeys.map((key) => (
+            <option key={key} value={key}>
+              {key}
+            </option>
+          ))}
+        </select>
+        <button
+          className="inline-flex items-center gap-1 rounded-[3px] px-1.5 py-0.5 text-[var(--vscode-textLink-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+          onClick={() => onAdd(nextKey)}
+          type="button"
+        >
+          <Plus aria-hidden="true" className="h-3 w-3" />
+          {labels.addTrailer}
+        </button>
+      </div>
+      <datalist id={coAuthorListId}>
+        {coAuthors.map((author) => (
+          <option key={author.email} value={formatIdentity(author)}>
+            {author.commits}
+          </option>
+        ))}
+      </datalist>
+    </div>
+  );
+}
+
 function WorkingTreeFileSection({
   action,
   files,
+  hunks,
   labels,
   mode,
   onBulkAction,
@@ -320,15 +779,20 @@ function WorkingTreeFileSection({
 }: {
   action: "stage" | "unstage";
   files: readonly WorkingTreeFileChangeViewModel[];
+  hunks: WorkingTreeHunkControls;
   labels: {
     binary: string;
     bulkAction: string;
     collapseDirectory: string;
+    conflict: string;
     expandDirectory: string;
     openDiff: string;
     openFile: string;
     primaryAction: string;
     secondaryAction?: string;
+    submodule: string;
+    submoduleModified: string;
+    submoduleRewound: string;
     title: string;
   };
   mode: FileViewMode;
@@ -358,6 +822,7 @@ function WorkingTreeFileSection({
           <WorkingTreeFileTree
             action={action}
             files={files}
+            hunks={hunks}
             labels={labels}
             onOpenFile={onOpenFile}
             onOpenFileDiff={onOpenFileDiff}
@@ -369,6 +834,7 @@ function WorkingTreeFileSection({
             <WorkingTreeFileRow
               action={action}
               file={file}
+              hunks={hunks}
               key={file.path}
               labels={labels}
               label={file.path}
@@ -387,6 +853,7 @@ function WorkingTreeFileSection({
 function WorkingTreeFileTree({
   action,
   files,
+  hunks,
   labels,
   onOpenFile,
   onOpenFileDiff,
@@ -395,7 +862,11 @@ function WorkingTreeFileTree({
 }: {
   action: "stage" | "unstage";
   files: readonly WorkingTreeFileChangeViewModel[];
-  labels: Pick<ChangesPanelLabels, "binary" | "collapseDirectory" | "expandDirectory" | "openDiff" | "openFile"> & {
+  hunks: WorkingTreeHunkControls;
+  labels: Pick<
+    ChangesPanelLabels,
+    "binary" | "collapseDirectory" | "conflict" | "expandDirectory" | "openDiff" | "openFile" | "submodule" | "submoduleModified" | "submoduleRewound"
+  > & {
     primaryAction: string;
     secondaryAction?: string;
   };
@@ -425,6 +896,7 @@ function WorkingTreeFileTree({
         action,
         collapsedDirectories,
         depth: 0,
+        hunks,
         labels,
         node: root,
         onOpenFile,
@@ -442,7 +914,11 @@ function renderWorkingTree(input: {
   action: "stage" | "unstage";
   collapsedDirectories: ReadonlySet<string>;
   depth: number;
-  labels: Pick<ChangesPanelLabels, "binary" | "collapseDirectory" | "expandDirectory" | "openDiff" | "openFile"> & {
+  hunks: WorkingTreeHunkControls;
+  labels: Pick<
+    ChangesPanelLabels,
+    "binary" | "collapseDirectory" | "conflict" | "expandDirectory" | "openDiff" | "openFile" | "submodule" | "submoduleModified" | "submoduleRewound"
+  > & {
     primaryAction: string;
     secondaryAction?: string;
   };
@@ -461,6 +937,7 @@ function renderWorkingTree(input: {
           action={input.action}
           depth={input.depth}
           file={child.file}
+          hunks={input.hunks}
           key={child.file.path}
           labels={input.labels}
           label={name}
@@ -509,6 +986,7 @@ function WorkingTreeFileRow({
   action,
   depth = 0,
   file,
+  hunks,
   labels,
   label,
   onOpenFile,
@@ -519,7 +997,8 @@ function WorkingTreeFileRow({
   action: "stage" | "unstage";
   depth?: number;
   file: WorkingTreeFileChangeViewModel;
-  labels: Pick<ChangesPanelLabels, "binary" | "openDiff" | "openFile"> & {
+  hunks: WorkingTreeHunkControls;
+  labels: Pick<ChangesPanelLabels, "binary" | "conflict" | "openDiff" | "openFile" | "submodule" | "submoduleModified" | "submoduleRewound"> & {
     primaryAction: string;
     secondaryAction?: string;
   };
@@ -529,56 +1008,195 @@ function WorkingTreeFileRow({
   onPrimaryAction?: (path: string) => void;
   onSecondaryAction?: (path: string) => void;
 }): ReactElement {
+  const canShowChanges = file.area !== "untracked" && !file.binary && !file.submodule;
+  const expanded = canShowChanges && hunks.expandedPaths.has(file.path);
+  const changesLabel = formatLabel(expanded ? hunks.labels.hideChanges : hunks.labels.showChanges, file.path);
+
   return (
-    <div
-      className="grid w-full grid-cols-[auto_minmax(0,1fr)_auto_auto] items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-transparent px-2 py-1.5 text-left text-xs last:border-b-0 hover:bg-[var(--vscode-list-hoverBackground)]"
-      style={{ paddingLeft: `${8 + depth * 14}px` }}
-    >
-      <span className="rounded-[2px] bg-[var(--vscode-badge-background)] px-1 py-0.5 text-[10px] text-[var(--vscode-badge-foreground)]">
-        {file.binary ? labels.binary : file.status}
-      </span>
-      <button
-        aria-label={formatLabel(labels.openDiff, file.path)}
-        className="min-w-0 truncate bg-transparent text-left hover:underline"
-        onClick={() => onOpenFileDiff?.(file.path, file.previousPath)}
-        type="button"
+    <>
+      <div
+        className="grid w-full grid-cols-[auto_minmax(0,1fr)_auto_auto] items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-transparent px-2 py-1.5 text-left text-xs last:border-b-0 hover:bg-[var(--vscode-list-hoverBackground)]"
+        style={{ paddingLeft: `${8 + depth * 14}px` }}
       >
-        {label}
-      </button>
-      <span className="shrink-0 text-[11px]">
-        <span className="text-[#28a745]">+{file.insertions}</span>{" "}
-        <span className="text-[#dc3545]">-{file.deletions}</span>
-      </span>
-      <div className="flex shrink-0 items-center gap-1">
-        <WorkingTreeActionButton
-          icon={action}
-          label={formatLabel(labels.primaryAction, file.path)}
-          onClick={() => onPrimaryAction?.(file.path)}
-        />
-        {labels.secondaryAction ? (
+        <span className="rounded-[2px] bg-[var(--vscode-badge-background)] px-1 py-0.5 text-[10px] text-[var(--vscode-badge-foreground)]">
+          {file.conflict ? labels.conflict : file.submodule ? labels.submodule : file.binary ? labels.binary : file.status}
+        </span>
+        <button
+          aria-label={formatLabel(labels.openDiff, file.path)}
+          className="min-w-0 truncate bg-transparent text-left hover:underline"
+          onClick={() => onOpenFileDiff?.(file.path, file.previousPath)}
+          type="button"
+        >
+          {label}
+        </button>
+        {file.submodule ? (
+          <SubmoduleCommitRange change={file.submodule} />
+        ) : (
+          <span className="shrink-0 text-[11px]">
+            <span className="text-[#28a745]">+{file.insertions}</span>{" "}
+            <span className="text-[#dc3545]">-{file.deletions}</span>
+          </span>
+        )}
+        <div className="flex shrink-0 items-center gap-1">
+          {canShowChanges ? (
+            <WorkingTreeActionButton
+              expanded={expanded}
+              icon={expanded ? "collapse" : "expand"}
+              label={changesLabel}
+              onClick={() => hunks.onToggle(file.path)}
+            />
+          ) : null}
           <WorkingTreeActionButton
-            icon="discard"
-            label={formatLabel(labels.secondaryAction, file.path)}
-            onClick={() => onSecondaryAction?.(file.path)}
+            icon={action}
+            label={formatLabel(labels.primaryAction, file.path)}
+            onClick={() => onPrimaryAction?.(file.path)}
           />
-        ) : null}
-        <WorkingTreeActionButton icon="openFile" label={formatLabel(labels.openFile, file.path)} onClick={() => onOpenFile?.(file.path)} />
+          {labels.secondaryAction ? (
+            <WorkingTreeActionButton
+              icon="discard"
+              label={formatLabel(labels.secondaryAction, file.path)}
+              onClick={() => onSecondaryAction?.(file.path)}
+            />
+          ) : null}
+          <WorkingTreeActionButton icon="openFile" label={formatLabel(labels.openFile, file.path)} onClick={() => onOpenFile?.(file.path)} />
+        </div>
       </div>
+      {file.submodule ? <SubmoduleCommits change={file.submodule} depth={depth} labels={labels} /> : null}
+      {expanded ? (
+        <WorkingTreeFileHunks
+          action={action}
+          depth={depth}
+          diff={hunks.diffs.find((diff) => diff.filePath === file.path)}
+          filePath={file.path}
+          hunks={hunks}
+        />
+      ) : null}
+    </>
+  );
+}
+
+function WorkingTreeFileHunks({
+  action,
+  depth,
+  diff,
+  filePath,
+  hunks
+}: {
+  action: "stage" | "unstage";
+  depth: number;
+  diff?: WorkingTreeFileDiffViewModel;
+  filePath: string;
+  hunks: WorkingTreeHunkControls;
+}): ReactElement {
+  const [selectedLines, setSelectedLines] = useState<ReadonlyMap<number, ReadonlySet<number>>>(new Map());
+
+  useEffect(() => {
+    setSelectedLines(new Map());
+  }, [diff]);
+
+  const toggleLine = (hunkIndex: number, lineIndex: number) => {
+    const lines = new Set(selectedLines.get(hunkIndex));
+    if (lines.has(lineIndex)) {
+      lines.delete(lineIndex);
+    } else {
+      lines.add(lineIndex);
+    }
+    const next = new Map(selectedLines);
+    next.set(hunkIndex, lines);
+    setSelectedLines(next);
+  };
+
+  const selection = (hunk: WorkingTreeDiffHunkViewModel, hunkIndex: number): WorkingTreeHunkSelectionViewModel => {
+    const lines = selectedLines.get(hunkIndex);
+
+    return {
+      filePath,
+      hunkHeader: hunk.header,
+      hunkIndex,
+      lineIndexes: lines && lines.size > 0 ? [...lines].sort((left, right) => left - right) : undefined
+    };
+  };
+
+  if (!diff || diff.binary || diff.hunks.length === 0) {
+    return (
+      <div
+        className="border-b border-[var(--vscode-panel-border)] px-2 py-1.5 text-[11px] text-[var(--vscode-descriptionForeground)] last:border-b-0"
+        style={{ paddingLeft: `${22 + depth * 14}px` }}
+      >
+        {diff ? hunks.labels.noTextChanges : hunks.labels.loadingChanges}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-b border-[var(--vscode-panel-border)] last:border-b-0">
+      {diff.hunks.map((hunk, hunkIndex) => {
+        const hunkNumber = String(hunkIndex + 1);
+        const hasSelection = (selectedLines.get(hunkIndex)?.size ?? 0) > 0;
+
+        return (
+          <div aria-label={formatLabel(hunks.labels.hunk, filePath, hunkNumber)} key={hunk.header} role="group">
+            <div className="flex items-center gap-2 bg-[var(--vscode-editorWidget-background)] px-2 py-0.5">
+              <span className="min-w-0 flex-1 truncate font-mono text-[10px] text-[var(--vscode-descriptionForeground)]">
+                {hunk.header}
+              </span>
+              <WorkingTreeActionButton
+                icon={action}
+                label={formatLabel(hasSelection ? hunks.labels.primaryLines : hunks.labels.primaryHunk, filePath, hunkNumber)}
+                onClick={() => hunks.onPrimaryAction?.(selection(hunk, hunkIndex))}
+              />
+              {hunks.labels.secondaryHunk && hunks.labels.secondaryLines ? (
+                <WorkingTreeActionButton
+                  icon="discard"
+                  label={formatLabel(
+                    hasSelection ? hunks.labels.secondaryLines : hunks.labels.secondaryHunk,
+                    filePath,
+                    hunkNumber
+                  )}
+                  onClick={() => hunks.onSecondaryAction?.(selection(hunk, hunkIndex))}
+                />
+              ) : null}
+            </div>
+            <div className="overflow-x-auto font-mono text-[11px]">
+              {hunk.lines.map((line, lineIndex) =>
+                line.kind === "context" ? (
+                  <div className="whitespace-pre px-2" key={lineIndex}>
+                    {` ${line.content}`}
+                  </div>
+                ) : (
+                  <button
+                    aria-pressed={selectedLines.get(hunkIndex)?.has(lineIndex) ?? false}
+                    className={`block w-full whitespace-pre bg-transparent px-2 text-left ${diffLineClassNames[line.kind]} aria-pressed:outline aria-pressed:outline-1 aria-pressed:-outline-offset-1 aria-pressed:outline-[var(--vscode-focusBorder)]`}
+                    key={lineIndex}
+                    onClick={() => toggleLine(hunkIndex, lineIndex)}
+                    type="button"
+                  >
+                    {`${line.kind === "added" ? "+" : "-"}${line.content}`}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+        );
+      })}
     </div>
   );
 }
 
 function WorkingTreeActionButton({
+  expanded,
   icon,
   label,
   onClick
 }: {
-  icon: "discard" | "openFile" | "stage" | "unstage";
+  expanded?: boolean;
+  icon: "collapse" | "discard" | "expand" | "openFile" | "stage" | "unstage";
   label: string;
   onClick: () => void;
 }): ReactElement {
   return (
     <button
+      aria-expanded={expanded}
       aria-label={label}
       className="guigit-icon-tooltip-host flex h-5 min-w-5 items-center justify-center rounded-[3px] border border-transparent text-[10px] text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
       onClick={onClick}
@@ -588,15 +1206,46 @@ function WorkingTreeActionButton({
       {icon === "unstage" ? <RotateCcw aria-hidden="true" className="h-3.5 w-3.5" /> : null}
       {icon === "openFile" ? <FileText aria-hidden="true" className="h-3.5 w-3.5" /> : null}
       {icon === "discard" ? <X aria-hidden="true" className="h-3.5 w-3.5" /> : null}
+      {icon === "expand" ? <ChevronRight aria-hidden="true" className="h-3.5 w-3.5" /> : null}
+      {icon === "collapse" ? <ChevronDown aria-hidden="true" className="h-3.5 w-3.5" /> : null}
       <IconTooltip label={label} placement="bottom" />
     </button>
   );
 }
 
-function formatLabel(label: string, value: string): string {
-  return label.replace("{0}", value);
+function commitMessageIssueLabel(issue: CommitMessageIssue, labels: ChangesPanelLabels): string {
+  const issueLabels: Record<CommitMessageIssue, string> = {
+    emptySubject: labels.emptySubject,
+    missingBlankLine: labels.missingBlankLine,
+    subjectTooLong: formatLabel(labels.subjectTooLong, String(maxCommitSubjectLength))
+  };
+
+  return issueLabels[issue];
+}
+
+function formatIdentity(identity: { email: string; name: string }): string {
+  return `${identity.name} <${identity.email}>`;
 }
 
+function formatLabel(label: string, ...values: readonly string[]): string {
+  return values.reduce((formatted, value, index) => formatted.replace(`{${index}}`, value), label);
+}
+
+function fileDiffKey(kind: WorkingTreeDiffKind, path: string): string {
+  return `${kind}\0${path}`;
+}
+
+function splitFileDiffKey(key: string): [WorkingTreeDiffKind, string] {
+  const separatorIndex = key.indexOf("\0");
+
+  return [key.slice(0, separatorIndex) as WorkingTreeDiffKind, key.slice(separatorIndex + 1)];
+}
+
+const diffLineClassNames = {
+  added: "bg-[var(--vscode-diffEditor-insertedLineBackground,rgba(40,167,69,0.15))]",
+  removed: "bg-[var(--vscode-diffEditor-removedLineBackground,rgba(220,53,69,0.15))]"
+} as const;
+
 function buildTree(files: readonly WorkingTreeFileChangeViewModel[]): TreeNode {
   const root: TreeNode = { children: new Map() };
 
@@ -0,0 +1,52 @@
+export const commitTrailerKeys = ["Co-authored-by", "Signed-off-by", "Reviewed-by", "Fixes", "Refs"] as const;
+export const maxCommitSubjectLength = 72;
+
+export type CommitTrailerKey = (typeof commitTrailerKeys)[number];
+export type CommitMessageIssue = "emptySubject" | "missingBlankLine" | "subjectTooLong";
+
+export interface CommitTrailer {
+  id: number;
+  key: CommitTrailerKey;
+  value: string;
+}
+
+const blockingIssues: ReadonlySet<CommitMessageIssue> = new Set(["emptySubject", "missingBlankLine"]);
+const trailerLinePattern = /^[A-Za-z][A-Za-z0-9-]*: \S/;
+
+export function composeCommitMessage(message: string, trailers: readonly CommitTrailer[]): string {
+  const body = message.trimEnd();
+  const existingLines = new Set(body.split("\n").map((line) => line.trim()));
+  const trailerLines = trailers
+    .filter((trailer) => trailer.value.trim())
+    .map((trailer) => `${trailer.key}: ${trailer.value.trim()}`)
+    .filter((line, index, lines) => !existingLines.has(line) && lines.indexOf(line) === index);
+  if (trailerLines.length === 0) {
+    return body;
+  }
+
+  // Append to an existing trailer block instead of starting a second one, otherwise git interpret-trailers
+  // only recognizes the last paragraph.
+  const lastParagraph = body.split(/\n\s*\n/).at(-1) ?? "";
+  const endsWithTrailers = body.includes("\n") && lastParagraph.split("\n").every((line) => trailerLinePattern.test(line));
+  return `${body}${endsWithTrailers ? "\n" : "\n\n"}${trailerLines.join("\n")}`;
+}
+
+export function validateCommitMessage(message: string): readonly CommitMessageIssue[] {
+  const [subject = "", secondLine] = message.split("\n");
+  const issues: CommitMessageIssue[] = [];
+  if (!subject.trim()) {
+    issues.push("emptySubject");
+  }
+  if (subject.trimEnd().length > maxCommitSubjectLength) {
+    issues.push("subjectTooLong");
+  }
+  if (secondLine !== undefined && secondLine.trim()) {
+    issues.push("missingBlankLine");
+  }
+
+  return issues;
+}
+
+export function blocksCommit(issues: readonly CommitMessageIssue[]): boolean {
+  return issues.some((issue) => blockingIssues.has(issue));
+}
@@ -3,7 +3,8 @@
  */
 import { render, screen } from "@testing-library/react";
 import "@testing-library/jest-dom/vitest";
-import { describe, expect, it } from "vitest";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
 import { CommitDetails } from "./CommitDetails";
 import type { CommitDetailsViewModel } from "../../app/rpcContract.generated";
 
@@ -20,6 +21,49 @@ describe("CommitDetails", () => {
     );
     expect(screen.getByRole("link", { name: "Ada Lovelace" })).toHaveAttribute("href", "https://github.com/ada");
   });
+
+  it("describes the commit signature with signer and key", () => {
+    render(
+      <CommitDetails
+        commit={{ ...commit, signature: { keyId: "ABCDEF12", signer: "Ada Lovelace", status: "unknown" } }}
+        fileViewMode="list"
+        labels={{ signature: { states: { bad: "Bad", good: "Good", unknown: "Unverified" } } }}
+      />
+    );
+
+    expect(screen.getByText("Unverified · Signed by Ada Lovelace · Key ABCDEF12")).toBeInTheDocument();
+  });
+
+  it("requests a commit explanation and shows the generated summary", async () => {
+    const user = userEvent.setup();
+    const onExplainCommit = vi.fn();
+    render(
+      <CommitDetails
+        commit={commit}
+        fileViewMode="list"
+        onExplainCommit={onExplainCommit}
+        summary={{ status: "ready", summary: { kind: "commit", markdown: "Adds the analytical engine." } }}
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Explain commit" }));
+
+    expect(onExplainCommit).toHaveBeenCalledOnce();
+    expect(screen.getByRole("region", { name: "AI summary" })).toHaveTextContent("Adds the analytical engine.");
+  });
+
+  it("opens the commit on the hosting service and copies its permalink", async () => {
+    const user = userEvent.setup();
+    const onCopyPermalink = vi.fn();
+    const onOpenOnRemote = vi.fn();
+    render(<CommitDetails commit={commit} fileViewMode="list" onCopyPermalink={onCopyPermalink} onOpenOnRemote={onOpenOnRemote} />);
+
+    await user.click(screen.getByRole("button", { name: "Open on remote" }));
+    await user.click(screen.getByRole("button", { name: "Copy permalink" }));
+
+    expect(onOpenOnRemote).toHaveBeenCalledOnce();
+    expect(onCopyPermalink).toHaveBeenCalledOnce();
+  });
 });
 
 const commit = {
@@ -1,13 +1,24 @@
 import type { ReactElement } from "react";
+import { ExternalLink, Link, Sparkles } from "lucide-react";
 import type { CommitDetailsViewModel, FileViewMode } from "../../app/rpcContract.generated";
+import { AiSummary, type AiSummaryLabels, type AiSummaryState } from "../AiSummary/AiSummary";
 import { FileChanges, type FileChangesLabels } from "../FileChanges/FileChanges";
+import { SignatureBadge, type SignatureBadgeLabels } from "../SignatureBadge/SignatureBadge";
 
 export interface CommitDetailsLabels {
+  copyPermalink: string;
+  explainCommit: string;
   files?: Partial<FileChangesLabels>;
+  openOnRemote: string;
   selectCommit: string;
+  signature?: Partial<SignatureBadgeLabels>;
+  summary?: Partial<AiSummaryLabels>;
 }
 
 const defaultLabels: CommitDetailsLabels = {
+  copyPermalink: "Copy permalink",
+  explainCommit: "Explain commit",
+  openOnRemote: "Open on remote",
   selectCommit: "Select a commit to view details."
 };
 
@@ -19,6 +30,13 @@ export interface CommitDetailsProps {
   onOpenFile?: (path: string) => void;
   onOpenFileDiff?: (path: string) => void;
   onOpenFileHistory?: (path: string) => void;
+  onCopyPermalink?: () => void;
+  onCancelSummary?: () => void;
+  onCopySummary?: (markdown: string) => void;
+  onExplainCommit?: () => void;
+  onOpenOnRemote?: () => void;
+  onOpenSummary?: (markdown: string) => void;
+  summary?: AiSummaryState;
 }
 
 export function CommitDetails({
@@ -28,7 +46,14 @@ export function CommitDetails({
   onFileViewModeChange,
   onOpenFile,
   onOpenFileDiff,
-  onOpenFileHistory
+  onOpenFileHistory,
+  onCopyPermalink,
+  onCancelSummary,
+  onCopySummary,
+  onExplainCommit,
+  onOpenOnRemote,
+  onOpenSummary,
+  summary
 }: CommitDetailsProps): ReactElement {
   const text = { ...defaultLabels, ...labels };
   if (!commit) {
@@ -52,12 +77,39 @@ export function CommitDetails({
               <span className="truncate">{commit.email}</span>
             </div>
             <div>{commit.date}</div>
+            <SignatureBadge labels={text.signature} showText signature={commit.signature} />
           </div>
         </div>
         <p className="max-w-[72ch] text-[11px] leading-5 text-[var(--vscode-descriptionForeground)]">
           {commit.body}
         </p>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {onExplainCommit ? (
+            <button
+              className={actionButtonClassName}
+              disabled={summary?.status === "loading"}
+              onClick={onExplainCommit}
+              type="button"
+            >
+              <Sparkles aria-hidden="true" size={13} />
+              {text.explainCommit}
+            </button>
+          ) : null}
+          {onOpenOnRemote ? (
+            <button className={actionButtonClassName} onClick={onOpenOnRemote} type="button">
+              <ExternalLink aria-hidden="true" size={13} />
+              {text.openOnRemote}
+            </button>
+          ) : null}
+          {onCopyPermalink ? (
+            <button className={actionButtonClassName} onClick={onCopyPermalink} type="button">
+              <Link aria-hidden="true" size={13} />
+              {text.copyPermalink}
+            </button>
+          ) : null}
+        </div>
       </section>
+      {summary ? <AiSummary labels={text.summary} onCancel={onCancelSummary} onCopy={onCopySummary} onOpen={onOpenSummary} state={summary} /> : null}
       <FileChanges
         files={commit.files}
         labels={text.files}
@@ -71,6 +123,9 @@ export function CommitDetails({
   );
 }
 
+const actionButtonClassName =
+  "inline-flex items-center gap-1.5 rounded-[3px] border border-[var(--vscode-button-border)] px-2 py-1 text-[11px] text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)] disabled:cursor-not-allowed disabled:opacity-50";
+
 function AuthorName({ author, email }: { author: string; email: string }): ReactElement {
   const profileUrl = createAuthorProfileUrl(email);
   if (!profileUrl) {
@@ -1,7 +1,7 @@
 /**
  * @vitest-environment jsdom
  */
-import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
 import "@testing-library/jest-dom/vitest";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { CommitList } from "./CommitList";
@@ -72,6 +72,82 @@ describe("CommitList", () => {
     expect(rows[0]!.firstElementChild).toHaveClass("bg-[var(--vscode-list-activeSelectionBackground)]");
     expect(rows[1]!.firstElementChild).toHaveClass("bg-[var(--vscode-list-activeSelectionBackground)]");
   });
+
+  it("renders only graph rows near the scrolled viewport", () => {
+    const hashes = Array.from({ length: 60 }, (_value, index) => `commit-${index}`);
+    render(<CommitList commits={hashes.map(createCommit)} graph={createLinearGraph(hashes)} />);
+
+    const container = screen.getByTestId("commit-scroll-container");
+    Object.defineProperties(container, {
+      clientHeight: { configurable: true, value: 180 },
+      scrollHeight: { configurable: true, value: 2160 },
+      scrollTop: { configurable: true, value: 720 }
+    });
+    fireEvent.scroll(container);
+
+    const renderedHashes = [...screen.getByRole("img", { name: "Git graph" }).querySelectorAll("[data-hash]")].map(
+      (node) => node.getAttribute("data-hash")
+    );
+    expect(renderedHashes).toEqual(hashes.slice(10, 35));
+    expect(screen.getAllByTestId("commit-row")).toHaveLength(60);
+  });
+
+  it("renders more graph rows when the viewport grows", () => {
+    const hashes = Array.from({ length: 60 }, (_value, index) => `commit-${index}`);
+    let resize: (() => void) | undefined;
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        public constructor(callback: () => void) {
+          resize = callback;
+        }
+
+        public disconnect(): void {}
+
+        public observe(): void {}
+      }
+    );
+    try {
+      render(<CommitList commits={hashes.map(createCommit)} graph={createLinearGraph(hashes)} />);
+
+      const container = screen.getByTestId("commit-scroll-container");
+      Object.defineProperties(container, {
+        clientHeight: { configurable: true, value: 180 },
+        scrollHeight: { configurable: true, value: 2160 },
+        scrollTop: { configurable: true, value: 0 }
+      });
+      fireEvent.scroll(container);
+      Object.defineProperty(container, "clientHeight", { configurable: true, value: 720 });
+      act(() => resize?.());
+
+      const renderedHashes = [...screen.getByRole("img", { name: "Git graph" }).querySelectorAll("[data-hash]")].map(
+        (node) => node.getAttribute("data-hash")
+      );
+      expect(renderedHashes).toEqual(hashes.slice(0, 30));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("marks signed commits with their verification status", () => {
+    render(
+      <CommitList
+        commits={[
+          { ...createCommit("first"), signature: { keyId: "ABCDEF12", signer: "Ada <ada@example.com>", status: "good" } },
+          { ...createCommit("second"), signature: { status: "bad" } },
+          { ...createCommit("third"), signature: { status: "none" } }
+        ]}
+        graphVisible={false}
+      />
+    );
+
+    expect(screen.getByRole("img", { name: "Verified signature · Signed by Ada <ada@example.com> · Key ABCDEF12" })).toHaveAttribute(
+      "data-signature-status",
+      "good"
+    );
+    expect(screen.getByRole("img", { name: "Bad signature" })).toHaveAttribute("data-signature-status", "bad");
+    expect(screen.getAllByTestId("commit-row")[2]!.querySelector("[data-signature-status]")).toBeNull();
+  });
 });
 
 const wideGraph = {
@@ -80,6 +156,22 @@ const wideGraph = {
   width: 360
 } satisfies GraphLayoutViewModel;
 
+function createLinearGraph(hashes: readonly string[]): GraphLayoutViewModel {
+  return {
+    edges: hashes.slice(1).map((hash, index) => ({
+      color: "#f56565",
+      fromHash: hashes[index]!,
+      points: [
+        { x: 8, y: index * 36 + 18 },
+        { x: 8, y: index * 36 + 54 }
+      ],
+      toHash: hash
+    })),
+    nodes: hashes.map((hash, row) => ({ color: "#f56565", column: 0, hash, row, x: 8, y: row * 36 + 18 })),
+    width: 120
+  };
+}
+
 function createCommit(hash: string): CommitListItemViewModel {
   return {
     author: "Ada",
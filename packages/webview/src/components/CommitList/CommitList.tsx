@@ -1,6 +1,7 @@
-import { useEffect, useRef, type UIEvent, type MouseEvent, type ReactElement } from "react";
+import { useEffect, useRef, useState, type UIEvent, type MouseEvent, type ReactElement } from "react";
 import type { CommitListItemViewModel, GraphLayoutViewModel } from "../../app/rpcContract.generated";
-import { GitGraph, type GitGraphLabels } from "../GitGraph/GitGraph";
+import { GitGraph, type GitGraphLabels, type GitGraphRowRange } from "../GitGraph/GitGraph";
+import { SignatureBadge, type SignatureBadgeLabels } from "../SignatureBadge/SignatureBadge";
 
 const emptyGraph: GraphLayoutViewModel = {
   edges: [],
@@ -10,18 +11,22 @@ const emptyGraph: GraphLayoutViewModel = {
 
 const minimumGraphViewportWidth = 120;
 const maximumGraphViewportWidth = 240;
+const rowHeight = 36;
+const overscanRows = 10;
 
 export interface CommitListProps {
   commits?: readonly CommitListItemViewModel[];
   graph?: GraphLayoutViewModel;
   graphLabels?: Partial<GitGraphLabels>;
   graphVisible?: boolean;
+  highlightedHashes?: readonly string[];
   onGraphNodeSelect?: (hash: string) => void;
   onLoadMore?: () => void;
   onCommitSelect?: (commit: CommitListItemViewModel, intent: CommitSelectionIntent) => void;
   onCommitContextMenu?: (event: MouseEvent<HTMLElement>, commit: CommitListItemViewModel) => void;
   selectedHash?: string;
   selectedHashes?: readonly string[];
+  signatureLabels?: Partial<SignatureBadgeLabels>;
 }
 
 export interface CommitSelectionIntent {
@@ -33,20 +38,42 @@ export function CommitList({
   graph = emptyGraph,
   graphLabels,
   graphVisible = true,
+  highlightedHashes,
   onGraphNodeSelect,
   onLoadMore,
   onCommitContextMenu,
   onCommitSelect,
   selectedHash,
-  selectedHashes = selectedHash ? [selectedHash] : []
+  selectedHashes = selectedHash ? [selectedHash] : [],
+  signatureLabels
 }: CommitListProps): ReactElement {
+  const scrollContainerRef = useRef<HTMLDivElement | null>(null);
   const selectedRowRef = useRef<HTMLElement | null>(null);
+  const [visibleRows, setVisibleRows] = useState<GitGraphRowRange | undefined>();
   useEffect(() => {
     selectedRowRef.current?.scrollIntoView?.({ block: "nearest" });
   }, [selectedHash]);
 
+  useEffect(() => {
+    if (scrollContainerRef.current) {
+      setVisibleRows(visibleRowRange(scrollContainerRef.current));
+    }
+  }, [commits.length]);
+
+  useEffect(() => {
+    const element = scrollContainerRef.current;
+    if (!element || typeof ResizeObserver === "undefined") {
+      return;
+    }
+
+    const observer = new ResizeObserver(() => setVisibleRows(visibleRowRange(element)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
   const handleScroll = (event: UIEvent<HTMLDivElement>) => {
     const element = event.currentTarget;
+    setVisibleRows(visibleRowRange(element));
     if (element.scrollTop + element.clientHeight >= element.scrollHeight - 24) {
       onLoadMore?.();
     }
@@ -57,17 +84,25 @@ export function CommitList({
       className="flex min-h-0 flex-1 overflow-y-auto"
       data-testid="commit-scroll-container"
       onScroll={handleScroll}
+      ref={scrollContainerRef}
     >
       {graphVisible ? (
         <div
           className="max-w-[240px] shrink-0 overflow-x-auto border-r border-[var(--vscode-panel-border)] bg-[var(--vscode-sideBar-background)]"
           data-testid="graph-strip"
           style={{
-            height: `${Math.max(commits.length, 1) * 36}px`,
+            height: `${Math.max(commits.length, 1) * rowHeight}px`,
             width: `${Math.min(Math.max(graph.width, minimumGraphViewportWidth), maximumGraphViewportWidth)}px`
           }}
         >
-          <GitGraph graph={graph} labels={graphLabels} onNodeSelect={onGraphNodeSelect} rowCount={commits.length} />
+          <GitGraph
+            graph={graph}
+            highlightedHashes={highlightedHashes}
+            labels={graphLabels}
+            onNodeSelect={onGraphNodeSelect}
+            rowCount={commits.length}
+            visibleRows={visibleRows}
+          />
         </div>
       ) : null}
       <div className="min-w-0 flex-1">
@@ -83,8 +118,9 @@ export function CommitList({
             <div
               className={`grid h-full min-w-[550px] flex-1 grid-cols-[80px_minmax(180px,1fr)_minmax(96px,180px)_120px_100px] items-center gap-3 px-3 ${selectedHashes.includes(commit.hash) || (!selectedHash && selectedHashes.length === 0 && index === 0) ? "bg-[var(--vscode-list-activeSelectionBackground)] text-[var(--vscode-list-activeSelectionForeground)]" : "bg-[var(--vscode-editor-background)]"}`}
             >
-              <span className="truncate font-mono text-[11px] text-[var(--vscode-descriptionForeground)]">
-                {commit.shortHash}
+              <span className="flex min-w-0 items-center gap-1 font-mono text-[11px] text-[var(--vscode-descriptionForeground)]">
+                <span className="truncate">{commit.shortHash}</span>
+                <SignatureBadge labels={signatureLabels} signature={commit.signature} />
               </span>
               <span className="truncate text-xs font-medium">{commit.message}</span>
               <span className="flex min-w-0 gap-1 overflow-hidden text-[10px]">
@@ -113,6 +149,17 @@ export function CommitList({
   );
 }
 
+function visibleRowRange(element: HTMLElement): GitGraphRowRange | undefined {
+  if (element.clientHeight === 0) {
+    return undefined;
+  }
+
+  return {
+    end: Math.ceil((element.scrollTop + element.clientHeight) / rowHeight) + overscanRows,
+    start: Math.max(0, Math.floor(element.scrollTop / rowHeight) - overscanRows)
+  };
+}
+
 function refColor(type: CommitListItemViewModel["refs"][number]["type"]): string {
   const colors = {
     head: "#f56565",
@@ -69,4 +69,28 @@ describe("CompareOverlay", () => {
     expect(onOpenFileDiff).toHaveBeenCalledWith("src/extension.ts");
     expect(onClose).toHaveBeenCalledOnce();
   });
+
+  it("summarizes the compared range as release notes or a pull request description", async () => {
+    const user = userEvent.setup();
+    const onSummarize = vi.fn();
+    render(
+      <CompareOverlay
+        fromHash="8f9d5c2b4a1e"
+        onSummarize={onSummarize}
+        open
+        summary={{ status: "loading" }}
+        toHash="72ea7564a1e0"
+      />
+    );
+
+    expect(screen.getByRole("button", { name: "Release notes" })).toBeDisabled();
+    expect(screen.getByRole("status")).toHaveTextContent("Generating summary...");
+
+    cleanup();
+    render(<CompareOverlay fromHash="8f9d5c2b4a1e" onSummarize={onSummarize} open toHash="72ea7564a1e0" />);
+    await user.click(screen.getByRole("button", { name: "Release notes" }));
+    await user.click(screen.getByRole("button", { name: "PR description" }));
+
+    expect(onSummarize.mock.calls).toEqual([["releaseNotes"], ["pullRequest"]]);
+  });
 });
@@ -1,7 +1,10 @@
 import type { ReactElement } from "react";
-import type { FileChangeViewModel } from "../../app/rpcContract.generated";
+import type { AiSummaryKind, FileChangeViewModel } from "../../app/rpcContract.generated";
+import { AiSummary, type AiSummaryLabels, type AiSummaryState } from "../AiSummary/AiSummary";
 import { IconTooltip } from "../IconTooltip/IconTooltip";
 
+export type RangeSummaryKind = Exclude<AiSummaryKind, "commit">;
+
 export interface CompareOverlayLabels {
   baseCommit: string;
   changedFiles: string;
@@ -9,6 +12,9 @@ export interface CompareOverlayLabels {
   from: string;
   noFilesChanged: string;
   openDiff: string;
+  pullRequestDescription: string;
+  releaseNotes: string;
+  summary?: Partial<AiSummaryLabels>;
   targetCommit: string;
   title: string;
   to: string;
@@ -21,6 +27,8 @@ const defaultLabels: CompareOverlayLabels = {
   from: "From",
   noFilesChanged: "No files changed",
   openDiff: "Open diff for {0}",
+  pullRequestDescription: "PR description",
+  releaseNotes: "Release notes",
   targetCommit: "Target commit",
   title: "Compare Commits",
   to: "To"
@@ -31,8 +39,13 @@ export interface CompareOverlayProps {
   fromHash: string;
   labels?: Partial<CompareOverlayLabels>;
   onClose?: () => void;
+  onCancelSummary?: () => void;
+  onCopySummary?: (markdown: string) => void;
   onOpenFileDiff?: (path: string) => void;
+  onOpenSummary?: (markdown: string) => void;
+  onSummarize?: (kind: RangeSummaryKind) => void;
   open: boolean;
+  summary?: AiSummaryState;
   toHash: string;
 }
 
@@ -41,8 +54,13 @@ export function CompareOverlay({
   fromHash,
   labels,
   onClose,
+  onCancelSummary,
+  onCopySummary,
   onOpenFileDiff,
+  onOpenSummary,
+  onSummarize,
   open,
+  summary,
   toHash
 }: CompareOverlayProps): ReactElement | null {
   if (!open) {
@@ -76,6 +94,24 @@ export function CompareOverlay({
           </div>
           <CompareCommitSummary hash={toHash} label={text.to} note={text.targetCommit} />
         </div>
+        {onSummarize ? (
+          <div className="mb-4 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {(["releaseNotes", "pullRequest"] as const).map((kind) => (
+                <button
+                  className="rounded-[3px] border border-[var(--vscode-button-border)] px-2 py-1 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+                  disabled={summary?.status === "loading"}
+                  key={kind}
+                  onClick={() => onSummarize(kind)}
+                  type="button"
+                >
+                  {kind === "releaseNotes" ? text.releaseNotes : text.pullRequestDescription}
+                </button>
+              ))}
+            </div>
+            {summary ? <AiSummary labels={text.summary} onCancel={onCancelSummary} onCopy={onCopySummary} onOpen={onOpenSummary} state={summary} /> : null}
+          </div>
+        ) : null}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <h3 className="m-0 text-sm">{text.changedFiles} ({files.length})</h3>
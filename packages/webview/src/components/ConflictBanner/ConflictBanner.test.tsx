@@ -0,0 +1,90 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen, within } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ConflictBanner } from "./ConflictBanner";
+
+const labels = {
+  abort: "Abort",
+  acceptOurs: "Accept Ours",
+  acceptTheirs: "Accept Theirs",
+  continue: "Resolved and Staged",
+  files: "Conflicted files",
+  label: "Git Conflict",
+  markResolved: "Mark Resolved",
+  openMergeEditor: "Open Merge Editor",
+  statuses: {
+    addedByThem: "Added by them",
+    addedByUs: "Added by us",
+    bothAdded: "Both added",
+    bothDeleted: "Both deleted",
+    bothModified: "Both modified",
+    deletedByThem: "Deleted by them",
+    deletedByUs: "Deleted by us"
+  }
+};
+
+describe("ConflictBanner", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("lists conflicted files and sends per-file resolution actions", async () => {
+    const user = userEvent.setup();
+    const onAcceptOurs = vi.fn();
+    const onAcceptTheirs = vi.fn();
+    const onMarkResolved = vi.fn();
+    const onOpenMergeEditor = vi.fn();
+
+    render(
+      <ConflictBanner
+        files={[
+          { path: "src/app.ts", status: "bothModified" },
+          { path: "src/removed.ts", status: "deletedByThem" }
+        ]}
+        labels={labels}
+        message="Merge has conflicts."
+        onAbort={vi.fn()}
+        onAcceptOurs={onAcceptOurs}
+        onAcceptTheirs={onAcceptTheirs}
+        onContinue={vi.fn()}
+        onMarkResolved={onMarkResolved}
+        onOpenMergeEditor={onOpenMergeEditor}
+      />
+    );
+
+    const [appRow, removedRow] = within(screen.getByRole("list", { name: "Conflicted files" })).getAllByRole("listitem");
+    expect(appRow).toHaveTextContent("Both modified");
+    expect(within(removedRow!).getByRole("button", { name: "Open Merge Editor" })).toBeDisabled();
+
+    await user.click(within(appRow!).getByRole("button", { name: "Accept Ours" }));
+    await user.click(within(removedRow!).getByRole("button", { name: "Accept Theirs" }));
+    await user.click(within(appRow!).getByRole("button", { name: "Open Merge Editor" }));
+    await user.click(within(appRow!).getByRole("button", { name: "Mark Resolved" }));
+
+    expect(onAcceptOurs).toHaveBeenCalledWith("src/app.ts");
+    expect(onAcceptTheirs).toHaveBeenCalledWith("src/removed.ts");
+    expect(onOpenMergeEditor).toHaveBeenCalledWith("src/app.ts");
+    expect(onMarkResolved).toHaveBeenCalledWith("src/app.ts");
+  });
+
+  it("disables file resolution while a file action is running", () => {
+    render(
+      <ConflictBanner
+        busy
+        files={[{ path: "src/app.ts", status: "bothModified" }]}
+        labels={labels}
+        message="Merge has conflicts."
+        onAbort={vi.fn()}
+        onContinue={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole("button", { name: "Accept Ours" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Mark Resolved" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Open Merge Editor" })).not.toBeDisabled();
+  });
+});
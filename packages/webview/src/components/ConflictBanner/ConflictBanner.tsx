@@ -1,39 +1,118 @@
 import type { ReactElement } from "react";
+import type { ConflictFileStatus, ConflictFileViewModel } from "../../app/rpcContract.generated";
 
 export interface ConflictBannerLabels {
   abort: string;
+  acceptOurs: string;
+  acceptTheirs: string;
   continue: string;
+  files: string;
   label: string;
+  markResolved: string;
+  openMergeEditor: string;
+  statuses: Record<ConflictFileStatus, string>;
 }
 
 export interface ConflictBannerProps {
+  busy?: boolean;
+  files?: readonly ConflictFileViewModel[];
   labels: ConflictBannerLabels;
   message: string;
   onAbort: () => void;
+  onAcceptOurs?: (filePath: string) => void;
+  onAcceptTheirs?: (filePath: string) => void;
   onContinue: () => void;
+  onMarkResolved?: (filePath: string) => void;
+  onOpenMergeEditor?: (filePath: string) => void;
 }
 
-export function ConflictBanner({ labels, message, onAbort, onContinue }: ConflictBannerProps): ReactElement {
+export function ConflictBanner({
+  busy = false,
+  files = [],
+  labels,
+  message,
+  onAbort,
+  onAcceptOurs,
+  onAcceptTheirs,
+  onContinue,
+  onMarkResolved,
+  onOpenMergeEditor
+}: ConflictBannerProps): ReactElement {
   return (
     <section
       aria-label={labels.label}
-      className="flex shrink-0 items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-[var(--vscode-notifications-background)] px-3 py-2 text-xs text-[var(--vscode-notifications-foreground)]"
+      className="flex shrink-0 flex-col gap-2 border-b border-[var(--vscode-panel-border)] bg-[var(--vscode-notifications-background)] px-3 py-2 text-xs text-[var(--vscode-notifications-foreground)]"
     >
-      <span className="min-w-0 flex-1">{message}</span>
-      <button
-        className="h-7 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-border,transparent)] bg-[var(--vscode-button-background)] px-2 text-xs text-[var(--vscode-button-foreground)] hover:bg-[var(--vscode-button-hoverBackground)]"
-        onClick={onContinue}
-        type="button"
-      >
-        {labels.continue}
-      </button>
-      <button
-        className="h-7 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-secondaryBorder,transparent)] bg-[var(--vscode-button-secondaryBackground)] px-2 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)]"
-        onClick={onAbort}
-        type="button"
-      >
-        {labels.abort}
-      </button>
+      <div className="flex items-center gap-2">
+        <span className="min-w-0 flex-1">{message}</span>
+        <button
+          className="h-7 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-border,transparent)] bg-[var(--vscode-button-background)] px-2 text-xs text-[var(--vscode-button-foreground)] hover:bg-[var(--vscode-button-hoverBackground)]"
+          onClick={onContinue}
+          type="button"
+        >
+          {labels.continue}
+        </button>
+        <button
+          className="h-7 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-secondaryBorder,transparent)] bg-[var(--vscode-button-secondaryBackground)] px-2 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)]"
+          onClick={onAbort}
+          type="button"
+        >
+          {labels.abort}
+        </button>
+      </div>
+      {files.length > 0 ? (
+        <ul aria-label={labels.files} className="m-0 flex max-h-40 list-none flex-col gap-1 overflow-y-auto p-0">
+          {files.map((file) => (
+            <li className="flex items-center gap-2 rounded-[3px] bg-[var(--vscode-editorWidget-background)] px-2 py-1" key={file.path}>
+              <span className="min-w-0 flex-1 truncate font-mono" title={file.path}>
+                {file.path}
+              </span>
+              <span className="shrink-0 text-[var(--vscode-descriptionForeground)]">{labels.statuses[file.status]}</span>
+              <ConflictFileButton
+                disabled={busy}
+                label={labels.acceptOurs}
+                onClick={() => onAcceptOurs?.(file.path)}
+              />
+              <ConflictFileButton
+                disabled={busy}
+                label={labels.acceptTheirs}
+                onClick={() => onAcceptTheirs?.(file.path)}
+              />
+              <ConflictFileButton
+                disabled={file.status !== "bothModified" && file.status !== "bothAdded"}
+                label={labels.openMergeEditor}
+                onClick={() => onOpenMergeEditor?.(file.path)}
+              />
+              <ConflictFileButton
+                disabled={busy}
+                label={labels.markResolved}
+                onClick={() => onMarkResolved?.(file.path)}
+              />
+            </li>
+          ))}
+        </ul>
+      ) : null}
     </section>
   );
 }
+
+function ConflictFileButton({
+  disabled,
+  label,
+  onClick
+}: {
+  disabled: boolean;
+  label: string;
+  onClick: () => void;
+}): ReactElement {
+  return (
+    <button
+      className="h-6 shrink-0 whitespace-nowrap rounded-[3px] border border-[var(--vscode-button-secondaryBorder,transparent)] bg-[var(--vscode-button-secondaryBackground)] px-2 text-xs text-[var(--vscode-button-secondaryForeground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+      disabled={disabled}
+      onClick={onClick}
+      type="button"
+    >
+      {label}
+    </button>
+  );
+}
@@ -21,17 +21,24 @@ describe("ContextMenu", () => {
     expect(actions.map((action) => action.getAttribute("data-action"))).toEqual([
       "copyHash",
       "cherryPick",
+      "merge",
       "revert",
       "editCommitMessage",
       "compare",
+      "bisect",
       "squash",
+      "interactiveRebase",
       "createBranch",
+      "createWorktree",
       "pushToCommit",
+      "createTag",
+      "deleteTag",
+      "pushTags",
       "resetSoft",
       "resetMixed",
       "resetHard"
     ]);
-    expect(within(menu).getAllByRole("separator")).toHaveLength(4);
+    expect(within(menu).getAllByRole("separator")).toHaveLength(5);
     expect(menu).toHaveStyle({ left: "20px", top: "30px" });
   });
 
@@ -46,6 +53,10 @@ describe("ContextMenu", () => {
       "aria-disabled",
       "true"
     );
+    expect(screen.getByRole("menuitem", { name: "Bisect Between Selected" })).toHaveAttribute(
+      "aria-disabled",
+      "true"
+    );
   });
 
   it("keeps squash disabled when the selected commits are not squashable", () => {
@@ -54,6 +65,17 @@ describe("ContextMenu", () => {
     expect(screen.getByRole("menuitem", { name: "Squash 2 Commits" })).toHaveAttribute("aria-disabled", "true");
   });
 
+  it("enables tag deletion only for commits with tags", () => {
+    const { rerender } = render(<ContextMenu canEditCommitMessage selectedCommitCount={1} visible x={0} y={0} />);
+
+    expect(screen.getByRole("menuitem", { name: "Delete Tag" })).toHaveAttribute("aria-disabled", "true");
+    expect(screen.getByRole("menuitem", { name: "Create Tag" })).toHaveAttribute("aria-disabled", "false");
+
+    rerender(<ContextMenu canDeleteTags canEditCommitMessage selectedCommitCount={1} visible x={0} y={0} />);
+
+    expect(screen.getByRole("menuitem", { name: "Delete Tag" })).toHaveAttribute("aria-disabled", "false");
+  });
+
   it("keeps the menu inside the viewport", () => {
     Object.defineProperty(window, "innerHeight", { configurable: true, value: 240 });
     Object.defineProperty(window, "innerWidth", { configurable: true, value: 260 });
@@ -3,12 +3,19 @@ import type { ReactElement } from "react";
 export type ContextMenuAction =
   | "copyHash"
   | "cherryPick"
+  | "merge"
   | "revert"
   | "editCommitMessage"
   | "compare"
+  | "bisect"
   | "squash"
+  | "interactiveRebase"
   | "createBranch"
+  | "createWorktree"
   | "pushToCommit"
+  | "createTag"
+  | "deleteTag"
+  | "pushTags"
   | "resetSoft"
   | "resetMixed"
   | "resetHard";
@@ -21,17 +28,26 @@ const actionGroups: readonly (readonly ContextMenuActionItem[])[] = [
   [
     { action: "copyHash" },
     { action: "cherryPick" },
+    { action: "merge" },
     { action: "revert" }
   ],
   [{ action: "editCommitMessage" }],
   [
     { action: "compare" },
-    { action: "squash" }
+    { action: "bisect" },
+    { action: "squash" },
+    { action: "interactiveRebase" }
   ],
   [
     { action: "createBranch" },
+    { action: "createWorktree" },
     { action: "pushToCommit" }
   ],
+  [
+    { action: "createTag" },
+    { action: "deleteTag" },
+    { action: "pushTags" }
+  ],
   [
     { action: "resetSoft" },
     { action: "resetMixed" },
@@ -51,14 +67,21 @@ export interface ContextMenuLabels extends Record<ContextMenuAction, string> {
 }
 
 const defaultLabels: ContextMenuLabels = {
+  bisect: "Bisect Between Selected",
   cherryPick: "Cherry Pick",
   compare: "Compare Selected",
   compareSelectedCount: "Compare Selected ({0})",
   compareSelectedProgress: "Compare Selected ({0}/2)",
   copyHash: "Copy Hash",
   createBranch: "Create Branch",
+  createTag: "Create Tag",
+  createWorktree: "Create Worktree Here...",
+  deleteTag: "Delete Tag",
   editCommitMessage: "Edit Commit Message",
+  interactiveRebase: "Interactive Rebase...",
   menuLabel: "Commit actions",
+  merge: "Merge into Current Branch...",
+  pushTags: "Push Tags",
   pushToCommit: "Push All Commits to Here",
   resetHard: "Reset Hard",
   resetMixed: "Reset Mixed",
@@ -69,6 +92,7 @@ const defaultLabels: ContextMenuLabels = {
 };
 
 export interface ContextMenuProps {
+  canDeleteTags?: boolean;
   canEditCommitMessage: boolean;
   canSquashCommits?: boolean;
   labels?: Partial<ContextMenuLabels>;
@@ -80,6 +104,7 @@ export interface ContextMenuProps {
 }
 
 export function ContextMenu({
+  canDeleteTags = false,
   canEditCommitMessage,
   canSquashCommits,
   labels,
@@ -115,12 +140,12 @@ export function ContextMenu({
         <div key={group[0]!.action}>
           {group.map((item) => (
             <button
-              aria-disabled={isDisabled(item.action, canEditCommitMessage, selectedCommitCount, squashEnabled)}
+              aria-disabled={isDisabled(item.action, canEditCommitMessage, selectedCommitCount, squashEnabled, canDeleteTags)}
               className="block w-full cursor-pointer bg-transparent px-3 py-2 text-left text-[var(--vscode-menu-foreground,var(--vscode-foreground))] hover:bg-[var(--vscode-menu-selectionBackground)] hover:text-[var(--vscode-menu-selectionForeground)] aria-disabled:cursor-not-allowed aria-disabled:opacity-50 aria-disabled:hover:bg-transparent aria-disabled:hover:text-[var(--vscode-menu-foreground,var(--vscode-foreground))]"
               data-action={item.action}
               key={item.action}
               onClick={() => {
-                if (!isDisabled(item.action, canEditCommitMessage, selectedCommitCount, squashEnabled)) {
+                if (!isDisabled(item.action, canEditCommitMessage, selectedCommitCount, squashEnabled, canDeleteTags)) {
                   onAction?.(item.action);
                 }
               }}
@@ -146,13 +171,18 @@ function isDisabled(
   action: ContextMenuAction,
   canEditCommitMessage: boolean,
   selectedCommitCount: number,
-  canSquashCommits = selectedCommitCount > 1
+  canSquashCommits = selectedCommitCount > 1,
+  canDeleteTags = false
 ): boolean {
   if (action === "editCommitMessage") {
     return !canEditCommitMessage;
   }
 
-  if (action === "compare") {
+  if (action === "deleteTag") {
+    return !canDeleteTags;
+  }
+
+  if (action === "compare" || action === "bisect") {
     return selectedCommitCount !== 2;
   }
 
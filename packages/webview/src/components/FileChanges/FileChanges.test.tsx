@@ -41,6 +41,52 @@ describe("FileChanges", () => {
     expect(within(region).getByText("binary")).toBeInTheDocument();
   });
 
+  it("renders submodule changes with their commit range and summary", () => {
+    render(
+      <FileChanges
+        files={[
+          {
+            binary: false,
+            deletions: 0,
+            insertions: 0,
+            path: "vendor/lib",
+            status: "modified",
+            submodule: {
+              commits: [
+                { hash: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb", message: "Add parser" },
+                { hash: "cccccccccccccccccccccccccccccccccccccccc", message: "Fix build" }
+              ],
+              newHash: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+              oldHash: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"
+            }
+          },
+          {
+            binary: false,
+            deletions: 0,
+            insertions: 0,
+            path: "vendor/ui",
+            status: "modified",
+            submodule: {
+              commits: [],
+              newHash: "dddddddddddddddddddddddddddddddddddddddd",
+              oldHash: "dddddddddddddddddddddddddddddddddddddddd"
+            }
+          }
+        ]}
+        mode="list"
+      />
+    );
+
+    const region = screen.getByRole("region", { name: "Files Changed" });
+
+    expect(within(region).getAllByText("submodule")).toHaveLength(2);
+    expect(within(region).getByText("aaaaaaa → bbbbbbb")).toBeInTheDocument();
+    expect(within(region).getByText("Add parser")).toBeInTheDocument();
+    expect(within(region).getByText("ccccccc")).toBeInTheDocument();
+    expect(within(region).getByText("Submodule has modified content")).toBeInTheDocument();
+    expect(within(region).queryByText("+0")).not.toBeInTheDocument();
+  });
+
   it("uses distinct badge colors for file statuses", () => {
     render(
       <FileChanges
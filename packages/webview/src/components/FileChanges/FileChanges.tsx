@@ -2,6 +2,7 @@ import { useMemo, useState, type ReactElement } from "react";
 import { FileText, History } from "lucide-react";
 import type { FileChangeViewModel, FileViewMode } from "../../app/rpcContract.generated";
 import { IconTooltip } from "../IconTooltip/IconTooltip";
+import { SubmoduleCommitRange, SubmoduleCommits } from "./SubmoduleChange";
 import { compressDirectoryChain } from "./treeCompression";
 
 export interface FileChangesLabels {
@@ -14,6 +15,9 @@ export interface FileChangesLabels {
   openDiff: string;
   openFile: string;
   openFileHistory: string;
+  submodule: string;
+  submoduleModified: string;
+  submoduleRewound: string;
   tree: string;
   treeView: string;
 }
@@ -28,6 +32,9 @@ const defaultLabels: FileChangesLabels = {
   openDiff: "Open diff for {0}",
   openFile: "Open file {0}",
   openFileHistory: "Open file history for {0}",
+  submodule: "submodule",
+  submoduleModified: "Submodule has modified content",
+  submoduleRewound: "Submodule rewound past these commits",
   tree: "Tree",
   treeView: "Tree view"
 };
@@ -284,28 +291,35 @@ function FileRow({
   onOpenFileHistory?: (path: string) => void;
 }): ReactElement {
   return (
-    <div
-      className="grid w-full grid-cols-[auto_1fr_auto_auto_auto] items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-transparent px-2 py-1.5 text-left text-xs last:border-b-0 hover:bg-[var(--vscode-list-hoverBackground)]"
-      style={{ paddingLeft: `${8 + depth * 14}px` }}
-    >
-      <span className={`rounded-[2px] border px-1 py-0.5 text-[10px] ${statusBadgeClass(file.status)}`}>
-        {file.binary ? labels.binary : file.status}
-      </span>
-      <button
-        aria-label={formatLabel(labels.openDiff, file.path)}
-        className="min-w-0 truncate bg-transparent text-left hover:underline"
-        onClick={() => onOpenFileDiff?.(file.path)}
-        type="button"
+    <>
+      <div
+        className="grid w-full grid-cols-[auto_1fr_auto_auto_auto] items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-transparent px-2 py-1.5 text-left text-xs last:border-b-0 hover:bg-[var(--vscode-list-hoverBackground)]"
+        style={{ paddingLeft: `${8 + depth * 14}px` }}
       >
-        {label}
-      </button>
-      <span className="shrink-0 text-[11px]">
-        <span className="text-[#28a745]">+{file.insertions}</span>{" "}
-        <span className="text-[#dc3545]">-{file.deletions}</span>
-      </span>
-      <FileActionButton icon="history" label={formatLabel(labels.openFileHistory, file.path)} onClick={() => onOpenFileHistory?.(file.path)} />
-      <FileActionButton icon="openFile" label={formatLabel(labels.openFile, file.path)} onClick={() => onOpenFile?.(file.path)} />
-    </div>
+        <span className={`rounded-[2px] border px-1 py-0.5 text-[10px] ${statusBadgeClass(file.status)}`}>
+          {file.submodule ? labels.submodule : file.binary ? labels.binary : file.status}
+        </span>
+        <button
+          aria-label={formatLabel(labels.openDiff, file.path)}
+          className="min-w-0 truncate bg-transparent text-left hover:underline"
+          onClick={() => onOpenFileDiff?.(file.path)}
+          type="button"
+        >
+          {label}
+        </button>
+        {file.submodule ? (
+          <SubmoduleCommitRange change={file.submodule} />
+        ) : (
+          <span className="shrink-0 text-[11px]">
+            <span className="text-[#28a745]">+{file.insertions}</span>{" "}
+            <span className="text-[#dc3545]">-{file.deletions}</span>
+          </span>
+        )}
+        <FileActionButton icon="history" label={formatLabel(labels.openFileHistory, file.path)} onClick={() => onOpenFileHistory?.(file.path)} />
+        <FileActionButton icon="openFile" label={formatLabel(labels.openFile, file.path)} onClick={() => onOpenFile?.(file.path)} />
+      </div>
+      {file.submodule ? <SubmoduleCommits change={file.submodule} depth={depth} labels={labels} /> : null}
+    </>
   );
 }
 
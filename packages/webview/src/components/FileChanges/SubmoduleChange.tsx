@@ -0,0 +1,49 @@
+import type { ReactElement } from "react";
+import type { SubmoduleChangeViewModel } from "../../app/rpcContract.generated";
+
+export interface SubmoduleChangeLabels {
+  submoduleModified: string;
+  submoduleRewound: string;
+}
+
+export function SubmoduleCommitRange({ change }: { change: SubmoduleChangeViewModel }): ReactElement {
+  return (
+    <span className="shrink-0 font-mono text-[11px] text-[var(--vscode-descriptionForeground)]">
+      {change.oldHash?.slice(0, 7) ?? "-"} → {change.newHash?.slice(0, 7) ?? "-"}
+    </span>
+  );
+}
+
+export function SubmoduleCommits({
+  change,
+  depth = 0,
+  labels
+}: {
+  change: SubmoduleChangeViewModel;
+  depth?: number;
+  labels: SubmoduleChangeLabels;
+}): ReactElement | null {
+  const note = change.rewound
+    ? labels.submoduleRewound
+    : change.oldHash && change.oldHash === change.newHash
+      ? labels.submoduleModified
+      : undefined;
+  if (!note && change.commits.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      className="space-y-0.5 border-b border-[var(--vscode-panel-border)] py-1 pr-2 text-[11px] last:border-b-0"
+      style={{ paddingLeft: `${30 + depth * 14}px` }}
+    >
+      {note ? <li className="text-[var(--vscode-descriptionForeground)]">{note}</li> : null}
+      {change.commits.map((commit) => (
+        <li className="flex min-w-0 gap-2" key={commit.hash}>
+          <span className="shrink-0 font-mono text-[var(--vscode-descriptionForeground)]">{commit.hash.slice(0, 7)}</span>
+          <span className={`min-w-0 truncate ${change.rewound ? "line-through" : ""}`}>{commit.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
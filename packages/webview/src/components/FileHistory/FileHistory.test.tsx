@@ -0,0 +1,78 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen, within } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FileHistory } from "./FileHistory";
+
+const history = {
+  entries: [
+    {
+      author: "Ada",
+      date: "2026-10-19 05:38:45 +0000",
+      deletions: 2,
+      filePath: "src/new.ts",
+      hash: "1111111111111111111111111111111111111111",
+      insertions: 5,
+      message: "Tune parser",
+      shortHash: "1111111"
+    },
+    {
+      author: "Grace",
+      date: "2026-10-18 09:00:00 +0000",
+      deletions: 0,
+      filePath: "src/old.ts",
+      hash: "2222222222222222222222222222222222222222",
+      insertions: 12,
+      message: "Add parser",
+      shortHash: "2222222"
+    }
+  ],
+  filePath: "src/new.ts"
+};
+
+describe("FileHistory", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("lists revisions with diff stats and compares two selected revisions oldest first", async () => {
+    const user = userEvent.setup();
+    const onCompare = vi.fn();
+    const onShowCommit = vi.fn();
+
+    render(<FileHistory filePath="src/new.ts" history={history} onCompare={onCompare} onShowCommit={onShowCommit} open />);
+
+    const table = screen.getByRole("table", { name: "File History: src/new.ts" });
+    const newerRow = within(table).getByRole("row", { name: "1111111" });
+    const olderRow = within(table).getByRole("row", { name: "2222222" });
+
+    expect(newerRow).toHaveTextContent("+5");
+    expect(newerRow).toHaveTextContent("-2");
+    expect(olderRow).toHaveTextContent("as src/old.ts");
+    expect(screen.getByRole("button", { name: "Compare Selected" })).toBeDisabled();
+
+    await user.click(within(olderRow).getByRole("checkbox", { name: "Select 2222222" }));
+    await user.click(within(newerRow).getByRole("checkbox", { name: "Select 1111111" }));
+    await user.click(screen.getByRole("button", { name: "Compare Selected" }));
+    await user.click(within(olderRow).getByRole("button", { name: "Show Commit 2222222" }));
+
+    expect(onCompare).toHaveBeenCalledWith(history.entries[1], history.entries[0]);
+    expect(onShowCommit).toHaveBeenCalledWith("2222222222222222222222222222222222222222");
+  });
+
+  it("titles line-range history and shows loading and empty states", () => {
+    const { rerender } = render(
+      <FileHistory filePath="src/new.ts" lineRange={{ endLine: 12, startLine: 4 }} loading open />
+    );
+
+    expect(screen.getByRole("dialog", { name: "Line History: src/new.ts:4-12" })).toBeInTheDocument();
+    expect(screen.getByRole("status")).toHaveTextContent("Loading history...");
+
+    rerender(<FileHistory filePath="src/new.ts" history={{ entries: [], filePath: "src/new.ts" }} open />);
+
+    expect(screen.getByText("No history found")).toBeInTheDocument();
+  });
+});
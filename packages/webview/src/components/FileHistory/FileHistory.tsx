@@ -0,0 +1,231 @@
+import { useEffect, useState, type ReactElement } from "react";
+import type {
+  FileHistoryEntryViewModel,
+  FileHistoryLineRangeViewModel,
+  FileHistoryViewModel
+} from "../../app/rpcContract.generated";
+import { IconTooltip } from "../IconTooltip/IconTooltip";
+
+export interface FileHistoryLabels {
+  close: string;
+  compare: string;
+  description: string;
+  empty: string;
+  fileTitle: string;
+  lineTitle: string;
+  loading: string;
+  renamedFrom: string;
+  selectRevision: string;
+  showCommit: string;
+}
+
+export interface FileHistoryProps {
+  error?: string;
+  filePath: string;
+  history?: FileHistoryViewModel;
+  labels?: Partial<FileHistoryLabels>;
+  lineRange?: FileHistoryLineRangeViewModel;
+  loading?: boolean;
+  onClose?: () => void;
+  onCompare?: (older: FileHistoryEntryViewModel, newer: FileHistoryEntryViewModel) => void;
+  onShowCommit?: (hash: string) => void;
+  open: boolean;
+}
+
+export function FileHistory({
+  error,
+  filePath,
+  history,
+  labels,
+  lineRange,
+  loading = false,
+  onClose,
+  onCompare,
+  onShowCommit,
+  open
+}: FileHistoryProps): ReactElement | null {
+  const text = { ...defaultFileHistoryLabels, ...labels };
+  const [selectedHashes, setSelectedHashes] = useState<readonly string[]>([]);
+  const entries = history?.entries ?? [];
+
+  useEffect(() => {
+    setSelectedHashes([]);
+  }, [history]);
+
+  if (!open) {
+    return null;
+  }
+
+  const selectedEntries = entries.filter((entry) => selectedHashes.includes(entry.hash));
+  const title = lineRange
+    ? formatLabel(text.lineTitle, `${filePath}:${lineRange.startLine}-${lineRange.endLine}`)
+    : formatLabel(text.fileTitle, filePath);
+  const toggleEntry = (hash: string) => {
+    setSelectedHashes((current) =>
+      current.includes(hash) ? current.filter((selectedHash) => selectedHash !== hash) : [...current, hash].slice(-2)
+    );
+  };
+  // Entries arrive newest first, so the later row in the list is the older revision.
+  const compareSelected = () => {
+    const [newer, older] = selectedEntries;
+    if (newer && older) {
+      onCompare?.(older, newer);
+    }
+  };
+
+  return (
+    <div aria-hidden="false" className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/35 p-5">
+      <div
+        aria-labelledby="file-history-title"
+        aria-modal="true"
+        className="flex max-h-[90vh] w-[min(1040px,95%)] flex-col rounded-lg border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editor-background)] shadow-[0_18px_36px_rgba(0,0,0,0.45)]"
+        role="dialog"
+      >
+        <div className="flex justify-between gap-4 border-b border-[var(--vscode-panel-border)] px-5 py-4">
+          <div className="min-w-0">
+            <h3 className="m-0 truncate text-base" id="file-history-title" title={title}>
+              {title}
+            </h3>
+            <p className="m-0 mt-1 text-xs text-[var(--vscode-descriptionForeground)]">{text.description}</p>
+          </div>
+          <div className="flex items-start gap-2">
+            <button
+              className={secondaryButtonClassName}
+              disabled={selectedEntries.length !== 2}
+              onClick={compareSelected}
+              type="button"
+            >
+              {text.compare}
+            </button>
+            <button
+              aria-label={text.close}
+              className="guigit-icon-tooltip-host h-6 w-6 rounded bg-transparent text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={onClose}
+              type="button"
+            >
+              x
+              <IconTooltip label={text.close} placement="bottom" />
+            </button>
+          </div>
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-hidden px-5 py-4">
+          {loading ? (
+            <div className="text-xs text-[var(--vscode-descriptionForeground)]" role="status">
+              {text.loading}
+            </div>
+          ) : null}
+          {error ? (
+            <div className="text-xs text-[var(--vscode-errorForeground)]" role="alert">
+              {error}
+            </div>
+          ) : null}
+          <div aria-label={title} className="min-h-0 flex-1 overflow-auto" role="table">
+            {entries.length > 0 ? (
+              entries.map((entry) => (
+                <FileHistoryRow
+                  entry={entry}
+                  filePath={filePath}
+                  key={entry.hash}
+                  labels={text}
+                  onShowCommit={onShowCommit}
+                  onToggle={toggleEntry}
+                  selected={selectedHashes.includes(entry.hash)}
+                />
+              ))
+            ) : !loading && !error ? (
+              <div className="flex items-center justify-center rounded-md border border-dashed border-[var(--vscode-panel-border)] p-6 text-center text-[var(--vscode-descriptionForeground)]">
+                {text.empty}
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface FileHistoryRowProps {
+  entry: FileHistoryEntryViewModel;
+  filePath: string;
+  labels: FileHistoryLabels;
+  onShowCommit?: (hash: string) => void;
+  onToggle: (hash: string) => void;
+  selected: boolean;
+}
+
+function FileHistoryRow({ entry, filePath, labels, onShowCommit, onToggle, selected }: FileHistoryRowProps): ReactElement {
+  return (
+    <article
+      aria-label={entry.shortHash}
+      aria-selected={selected}
+      className={`flex h-9 border-b border-[var(--vscode-panel-border)] ${
+        selected ? "bg-[var(--vscode-list-inactiveSelectionBackground)]" : "hover:bg-[var(--vscode-list-hoverBackground)]"
+      }`}
+      role="row"
+    >
+      <div className="grid h-full min-w-[760px] flex-1 grid-cols-[20px_70px_minmax(180px,1fr)_90px_120px_150px_auto] items-center gap-3 px-3">
+        <span role="cell">
+          <input
+            aria-label={formatLabel(labels.selectRevision, entry.shortHash)}
+            checked={selected}
+            onChange={() => onToggle(entry.hash)}
+            type="checkbox"
+          />
+        </span>
+        <span className="truncate font-mono text-[11px] text-[var(--vscode-descriptionForeground)]" role="cell">
+          {entry.shortHash}
+        </span>
+        <span className="flex min-w-0 flex-col" role="cell">
+          <span className="truncate text-xs font-medium" title={entry.message}>
+            {entry.message}
+          </span>
+          {entry.filePath !== filePath ? (
+            <span className="truncate text-[10px] text-[var(--vscode-descriptionForeground)]" title={entry.filePath}>
+              {formatLabel(labels.renamedFrom, entry.filePath)}
+            </span>
+          ) : null}
+        </span>
+        <span className="flex gap-1.5 font-mono text-[11px]" role="cell">
+          <span className="text-[var(--vscode-gitDecoration-addedResourceForeground)]">+{entry.insertions}</span>
+          <span className="text-[var(--vscode-gitDecoration-deletedResourceForeground)]">-{entry.deletions}</span>
+        </span>
+        <span className="truncate text-[11px] text-[var(--vscode-descriptionForeground)]" role="cell">
+          {entry.author}
+        </span>
+        <span className="truncate text-[11px] text-[var(--vscode-descriptionForeground)]" role="cell">
+          {entry.date}
+        </span>
+        <span className="flex justify-end" role="cell">
+          <button
+            aria-label={`${labels.showCommit} ${entry.shortHash}`}
+            className={secondaryButtonClassName}
+            onClick={() => onShowCommit?.(entry.hash)}
+            type="button"
+          >
+            {labels.showCommit}
+          </button>
+        </span>
+      </div>
+    </article>
+  );
+}
+
+function formatLabel(template: string, value: string): string {
+  return template.replace("{0}", value);
+}
+
+const secondaryButtonClassName =
+  "rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-2 py-1 text-[11px] text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))] disabled:cursor-not-allowed disabled:opacity-50";
+
+const defaultFileHistoryLabels: FileHistoryLabels = {
+  close: "Close File History",
+  compare: "Compare Selected",
+  description: "Select two revisions to compare them.",
+  empty: "No history found",
+  fileTitle: "File History: {0}",
+  lineTitle: "Line History: {0}",
+  loading: "Loading history...",
+  renamedFrom: "as {0}",
+  selectRevision: "Select {0}",
+  showCommit: "Show Commit"
+};
@@ -72,4 +72,30 @@ describe("GitGraph", () => {
     await user.click(secondNode);
     expect(onNodeSelect).toHaveBeenCalledWith("second");
   });
+
+  it("dims nodes and edges outside the highlighted range", () => {
+    const { rerender } = render(<GitGraph graph={graph} highlightedHashes={["second"]} rowCount={2} />);
+
+    const svg = screen.getByRole("img", { name: "Git graph" });
+    expect(svg.querySelector('[data-hash="second"]')).toHaveAttribute("data-highlighted", "true");
+    expect(svg.querySelector('[data-hash="second"] circle')).toHaveAttribute("r", "6");
+    expect(svg.querySelector('[data-hash="first"]')).toHaveAttribute("data-highlighted", "false");
+    expect(svg.querySelector('[data-hash="first"] circle')).toHaveAttribute("opacity", "0.25");
+    expect(svg.querySelector("path")).toHaveAttribute("opacity", "0.25");
+
+    rerender(<GitGraph graph={graph} highlightedHashes={["first", "second"]} rowCount={2} />);
+
+    expect(svg.querySelector("path")).not.toHaveAttribute("opacity");
+    expect(svg.querySelector('[data-hash="first"] circle')).not.toHaveAttribute("opacity");
+  });
+
+  it("renders only the nodes and edges that cross the visible rows", () => {
+    render(<GitGraph graph={graph} rowCount={2} visibleRows={{ end: 2, start: 1 }} />);
+
+    const svg = screen.getByRole("img", { name: "Git graph" });
+    expect(svg).toHaveAttribute("viewBox", "0 0 160 72");
+    expect(svg.querySelector('[data-hash="first"]')).not.toBeInTheDocument();
+    expect(svg.querySelector('[data-hash="second"]')).toBeInTheDocument();
+    expect(svg.querySelectorAll("path")).toHaveLength(1);
+  });
 });
@@ -1,6 +1,10 @@
 import type { KeyboardEvent, ReactElement } from "react";
 import { useState } from "react";
-import type { GraphLayoutViewModel, GraphPointViewModel } from "../../app/rpcContract.generated";
+import type {
+  GraphEdgeViewModel,
+  GraphLayoutViewModel,
+  GraphPointViewModel
+} from "../../app/rpcContract.generated";
 
 export interface GitGraphLabels {
   label: string;
@@ -14,21 +18,44 @@ const defaultLabels: GitGraphLabels = {
 
 export interface GitGraphProps {
   graph?: GraphLayoutViewModel;
+  highlightedHashes?: readonly string[];
   labels?: Partial<GitGraphLabels>;
   onNodeSelect?: (hash: string) => void;
   rowCount?: number;
+  visibleRows?: GitGraphRowRange;
+}
+
+export interface GitGraphRowRange {
+  end: number;
+  start: number;
 }
 
 const rowHeight = 36;
 const minimumHeight = 36;
 const defaultWidth = 120;
 const curveRadius = 12;
-
-export function GitGraph({ graph, labels, onNodeSelect, rowCount = 0 }: GitGraphProps): ReactElement {
+const dimmedOpacity = 0.25;
+
+export function GitGraph({
+  graph,
+  highlightedHashes = [],
+  labels,
+  onNodeSelect,
+  rowCount = 0,
+  visibleRows
+}: GitGraphProps): ReactElement {
   const [hoveredHash, setHoveredHash] = useState<string | undefined>();
+  const highlighted = new Set(highlightedHashes);
+  const highlighting = highlighted.size > 0;
   const height = Math.max(rowCount * rowHeight, minimumHeight);
   const width = graph?.width ?? defaultWidth;
   const text = { ...defaultLabels, ...labels };
+  const nodes = visibleRows
+    ? graph?.nodes.filter((node) => node.row >= visibleRows.start && node.row < visibleRows.end)
+    : graph?.nodes;
+  const edges = visibleRows
+    ? graph?.edges.filter((edge) => edgeIntersectsRows(edge, visibleRows.start * rowHeight, visibleRows.end * rowHeight))
+    : graph?.edges;
 
   const handleNodeKeyDown = (event: KeyboardEvent<SVGGElement>, hash: string) => {
     if (event.key === "Enter" || event.key === " ") {
@@ -39,21 +66,23 @@ export function GitGraph({ graph, labels, onNodeSelect, rowCount = 0 }: GitGraph
 
   return (
     <svg aria-label={text.label} className="block" height={height} role="img" viewBox={`0 0 ${width} ${height}`} width={width}>
-      {graph?.edges.map((edge) => (
+      {edges?.map((edge) => (
         <path
           d={toRoundedPath(edge.points)}
           fill="none"
           key={`${edge.fromHash}-${edge.toHash}`}
+          opacity={highlighting && !(highlighted.has(edge.fromHash) && highlighted.has(edge.toHash)) ? dimmedOpacity : undefined}
           strokeLinecap="round"
           strokeLinejoin="round"
           stroke={edge.color}
           strokeWidth="2"
         />
       ))}
-      {graph?.nodes.map((node) => (
+      {nodes?.map((node) => (
         <g
           aria-label={formatLabel(text.selectCommit, node.hash)}
           data-hash={node.hash}
+          data-highlighted={highlighting ? highlighted.has(node.hash) : undefined}
           data-hovered={hoveredHash === node.hash}
           key={node.hash}
           onClick={() => onNodeSelect?.(node.hash)}
@@ -67,9 +96,10 @@ export function GitGraph({ graph, labels, onNodeSelect, rowCount = 0 }: GitGraph
             cx={node.x}
             cy={node.y}
             fill={node.color}
-            r={hoveredHash === node.hash ? "6" : "4"}
-            stroke="var(--vscode-editor-background)"
-            strokeWidth="1"
+            opacity={highlighting && !highlighted.has(node.hash) ? dimmedOpacity : undefined}
+            r={hoveredHash === node.hash || highlighted.has(node.hash) ? "6" : "4"}
+            stroke={highlighted.has(node.hash) ? "var(--vscode-focusBorder)" : "var(--vscode-editor-background)"}
+            strokeWidth={highlighted.has(node.hash) ? "2" : "1"}
           />
         </g>
       ))}
@@ -77,6 +107,12 @@ export function GitGraph({ graph, labels, onNodeSelect, rowCount = 0 }: GitGraph
   );
 }
 
+function edgeIntersectsRows(edge: GraphEdgeViewModel, top: number, bottom: number): boolean {
+  const ys = edge.points.map((point) => point.y);
+
+  return Math.min(...ys) <= bottom && Math.max(...ys) >= top;
+}
+
 function toRoundedPath(points: readonly GraphPointViewModel[]): string {
   const commands = [`M ${formatPoint(points[0]!)}`];
 
@@ -1,28 +1,52 @@
-import { useEffect, useRef, useState, type ReactElement } from "react";
-import type { BranchesViewModel } from "../../app/rpcContract.generated";
+import { useEffect, useRef, useState, type KeyboardEvent, type MouseEvent, type ReactElement, type ReactNode } from "react";
+import { GitMerge, Link2, Pencil, Trash2, X } from "lucide-react";
+import type { BranchesViewModel, BranchViewModel } from "../../app/rpcContract.generated";
 
 export interface BranchMenuLabels {
+  aheadBehind: string;
   allBranches: string;
   branch: string;
+  cancelRename: string;
+  deleteBranch: string;
+  mergeBranch: string;
+  newBranchName: string;
+  noUpstream: string;
+  renameBranch: string;
   selectedBranches: string;
+  setUpstream: string;
 }
 
 export interface BranchMenuProps {
   branches?: BranchesViewModel;
   labels: BranchMenuLabels;
   onBranchSelectionChange?: (branches: readonly string[]) => void;
+  onDeleteBranch?: (branch: BranchViewModel, force: boolean) => void;
+  onMergeBranch?: (name: string) => void;
+  onRenameBranch?: (name: string, newName: string) => void;
+  onSetUpstream?: (name: string, upstream: string | undefined) => void;
   selectedBranches: readonly string[];
 }
 
+interface BranchEdit {
+  kind: "rename" | "upstream";
+  name: string;
+}
+
 export function BranchMenu({
   branches,
   labels,
   onBranchSelectionChange,
+  onDeleteBranch,
+  onMergeBranch,
+  onRenameBranch,
+  onSetUpstream,
   selectedBranches
 }: BranchMenuProps): ReactElement {
   const [open, setOpen] = useState(false);
+  const [edit, setEdit] = useState<BranchEdit | undefined>(undefined);
   const rootRef = useRef<HTMLDivElement>(null);
   const branchOptions = flattenBranches(branches);
+  const remoteBranchNames = branchOptions.filter((branch) => branch.remote).map((branch) => branch.name);
   const selectedBranchSet = new Set(selectedBranches);
   const branchLabel = selectedBranches.length === 0
     ? labels.allBranches
@@ -42,6 +66,7 @@ export function BranchMenu({
       }
 
       setOpen(false);
+      setEdit(undefined);
     };
 
     window.addEventListener("pointerdown", closeOnOutsidePointerDown);
@@ -55,6 +80,124 @@ export function BranchMenu({
     onBranchSelectionChange?.(nextBranches);
   };
 
+  const submitRename = (branch: BranchViewModel, event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      setEdit(undefined);
+      return;
+    }
+
+    if (event.key !== "Enter") {
+      return;
+    }
+
+    const newName = event.currentTarget.value.trim();
+    setEdit(undefined);
+    if (newName && newName !== branch.name) {
+      onRenameBranch?.(branch.name, newName);
+    }
+  };
+
+  const deleteBranch = (branch: BranchViewModel, event: MouseEvent<HTMLButtonElement>) => {
+    onDeleteBranch?.(branch, event.metaKey || event.ctrlKey);
+  };
+
+  const renderBranchRow = (branch: BranchViewModel): ReactNode => {
+    if (edit?.kind === "rename" && edit.name === branch.name) {
+      return (
+        <div className="flex items-center gap-1 px-3 py-1.5" key={branch.name}>
+          <input
+            aria-label={formatLabel(labels.newBranchName, branch.name)}
+            autoFocus
+            className="h-6 min-w-0 flex-1 rounded-[3px] border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] px-2 text-xs text-[var(--vscode-input-foreground)] outline-none focus:border-[var(--vscode-focusBorder)]"
+            defaultValue={branch.name}
+            onKeyDown={(event) => submitRename(branch, event)}
+            type="text"
+          />
+          <BranchActionButton label={formatLabel(labels.cancelRename, branch.name)} onClick={() => setEdit(undefined)}>
+            <X aria-hidden="true" className="h-3.5 w-3.5" />
+          </BranchActionButton>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        className="group flex items-center gap-1 pr-2 text-[var(--vscode-menu-foreground,var(--vscode-foreground))] hover:bg-[var(--vscode-menu-selectionBackground)]"
+        key={branch.name}
+      >
+        <label className="flex min-w-0 flex-1 cursor-pointer items-center gap-2 py-2 pl-3">
+          <input
+            checked={selectedBranchSet.has(branch.name)}
+            onChange={() => toggleBranch(branch.name)}
+            type="checkbox"
+          />
+          <span className={`truncate ${branch.current ? "font-semibold" : ""}`}>{branch.name}</span>
+        </label>
+        {branch.upstream ? (
+          <span
+            className="shrink-0 text-[10px] text-[var(--vscode-descriptionForeground)]"
+            title={formatLabel(labels.aheadBehind, String(branch.ahead ?? 0), String(branch.behind ?? 0), branch.upstream)}
+          >
+            {`↑${branch.ahead ?? 0} ↓${branch.behind ?? 0}`}
+          </span>
+        ) : null}
+        {edit?.kind === "upstream" && edit.name === branch.name ? (
+          <select
+            aria-label={formatLabel(labels.setUpstream, branch.name)}
+            autoFocus
+            className="h-6 max-w-[160px] rounded-[3px] border border-[var(--vscode-dropdown-border)] bg-[var(--vscode-dropdown-background)] px-1 text-xs text-[var(--vscode-dropdown-foreground)]"
+            onChange={(event) => {
+              setEdit(undefined);
+              onSetUpstream?.(branch.name, event.currentTarget.value || undefined);
+            }}
+            value={branch.upstream ?? ""}
+          >
+            <option value="">{labels.noUpstream}</option>
+            {remoteBranchNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        {branch.remote ? null : (
+          <>
+            <BranchActionButton
+              label={formatLabel(labels.renameBranch, branch.name)}
+              onClick={() => setEdit({ kind: "rename", name: branch.name })}
+            >
+              <Pencil aria-hidden="true" className="h-3.5 w-3.5" />
+            </BranchActionButton>
+            <BranchActionButton
+              label={formatLabel(labels.setUpstream, branch.name)}
+              onClick={() => setEdit({ kind: "upstream", name: branch.name })}
+            >
+              <Link2 aria-hidden="true" className="h-3.5 w-3.5" />
+            </BranchActionButton>
+          </>
+        )}
+        <BranchActionButton
+          disabled={branch.current}
+          label={formatLabel(labels.mergeBranch, branch.name)}
+          onClick={() => {
+            setOpen(false);
+            onMergeBranch?.(branch.name);
+          }}
+        >
+          <GitMerge aria-hidden="true" className="h-3.5 w-3.5" />
+        </BranchActionButton>
+        <BranchActionButton
+          disabled={branch.current}
+          label={formatLabel(labels.deleteBranch, branch.name)}
+          onClick={(event) => deleteBranch(branch, event)}
+        >
+          <Trash2 aria-hidden="true" className="h-3.5 w-3.5" />
+        </BranchActionButton>
+      </div>
+    );
+  };
+
   return (
     <div className="relative" ref={rootRef}>
       <button
@@ -69,7 +212,7 @@ export function BranchMenu({
       {open ? (
         <div
           aria-label={labels.branch}
-          className="absolute left-0 top-8 z-[1000] max-h-[320px] min-w-[220px] overflow-y-auto rounded border border-[var(--vscode-menu-border)] bg-[var(--vscode-menu-background)] py-1 text-xs shadow-[0_2px_8px_rgba(0,0,0,0.3)]"
+          className="absolute left-0 top-8 z-[1000] max-h-[320px] min-w-[300px] overflow-y-auto rounded border border-[var(--vscode-menu-border)] bg-[var(--vscode-menu-background)] py-1 text-xs shadow-[0_2px_8px_rgba(0,0,0,0.3)]"
           role="menu"
         >
           <button
@@ -83,32 +226,46 @@ export function BranchMenu({
           >
             {labels.allBranches}
           </button>
-          {branchOptions.map((branch) => (
-            <label
-              className="flex cursor-pointer items-center gap-2 px-3 py-2 text-[var(--vscode-menu-foreground,var(--vscode-foreground))] hover:bg-[var(--vscode-menu-selectionBackground)]"
-              key={branch}
-            >
-              <input
-                checked={selectedBranchSet.has(branch)}
-                onChange={() => toggleBranch(branch)}
-                type="checkbox"
-              />
-              <span>{branch}</span>
-            </label>
-          ))}
+          {branchOptions.map(renderBranchRow)}
         </div>
       ) : null}
     </div>
   );
 }
 
-function flattenBranches(branches: BranchesViewModel | undefined): readonly string[] {
+function BranchActionButton({
+  children,
+  disabled = false,
+  label,
+  onClick
+}: {
+  children: ReactNode;
+  disabled?: boolean;
+  label: string;
+  onClick: (event: MouseEvent<HTMLButtonElement>) => void;
+}): ReactElement {
+  return (
+    <button
+      aria-label={label}
+      className="flex h-6 w-6 shrink-0 items-center justify-center rounded-[3px] border border-transparent text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+      disabled={disabled}
+      onClick={onClick}
+      title={label}
+      type="button"
+    >
+      {children}
+    </button>
+  );
+}
+
+function flattenBranches(branches: BranchesViewModel | undefined): readonly BranchViewModel[] {
   if (!branches) {
     return [];
   }
 
-  return [
-    ...branches.locals.map((branch) => branch.name),
-    ...branches.remotes.flatMap((remote) => remote.branches.map((branch) => branch.name))
-  ];
+  return [...branches.locals, ...branches.remotes.flatMap((remote) => remote.branches)];
+}
+
+function formatLabel(label: string, ...values: readonly string[]): string {
+  return values.reduce((formatted, value, index) => formatted.replace(`{${index}}`, value), label);
 }
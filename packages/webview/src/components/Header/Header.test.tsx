@@ -14,11 +14,19 @@ const branches = {
       name: "main"
     },
     {
+      ahead: 2,
+      behind: 1,
       current: false,
-      name: "feature/ui"
+      name: "feature/ui",
+      upstream: "origin/feature/ui"
     }
   ],
-  remotes: []
+  remotes: [
+    {
+      branches: [{ current: false, name: "origin/feature/ui", remote: "origin" }],
+      remote: "origin"
+    }
+  ]
 };
 
 describe("Header", () => {
@@ -35,6 +43,54 @@ describe("Header", () => {
     expect(header).toHaveClass("flex-wrap");
   });
 
+  it("lists linked worktrees under their repository in the repository switcher", async () => {
+    const user = userEvent.setup();
+    const onRepositoryChange = vi.fn();
+
+    render(
+      <Header
+        onRepositoryChange={onRepositoryChange}
+        repositories={[
+          { id: "/repo", name: "repo", rootPath: "/repo" },
+          { id: "/tools", name: "tools", rootPath: "/tools" },
+          { id: "/work/hotfix", name: "hotfix", rootPath: "/work/hotfix", worktreeOf: "/repo" }
+        ]}
+        selectedRepositoryId="/repo"
+      />
+    );
+
+    const repositorySelect = screen.getByRole("combobox", { name: "Repository" });
+    const worktreeGroup = within(repositorySelect).getByRole("group", { name: "Worktrees of repo" });
+
+    expect(within(worktreeGroup).getAllByRole("option").map((option) => option.textContent)).toEqual(["hotfix"]);
+    expect(within(repositorySelect).getAllByRole("option").map((option) => option.textContent)).toEqual(["repo", "tools", "hotfix"]);
+
+    await user.selectOptions(repositorySelect, "/work/hotfix");
+
+    expect(onRepositoryChange).toHaveBeenCalledWith("/work/hotfix");
+  });
+
+  it("lists submodules under their parent repository in the repository switcher", () => {
+    render(
+      <Header
+        repositories={[
+          { id: "/repo", name: "repo", rootPath: "/repo" },
+          { id: "/repo/vendor/lib", name: "lib", rootPath: "/repo/vendor/lib", submoduleOf: "/repo" },
+          { id: "/repo/vendor/lib/deps/core", name: "core", rootPath: "/repo/vendor/lib/deps/core", submoduleOf: "/repo/vendor/lib" }
+        ]}
+        selectedRepositoryId="/repo"
+      />
+    );
+
+    const repositorySelect = screen.getByRole("combobox", { name: "Repository" });
+    const repoGroup = within(repositorySelect).getByRole("group", { name: "Submodules of repo" });
+    const libGroup = within(repositorySelect).getByRole("group", { name: "Submodules of lib" });
+
+    expect(within(repoGroup).getAllByRole("option").map((option) => option.textContent)).toEqual(["lib"]);
+    expect(within(libGroup).getAllByRole("option").map((option) => option.textContent)).toEqual(["core"]);
+    expect(within(repositorySelect).getAllByRole("option").map((option) => option.textContent)).toEqual(["repo", "lib", "core"]);
+  });
+
   it("closes the branch menu when pointer down happens outside it", async () => {
     const user = userEvent.setup();
 
@@ -68,4 +124,116 @@ describe("Header", () => {
     expect(onBranchSelectionChange).toHaveBeenCalledWith(["feature/ui"]);
     expect(screen.getByRole("menu", { name: "Branches" })).toBeInTheDocument();
   });
+
+  it("renames, deletes, and sets upstreams from the branch menu", async () => {
+    const user = userEvent.setup();
+    const onDeleteBranch = vi.fn();
+    const onRenameBranch = vi.fn();
+    const onSetBranchUpstream = vi.fn();
+
+    render(
+      <Header
+        branches={branches}
+        onDeleteBranch={onDeleteBranch}
+        onRenameBranch={onRenameBranch}
+        onSetBranchUpstream={onSetBranchUpstream}
+      />
+    );
+    await user.click(screen.getByRole("button", { name: "Branches" }));
+    const menu = screen.getByRole("menu", { name: "Branches" });
+
+    expect(within(menu).getByTitle("2 ahead, 1 behind origin/feature/ui")).toHaveTextContent("↑2 ↓1");
+    expect(within(menu).getByRole("button", { name: "Delete main (Command/Ctrl+click to force delete)" })).toBeDisabled();
+
+    await user.click(within(menu).getByRole("button", { name: "Rename feature/ui" }));
+    const nameInput = within(menu).getByRole("textbox", { name: "New name for feature/ui" });
+    await user.clear(nameInput);
+    await user.type(nameInput, "feature/header{Enter}");
+    await user.click(within(menu).getByRole("button", { name: "Set upstream for feature/ui" }));
+    await user.selectOptions(within(menu).getByRole("combobox", { name: "Set upstream for feature/ui" }), "No upstream");
+    await user.keyboard("{Control>}");
+    await user.click(within(menu).getByRole("button", { name: "Delete feature/ui (Command/Ctrl+click to force delete)" }));
+    await user.keyboard("{/Control}");
+    await user.click(within(menu).getByRole("button", { name: "Delete origin/feature/ui (Command/Ctrl+click to force delete)" }));
+
+    expect(onRenameBranch).toHaveBeenCalledWith("feature/ui", "feature/header");
+    expect(onSetBranchUpstream).toHaveBeenCalledWith("feature/ui", undefined);
+    expect(onDeleteBranch).toHaveBeenNthCalledWith(1, branches.locals[1], true);
+    expect(onDeleteBranch).toHaveBeenNthCalledWith(2, branches.remotes[0]!.branches[0], false);
+  });
+
+  it("merges another branch into the current branch from the branch menu", async () => {
+    const user = userEvent.setup();
+    const onMergeBranch = vi.fn();
+
+    render(<Header branches={branches} onMergeBranch={onMergeBranch} />);
+    await user.click(screen.getByRole("button", { name: "Branches" }));
+    const menu = screen.getByRole("menu", { name: "Branches" });
+
+    expect(within(menu).getByRole("button", { name: "Merge main into current branch" })).toBeDisabled();
+    await user.click(within(menu).getByRole("button", { name: "Merge origin/feature/ui into current branch" }));
+
+    expect(onMergeBranch).toHaveBeenCalledWith("origin/feature/ui");
+    expect(screen.queryByRole("menu", { name: "Branches" })).not.toBeInTheDocument();
+  });
+
+  it("loads open pull requests when the menu opens and checks one out", async () => {
+    const user = userEvent.setup();
+    const onCheckoutPullRequest = vi.fn();
+    const onConfigurePullRequestToken = vi.fn();
+    const onLoadPullRequests = vi.fn();
+    const pullRequest = {
+      author: "octo",
+      draft: true,
+      number: 7,
+      sourceBranch: "feature/demo",
+      targetBranch: "main",
+      title: "Add demo",
+      updatedAt: "2026-01-02T03:04:05Z",
+      url: "https://github.com/owner/repo/pull/7"
+    };
+    const { rerender } = render(
+      <Header
+        onCheckoutPullRequest={onCheckoutPullRequest}
+        onConfigurePullRequestToken={onConfigurePullRequestToken}
+        onLoadPullRequests={onLoadPullRequests}
+        pullRequestsLoading
+      />
+    );
+
+    await user.click(screen.getByRole("button", { name: "Pull Requests" }));
+    expect(onLoadPullRequests).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole("status")).toHaveTextContent("Loading pull requests...");
+
+    rerender(
+      <Header
+        onCheckoutPullRequest={onCheckoutPullRequest}
+        onConfigurePullRequestToken={onConfigurePullRequestToken}
+        onLoadPullRequests={onLoadPullRequests}
+        pullRequests={[pullRequest]}
+      />
+    );
+    const menu = screen.getByRole("menu", { name: "Pull Requests" });
+    expect(menu).toHaveTextContent("#7 Add demoDraft");
+    expect(menu).toHaveTextContent("octo · feature/demo → main");
+    expect(within(menu).getByRole("link", { name: "Open #7 in browser" })).toHaveAttribute("href", pullRequest.url);
+
+    await user.click(within(menu).getByRole("button", { name: "Set access token" }));
+    await user.click(within(menu).getByRole("button", { name: "Checkout #7" }));
+
+    expect(onConfigurePullRequestToken).toHaveBeenCalledTimes(1);
+    expect(onCheckoutPullRequest).toHaveBeenCalledWith(pullRequest);
+    expect(screen.queryByRole("menu", { name: "Pull Requests" })).not.toBeInTheDocument();
+  });
+
+  it("shows pull request loading errors inside the menu", async () => {
+    const user = userEvent.setup();
+
+    render(<Header pullRequestsError="Hosting API request failed with status 401" />);
+    await user.click(screen.getByRole("button", { name: "Pull Requests" }));
+
+    expect(within(screen.getByRole("menu", { name: "Pull Requests" })).getByRole("alert")).toHaveTextContent(
+      "Hosting API request failed with status 401"
+    );
+  });
 });
@@ -11,8 +11,15 @@ import {
   Settings,
   User
 } from "lucide-react";
-import type { BranchesViewModel, CurrentUserViewModel, RepositoryViewModel } from "../../app/rpcContract.generated";
+import type {
+  BranchesViewModel,
+  BranchViewModel,
+  CurrentUserViewModel,
+  PullRequestViewModel,
+  RepositoryViewModel
+} from "../../app/rpcContract.generated";
 import { BranchMenu } from "./BranchMenu";
+import { PullRequestMenu } from "./PullRequestMenu";
 
 type ToolbarAction = "fetch" | "notifications" | "pull" | "push" | "refresh" | "settings";
 type HeaderAction = ToolbarAction | "checkout" | "clone";
@@ -26,53 +33,91 @@ interface ToolbarActionItem {
 }
 
 export interface HeaderLabels {
+  aheadBehind: string;
   allBranches: string;
   authorMe: string;
   authorPlaceholder: string;
   branch: string;
+  cancelRenameBranch: string;
   checkout: string;
   clone: string;
+  deleteBranch: string;
   fetch: string;
   filterAuthor: string;
   graph: string;
   hideGraph: string;
+  mergeBranch: string;
+  newBranchName: string;
+  noUpstream: string;
+  openPullRequest: string;
   pull: string;
+  pullRequestCheckout: string;
+  pullRequestDraft: string;
+  pullRequests: string;
+  pullRequestsEmpty: string;
+  pullRequestsLoading: string;
+  pullRequestToken: string;
   pullTitle: string;
   push: string;
   pushTitle: string;
   refresh: string;
+  reloadPullRequests: string;
+  renameBranch: string;
   repository: string;
   searchCommits: string;
+  searchHelp: string;
   searchPlaceholder: string;
   selectedBranches: string;
+  setUpstream: string;
   settings: string;
   showGraph: string;
   notifications: string;
+  submodulesOf: string;
+  worktreesOf: string;
 }
 
 const defaultLabels: HeaderLabels = {
+  aheadBehind: "{0} ahead, {1} behind {2}",
   allBranches: "All branches",
   authorMe: "Me",
   authorPlaceholder: "Author",
   branch: "Branches",
+  cancelRenameBranch: "Cancel renaming {0}",
   checkout: "Checkout",
   clone: "Clone",
+  deleteBranch: "Delete {0} (Command/Ctrl+click to force delete)",
   fetch: "Fetch",
   filterAuthor: "Filter author",
   graph: "Graph",
   hideGraph: "Hide Git Graph",
+  mergeBranch: "Merge {0} into current branch",
+  newBranchName: "New name for {0}",
+  noUpstream: "No upstream",
+  openPullRequest: "Open #{0} in browser",
   pull: "Pull",
+  pullRequestCheckout: "Checkout",
+  pullRequestDraft: "Draft",
+  pullRequests: "Pull Requests",
+  pullRequestsEmpty: "No open pull requests",
+  pullRequestsLoading: "Loading pull requests...",
+  pullRequestToken: "Set access token",
   pullTitle: "Pull (Command/Ctrl+click for Advanced Pull)",
   push: "Push",
   pushTitle: "Push (Command/Ctrl+click for Advanced Push)",
   refresh: "Refresh",
+  reloadPullRequests: "Reload pull requests",
+  renameBranch: "Rename {0}",
   repository: "Repository",
   searchCommits: "Search commits",
+  searchHelp: "Filter with path:, author:, committer:, since:, until:, content:, regex: and merges:only|no, e.g. path:src/ author:alice since:2w",
   searchPlaceholder: "Search commits",
   selectedBranches: "{0} branches",
+  setUpstream: "Set upstream for {0}",
   settings: "Settings",
   showGraph: "Show Git Graph",
-  notifications: "Notifications"
+  notifications: "Notifications",
+  submodulesOf: "Submodules of {0}",
+  worktreesOf: "Worktrees of {0}"
 };
 
 function hasAdvancedModifier(event: MouseEvent<HTMLButtonElement>): boolean {
@@ -85,6 +130,9 @@ export interface HeaderProps {
   currentUser?: CurrentUserViewModel;
   labels?: Partial<HeaderLabels>;
   graphVisible?: boolean;
+  pullRequests?: readonly PullRequestViewModel[];
+  pullRequestsError?: string;
+  pullRequestsLoading?: boolean;
   repositories?: readonly RepositoryViewModel[];
   searchValue?: string;
   selectedBranches?: readonly string[];
@@ -95,13 +143,20 @@ export interface HeaderProps {
   onAuthorChange?: (value: string) => void;
   onBranchSelectionChange?: (branches: readonly string[]) => void;
   onCheckout?: () => void;
+  onCheckoutPullRequest?: (pullRequest: PullRequestViewModel) => void;
   onClone?: () => void;
+  onConfigurePullRequestToken?: () => void;
+  onDeleteBranch?: (branch: BranchViewModel, force: boolean) => void;
+  onLoadPullRequests?: () => void;
+  onMergeBranch?: (name: string) => void;
   onRefresh?: () => void;
   onFetch?: () => void;
   onPull?: () => void;
   onPush?: () => void;
+  onRenameBranch?: (name: string, newName: string) => void;
   onRepositoryChange?: (repositoryId: string) => void;
   onSearchChange?: (value: string) => void;
+  onSetBranchUpstream?: (name: string, upstream: string | undefined) => void;
   onNotificationsClick?: () => void;
   onSettingsClick?: (event: MouseEvent<HTMLButtonElement>) => void;
   gitOperationBusy?: boolean;
@@ -116,6 +171,9 @@ export function Header({
   currentUser,
   labels,
   graphVisible = true,
+  pullRequests,
+  pullRequestsError,
+  pullRequestsLoading = false,
   repositories = [],
   searchValue = "",
   selectedBranches = [],
@@ -125,14 +183,21 @@ export function Header({
   onAuthorChange,
   onBranchSelectionChange,
   onCheckout,
+  onCheckoutPullRequest,
   onClone,
+  onConfigurePullRequestToken,
+  onDeleteBranch,
   onGraphToggle,
   onFetch,
+  onLoadPullRequests,
+  onMergeBranch,
   onPull,
   onPush,
   onRefresh,
+  onRenameBranch,
   onRepositoryChange,
   onSearchChange,
+  onSetBranchUpstream,
   onNotificationsClick,
   onSettingsClick,
   gitOperationBusy = false,
@@ -264,6 +329,24 @@ export function Header({
   const updateRepository = (event: ChangeEvent<HTMLSelectElement>) => {
     onRepositoryChange?.(event.currentTarget.value);
   };
+  const topLevelRepositories = repositories.filter((repository) => {
+    const parentId = repository.worktreeOf ?? repository.submoduleOf;
+    return !parentId || !repositories.some((candidate) => candidate.id === parentId);
+  });
+  const repositoryGroups = repositories
+    .flatMap((repository) => [
+      {
+        children: repositories.filter((candidate) => candidate.worktreeOf === repository.id),
+        label: formatLabel(text.worktreesOf, repository.name),
+        repository
+      },
+      {
+        children: repositories.filter((candidate) => !candidate.worktreeOf && candidate.submoduleOf === repository.id),
+        label: formatLabel(text.submodulesOf, repository.name),
+        repository
+      }
+    ])
+    .filter((group) => group.children.length > 0);
 
   return (
     <header className="relative flex min-h-11 shrink-0 flex-wrap items-center gap-2 border-b border-[var(--vscode-panel-border)] bg-[var(--vscode-panel-background)] px-2 py-2">
@@ -273,27 +356,67 @@ export function Header({
         onChange={updateRepository}
         value={selectedRepositoryId ?? repositories[0]?.id ?? ""}
       >
-        {repositories.map((repository) => (
+        {topLevelRepositories.map((repository) => (
           <option key={repository.id} value={repository.id}>
             {repository.name}
           </option>
         ))}
+        {repositoryGroups.map((group) => (
+          <optgroup key={group.label} label={group.label}>
+            {group.children.map((child) => (
+              <option key={child.id} title={child.rootPath} value={child.id}>
+                {child.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
       </select>
       <BranchMenu
         branches={branches}
         labels={{
+          aheadBehind: text.aheadBehind,
           allBranches: text.allBranches,
           branch: text.branch,
-          selectedBranches: text.selectedBranches
+          cancelRename: text.cancelRenameBranch,
+          deleteBranch: text.deleteBranch,
+          mergeBranch: text.mergeBranch,
+          newBranchName: text.newBranchName,
+          noUpstream: text.noUpstream,
+          renameBranch: text.renameBranch,
+          selectedBranches: text.selectedBranches,
+          setUpstream: text.setUpstream
         }}
         onBranchSelectionChange={onBranchSelectionChange}
+        onDeleteBranch={onDeleteBranch}
+        onMergeBranch={onMergeBranch}
+        onRenameBranch={onRenameBranch}
+        onSetUpstream={onSetBranchUpstream}
         selectedBranches={selectedBranches}
       />
+      <PullRequestMenu
+        error={pullRequestsError}
+        labels={{
+          checkout: text.pullRequestCheckout,
+          configureToken: text.pullRequestToken,
+          draft: text.pullRequestDraft,
+          empty: text.pullRequestsEmpty,
+          loading: text.pullRequestsLoading,
+          openPullRequest: text.openPullRequest,
+          pullRequests: text.pullRequests,
+          reload: text.reloadPullRequests
+        }}
+        loading={pullRequestsLoading}
+        onCheckout={onCheckoutPullRequest}
+        onConfigureToken={onConfigurePullRequestToken}
+        onOpen={onLoadPullRequests}
+        pullRequests={pullRequests}
+      />
       <input
         aria-label={text.searchCommits}
         className="h-7 min-w-[180px] flex-1 rounded-[3px] border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] px-2 text-xs text-[var(--vscode-input-foreground)] outline-none focus:border-[var(--vscode-focusBorder)]"
         onChange={updateSearch}
         placeholder={text.searchPlaceholder}
+        title={text.searchHelp}
         type="search"
         value={searchValue}
       />
@@ -360,3 +483,7 @@ export function Header({
     </header>
   );
 }
+
+function formatLabel(label: string, value: string): string {
+  return label.replace("{0}", value);
+}
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState, type ReactElement, type ReactNode } from "react";
+import { ExternalLink, GitPullRequest, KeyRound, RefreshCw } from "lucide-react";
+import type { PullRequestViewModel } from "../../app/rpcContract.generated";
+
+export interface PullRequestMenuLabels {
+  checkout: string;
+  configureToken: string;
+  draft: string;
+  empty: string;
+  loading: string;
+  openPullRequest: string;
+  pullRequests: string;
+  reload: string;
+}
+
+export interface PullRequestMenuProps {
+  error?: string;
+  labels: PullRequestMenuLabels;
+  loading?: boolean;
+  onCheckout?: (pullRequest: PullRequestViewModel) => void;
+  onConfigureToken?: () => void;
+  onOpen?: () => void;
+  pullRequests?: readonly PullRequestViewModel[];
+}
+
+export function PullRequestMenu({
+  error,
+  labels,
+  loading = false,
+  onCheckout,
+  onConfigureToken,
+  onOpen,
+  pullRequests = []
+}: PullRequestMenuProps): ReactElement {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const closeOnOutsidePointerDown = (event: PointerEvent) => {
+      if (rootRef.current?.contains(event.target as Node)) {
+        return;
+      }
+
+      setOpen(false);
+    };
+
+    window.addEventListener("pointerdown", closeOnOutsidePointerDown);
+    return () => window.removeEventListener("pointerdown", closeOnOutsidePointerDown);
+  }, [open]);
+
+  const toggleOpen = () => {
+    if (!open) {
+      onOpen?.();
+    }
+
+    setOpen(!open);
+  };
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        aria-expanded={open}
+        aria-label={labels.pullRequests}
+        className="flex h-7 items-center justify-center gap-1 whitespace-nowrap rounded-[3px] border border-transparent px-1.5 text-xs text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+        onClick={toggleOpen}
+        title={labels.pullRequests}
+        type="button"
+      >
+        <GitPullRequest aria-hidden="true" className="h-4 w-4" />
+        <span>{labels.pullRequests}</span>
+      </button>
+      {open ? (
+        <div
+          aria-label={labels.pullRequests}
+          className="absolute left-0 top-8 z-[1000] max-h-[360px] w-[380px] overflow-y-auto rounded border border-[var(--vscode-menu-border)] bg-[var(--vscode-menu-background)] py-1 text-xs shadow-[0_2px_8px_rgba(0,0,0,0.3)]"
+          role="menu"
+        >
+          <div className="flex items-center justify-end gap-1 border-b border-[var(--vscode-menu-separatorBackground,var(--vscode-panel-border))] px-2 pb-1">
+            <PullRequestActionButton disabled={loading} label={labels.reload} onClick={() => onOpen?.()}>
+              <RefreshCw aria-hidden="true" className="h-3.5 w-3.5" />
+            </PullRequestActionButton>
+            <PullRequestActionButton label={labels.configureToken} onClick={() => onConfigureToken?.()}>
+              <KeyRound aria-hidden="true" className="h-3.5 w-3.5" />
+            </PullRequestActionButton>
+          </div>
+          {loading ? (
+            <div className="px-3 py-2 text-[var(--vscode-descriptionForeground)]" role="status">
+              {labels.loading}
+            </div>
+          ) : error ? (
+            <div className="px-3 py-2 text-[var(--vscode-errorForeground)]" role="alert">
+              {error}
+            </div>
+          ) : pullRequests.length === 0 ? (
+            <div className="px-3 py-2 text-[var(--vscode-descriptionForeground)]">{labels.empty}</div>
+          ) : (
+            pullRequests.map((pullRequest) => (
+              <div
+                className="flex items-center gap-1 pr-2 text-[var(--vscode-menu-foreground,var(--vscode-foreground))] hover:bg-[var(--vscode-menu-selectionBackground)]"
+                key={pullRequest.number}
+              >
+                <div className="flex min-w-0 flex-1 flex-col py-1.5 pl-3">
+                  <span className="truncate" title={pullRequest.title}>
+                    <span className="text-[var(--vscode-descriptionForeground)]">#{pullRequest.number}</span> {pullRequest.title}
+                    {pullRequest.draft ? (
+                      <span className="ml-1 text-[10px] text-[var(--vscode-descriptionForeground)]">{labels.draft}</span>
+                    ) : null}
+                  </span>
+                  <span className="truncate text-[10px] text-[var(--vscode-descriptionForeground)]">
+                    {`${pullRequest.author} · ${pullRequest.sourceBranch} → ${pullRequest.targetBranch}`}
+                  </span>
+                </div>
+                <a
+                  aria-label={formatLabel(labels.openPullRequest, String(pullRequest.number))}
+                  className="flex h-6 w-6 shrink-0 items-center justify-center rounded-[3px] text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+                  href={pullRequest.url}
+                  rel="noreferrer"
+                  target="_blank"
+                  title={formatLabel(labels.openPullRequest, String(pullRequest.number))}
+                >
+                  <ExternalLink aria-hidden="true" className="h-3.5 w-3.5" />
+                </a>
+                <button
+                  aria-label={`${labels.checkout} #${pullRequest.number}`}
+                  className="shrink-0 rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-2 py-0.5 text-[11px] text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))]"
+                  onClick={() => {
+                    setOpen(false);
+                    onCheckout?.(pullRequest);
+                  }}
+                  type="button"
+                >
+                  {labels.checkout}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function PullRequestActionButton({
+  children,
+  disabled = false,
+  label,
+  onClick
+}: {
+  children: ReactNode;
+  disabled?: boolean;
+  label: string;
+  onClick: () => void;
+}): ReactElement {
+  return (
+    <button
+      aria-label={label}
+      className="flex h-6 w-6 shrink-0 items-center justify-center rounded-[3px] border border-transparent text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+      disabled={disabled}
+      onClick={onClick}
+      title={label}
+      type="button"
+    >
+      {children}
+    </button>
+  );
+}
+
+function formatLabel(label: string, ...values: readonly string[]): string {
+  return values.reduce((formatted, value, index) => formatted.replace(`{${index}}`, value), label);
+}
@@ -0,0 +1,99 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen, within } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { InteractiveRebaseEditor } from "./InteractiveRebaseEditor";
+
+const plan = {
+  base: "base4444aaaa",
+  entries: [
+    { action: "pick", author: "Alice", hash: "selected333", message: "Start feature", shortHash: "selecte" },
+    { action: "pick", author: "Bob", hash: "middle222", message: "Add tests", shortHash: "middle2" },
+    { action: "pick", author: "Alice", hash: "head111", message: "Finish feature", shortHash: "head111" }
+  ],
+  head: "head111"
+} as const;
+
+describe("InteractiveRebaseEditor", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("renders the plan in replay order with the preview status", () => {
+    render(
+      <InteractiveRebaseEditor
+        open
+        plan={plan}
+        preview={{ message: "Rebase plan conflicts while applying middle2.", status: "conflict" }}
+      />
+    );
+
+    const dialog = screen.getByRole("dialog", { name: "Interactive Rebase" });
+    const rows = within(dialog).getAllByRole("row").slice(1);
+
+    expect(rows.map((row) => within(row).getAllByRole("cell")[1]!.textContent)).toEqual(["selecte", "middle2", "head111"]);
+    expect(within(dialog).getByRole("status")).toHaveTextContent("Rebase plan conflicts while applying middle2.");
+    expect(within(dialog).getByText(/Commits are replayed onto base4444/)).toBeInTheDocument();
+  });
+
+  it("reorders entries, edits actions and messages, and sends the edited plan", async () => {
+    const user = userEvent.setup();
+    const onPlanChange = vi.fn();
+    const onPreview = vi.fn();
+    const onStart = vi.fn();
+
+    render(
+      <InteractiveRebaseEditor onPlanChange={onPlanChange} onPreview={onPreview} onStart={onStart} open plan={plan} />
+    );
+
+    expect(screen.getByRole("button", { name: "Move selecte up" })).toBeDisabled();
+    await user.click(screen.getByRole("button", { name: "Move head111 up" }));
+    await user.selectOptions(screen.getByRole("combobox", { name: "Action for head111" }), "fixup");
+    await user.selectOptions(screen.getByRole("combobox", { name: "Action for selecte" }), "reword");
+    await user.clear(screen.getByRole("textbox", { name: "New message for selecte" }));
+    await user.type(screen.getByRole("textbox", { name: "New message for selecte" }), "Start the feature");
+    await user.click(screen.getByRole("button", { name: "Check Conflicts" }));
+    await user.click(screen.getByRole("button", { name: "Start Rebase" }));
+
+    const expectedPlan = {
+      ...plan,
+      entries: [
+        { ...plan.entries[0], action: "reword", message: "Start the feature" },
+        { ...plan.entries[2], action: "fixup" },
+        plan.entries[1]
+      ]
+    };
+    expect(onPreview).toHaveBeenCalledWith(expectedPlan);
+    expect(onStart).toHaveBeenCalledWith(expectedPlan);
+    expect(onPlanChange).toHaveBeenCalled();
+  });
+
+  it("shows the subject in the plan and pre-fills rewords with the full message", async () => {
+    const user = userEvent.setup();
+    const message = "Start feature\n\nExplain the feature.\n\nSigned-off-by: Alice <alice@example.com>";
+    render(
+      <InteractiveRebaseEditor
+        open
+        plan={{ ...plan, entries: [{ ...plan.entries[0], message }, plan.entries[1], plan.entries[2]] }}
+      />
+    );
+
+    const messageCell = within(screen.getAllByRole("row")[1]!).getAllByRole("cell")[2]!;
+    expect(messageCell).toHaveTextContent(/^Start featureAlice$/);
+    expect(messageCell.firstElementChild).toHaveAttribute("title", message);
+    await user.selectOptions(screen.getByRole("combobox", { name: "Action for selecte" }), "reword");
+
+    expect(screen.getByRole("textbox", { name: "New message for selecte" })).toHaveValue(message);
+  });
+
+  it("disables editing while the rebase is running", () => {
+    render(<InteractiveRebaseEditor busy open plan={plan} />);
+
+    expect(screen.getByRole("button", { name: "Start Rebase" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Check Conflicts" })).toBeDisabled();
+    expect(screen.getByRole("combobox", { name: "Action for middle2" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,280 @@
+import type { ReactElement } from "react";
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import type {
+  InteractiveRebaseAction,
+  InteractiveRebaseEntryViewModel,
+  InteractiveRebasePlanViewModel,
+  OperationResultViewModel
+} from "../../app/rpcContract.generated";
+import { IconTooltip } from "../IconTooltip/IconTooltip";
+
+export interface InteractiveRebaseEditorProps {
+  busy?: boolean;
+  labels?: Partial<InteractiveRebaseEditorLabels>;
+  onClose?: () => void;
+  onPlanChange?: () => void;
+  onPreview?: (plan: InteractiveRebasePlanViewModel) => void;
+  onStart?: (plan: InteractiveRebasePlanViewModel) => void;
+  open: boolean;
+  plan?: InteractiveRebasePlanViewModel;
+  preview?: OperationResultViewModel;
+}
+
+export interface InteractiveRebaseEditorLabels {
+  action: string;
+  actionFor: string;
+  actions: Record<InteractiveRebaseAction, string>;
+  cancel: string;
+  checkConflicts: string;
+  close: string;
+  commit: string;
+  description: string;
+  message: string;
+  moveDown: string;
+  moveUp: string;
+  order: string;
+  rewordMessageFor: string;
+  rewordPlaceholder: string;
+  start: string;
+  title: string;
+}
+
+const rebaseActions = ["pick", "reword", "squash", "fixup", "edit", "drop"] as const satisfies readonly InteractiveRebaseAction[];
+
+export function InteractiveRebaseEditor({
+  busy = false,
+  labels,
+  onClose,
+  onPlanChange,
+  onPreview,
+  onStart,
+  open,
+  plan,
+  preview
+}: InteractiveRebaseEditorProps): ReactElement | null {
+  const text = { ...defaultLabels, ...labels, actions: { ...defaultLabels.actions, ...labels?.actions } };
+  const [entries, setEntries] = useState<readonly InteractiveRebaseEntryViewModel[]>(plan?.entries ?? []);
+
+  useEffect(() => {
+    setEntries(plan?.entries ?? []);
+  }, [plan]);
+
+  if (!open || !plan) {
+    return null;
+  }
+
+  const updateEntries = (nextEntries: readonly InteractiveRebaseEntryViewModel[]) => {
+    setEntries(nextEntries);
+    onPlanChange?.();
+  };
+
+  const updateEntry = (index: number, update: Partial<InteractiveRebaseEntryViewModel>) => {
+    updateEntries(entries.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...update } : entry)));
+  };
+
+  const moveEntry = (index: number, offset: -1 | 1) => {
+    const targetIndex = index + offset;
+    if (targetIndex < 0 || targetIndex >= entries.length) {
+      return;
+    }
+
+    const nextEntries = [...entries];
+    [nextEntries[index], nextEntries[targetIndex]] = [nextEntries[targetIndex]!, nextEntries[index]!];
+    updateEntries(nextEntries);
+  };
+
+  const currentPlan = (): InteractiveRebasePlanViewModel => ({ ...plan, entries });
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/35 p-5">
+      <div
+        aria-labelledby="interactive-rebase-editor-title"
+        aria-modal="true"
+        className="flex max-h-[90vh] w-[min(860px,95%)] flex-col rounded-lg border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editor-background)] shadow-[0_18px_36px_rgba(0,0,0,0.45)]"
+        role="dialog"
+      >
+        <div className="flex shrink-0 justify-between gap-4 border-b border-[var(--vscode-panel-border)] px-5 py-4">
+          <div>
+            <h3 className="m-0 text-base" id="interactive-rebase-editor-title">
+              {text.title}
+            </h3>
+            <p className="m-0 mt-1 text-xs text-[var(--vscode-descriptionForeground)]">
+              {formatLabel(text.description, plan.base.slice(0, 8))}
+            </p>
+          </div>
+          <button
+            aria-label={text.close}
+            className="guigit-icon-tooltip-host h-6 w-6 rounded bg-transparent text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+            onClick={onClose}
+            type="button"
+          >
+            x
+            <IconTooltip label={text.close} placement="bottom" />
+          </button>
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-hidden px-5 py-4">
+          {preview ? (
+            <div className={`rounded border px-2.5 py-2 text-xs ${statusClasses[preview.status]}`} role="status">
+              {preview.message}
+            </div>
+          ) : null}
+          <div aria-label={text.title} className="flex min-h-0 flex-1 flex-col gap-2" role="table">
+            <div
+              className="grid grid-cols-[110px_80px_1fr_64px] items-center gap-3 border-b border-[var(--vscode-panel-border)] pb-2 text-xs uppercase text-[var(--vscode-descriptionForeground)]"
+              role="row"
+            >
+              <span role="columnheader">{text.action}</span>
+              <span role="columnheader">{text.commit}</span>
+              <span role="columnheader">{text.message}</span>
+              <span role="columnheader">{text.order}</span>
+            </div>
+            <div className="flex min-h-0 flex-1 flex-col gap-1.5 overflow-y-auto py-1">
+              {entries.map((entry, index) => (
+                <div
+                  className={`grid grid-cols-[110px_80px_1fr_64px] items-center gap-3 rounded-md border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] px-3 py-2 ${entry.action === "drop" ? "opacity-60" : ""}`}
+                  key={entry.hash}
+                  role="row"
+                >
+                  <div role="cell">
+                    <select
+                      aria-label={formatLabel(text.actionFor, entry.shortHash)}
+                      className={inputClassName}
+                      disabled={busy}
+                      onChange={(event) => updateEntry(index, { action: event.target.value as InteractiveRebaseAction })}
+                      value={entry.action}
+                    >
+                      {rebaseActions.map((action) => (
+                        <option key={action} value={action}>
+                          {text.actions[action]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="font-mono text-xs text-[var(--vscode-descriptionForeground)]" role="cell" title={entry.hash}>
+                    {entry.shortHash}
+                  </div>
+                  <div className="min-w-0" role="cell">
+                    {entry.action === "reword" ? (
+                      <textarea
+                        aria-label={formatLabel(text.rewordMessageFor, entry.shortHash)}
+                        className={`${inputClassName} min-h-14 resize-y`}
+                        rows={Math.min(entry.message.split("\n").length, 8)}
+                        disabled={busy}
+                        onChange={(event) => updateEntry(index, { message: event.target.value })}
+                        placeholder={text.rewordPlaceholder}
+                        value={entry.message}
+                      />
+                    ) : (
+                      <div className={`truncate text-xs ${entry.action === "drop" ? "line-through" : ""}`} title={entry.message}>
+                        {entry.message.split("\n", 1)[0]}
+                        <span className="ml-2 text-[var(--vscode-descriptionForeground)]">{entry.author}</span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex justify-end gap-1" role="cell">
+                    <MoveButton
+                      disabled={busy || index === 0}
+                      direction="up"
+                      label={formatLabel(text.moveUp, entry.shortHash)}
+                      onClick={() => moveEntry(index, -1)}
+                    />
+                    <MoveButton
+                      disabled={busy || index === entries.length - 1}
+                      direction="down"
+                      label={formatLabel(text.moveDown, entry.shortHash)}
+                      onClick={() => moveEntry(index, 1)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex shrink-0 justify-end gap-2 border-t border-[var(--vscode-panel-border)] px-5 py-4">
+          <button className={secondaryButtonClassName} onClick={onClose} type="button">
+            {text.cancel}
+          </button>
+          <button className={secondaryButtonClassName} disabled={busy} onClick={() => onPreview?.(currentPlan())} type="button">
+            {text.checkConflicts}
+          </button>
+          <button className={primaryButtonClassName} disabled={busy} onClick={() => onStart?.(currentPlan())} type="button">
+            {text.start}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function MoveButton({
+  direction,
+  disabled,
+  label,
+  onClick
+}: {
+  direction: "down" | "up";
+  disabled: boolean;
+  label: string;
+  onClick: () => void;
+}): ReactElement {
+  return (
+    <button
+      aria-label={label}
+      className="guigit-icon-tooltip-host flex h-6 min-w-6 items-center justify-center rounded-[3px] border border-transparent text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)] disabled:cursor-not-allowed disabled:opacity-50"
+      disabled={disabled}
+      onClick={onClick}
+      title={label}
+      type="button"
+    >
+      {direction === "up" ? <ArrowUp aria-hidden="true" className="h-3.5 w-3.5" /> : <ArrowDown aria-hidden="true" className="h-3.5 w-3.5" />}
+      <IconTooltip label={label} placement="left" />
+    </button>
+  );
+}
+
+function formatLabel(label: string, value: string): string {
+  return label.replace("{0}", value);
+}
+
+const inputClassName =
+  "w-full rounded border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] px-2 py-1.5 text-xs text-[var(--vscode-input-foreground)] outline-none focus:border-[var(--vscode-focusBorder)]";
+
+const primaryButtonClassName =
+  "rounded border border-[var(--vscode-button-border,transparent)] bg-[var(--vscode-button-background)] px-3 py-1.5 text-xs text-[var(--vscode-button-foreground)] disabled:cursor-not-allowed disabled:opacity-60";
+
+const secondaryButtonClassName =
+  "rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-3 py-1.5 text-xs text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))] disabled:cursor-not-allowed disabled:opacity-60";
+
+const statusClasses = {
+  cancelled: "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)]",
+  conflict:
+    "border-[var(--vscode-inputValidation-errorBorder)] bg-[var(--vscode-inputValidation-errorBackground)] text-[var(--vscode-inputValidation-errorForeground)]",
+  ok: "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] text-[var(--vscode-foreground)]"
+} as const satisfies Record<OperationResultViewModel["status"], string>;
+
+const defaultLabels: InteractiveRebaseEditorLabels = {
+  action: "Action",
+  actionFor: "Action for {0}",
+  actions: {
+    drop: "Drop",
+    edit: "Edit",
+    fixup: "Fixup",
+    pick: "Pick",
+    reword: "Reword",
+    squash: "Squash"
+  },
+  cancel: "Cancel",
+  checkConflicts: "Check Conflicts",
+  close: "Close Interactive Rebase",
+  commit: "Commit",
+  description: "Commits are replayed onto {0} from top to bottom. Reorder them and choose an action for each commit.",
+  message: "Message",
+  moveDown: "Move {0} down",
+  moveUp: "Move {0} up",
+  order: "Order",
+  rewordMessageFor: "New message for {0}",
+  rewordPlaceholder: "Enter the new commit message",
+  start: "Start Rebase",
+  title: "Interactive Rebase"
+};
@@ -0,0 +1,58 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MergeDialog } from "./MergeDialog";
+
+describe("MergeDialog", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("describes the merge source and shortens commit hashes", () => {
+    render(<MergeDialog open source="0123456789abcdef0123456789abcdef01234567" />);
+
+    expect(screen.getByRole("dialog", { name: "Merge" })).toHaveTextContent("Merge 01234567 into the current branch.");
+  });
+
+  it("sends the selected strategy with a trimmed optional message", async () => {
+    const user = userEvent.setup();
+    const onMerge = vi.fn();
+
+    render(<MergeDialog onMerge={onMerge} open source="feature/ui" />);
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Strategy" }), "no-ff");
+    await user.type(screen.getByRole("textbox", { name: "Message" }), "  Merge feature/ui  ");
+    await user.click(screen.getByRole("button", { name: "Merge" }));
+    await user.selectOptions(screen.getByRole("combobox", { name: "Strategy" }), "squash");
+    await user.clear(screen.getByRole("textbox", { name: "Message" }));
+    await user.click(screen.getByRole("button", { name: "Merge" }));
+
+    expect(onMerge).toHaveBeenNthCalledWith(1, "no-ff", "Merge feature/ui");
+    expect(onMerge).toHaveBeenNthCalledWith(2, "squash", undefined);
+  });
+
+  it("ignores the message for fast-forward only merges", async () => {
+    const user = userEvent.setup();
+    const onMerge = vi.fn();
+
+    render(<MergeDialog onMerge={onMerge} open source="feature/ui" />);
+
+    await user.type(screen.getByRole("textbox", { name: "Message" }), "Merge feature/ui");
+    await user.selectOptions(screen.getByRole("combobox", { name: "Strategy" }), "ff-only");
+    await user.click(screen.getByRole("button", { name: "Merge" }));
+
+    expect(screen.getByRole("textbox", { name: "Message" })).toBeDisabled();
+    expect(onMerge).toHaveBeenCalledWith("ff-only", undefined);
+  });
+
+  it("disables merging while the merge is running", () => {
+    render(<MergeDialog busy open source="feature/ui" />);
+
+    expect(screen.getByRole("button", { name: "Merge" })).toBeDisabled();
+    expect(screen.getByRole("combobox", { name: "Strategy" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,147 @@
+import type { ReactElement } from "react";
+import { useEffect, useState } from "react";
+import type { GitMergeMode } from "../../app/rpcContract.generated";
+import { IconTooltip } from "../IconTooltip/IconTooltip";
+
+export interface MergeDialogProps {
+  busy?: boolean;
+  labels?: Partial<MergeDialogLabels>;
+  onClose?: () => void;
+  onMerge?: (mode: GitMergeMode, message: string | undefined) => void;
+  open: boolean;
+  source?: string;
+}
+
+export interface MergeDialogLabels {
+  cancel: string;
+  close: string;
+  description: string;
+  message: string;
+  messagePlaceholder: string;
+  merge: string;
+  mode: string;
+  modes: Record<GitMergeMode, string>;
+  title: string;
+}
+
+const mergeModes = ["default", "ff-only", "no-ff", "squash"] as const satisfies readonly GitMergeMode[];
+
+export function MergeDialog({ busy = false, labels, onClose, onMerge, open, source }: MergeDialogProps): ReactElement | null {
+  const text = { ...defaultLabels, ...labels, modes: { ...defaultLabels.modes, ...labels?.modes } };
+  const [mode, setMode] = useState<GitMergeMode>("default");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    setMode("default");
+    setMessage("");
+  }, [source]);
+
+  if (!open || !source) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/35 p-5">
+      <div
+        aria-labelledby="merge-dialog-title"
+        aria-modal="true"
+        className="flex w-[min(480px,95%)] flex-col rounded-lg border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editor-background)] shadow-[0_18px_36px_rgba(0,0,0,0.45)]"
+        role="dialog"
+      >
+        <div className="flex shrink-0 justify-between gap-4 border-b border-[var(--vscode-panel-border)] px-5 py-4">
+          <div className="min-w-0">
+            <h3 className="m-0 text-base" id="merge-dialog-title">
+              {text.title}
+            </h3>
+            <p className="m-0 mt-1 break-all text-xs text-[var(--vscode-descriptionForeground)]">
+              {formatLabel(text.description, formatSource(source))}
+            </p>
+          </div>
+          <button
+            aria-label={text.close}
+            className="guigit-icon-tooltip-host h-6 w-6 rounded bg-transparent text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+            onClick={onClose}
+            type="button"
+          >
+            x
+            <IconTooltip label={text.close} placement="bottom" />
+          </button>
+        </div>
+        <div className="flex flex-col gap-3 px-5 py-4 text-xs">
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[var(--vscode-descriptionForeground)]">{text.mode}</span>
+            <select
+              className={inputClassName}
+              disabled={busy}
+              onChange={(event) => setMode(event.target.value as GitMergeMode)}
+              value={mode}
+            >
+              {mergeModes.map((mergeMode) => (
+                <option key={mergeMode} value={mergeMode}>
+                  {text.modes[mergeMode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1.5">
+            <span className="text-[var(--vscode-descriptionForeground)]">{text.message}</span>
+            <textarea
+              className={`${inputClassName} min-h-20 resize-y`}
+              disabled={busy || mode === "ff-only"}
+              onChange={(event) => setMessage(event.target.value)}
+              placeholder={text.messagePlaceholder}
+              value={mode === "ff-only" ? "" : message}
+            />
+          </label>
+        </div>
+        <div className="flex shrink-0 justify-end gap-2 border-t border-[var(--vscode-panel-border)] px-5 py-4">
+          <button className={secondaryButtonClassName} onClick={onClose} type="button">
+            {text.cancel}
+          </button>
+          <button
+            className={primaryButtonClassName}
+            disabled={busy}
+            onClick={() => onMerge?.(mode, mode === "ff-only" ? undefined : message.trim() || undefined)}
+            type="button"
+          >
+            {text.merge}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatSource(source: string): string {
+  return /^[0-9a-f]{40}$/i.test(source) ? source.slice(0, 8) : source;
+}
+
+function formatLabel(label: string, value: string): string {
+  return label.replace("{0}", value);
+}
+
+const inputClassName =
+  "w-full rounded border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] px-2 py-1.5 text-xs text-[var(--vscode-input-foreground)] outline-none focus:border-[var(--vscode-focusBorder)] disabled:opacity-60";
+
+const primaryButtonClassName =
+  "rounded border border-[var(--vscode-button-border,transparent)] bg-[var(--vscode-button-background)] px-3 py-1.5 text-xs text-[var(--vscode-button-foreground)] disabled:cursor-not-allowed disabled:opacity-60";
+
+const secondaryButtonClassName =
+  "rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-3 py-1.5 text-xs text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))] disabled:cursor-not-allowed disabled:opacity-60";
+
+const defaultLabels: MergeDialogLabels = {
+  cancel: "Cancel",
+  close: "Close Merge",
+  description: "Merge {0} into the current branch.",
+  merge: "Merge",
+  message: "Message",
+  messagePlaceholder: "Optional merge commit message",
+  mode: "Strategy",
+  modes: {
+    default: "Fast-forward when possible",
+    "ff-only": "Fast-forward only",
+    "no-ff": "Always create a merge commit",
+    squash: "Squash into a single commit"
+  },
+  title: "Merge"
+};
@@ -19,7 +19,8 @@ const labels: NotificationCenterLabels = {
     success: "Success",
     warning: "Warning"
   },
-  title: "Notifications"
+  title: "Notifications",
+  undo: "Undo operation"
 };
 
 const notifications: readonly NotificationHistoryItem[] = [
@@ -29,6 +30,14 @@ const notifications: readonly NotificationHistoryItem[] = [
     message: "Pull completed",
     read: false,
     state: "success"
+  },
+  {
+    createdAt: "2026-05-12T08:05:00.000Z",
+    id: "two",
+    message: "Reset hard completed",
+    read: false,
+    state: "success",
+    undo: { id: "undo-1", repositoryId: "/repo" }
   }
 ];
 
@@ -46,13 +55,15 @@ describe("NotificationCenter", () => {
         onClose={vi.fn()}
         onCopyNotification={vi.fn()}
         onShowUnreadCountChange={vi.fn()}
+        onUndoNotification={vi.fn()}
         open
         showUnreadCount
       />
     );
 
     expect(screen.getByRole("region", { name: "Notifications" })).toHaveTextContent("Pull completed");
-    expect(screen.getByRole("button", { name: "Copy notification" })).toBeInTheDocument();
+    expect(screen.getAllByRole("button", { name: "Copy notification" })).toHaveLength(2);
+    expect(screen.getAllByRole("button", { name: "Undo operation" })).toHaveLength(1);
     expect(screen.getByRole("checkbox", { name: "Show unread count" })).toBeChecked();
   });
 
@@ -62,6 +73,7 @@ describe("NotificationCenter", () => {
     const onClose = vi.fn();
     const onCopyNotification = vi.fn();
     const onShowUnreadCountChange = vi.fn();
+    const onUndoNotification = vi.fn();
 
     render(
       <NotificationCenter
@@ -71,17 +83,20 @@ describe("NotificationCenter", () => {
         onClose={onClose}
         onCopyNotification={onCopyNotification}
         onShowUnreadCountChange={onShowUnreadCountChange}
+        onUndoNotification={onUndoNotification}
         open
         showUnreadCount
       />
     );
 
-    await user.click(screen.getByRole("button", { name: "Copy notification" }));
+    await user.click(screen.getAllByRole("button", { name: "Copy notification" })[0]!);
+    await user.click(screen.getByRole("button", { name: "Undo operation" }));
     await user.click(screen.getByRole("button", { name: "Clear notifications" }));
     await user.click(screen.getByRole("checkbox", { name: "Show unread count" }));
     await user.click(screen.getByRole("button", { name: "Close notifications" }));
 
     expect(onCopyNotification).toHaveBeenCalledWith(notifications[0]);
+    expect(onUndoNotification).toHaveBeenCalledWith(notifications[1]);
     expect(onClear).toHaveBeenCalled();
     expect(onShowUnreadCountChange).toHaveBeenCalledWith(false);
     expect(onClose).toHaveBeenCalled();
@@ -99,6 +114,7 @@ describe("NotificationCenter", () => {
         onClose={onClose}
         onCopyNotification={vi.fn()}
         onShowUnreadCountChange={vi.fn()}
+        onUndoNotification={vi.fn()}
         open
         showUnreadCount
       />
@@ -1,15 +1,21 @@
 import { useEffect, useRef, type ReactElement } from "react";
-import { Clipboard, Trash2, X } from "lucide-react";
+import { Clipboard, Trash2, Undo2, X } from "lucide-react";
 import { IconTooltip } from "../IconTooltip/IconTooltip";
 
 export type NotificationState = "error" | "running" | "success" | "warning";
 
+export interface NotificationUndoAction {
+  id: string;
+  repositoryId: string;
+}
+
 export interface NotificationHistoryItem {
   createdAt: string;
   id: string;
   message: string;
   read: boolean;
   state: NotificationState;
+  undo?: NotificationUndoAction;
 }
 
 export interface NotificationCenterLabels {
@@ -20,6 +26,7 @@ export interface NotificationCenterLabels {
   showUnreadCount: string;
   states: Record<NotificationState, string>;
   title: string;
+  undo: string;
 }
 
 export interface NotificationCenterProps {
@@ -29,6 +36,7 @@ export interface NotificationCenterProps {
   onClose: () => void;
   onCopyNotification: (notification: NotificationHistoryItem) => void;
   onShowUnreadCountChange: (showUnreadCount: boolean) => void;
+  onUndoNotification: (notification: NotificationHistoryItem) => void;
   open: boolean;
   showUnreadCount: boolean;
 }
@@ -40,6 +48,7 @@ export function NotificationCenter({
   onClose,
   onCopyNotification,
   onShowUnreadCountChange,
+  onUndoNotification,
   open,
   showUnreadCount
 }: NotificationCenterProps): ReactElement | null {
@@ -123,6 +132,18 @@ export function NotificationCenter({
                 </div>
                 <p className="text-xs leading-5">{notification.message}</p>
               </div>
+              {notification.undo ? (
+                <button
+                  aria-label={labels.undo}
+                  className="guigit-icon-tooltip-host mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-[3px] border border-transparent text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+                  onClick={() => onUndoNotification(notification)}
+                  title={labels.undo}
+                  type="button"
+                >
+                  <Undo2 aria-hidden="true" className="h-4 w-4" />
+                  <IconTooltip label={labels.undo} placement="left" />
+                </button>
+              ) : null}
               <button
                 aria-label={labels.copy}
                 className="guigit-icon-tooltip-host mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-[3px] border border-transparent text-[var(--vscode-icon-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
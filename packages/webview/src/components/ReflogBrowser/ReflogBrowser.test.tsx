@@ -0,0 +1,86 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen, within } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ReflogBrowser } from "./ReflogBrowser";
+
+const entries = [
+  {
+    action: "reset",
+    author: "Ada",
+    date: "2026-10-19 05:38:45 +0000",
+    hash: "1111111111111111111111111111111111111111",
+    message: "moving to HEAD~1",
+    selector: "HEAD@{0}",
+    shortHash: "1111111",
+    subject: "Older work"
+  },
+  {
+    action: "commit",
+    author: "Ada",
+    date: "2026-10-19 05:30:00 +0000",
+    hash: "2222222222222222222222222222222222222222",
+    message: "",
+    selector: "HEAD@{1}",
+    shortHash: "2222222",
+    subject: "Lost work"
+  }
+];
+
+describe("ReflogBrowser", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("lists reflog entries and sends recovery actions for a row", async () => {
+    const user = userEvent.setup();
+    const onCheckoutEntry = vi.fn();
+    const onCreateBranch = vi.fn();
+    const onResetEntry = vi.fn();
+    const onSelectRef = vi.fn();
+
+    render(
+      <ReflogBrowser
+        entries={entries}
+        onCheckoutEntry={onCheckoutEntry}
+        onCreateBranch={onCreateBranch}
+        onResetEntry={onResetEntry}
+        onSelectRef={onSelectRef}
+        open
+        refs={["HEAD", "main"]}
+      />
+    );
+
+    const table = screen.getByRole("table", { name: "Git reflog" });
+    const resetRow = within(table).getByRole("row", { name: "HEAD@{0}" });
+    const commitRow = within(table).getByRole("row", { name: "HEAD@{1}" });
+
+    expect(resetRow).toHaveTextContent("1111111");
+    expect(resetRow).toHaveTextContent("reset");
+    expect(resetRow).toHaveTextContent("moving to HEAD~1");
+    expect(commitRow).toHaveTextContent("Lost work");
+
+    await user.click(within(commitRow).getByRole("button", { name: "Checkout HEAD@{1}" }));
+    await user.click(within(commitRow).getByRole("button", { name: "Branch HEAD@{1}" }));
+    await user.click(within(resetRow).getByRole("button", { name: "Reset HEAD@{0}" }));
+    await user.selectOptions(screen.getByRole("combobox", { name: "Reflog" }), "main");
+
+    expect(onCheckoutEntry).toHaveBeenCalledWith(entries[1]);
+    expect(onCreateBranch).toHaveBeenCalledWith(entries[1]);
+    expect(onResetEntry).toHaveBeenCalledWith(entries[0]);
+    expect(onSelectRef).toHaveBeenCalledWith("main");
+  });
+
+  it("shows an empty state and disables actions while busy", () => {
+    const { rerender } = render(<ReflogBrowser open />);
+
+    expect(screen.getByText("No reflog entries found")).toBeInTheDocument();
+
+    rerender(<ReflogBrowser busy entries={entries} open />);
+
+    expect(screen.getByRole("button", { name: "Reset HEAD@{0}" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,234 @@
+import type { ReactElement } from "react";
+import type { ReflogEntryViewModel } from "../../app/rpcContract.generated";
+import { IconTooltip } from "../IconTooltip/IconTooltip";
+
+export interface ReflogBrowserStatus {
+  kind: "info" | "success" | "error";
+  message: string;
+}
+
+export interface ReflogBrowserProps {
+  busy?: boolean;
+  entries?: readonly ReflogEntryViewModel[];
+  labels?: ReflogBrowserLabels;
+  onCheckoutEntry?: (entry: ReflogEntryViewModel) => void;
+  onClose?: () => void;
+  onCreateBranch?: (entry: ReflogEntryViewModel) => void;
+  onResetEntry?: (entry: ReflogEntryViewModel) => void;
+  onSelectRef?: (ref: string) => void;
+  open: boolean;
+  refs?: readonly string[];
+  selectedRef?: string;
+  status?: ReflogBrowserStatus;
+}
+
+export interface ReflogBrowserLabels {
+  close: string;
+  description: string;
+  empty: string;
+  ref: string;
+  title: string;
+  buttons: {
+    checkout: string;
+    createBranch: string;
+    reset: string;
+  };
+}
+
+export function ReflogBrowser({
+  busy = false,
+  entries = [],
+  labels = defaultReflogBrowserLabels,
+  onCheckoutEntry,
+  onClose,
+  onCreateBranch,
+  onResetEntry,
+  onSelectRef,
+  open,
+  refs = ["HEAD"],
+  selectedRef = "HEAD",
+  status
+}: ReflogBrowserProps): ReactElement | null {
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div
+      aria-hidden="false"
+      className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/35 p-5"
+    >
+      <div
+        aria-labelledby="reflog-browser-title"
+        aria-modal="true"
+        className="flex max-h-[90vh] w-[min(1040px,95%)] flex-col rounded-lg border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editor-background)] shadow-[0_18px_36px_rgba(0,0,0,0.45)]"
+        role="dialog"
+      >
+        <div className="flex justify-between gap-4 border-b border-[var(--vscode-panel-border)] px-5 py-4">
+          <div>
+            <h3 className="m-0 text-base" id="reflog-browser-title">
+              {labels.title}
+            </h3>
+            <p className="m-0 mt-1 text-xs text-[var(--vscode-descriptionForeground)]">
+              {labels.description}
+            </p>
+          </div>
+          <div className="flex items-start gap-2">
+            <select
+              aria-label={labels.ref}
+              className="h-7 rounded border border-[var(--vscode-input-border,transparent)] bg-[var(--vscode-input-background)] px-2 text-xs text-[var(--vscode-input-foreground)]"
+              onChange={(event) => onSelectRef?.(event.target.value)}
+              value={selectedRef}
+            >
+              {refs.map((ref) => (
+                <option key={ref} value={ref}>
+                  {ref}
+                </option>
+              ))}
+            </select>
+            <button
+              aria-label={labels.close}
+              className="guigit-icon-tooltip-host h-6 w-6 rounded bg-transparent text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={onClose}
+              type="button"
+            >
+              x
+              <IconTooltip label={labels.close} placement="bottom" />
+            </button>
+          </div>
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-hidden px-5 py-4">
+          {status ? (
+            <div
+              className={`rounded border px-2.5 py-2 text-xs ${statusClasses[status.kind]}`}
+              role="status"
+            >
+              {status.message}
+            </div>
+          ) : null}
+          <div aria-label="Git reflog" className="min-h-0 flex-1 overflow-auto" role="table">
+            {entries.length > 0 ? (
+              entries.map((entry) => (
+                <ReflogBrowserRow
+                  busy={busy}
+                  entry={entry}
+                  key={entry.selector}
+                  labels={labels}
+                  onCheckoutEntry={onCheckoutEntry}
+                  onCreateBranch={onCreateBranch}
+                  onResetEntry={onResetEntry}
+                />
+              ))
+            ) : (
+              <div className="flex items-center justify-center rounded-md border border-dashed border-[var(--vscode-panel-border)] p-6 text-center text-[var(--vscode-descriptionForeground)]">
+                {labels.empty}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ReflogBrowserRowProps {
+  busy: boolean;
+  entry: ReflogEntryViewModel;
+  labels: ReflogBrowserLabels;
+  onCheckoutEntry?: (entry: ReflogEntryViewModel) => void;
+  onCreateBranch?: (entry: ReflogEntryViewModel) => void;
+  onResetEntry?: (entry: ReflogEntryViewModel) => void;
+}
+
+function ReflogBrowserRow({
+  busy,
+  entry,
+  labels,
+  onCheckoutEntry,
+  onCreateBranch,
+  onResetEntry
+}: ReflogBrowserRowProps): ReactElement {
+  return (
+    <article
+      aria-label={entry.selector}
+      className="flex h-9 border-b border-[var(--vscode-panel-border)] hover:bg-[var(--vscode-list-hoverBackground)]"
+      role="row"
+    >
+      <div className="grid h-full min-w-[760px] flex-1 grid-cols-[80px_110px_minmax(180px,1fr)_120px_150px_auto] items-center gap-3 px-3">
+        <span className="truncate font-mono text-[11px] text-[var(--vscode-descriptionForeground)]" role="cell">
+          {entry.shortHash}
+        </span>
+        <span className="truncate font-mono text-[11px]" role="cell">
+          {entry.selector}
+        </span>
+        <span className="flex min-w-0 items-center gap-2" role="cell">
+          <span className="shrink-0 rounded-[3px] bg-[var(--vscode-badge-background)] px-1.5 text-[10px] text-[var(--vscode-badge-foreground)]">
+            {entry.action}
+          </span>
+          <span className="truncate text-xs font-medium" title={entry.subject}>
+            {entry.message || entry.subject}
+          </span>
+        </span>
+        <span className="truncate text-[11px] text-[var(--vscode-descriptionForeground)]" role="cell">
+          {entry.author}
+        </span>
+        <span className="truncate text-[11px] text-[var(--vscode-descriptionForeground)]" role="cell">
+          {entry.date}
+        </span>
+        <span className="flex justify-end gap-1.5" role="cell">
+          <button
+            aria-label={`${labels.buttons.checkout} ${entry.selector}`}
+            className={secondaryButtonClassName}
+            disabled={busy}
+            onClick={() => onCheckoutEntry?.(entry)}
+            type="button"
+          >
+            {labels.buttons.checkout}
+          </button>
+          <button
+            aria-label={`${labels.buttons.createBranch} ${entry.selector}`}
+            className={secondaryButtonClassName}
+            disabled={busy}
+            onClick={() => onCreateBranch?.(entry)}
+            type="button"
+          >
+            {labels.buttons.createBranch}
+          </button>
+          <button
+            aria-label={`${labels.buttons.reset} ${entry.selector}`}
+            className={secondaryButtonClassName}
+            disabled={busy}
+            onClick={() => onResetEntry?.(entry)}
+            type="button"
+          >
+            {labels.buttons.reset}
+          </button>
+        </span>
+      </div>
+    </article>
+  );
+}
+
+const secondaryButtonClassName =
+  "rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-2 py-1 text-[11px] text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))] disabled:cursor-not-allowed disabled:opacity-50";
+
+const statusClasses = {
+  error:
+    "border-[var(--vscode-inputValidation-errorBorder)] bg-[var(--vscode-inputValidation-errorBackground)] text-[var(--vscode-inputValidation-errorForeground)]",
+  info: "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)]",
+  success:
+    "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] text-[var(--vscode-foreground)]"
+} as const;
+
+const defaultReflogBrowserLabels: ReflogBrowserLabels = {
+  buttons: {
+    checkout: "Checkout",
+    createBranch: "Branch",
+    reset: "Reset"
+  },
+  close: "Close Reflog Browser",
+  description: "Recover lost commits from where HEAD and branches have pointed before.",
+  empty: "No reflog entries found",
+  ref: "Reflog",
+  title: "Reflog"
+};
@@ -23,10 +23,15 @@ describe("SettingsMenu", () => {
       "configureProxy",
       "refreshProxy",
       "manageRemotes",
+      "manageWorktrees",
+      "manageSubmodules",
+      "browseReflog",
+      "exportGraphSvg",
+      "exportGraphPng",
       "configureAiProvider",
       "changeLanguage"
     ]);
-    expect(within(menu).getAllByRole("separator")).toHaveLength(3);
+    expect(within(menu).getAllByRole("separator")).toHaveLength(4);
     expect(menu).toHaveStyle({ left: "100px", top: "48px" });
   });
 
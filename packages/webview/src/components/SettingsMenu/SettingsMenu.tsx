@@ -5,6 +5,11 @@ export type SettingsMenuAction =
   | "configureProxy"
   | "refreshProxy"
   | "manageRemotes"
+  | "manageWorktrees"
+  | "manageSubmodules"
+  | "browseReflog"
+  | "exportGraphSvg"
+  | "exportGraphPng"
   | "configureAiProvider"
   | "changeLanguage";
 
@@ -19,7 +24,14 @@ const actionGroups: readonly (readonly SettingsMenuActionItem[])[] = [
   [
     { action: "configureProxy", icon: "P", label: "Configure Proxy" },
     { action: "refreshProxy", icon: "I", label: "Refresh Proxy" },
-    { action: "manageRemotes", icon: "G", label: "Manage Remotes" }
+    { action: "manageRemotes", icon: "G", label: "Manage Remotes" },
+    { action: "manageWorktrees", icon: "W", label: "Manage Worktrees" },
+    { action: "manageSubmodules", icon: "S", label: "Manage Submodules" },
+    { action: "browseReflog", icon: "H", label: "Browse Reflog" }
+  ],
+  [
+    { action: "exportGraphSvg", icon: "E", label: "Export Graph as SVG" },
+    { action: "exportGraphPng", icon: "E", label: "Export Graph as PNG" }
   ],
   [{ action: "configureAiProvider", icon: "A", label: "Configure AI Provider" }],
   [{ action: "changeLanguage", icon: "L", label: "Change Language" }]
@@ -0,0 +1,69 @@
+import type { ReactElement } from "react";
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react";
+import type { CommitSignatureStatus, CommitSignatureViewModel } from "../../app/rpcContract.generated";
+
+export interface SignatureBadgeLabels {
+  keyId: string;
+  signer: string;
+  states: Record<Exclude<CommitSignatureStatus, "none">, string>;
+}
+
+export const defaultSignatureBadgeLabels: SignatureBadgeLabels = {
+  keyId: "Key {0}",
+  signer: "Signed by {0}",
+  states: {
+    bad: "Bad signature",
+    good: "Verified signature",
+    unknown: "Unverified signature"
+  }
+};
+
+export interface SignatureBadgeProps {
+  labels?: Partial<SignatureBadgeLabels>;
+  showText?: boolean;
+  signature?: CommitSignatureViewModel;
+}
+
+export function SignatureBadge({ labels, showText = false, signature }: SignatureBadgeProps): ReactElement | null {
+  if (!signature || signature.status === "none") {
+    return null;
+  }
+
+  const text = { ...defaultSignatureBadgeLabels, ...labels };
+  const description = [
+    text.states[signature.status],
+    signature.signer ? formatLabel(text.signer, signature.signer) : undefined,
+    signature.keyId ? formatLabel(text.keyId, signature.keyId) : undefined
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  const Icon = signature.status === "good" ? ShieldCheck : signature.status === "bad" ? ShieldAlert : ShieldQuestion;
+
+  return (
+    <span
+      aria-label={description}
+      className="inline-flex shrink-0 items-center gap-1 text-[11px]"
+      data-signature-status={signature.status}
+      role="img"
+      style={{ color: signatureColor(signature.status) }}
+      title={description}
+    >
+      <Icon aria-hidden="true" size={13} />
+      {showText ? <span>{description}</span> : null}
+    </span>
+  );
+}
+
+function signatureColor(status: Exclude<CommitSignatureStatus, "none">): string {
+  const colors = {
+    bad: "var(--vscode-errorForeground)",
+    good: "var(--vscode-testing-iconPassed, #48bb78)",
+    unknown: "var(--vscode-editorWarning-foreground)"
+  } as const;
+
+  return colors[status];
+}
+
+function formatLabel(template: string, value: string): string {
+  return template.replace("{0}", value);
+}
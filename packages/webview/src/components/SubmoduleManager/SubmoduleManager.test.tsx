@@ -0,0 +1,76 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen, within } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SubmoduleManager } from "./SubmoduleManager";
+
+const submodules = [
+  {
+    describe: "v1.2.0",
+    hash: "1111111111111111111111111111111111111111",
+    name: "lib",
+    path: "vendor/lib",
+    rootPath: "/repo/vendor/lib",
+    state: "modified" as const,
+    url: "https://example.com/lib.git"
+  },
+  {
+    hash: "3333333333333333333333333333333333333333",
+    name: "site",
+    path: "docs/site",
+    rootPath: "/repo/docs/site",
+    state: "uninitialized" as const
+  }
+];
+
+describe("SubmoduleManager", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("lists submodules with their commit and state and sends row actions", async () => {
+    const user = userEvent.setup();
+    const onInitSubmodule = vi.fn();
+    const onOpenSubmodule = vi.fn();
+    const onUpdateSubmodule = vi.fn();
+
+    render(
+      <SubmoduleManager
+        onInitSubmodule={onInitSubmodule}
+        onOpenSubmodule={onOpenSubmodule}
+        onUpdateSubmodule={onUpdateSubmodule}
+        open
+        submodules={submodules}
+      />
+    );
+
+    const table = screen.getByRole("table", { name: "Git submodules" });
+    const libRow = within(table).getByRole("row", { name: "vendor/lib" });
+    const siteRow = within(table).getByRole("row", { name: "docs/site" });
+
+    expect(libRow).toHaveTextContent("11111111 (v1.2.0)");
+    expect(libRow).toHaveTextContent("modified");
+    expect(within(libRow).queryByRole("button", { name: "Init vendor/lib" })).not.toBeInTheDocument();
+    expect(siteRow).toHaveTextContent("not initialized");
+    expect(within(siteRow).getByRole("button", { name: "Open docs/site" })).toBeDisabled();
+
+    await user.click(within(libRow).getByRole("button", { name: "Open vendor/lib" }));
+    await user.click(within(libRow).getByRole("button", { name: "Update vendor/lib" }));
+    await user.click(within(siteRow).getByRole("button", { name: "Init docs/site" }));
+    await user.click(screen.getByRole("button", { name: "Update All" }));
+
+    expect(onOpenSubmodule).toHaveBeenCalledWith(submodules[0]);
+    expect(onInitSubmodule).toHaveBeenCalledWith("docs/site");
+    expect(onUpdateSubmodule.mock.calls).toEqual([["vendor/lib"], [undefined]]);
+  });
+
+  it("shows an empty state without submodules", () => {
+    render(<SubmoduleManager open />);
+
+    expect(screen.getByText("No submodules found")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Update All" })).toBeDisabled();
+  });
+});
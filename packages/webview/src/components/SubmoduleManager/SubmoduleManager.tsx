@@ -0,0 +1,249 @@
+import type { ReactElement } from "react";
+import type { SubmoduleState, SubmoduleViewModel } from "../../app/rpcContract.generated";
+import { IconTooltip } from "../IconTooltip/IconTooltip";
+
+export interface SubmoduleManagerStatus {
+  kind: "info" | "success" | "error";
+  message: string;
+}
+
+export interface SubmoduleManagerProps {
+  busy?: boolean;
+  labels?: SubmoduleManagerLabels;
+  onClose?: () => void;
+  onInitSubmodule?: (path: string) => void;
+  onOpenSubmodule?: (submodule: SubmoduleViewModel) => void;
+  onUpdateSubmodule?: (path: string | undefined) => void;
+  open: boolean;
+  status?: SubmoduleManagerStatus;
+  submodules?: readonly SubmoduleViewModel[];
+}
+
+export interface SubmoduleManagerLabels {
+  actions: string;
+  close: string;
+  commit: string;
+  description: string;
+  empty: string;
+  path: string;
+  title: string;
+  updateAll: string;
+  buttons: {
+    init: string;
+    open: string;
+    update: string;
+  };
+  states: Record<SubmoduleState, string>;
+}
+
+export function SubmoduleManager({
+  busy = false,
+  labels = defaultSubmoduleManagerLabels,
+  onClose,
+  onInitSubmodule,
+  onOpenSubmodule,
+  onUpdateSubmodule,
+  open,
+  status,
+  submodules = []
+}: SubmoduleManagerProps): ReactElement | null {
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div
+      aria-hidden="false"
+      className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/35 p-5"
+    >
+      <div
+        aria-labelledby="submodule-manager-title"
+        aria-modal="true"
+        className="flex max-h-[90vh] w-[min(820px,95%)] flex-col rounded-lg border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editor-background)] shadow-[0_18px_36px_rgba(0,0,0,0.45)]"
+        role="dialog"
+      >
+        <div className="flex justify-between gap-4 border-b border-[var(--vscode-panel-border)] px-5 py-4">
+          <div>
+            <h3 className="m-0 text-base" id="submodule-manager-title">
+              {labels.title}
+            </h3>
+            <p className="m-0 mt-1 text-xs text-[var(--vscode-descriptionForeground)]">
+              {labels.description}
+            </p>
+          </div>
+          <div className="flex items-start gap-2">
+            <button
+              className={secondaryButtonClassName}
+              disabled={busy || submodules.length === 0}
+              onClick={() => onUpdateSubmodule?.(undefined)}
+              type="button"
+            >
+              {labels.updateAll}
+            </button>
+            <button
+              aria-label={labels.close}
+              className="guigit-icon-tooltip-host h-6 w-6 rounded bg-transparent text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={onClose}
+              type="button"
+            >
+              x
+              <IconTooltip label={labels.close} placement="bottom" />
+            </button>
+          </div>
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-hidden px-5 py-4">
+          {status ? (
+            <div
+              className={`rounded border px-2.5 py-2 text-xs ${statusClasses[status.kind]}`}
+              role="status"
+            >
+              {status.message}
+            </div>
+          ) : null}
+          <div
+            aria-label="Git submodules"
+            className="flex min-h-0 flex-1 flex-col gap-2"
+            role="table"
+          >
+            <div
+              className="grid grid-cols-[1fr_180px_220px] items-center gap-3 border-b border-[var(--vscode-panel-border)] pb-2 text-xs uppercase text-[var(--vscode-descriptionForeground)]"
+              role="row"
+            >
+              <span role="columnheader">{labels.path}</span>
+              <span role="columnheader">{labels.commit}</span>
+              <span role="columnheader">{labels.actions}</span>
+            </div>
+            <div className="flex min-h-0 flex-1 flex-col gap-2 overflow-y-auto py-2">
+              {submodules.length > 0 ? (
+                submodules.map((submodule) => (
+                  <SubmoduleManagerRow
+                    busy={busy}
+                    key={submodule.path}
+                    labels={labels}
+                    onInitSubmodule={onInitSubmodule}
+                    onOpenSubmodule={onOpenSubmodule}
+                    onUpdateSubmodule={onUpdateSubmodule}
+                    submodule={submodule}
+                  />
+                ))
+              ) : (
+                <div className="flex flex-1 items-center justify-center rounded-md border border-dashed border-[var(--vscode-panel-border)] p-6 text-center text-[var(--vscode-descriptionForeground)]">
+                  {labels.empty}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface SubmoduleManagerRowProps {
+  busy: boolean;
+  labels: SubmoduleManagerLabels;
+  onInitSubmodule?: (path: string) => void;
+  onOpenSubmodule?: (submodule: SubmoduleViewModel) => void;
+  onUpdateSubmodule?: (path: string | undefined) => void;
+  submodule: SubmoduleViewModel;
+}
+
+function SubmoduleManagerRow({
+  busy,
+  labels,
+  onInitSubmodule,
+  onOpenSubmodule,
+  onUpdateSubmodule,
+  submodule
+}: SubmoduleManagerRowProps): ReactElement {
+  const uninitialized = submodule.state === "uninitialized";
+  const commitLabel = [submodule.hash?.slice(0, 8), submodule.describe ? `(${submodule.describe})` : undefined]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <div
+      aria-label={submodule.path}
+      className="grid grid-cols-[1fr_180px_220px] items-center gap-3 rounded-md border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] px-3 py-2.5"
+      role="row"
+    >
+      <div className="flex min-w-0 items-center gap-2" role="cell">
+        <span className="truncate font-mono text-xs" title={submodule.url ?? submodule.path}>
+          {submodule.path}
+        </span>
+        {submodule.state === "current" ? null : (
+          <span className="shrink-0 rounded-[3px] bg-[var(--vscode-badge-background)] px-1.5 text-[11px] text-[var(--vscode-badge-foreground)]">
+            {labels.states[submodule.state]}
+          </span>
+        )}
+      </div>
+      <div className="truncate font-mono text-xs" role="cell" title={commitLabel}>
+        {commitLabel}
+      </div>
+      <div className="flex justify-end gap-2" role="cell">
+        <button
+          aria-label={`${labels.buttons.open} ${submodule.path}`}
+          className={secondaryButtonClassName}
+          disabled={uninitialized}
+          onClick={() => onOpenSubmodule?.(submodule)}
+          type="button"
+        >
+          {labels.buttons.open}
+        </button>
+        {uninitialized ? (
+          <button
+            aria-label={`${labels.buttons.init} ${submodule.path}`}
+            className={secondaryButtonClassName}
+            disabled={busy}
+            onClick={() => onInitSubmodule?.(submodule.path)}
+            type="button"
+          >
+            {labels.buttons.init}
+          </button>
+        ) : null}
+        <button
+          aria-label={`${labels.buttons.update} ${submodule.path}`}
+          className={secondaryButtonClassName}
+          disabled={busy || submodule.state === "conflict"}
+          onClick={() => onUpdateSubmodule?.(submodule.path)}
+          type="button"
+        >
+          {labels.buttons.update}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const secondaryButtonClassName =
+  "rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-3 py-1.5 text-xs text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))] disabled:cursor-not-allowed disabled:opacity-50";
+
+const statusClasses = {
+  error:
+    "border-[var(--vscode-inputValidation-errorBorder)] bg-[var(--vscode-inputValidation-errorBackground)] text-[var(--vscode-inputValidation-errorForeground)]",
+  info: "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)]",
+  success:
+    "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] text-[var(--vscode-foreground)]"
+} as const;
+
+const defaultSubmoduleManagerLabels: SubmoduleManagerLabels = {
+  actions: "Actions",
+  buttons: {
+    init: "Init",
+    open: "Open",
+    update: "Update"
+  },
+  close: "Close Submodule Manager",
+  commit: "Commit",
+  description: "Initialize, update and open the submodules of the current repository.",
+  empty: "No submodules found",
+  path: "Path",
+  states: {
+    conflict: "conflict",
+    current: "current",
+    modified: "modified",
+    uninitialized: "not initialized"
+  },
+  title: "Submodule Manager",
+  updateAll: "Update All"
+};
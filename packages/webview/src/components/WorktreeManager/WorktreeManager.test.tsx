@@ -0,0 +1,105 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { cleanup, render, screen, within } from "@testing-library/react";
+import "@testing-library/jest-dom/vitest";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WorktreeManager } from "./WorktreeManager";
+
+const worktrees = [
+  { bare: false, branch: "main", current: true, detached: false, locked: false, main: true, path: "/repo", prunable: false },
+  {
+    bare: false,
+    branch: "hotfix/login",
+    current: false,
+    detached: false,
+    lockReason: "usb drive",
+    locked: true,
+    main: false,
+    path: "/work/hotfix",
+    prunable: false
+  },
+  {
+    bare: false,
+    current: false,
+    detached: true,
+    head: "3333333333333333333333333333333333333333",
+    locked: false,
+    main: false,
+    path: "/work/review",
+    prunable: false
+  }
+];
+
+describe("WorktreeManager", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("lists worktrees with their branch and state and sends row actions", async () => {
+    const user = userEvent.setup();
+    const onLockWorktree = vi.fn();
+    const onOpenWorktree = vi.fn();
+    const onPruneWorktrees = vi.fn();
+    const onRemoveWorktree = vi.fn();
+    const onUnlockWorktree = vi.fn();
+
+    render(
+      <WorktreeManager
+        onLockWorktree={onLockWorktree}
+        onOpenWorktree={onOpenWorktree}
+        onPruneWorktrees={onPruneWorktrees}
+        onRemoveWorktree={onRemoveWorktree}
+        onUnlockWorktree={onUnlockWorktree}
+        open
+        worktrees={worktrees}
+      />
+    );
+
+    const table = screen.getByRole("table", { name: "Git worktrees" });
+    const mainRow = within(table).getByRole("row", { name: "/repo" });
+    const hotfixRow = within(table).getByRole("row", { name: "/work/hotfix" });
+    const reviewRow = within(table).getByRole("row", { name: "/work/review" });
+
+    expect(mainRow).toHaveTextContent("main");
+    expect(mainRow).toHaveTextContent("current");
+    expect(within(mainRow).queryByRole("button", { name: "Remove /repo" })).not.toBeInTheDocument();
+    expect(within(hotfixRow).getByText("locked")).toHaveAttribute("title", "usb drive");
+    expect(within(hotfixRow).getByRole("button", { name: "Remove /work/hotfix" })).toBeDisabled();
+    expect(reviewRow).toHaveTextContent("detached at 33333333");
+
+    await user.click(within(hotfixRow).getByRole("button", { name: "Open /work/hotfix" }));
+    await user.click(within(hotfixRow).getByRole("button", { name: "Unlock /work/hotfix" }));
+    await user.click(within(reviewRow).getByRole("button", { name: "Lock /work/review" }));
+    await user.click(within(reviewRow).getByRole("button", { name: "Remove /work/review" }));
+    await user.click(screen.getByRole("button", { name: "Prune" }));
+
+    expect(onOpenWorktree).toHaveBeenCalledWith("/work/hotfix");
+    expect(onUnlockWorktree).toHaveBeenCalledWith("/work/hotfix");
+    expect(onLockWorktree).toHaveBeenCalledWith("/work/review");
+    expect(onRemoveWorktree).toHaveBeenCalledWith("/work/review");
+    expect(onPruneWorktrees).toHaveBeenCalledTimes(1);
+  });
+
+  it("adds a worktree from the prefilled branch or commit", async () => {
+    const user = userEvent.setup();
+    const onAddWorktree = vi.fn();
+
+    render(<WorktreeManager initialRef="abc1234" onAddWorktree={onAddWorktree} open worktrees={worktrees} />);
+
+    expect(screen.getByRole("textbox", { name: "Branch or commit" })).toHaveValue("abc1234");
+    expect(screen.getByRole("button", { name: "Add Worktree" })).toBeDisabled();
+
+    await user.type(screen.getByRole("textbox", { name: "Worktree path (e.g. ../hotfix)" }), "../review");
+    await user.click(screen.getByRole("button", { name: "Add Worktree" }));
+    await user.type(screen.getByRole("textbox", { name: "Worktree path (e.g. ../hotfix)" }), "../fix");
+    await user.type(screen.getByRole("textbox", { name: "New branch (optional)" }), "fix/login");
+    await user.click(screen.getByRole("button", { name: "Add Worktree" }));
+
+    expect(onAddWorktree.mock.calls).toEqual([
+      ["../review", "abc1234", undefined],
+      ["../fix", "abc1234", "fix/login"]
+    ]);
+  });
+});
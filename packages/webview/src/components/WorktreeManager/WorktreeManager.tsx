@@ -0,0 +1,350 @@
+import type { FormEvent, ReactElement } from "react";
+import { useEffect, useState } from "react";
+import type { WorktreeViewModel } from "../../app/rpcContract.generated";
+import { IconTooltip } from "../IconTooltip/IconTooltip";
+
+export interface WorktreeManagerStatus {
+  kind: "info" | "success" | "error";
+  message: string;
+}
+
+export interface WorktreeManagerProps {
+  busy?: boolean;
+  initialRef?: string;
+  labels?: WorktreeManagerLabels;
+  onAddWorktree?: (path: string, ref: string, newBranch: string | undefined) => void;
+  onClose?: () => void;
+  onLockWorktree?: (path: string) => void;
+  onOpenWorktree?: (path: string) => void;
+  onPruneWorktrees?: () => void;
+  onRemoveWorktree?: (path: string) => void;
+  onUnlockWorktree?: (path: string) => void;
+  open: boolean;
+  status?: WorktreeManagerStatus;
+  worktrees?: readonly WorktreeViewModel[];
+}
+
+export interface WorktreeManagerLabels {
+  actions: string;
+  addButton: string;
+  branch: string;
+  close: string;
+  description: string;
+  detached: string;
+  empty: string;
+  newBranchPlaceholder: string;
+  path: string;
+  pathPlaceholder: string;
+  prune: string;
+  refPlaceholder: string;
+  title: string;
+  badges: {
+    current: string;
+    locked: string;
+    main: string;
+    prunable: string;
+  };
+  buttons: {
+    lock: string;
+    open: string;
+    remove: string;
+    unlock: string;
+  };
+}
+
+export function WorktreeManager({
+  busy = false,
+  initialRef,
+  labels = defaultWorktreeManagerLabels,
+  onAddWorktree,
+  onClose,
+  onLockWorktree,
+  onOpenWorktree,
+  onPruneWorktrees,
+  onRemoveWorktree,
+  onUnlockWorktree,
+  open,
+  status,
+  worktrees = []
+}: WorktreeManagerProps): ReactElement | null {
+  const [newWorktreePath, setNewWorktreePath] = useState("");
+  const [newWorktreeRef, setNewWorktreeRef] = useState(initialRef ?? "");
+  const [newBranch, setNewBranch] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setNewWorktreeRef(initialRef ?? "");
+    }
+  }, [initialRef, open]);
+
+  if (!open) {
+    return null;
+  }
+
+  const submitNewWorktree = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const path = newWorktreePath.trim();
+    const ref = newWorktreeRef.trim();
+    if (!path || !ref) {
+      return;
+    }
+
+    onAddWorktree?.(path, ref, newBranch.trim() || undefined);
+    setNewWorktreePath("");
+    setNewBranch("");
+  };
+
+  return (
+    <div
+      aria-hidden="false"
+      className="fixed inset-0 z-[1100] flex items-center justify-center bg-black/35 p-5"
+    >
+      <div
+        aria-labelledby="worktree-manager-title"
+        aria-modal="true"
+        className="flex max-h-[90vh] w-[min(820px,95%)] flex-col rounded-lg border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editor-background)] shadow-[0_18px_36px_rgba(0,0,0,0.45)]"
+        role="dialog"
+      >
+        <div className="flex justify-between gap-4 border-b border-[var(--vscode-panel-border)] px-5 py-4">
+          <div>
+            <h3 className="m-0 text-base" id="worktree-manager-title">
+              {labels.title}
+            </h3>
+            <p className="m-0 mt-1 text-xs text-[var(--vscode-descriptionForeground)]">
+              {labels.description}
+            </p>
+          </div>
+          <div className="flex items-start gap-2">
+            <button className={secondaryButtonClassName} disabled={busy} onClick={onPruneWorktrees} type="button">
+              {labels.prune}
+            </button>
+            <button
+              aria-label={labels.close}
+              className="guigit-icon-tooltip-host h-6 w-6 rounded bg-transparent text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={onClose}
+              type="button"
+            >
+              x
+              <IconTooltip label={labels.close} placement="bottom" />
+            </button>
+          </div>
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-hidden px-5 pt-4">
+          {status ? (
+            <div
+              className={`rounded border px-2.5 py-2 text-xs ${statusClasses[status.kind]}`}
+              role="status"
+            >
+              {status.message}
+            </div>
+          ) : null}
+          <div
+            aria-label="Git worktrees"
+            className="flex min-h-0 flex-1 flex-col gap-2"
+            role="table"
+          >
+            <div
+              className="grid grid-cols-[1fr_180px_220px] items-center gap-3 border-b border-[var(--vscode-panel-border)] pb-2 text-xs uppercase text-[var(--vscode-descriptionForeground)]"
+              role="row"
+            >
+              <span role="columnheader">{labels.path}</span>
+              <span role="columnheader">{labels.branch}</span>
+              <span role="columnheader">{labels.actions}</span>
+            </div>
+            <div className="flex min-h-0 flex-1 flex-col gap-2 overflow-y-auto py-2">
+              {worktrees.length > 0 ? (
+                worktrees.map((worktree) => (
+                  <WorktreeManagerRow
+                    busy={busy}
+                    key={worktree.path}
+                    labels={labels}
+                    onLockWorktree={onLockWorktree}
+                    onOpenWorktree={onOpenWorktree}
+                    onRemoveWorktree={onRemoveWorktree}
+                    onUnlockWorktree={onUnlockWorktree}
+                    worktree={worktree}
+                  />
+                ))
+              ) : (
+                <div className="flex flex-1 items-center justify-center rounded-md border border-dashed border-[var(--vscode-panel-border)] p-6 text-center text-[var(--vscode-descriptionForeground)]">
+                  {labels.empty}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+        <form
+          className="grid grid-cols-[1fr_160px_160px_130px] gap-3 border-t border-[var(--vscode-panel-border)] px-5 py-4"
+          onSubmit={submitNewWorktree}
+        >
+          <input
+            aria-label={labels.pathPlaceholder}
+            className={inputClassName}
+            onChange={(event) => setNewWorktreePath(event.target.value)}
+            placeholder={labels.pathPlaceholder}
+            type="text"
+            value={newWorktreePath}
+          />
+          <input
+            aria-label={labels.refPlaceholder}
+            className={inputClassName}
+            onChange={(event) => setNewWorktreeRef(event.target.value)}
+            placeholder={labels.refPlaceholder}
+            type="text"
+            value={newWorktreeRef}
+          />
+          <input
+            aria-label={labels.newBranchPlaceholder}
+            className={inputClassName}
+            onChange={(event) => setNewBranch(event.target.value)}
+            placeholder={labels.newBranchPlaceholder}
+            type="text"
+            value={newBranch}
+          />
+          <button
+            className={primaryButtonClassName}
+            disabled={busy || !newWorktreePath.trim() || !newWorktreeRef.trim()}
+            type="submit"
+          >
+            {labels.addButton}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface WorktreeManagerRowProps {
+  busy: boolean;
+  labels: WorktreeManagerLabels;
+  onLockWorktree?: (path: string) => void;
+  onOpenWorktree?: (path: string) => void;
+  onRemoveWorktree?: (path: string) => void;
+  onUnlockWorktree?: (path: string) => void;
+  worktree: WorktreeViewModel;
+}
+
+function WorktreeManagerRow({
+  busy,
+  labels,
+  onLockWorktree,
+  onOpenWorktree,
+  onRemoveWorktree,
+  onUnlockWorktree,
+  worktree
+}: WorktreeManagerRowProps): ReactElement {
+  const badges = [
+    worktree.main ? labels.badges.main : undefined,
+    worktree.current ? labels.badges.current : undefined,
+    worktree.locked ? labels.badges.locked : undefined,
+    worktree.prunable ? labels.badges.prunable : undefined
+  ].filter((badge): badge is string => badge !== undefined);
+  const branchLabel = worktree.branch ?? (worktree.detached ? `${labels.detached} ${worktree.head?.slice(0, 8) ?? ""}`.trim() : "");
+
+  return (
+    <div
+      aria-label={worktree.path}
+      className="grid grid-cols-[1fr_180px_220px] items-center gap-3 rounded-md border border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] px-3 py-2.5"
+      role="row"
+    >
+      <div className="flex min-w-0 items-center gap-2" role="cell">
+        <span className="truncate font-mono text-xs" title={worktree.path}>
+          {worktree.path}
+        </span>
+        {badges.map((badge) => (
+          <span
+            className="shrink-0 rounded-[3px] bg-[var(--vscode-badge-background)] px-1.5 text-[11px] text-[var(--vscode-badge-foreground)]"
+            key={badge}
+            title={badge === labels.badges.locked ? worktree.lockReason : badge === labels.badges.prunable ? worktree.prunableReason : undefined}
+          >
+            {badge}
+          </span>
+        ))}
+      </div>
+      <div className="truncate text-xs" role="cell" title={branchLabel}>
+        {branchLabel}
+      </div>
+      <div className="flex justify-end gap-2" role="cell">
+        <button
+          aria-label={`${labels.buttons.open} ${worktree.path}`}
+          className={secondaryButtonClassName}
+          disabled={worktree.current || worktree.prunable}
+          onClick={() => onOpenWorktree?.(worktree.path)}
+          type="button"
+        >
+          {labels.buttons.open}
+        </button>
+        {worktree.main ? null : (
+          <>
+            <button
+              aria-label={`${worktree.locked ? labels.buttons.unlock : labels.buttons.lock} ${worktree.path}`}
+              className={secondaryButtonClassName}
+              disabled={busy}
+              onClick={() => (worktree.locked ? onUnlockWorktree : onLockWorktree)?.(worktree.path)}
+              type="button"
+            >
+              {worktree.locked ? labels.buttons.unlock : labels.buttons.lock}
+            </button>
+            <button
+              aria-label={`${labels.buttons.remove} ${worktree.path}`}
+              className={dangerButtonClassName}
+              disabled={busy || worktree.current || worktree.locked || worktree.prunable}
+              onClick={() => onRemoveWorktree?.(worktree.path)}
+              type="button"
+            >
+              {labels.buttons.remove}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputClassName =
+  "w-full rounded border border-[var(--vscode-input-border)] bg-[var(--vscode-input-background)] px-2 py-1.5 text-xs text-[var(--vscode-input-foreground)] outline-none focus:border-[var(--vscode-focusBorder)]";
+
+const primaryButtonClassName =
+  "rounded border border-[var(--vscode-button-border,transparent)] bg-[var(--vscode-button-background)] px-3 py-1.5 text-xs text-[var(--vscode-button-foreground)] disabled:cursor-not-allowed disabled:opacity-50";
+
+const secondaryButtonClassName =
+  "rounded bg-[var(--vscode-button-secondaryBackground,var(--vscode-button-background))] px-3 py-1.5 text-xs text-[var(--vscode-button-secondaryForeground,var(--vscode-button-foreground))] disabled:cursor-not-allowed disabled:opacity-50";
+
+const dangerButtonClassName =
+  "rounded border border-[var(--vscode-inputValidation-errorBorder)] bg-[var(--vscode-inputValidation-errorBackground)] px-3 py-1.5 text-xs text-[var(--vscode-inputValidation-errorForeground)] disabled:cursor-not-allowed disabled:opacity-50";
+
+const statusClasses = {
+  error:
+    "border-[var(--vscode-inputValidation-errorBorder)] bg-[var(--vscode-inputValidation-errorBackground)] text-[var(--vscode-inputValidation-errorForeground)]",
+  info: "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)]",
+  success:
+    "border-[var(--vscode-editorWidget-border)] bg-[var(--vscode-editorWidget-background)] text-[var(--vscode-foreground)]"
+} as const;
+
+const defaultWorktreeManagerLabels: WorktreeManagerLabels = {
+  actions: "Actions",
+  addButton: "Add Worktree",
+  badges: {
+    current: "current",
+    locked: "locked",
+    main: "main",
+    prunable: "prunable"
+  },
+  branch: "Branch",
+  buttons: {
+    lock: "Lock",
+    open: "Open",
+    remove: "Remove",
+    unlock: "Unlock"
+  },
+  close: "Close Worktree Manager",
+  description: "Check out branches or commits side by side in linked worktrees of the current repository.",
+  detached: "detached at",
+  empty: "No worktrees found",
+  newBranchPlaceholder: "New branch (optional)",
+  path: "Path",
+  pathPlaceholder: "Worktree path (e.g. ../hotfix)",
+  prune: "Prune",
+  refPlaceholder: "Branch or commit",
+  title: "Worktree Manager"
+};